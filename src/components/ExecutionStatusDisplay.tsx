@@ -11,13 +11,15 @@
  * - Error state with error messages
  * - Transaction hash display
  * - Execution metrics (gas used, profit estimate, etc.)
+ * - Preview (dry run) results with the transactions a real run would send
+ * - Execution timeline from the TEE trace (operations, service calls, retries, rollbacks)
  * 
  * @component
  */
 
 'use client';
 
-import type { ExecutionResult } from '@/types/strategy';
+import type { ExecutionResult, ExecutionTrace, ExecutionTraceSpan } from '@/types/strategy';
 
 /**
  * Props for the ExecutionStatusDisplay component
@@ -31,6 +33,8 @@ interface ExecutionStatusDisplayProps {
   error?: string;
   /** Task ID for tracking */
   taskId?: string;
+  /** Whether this is a preview (dry run) that sends no transactions */
+  isPreview?: boolean;
 }
 
 /**
@@ -42,13 +46,20 @@ interface ExecutionStatusDisplayProps {
  * - running: TEE container executing strategy
  * - completed: Execution finished successfully, show results
  * - failed: Execution failed, show error message
+ * 
+ * Previews run the same flow in the TEE with every transaction intercepted,
+ * so their results show simulated values and no transaction links.
  */
 export default function ExecutionStatusDisplay({
   status,
   result,
   error,
-  taskId
+  taskId,
+  isPreview = false
 }: ExecutionStatusDisplayProps) {
+  // Simulated transaction hashes do not exist on-chain; never link to them
+  const preview = isPreview || result?.dryRun === true;
+
   // Don't render anything if idle
   if (status === 'idle') {
     return null;
@@ -158,7 +169,7 @@ export default function ExecutionStatusDisplay({
                 </div>
                 <div className="flex items-center gap-2 text-sm text-blue-700">
                   <div className="w-4 h-4 border-2 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
-                  <span>Executing operations on Base mainnet...</span>
+                  <span>{preview ? 'Simulating operations with live Base mainnet data...' : 'Executing operations on Base mainnet...'}</span>
                 </div>
               </div>
 
@@ -193,10 +204,12 @@ export default function ExecutionStatusDisplay({
             </div>
             <div className="flex-1">
               <h3 className="text-lg font-semibold text-green-900 mb-1">
-                Execution Completed Successfully
+                {preview ? 'Preview Completed' : 'Execution Completed Successfully'}
               </h3>
               <p className="text-green-700 text-sm">
-                Your strategy has been executed in the TEE. Results are shown below.
+                {preview
+                  ? 'Your strategy ran in the TEE without sending any transaction. This is what a real run would do.'
+                  : 'Your strategy has been executed in the TEE. Results are shown below.'}
               </p>
             </div>
           </div>
@@ -298,7 +311,7 @@ export default function ExecutionStatusDisplay({
                       )}
 
                       {/* Transaction Hash */}
-                      {position.transactionHash && (
+                      {position.transactionHash && !preview && (
                         <div className="mt-2 pt-2 border-t border-red-200">
                           <p className="text-xs text-gray-500 mb-1">Transaction:</p>
                           <a
@@ -366,7 +379,7 @@ export default function ExecutionStatusDisplay({
                       </div>
 
                       {/* Transaction Hash */}
-                      {trade.transactionHash && (
+                      {trade.transactionHash && !preview && (
                         <div className="pt-2 border-t border-blue-200">
                           <p className="text-xs text-gray-500 mb-1">Transaction:</p>
                           <a
@@ -420,6 +433,30 @@ export default function ExecutionStatusDisplay({
             )}
           </div>
 
+          {/* Simulated Transactions - Preview only */}
+          {preview && result.simulatedTransactions && result.simulatedTransactions.length > 0 && (
+            <div className="mt-4 bg-white rounded-lg p-4 border border-green-200">
+              <h4 className="text-sm font-semibold text-gray-700 mb-3">
+                Transactions a Real Run Would Send
+              </h4>
+              <ul className="space-y-2">
+                {result.simulatedTransactions.map((transaction, index) => (
+                  <li key={index} className="flex justify-between items-center text-sm">
+                    <span className="font-mono text-gray-800">
+                      {transaction.service}.{transaction.method}
+                    </span>
+                    <span className="text-xs text-gray-500">
+                      ~{Number(transaction.estimatedGas).toLocaleString()} gas
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Execution Timeline */}
+          {result.trace && <ExecutionTimeline trace={result.trace} />}
+
           {/* Task ID */}
           {taskId && (
             <div className="mt-4 bg-white rounded p-3 border border-green-200">
@@ -452,7 +489,7 @@ export default function ExecutionStatusDisplay({
             {/* Error Message */}
             <div className="flex-1">
               <h3 className="text-lg font-semibold text-red-900 mb-1">
-                Execution Failed
+                {preview ? 'Preview Failed' : 'Execution Failed'}
               </h3>
               <p className="text-red-700 text-sm mb-3">
                 {error || 'An error occurred during strategy execution. Please try again.'}
@@ -466,6 +503,9 @@ export default function ExecutionStatusDisplay({
                 </div>
               )}
 
+              {/* Execution Timeline - shows where the run went wrong */}
+              {result?.trace && <ExecutionTimeline trace={result.trace} />}
+
               {/* Troubleshooting Tips */}
               <div className="mt-4 bg-white rounded p-3 border border-red-200">
                 <p className="text-xs font-semibold text-gray-700 mb-2">Troubleshooting:</p>
@@ -483,3 +523,95 @@ export default function ExecutionStatusDisplay({
     </div>
   );
 }
+
+/**
+ * Formats a duration for the timeline
+ *
+ * @param ms - Duration in milliseconds
+ * @returns Duration in ms below one second, in seconds otherwise
+ */
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+/**
+ * ExecutionTimeline renders the trace of an execution as a timeline
+ *
+ * Each operation, service call and rollback is a row, indented under the span
+ * it ran in, with its start offset, its duration as a bar, its outcome and the
+ * warnings and errors it logged (retries, timeouts). Spans that never ended
+ * (e.g., cancelled by a crash) run to the end of the trace.
+ */
+function ExecutionTimeline({ trace }: { trace: ExecutionTrace }) {
+  const root = trace.spans.find(span => span.parentId === undefined);
+  if (!root) {
+    return null;
+  }
+
+  const end = Math.max(...trace.spans.map(span => span.endTime ?? span.startTime));
+  const total = Math.max(end - root.startTime, 1);
+
+  // Depth-first, so that every span is listed under the span it ran in
+  const rows: { span: ExecutionTraceSpan; depth: number }[] = [];
+  const addChildren = (parentId: string, depth: number) => {
+    trace.spans
+      .filter(span => span.parentId === parentId)
+      .forEach(span => {
+        rows.push({ span, depth });
+        addChildren(span.spanId, depth + 1);
+      });
+  };
+  addChildren(root.spanId, 0);
+
+  return (
+    <div className="mt-4 bg-white rounded-lg p-4 border border-gray-200">
+      <div className="flex justify-between items-center mb-3">
+        <h4 className="text-sm font-semibold text-gray-700">Execution Timeline</h4>
+        <span className="text-xs text-gray-500">{formatDuration(end - root.startTime)}</span>
+      </div>
+      <ul className="space-y-2">
+        {rows.map(({ span, depth }) => {
+          const offset = span.startTime - root.startTime;
+          const duration = (span.endTime ?? end) - span.startTime;
+          const failed = span.status === 'error';
+          const barColor = failed ? 'bg-red-400' : span.kind === 'rollback' ? 'bg-yellow-400' : 'bg-green-400';
+
+          return (
+            <li key={span.spanId} style={{ paddingLeft: `${depth * 16}px` }}>
+              <div className="flex justify-between items-center text-xs">
+                <span className={`font-mono ${span.kind === 'service_call' ? 'text-gray-500' : 'text-gray-800'}`}>
+                  {span.kind === 'rollback' ? `rollback ${span.name}` : span.name}
+                  {failed && span.attributes.code !== undefined && (
+                    <span className="ml-2 text-red-600">{String(span.attributes.code)}</span>
+                  )}
+                </span>
+                <span className="text-gray-500">
+                  +{formatDuration(offset)} · {formatDuration(duration)}
+                </span>
+              </div>
+              <div className="mt-1 h-1.5 bg-gray-100 rounded">
+                <div
+                  className={`h-1.5 rounded ${barColor}`}
+                  style={{
+                    marginLeft: `${(offset / total) * 100}%`,
+                    width: `${Math.max((duration / total) * 100, 1)}%`
+                  }}
+                />
+              </div>
+              {span.events.map((event, index) => (
+                <p
+                  key={index}
+                  className={`mt-1 text-xs ${event.level === 'error' ? 'text-red-600' : 'text-yellow-700'}`}
+                >
+                  {event.name}
+                  {event.attributes.attempt !== undefined && ` (attempt ${event.attributes.attempt})`}
+                </p>
+              ))}
+            </li>
+          );
+        })}
+      </ul>
+      <p className="mt-3 text-xs text-gray-400 font-mono break-all">Trace ID: {trace.traceId}</p>
+    </div>
+  );
+}
@@ -20,8 +20,10 @@
 
 'use client';
 
-import { useState, useEffect } from 'react';
-import type { StrategyConfig, ExecutionMode } from '@/types/strategy';
+import { useState, useEffect, useCallback } from 'react';
+import type { StrategyConfig, ExecutionMode, StrategyOperation } from '@/types/strategy';
+import { createFetchTransport, estimateFees } from '@/types/strategy';
+import { baseNetworkConfig } from '@/config/baseNetworkConfig';
 
 /**
  * Props for the StrategyConfigForm component
@@ -37,6 +39,8 @@ interface StrategyConfigFormProps {
   strategyId?: string;
   /** Whether to show funding rates (optional, default: false) */
   showFundingRates?: boolean;
+  /** Serialized operations of the strategy, priced for the gas estimate (optional) */
+  operations?: StrategyOperation[];
 }
 
 /**
@@ -50,15 +54,17 @@ interface ValidationErrors {
 
 /**
  * Gas cost estimates for strategy execution
- * These are rough estimates based on typical operation costs
+ * Priced from the strategy's operations at current Base network fees
  */
 interface GasEstimates {
   /** Estimated gas cost in USD */
   estimatedCostUSD: string;
   /** Estimated gas units */
   estimatedGasUnits: string;
-  /** Current gas price in Gwei */
+  /** Current gas price (base fee + priority fee) in Gwei */
   gasPriceGwei: string;
+  /** Error message if the estimate could not be refreshed */
+  error?: string;
 }
 
 /**
@@ -96,7 +102,8 @@ export default function StrategyConfigForm({
   onChange,
   disabled = false,
   strategyId,
-  showFundingRates = false
+  showFundingRates = false,
+  operations
 }: StrategyConfigFormProps) {
   // Local state for validation errors
   const [errors, setErrors] = useState<ValidationErrors>({});
@@ -119,58 +126,40 @@ export default function StrategyConfigForm({
   /**
    * Estimate gas costs for strategy execution
    * 
-   * Gas Cost Calculation:
-   * - Base cost: ~200,000 gas for typical strategy execution
-   * - Per operation: ~100,000 gas per operation (spot buy, perpetual short)
-   * - Typical strategy: 2-3 operations = ~400,000 gas total
-   * - Gas price: Fetched from Base network or estimated at 0.001 Gwei
-   * - ETH price: Estimated at $3000 for USD conversion
+   * Gas Cost Calculation (shared with the TEE, see tee/schema/feeEstimation.ts):
+   * - Gas units: per operation that sends a transaction (perpetual trades,
+   *   spot order approvals); checks and waits are free, and conditionals
+   *   count their most expensive branch
+   * - L2 fee: gas units × (current base fee + priority fee) on Base
+   * - L1 data fee: priced by the Base GasPriceOracle for each transaction
+   * - ETH price: Chainlink ETH/USD feed on Base
    * 
-   * Note: These are rough estimates. Actual costs vary based on:
-   * - Network congestion
-   * - Operation complexity
-   * - DEX liquidity
-   * - Number of operations in strategy
+   * Without operations there is nothing to price and the estimate stays empty.
+   * When the network cannot be read, the last estimate is kept and an error
+   * is shown.
    */
-  const estimateGasCosts = async () => {
+  const estimateGasCosts = useCallback(async () => {
+    if (!operations) {
+      return;
+    }
+
     try {
-      // Estimate gas units for typical strategy execution
-      // Base cost: 200k gas for TEE initialization and setup
-      // Per operation: 100k gas (spot buy, perpetual short, etc.)
-      // Typical funding rate strategy: 3 operations (check rate, open short, spot buy)
-      const baseGas = 200000;
-      const operationGas = 100000;
-      const operationCount = 3; // Typical for funding rate strategy
-      const estimatedGasUnits = baseGas + (operationGas * operationCount);
-
-      // Estimate gas price on Base network
-      // Base typically has very low gas prices (~0.001 Gwei)
-      // For estimation, we use a conservative 0.01 Gwei
-      const gasPriceGwei = 0.01;
-
-      // Calculate gas cost in ETH
-      // 1 Gwei = 10^-9 ETH
-      const gasCostETH = (estimatedGasUnits * gasPriceGwei) / 1e9;
-
-      // Convert to USD (estimate ETH at $3000)
-      const ethPriceUSD = 3000;
-      const gasCostUSD = gasCostETH * ethPriceUSD;
+      const estimate = await estimateFees(createFetchTransport(baseNetworkConfig.rpcUrl), operations);
+      const gasPriceWei = BigInt(estimate.baseFeePerGas) + BigInt(estimate.priorityFeePerGas);
 
       setGasEstimates({
-        estimatedCostUSD: gasCostUSD.toFixed(2),
-        estimatedGasUnits: estimatedGasUnits.toString(),
-        gasPriceGwei: gasPriceGwei.toFixed(4)
+        estimatedCostUSD: estimate.totalFeeUSD.toFixed(2),
+        estimatedGasUnits: estimate.gasUnits.toString(),
+        gasPriceGwei: (Number(gasPriceWei) / 1e9).toFixed(4)
       });
     } catch (error) {
       console.error('Failed to estimate gas costs:', error);
-      // Set default estimates on error
-      setGasEstimates({
-        estimatedCostUSD: '0.12',
-        estimatedGasUnits: '500000',
-        gasPriceGwei: '0.01'
-      });
+      setGasEstimates(prev => ({
+        ...prev,
+        error: 'Live gas estimate unavailable'
+      }));
     }
-  };
+  }, [operations]);
 
   /**
    * Fetch current funding rates for perpetual positions
@@ -370,10 +359,10 @@ export default function StrategyConfigForm({
     validateAll();
   }, [config.executionMode]);
 
-  // Estimate gas costs on mount and when capital allocation changes
+  // Estimate gas costs on mount and when the operations change
   useEffect(() => {
     estimateGasCosts();
-  }, [config.capitalAllocation]);
+  }, [estimateGasCosts]);
 
   // Fetch funding rates on mount if enabled
   useEffect(() => {
@@ -572,9 +561,15 @@ export default function StrategyConfigForm({
             <span>{gasEstimates.gasPriceGwei} Gwei</span>
           </div>
         </div>
-        <p className="text-xs text-blue-600 mt-2">
-          💡 Base network typically has very low gas costs. Actual costs may vary based on network congestion.
-        </p>
+        {gasEstimates.error ? (
+          <p className="text-xs text-red-600 mt-2">
+            {gasEstimates.error}. Showing the last known estimate.
+          </p>
+        ) : (
+          <p className="text-xs text-blue-600 mt-2">
+            💡 Priced from this strategy&apos;s operations at current Base network fees. Actual costs may vary with network congestion.
+          </p>
+        )}
       </div>
 
       {/* Current Funding Rates (Optional) */}
@@ -7,6 +7,7 @@
  * Features:
  * - Strategy configuration form
  * - Execute button with validation
+ * - Preview button that runs the strategy without sending transactions
  * - Real-time execution status
  * - Result display
  * - Configuration persistence
@@ -16,9 +17,9 @@
 
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useAccount } from 'wagmi';
-import type { Strategy, StrategyConfig } from '@/types/strategy';
+import type { Strategy, StrategyConfig, StrategyOperation } from '@/types/strategy';
 import StrategyConfigForm from './StrategyConfigForm';
 import ExecutionStatusDisplay from './ExecutionStatusDisplay';
 import { IExecExecutionService } from '@/services/IExecExecutionService';
@@ -60,6 +61,11 @@ const DEFAULT_CONFIG: StrategyConfig = {
  * 5. Modal polls for execution status
  * 6. Results are displayed when complete
  * 
+ * Preview:
+ * - The same flow with dryRun set, so the TEE reads live rates and quotes
+ *   but sends no transaction
+ * - Once the preview completes, the user can run the strategy for real
+ * 
  * State Management:
  * - Configuration is persisted to localStorage
  * - Execution status is tracked in component state
@@ -86,6 +92,16 @@ export default function StrategyExecutionModal({
   const [executionResult, setExecutionResult] = useState<any>();
   const [executionError, setExecutionError] = useState<string | undefined>();
   const [isExecuting, setIsExecuting] = useState(false);
+  const [isPreview, setIsPreview] = useState(false);
+
+  // Operations priced by the gas estimate, when the strategy exposes them
+  // (memoized so the estimate is not refreshed on every render)
+  const operations = useMemo(
+    () => 'getOperations' in strategy
+      ? (strategy as Strategy & { getOperations(): StrategyOperation[] }).getOperations()
+      : undefined,
+    [strategy]
+  );
 
   /**
    * Load saved configuration from localStorage on mount
@@ -167,7 +183,17 @@ export default function StrategyExecutionModal({
   };
 
   /**
-   * Execute the strategy
+   * Execute the strategy for real
+   */
+  const handleExecute = () => runStrategy(false);
+
+  /**
+   * Preview the strategy: run it in the TEE without sending transactions
+   */
+  const handlePreview = () => runStrategy(true);
+
+  /**
+   * Run the strategy, either for real or as a preview (dry run)
    * 
    * Execution Flow:
    * 1. Validate configuration
@@ -181,8 +207,10 @@ export default function StrategyExecutionModal({
    * - Strategy execution requires Base mainnet
    * - User is prompted to switch if on wrong network
    * - Execution proceeds only after successful network switch
+   * 
+   * @param dryRun - Whether to preview the strategy without sending transactions
    */
-  const handleExecute = async () => {
+  const runStrategy = async (dryRun: boolean) => {
     if (!address) {
       setExecutionError('Please connect your wallet');
       return;
@@ -218,6 +246,7 @@ export default function StrategyExecutionModal({
 
     try {
       setIsExecuting(true);
+      setIsPreview(dryRun);
       setExecutionStatus('pending');
       setExecutionError(undefined);
       setExecutionResult(undefined);
@@ -227,6 +256,7 @@ export default function StrategyExecutionModal({
         userAddress: address,
         config,
         network: 'Base mainnet',
+        dryRun,
       });
 
       // Execute strategy via iExec service
@@ -234,11 +264,10 @@ export default function StrategyExecutionModal({
       // 1. Verify ownership via Data Protector
       // 2. Prepare TEE input with config and protected data reference
       // 3. Create iExec task for TEE execution
-      const result = await executionService.executeStrategy(
-        strategy.id,
-        address,
-        config
-      );
+      // Previews ask the TEE to intercept every transaction
+      const result = dryRun
+        ? await executionService.executeStrategy(strategy.id, address, config, { dryRun: true })
+        : await executionService.executeStrategy(strategy.id, address, config);
 
       if (!result.success) {
         throw new Error(result.error || 'Execution failed');
@@ -340,6 +369,7 @@ export default function StrategyExecutionModal({
     setTaskId(undefined);
     setExecutionResult(undefined);
     setExecutionError(undefined);
+    setIsPreview(false);
 
     onClose();
   };
@@ -425,6 +455,7 @@ export default function StrategyExecutionModal({
                   disabled={isExecuting}
                   strategyId={strategy.id}
                   showFundingRates={strategy.id === 'funding-rates-strategy'}
+                  operations={operations}
                 />
 
                 {/* Error Message - Responsive styling */}
@@ -502,6 +533,14 @@ export default function StrategyExecutionModal({
                       'Execute Strategy'
                     )}
                   </button>
+                  <button
+                    onClick={handlePreview}
+                    disabled={isExecuting || isSwitching}
+                    className="secondary text-sm sm:text-base"
+                    aria-label="Preview strategy"
+                  >
+                    Preview
+                  </button>
                   <button
                     onClick={handleResetConfig}
                     disabled={isExecuting}
@@ -520,14 +559,25 @@ export default function StrategyExecutionModal({
               result={executionResult}
               error={executionError}
               taskId={taskId}
+              isPreview={isPreview}
             />
 
             {/* Close Button - Show after execution completes */}
             {(executionStatus === 'completed' || executionStatus === 'failed') && (
-              <div className="mt-6">
+              <div className="mt-6 flex flex-col sm:flex-row gap-3">
+                {/* A successful preview can be followed by the real run */}
+                {isPreview && executionStatus === 'completed' && (
+                  <button
+                    onClick={handleExecute}
+                    className="primary flex-1 text-sm sm:text-base"
+                    aria-label="Execute strategy"
+                  >
+                    Execute Strategy
+                  </button>
+                )}
                 <button 
                   onClick={handleClose} 
-                  className="primary w-full text-sm sm:text-base"
+                  className={`${isPreview && executionStatus === 'completed' ? 'secondary' : 'primary w-full'} text-sm sm:text-base`}
                   aria-label="Close modal"
                 >
                   Close
@@ -71,6 +71,37 @@ describe('ExecutionStatusDisplay', () => {
     expect(screen.getByText('+$125.50')).toBeInTheDocument(); // Profit estimate
   });
 
+  it('displays preview results without transaction links', () => {
+    const mockResult: ExecutionResult = {
+      success: true,
+      executedOperations: 2,
+      dryRun: true,
+      simulatedTransactions: [
+        { service: 'perpetual', method: 'openShort', params: { pair: 'BTC/USDC' }, estimatedGas: '100000' },
+        { service: 'oneInch', method: 'executeFusionSwap', params: { asset: 'BTC' }, estimatedGas: '150000' },
+      ],
+      metrics: {
+        positions: [
+          {
+            type: 'short',
+            ticker: 'BTC/USDC',
+            entryPrice: '50000',
+            size: '0.1',
+            leverage: 2,
+            transactionHash: '0x0000000000000000000000000000000000000000000000000000000000000000',
+          },
+        ],
+      },
+    };
+
+    render(<ExecutionStatusDisplay status="completed" result={mockResult} />);
+
+    expect(screen.getByText('Preview Completed')).toBeInTheDocument();
+    expect(screen.getByText('perpetual.openShort')).toBeInTheDocument();
+    expect(screen.getByText('oneInch.executeFusionSwap')).toBeInTheDocument();
+    expect(screen.queryByRole('link')).not.toBeInTheDocument();
+  });
+
   it('displays failed state with error message', () => {
     render(
       <ExecutionStatusDisplay
@@ -184,6 +215,48 @@ describe('ExecutionStatusDisplay', () => {
     expect(explanations.length).toBeGreaterThan(0);
   });
 
+  it('displays the execution timeline from the TEE trace', () => {
+    const mockResult: ExecutionResult = {
+      success: false,
+      executedOperations: 2,
+      trace: {
+        traceId: 'trace-123',
+        spans: [
+          { spanId: '1', name: 'strategy', kind: 'strategy', startTime: 0, endTime: 4000, status: 'error', attributes: {}, events: [] },
+          { spanId: '2', parentId: '1', name: 'open_short', kind: 'operation', startTime: 0, endTime: 1200, status: 'ok', attributes: { order: 1 }, events: [] },
+          { spanId: '3', parentId: '2', name: 'perpetual.openShort', kind: 'service_call', startTime: 100, endTime: 1100, status: 'ok', attributes: {}, events: [] },
+          {
+            spanId: '4',
+            parentId: '1',
+            name: 'spot_buy',
+            kind: 'operation',
+            startTime: 1200,
+            endTime: 3500,
+            status: 'error',
+            attributes: { order: 2, code: 'SPOT_BUY_FAILED' },
+            events: [{ name: 'Retrying operation', level: 'warn', time: 2000, attributes: { attempt: 2 } }]
+          },
+          { spanId: '5', parentId: '1', name: 'open_short', kind: 'rollback', startTime: 3500, endTime: 4000, status: 'ok', attributes: {}, events: [] }
+        ],
+      },
+    };
+
+    render(
+      <ExecutionStatusDisplay
+        status="completed"
+        result={mockResult}
+      />
+    );
+
+    expect(screen.getByText('Execution Timeline')).toBeInTheDocument();
+    expect(screen.getByText('perpetual.openShort')).toBeInTheDocument();
+    expect(screen.getByText('SPOT_BUY_FAILED')).toBeInTheDocument();
+    expect(screen.getByText('Retrying operation (attempt 2)')).toBeInTheDocument();
+    expect(screen.getByText('rollback open_short')).toBeInTheDocument();
+    expect(screen.getByText('+1.2s · 2.3s')).toBeInTheDocument();
+    expect(screen.getByText('Trace ID: trace-123')).toBeInTheDocument();
+  });
+
   it('displays default error message when no error provided', () => {
     render(
       <ExecutionStatusDisplay
@@ -5,7 +5,13 @@
 import { describe, it, expect, vi } from 'vitest';
 import { render, screen, fireEvent } from '@testing-library/react';
 import StrategyConfigForm from '../StrategyConfigForm';
-import type { StrategyConfig } from '@/types/strategy';
+import { OperationType, estimateFees } from '@/types/strategy';
+import type { FeeEstimate, StrategyConfig, StrategyOperation } from '@/types/strategy';
+
+vi.mock('@/types/strategy', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/types/strategy')>()),
+  estimateFees: vi.fn()
+}));
 
 describe('StrategyConfigForm', () => {
   const mockConfig: StrategyConfig = {
@@ -164,6 +170,34 @@ describe('StrategyConfigForm', () => {
 
       expect(screen.getByText('Est. Gas Cost:')).toBeInTheDocument();
     });
+
+    const operations: StrategyOperation[] = [
+      { type: OperationType.OPEN_SHORT, order: 1, params: { ticker: 'ETH/USDC', size: 50, leverage: 1 } }
+    ];
+
+    it('prices the strategy operations at current network fees', async () => {
+      vi.mocked(estimateFees).mockResolvedValueOnce({
+        baseFeePerGas: '5000000',
+        priorityFeePerGas: '1000000',
+        gasUnits: 450000,
+        totalFeeUSD: 1.234
+      } as FeeEstimate);
+
+      render(<StrategyConfigForm config={mockConfig} onChange={mockOnChange} operations={operations} />);
+
+      expect(await screen.findByText('~450,000 gas')).toBeInTheDocument();
+      expect(screen.getByText('0.0060 Gwei')).toBeInTheDocument();
+      expect(screen.getAllByText('$1.23').length).toBeGreaterThan(0);
+      expect(estimateFees).toHaveBeenCalledWith(expect.any(Function), operations);
+    });
+
+    it('reports when the network fees cannot be read', async () => {
+      vi.mocked(estimateFees).mockRejectedValueOnce(new Error('ETH/USD price feed answer is stale'));
+
+      render(<StrategyConfigForm config={mockConfig} onChange={mockOnChange} operations={operations} />);
+
+      expect(await screen.findByText(/Live gas estimate unavailable/)).toBeInTheDocument();
+    });
   });
 
   describe('Capital Allocation Validation', () => {
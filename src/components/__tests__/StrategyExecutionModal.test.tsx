@@ -12,6 +12,7 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import StrategyExecutionModal from '../StrategyExecutionModal';
 import type { Strategy } from '@/types/strategy';
+import type { IExecExecutionService } from '@/services/IExecExecutionService';
 
 // Mock wagmi
 vi.mock('wagmi', () => ({
@@ -335,6 +336,58 @@ describe('StrategyExecutionModal', () => {
       // Modal should not close
       expect(onClose).not.toHaveBeenCalled();
     });
+
+    it('previews the strategy as a dry run, then offers the real run', async () => {
+      mockExecutionService.executeStrategy.mockResolvedValue({
+        success: true,
+        taskId: '0xpreview-task-id',
+      });
+
+      mockExecutionService.getExecutionStatus.mockResolvedValue({
+        status: 'completed',
+        result: {
+          success: true,
+          executedOperations: 3,
+          dryRun: true,
+          simulatedTransactions: [
+            { service: 'perpetual', method: 'openShort', params: {}, estimatedGas: '100000' },
+          ],
+        },
+      });
+
+      render(
+        <StrategyExecutionModal
+          strategy={mockStrategy}
+          isOpen={true}
+          onClose={vi.fn()}
+          executionService={mockExecutionService as unknown as IExecExecutionService}
+        />
+      );
+
+      fireEvent.click(screen.getByRole('button', { name: /Preview strategy/i }));
+
+      await waitFor(() => {
+        expect(screen.getByText('Preview Completed')).toBeInTheDocument();
+      });
+
+      expect(mockExecutionService.executeStrategy).toHaveBeenCalledWith(
+        mockStrategy.id,
+        '0x1234567890123456789012345678901234567890',
+        expect.objectContaining({ executionMode: 'instant' }),
+        { dryRun: true }
+      );
+      expect(screen.getByText('perpetual.openShort')).toBeInTheDocument();
+
+      fireEvent.click(screen.getByRole('button', { name: /Execute strategy/i }));
+
+      await waitFor(() => {
+        expect(mockExecutionService.executeStrategy).toHaveBeenLastCalledWith(
+          mockStrategy.id,
+          '0x1234567890123456789012345678901234567890',
+          expect.objectContaining({ executionMode: 'instant' })
+        );
+      });
+    });
   });
 
 
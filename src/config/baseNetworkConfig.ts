@@ -19,6 +19,21 @@
  * - Use block explorers to confirm contract authenticity
  */
 
+/**
+ * Native USDC on Base mainnet
+ */
+export const BASE_USDC_ADDRESS = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+
+/**
+ * Wrapped ETH on Base mainnet (OP Stack predeploy)
+ */
+export const BASE_WETH_ADDRESS = '0x4200000000000000000000000000000000000006';
+
+/**
+ * Coinbase Wrapped BTC on Base mainnet
+ */
+export const BASE_CBBTC_ADDRESS = '0xcbB7C0000aB88B473b1f5aFd9ef808440eed33Bf';
+
 /**
  * Base Network Configuration Interface
  */
@@ -32,6 +47,19 @@ export interface BaseNetworkConfig {
   /** Block explorer URL */
   explorerUrl: string;
   
+  /** 1inch API the TEE places Fusion orders through (default: the 1inch Dev Portal API) */
+  fusionApiUrl?: string;
+  
+  /** When the TEE's spot buys fail over from 1inch Fusion to Uniswap V3 */
+  spotFailover: {
+    /** Whether spot buys go through 1inch Fusion first; when false, they all go through Uniswap V3 */
+    fusionEnabled: boolean;
+    /** Fail over when Fusion has no quote */
+    onQuoteUnavailable: boolean;
+    /** Fail over when a Fusion market order expires unfilled */
+    onOrderExpired: boolean;
+  };
+  
   /** DEX and protocol contract addresses */
   contracts: {
     /** 1inch Fusion contract for spot trading */
@@ -39,9 +67,17 @@ export interface BaseNetworkConfig {
     
     /** Perpetual DEX contract for shorts */
     perpetualDex?: string;
+    /** Avantis TradingStorage contract, holding open trades (when perpetualDex is Avantis Trading) */
+    avantisTradingStorage?: string;
+    /** Avantis PairInfos contract, reporting funding rates */
+    avantisPairInfos?: string;
+    /** AvantisPositionPredicate, conditioning hedging Fusion orders on the short */
+    avantisPositionPredicate?: string;
     
-    /** Optional: Uniswap V3 Router for fallback swaps */
+    /** Optional: Uniswap V3 SwapRouter02 for fallback swaps */
     uniswapV3Router?: string;
+    /** Optional: Uniswap V3 QuoterV2 fallback routes are quoted with (the TEE defaults to Base's) */
+    uniswapV3Quoter?: string;
     
     /** Optional: Aave Pool for lending operations */
     aavePool?: string;
@@ -58,9 +94,15 @@ export interface BaseNetworkConfig {
  * - NEXT_PUBLIC_BASE_RPC_URL: Custom RPC endpoint (optional)
  * - NEXT_PUBLIC_ONEINCH_FUSION_ADDRESS: 1inch Fusion contract (optional; only if NEXT_PUBLIC_ENABLE_1INCH=true)
  * - NEXT_PUBLIC_PERPETUAL_DEX_ADDRESS: Perpetual DEX contract (required if NEXT_PUBLIC_PERPS_PROTOCOL != 'none')
- * - NEXT_PUBLIC_UNISWAP_V3_ROUTER: Uniswap V3 Router (optional)
+ * - NEXT_PUBLIC_AVANTIS_TRADING_STORAGE: Avantis TradingStorage contract (required for 'avantis')
+ * - NEXT_PUBLIC_AVANTIS_PAIR_INFOS: Avantis PairInfos contract (required for 'avantis')
+ * - NEXT_PUBLIC_AVANTIS_POSITION_PREDICATE: AvantisPositionPredicate contract (optional)
+ * - NEXT_PUBLIC_ONEINCH_API_URL: 1inch API, or a proxy adding the API key (optional)
+ * - NEXT_PUBLIC_UNISWAP_V3_ROUTER: Uniswap V3 SwapRouter02 (required unless NEXT_PUBLIC_ENABLE_1INCH=true)
+ * - NEXT_PUBLIC_UNISWAP_V3_QUOTER: Uniswap V3 QuoterV2 (optional)
  * - NEXT_PUBLIC_AAVE_POOL: Aave Pool contract (optional)
- * - NEXT_PUBLIC_ENABLE_1INCH: 'true' to require 1inch address, else optional
+ * - NEXT_PUBLIC_ENABLE_1INCH: 'true' to swap spot through 1inch Fusion first, failing over to
+ *   Uniswap V3; otherwise spot swaps go through Uniswap V3
  * - NEXT_PUBLIC_PERPS_PROTOCOL: perps protocol key, e.g., 'avantis' | 'gmx' | 'synthetix' | 'dydx' | 'none'
  * 
  * Contract Address Sources:
@@ -86,6 +128,16 @@ export const baseNetworkConfig: BaseNetworkConfig = {
   // Block explorer for transaction verification
   explorerUrl: 'https://basescan.org',
   
+  // 1inch API for Fusion orders; a proxy keeps the API key out of the task input
+  fusionApiUrl: process.env.NEXT_PUBLIC_ONEINCH_API_URL,
+  
+  // Spot buys fail over to Uniswap V3 when Fusion is disabled or cannot fill them
+  spotFailover: {
+    fusionEnabled: process.env.NEXT_PUBLIC_ENABLE_1INCH === 'true',
+    onQuoteUnavailable: true,
+    onOrderExpired: true,
+  },
+  
   // DEX and protocol contract addresses
   contracts: {
     // 1inch Fusion contract for spot trading
@@ -101,11 +153,19 @@ export const baseNetworkConfig: BaseNetworkConfig = {
     // - Synthetix Perps: https://docs.synthetix.io/integrations/perps-integration-guide/
     // - dYdX: https://docs.dydx.exchange/
     perpetualDex: process.env.NEXT_PUBLIC_PERPETUAL_DEX_ADDRESS,
+    // Avantis TradingStorage and PairInfos, read by the TEE's Avantis adapter
+    // (perpetualDex is then the Avantis Trading contract)
+    // Documentation: https://docs.avantisfi.com/
+    avantisTradingStorage: process.env.NEXT_PUBLIC_AVANTIS_TRADING_STORAGE,
+    avantisPairInfos: process.env.NEXT_PUBLIC_AVANTIS_PAIR_INFOS,
+    // contracts/AvantisPositionPredicate.sol, deployed for the Avantis TradingStorage
+    avantisPositionPredicate: process.env.NEXT_PUBLIC_AVANTIS_POSITION_PREDICATE,
     
-    // Optional: Uniswap V3 Router for fallback swaps
-    // Used for: Backup spot trading if 1inch is unavailable
+    // Optional: Uniswap V3 SwapRouter02 and QuoterV2 for fallback swaps
+    // Used for: Backup spot trading if 1inch is disabled or unavailable
     // Documentation: https://docs.uniswap.org/contracts/v3/reference/deployments
     uniswapV3Router: process.env.NEXT_PUBLIC_UNISWAP_V3_ROUTER,
+    uniswapV3Quoter: process.env.NEXT_PUBLIC_UNISWAP_V3_QUOTER,
     
     // Optional: Aave Pool for lending operations
     // Used for: Future strategies involving lending/borrowing
@@ -136,6 +196,21 @@ export function validateBaseNetworkConfig(): {
     missing.push('NEXT_PUBLIC_PERPETUAL_DEX_ADDRESS');
   }
   
+  // Without 1inch Fusion, spot swaps only go through Uniswap V3
+  if (!baseNetworkConfig.spotFailover.fusionEnabled && !baseNetworkConfig.contracts.uniswapV3Router) {
+    missing.push('NEXT_PUBLIC_UNISWAP_V3_ROUTER');
+  }
+  
+  // The TEE's Avantis adapter also reads open trades and funding rates
+  if (process.env.NEXT_PUBLIC_PERPS_PROTOCOL === 'avantis') {
+    if (!baseNetworkConfig.contracts.avantisTradingStorage) {
+      missing.push('NEXT_PUBLIC_AVANTIS_TRADING_STORAGE');
+    }
+    if (!baseNetworkConfig.contracts.avantisPairInfos) {
+      missing.push('NEXT_PUBLIC_AVANTIS_PAIR_INFOS');
+    }
+  }
+  
   return {
     isValid: missing.length === 0,
     missingAddresses: missing,
@@ -180,12 +255,25 @@ export function formatBaseConfigForTEE() {
     chainId: baseNetworkConfig.chainId,
     rpcUrl: baseNetworkConfig.rpcUrl,
     explorerUrl: baseNetworkConfig.explorerUrl,
+    fusionApiUrl: baseNetworkConfig.fusionApiUrl || '',
+    spotFailover: baseNetworkConfig.spotFailover,
     contracts: {
       oneInchFusion: baseNetworkConfig.contracts.oneInchFusion || '',
       perpetualDex: baseNetworkConfig.contracts.perpetualDex || '',
+      avantisTradingStorage: baseNetworkConfig.contracts.avantisTradingStorage || '',
+      avantisPairInfos: baseNetworkConfig.contracts.avantisPairInfos || '',
+      avantisPositionPredicate: baseNetworkConfig.contracts.avantisPositionPredicate || '',
       uniswapV3Router: baseNetworkConfig.contracts.uniswapV3Router || '',
+      uniswapV3Quoter: baseNetworkConfig.contracts.uniswapV3Quoter || '',
       aavePool: baseNetworkConfig.contracts.aavePool || '',
     },
+    tokens: {
+      // Perpetual collateral and spot quote
+      USDC: { address: BASE_USDC_ADDRESS, decimals: 6 },
+      // Spot assets
+      WETH: { address: BASE_WETH_ADDRESS, decimals: 18 },
+      cbBTC: { address: BASE_CBBTC_ADDRESS, decimals: 8 },
+    },
   };
 }
 
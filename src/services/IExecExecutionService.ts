@@ -168,7 +168,7 @@ export class IExecExecutionService {
      * 
      * The TEE will:
      * - Decrypt the protected strategy operations
-     * - Execute operations sequentially on Base mainnet
+     * - Execute operations in dependency order on Base mainnet
      * - Return sanitized results (transactions, PnL, gas used)
      * 
      * Security:
@@ -180,6 +180,8 @@ export class IExecExecutionService {
      * @param strategyId - ID of the strategy to execute
      * @param userAddress - Address of the user executing the strategy
      * @param config - User configuration for strategy execution
+     * @param options - Execution options
+     * @param options.dryRun - Preview the strategy in the TEE without sending transactions
      * @returns Execution request result with task ID for tracking
      * 
      * @example
@@ -203,7 +205,8 @@ export class IExecExecutionService {
     async executeStrategy(
         strategyId: string,
         userAddress: string,
-        config: StrategyConfig
+        config: StrategyConfig,
+        options: { dryRun?: boolean } = {}
     ): Promise<ExecutionRequestResult> {
         this.ensureInitialized();
 
@@ -248,6 +251,7 @@ export class IExecExecutionService {
                 userAddress: addressValidation.sanitizedValue,
                 executionMode: config.executionMode,
                 capitalAllocation: config.capitalAllocation,
+                dryRun: options.dryRun === true,
             });
 
             // Step 1: Verify ownership via Data Protector
@@ -280,7 +284,8 @@ export class IExecExecutionService {
             const teeInput = this.prepareTEEInput(
                 ownership.protectedDataAddress,
                 config,
-                userAddress
+                userAddress,
+                options.dryRun === true
             );
 
             console.log('[IExecExecution] TEE input prepared');
@@ -345,12 +350,14 @@ export class IExecExecutionService {
      * @param protectedDataAddress - Address of encrypted strategy data
      * @param config - User execution configuration
      * @param userAddress - User's wallet address
+     * @param dryRun - Whether the TEE should intercept transactions instead of sending them
      * @returns Formatted input for TEE execution
      */
     private prepareTEEInput(
         protectedDataAddress: string,
         config: StrategyConfig,
-        userAddress: string
+        userAddress: string,
+        dryRun: boolean = false
     ): any {
         // Prepare network configuration for Base mainnet
         // The TEE will use this to connect to the blockchain
@@ -380,6 +387,9 @@ export class IExecExecutionService {
 
             // Network configuration
             network: networkConfig,
+
+            // Preview mode: the TEE reads live data but sends no transactions
+            dryRun,
         };
 
         console.log('[IExecExecution] TEE input structure:', {
@@ -387,6 +397,7 @@ export class IExecExecutionService {
             executionMode: config.executionMode,
             capitalAllocation: config.capitalAllocation,
             network: networkConfig.chainId,
+            dryRun,
         });
 
         return teeInput;
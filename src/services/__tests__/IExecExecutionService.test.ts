@@ -90,6 +90,28 @@ describe('IExecExecutionService', () => {
       expect(result.taskId).toMatch(/^0x[0-9a-f]+$/);
     });
 
+    it('should ask the TEE for a dry run when previewing', async () => {
+      const createTask = vi.spyOn(
+        service as unknown as { createIExecTask: (teeInput: unknown) => Promise<string> },
+        'createIExecTask'
+      );
+      const config: StrategyConfig = {
+        executionMode: 'instant',
+        slippageTolerance: 1.0,
+        capitalAllocation: '1000',
+      };
+
+      const result = await service.executeStrategy(
+        'btc-delta-neutral',
+        '0xUserAddress',
+        config,
+        { dryRun: true }
+      );
+
+      expect(result.success).toBe(true);
+      expect(createTask).toHaveBeenCalledWith(expect.objectContaining({ dryRun: true }));
+    });
+
     it('should verify ownership before execution', async () => {
       const config: StrategyConfig = {
         executionMode: 'instant',
@@ -22,7 +22,9 @@ import {
   StrategyConfig,
   ValidationResult,
   OperationType,
-  RiskLevel
+  RiskLevel,
+  validateStrategy,
+  CURRENT_FORMAT_VERSION
 } from '../types/strategy';
 
 /**
@@ -110,9 +112,11 @@ export class DemoRealStrategy implements Strategy {
    * Serializes the strategy operations for TEE transmission
    * 
    * @returns JSON string containing all operations with their parameters
+   * @throws Error if an operation does not match the shared operation schema
    */
   serialize(): string {
     const serializable = {
+      formatVersion: CURRENT_FORMAT_VERSION,
       strategyId: this.id,
       strategyName: this.name,
       version: '1.0.0',
@@ -124,6 +128,12 @@ export class DemoRealStrategy implements Strategy {
       }))
     };
     
+    // Reject operations the TEE would refuse before they are encrypted
+    const validation = validateStrategy(serializable);
+    if (!validation.isValid) {
+      throw new Error(`Invalid strategy operations: ${validation.errors.join('; ')}`);
+    }
+    
     return JSON.stringify(serializable);
   }
   
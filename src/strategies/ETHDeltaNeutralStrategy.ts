@@ -9,7 +9,8 @@ import {
   StrategyOperation,
   StrategyConfig,
   ValidationResult,
-  RiskLevel
+  RiskLevel,
+  CURRENT_FORMAT_VERSION
 } from '../types/strategy';
 import { StrategyBuilder } from '../types/strategyBuilder';
 
@@ -44,7 +45,7 @@ export class ETHDeltaNeutralStrategy implements Strategy {
     this.operations = builder
       // Check if ETH funding rate is favorable on Synthetix
       .checkFundingRate('ETH/USDC', {
-        minRate: 0.01, // Only execute if funding rate > 0.01%
+        minRate: 0.01, // Only execute if funding rate >= 1% (rates are decimals)
         exchange: 'synthetix-v3',
         label: 'fundingCheck'
       })
@@ -65,6 +66,7 @@ export class ETHDeltaNeutralStrategy implements Strategy {
   
   serialize(): string {
     return JSON.stringify({
+      formatVersion: CURRENT_FORMAT_VERSION,
       strategyId: this.id,
       strategyName: this.name,
       version: '1.0.0',
@@ -32,7 +32,9 @@ import {
   StrategyConfig,
   ValidationResult,
   OperationType,
-  RiskLevel
+  RiskLevel,
+  validateStrategy,
+  CURRENT_FORMAT_VERSION
 } from '../types/strategy';
 
 /**
@@ -97,7 +99,7 @@ export class FundingRatesStrategy implements Strategy {
         order: 1,
         params: {
           ticker: 'BTC/USDC',           // Trading pair on Avantis
-          minRate: 0.01,                 // Minimum 0.01% funding rate (1 basis point)
+          minRate: 0.01,                 // Minimum 1% funding rate (rates are decimals)
           exchange: 'avantis'            // Use Avantis perpetual DEX
         }
       },
@@ -142,6 +144,7 @@ export class FundingRatesStrategy implements Strategy {
    * Serializes the strategy operations for TEE transmission.
    * 
    * The serialized format is a JSON string containing:
+   * - Serialization format version, which the TEE uses to migrate older payloads
    * - Strategy metadata (id, name, version)
    * - Array of operations with their types, order, and parameters
    * 
@@ -162,10 +165,12 @@ export class FundingRatesStrategy implements Strategy {
    * The TEE decrypts and executes the operations securely.
    * 
    * @returns JSON string containing all operations with their parameters
+   * @throws Error if an operation does not match the shared operation schema
    */
   serialize(): string {
     // Create a serializable object containing strategy metadata and operations
     const serializable = {
+      formatVersion: CURRENT_FORMAT_VERSION,
       strategyId: this.id,
       strategyName: this.name,
       version: '1.0.0',
@@ -177,6 +182,12 @@ export class FundingRatesStrategy implements Strategy {
       }))
     };
     
+    // Reject operations the TEE would refuse before they are encrypted
+    const validation = validateStrategy(serializable);
+    if (!validation.isValid) {
+      throw new Error(`Invalid strategy operations: ${validation.errors.join('; ')}`);
+    }
+    
     // Convert to JSON string for transmission to TEE
     // The TEE OperationFactory will deserialize this back into operation instances:
     // - CheckFundingRateOperation for CHECK_FUNDING_RATE
@@ -9,7 +9,9 @@ import {
   StrategyConfig,
   ValidationResult,
   OperationType,
-  RiskLevel
+  RiskLevel,
+  validateStrategy,
+  CURRENT_FORMAT_VERSION
 } from '../types/strategy';
 
 /**
@@ -76,10 +78,12 @@ export class MockStrategy implements Strategy {
    * The serialized format can be deserialized by the TEE OperationFactory
    * 
    * @returns JSON string containing all operations with their parameters
+   * @throws Error if an operation does not match the shared operation schema
    */
   serialize(): string {
     // Create a serializable object containing all operations
     const serializable = {
+      formatVersion: CURRENT_FORMAT_VERSION,
       strategyId: this.id,
       strategyName: this.name,
       version: '1.0.0',
@@ -90,6 +94,12 @@ export class MockStrategy implements Strategy {
       }))
     };
     
+    // Reject operations the TEE would refuse before they are encrypted
+    const validation = validateStrategy(serializable);
+    if (!validation.isValid) {
+      throw new Error(`Invalid strategy operations: ${validation.errors.join('; ')}`);
+    }
+    
     // Convert to JSON string for transmission to TEE
     // The TEE OperationFactory will deserialize this back into operation instances
     return JSON.stringify(serializable);
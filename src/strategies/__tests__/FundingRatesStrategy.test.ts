@@ -5,7 +5,7 @@
 
 import { describe, it, expect } from 'vitest';
 import { FundingRatesStrategy } from '../FundingRatesStrategy';
-import { OperationType, StrategyConfig } from '../../types/strategy';
+import { OperationType, StrategyConfig, CURRENT_FORMAT_VERSION } from '../../types/strategy';
 
 describe('FundingRatesStrategy', () => {
   describe('constructor', () => {
@@ -99,6 +99,7 @@ describe('FundingRatesStrategy', () => {
       expect(parsed.strategyId).toBe('funding-rates-strategy-001');
       expect(parsed.strategyName).toBe('BTC Funding Rate Arbitrage');
       expect(parsed.version).toBe('1.0.0');
+      expect(parsed.formatVersion).toBe(CURRENT_FORMAT_VERSION);
     });
     
     it('should include all operations in serialization', () => {
@@ -349,7 +350,7 @@ describe('FundingRatesStrategy', () => {
       operations.push({
         type: OperationType.MOCK_OPERATION,
         order: 4,
-        params: {}
+        params: { message: 'external' }
       });
       
       const freshOperations = strategy.getOperations();
@@ -3,6 +3,8 @@
  * These interfaces define the core data structures for strategies, operations, and execution
  */
 
+import type { OperationType, SerializedOperation } from '../../tee/schema/operationSchema';
+
 /**
  * Risk level classification for strategies
  */
@@ -16,33 +18,73 @@ export type RiskLevel = 'low' | 'medium' | 'high';
 export type ExecutionMode = 'instant' | 'optimized';
 
 /**
- * Operation types supported by the TEE executor
+ * Operation types and parameter interfaces are defined once in the shared
+ * schema module, which the TEE also uses to validate operations before
+ * instantiating them. Re-exported here so app code keeps a single import path.
  */
-export enum OperationType {
-    // Testing
-    MOCK_OPERATION = 'mock_operation',
-
-    // Spot Trading
-    SPOT_BUY = 'spot_buy',
-    SPOT_SELL = 'spot_sell',
-
-    // Perpetual Positions - Long
-    OPEN_LONG = 'open_long',
-    CLOSE_LONG = 'close_long',
-
-    // Perpetual Positions - Short
-    OPEN_SHORT = 'open_short',
-    CLOSE_SHORT = 'close_short',
-
-    // Market Analysis (read-only operations)
-    CHECK_FUNDING_RATE = 'check_funding_rate',
-    CHECK_PRICE = 'check_price',
-    CHECK_LIQUIDITY = 'check_liquidity',
-
-    // Conditional Logic
-    CONDITIONAL = 'conditional',
-    WAIT = 'wait'
-}
+export {
+    OperationType,
+    OPERATION_SCHEMAS,
+    CURRENT_FORMAT_VERSION,
+    MAX_RETRY_ATTEMPTS,
+    validateOperation,
+    validateOperations,
+    validateStrategy,
+    validateReferences,
+    getReferencedLabels,
+    validateStateKeys,
+    STATE_KEYS,
+    isStateKey,
+    isResultReference,
+    resultRef,
+    isOperationType
+} from '../../tee/schema/operationSchema';
+
+/**
+ * A deployed TEE app reports the operation types and parameters it supports
+ * in a manifest; checkManifestSupport() tells whether a strategy is
+ * executable by that app version.
+ */
+export { checkManifestSupport } from '../../tee/schema/manifest';
+export type { OperationManifest, OperationManifestEntry } from '../../tee/schema/manifest';
+
+/**
+ * Network fees are estimated from a strategy's serialized operations with the
+ * same estimator the TEE checks profitability with.
+ */
+export { createFetchTransport, estimateFees, estimateOperationGas } from '../../tee/schema/feeEstimation';
+export type {
+    RpcTransport,
+    FeeEstimate,
+    OperationFeeEstimate,
+    FeeEstimationOptions
+} from '../../tee/schema/feeEstimation';
+
+export type {
+    ResultReference,
+    StateKey,
+    Decimal,
+    BaseOperationParams,
+    MockOperationParams,
+    SpotBuyParams,
+    SpotSellParams,
+    OpenLongParams,
+    OpenShortParams,
+    CloseLongParams,
+    CloseShortParams,
+    CheckFundingRateParams,
+    CheckPriceParams,
+    CheckLiquidityParams,
+    ConditionalParams,
+    WaitParams,
+    WaitRefreshSource,
+    OperationParamsMap,
+    OperationParams,
+    SerializedStrategy,
+    RetryPolicy,
+    SchemaValidationResult,
+    FieldSpec
+} from '../../tee/schema/operationSchema';
 
 /**
  * Main strategy interface representing a tradable strategy in the marketplace
@@ -79,204 +121,12 @@ export interface Strategy {
     encryptedOperations?: string;
 }
 
-/**
- * Base parameters for all trading operations
- */
-export interface BaseOperationParams {
-    /** 
-     * Trading pair ticker (e.g., 'ETH/USDC', 'BTC/USDC')
-     * Use USDC as quote currency for Base network compatibility
-     */
-    ticker: string;
-
-    /** 
-     * Protocol to execute on
-     * - '1inch-fusion' for spot trading (SPOT_BUY, SPOT_SELL)
-     * - 'avantis' for perpetuals (OPEN_LONG, OPEN_SHORT, CLOSE_LONG, CLOSE_SHORT, CHECK_FUNDING_RATE)
-     * See src/config/protocols.ts for available protocols
-     */
-    exchange?: string;
-}
-
-/**
- * Parameters for spot buy operations
- */
-export interface SpotBuyParams extends BaseOperationParams {
-    /** Amount to buy (in base currency or percentage of capital) */
-    amount: string;
-
-    /** Whether amount is a percentage of allocated capital */
-    isPercentage?: boolean;
-
-    /** Maximum price willing to pay (optional, for limit orders) */
-    maxPrice?: string;
-}
-
-/**
- * Parameters for spot sell operations
- */
-export interface SpotSellParams extends BaseOperationParams {
-    /** Amount to sell (in base currency or percentage of holdings) */
-    amount: string;
-
-    /** Whether amount is a percentage of current holdings */
-    isPercentage?: boolean;
-
-    /** Minimum price willing to accept (optional, for limit orders) */
-    minPrice?: string;
-}
-
-/**
- * Parameters for opening long positions
- */
-export interface OpenLongParams extends BaseOperationParams {
-    /** Position size (in base currency or percentage of capital) */
-    size: string;
-
-    /** Whether size is a percentage of allocated capital */
-    isPercentage?: boolean;
-
-    /** Leverage multiplier (e.g., 2, 5, 10) */
-    leverage: number;
-
-    /** Stop loss price (optional) */
-    stopLoss?: string;
-
-    /** Take profit price (optional) */
-    takeProfit?: string;
-}
-
-/**
- * Parameters for opening short positions
- */
-export interface OpenShortParams extends BaseOperationParams {
-    /** Position size (in base currency or percentage of capital) */
-    size: string;
-
-    /** Whether size is a percentage of allocated capital */
-    isPercentage?: boolean;
-
-    /** Leverage multiplier (e.g., 2, 5, 10) */
-    leverage: number;
-
-    /** Stop loss price (optional) */
-    stopLoss?: string;
-
-    /** Take profit price (optional) */
-    takeProfit?: string;
-}
-
-/**
- * Parameters for closing long positions
- */
-export interface CloseLongParams extends BaseOperationParams {
-    /** Amount to close (in base currency or percentage of position) */
-    amount?: string;
-
-    /** Whether to close entire position */
-    closeAll?: boolean;
-
-    /** Minimum price to accept for closing */
-    minPrice?: string;
-}
-
-/**
- * Parameters for closing short positions
- */
-export interface CloseShortParams extends BaseOperationParams {
-    /** Amount to close (in base currency or percentage of position) */
-    amount?: string;
-
-    /** Whether to close entire position */
-    closeAll?: boolean;
-
-    /** Maximum price to accept for closing */
-    maxPrice?: string;
-}
-
-/**
- * Parameters for checking funding rates
- */
-export interface CheckFundingRateParams extends BaseOperationParams {
-    /** Minimum acceptable funding rate threshold */
-    minRate?: number;
-
-    /** Maximum acceptable funding rate threshold */
-    maxRate?: number;
-}
-
-/**
- * Parameters for checking prices
- */
-export interface CheckPriceParams extends BaseOperationParams {
-    /** Comparison operator */
-    operator: 'gt' | 'lt' | 'gte' | 'lte' | 'eq';
-
-    /** Target price to compare against */
-    targetPrice: string;
-}
-
-/**
- * Parameters for conditional operations
- */
-export interface ConditionalParams {
-    /** Condition to evaluate (references previous operation results) */
-    condition: string;
-
-    /** Operations to execute if condition is true */
-    thenOperations: StrategyOperation[];
-
-    /** Operations to execute if condition is false (optional) */
-    elseOperations?: StrategyOperation[];
-}
-
-/**
- * Parameters for wait operations
- */
-export interface WaitParams {
-    /** Duration to wait in milliseconds */
-    duration: number;
-
-    /** Optional condition to wait for */
-    condition?: string;
-}
-
-/**
- * Union type for all operation parameters
- */
-export type OperationParams =
-    | SpotBuyParams
-    | SpotSellParams
-    | OpenLongParams
-    | OpenShortParams
-    | CloseLongParams
-    | CloseShortParams
-    | CheckFundingRateParams
-    | CheckPriceParams
-    | ConditionalParams
-    | WaitParams
-    | Record<string, string | number | boolean | undefined>;
-
 /**
  * Strategy operation interface for TEE execution
- * Represents a single atomic operation that executes within the TEE
+ * Represents a single atomic operation that executes within the TEE; the
+ * params type is narrowed by the operation type
  */
-export interface StrategyOperation {
-    /** Type of operation to execute */
-    type: OperationType;
-
-    /** Execution order (operations execute sequentially by order) */
-    order: number;
-
-    /** Operation-specific parameters */
-    params: OperationParams;
-
-    /** Optional label for referencing this operation's result */
-    label?: string;
-
-    /** Whether this operation can fail without stopping execution */
-    optional?: boolean;
-}
+export type StrategyOperation<T extends OperationType = OperationType> = SerializedOperation<T>;
 
 /**
  * User configuration for strategy execution
@@ -361,6 +211,73 @@ export interface SpotTradeDetails {
     transactionHash: string;
 }
 
+/**
+ * Chain write that a preview (dry run) intercepted instead of sending
+ */
+export interface SimulatedTransaction {
+    /** Service that received the call */
+    service: 'perpetual' | 'oneInch' | 'wallet' | 'transactions';
+
+    /** Intercepted method (e.g., 'openShort', 'executeFusionSwap') */
+    method: string;
+
+    /** Call parameters */
+    params: Record<string, unknown>;
+
+    /** Estimated gas units for the transaction */
+    estimatedGas: string;
+}
+
+/**
+ * Span of an execution trace, as written by the TEE.
+ * Traces are redacted in the TEE: attributes carry operation types, orders,
+ * error codes, attempts, transaction hashes and gas, never strategy parameters.
+ */
+export interface ExecutionTraceSpan {
+    /** Identifier of the span, unique within its trace */
+    spanId: string;
+
+    /** Identifier of the enclosing span (none for the strategy span) */
+    parentId?: string;
+
+    /** Operation type, `service.method`, or 'strategy' */
+    name: string;
+
+    /** What the span covers */
+    kind: 'strategy' | 'operation' | 'service_call' | 'rollback';
+
+    /** Start time in milliseconds since the Unix epoch */
+    startTime: number;
+
+    /** End time in milliseconds since the Unix epoch (unset if the span never ended) */
+    endTime?: number;
+
+    /** How the span ended */
+    status?: 'ok' | 'error';
+
+    /** Redacted values describing the span (e.g., order, code, transactionHash) */
+    attributes: Record<string, string | number | boolean>;
+
+    /** Warnings and errors logged during the span (e.g., retries, timeouts) */
+    events: {
+        name: string;
+        level: 'info' | 'warn' | 'error';
+        time: number;
+        attributes: Record<string, string | number | boolean>;
+    }[];
+}
+
+/**
+ * Trace of a strategy execution in the TEE
+ */
+export interface ExecutionTrace {
+    /** Identifier found on every TEE log line of the execution */
+    traceId: string;
+
+    /** Spans, in start order */
+    spans: ExecutionTraceSpan[];
+}
+
 /**
  * Result of a strategy execution in the TEE
  * Contains execution status, transaction details, and metrics
@@ -375,6 +292,15 @@ export interface ExecutionResult {
     /** Error message if execution failed */
     error?: string;
 
+    /** Set when the execution was a preview; nothing was sent to the chain */
+    dryRun?: boolean;
+
+    /** Transactions a real run would send (previews only) */
+    simulatedTransactions?: SimulatedTransaction[];
+
+    /** Timeline of the execution: operations, service calls, retries and rollbacks */
+    trace?: ExecutionTrace;
+
     /** Execution metrics and performance data */
     metrics?: {
         /** Total gas used across all operations */
@@ -12,6 +12,7 @@
 import {
   StrategyOperation,
   OperationType,
+  Decimal,
   SpotBuyParams,
   SpotSellParams,
   OpenLongParams,
@@ -20,12 +21,19 @@ import {
   CloseShortParams,
   CheckFundingRateParams,
   CheckPriceParams,
-  WaitParams
+  CheckLiquidityParams,
+  WaitParams,
+  WaitRefreshSource,
+  RetryPolicy,
+  validateOperations
 } from './strategy';
 
 /**
  * Composable strategy builder for creating multi-operation strategies
- * Operations are executed sequentially in the TEE in the order they are added
+ * Operations are executed in the TEE in the order they are added, each one
+ * after all the operations added before it, except within a parallel group.
+ * build() validates every operation against the shared schema, so parameters
+ * the TEE would reject fail here rather than inside the enclave.
  * 
  * @example
  * ```typescript
@@ -44,15 +52,50 @@ import {
  *   })
  *   .build();
  * ```
+ * 
+ * Prices (and the spot sell amount) may reference the result of an earlier
+ * labelled operation; the TEE resolves them just before the operation runs:
+ * 
+ * ```typescript
+ * new StrategyBuilder()
+ *   .openShort('BTC/USDC', '50', 1, { isPercentage: true, label: 'shortPosition' })
+ *   .spotBuy('BTC/USDC', '50', { isPercentage: true, maxPrice: resultRef('shortPosition', 'entryPrice') })
+ *   .build();
+ * ```
+ * 
+ * Any operation may carry a retry policy, which the TEE applies after
+ * recoverable failures (e.g., a transient RPC error), and a time limit per
+ * attempt, after which the TEE cancels it:
+ * 
+ * ```typescript
+ * new StrategyBuilder()
+ *   .checkFundingRate('BTC/USDC', { minRate: 0.01, retry: { maxAttempts: 3, initialDelayMs: 2000 } })
+ *   .spotBuy('BTC/USDC', '50', { isPercentage: true, timeoutMs: 60000 })
+ *   .build();
+ * ```
+ * 
+ * Operations added in a parallel group run concurrently, and an operation
+ * with `dependsOn` only waits for the labelled operations it lists (and those
+ * it references) instead of everything added before it:
+ * 
+ * ```typescript
+ * new StrategyBuilder()
+ *   .parallel(group => group
+ *     .checkFundingRate('BTC/USDC', { minRate: 0.01, label: 'btcFunding' })
+ *     .checkFundingRate('ETH/USDC', { minRate: 0.01, label: 'ethFunding' }))
+ *   .openShort('BTC/USDC', '50', 1, { isPercentage: true, dependsOn: ['btcFunding'] })
+ *   .build();
+ * ```
  */
 export class StrategyBuilder {
   private operations: StrategyOperation[] = [];
   private currentOrder = 1;
+  private groupOrder?: number;
   
   /**
    * Add a spot buy operation (executes via 1inch Fusion)
    * @param ticker - Trading pair (e.g., 'ETH/USDC', 'BTC/USDC')
-   * @param amount - Amount to buy
+   * @param amount - Percentage of allocated capital to spend
    * @param options - Additional options
    * @param options.exchange - Protocol to use (recommended: '1inch-fusion')
    */
@@ -60,11 +103,16 @@ export class StrategyBuilder {
     ticker: string,
     amount: string,
     options?: {
-      isPercentage?: boolean;
-      maxPrice?: string;
+      isPercentage?: true;
+      maxPrice?: Decimal;
+      orderType?: 'market' | 'limit';
+      priceReference?: 'short_entry_price';
       exchange?: string;
       label?: string;
       optional?: boolean;
+      retry?: RetryPolicy;
+      timeoutMs?: number;
+      dependsOn?: string[];
     }
   ): this {
     const params: SpotBuyParams = {
@@ -72,15 +120,20 @@ export class StrategyBuilder {
       amount,
       isPercentage: options?.isPercentage,
       maxPrice: options?.maxPrice,
+      orderType: options?.orderType,
+      priceReference: options?.priceReference,
       exchange: options?.exchange
     };
     
     this.operations.push({
       type: OperationType.SPOT_BUY,
-      order: this.currentOrder++,
+      order: this.nextOrder(),
       params,
       label: options?.label,
-      optional: options?.optional
+      optional: options?.optional,
+      retry: options?.retry,
+      timeoutMs: options?.timeoutMs,
+      dependsOn: options?.dependsOn
     });
     
     return this;
@@ -95,13 +148,16 @@ export class StrategyBuilder {
    */
   spotSell(
     ticker: string,
-    amount: string,
+    amount: Decimal,
     options?: {
       isPercentage?: boolean;
-      minPrice?: string;
+      minPrice?: Decimal;
       exchange?: string;
       label?: string;
       optional?: boolean;
+      retry?: RetryPolicy;
+      timeoutMs?: number;
+      dependsOn?: string[];
     }
   ): this {
     const params: SpotSellParams = {
@@ -114,10 +170,13 @@ export class StrategyBuilder {
     
     this.operations.push({
       type: OperationType.SPOT_SELL,
-      order: this.currentOrder++,
+      order: this.nextOrder(),
       params,
       label: options?.label,
-      optional: options?.optional
+      optional: options?.optional,
+      retry: options?.retry,
+      timeoutMs: options?.timeoutMs,
+      dependsOn: options?.dependsOn
     });
     
     return this;
@@ -126,7 +185,7 @@ export class StrategyBuilder {
   /**
    * Add an open long position operation (executes via Avantis)
    * @param ticker - Trading pair (e.g., 'ETH/USDC', 'BTC/USDC')
-   * @param size - Position size
+   * @param size - Percentage of allocated capital used as collateral
    * @param leverage - Leverage multiplier
    * @param options - Additional options
    * @param options.exchange - Protocol to use (recommended: 'avantis')
@@ -136,12 +195,15 @@ export class StrategyBuilder {
     size: string,
     leverage: number,
     options?: {
-      isPercentage?: boolean;
-      stopLoss?: string;
-      takeProfit?: string;
+      isPercentage?: true;
+      stopLoss?: Decimal;
+      takeProfit?: Decimal;
       exchange?: string;
       label?: string;
       optional?: boolean;
+      retry?: RetryPolicy;
+      timeoutMs?: number;
+      dependsOn?: string[];
     }
   ): this {
     const params: OpenLongParams = {
@@ -156,10 +218,13 @@ export class StrategyBuilder {
     
     this.operations.push({
       type: OperationType.OPEN_LONG,
-      order: this.currentOrder++,
+      order: this.nextOrder(),
       params,
       label: options?.label,
-      optional: options?.optional
+      optional: options?.optional,
+      retry: options?.retry,
+      timeoutMs: options?.timeoutMs,
+      dependsOn: options?.dependsOn
     });
     
     return this;
@@ -168,7 +233,7 @@ export class StrategyBuilder {
   /**
    * Add an open short position operation (executes via Avantis)
    * @param ticker - Trading pair (e.g., 'ETH/USDC', 'BTC/USDC')
-   * @param size - Position size
+   * @param size - Percentage of allocated capital used as collateral
    * @param leverage - Leverage multiplier
    * @param options - Additional options
    * @param options.exchange - Protocol to use (recommended: 'avantis')
@@ -178,12 +243,15 @@ export class StrategyBuilder {
     size: string,
     leverage: number,
     options?: {
-      isPercentage?: boolean;
-      stopLoss?: string;
-      takeProfit?: string;
+      isPercentage?: true;
+      stopLoss?: Decimal;
+      takeProfit?: Decimal;
       exchange?: string;
       label?: string;
       optional?: boolean;
+      retry?: RetryPolicy;
+      timeoutMs?: number;
+      dependsOn?: string[];
     }
   ): this {
     const params: OpenShortParams = {
@@ -198,10 +266,13 @@ export class StrategyBuilder {
     
     this.operations.push({
       type: OperationType.OPEN_SHORT,
-      order: this.currentOrder++,
+      order: this.nextOrder(),
       params,
       label: options?.label,
-      optional: options?.optional
+      optional: options?.optional,
+      retry: options?.retry,
+      timeoutMs: options?.timeoutMs,
+      dependsOn: options?.dependsOn
     });
     
     return this;
@@ -217,16 +288,21 @@ export class StrategyBuilder {
     ticker: string,
     options?: {
       amount?: string;
+      isPercentage?: boolean;
       closeAll?: boolean;
-      minPrice?: string;
+      minPrice?: Decimal;
       exchange?: string;
       label?: string;
       optional?: boolean;
+      retry?: RetryPolicy;
+      timeoutMs?: number;
+      dependsOn?: string[];
     }
   ): this {
     const params: CloseLongParams = {
       ticker,
       amount: options?.amount,
+      isPercentage: options?.isPercentage,
       closeAll: options?.closeAll ?? true,
       minPrice: options?.minPrice,
       exchange: options?.exchange
@@ -234,10 +310,13 @@ export class StrategyBuilder {
     
     this.operations.push({
       type: OperationType.CLOSE_LONG,
-      order: this.currentOrder++,
+      order: this.nextOrder(),
       params,
       label: options?.label,
-      optional: options?.optional
+      optional: options?.optional,
+      retry: options?.retry,
+      timeoutMs: options?.timeoutMs,
+      dependsOn: options?.dependsOn
     });
     
     return this;
@@ -253,16 +332,21 @@ export class StrategyBuilder {
     ticker: string,
     options?: {
       amount?: string;
+      isPercentage?: boolean;
       closeAll?: boolean;
-      maxPrice?: string;
+      maxPrice?: Decimal;
       exchange?: string;
       label?: string;
       optional?: boolean;
+      retry?: RetryPolicy;
+      timeoutMs?: number;
+      dependsOn?: string[];
     }
   ): this {
     const params: CloseShortParams = {
       ticker,
       amount: options?.amount,
+      isPercentage: options?.isPercentage,
       closeAll: options?.closeAll ?? true,
       maxPrice: options?.maxPrice,
       exchange: options?.exchange
@@ -270,10 +354,13 @@ export class StrategyBuilder {
     
     this.operations.push({
       type: OperationType.CLOSE_SHORT,
-      order: this.currentOrder++,
+      order: this.nextOrder(),
       params,
       label: options?.label,
-      optional: options?.optional
+      optional: options?.optional,
+      retry: options?.retry,
+      timeoutMs: options?.timeoutMs,
+      dependsOn: options?.dependsOn
     });
     
     return this;
@@ -292,6 +379,9 @@ export class StrategyBuilder {
       maxRate?: number;
       exchange?: string;
       label?: string;
+      retry?: RetryPolicy;
+      timeoutMs?: number;
+      dependsOn?: string[];
     }
   ): this {
     const params: CheckFundingRateParams = {
@@ -303,9 +393,12 @@ export class StrategyBuilder {
     
     this.operations.push({
       type: OperationType.CHECK_FUNDING_RATE,
-      order: this.currentOrder++,
+      order: this.nextOrder(),
       params,
-      label: options?.label
+      label: options?.label,
+      retry: options?.retry,
+      timeoutMs: options?.timeoutMs,
+      dependsOn: options?.dependsOn
     });
     
     return this;
@@ -325,6 +418,9 @@ export class StrategyBuilder {
     options?: {
       exchange?: string;
       label?: string;
+      retry?: RetryPolicy;
+      timeoutMs?: number;
+      dependsOn?: string[];
     }
   ): this {
     const params: CheckPriceParams = {
@@ -336,9 +432,58 @@ export class StrategyBuilder {
     
     this.operations.push({
       type: OperationType.CHECK_PRICE,
-      order: this.currentOrder++,
+      order: this.nextOrder(),
       params,
-      label: options?.label
+      label: options?.label,
+      retry: options?.retry,
+      timeoutMs: options?.timeoutMs,
+      dependsOn: options?.dependsOn
+    });
+    
+    return this;
+  }
+  
+  /**
+   * Add a liquidity check operation
+   * Blocks execution when the allocated size would move the perpetual or spot
+   * market more than the allowed price impact
+   * @param ticker - Trading pair (e.g., 'BTC/USDC')
+   * @param options - Additional options
+   * @param options.maxPriceImpact - Maximum price impact in percent (defaults to the slippage tolerance)
+   */
+  checkLiquidity(
+    ticker: string,
+    options?: {
+      capitalPercentage?: number;
+      leverage?: number;
+      side?: 'long' | 'short';
+      checkSpot?: boolean;
+      maxPriceImpact?: number;
+      exchange?: string;
+      label?: string;
+      retry?: RetryPolicy;
+      timeoutMs?: number;
+      dependsOn?: string[];
+    }
+  ): this {
+    const params: CheckLiquidityParams = {
+      ticker,
+      capitalPercentage: options?.capitalPercentage,
+      leverage: options?.leverage,
+      side: options?.side,
+      checkSpot: options?.checkSpot,
+      maxPriceImpact: options?.maxPriceImpact,
+      exchange: options?.exchange
+    };
+    
+    this.operations.push({
+      type: OperationType.CHECK_LIQUIDITY,
+      order: this.nextOrder(),
+      params,
+      label: options?.label,
+      retry: options?.retry,
+      timeoutMs: options?.timeoutMs,
+      dependsOn: options?.dependsOn
     });
     
     return this;
@@ -346,36 +491,78 @@ export class StrategyBuilder {
   
   /**
    * Add a wait operation
-   * @param duration - Duration to wait in milliseconds
+   * @param duration - Duration to wait in milliseconds (timeout when a condition is set)
    * @param options - Additional options
+   * @param options.condition - Condition to poll for (e.g., 'state.fundingRate >= 0.01')
+   * @param options.pollInterval - Delay between condition checks in milliseconds
+   * @param options.refresh - Live data sources refreshed before each check
    */
   wait(
     duration: number,
     options?: {
       condition?: string;
+      pollInterval?: number;
+      refresh?: WaitRefreshSource[];
       label?: string;
+      retry?: RetryPolicy;
+      timeoutMs?: number;
+      dependsOn?: string[];
     }
   ): this {
     const params: WaitParams = {
       duration,
-      condition: options?.condition
+      condition: options?.condition,
+      pollInterval: options?.pollInterval,
+      refresh: options?.refresh
     };
     
     this.operations.push({
       type: OperationType.WAIT,
-      order: this.currentOrder++,
+      order: this.nextOrder(),
       params,
-      label: options?.label
+      label: options?.label,
+      retry: options?.retry,
+      timeoutMs: options?.timeoutMs,
+      dependsOn: options?.dependsOn
     });
     
     return this;
   }
   
+  /**
+   * Add a group of operations that run concurrently in the TEE
+   * Operations added inside the group share one order, so none of them waits
+   * for another; operations added after the group wait for all of them.
+   * @param build - Adds the operations of the group to the builder it receives
+   * @throws Error if groups are nested
+   */
+  parallel(build: (group: this) => void): this {
+    if (this.groupOrder !== undefined) {
+      throw new Error('Parallel groups cannot be nested');
+    }
+    
+    this.groupOrder = this.currentOrder++;
+    try {
+      build(this);
+    } finally {
+      this.groupOrder = undefined;
+    }
+    
+    return this;
+  }
+  
   /**
    * Build and return the operations array
    * @returns Array of strategy operations
+   * @throws Error if any operation does not match the shared operation schema
    */
   build(): StrategyOperation[] {
+    const validation = validateOperations(this.operations);
+    
+    if (!validation.isValid) {
+      throw new Error(`Invalid strategy operations: ${validation.errors.join('; ')}`);
+    }
+    
     return [...this.operations];
   }
   
@@ -385,6 +572,14 @@ export class StrategyBuilder {
   reset(): this {
     this.operations = [];
     this.currentOrder = 1;
+    this.groupOrder = undefined;
     return this;
   }
+  
+  /**
+   * Order of the next operation: shared by all operations of a parallel group
+   */
+  private nextOrder(): number {
+    return this.groupOrder ?? this.currentOrder++;
+  }
 }
@@ -0,0 +1,96 @@
+import { Clock } from './ExecutionContext';
+
+/**
+ * Clock backed by the system time and real timers.
+ * Used whenever the ExecutionContext does not provide its own clock.
+ */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  sleep: (ms: number, signal?: AbortSignal) => new Promise(resolve => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+  })
+};
+
+/**
+ * Outcome of a polling loop.
+ */
+export interface PollResult {
+  /** Whether the check succeeded before the timeout */
+  satisfied: boolean;
+
+  /** Number of times the check was evaluated */
+  attempts: number;
+
+  /** Time spent polling, in milliseconds */
+  elapsedMs: number;
+}
+
+/**
+ * Repeatedly runs a check until it succeeds or the timeout is reached.
+ *
+ * This is the single polling primitive used inside the TEE (WaitOperation,
+ * transaction confirmation in SpotBuyOperation, ...). It always runs the check
+ * at least once, sleeps between attempts using the provided clock and never
+ * sleeps past the timeout, so the total wait is bounded by `timeoutMs`.
+ *
+ * Errors thrown by the check are not caught; callers decide whether a failed
+ * probe is fatal or should simply count as "not yet".
+ *
+ * Polling stops, unsatisfied, as soon as the optional signal is aborted
+ * (e.g., when StrategyExecutor cancels the operation on a timeout).
+ *
+ * @param clock - Time source used for measuring and sleeping
+ * @param options - Polling options
+ * @param options.timeoutMs - Maximum time to poll for, in milliseconds
+ * @param options.intervalMs - Delay between attempts, in milliseconds
+ * @param options.signal - Stops polling when aborted
+ * @param check - Returns true once the awaited condition holds
+ * @returns Promise resolving to the polling outcome
+ *
+ * @example
+ * ```typescript
+ * const { satisfied } = await pollUntil(
+ *   context.clock ?? systemClock,
+ *   { timeoutMs: 60000, intervalMs: 2000 },
+ *   async () => (await perpService.getPositionStatus!(txHash)).confirmed
+ * );
+ * ```
+ */
+export async function pollUntil(
+  clock: Clock,
+  options: { timeoutMs: number; intervalMs: number; signal?: AbortSignal },
+  check: () => Promise<boolean>
+): Promise<PollResult> {
+  const startTime = clock.now();
+  let attempts = 0;
+
+  while (true) {
+    attempts++;
+
+    if (await check()) {
+      return { satisfied: true, attempts, elapsedMs: clock.now() - startTime };
+    }
+
+    const elapsedMs = clock.now() - startTime;
+    if (elapsedMs >= options.timeoutMs || options.signal?.aborted) {
+      return { satisfied: false, attempts, elapsedMs };
+    }
+
+    // Never sleep past the timeout
+    await clock.sleep(Math.min(options.intervalMs, options.timeoutMs - elapsedMs), options.signal);
+
+    if (options.signal?.aborted) {
+      return { satisfied: false, attempts, elapsedMs: clock.now() - startTime };
+    }
+  }
+}
@@ -0,0 +1,379 @@
+import { ExecutionContext } from './ExecutionContext';
+
+/**
+ * Token produced by the condition tokenizer.
+ */
+interface Token {
+  /** Token category */
+  kind: 'number' | 'string' | 'identifier' | 'operator' | 'paren';
+
+  /** Raw token text (unquoted for strings) */
+  value: string;
+}
+
+/**
+ * Node of a parsed condition expression.
+ */
+type ConditionNode =
+  | { kind: 'literal'; value: string | number | boolean | null }
+  | { kind: 'path'; root: 'state' | 'result'; segments: string[] }
+  | { kind: 'not'; operand: ConditionNode }
+  | { kind: 'logical'; operator: '&&' | '||'; left: ConditionNode; right: ConditionNode }
+  | { kind: 'compare'; operator: ComparisonOperator; left: ConditionNode; right: ConditionNode };
+
+/** Comparison operators supported in conditions */
+type ComparisonOperator = '==' | '!=' | '>' | '>=' | '<' | '<=';
+
+const COMPARISON_OPERATORS: ComparisonOperator[] = ['==', '!=', '>=', '<=', '>', '<'];
+
+/**
+ * ConditionEvaluator parses and evaluates the boolean conditions used by
+ * branching operations (e.g., ConditionalOperation).
+ *
+ * Conditions are written in a small, side-effect free expression language.
+ * They are never passed to `eval`, so a strategy cannot run arbitrary code
+ * inside the TEE through a condition string.
+ *
+ * Supported syntax:
+ * - State references: `state.<key>[.<field>...]` reads from ExecutionContext.state
+ * - Result references: `result.<operation_type>[.<field>...]` reads the most recent
+ *   OperationResult of that type (e.g., `result.check_funding_rate.data.fundingRate`)
+ * - Literals: numbers, quoted strings, `true`, `false`, `null`
+ * - Comparisons: `==`, `!=`, `>`, `>=`, `<`, `<=`
+ * - Logic: `&&`, `||`, `!` and parentheses
+ *
+ * A bare reference is evaluated for truthiness. Numeric strings (such as prices
+ * stored as `'50000'`) are compared numerically.
+ *
+ * @example
+ * ```typescript
+ * ConditionEvaluator.evaluate('state.isProfitable && state.fundingRate >= 0.01', context);
+ * ConditionEvaluator.evaluate('result.open_short.data.entryPrice < 60000', context);
+ * ```
+ */
+export class ConditionEvaluator {
+  /**
+   * Checks that a condition is syntactically valid without evaluating it.
+   *
+   * @param condition - Condition expression to check
+   * @returns Array of error messages (empty when the condition is valid)
+   */
+  static validate(condition: string): string[] {
+    try {
+      this.parse(condition);
+      return [];
+    } catch (error) {
+      return [error instanceof Error ? error.message : 'Invalid condition'];
+    }
+  }
+
+  /**
+   * Evaluates a condition against the execution context.
+   *
+   * @param condition - Condition expression to evaluate
+   * @param context - Execution context providing state and prior results
+   * @returns Whether the condition holds
+   * @throws Error if the condition cannot be parsed
+   */
+  static evaluate(condition: string, context: ExecutionContext): boolean {
+    const ast = this.parse(condition);
+    return Boolean(this.evaluateNode(ast, context));
+  }
+
+  /**
+   * Parses a condition expression into an AST.
+   *
+   * @param condition - Condition expression to parse
+   * @returns Root node of the parsed expression
+   * @throws Error if the expression is empty or malformed
+   */
+  private static parse(condition: string): ConditionNode {
+    if (typeof condition !== 'string' || condition.trim().length === 0) {
+      throw new Error('Condition is required and cannot be empty');
+    }
+
+    const tokens = this.tokenize(condition);
+    let position = 0;
+
+    const peek = (): Token | undefined => tokens[position];
+    const next = (): Token | undefined => tokens[position++];
+
+    const parseOr = (): ConditionNode => {
+      let left = parseAnd();
+      while (peek()?.kind === 'operator' && peek()?.value === '||') {
+        next();
+        left = { kind: 'logical', operator: '||', left, right: parseAnd() };
+      }
+      return left;
+    };
+
+    const parseAnd = (): ConditionNode => {
+      let left = parseUnary();
+      while (peek()?.kind === 'operator' && peek()?.value === '&&') {
+        next();
+        left = { kind: 'logical', operator: '&&', left, right: parseUnary() };
+      }
+      return left;
+    };
+
+    const parseUnary = (): ConditionNode => {
+      if (peek()?.kind === 'operator' && peek()?.value === '!') {
+        next();
+        return { kind: 'not', operand: parseUnary() };
+      }
+      return parseComparison();
+    };
+
+    const parseComparison = (): ConditionNode => {
+      const left = parsePrimary();
+      const token = peek();
+      if (token?.kind === 'operator' && COMPARISON_OPERATORS.includes(token.value as ComparisonOperator)) {
+        next();
+        return {
+          kind: 'compare',
+          operator: token.value as ComparisonOperator,
+          left,
+          right: parsePrimary()
+        };
+      }
+      return left;
+    };
+
+    const parsePrimary = (): ConditionNode => {
+      const token = next();
+
+      if (!token) {
+        throw new Error('Unexpected end of condition');
+      }
+
+      if (token.kind === 'paren' && token.value === '(') {
+        const inner = parseOr();
+        const closing = next();
+        if (!closing || closing.kind !== 'paren' || closing.value !== ')') {
+          throw new Error('Missing closing parenthesis in condition');
+        }
+        return inner;
+      }
+
+      if (token.kind === 'number') {
+        return { kind: 'literal', value: Number(token.value) };
+      }
+
+      if (token.kind === 'string') {
+        return { kind: 'literal', value: token.value };
+      }
+
+      if (token.kind === 'identifier') {
+        if (token.value === 'true') return { kind: 'literal', value: true };
+        if (token.value === 'false') return { kind: 'literal', value: false };
+        if (token.value === 'null') return { kind: 'literal', value: null };
+
+        const [root, ...segments] = token.value.split('.');
+        if (root !== 'state' && root !== 'result') {
+          throw new Error(`Unknown reference "${token.value}": references must start with "state." or "result."`);
+        }
+        if (segments.length === 0) {
+          throw new Error(`Reference "${root}" must name a key (e.g., "${root}.someKey")`);
+        }
+        return { kind: 'path', root, segments };
+      }
+
+      throw new Error(`Unexpected token "${token.value}" in condition`);
+    };
+
+    const ast = parseOr();
+
+    if (position < tokens.length) {
+      throw new Error(`Unexpected token "${tokens[position].value}" in condition`);
+    }
+
+    return ast;
+  }
+
+  /**
+   * Splits a condition expression into tokens.
+   *
+   * @param condition - Condition expression to tokenize
+   * @returns Array of tokens
+   * @throws Error on unterminated strings or unknown characters
+   */
+  private static tokenize(condition: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < condition.length) {
+      const char = condition[i];
+
+      if (/\s/.test(char)) {
+        i++;
+        continue;
+      }
+
+      if (char === '(' || char === ')') {
+        tokens.push({ kind: 'paren', value: char });
+        i++;
+        continue;
+      }
+
+      const twoChars = condition.slice(i, i + 2);
+      if (['&&', '||', '==', '!=', '>=', '<='].includes(twoChars)) {
+        tokens.push({ kind: 'operator', value: twoChars });
+        i += 2;
+        continue;
+      }
+
+      if (char === '>' || char === '<' || char === '!') {
+        tokens.push({ kind: 'operator', value: char });
+        i++;
+        continue;
+      }
+
+      if (char === '"' || char === "'") {
+        const end = condition.indexOf(char, i + 1);
+        if (end === -1) {
+          throw new Error('Unterminated string literal in condition');
+        }
+        tokens.push({ kind: 'string', value: condition.slice(i + 1, end) });
+        i = end + 1;
+        continue;
+      }
+
+      const numberMatch = /^-?\d+(\.\d+)?/.exec(condition.slice(i));
+      if (numberMatch) {
+        tokens.push({ kind: 'number', value: numberMatch[0] });
+        i += numberMatch[0].length;
+        continue;
+      }
+
+      const identifierMatch = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z0-9_]+)*/.exec(condition.slice(i));
+      if (identifierMatch) {
+        tokens.push({ kind: 'identifier', value: identifierMatch[0] });
+        i += identifierMatch[0].length;
+        continue;
+      }
+
+      throw new Error(`Unexpected character "${char}" in condition`);
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Evaluates a single AST node.
+   *
+   * @param node - Node to evaluate
+   * @param context - Execution context providing state and prior results
+   * @returns The node's value
+   */
+  private static evaluateNode(node: ConditionNode, context: ExecutionContext): unknown {
+    switch (node.kind) {
+      case 'literal':
+        return node.value;
+
+      case 'path':
+        return this.resolvePath(node.root, node.segments, context);
+
+      case 'not':
+        return !this.evaluateNode(node.operand, context);
+
+      case 'logical':
+        if (node.operator === '&&') {
+          return Boolean(this.evaluateNode(node.left, context)) && Boolean(this.evaluateNode(node.right, context));
+        }
+        return Boolean(this.evaluateNode(node.left, context)) || Boolean(this.evaluateNode(node.right, context));
+
+      case 'compare':
+        return this.compare(
+          node.operator,
+          this.evaluateNode(node.left, context),
+          this.evaluateNode(node.right, context)
+        );
+    }
+  }
+
+  /**
+   * Resolves a state or result reference.
+   *
+   * - `state.key.field` reads `context.state.read('key').field`
+   * - `result.type.field` reads `.field` on the latest result whose operationType is `type`
+   *
+   * Unknown state keys throw (a misspelled key would otherwise silently make
+   * the condition false). Known keys that are not set, and missing fields,
+   * resolve to undefined, so conditions such as `state.shortPosition` can be
+   * used as existence checks.
+   *
+   * @param root - Reference root ('state' or 'result')
+   * @param segments - Path segments after the root
+   * @param context - Execution context providing state and prior results
+   * @returns The referenced value, or undefined if not found
+   */
+  private static resolvePath(
+    root: 'state' | 'result',
+    segments: string[],
+    context: ExecutionContext
+  ): unknown {
+    const [key, ...rest] = segments;
+    let value: unknown;
+
+    if (root === 'state') {
+      value = context.state.read(key);
+    } else {
+      const results = context.results ?? [];
+      value = [...results].reverse().find(result => result.operationType === key);
+    }
+
+    for (const segment of rest) {
+      if (value === null || typeof value !== 'object') {
+        return undefined;
+      }
+      value = (value as Record<string, unknown>)[segment];
+    }
+
+    return value;
+  }
+
+  /**
+   * Compares two values, treating numeric strings as numbers.
+   *
+   * @param operator - Comparison operator
+   * @param left - Left operand
+   * @param right - Right operand
+   * @returns Comparison result (false when ordering operands are not numeric)
+   */
+  private static compare(operator: ComparisonOperator, left: unknown, right: unknown): boolean {
+    const leftNumber = this.toNumber(left);
+    const rightNumber = this.toNumber(right);
+    const numeric = leftNumber !== undefined && rightNumber !== undefined;
+
+    switch (operator) {
+      case '==':
+        return numeric ? leftNumber === rightNumber : left === right;
+      case '!=':
+        return numeric ? leftNumber !== rightNumber : left !== right;
+      case '>':
+        return numeric && leftNumber > rightNumber;
+      case '>=':
+        return numeric && leftNumber >= rightNumber;
+      case '<':
+        return numeric && leftNumber < rightNumber;
+      case '<=':
+        return numeric && leftNumber <= rightNumber;
+    }
+  }
+
+  /**
+   * Converts a number or numeric string to a number.
+   *
+   * @param value - Value to convert
+   * @returns The numeric value, or undefined if the value is not numeric
+   */
+  private static toNumber(value: unknown): number | undefined {
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      return value;
+    }
+    if (typeof value === 'string' && value.trim().length > 0 && Number.isFinite(Number(value))) {
+      return Number(value);
+    }
+    return undefined;
+  }
+}
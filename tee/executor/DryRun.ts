@@ -0,0 +1,227 @@
+import {
+  ExecutionContext,
+  OneInchService,
+  PerpetualService,
+  SecureWallet,
+  TransactionManager,
+  TypedDataDomain,
+  WalletTransaction
+} from './ExecutionContext';
+import { getLogger } from './Tracer';
+
+/**
+ * Transaction hash reported for writes intercepted during a dry run.
+ * Never a valid on-chain hash, so it cannot be mistaken for a real transaction.
+ */
+export const SIMULATED_TRANSACTION_HASH = `0x${'0'.repeat(64)}`;
+
+/**
+ * Gas units reported for each intercepted write, based on the typical cost
+ * of the matching transaction on Base.
+ */
+export const SIMULATED_GAS_UNITS = {
+  openPosition: '100000',
+  closePosition: '80000',
+  fusionSwap: '150000',
+  signTransaction: '21000',
+  sendTransaction: '21000'
+} as const;
+
+/**
+ * Quote currency used to price spot assets when no quote is available
+ */
+const SPOT_QUOTE = 'USDC';
+
+/**
+ * A chain write that would have been sent outside a dry run.
+ */
+export interface SimulatedTransaction {
+  /** Service that received the call */
+  service: 'perpetual' | 'oneInch' | 'fallbackSpot' | 'wallet' | 'transactions';
+
+  /** Intercepted method (e.g., 'openShort', 'executeFusionSwap') */
+  method: string;
+
+  /** Call parameters, without the wallet */
+  params: Record<string, unknown>;
+
+  /** Estimated gas units for the transaction */
+  estimatedGas: string;
+}
+
+/**
+ * Dry-run view of an ExecutionContext and the writes it intercepted.
+ */
+export interface DryRunContext {
+  /** Context to execute operations against */
+  context: ExecutionContext;
+
+  /** Intercepted writes, in call order */
+  transactions: SimulatedTransaction[];
+}
+
+/**
+ * Wraps an ExecutionContext so that strategies run end to end without
+ * sending anything to the chain.
+ *
+ * Reads (funding rates, prices, quotes, liquidity, balances, open positions)
+ * go to the live services, so sizes and profitability are computed from real
+ * market data. Writes (opening and closing positions, Fusion swaps, signing,
+ * sending transactions) are recorded and answered with simulated results:
+ * - Positions open and close at the current oracle price
+ * - Market swaps fill at the quoted amount when the service can quote
+ * - Limit swaps are reported as placed at their target price
+ * - Sent transactions are reported as confirmed, successful and without logs
+ * - Every write reports SIMULATED_TRANSACTION_HASH and an estimated gas cost
+ *
+ * Wait operations still wait, since their conditions depend on live data.
+ *
+ * @param context - Live execution context
+ * @returns The dry-run context and the list its writes are recorded in
+ *
+ * @example
+ * ```typescript
+ * const { context: dryRunContext, transactions } = createDryRunContext(context);
+ * await operation.execute(dryRunContext);
+ * // transactions: [{ service: 'perpetual', method: 'openShort', params: { pair: 'BTC/USDC', ... }, estimatedGas: '100000' }]
+ * ```
+ */
+export function createDryRunContext(context: ExecutionContext): DryRunContext {
+  const transactions: SimulatedTransaction[] = [];
+  const record = (
+    service: SimulatedTransaction['service'],
+    method: string,
+    params: Record<string, unknown>,
+    estimatedGas: string
+  ): void => {
+    const { wallet: _wallet, signal: _signal, ...rest } = params;
+    transactions.push({ service, method, params: rest, estimatedGas });
+    getLogger('DryRun', context).info('Intercepted write', { service, method });
+  };
+  const currentPrice = (pair: string): Promise<string> => context.getPriceService().getPrice(pair);
+
+  const wallet: SecureWallet = {
+    address: context.wallet.address,
+    getBalance: tokenAddress => context.wallet.getBalance(tokenAddress),
+
+    async signTransaction(transaction: WalletTransaction): Promise<string> {
+      record('wallet', 'signTransaction', { to: transaction.to }, SIMULATED_GAS_UNITS.signTransaction);
+      return SIMULATED_TRANSACTION_HASH;
+    },
+
+    async signTypedData(domain: TypedDataDomain): Promise<string> {
+      record('wallet', 'signTypedData', { verifyingContract: domain.verifyingContract }, '0');
+      return SIMULATED_TRANSACTION_HASH;
+    }
+  };
+
+  const simulatedSpot = (live: OneInchService, service: 'oneInch' | 'fallbackSpot'): OneInchService => ({
+    async executeFusionSwap(params) {
+      record(service, 'executeFusionSwap', params, SIMULATED_GAS_UNITS.fusionSwap);
+
+      // Fusion limit orders would only be placed; report them at their target price
+      if (params.orderType === 'limit' && service === 'oneInch') {
+        return {
+          executionPrice: params.targetPrice ?? params.minPrice,
+          fusionOrderId: 'simulated'
+        };
+      }
+
+      const quote = live.getQuote
+        ? await live.getQuote({ asset: params.asset, side: params.side ?? 'buy', amount: params.amount })
+        : undefined;
+
+      return {
+        amountReceived: quote?.amountOut,
+        executionPrice: await currentPrice(`${params.asset}/${SPOT_QUOTE}`),
+        transactionHash: SIMULATED_TRANSACTION_HASH,
+        gasUsed: SIMULATED_GAS_UNITS.fusionSwap
+      };
+    },
+
+    getQuote: live.getQuote?.bind(live)
+  });
+
+  const dryRunContext: ExecutionContext = {
+    ...context,
+    wallet,
+    dryRun: true,
+    getDexService: () => context.getDexService(),
+    getPriceService: () => context.getPriceService(),
+    getFeeService: () => context.getFeeService(),
+
+    getPerpetualService(): PerpetualService {
+      const live = context.getPerpetualService();
+
+      return {
+        async openShort(params) {
+          record('perpetual', 'openShort', params, SIMULATED_GAS_UNITS.openPosition);
+          return {
+            entryPrice: await currentPrice(params.pair),
+            transactionHash: SIMULATED_TRANSACTION_HASH,
+            gasUsed: SIMULATED_GAS_UNITS.openPosition
+          };
+        },
+
+        async openLong(params) {
+          record('perpetual', 'openLong', params, SIMULATED_GAS_UNITS.openPosition);
+          return {
+            entryPrice: await currentPrice(params.pair),
+            transactionHash: SIMULATED_TRANSACTION_HASH,
+            gasUsed: SIMULATED_GAS_UNITS.openPosition
+          };
+        },
+
+        async closePosition(position, options) {
+          record('perpetual', 'closePosition', { pair: position?.pair, ...options }, SIMULATED_GAS_UNITS.closePosition);
+          return {
+            transactionHash: SIMULATED_TRANSACTION_HASH,
+            gasUsed: SIMULATED_GAS_UNITS.closePosition,
+            exitPrice: position?.pair ? await currentPrice(position.pair) : undefined
+          };
+        },
+
+        // Simulated positions are confirmed immediately; real ones are looked up live
+        getPositionStatus: async transactionHash => {
+          if (transactionHash === SIMULATED_TRANSACTION_HASH) {
+            return { confirmed: true };
+          }
+          return live.getPositionStatus
+            ? live.getPositionStatus(transactionHash)
+            : { confirmed: true };
+        },
+
+        getOpenPosition: live.getOpenPosition?.bind(live),
+        getMarketLiquidity: live.getMarketLiquidity?.bind(live)
+      };
+    },
+
+    getOneInchService: () => simulatedSpot(context.getOneInchService(), 'oneInch'),
+    getFallbackSpotService: context.getFallbackSpotService
+      && (() => simulatedSpot(context.getFallbackSpotService!(), 'fallbackSpot')),
+
+    getTransactionManager(): TransactionManager {
+      return {
+        async send(transaction) {
+          const gasUsed = transaction.gasLimit ?? SIMULATED_GAS_UNITS.sendTransaction;
+          record('transactions', 'send', { to: transaction.to }, gasUsed);
+          return {
+            transactionHash: SIMULATED_TRANSACTION_HASH,
+            nonce: 0,
+            blockNumber: 0,
+            blockHash: SIMULATED_TRANSACTION_HASH,
+            status: 'success',
+            gasUsed,
+            effectiveGasPrice: '0',
+            confirmations: 0,
+            replacements: 0,
+            logs: [],
+            events: []
+          };
+        }
+      };
+    }
+  };
+
+  return { context: dryRunContext, transactions };
+}
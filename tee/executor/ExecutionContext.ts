@@ -1,3 +1,8 @@
+import { OperationResult } from '../operations/OperationTypes';
+import { Span } from './Tracer';
+import { ExecutionState } from './ExecutionState';
+import { FeeEstimate } from '../schema/feeEstimation';
+
 /**
  * Configuration parameters for strategy execution.
  * These are provided by the user when they execute a strategy.
@@ -41,9 +46,28 @@ export interface NetworkConfig {
   /** RPC endpoint URL for blockchain interactions */
   rpcUrl: string;
   
+  /**
+   * Blocks a transaction must be included in or buried under before it is
+   * final (default: 1)
+   */
+  confirmations?: number;
+  
+  /**
+   * Base URL of the 1inch Fusion API (default: the 1inch Dev Portal API).
+   * May point to a proxy that adds the API key.
+   */
+  fusionApiUrl?: string;
+  
+  /**
+   * When spot buys swap through the fallback spot service instead of
+   * 1inch Fusion (default: they fail over on every failure the policy
+   * names, when a fallback is available)
+   */
+  spotFailover?: SpotFailoverPolicy;
+  
   /** Contract addresses for DEX interactions */
   contracts: {
-    /** 1inch Fusion contract address */
+    /** 1inch Limit Order Protocol contract Fusion orders are signed for */
     oneInchFusion?: string;
     
     /** Perpetual DEX contract address */
@@ -52,6 +76,81 @@ export interface NetworkConfig {
     /** Additional contract addresses as needed */
     [key: string]: string | undefined;
   };
+  
+  /**
+   * ERC-20 tokens known to the strategy, keyed by asset symbol (e.g., 'WBTC').
+   * Used to read wallet holdings when they are not available in context state.
+   */
+  tokens?: {
+    [symbol: string]: {
+      /** Token contract address */
+      address: string;
+      
+      /** Number of decimals used by the token */
+      decimals: number;
+    };
+  };
+}
+
+/**
+ * Failover policy of spot swaps from 1inch Fusion to the fallback spot
+ * service (see ExecutionContext.getFallbackSpotService)
+ */
+export interface SpotFailoverPolicy {
+  /** Whether swaps go through 1inch Fusion first; when false, they all go through the fallback (default: true) */
+  fusionEnabled?: boolean;
+  
+  /** Fail over when Fusion has no quote for the swap (default: true) */
+  onQuoteUnavailable?: boolean;
+  
+  /** Fail over when a Fusion market order expires without any fill (default: true) */
+  onOrderExpired?: boolean;
+}
+
+/**
+ * Transaction for the secure wallet to sign.
+ * 
+ * Amounts are base-unit integer strings. Fields left unset are filled in
+ * from the network when signing: the pending nonce, the estimated gas limit
+ * and the current EIP-1559 fees.
+ */
+export interface WalletTransaction {
+  /** Recipient or contract address */
+  to: string;
+  
+  /** Call data (default: none) */
+  data?: string;
+  
+  /** Native amount sent, in wei (default: '0') */
+  value?: string;
+  
+  nonce?: number;
+  
+  gasLimit?: string;
+  
+  /** Maximum total fee per gas, in wei */
+  maxFeePerGas?: string;
+  
+  /** Maximum priority fee (tip) per gas, in wei */
+  maxPriorityFeePerGas?: string;
+}
+
+/**
+ * EIP-712 signing domain
+ */
+export interface TypedDataDomain {
+  name?: string;
+  version?: string;
+  chainId?: number;
+  verifyingContract?: string;
+}
+
+/**
+ * Field of an EIP-712 struct type
+ */
+export interface TypedDataField {
+  name: string;
+  type: string;
 }
 
 /**
@@ -65,22 +164,149 @@ export interface SecureWallet {
   readonly address: string;
   
   /**
-   * Signs a transaction within the TEE.
+   * Signs an EIP-1559 transaction within the TEE.
    * 
    * @param transaction - The transaction data to sign
-   * @returns Promise resolving to the signed transaction
+   * @returns Promise resolving to the serialized signed transaction
+   */
+  signTransaction(transaction: WalletTransaction): Promise<string>;
+  
+  /**
+   * Signs EIP-712 typed data within the TEE.
+   * 
+   * Optional: needed for off-chain orders, such as 1inch Fusion orders.
+   * 
+   * @param domain - Signing domain
+   * @param types - Struct types, without EIP712Domain
+   * @param value - Struct to sign
+   * @returns Promise resolving to the 65-byte signature
    */
-  signTransaction(transaction: any): Promise<string>;
+  signTypedData?(
+    domain: TypedDataDomain,
+    types: Record<string, TypedDataField[]>,
+    value: Record<string, unknown>
+  ): Promise<string>;
   
   /**
    * Gets the current balance of the wallet.
    * 
    * @param tokenAddress - Optional token address (omit for native token)
-   * @returns Promise resolving to the balance as a string
+   * @returns Promise resolving to the balance in base units, as a string
    */
   getBalance(tokenAddress?: string): Promise<string>;
 }
 
+/**
+ * Log emitted by a transaction
+ */
+export interface ReceiptLog {
+  /** Contract that emitted the log */
+  address: string;
+  topics: string[];
+  data: string;
+  /** Position of the log in its block */
+  index: number;
+}
+
+/**
+ * Receipt of a transaction sent by the TransactionManager, with its amounts
+ * as base-unit integer strings
+ */
+export interface TransactionReceipt {
+  transactionHash: string;
+  
+  /** Nonce the transaction was sent with */
+  nonce: number;
+  
+  blockNumber: number;
+  
+  blockHash: string;
+  
+  /** Whether the transaction succeeded or reverted (a reverted transaction still spends gas) */
+  status: 'success' | 'reverted';
+  
+  gasUsed: string;
+  
+  /** Price paid per unit of gas, in wei */
+  effectiveGasPrice: string;
+  
+  /** Blocks including and built on the transaction's block when it was reported */
+  confirmations: number;
+  
+  /** Times the transaction was replaced with higher fees before it was mined */
+  replacements: number;
+  
+  logs: ReceiptLog[];
+  
+  /** Logs decoded with the `abi` given to send(), skipping logs it does not describe */
+  events: {
+    address: string;
+    name: string;
+    /** Event arguments by name, as strings */
+    args: Record<string, string>;
+  }[];
+}
+
+/**
+ * Options for sending a transaction
+ */
+export interface SendTransactionOptions {
+  /** Confirmations to wait for (default: `NetworkConfig.confirmations`) */
+  confirmations?: number;
+  
+  /** Human-readable event fragments to decode the receipt logs with */
+  abi?: string[];
+  
+  /** Stops waiting for the transaction when aborted (it may still be mined) */
+  signal?: AbortSignal;
+}
+
+/**
+ * Sends the wallet's transactions and follows them until they are final.
+ * 
+ * A single manager serves every operation of an execution, so operations
+ * running concurrently never race for the wallet's nonces. Service adapters
+ * send their transactions through it rather than broadcasting on their own.
+ */
+export interface TransactionManager {
+  /**
+   * Signs and broadcasts a transaction with the wallet's next nonce, replaces
+   * it with higher fees while it is stuck, and waits until it has the
+   * required confirmations on the canonical chain.
+   * 
+   * @param transaction - Transaction to send; its nonce is assigned by the manager
+   * @param options - Confirmations, event ABI and cancellation
+   * @returns Promise resolving to the parsed receipt (a reverted transaction resolves too)
+   * @throws TransactionError if the transaction times out or its nonce is taken by another transaction
+   */
+  send(transaction: Omit<WalletTransaction, 'nonce'>, options?: SendTransactionOptions): Promise<TransactionReceipt>;
+}
+
+/**
+ * Time source used by operations that wait or poll.
+ * 
+ * Operations never call Date.now() or setTimeout() directly when waiting;
+ * they go through the clock so that tests can substitute a deterministic
+ * implementation that advances time instantly.
+ */
+export interface Clock {
+  /**
+   * Gets the current time.
+   * 
+   * @returns Milliseconds since the Unix epoch
+   */
+  now(): number;
+  
+  /**
+   * Waits for the given duration.
+   * 
+   * @param ms - Duration to wait in milliseconds
+   * @param signal - Ends the wait early when aborted
+   * @returns Promise that resolves once the duration has elapsed or the signal is aborted
+   */
+  sleep(ms: number, signal?: AbortSignal): Promise<void>;
+}
+
 /**
  * Service interface for DEX interactions.
  * Provides methods for querying and executing trades on decentralized exchanges.
@@ -95,6 +321,34 @@ export interface DexService {
   getFundingRate(pair: string): Promise<number>;
 }
 
+/**
+ * Service interface for price oracle queries.
+ * Provides reference prices used to gate strategy execution.
+ */
+export interface PriceService {
+  /**
+   * Gets the current oracle price for a trading pair.
+   * 
+   * @param pair - The trading pair (e.g., 'BTC/USD')
+   * @returns Promise resolving to the price in quote currency as a decimal string
+   */
+  getPrice(pair: string): Promise<string>;
+}
+
+/**
+ * Service interface for network fee estimates.
+ * Prices the transactions of the strategy being executed at current fees.
+ */
+export interface FeeService {
+  /**
+   * Estimates the network fees of executing the strategy, with its
+   * conditional branches counted at their most expensive.
+   * 
+   * @returns Promise resolving to the fee estimate, totals in wei and USD
+   */
+  estimateStrategyFees(): Promise<FeeEstimate>;
+}
+
 /**
  * Service interface for perpetual DEX operations.
  * Handles opening and closing leveraged positions.
@@ -104,28 +358,136 @@ export interface PerpetualService {
    * Opens a short position on the perpetual DEX.
    * 
    * @param params - Position parameters
+   * @param params.stopLoss - Price at which the position is closed to cap losses (optional)
+   * @param params.takeProfit - Price at which the position is closed to lock in gains (optional)
    * @returns Promise resolving to position details
    */
   openShort(params: {
     pair: string;
     amount: string;
     leverage: number;
+    stopLoss?: string;
+    takeProfit?: string;
+    wallet: SecureWallet;
+    /** Stops waiting for the order to fill when aborted (it may still fill) */
+    signal?: AbortSignal;
+  }): Promise<{
+    entryPrice: string;
+    transactionHash: string;
+    gasUsed: string;
+    /** Venue slot of the opened trade, if the venue numbers them */
+    tradeIndex?: number;
+  }>;
+  
+  /**
+   * Opens a long position on the perpetual DEX.
+   * 
+   * Longs are used in negative funding regimes, where shorts pay longs,
+   * typically hedged with a short spot leg.
+   * 
+   * @param params - Position parameters
+   * @param params.stopLoss - Price at which the position is closed to cap losses (optional)
+   * @param params.takeProfit - Price at which the position is closed to lock in gains (optional)
+   * @returns Promise resolving to position details
+   */
+  openLong(params: {
+    pair: string;
+    amount: string;
+    leverage: number;
+    stopLoss?: string;
+    takeProfit?: string;
     wallet: SecureWallet;
+    /** Stops waiting for the order to fill when aborted (it may still fill) */
+    signal?: AbortSignal;
   }): Promise<{
     entryPrice: string;
     transactionHash: string;
     gasUsed: string;
+    /** Venue slot of the opened trade, if the venue numbers them */
+    tradeIndex?: number;
   }>;
   
   /**
-   * Closes an open position.
+   * Closes an open position, fully or partially.
    * 
    * @param position - The position to close
+   * @param options - Close options (optional)
+   * @param options.amount - Collateral amount to close; closes the whole position when omitted
+   * @param options.minPrice - Lowest acceptable exit price (for longs)
+   * @param options.maxPrice - Highest acceptable exit price (for shorts)
+   * @param options.signal - Stops waiting for the close to fill when aborted (it may still fill)
    * @returns Promise resolving to transaction details
    */
-  closePosition(position: any): Promise<{
+  closePosition(position: any, options?: {
+    amount?: string;
+    minPrice?: string;
+    maxPrice?: string;
+    signal?: AbortSignal;
+  }): Promise<{
     transactionHash: string;
     gasUsed: string;
+    /** Price at which the position was closed, if reported */
+    exitPrice?: string;
+    /** Realized profit or loss of the closed portion in quote currency, if reported */
+    realizedPnl?: string;
+  }>;
+  
+  /**
+   * Gets the on-chain status of a position opening transaction.
+   * 
+   * Optional: services that cannot track confirmations may omit it, in which
+   * case callers fall back to the details returned when the position was opened.
+   * 
+   * @param transactionHash - Hash of the transaction that opened the position
+   * @returns Promise resolving to the confirmation status and confirmed entry price
+   */
+  getPositionStatus?(transactionHash: string): Promise<{
+    confirmed: boolean;
+    entryPrice?: string;
+  }>;
+  
+  /**
+   * Looks up the wallet's open position on a pair directly on-chain.
+   * 
+   * Optional: used to close positions opened by an earlier strategy run,
+   * whose details are no longer in the execution state.
+   * 
+   * @param params - Lookup parameters
+   * @returns Promise resolving to the open position, or null if there is none
+   */
+  getOpenPosition?(params: {
+    pair: string;
+    side: 'long' | 'short';
+    wallet: SecureWallet;
+  }): Promise<{
+    pair: string;
+    side: 'long' | 'short';
+    /** Collateral in quote currency */
+    amount: string;
+    entryPrice: string;
+    leverage: number;
+    transactionHash?: string;
+    tradeIndex?: number;
+  } | null>;
+  
+  /**
+   * Gets the liquidity available for opening a position of the given size.
+   * 
+   * Optional: used by liquidity checks before sizing into thin markets.
+   * 
+   * @param params - Market and intended position size
+   * @param params.notional - Position notional (collateral × leverage) in quote currency
+   * @returns Promise resolving to the remaining open-interest capacity and expected price impact
+   */
+  getMarketLiquidity?(params: {
+    pair: string;
+    side: 'long' | 'short';
+    notional: string;
+  }): Promise<{
+    /** Open interest that can still be added on this side before the venue cap, in quote currency */
+    availableOpenInterest: string;
+    /** Expected price impact of opening the position, as a percentage */
+    priceImpact: number;
   }>;
 }
 
@@ -158,13 +520,37 @@ export interface OneInchService {
    */
   executeFusionSwap(params: {
     asset: string;
+    /**
+     * Swap direction (default: 'buy').
+     * - 'buy': `amount` is quote currency spent to buy `asset`
+     * - 'sell': `amount` is quantity of `asset` sold for quote currency
+     */
+    side?: 'buy' | 'sell';
     amount: string;
     orderType: 'market' | 'limit';
     targetPrice?: string;
+    /** Lowest acceptable execution price for sells; the order must not fill below it */
+    minPrice?: string;
+    /**
+     * Perpetual short the swap hedges (optional). Services that support it
+     * only let the order fill while the short is open on-chain at about
+     * this entry price.
+     */
+    shortPosition?: {
+      pair: string;
+      /** Venue slot of the trade */
+      tradeIndex: number;
+      entryPrice: string;
+    };
     wallet: SecureWallet;
     slippage: number;
+    /** Stops waiting for a market order to fill when aborted (it may still fill) */
+    signal?: AbortSignal;
   }): Promise<{
-    /** Amount of asset received (for market orders) or expected (for limit orders) */
+    /**
+     * Amount received (for market orders) or expected (for limit orders).
+     * Denominated in the asset for buys and in the quote currency for sells.
+     */
     amountReceived?: string;
     /** Actual execution price (for market orders) or target price (for limit orders) */
     executionPrice?: string;
@@ -175,6 +561,25 @@ export interface OneInchService {
     /** Gas used (for market orders) */
     gasUsed?: string;
   }>;
+  
+  /**
+   * Gets a swap quote without executing it.
+   * 
+   * Optional: used by liquidity checks to measure the depth of the spot route.
+   * 
+   * @param params - Quote parameters; `side` and `amount` follow executeFusionSwap
+   * @returns Promise resolving to the quoted output and expected price impact
+   */
+  getQuote?(params: {
+    asset: string;
+    side: 'buy' | 'sell';
+    amount: string;
+  }): Promise<{
+    /** Amount that would be received, denominated like executeFusionSwap's amountReceived */
+    amountOut: string;
+    /** Expected price impact of the swap, as a percentage */
+    priceImpact: number;
+  }>;
 }
 
 /**
@@ -184,8 +589,9 @@ export interface OneInchService {
  * - User configuration parameters
  * - Secure wallet for transaction signing
  * - Network configuration
- * - Shared state map for passing data between operations
- * - Access to blockchain services (DEX, perpetual, 1inch)
+ * - Shared execution state for passing data between operations
+ * - Access to blockchain services (DEX, perpetual, 1inch, fees)
+ * - A transaction manager that sends the wallet's transactions
  * 
  * Operations can read from and write to the shared state to coordinate
  * their execution. For example, one operation might store a position's
@@ -194,11 +600,11 @@ export interface OneInchService {
  * @example
  * ```typescript
  * // In first operation
- * context.state.set('shortPosition', { entryPrice: '50000' });
+ * context.state.set('shortPosition', { pair: 'BTC/USDC', entryPrice: '50000', amount: '500', leverage: 1 });
  * 
  * // In second operation
  * const position = context.state.get('shortPosition');
- * const targetPrice = position.entryPrice;
+ * const targetPrice = position?.entryPrice;
  * ```
  */
 export interface ExecutionContext {
@@ -212,10 +618,52 @@ export interface ExecutionContext {
   readonly network: NetworkConfig;
   
   /** 
-   * Shared state map for passing data between operations.
-   * Operations can store and retrieve arbitrary data using string keys.
+   * Shared state for passing data between operations, under the keys
+   * declared in STATE_KEYS (see ExecutionState).
+   */
+  state: ExecutionState;
+  
+  /**
+   * Results of the operations executed so far, in execution order.
+   * Populated by the StrategyExecutor (including operations run inside
+   * conditional branches) so later operations can inspect prior outcomes.
+   */
+  results?: OperationResult[];
+  
+  /**
+   * Whether this is a dry run, in which chain writes are intercepted and
+   * answered with simulated results (see createDryRunContext).
+   * Set by StrategyExecutor; operations may read it but never need to.
+   */
+  readonly dryRun?: boolean;
+  
+  /**
+   * Time source for waiting and polling.
+   * Defaults to the system clock when not provided.
+   */
+  readonly clock?: Clock;
+  
+  /**
+   * Time (on the context clock, in milliseconds) by which every operation must
+   * have finished. StrategyExecutor cancels the operation still running at this
+   * point and fails with TIMEOUT, so the deadline should leave room for
+   * rollback and for writing the task output.
    */
-  state: Map<string, any>;
+  readonly deadline?: number;
+  
+  /**
+   * Aborted when the running operation times out or the deadline is reached.
+   * Set by StrategyExecutor; operations that wait or poll pass it on so
+   * cancelled work stops instead of running in the background.
+   */
+  readonly signal?: AbortSignal;
+  
+  /**
+   * Span of the execution trace the context runs in.
+   * Set by StrategyExecutor; operations log through getLogger(component, context)
+   * so their lines are recorded on it.
+   */
+  readonly span?: Span;
   
   /**
    * Gets the DEX service for funding rate queries.
@@ -231,10 +679,41 @@ export interface ExecutionContext {
    */
   getPerpetualService(): PerpetualService;
   
+  /**
+   * Gets the price service for oracle price queries.
+   * 
+   * @returns The price service instance
+   */
+  getPriceService(): PriceService;
+  
   /**
    * Gets the 1inch service for spot trading.
    * 
    * @returns The 1inch service instance
    */
   getOneInchService(): OneInchService;
+  
+  /**
+   * Gets the spot service swaps fail over to when 1inch Fusion cannot fill
+   * them, as `network.spotFailover` allows.
+   * 
+   * Optional: without it, spot swaps only go through 1inch Fusion.
+   * 
+   * @returns The fallback spot service instance
+   */
+  getFallbackSpotService?(): OneInchService;
+  
+  /**
+   * Gets the fee service for network fee estimates.
+   * 
+   * @returns The fee service instance
+   */
+  getFeeService(): FeeService;
+  
+  /**
+   * Gets the transaction manager shared by all operations of the execution.
+   * 
+   * @returns The transaction manager instance
+   */
+  getTransactionManager(): TransactionManager;
 }
@@ -0,0 +1,258 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { OperationType, OperationResult } from '../operations/OperationTypes';
+import { StateSnapshot } from './ExecutionState';
+
+/**
+ * Service a journaled chain write was sent through
+ */
+export type JournaledService = 'perpetual' | 'oneInch' | 'fallbackSpot' | 'wallet' | 'transactions';
+
+/**
+ * Entry of the execution journal.
+ *
+ * A run is identified by `runId` and belongs to the strategy identified by
+ * `strategyId` (a hash of its serialized form). Operations are identified by
+ * their index in the sorted operation list, which is stable for a strategy.
+ */
+export type JournalEntry =
+  /** A new run of a strategy started */
+  | { type: 'run_started'; runId: string; strategyId: string; timestamp: number }
+  /** An interrupted run was picked up again by a later task */
+  | { type: 'run_resumed'; runId: string; timestamp: number }
+  /** An operation attempt is about to execute (its intent) */
+  | { type: 'operation_started'; runId: string; index: number; order: number; operationType: OperationType; timestamp: number }
+  /** A chain write is about to be sent; params exclude the wallet */
+  | { type: 'transaction_requested'; runId: string; index: number; service: JournaledService; method: string; params: Record<string, unknown>; timestamp: number }
+  /** A chain write was accepted and returned its transaction hash */
+  | { type: 'transaction_submitted'; runId: string; index: number; service: JournaledService; method: string; transactionHash?: string; timestamp: number }
+  /** An operation attempt finished (its confirmation), with the state it left behind */
+  | { type: 'operation_completed'; runId: string; index: number; result: OperationResult; state: StateSnapshot; timestamp: number }
+  /** An operation was rolled back */
+  | { type: 'operation_rolled_back'; runId: string; index: number; timestamp: number }
+  /** The run ended; nothing is left to recover */
+  | { type: 'run_finished'; runId: string; outcome: 'succeeded' | 'failed' | 'unwound'; timestamp: number };
+
+/**
+ * Append-only store for journal entries.
+ *
+ * Entries describe the strategy's operations and amounts, so the store must
+ * live on storage sealed to the enclave.
+ */
+export interface ExecutionJournal {
+  /**
+   * Durably appends an entry.
+   * Must not return before the entry would survive a crash.
+   *
+   * @param entry - Entry to append
+   */
+  append(entry: JournalEntry): void;
+
+  /**
+   * Reads every entry, in append order.
+   *
+   * @returns Journal entries
+   */
+  read(): JournalEntry[];
+}
+
+/**
+ * Journal kept in memory, for tests and for executors that only need the
+ * journal for the lifetime of the process.
+ */
+export class InMemoryJournal implements ExecutionJournal {
+  /** Appended entries */
+  private readonly entries: JournalEntry[];
+
+  /**
+   * Creates a new InMemoryJournal.
+   *
+   * @param entries - Entries already in the journal (default: none)
+   */
+  constructor(entries: JournalEntry[] = []) {
+    this.entries = [...entries];
+  }
+
+  append(entry: JournalEntry): void {
+    this.entries.push(entry);
+  }
+
+  read(): JournalEntry[] {
+    return [...this.entries];
+  }
+}
+
+/**
+ * Journal stored as a JSON Lines file.
+ *
+ * Each entry is written and flushed to disk (fsync) before append() returns.
+ * A crash in the middle of a write can only leave a truncated last line,
+ * which read() ignores.
+ */
+export class FileJournal implements ExecutionJournal {
+  /** Path of the journal file */
+  private readonly filePath: string;
+
+  /**
+   * Creates a new FileJournal.
+   *
+   * @param filePath - Path of the journal file (created on first append)
+   */
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  append(entry: JournalEntry): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+
+    const fd = fs.openSync(this.filePath, 'a');
+    try {
+      fs.writeSync(fd, `${JSON.stringify(entry)}\n`);
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+
+  read(): JournalEntry[] {
+    if (!fs.existsSync(this.filePath)) {
+      return [];
+    }
+
+    const lines = fs.readFileSync(this.filePath, 'utf-8').split('\n').filter(line => line.trim().length > 0);
+
+    return lines.flatMap((line, index) => {
+      try {
+        return [JSON.parse(line) as JournalEntry];
+      } catch (error) {
+        // Only the last line can be torn by a crash; anything else is corruption
+        if (index === lines.length - 1) {
+          return [];
+        }
+        throw new Error(`Execution journal is corrupted at line ${index + 1}`);
+      }
+    });
+  }
+}
+
+/**
+ * Chain write recorded in the journal
+ */
+export interface JournaledWrite {
+  /** Service the write was sent through */
+  service: JournaledService;
+
+  /** Service method (e.g., 'openShort') */
+  method: string;
+
+  /** Call parameters, without the wallet */
+  params: Record<string, unknown>;
+
+  /** Whether the call returned; false if the run died while it was pending */
+  submitted: boolean;
+
+  /** Transaction hash returned by the call, if any */
+  transactionHash?: string;
+}
+
+/**
+ * What the journal knows about a run that never finished.
+ */
+export interface IncompleteRun {
+  /** Identifier of the interrupted run */
+  runId: string;
+
+  /** Latest result of each operation that completed an attempt, by index */
+  results: Map<number, OperationResult>;
+
+  /** Indexes of the operations already rolled back */
+  rolledBack: Set<number>;
+
+  /** Execution state left by the last completed attempt */
+  state: StateSnapshot;
+
+  /** Operations that started without completing, with the writes they sent */
+  inFlight: InFlightOperation[];
+}
+
+/**
+ * Operation of an interrupted run that started without completing
+ */
+export interface InFlightOperation {
+  /** Index of the operation in the strategy's sorted operation list */
+  index: number;
+
+  /** Execution order of the operation */
+  order: number;
+
+  /** Type of the operation */
+  operationType: OperationType;
+
+  /** Chain writes the operation sent, in sending order */
+  writes: JournaledWrite[];
+}
+
+/**
+ * Replays the journal to find the latest run of a strategy that never finished.
+ *
+ * @param entries - Journal entries, in append order
+ * @param strategyId - Identifier of the strategy
+ * @returns The interrupted run, or null if the strategy's last run finished
+ */
+export function findIncompleteRun(entries: JournalEntry[], strategyId: string): IncompleteRun | null {
+  let run: IncompleteRun | null = null;
+
+  for (const entry of entries) {
+    if (entry.type === 'run_started') {
+      if (entry.strategyId === strategyId) {
+        run = { runId: entry.runId, results: new Map(), rolledBack: new Set(), state: {}, inFlight: [] };
+      }
+      continue;
+    }
+
+    if (!run || entry.runId !== run.runId) {
+      continue;
+    }
+
+    // Operations of a run may execute concurrently; their entries interleave
+    const inFlight = 'index' in entry ? run.inFlight.find(operation => operation.index === entry.index) : undefined;
+
+    switch (entry.type) {
+      case 'operation_started':
+        // A retry starts the operation again
+        run.inFlight = run.inFlight.filter(operation => operation.index !== entry.index);
+        run.inFlight.push({ index: entry.index, order: entry.order, operationType: entry.operationType, writes: [] });
+        break;
+
+      case 'transaction_requested':
+        inFlight?.writes.push({ service: entry.service, method: entry.method, params: entry.params, submitted: false });
+        break;
+
+      case 'transaction_submitted': {
+        // Writes of an operation are sent one at a time
+        const write = inFlight?.writes[inFlight.writes.length - 1];
+        if (write) {
+          write.submitted = true;
+          write.transactionHash = entry.transactionHash;
+        }
+        break;
+      }
+
+      case 'operation_completed':
+        run.results.set(entry.index, entry.result);
+        run.state = entry.state;
+        run.inFlight = run.inFlight.filter(operation => operation.index !== entry.index);
+        break;
+
+      case 'operation_rolled_back':
+        run.rolledBack.add(entry.index);
+        break;
+
+      case 'run_finished':
+        run = null;
+        break;
+    }
+  }
+
+  return run;
+}
@@ -0,0 +1,340 @@
+import { OperationType, StateKey, getStateKeyWriters, isStateKey } from '../schema/operationSchema';
+
+/**
+ * Profitability estimate stored by CheckFundingRateOperation
+ */
+export interface ProfitabilityDetails {
+  /** Funding income minus costs, in USD */
+  expectedProfit: number;
+  /** Funding income over the holding period, in USD */
+  fundingIncome: number;
+  /** Estimated gas costs, in USD */
+  gasCosts: number;
+  /** Estimated trading fees, in USD */
+  tradingFees: number;
+}
+
+/**
+ * Price comparison stored by CheckPriceOperation
+ */
+export interface PriceCheck {
+  pair: string;
+  price: number;
+  operator: string;
+  targetPrice: string;
+  conditionMet: boolean;
+}
+
+/**
+ * Liquidity measured on one venue for the intended size
+ */
+export interface VenueLiquidity {
+  /** Intended notional in quote currency */
+  notional: string;
+  /** Expected price impact, as a percentage */
+  priceImpact: number;
+  /** Remaining open-interest capacity (perpetual venue only) */
+  availableOpenInterest?: string;
+  /** Whether this venue can absorb the size */
+  sufficient: boolean;
+}
+
+/**
+ * Liquidity check stored by CheckLiquidityOperation
+ */
+export interface LiquidityCheck {
+  pair: string;
+  maxPriceImpact: number;
+  perp: VenueLiquidity;
+  /** Unset when no spot quote is available */
+  spot?: VenueLiquidity;
+  sufficient: boolean;
+  /** Why the check failed, when it did */
+  reasons: string[];
+}
+
+/**
+ * Open perpetual position, stored by the operations that open and close it
+ */
+export interface PositionState {
+  pair: string;
+  entryPrice: string;
+  /** Collateral in quote currency */
+  amount: string;
+  leverage: number;
+  /** Opening transaction (unknown for some positions found on-chain) */
+  transactionHash?: string;
+  /** Venue slot of the trade, when the venue numbers them (e.g., Avantis) */
+  tradeIndex?: number;
+  stopLoss?: string;
+  takeProfit?: string;
+  timestamp?: number;
+}
+
+/**
+ * Spot holding stored by SpotBuyOperation and reduced by SpotSellOperation
+ */
+export interface SpotHolding {
+  asset: string;
+  /** Amount held (expected amount for pending limit orders) */
+  amount: string;
+  transactionHash?: string;
+  fusionOrderId?: string;
+  executionPrice?: string;
+  targetPrice?: string;
+  amountSpent?: string;
+  orderType?: 'market' | 'limit';
+  /** Service the swap went through ('fallback' after failing over from 1inch Fusion) */
+  route?: 'fusion' | 'fallback';
+  status: 'filled' | 'pending';
+  timestamp?: number;
+}
+
+/**
+ * Spot sale stored by SpotSellOperation
+ */
+export interface SpotSale {
+  asset: string;
+  amountSold: string;
+  amountReceived?: string;
+  executionPrice?: string;
+  transactionHash?: string;
+  fusionOrderId?: string;
+  orderType: 'market' | 'limit';
+  status: 'filled' | 'pending';
+  timestamp: number;
+}
+
+/**
+ * Confirmation status of a position, refreshed by wait operations
+ */
+export interface PositionStatus {
+  confirmed: boolean;
+  entryPrice?: string;
+}
+
+/**
+ * Value type of each declared state key (see STATE_KEYS for their writers)
+ */
+export interface StateValues extends Record<StateKey, unknown> {
+  /** Latest funding rate checked or refreshed, as a decimal per period */
+  fundingRate: number;
+  /** Whether the funding rate check passed */
+  isProfitable: boolean;
+  profitabilityDetails: ProfitabilityDetails;
+  /** Latest oracle price checked */
+  price: number;
+  /** Whether the price check passed */
+  priceConditionMet: boolean;
+  priceCheck: PriceCheck;
+  /** Whether the liquidity check passed */
+  hasSufficientLiquidity: boolean;
+  liquidityCheck: LiquidityCheck;
+  shortPosition: PositionState;
+  longPosition: PositionState;
+  spotHolding: SpotHolding;
+  spotSale: SpotSale;
+  positionStatus: PositionStatus;
+}
+
+/**
+ * Plain copy of the execution state: declared keys with their value types,
+ * and custom keys written by wait refresh sources
+ */
+export type StateSnapshot = Partial<StateValues> & Record<string, unknown>;
+
+/**
+ * Raised when an operation writes a state key it does not own, or when a
+ * condition reads a key that is neither declared nor written.
+ */
+export class StateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StateError';
+  }
+}
+
+/**
+ * Storage shared by an ExecutionState and its operation views
+ */
+interface StateStore {
+  values: Map<string, unknown>;
+  /** Custom keys declared so far (by wait refresh sources, or restored) */
+  customKeys: Set<string>;
+}
+
+/**
+ * ExecutionState is the typed store operations pass data through.
+ *
+ * Keys are declared once, in STATE_KEYS, with the operation types allowed to
+ * write them; their value types are declared in StateValues. get() and set()
+ * only accept declared keys, so a misspelled key is a compile error.
+ * Conditions and wait refresh sources name keys at run time, and go through
+ * read() and write(), which reject unknown keys instead of returning
+ * undefined.
+ *
+ * The StrategyExecutor hands each operation a view bound to its type (see
+ * forOperation()): writing or deleting a key owned by other operations
+ * throws. The unbound state, as created for a context or in tests, may write
+ * any key.
+ *
+ * @example
+ * ```typescript
+ * const state = new ExecutionState();
+ * state.forOperation(OperationType.CHECK_FUNDING_RATE).set('isProfitable', true);
+ *
+ * state.get('isProfitable');     // true
+ * state.read('isProfitable');    // true
+ * state.read('isProfitible');    // throws StateError
+ * state.snapshot();              // { isProfitable: true }
+ * ```
+ */
+export class ExecutionState {
+  /** Values and custom keys, shared with views of this state */
+  private store: StateStore = { values: new Map(), customKeys: new Set() };
+
+  /** Operation type this view writes for (unset: unrestricted) */
+  private owner?: OperationType;
+
+  /**
+   * Creates an execution state.
+   *
+   * @param initial - Values to start with (e.g., a snapshot restored from the journal)
+   */
+  constructor(initial: StateSnapshot = {}) {
+    this.restore(initial);
+  }
+
+  /**
+   * Creates a view of this state that writes on behalf of an operation type.
+   * The view shares the values of this state.
+   *
+   * @param type - Type of the operation the view is given to
+   * @returns View restricted to the keys that type owns
+   */
+  forOperation(type: OperationType): ExecutionState {
+    const view = new ExecutionState();
+    view.store = this.store;
+    view.owner = type;
+    return view;
+  }
+
+  /**
+   * Gets the value of a declared key.
+   *
+   * @param key - Declared state key
+   * @returns The value, or undefined if no operation has written it (or it was deleted)
+   */
+  get<K extends StateKey>(key: K): StateValues[K] | undefined {
+    return this.store.values.get(key) as StateValues[K] | undefined;
+  }
+
+  /**
+   * Checks whether a declared key currently holds a value.
+   *
+   * @param key - Declared state key
+   * @returns Whether the key is set
+   */
+  has(key: StateKey): boolean {
+    return this.store.values.has(key);
+  }
+
+  /**
+   * Sets the value of a declared key.
+   *
+   * @param key - Declared state key
+   * @param value - Value of the key's declared type
+   * @throws StateError if this view's operation type does not own the key
+   */
+  set<K extends StateKey>(key: K, value: StateValues[K]): void {
+    this.write(key, value);
+  }
+
+  /**
+   * Removes the value of a declared key (e.g., a closed position).
+   *
+   * @param key - Declared state key
+   * @throws StateError if this view's operation type does not own the key
+   */
+  delete(key: StateKey): void {
+    this.assertOwner(key);
+    this.store.values.delete(key);
+  }
+
+  /**
+   * Reads a key named at run time (e.g., `state.<key>` in a condition).
+   *
+   * @param key - Declared or custom state key
+   * @returns The value, or undefined if the key is known but not set
+   * @throws StateError if the key is neither declared nor a custom key written so far
+   */
+  read(key: string): unknown {
+    if (!isStateKey(key) && !this.store.customKeys.has(key)) {
+      throw new StateError(`Unknown state key "${key}"`);
+    }
+    return this.store.values.get(key);
+  }
+
+  /**
+   * Writes a key named at run time (e.g., the `stateKey` of a wait refresh
+   * source). A key that is not declared becomes a custom key.
+   *
+   * @param key - Declared or custom state key
+   * @param value - Value to store
+   * @throws StateError if this view's operation type does not own the key
+   */
+  write(key: string, value: unknown): void {
+    this.declare(key);
+    this.store.values.set(key, value);
+  }
+
+  /**
+   * Declares a custom key ahead of its first write, so that conditions may
+   * read it (as undefined) until then.
+   *
+   * @param key - Declared or custom state key
+   * @throws StateError if this view's operation type does not own the key
+   */
+  declare(key: string): void {
+    this.assertOwner(key);
+    if (!isStateKey(key)) {
+      this.store.customKeys.add(key);
+    }
+  }
+
+  /**
+   * Copies the current values into a plain object, e.g., for the journal or
+   * for tests and results to inspect.
+   *
+   * @returns Snapshot of the set keys (values are not deep-copied)
+   */
+  snapshot(): StateSnapshot {
+    return Object.fromEntries(this.store.values);
+  }
+
+  /**
+   * Restores values from a snapshot, without ownership checks.
+   *
+   * @param snapshot - Snapshot taken by snapshot(), e.g., read back from the journal
+   */
+  restore(snapshot: StateSnapshot): void {
+    Object.entries(snapshot).forEach(([key, value]) => {
+      if (!isStateKey(key)) {
+        this.store.customKeys.add(key);
+      }
+      this.store.values.set(key, value);
+    });
+  }
+
+  /**
+   * Checks that this view may write a key.
+   *
+   * @param key - Declared or custom state key
+   * @throws StateError if the key belongs to other operation types
+   */
+  private assertOwner(key: string): void {
+    if (this.owner !== undefined && !getStateKeyWriters(key).includes(this.owner)) {
+      throw new StateError(`Operation ${this.owner} cannot write state key "${key}"`);
+    }
+  }
+}
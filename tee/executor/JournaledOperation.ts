@@ -0,0 +1,257 @@
+import { IOperation } from '../operations/IOperation';
+import { OperationType, ValidationResult, OperationResult } from '../operations/OperationTypes';
+import { RetryPolicy } from '../schema/operationSchema';
+import {
+  ExecutionContext,
+  OneInchService,
+  PerpetualService,
+  SecureWallet,
+  TransactionManager
+} from './ExecutionContext';
+import { ExecutionJournal, JournaledService } from './ExecutionJournal';
+import { systemClock } from './Clock';
+import { getTransactionHash } from './Tracer';
+
+/**
+ * JournaledOperation wraps an operation of a journaled run and records its
+ * progress in the execution journal:
+ *
+ * - `operation_started` before each attempt (the intent)
+ * - `transaction_requested` / `transaction_submitted` around every chain write
+ *   the operation sends through the context's services
+ * - `operation_completed` once the attempt finished, with its result and a
+ *   snapshot of the execution state
+ * - `operation_rolled_back` once it was rolled back
+ *
+ * Everything else (validation, envelope fields, rollback) is delegated to the
+ * wrapped operation, so the executor runs it like any other operation.
+ *
+ * @example
+ * ```typescript
+ * const journaled = new JournaledOperation(operation, 0, journal, runId);
+ * await journaled.execute(context);
+ * // journal: operation_started, transaction_requested, transaction_submitted, operation_completed
+ * ```
+ */
+export class JournaledOperation implements IOperation {
+  /** Operation type identifier, taken from the wrapped operation */
+  readonly type: OperationType;
+
+  /** Execution order within the strategy */
+  readonly order: number;
+
+  /** Labels whose results the wrapped operation references */
+  readonly references?: readonly string[];
+
+  /** Whether the wrapped operation may fail without stopping the strategy */
+  optional?: boolean;
+
+  /** Label of the wrapped operation */
+  label?: string;
+
+  /** Retry policy of the wrapped operation */
+  retry?: RetryPolicy;
+
+  /** Time limit of the wrapped operation */
+  timeoutMs?: number;
+
+  /** Dependencies of the wrapped operation */
+  dependsOn?: readonly string[];
+
+  /** Operation being journaled */
+  private readonly operation: IOperation;
+
+  /** Index of the operation in the strategy's sorted operation list */
+  private readonly index: number;
+
+  /** Journal the progress is recorded in */
+  private readonly journal: ExecutionJournal;
+
+  /** Identifier of the run being journaled */
+  private readonly runId: string;
+
+  /**
+   * Creates a new JournaledOperation instance.
+   *
+   * @param operation - Operation to journal
+   * @param index - Index of the operation in the strategy's sorted operation list
+   * @param journal - Journal to record progress in
+   * @param runId - Identifier of the run being journaled
+   */
+  constructor(operation: IOperation, index: number, journal: ExecutionJournal, runId: string) {
+    this.type = operation.type;
+    this.order = operation.order;
+    this.references = operation.references;
+    this.optional = operation.optional;
+    this.label = operation.label;
+    this.retry = operation.retry;
+    this.timeoutMs = operation.timeoutMs;
+    this.dependsOn = operation.dependsOn;
+    this.operation = operation;
+    this.index = index;
+    this.journal = journal;
+    this.runId = runId;
+  }
+
+  /**
+   * Whether the wrapped operation is safe to run again, read when asked
+   * since a deferred operation only knows once it has been built.
+   */
+  get idempotent(): boolean | undefined {
+    return this.operation.idempotent;
+  }
+
+  /**
+   * Delegates validation to the wrapped operation.
+   *
+   * @returns ValidationResult of the wrapped operation
+   */
+  validate(): ValidationResult {
+    return this.operation.validate();
+  }
+
+  /**
+   * Executes one attempt of the wrapped operation, journaling its intent,
+   * its chain writes and its completion.
+   *
+   * @param context - Execution context
+   * @returns Promise resolving to the wrapped operation's result
+   */
+  async execute(context: ExecutionContext): Promise<OperationResult> {
+    const clock = context.clock ?? systemClock;
+
+    this.journal.append({
+      type: 'operation_started',
+      runId: this.runId,
+      index: this.index,
+      order: this.order,
+      operationType: this.type,
+      timestamp: clock.now()
+    });
+
+    let result: OperationResult;
+    try {
+      result = await this.operation.execute(this.journaledContext(context));
+    } catch (error) {
+      // The attempt is over either way; the executor sanitizes the error itself
+      this.complete(context, {
+        success: false,
+        operationType: this.type,
+        error: { code: 'EXECUTION_ERROR', message: 'Strategy execution failed', recoverable: false }
+      });
+      throw error;
+    }
+
+    this.complete(context, result);
+    return result;
+  }
+
+  /**
+   * Rolls back the wrapped operation, if it supports it, and journals it.
+   *
+   * @param context - Execution context
+   */
+  async rollback(context: ExecutionContext): Promise<void> {
+    if (this.operation.rollback) {
+      await this.operation.rollback(context);
+    }
+
+    this.journal.append({
+      type: 'operation_rolled_back',
+      runId: this.runId,
+      index: this.index,
+      timestamp: (context.clock ?? systemClock).now()
+    });
+  }
+
+  /**
+   * Journals the end of an attempt with a snapshot of the execution state.
+   *
+   * @param context - Execution context
+   * @param result - Result of the attempt
+   */
+  private complete(context: ExecutionContext, result: OperationResult): void {
+    this.journal.append({
+      type: 'operation_completed',
+      runId: this.runId,
+      index: this.index,
+      result,
+      state: context.state.snapshot(),
+      timestamp: (context.clock ?? systemClock).now()
+    });
+  }
+
+  /**
+   * Wraps the context so that every chain write is journaled before it is
+   * sent and once it returns. Reads go straight to the services.
+   *
+   * @param context - Execution context
+   * @returns Context to execute the wrapped operation with
+   */
+  private journaledContext(context: ExecutionContext): ExecutionContext {
+    const clock = context.clock ?? systemClock;
+    const write = async <T>(
+      service: JournaledService,
+      method: string,
+      params: Record<string, unknown>,
+      send: () => Promise<T>
+    ): Promise<T> => {
+      const { wallet: _wallet, signal: _signal, ...rest } = params;
+      const base = { runId: this.runId, index: this.index, service, method };
+
+      this.journal.append({ ...base, type: 'transaction_requested', params: rest, timestamp: clock.now() });
+      const response = await send();
+
+      const transactionHash = getTransactionHash(response);
+      this.journal.append({ ...base, type: 'transaction_submitted', transactionHash, timestamp: clock.now() });
+
+      return response;
+    };
+
+    const wallet: SecureWallet = {
+      address: context.wallet.address,
+      getBalance: tokenAddress => context.wallet.getBalance(tokenAddress),
+      signTransaction: transaction =>
+        write('wallet', 'signTransaction', { to: transaction.to }, () => context.wallet.signTransaction(transaction)),
+      // Signed orders only reach the chain through the calls submitting them
+      signTypedData: context.wallet.signTypedData?.bind(context.wallet)
+    };
+
+    const journaledSpot = (live: OneInchService, service: JournaledService): OneInchService => ({
+      executeFusionSwap: params => write(service, 'executeFusionSwap', params, () => live.executeFusionSwap(params)),
+      getQuote: live.getQuote?.bind(live)
+    });
+
+    return {
+      ...context,
+      wallet,
+
+      getPerpetualService(): PerpetualService {
+        const live = context.getPerpetualService();
+
+        return {
+          openShort: params => write('perpetual', 'openShort', params, () => live.openShort(params)),
+          openLong: params => write('perpetual', 'openLong', params, () => live.openLong(params)),
+          closePosition: (position, options) =>
+            write('perpetual', 'closePosition', { pair: position?.pair, ...options }, () => live.closePosition(position, options)),
+          getPositionStatus: live.getPositionStatus?.bind(live),
+          getOpenPosition: live.getOpenPosition?.bind(live),
+          getMarketLiquidity: live.getMarketLiquidity?.bind(live)
+        };
+      },
+
+      getOneInchService: () => journaledSpot(context.getOneInchService(), 'oneInch'),
+      getFallbackSpotService: context.getFallbackSpotService
+        && (() => journaledSpot(context.getFallbackSpotService!(), 'fallbackSpot')),
+
+      getTransactionManager(): TransactionManager {
+        const live = context.getTransactionManager();
+
+        return {
+          send: (transaction, options) =>
+            write('transactions', 'send', { to: transaction.to }, () => live.send(transaction, options))
+        };
+      }
+    };
+  }
+}
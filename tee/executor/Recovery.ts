@@ -0,0 +1,166 @@
+import { OperationType } from '../operations/OperationTypes';
+import { ExecutionContext } from './ExecutionContext';
+import { JournaledWrite } from './ExecutionJournal';
+import { describeError, getLogger } from './Tracer';
+
+/**
+ * Outcome of a journaled chain write, as found on the chain after a crash
+ * - not_executed: the write left no trace and can safely be sent again
+ * - executed: the write took effect
+ * - unknown: the chain could not tell (e.g., swaps, pending transactions)
+ */
+export type WriteStatus = 'not_executed' | 'executed' | 'unknown';
+
+/**
+ * Journaled chain write checked against the chain
+ */
+export interface ReconciledWrite extends JournaledWrite {
+  /** Outcome found on the chain */
+  status: WriteStatus;
+
+  /** Position the write opened, for executed position opens */
+  position?: Record<string, unknown>;
+}
+
+/**
+ * How an interrupted run was recovered.
+ * Included in the StrategyExecutionResult of the run that recovered it.
+ */
+export interface RecoveryReport {
+  /** Identifier of the interrupted run */
+  runId: string;
+
+  /** Whether the run was carried on or unwound */
+  action: 'resumed' | 'unwound';
+
+  /** Lowest order of the operations executed again (resumed runs only) */
+  resumedFromOrder?: number;
+
+  /** Positions opened by the interrupted operations and closed while unwinding */
+  closedPositions: { pair: string; side: 'long' | 'short'; transactionHash: string }[];
+
+  /** Writes of the interrupted operations whose outcome the chain could not confirm */
+  unreconciledTransactions: {
+    operationType: OperationType;
+    order: number;
+    service: JournaledWrite['service'];
+    method: string;
+    transactionHash?: string;
+  }[];
+}
+
+/**
+ * Position opening methods of the perpetual service, by position side
+ */
+const POSITION_OPENS: Record<string, 'long' | 'short'> = {
+  openShort: 'short',
+  openLong: 'long'
+};
+
+/**
+ * Checks the writes of an interrupted operation against the chain.
+ *
+ * Position opens are looked up with getOpenPosition when the perpetual service
+ * supports it, and otherwise by the status of their transaction. Other writes
+ * (swaps, raw transactions) cannot be checked and are reported as unknown.
+ *
+ * @param context - Execution context of the recovering run
+ * @param writes - Journaled writes of the interrupted operation
+ * @returns The writes with their on-chain outcome
+ */
+export async function reconcileWrites(context: ExecutionContext, writes: JournaledWrite[]): Promise<ReconciledWrite[]> {
+  const reconciled: ReconciledWrite[] = [];
+
+  for (const write of writes) {
+    try {
+      reconciled.push({ ...write, ...await reconcileWrite(context, write) });
+    } catch (error) {
+      getLogger('Recovery', context).error('Failed to reconcile write', {
+        service: write.service,
+        method: write.method,
+        error: describeError(error)
+      });
+      reconciled.push({ ...write, status: 'unknown' });
+    }
+  }
+
+  return reconciled;
+}
+
+/**
+ * Checks a single write against the chain.
+ *
+ * @param context - Execution context of the recovering run
+ * @param write - Journaled write
+ * @returns Outcome found on the chain, with the opened position if any
+ */
+async function reconcileWrite(
+  context: ExecutionContext,
+  write: JournaledWrite
+): Promise<Pick<ReconciledWrite, 'status' | 'position'>> {
+  const side = write.service === 'perpetual' ? POSITION_OPENS[write.method] : undefined;
+  if (!side) {
+    return { status: 'unknown' };
+  }
+
+  const perpService = context.getPerpetualService();
+  const pair = String(write.params.pair);
+
+  if (perpService.getOpenPosition) {
+    const position = await perpService.getOpenPosition({ pair, side, wallet: context.wallet });
+    return position ? { status: 'executed', position } : { status: 'not_executed' };
+  }
+
+  if (write.transactionHash && perpService.getPositionStatus) {
+    const status = await perpService.getPositionStatus(write.transactionHash);
+    return status.confirmed
+      ? { status: 'executed', position: { ...write.params, entryPrice: status.entryPrice, transactionHash: write.transactionHash } }
+      : { status: 'unknown' };
+  }
+
+  return { status: 'unknown' };
+}
+
+/**
+ * Closes the positions that reconciled writes were found to have opened.
+ * Failures are logged and the write is reported back as unreconciled.
+ *
+ * @param context - Execution context of the recovering run
+ * @param writes - Reconciled writes of the interrupted operation
+ * @returns Closed positions, and the writes that are still open or unknown
+ */
+export async function closeReconciledPositions(
+  context: ExecutionContext,
+  writes: ReconciledWrite[]
+): Promise<{ closed: RecoveryReport['closedPositions']; unresolved: ReconciledWrite[] }> {
+  const closed: RecoveryReport['closedPositions'] = [];
+  const unresolved: ReconciledWrite[] = [];
+
+  for (const write of writes) {
+    if (write.status === 'not_executed') {
+      continue;
+    }
+
+    if (write.status === 'unknown' || !write.position) {
+      unresolved.push(write);
+      continue;
+    }
+
+    try {
+      const result = await context.getPerpetualService().closePosition(write.position);
+      closed.push({
+        pair: String(write.position.pair),
+        side: POSITION_OPENS[write.method],
+        transactionHash: result.transactionHash
+      });
+      getLogger('Recovery', context).warn('Closed position left open by the interrupted run', {
+        transactionHash: result.transactionHash
+      });
+    } catch (error) {
+      getLogger('Recovery', context).error('Failed to close position', { error: describeError(error) });
+      unresolved.push(write);
+    }
+  }
+
+  return { closed, unresolved };
+}
@@ -0,0 +1,78 @@
+import { OperationResult } from '../operations/OperationTypes';
+import { isResultReference } from '../schema/operationSchema';
+
+/**
+ * ResultReferenceResolver replaces the result references found in operation
+ * params (`{ $ref: '<label>.<field>' }`) with the values recorded in the
+ * results of earlier labelled operations.
+ *
+ * A reference reads `OperationResult.data` of the most recent successful
+ * result carrying that label, so references into a conditional branch see
+ * the branch's results once it has run.
+ *
+ * @example
+ * ```typescript
+ * // shortPosition result: { success: true, label: 'shortPosition', data: { entryPrice: '50000' } }
+ * ResultReferenceResolver.resolve({ maxPrice: { $ref: 'shortPosition.entryPrice' } }, context.results);
+ * // Returns: { maxPrice: '50000' }
+ * ```
+ */
+export class ResultReferenceResolver {
+  /**
+   * Returns a copy of the params with every top-level reference resolved.
+   *
+   * @param params - Operation params, possibly containing references
+   * @param results - Results recorded so far, oldest first
+   * @returns Params with references replaced by their values
+   * @throws Error if a reference cannot be resolved to a string or number
+   */
+  static resolve<P extends object>(params: P, results: OperationResult[]): P {
+    const resolved: Record<string, unknown> = { ...(params as object) };
+
+    for (const [key, value] of Object.entries(resolved)) {
+      if (isResultReference(value)) {
+        resolved[key] = this.resolvePath(value.$ref, results);
+      }
+    }
+
+    return resolved as P;
+  }
+
+  /**
+   * Resolves a single reference path.
+   *
+   * @param path - `<label>.<field>[.<field>...]`
+   * @param results - Results recorded so far, oldest first
+   * @returns The referenced value
+   * @throws Error if the label has no successful result or the field is not a string or number
+   */
+  static resolvePath(path: string, results: OperationResult[]): string | number {
+    const [label, ...segments] = path.split('.');
+    const result = [...results].reverse().find(candidate => candidate.label === label && candidate.success);
+
+    if (!result) {
+      throw new Error(`Cannot resolve reference "${path}": no successful result for label "${label}"`);
+    }
+
+    let value: unknown = result.data;
+    for (const segment of segments) {
+      value = isRecord(value) ? value[segment] : undefined;
+    }
+
+    if (typeof value !== 'string' && typeof value !== 'number') {
+      throw new Error(`Cannot resolve reference "${path}": result has no string or number at this path`);
+    }
+
+    return value;
+  }
+}
+
+/**
+ * Type guard for values a reference path can step into.
+ *
+ * @param value - Candidate value
+ * @returns Whether the value is a non-null object (arrays included, for index segments)
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
@@ -0,0 +1,60 @@
+import { OperationError } from '../operations/OperationTypes';
+import { RetryPolicy } from '../schema/operationSchema';
+
+/**
+ * Values used for the RetryPolicy fields a strategy leaves out
+ */
+export const DEFAULT_RETRY_POLICY = {
+  initialDelayMs: 1000,
+  backoffMultiplier: 2,
+  maxDelayMs: 30000,
+  jitter: 0.2
+} as const;
+
+/**
+ * Checks whether a failed attempt may be retried under a policy.
+ *
+ * Only recoverable errors are retried. When the policy lists
+ * `retryableCodes`, the error code must be one of them; without a list,
+ * only idempotent operations are retried, so that an operation which may
+ * trade is only attempted again for the failures a strategy opted into.
+ *
+ * @param policy - Retry policy of the operation
+ * @param error - Sanitized error of the failed attempt
+ * @param idempotent - Whether running the operation again is harmless
+ * @returns Whether the attempt may be retried
+ */
+export function isRetryable(policy: RetryPolicy, error: OperationError, idempotent: boolean): boolean {
+  if (!error.recoverable) {
+    return false;
+  }
+
+  return policy.retryableCodes === undefined ? idempotent : policy.retryableCodes.includes(error.code);
+}
+
+/**
+ * Computes the delay before a retry: exponential backoff capped at
+ * `maxDelayMs`, reduced by a random fraction of up to `jitter` so that
+ * retries from concurrent tasks do not hit a provider at the same instant.
+ *
+ * @param policy - Retry policy of the operation
+ * @param retry - Retry number, starting at 1 for the second attempt
+ * @param random - Source of randomness in [0, 1) (default: Math.random)
+ * @returns Delay in milliseconds
+ *
+ * @example
+ * ```typescript
+ * // initialDelayMs 1000, backoffMultiplier 2, no jitter: 1000, 2000, 4000, ...
+ * const delayMs = getRetryDelay({ maxAttempts: 4, jitter: 0 }, 3); // 4000
+ * ```
+ */
+export function getRetryDelay(policy: RetryPolicy, retry: number, random: () => number = Math.random): number {
+  const initialDelayMs = policy.initialDelayMs ?? DEFAULT_RETRY_POLICY.initialDelayMs;
+  const backoffMultiplier = policy.backoffMultiplier ?? DEFAULT_RETRY_POLICY.backoffMultiplier;
+  const maxDelayMs = policy.maxDelayMs ?? DEFAULT_RETRY_POLICY.maxDelayMs;
+  const jitter = policy.jitter ?? DEFAULT_RETRY_POLICY.jitter;
+
+  const delayMs = Math.min(initialDelayMs * Math.pow(backoffMultiplier, retry - 1), maxDelayMs);
+
+  return Math.round(delayMs * (1 - jitter * random()));
+}
@@ -1,7 +1,28 @@
+import { createHash, randomUUID } from 'crypto';
 import { IOperation } from '../operations/IOperation';
-import { OperationResult, OperationError } from '../operations/OperationTypes';
+import { OperationType, OperationResult, OperationError, OperationAttempt } from '../operations/OperationTypes';
 import { ExecutionContext } from './ExecutionContext';
+import { StateSnapshot } from './ExecutionState';
 import { OperationFactory } from './OperationFactory';
+import { StrategyFormatError } from '../schema/migrations';
+import { SimulatedTransaction, createDryRunContext } from './DryRun';
+import { systemClock } from './Clock';
+import { getRetryDelay, isRetryable } from './RetryPolicy';
+import { ExecutionJournal, InFlightOperation, IncompleteRun, findIncompleteRun } from './ExecutionJournal';
+import { JournaledOperation } from './JournaledOperation';
+import { ReconciledWrite, RecoveryReport, closeReconciledPositions, reconcileWrites } from './Recovery';
+import {
+  ExecutionTrace,
+  Tracer,
+  describeError,
+  getLogger,
+  redactTrace,
+  startSpan,
+  traceContext
+} from './Tracer';
+
+/** Outcome of the timer racing an operation attempt */
+const TIMED_OUT = Symbol('timedOut');
 
 /**
  * Result of a complete strategy execution.
@@ -20,11 +41,68 @@ export interface StrategyExecutionResult {
   /** Error information if the strategy failed */
   error?: OperationError;
   
+  /** Optional operations that failed without stopping the strategy */
+  softFailures: SoftFailure[];
+  
   /** Timestamp when execution started */
   startTime: number;
   
   /** Timestamp when execution completed */
   endTime: number;
+  
+  /** Set when the strategy ran in dry-run mode; nothing was sent to the chain */
+  dryRun?: boolean;
+  
+  /** Chain writes that a real run would have sent (dry runs only) */
+  simulatedTransactions?: SimulatedTransaction[];
+  
+  /** Set when this execution picked up a run interrupted by a crash */
+  recovery?: RecoveryReport;
+  
+  /** Redacted trace of the execution: spans per operation, service call and rollback */
+  trace?: ExecutionTrace;
+  
+  /** Execution state the operations left behind (see ExecutionState.snapshot) */
+  state?: StateSnapshot;
+}
+
+/**
+ * Options controlling how a StrategyExecutor runs its operations.
+ */
+export interface StrategyExecutorOptions {
+  /**
+   * Run every operation against live market data without sending anything
+   * to the chain, and report the writes that would have been sent.
+   */
+  dryRun?: boolean;
+  
+  /**
+   * Journal recording the progress of every run, so that a run interrupted
+   * by a crash is resumed or unwound by the next run of the same strategy.
+   * Only used for live runs of strategies loaded with initialize().
+   */
+  journal?: ExecutionJournal;
+  
+  /**
+   * What to do with an interrupted run found in the journal (default: 'resume').
+   * A run is unwound regardless if it had started rolling back, or if the
+   * operation it was executing sent writes that did not demonstrably fail.
+   */
+  onIncompleteRun?: 'resume' | 'unwind';
+}
+
+/**
+ * An optional operation that failed while the strategy carried on.
+ */
+export interface SoftFailure {
+  /** Type of the operation that failed */
+  operationType: OperationType;
+  
+  /** Execution order of the operation that failed */
+  order: number;
+  
+  /** Sanitized error reported by the operation */
+  error: OperationError;
 }
 
 /**
@@ -35,15 +113,42 @@ export interface StrategyExecutionResult {
  * 
  * 1. **Initialization**: Deserializes encrypted strategy data into operation objects
  * 2. **Validation**: Validates all operations before execution begins
- * 3. **Execution**: Runs operations sequentially in order
+ * 3. **Execution**: Runs operations along their dependencies, independent ones concurrently
  * 4. **Error Handling**: Sanitizes errors and attempts rollback on failure
  * 5. **Result Aggregation**: Collects results from all operations
  * 
+ * With a journal, every operation's intent, chain writes and completion are
+ * recorded as they happen. When a run dies midway (e.g., after opening the
+ * short of a delta-neutral strategy but before the spot hedge), the next run
+ * of the same strategy reconciles the journal against the chain and resumes
+ * or unwinds it instead of starting over.
+ * 
+ * Every execution is traced: the strategy, each operation and each service
+ * call it makes get a span with start and end times and an outcome, retries
+ * and timeouts are recorded on the operation's span, and log lines are
+ * written as JSON tagged with their trace and span (see Tracer). The result
+ * carries the trace, redacted so it can leave the enclave (see redactTrace).
+ * 
+ * In dry-run mode, the executor runs the same lifecycle against a context
+ * whose chain writes are intercepted (see createDryRunContext), so a
+ * strategy can be previewed with live rates, quotes and sizes, and the
+ * result lists the transactions a real run would send with their estimated gas.
+ * 
+ * Operations wait for every operation of lower order, or, when they declare
+ * `dependsOn`, only for those operations and the ones they reference. Operations
+ * sharing an order therefore run concurrently, as do branches of the strategy
+ * that do not depend on each other; they share the execution state.
+ * 
  * The executor ensures that:
- * - Operations execute in the correct order
+ * - Operations never start before the operations they depend on have completed
  * - Each operation has access to shared state via ExecutionContext
  * - Errors are caught and sanitized to prevent strategy logic exposure
- * - Failed operations trigger rollback attempts for previously executed operations
+ * - Operations with a retry policy are re-attempted after recoverable failures,
+ *   with exponential backoff, before their failure counts
+ * - Operations that overrun their `timeoutMs` or the context deadline are
+ *   cancelled and fail with TIMEOUT, leaving the rest of the budget for rollback
+ * - Failed operations trigger rollback attempts for previously executed operations,
+ *   unless they are marked optional, in which case they are recorded as soft failures
  * - All results are aggregated into a comprehensive execution report
  * 
  * @example
@@ -71,6 +176,32 @@ export class StrategyExecutor {
   /** Array of successfully executed operations for rollback purposes */
   private executedOperations: IOperation[] = [];
   
+  /** Whether chain writes are intercepted instead of sent */
+  private readonly dryRun: boolean;
+  
+  /** Journal recording the progress of each run, if any */
+  private readonly journal?: ExecutionJournal;
+  
+  /** What to do with an interrupted run found in the journal */
+  private readonly onIncompleteRun: 'resume' | 'unwind';
+  
+  /** Hash of the serialized strategy, identifying its runs in the journal */
+  private strategyId?: string;
+  
+  /**
+   * Creates a new StrategyExecutor.
+   * 
+   * Nested executors (e.g., for conditional branches) are created without
+   * options; they inherit dry-run mode through the context they run with.
+   * 
+   * @param options - Execution options (default: live execution)
+   */
+  constructor(options: StrategyExecutorOptions = {}) {
+    this.dryRun = options.dryRun ?? false;
+    this.journal = options.journal;
+    this.onIncompleteRun = options.onIncompleteRun ?? 'resume';
+  }
+  
   /**
    * Initializes the executor with serialized strategy data.
    * 
@@ -84,6 +215,7 @@ export class StrategyExecutor {
    * the operations that make up the strategy, along with their parameters.
    * 
    * @param serializedStrategy - JSON string containing strategy operations
+   * @throws StrategyFormatError if the strategy's format version is not supported
    * @throws Error if deserialization fails or operations are invalid
    * 
    * @example
@@ -91,7 +223,7 @@ export class StrategyExecutor {
    * const strategyData = JSON.stringify({
    *   operations: [
    *     { type: 'check_funding_rate', order: 1, params: { ... } },
-   *     { type: 'open_perpetual_short', order: 2, params: { ... } }
+   *     { type: 'open_short', order: 2, params: { ... } }
    *   ]
    * });
    * 
@@ -102,17 +234,16 @@ export class StrategyExecutor {
     try {
       // Deserialize the strategy data into operation objects
       // OperationFactory handles parsing and instantiation
-      this.operations = OperationFactory.deserialize(serializedStrategy);
-      
-      // Sort operations by their order property to ensure correct execution sequence
-      // This is critical because operations may depend on state set by previous operations
-      this.operations.sort((a, b) => a.order - b.order);
-      
-      // Reset executed operations array for fresh execution
-      this.executedOperations = [];
+      this.load(OperationFactory.deserialize(serializedStrategy));
+      this.strategyId = createHash('sha256').update(serializedStrategy).digest('hex');
       
     } catch (error) {
-      // Wrap any initialization errors with context
+      // Format errors carry their own code for the TEE output; keep them intact
+      if (error instanceof StrategyFormatError) {
+        throw error;
+      }
+      
+      // Wrap any other initialization errors with context
       throw new Error(
         `Failed to initialize StrategyExecutor: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
@@ -120,20 +251,42 @@ export class StrategyExecutor {
   }
 
   /**
-   * Executes all operations in the strategy sequentially.
+   * Loads already-instantiated operations into the executor.
+   * 
+   * This is used when operations are not read from a serialized strategy,
+   * for example by ConditionalOperation, which runs its nested branch
+   * through a dedicated StrategyExecutor so that the branch gets the same
+   * validation, error sanitization and rollback behaviour as a top-level strategy.
+   * 
+   * @param operations - Operations to execute
+   */
+  load(operations: IOperation[]): void {
+    // Sort operations by their order property to ensure correct execution sequence
+    // This is critical because operations may depend on state set by previous operations
+    this.operations = [...operations].sort((a, b) => a.order - b.order);
+    
+    // Reset executed operations array for fresh execution
+    this.executedOperations = [];
+    this.strategyId = undefined;
+  }
+
+  /**
+   * Executes all operations in the strategy along their dependencies.
    * 
    * This is the main execution method that orchestrates the complete strategy execution:
    * 
    * 1. **Validation Phase**: Validates all operations before execution begins
-   * 2. **Execution Phase**: Executes each operation in order
+   * 2. **Execution Phase**: Executes each operation once its dependencies are done
    * 3. **State Management**: Tracks executed operations for potential rollback
    * 4. **Error Handling**: Catches errors, sanitizes them, and triggers rollback
    * 5. **Result Aggregation**: Collects all operation results and execution metrics
    * 
    * The execution flow:
-   * - Operations execute sequentially in order
+   * - Operations start as soon as their dependencies are done (see resolveDependencies)
    * - Each operation can read/write to the shared ExecutionContext state
-   * - If any operation fails, execution stops and rollback is attempted
+   * - If a required operation fails, no further operation starts; once the running
+   *   ones settle, rollback is attempted
+   * - If an optional operation fails, it is recorded as a soft failure and execution continues
    * - All errors are sanitized to prevent exposure of strategy logic
    * - Gas usage is tracked and aggregated across all operations
    * 
@@ -146,7 +299,7 @@ export class StrategyExecutor {
    *   config: { slippageTolerance: 1, executionMode: 'instant', capitalAllocation: '1000' },
    *   wallet: secureWallet,
    *   network: networkConfig,
-   *   state: new Map(),
+   *   state: new ExecutionState(),
    *   getDexService: () => dexService,
    *   getPerpetualService: () => perpService,
    *   getOneInchService: () => oneInchService
@@ -156,39 +309,333 @@ export class StrategyExecutor {
    * ```
    */
   async execute(context: ExecutionContext): Promise<StrategyExecutionResult> {
+    // Nested executors (e.g., for conditional branches) record into the enclosing trace
+    if (context.span) {
+      return this.executeTraced(context);
+    }
+    
+    const tracer = new Tracer({ clock: context.clock });
+    const root = tracer.startSpan('strategy', 'strategy', {
+      operations: this.operations.length,
+      dryRun: this.dryRun || undefined
+    });
+    
+    const result = await this.executeTraced({ ...context, span: root });
+    root.end(result.success ? 'ok' : 'error', { code: result.error?.code });
+    
+    return { ...result, state: context.state.snapshot(), trace: redactTrace(tracer.toTrace()) };
+  }
+
+  /**
+   * Executes the strategy within the span of the given context, journaled
+   * or in dry-run mode as configured.
+   * 
+   * @param context - Traced execution context
+   * @returns Promise resolving to the strategy execution result, without its trace
+   * 
+   * @private
+   */
+  private async executeTraced(context: ExecutionContext): Promise<StrategyExecutionResult> {
+    if (!this.dryRun) {
+      return this.journal && this.strategyId
+        ? this.runJournaled(context, this.journal, this.strategyId)
+        : this.run(context);
+    }
+    
+    // Reads go to the live services; writes are recorded instead of sent
+    const dryRun = createDryRunContext(context);
+    const result = await this.run(dryRun.context);
+    
+    return {
+      ...result,
+      dryRun: true,
+      simulatedTransactions: dryRun.transactions
+    };
+  }
+
+  /**
+   * Runs the strategy with its progress recorded in the journal.
+   * 
+   * If the journal holds an interrupted run of the same strategy, that run is
+   * recovered instead of starting a new one (see recover).
+   * 
+   * @param context - Execution context
+   * @param journal - Journal to record progress in
+   * @param strategyId - Identifier of the strategy
+   * @returns Promise resolving to the strategy execution result
+   * 
+   * @private
+   */
+  private async runJournaled(
+    context: ExecutionContext,
+    journal: ExecutionJournal,
+    strategyId: string
+  ): Promise<StrategyExecutionResult> {
+    const incomplete = findIncompleteRun(journal.read(), strategyId);
+    if (incomplete) {
+      return this.recover(context, journal, incomplete);
+    }
+    
+    const runId = randomUUID();
+    journal.append({ type: 'run_started', runId, strategyId, timestamp: (context.clock ?? systemClock).now() });
+    
+    return this.runFrom(context, journal, runId);
+  }
+
+  /**
+   * Recovers a run interrupted by a crash.
+   * 
+   * The execution state and the results of the operations the run completed
+   * are restored from the journal, and the writes of the operations it was
+   * executing are checked against the chain. Then:
+   * - **Resume**: when those writes demonstrably did not execute, every
+   *   operation that did not complete is run again
+   * - **Unwind**: otherwise (or when configured, or when the run had started
+   *   rolling back), positions the interrupted operations opened are closed,
+   *   the completed operations are rolled back, and writes whose outcome is
+   *   unknown are reported in `recovery.unreconciledTransactions`
+   * 
+   * @param context - Execution context
+   * @param journal - Journal holding the interrupted run
+   * @param incomplete - The interrupted run
+   * @returns Promise resolving to the strategy execution result
+   * 
+   * @private
+   */
+  private async recover(
+    context: ExecutionContext,
+    journal: ExecutionJournal,
+    incomplete: IncompleteRun
+  ): Promise<StrategyExecutionResult> {
+    const startTime = Date.now();
+    const clock = context.clock ?? systemClock;
+    const { runId } = incomplete;
+    const operations = this.operations;
+    
+    journal.append({ type: 'run_resumed', runId, timestamp: clock.now() });
+    getLogger('StrategyExecutor', context).warn('Recovering interrupted run');
+    
+    // Operations are done once their last attempt succeeded, or failed softly
+    // Operations run concurrently, so the done ones need not be a prefix
+    const done = new Set(operations.map((_, index) => index).filter(index => {
+      const result = incomplete.results.get(index);
+      return result !== undefined && (result.success || operations[index].optional);
+    }));
+    const doneIndexes = [...done];
+    
+    // Bring back what the completed operations computed
+    context.state.restore(incomplete.state);
+    const restoredResults = doneIndexes.map(index => ({
+      ...incomplete.results.get(index)!,
+      label: operations[index].label
+    }));
+    context.results = [...(context.results ?? []), ...restoredResults];
+    
+    const completed = doneIndexes
+      .filter((index, position) => restoredResults[position].success && !incomplete.rolledBack.has(index))
+      .map(index => new JournaledOperation(operations[index], index, journal, runId));
+    
+    const inFlight: { operation: InFlightOperation; writes: ReconciledWrite[] }[] = [];
+    for (const operation of incomplete.inFlight) {
+      inFlight.push({ operation, writes: await reconcileWrites(context, operation.writes) });
+    }
+    const unwind = this.onIncompleteRun === 'unwind'
+      || incomplete.rolledBack.size > 0
+      || inFlight.some(({ writes }) => writes.some(write => write.status !== 'not_executed'));
+    
+    let restoredGas = BigInt(0);
+    const restoredSoftFailures: SoftFailure[] = [];
+    restoredResults.forEach((result, position) => {
+      if (result.gasUsed) {
+        restoredGas += BigInt(result.gasUsed);
+      }
+      if (!result.success) {
+        restoredSoftFailures.push({
+          operationType: result.operationType,
+          order: operations[doneIndexes[position]].order,
+          error: result.error || this.createSanitizedError('OPERATION_FAILED', 'Operation failed')
+        });
+      }
+    });
+    
+    if (!unwind) {
+      this.executedOperations = completed;
+      const result = await this.runFrom(context, journal, runId, done);
+      
+      return {
+        ...result,
+        operationResults: [...restoredResults, ...result.operationResults],
+        totalGasUsed: (restoredGas + BigInt(result.totalGasUsed)).toString(),
+        softFailures: [...restoredSoftFailures, ...result.softFailures],
+        recovery: {
+          runId,
+          action: 'resumed',
+          resumedFromOrder: operations.find((_, index) => !done.has(index))?.order,
+          closedPositions: [],
+          unreconciledTransactions: []
+        }
+      };
+    }
+    
+    // Unwind: first what the interrupted operations left open, then the completed operations
+    const closed: RecoveryReport['closedPositions'] = [];
+    const unreconciledTransactions: RecoveryReport['unreconciledTransactions'] = [];
+    for (const { operation, writes } of inFlight) {
+      const reconciled = await closeReconciledPositions(context, writes);
+      closed.push(...reconciled.closed);
+      unreconciledTransactions.push(...reconciled.unresolved.map(write => ({
+        operationType: operation.operationType,
+        order: operation.order,
+        service: write.service,
+        method: write.method,
+        transactionHash: write.transactionHash
+      })));
+    }
+    this.executedOperations = completed;
+    await this.rollback(context);
+    journal.append({ type: 'run_finished', runId, outcome: 'unwound', timestamp: clock.now() });
+    
+    return {
+      success: false,
+      operationResults: restoredResults,
+      totalGasUsed: restoredGas.toString(),
+      error: { code: 'RUN_UNWOUND', message: 'An interrupted run was unwound', recoverable: true },
+      softFailures: restoredSoftFailures,
+      startTime,
+      endTime: Date.now(),
+      recovery: {
+        runId,
+        action: 'unwound',
+        closedPositions: closed,
+        unreconciledTransactions
+      }
+    };
+  }
+
+  /**
+   * Runs the operations that are not done yet, journaling each of them, and
+   * journals the end of the run.
+   * 
+   * @param context - Execution context
+   * @param journal - Journal to record progress in
+   * @param runId - Identifier of the run
+   * @param done - Indexes of the operations to skip, completed by an earlier attempt of the run
+   * @returns Promise resolving to the result of the operations run
+   * 
+   * @private
+   */
+  private async runFrom(
+    context: ExecutionContext,
+    journal: ExecutionJournal,
+    runId: string,
+    done: ReadonlySet<number> = new Set()
+  ): Promise<StrategyExecutionResult> {
+    const operations = this.operations;
+    this.operations = operations
+      .map((operation, index) => new JournaledOperation(operation, index, journal, runId))
+      .filter((_, index) => !done.has(index));
+    
+    let result: StrategyExecutionResult;
+    try {
+      result = await this.run(context);
+    } finally {
+      this.operations = operations;
+    }
+    
+    journal.append({
+      type: 'run_finished',
+      runId,
+      outcome: result.success ? 'succeeded' : 'failed',
+      timestamp: (context.clock ?? systemClock).now()
+    });
+    
+    return result;
+  }
+
+  /**
+   * Validates and runs the loaded operations against the given context.
+   * 
+   * @param context - Execution context (live or dry-run)
+   * @returns Promise resolving to the strategy execution result
+   * 
+   * @private
+   */
+  private async run(context: ExecutionContext): Promise<StrategyExecutionResult> {
     const startTime = Date.now();
     const operationResults: OperationResult[] = [];
+    const softFailures: SoftFailure[] = [];
     let totalGasUsed = BigInt(0);
     
+    // Expose results to operations that inspect prior outcomes (e.g., conditions)
+    // Nested executors share the same list so branch results are visible too
+    if (!context.results) {
+      context.results = [];
+    }
+    const results = context.results;
+    
     try {
       // Validate all operations before starting execution
       // This ensures we catch parameter errors early before any blockchain interactions
-      this.validateAllOperations();
+      this.validateAllOperations(context);
       
-      // Execute each operation sequentially
-      // Operations are already sorted by order during initialization
-      for (const operation of this.operations) {
+      const dependencies = this.resolveDependencies();
+      const pending = new Set(this.operations);
+      const finished = new Set<IOperation>();
+      const running = new Map<IOperation, Promise<void>>();
+      let failure: OperationError | undefined;
+      
+      // Executes one operation and records its outcome; never rejects
+      const settle = async (operation: IOperation): Promise<void> => {
+        const span = startSpan(context, operation.type, 'operation', {
+          operationType: operation.type,
+          order: operation.order
+        });
+        
         try {
-          // Execute the operation and capture its result
-          const result = await operation.execute(context);
+          // Execute the operation (retrying recoverable failures) and capture its result
+          // The operation writes state through a view bound to its type
+          const result = await this.executeOperation(operation, {
+            ...traceContext(context, span),
+            state: context.state.forOperation(operation.type)
+          });
+          span.end(result.success ? 'ok' : 'error', {
+            code: result.error?.code,
+            gasUsed: result.gasUsed,
+            attempts: result.attempts?.length
+          });
+          
+          // Label the result so later operations can reference it
+          if (operation.label !== undefined) {
+            result.label = operation.label;
+          }
           
-          // Track the result for aggregation
+          // Track the result for aggregation, in completion order
           operationResults.push(result);
+          results.push(result);
           
-          // If the operation failed, stop execution and trigger rollback
+          // An optional operation may fail without stopping the strategy
+          // It has no effects to unwind, so it is not tracked for rollback
+          if (!result.success && operation.optional) {
+            if (result.gasUsed) {
+              totalGasUsed += BigInt(result.gasUsed);
+            }
+            softFailures.push({
+              operationType: operation.type,
+              order: operation.order,
+              error: result.error || this.createSanitizedError('OPERATION_FAILED', 'Operation failed')
+            });
+            finished.add(operation);
+            return;
+          }
+          
+          // If the operation failed, stop scheduling; rollback follows once running operations settle
           if (!result.success) {
-            // Attempt to rollback previously executed operations
-            await this.rollback(context);
-            
-            // Return failure result with sanitized error
-            return {
-              success: false,
-              operationResults,
-              totalGasUsed: totalGasUsed.toString(),
-              error: result.error || this.createSanitizedError('OPERATION_FAILED', 'Operation failed'),
-              startTime,
-              endTime: Date.now()
-            };
+            // A cancelled operation may have sent a transaction before timing out
+            if (result.error?.code === 'TIMEOUT') {
+              this.executedOperations.push(operation);
+            }
+            failure ??= result.error || this.createSanitizedError('OPERATION_FAILED', 'Operation failed');
+            return;
           }
           
           // Track gas usage if available
@@ -198,32 +645,70 @@ export class StrategyExecutor {
           
           // Add to executed operations for potential rollback
           this.executedOperations.push(operation);
+          finished.add(operation);
           
         } catch (error) {
           // Catch any unexpected errors during operation execution
           // Sanitize the error to prevent exposure of strategy logic
           const sanitizedError = this.sanitizeError(error);
+          span.error('Operation threw', { code: sanitizedError.code, error: describeError(error) });
+          span.end('error', { code: sanitizedError.code });
           
           // Add error result to operation results
-          operationResults.push({
+          const errorResult: OperationResult = {
             success: false,
             operationType: operation.type,
+            label: operation.label,
             error: sanitizedError
-          });
+          };
+          operationResults.push(errorResult);
+          results.push(errorResult);
           
-          // Attempt rollback of previously executed operations
-          await this.rollback(context);
+          // Unexpected errors in optional operations are soft failures as well
+          if (operation.optional) {
+            softFailures.push({ operationType: operation.type, order: operation.order, error: sanitizedError });
+            finished.add(operation);
+            return;
+          }
           
-          // Return failure result
-          return {
-            success: false,
-            operationResults,
-            totalGasUsed: totalGasUsed.toString(),
-            error: sanitizedError,
-            startTime,
-            endTime: Date.now()
-          };
+          failure ??= sanitizedError;
         }
+      };
+      
+      // Start every operation whose dependencies are done, and wait for the next one to settle
+      // After a failure nothing new starts, but operations already running are waited for
+      for (;;) {
+        if (!failure) {
+          for (const operation of pending) {
+            if (dependencies.get(operation)!.every(dependency => finished.has(dependency))) {
+              pending.delete(operation);
+              running.set(operation, settle(operation).then(() => {
+                running.delete(operation);
+              }));
+            }
+          }
+        }
+        
+        if (running.size === 0) {
+          break;
+        }
+        await Promise.race(running.values());
+      }
+      
+      if (failure) {
+        // Attempt to rollback previously executed operations
+        await this.rollback(context);
+        
+        // Return failure result with sanitized error
+        return {
+          success: false,
+          operationResults,
+          totalGasUsed: totalGasUsed.toString(),
+          error: failure,
+          softFailures,
+          startTime,
+          endTime: Date.now()
+        };
       }
       
       // All operations executed successfully
@@ -231,6 +716,7 @@ export class StrategyExecutor {
         success: true,
         operationResults,
         totalGasUsed: totalGasUsed.toString(),
+        softFailures,
         startTime,
         endTime: Date.now()
       };
@@ -244,12 +730,228 @@ export class StrategyExecutor {
         operationResults,
         totalGasUsed: totalGasUsed.toString(),
         error: sanitizedError,
+        softFailures,
         startTime,
         endTime: Date.now()
       };
     }
   }
 
+  /**
+   * Resolves the operations each loaded operation waits for.
+   * 
+   * An operation that declares `dependsOn` waits for those operations and
+   * for the operations it references; any other operation waits for every
+   * operation of lower order. Operations sharing an order therefore run
+   * concurrently. Dependencies outside the loaded operations (e.g., of an
+   * enclosing strategy, or completed before a resumed run) are already done.
+   * 
+   * @returns Operations each operation waits for
+   * 
+   * @private
+   */
+  private resolveDependencies(): Map<IOperation, IOperation[]> {
+    const byLabel = new Map<string, IOperation>();
+    this.operations.forEach(operation => {
+      if (operation.label !== undefined) {
+        byLabel.set(operation.label, operation);
+      }
+    });
+    
+    return new Map(this.operations.map(operation => {
+      if (!operation.dependsOn) {
+        return [operation, this.operations.filter(other => other.order < operation.order)];
+      }
+      
+      const labels = [...operation.dependsOn, ...(operation.references ?? [])];
+      return [operation, labels.flatMap(label => byLabel.get(label) ?? [])];
+    }));
+  }
+
+  /**
+   * Executes one operation, retrying it according to its retry policy.
+   * 
+   * Each attempt runs within the operation's time limit (see executeAttempt).
+   * Operations without a policy are executed once, and thrown errors are left
+   * to the caller. With a policy, a thrown error is sanitized and treated like
+   * a failed result; a failure is retried while attempts remain and its error
+   * is retryable (see isRetryable), sleeping on the context clock in between.
+   * No retry is scheduled that would start after the context deadline.
+   * 
+   * Operations that are not idempotent are only retried for the error codes
+   * their policy lists, and never after a TIMEOUT or a failure reporting a
+   * transaction hash: the attempt may have sent an order that a retry would
+   * send again. After a TIMEOUT, the retry only starts once the cancelled
+   * attempt has settled, so that two attempts never run side by side; one
+   * still running after the retry delay ends the retries.
+   * 
+   * The returned result is that of the last attempt, with every attempt listed
+   * in `attempts` and `gasUsed` summed over all of them, since reverted
+   * transactions still cost gas.
+   * 
+   * @param operation - Operation to execute
+   * @param context - Execution context
+   * @returns Promise resolving to the result of the last attempt
+   * 
+   * @private
+   */
+  private async executeOperation(operation: IOperation, context: ExecutionContext): Promise<OperationResult> {
+    const policy = operation.retry;
+    if (!policy) {
+      return this.executeAttempt(operation, context);
+    }
+    
+    const clock = context.clock ?? systemClock;
+    const attempts: OperationAttempt[] = [];
+    let totalGasUsed = BigInt(0);
+    
+    for (let attempt = 1; ; attempt++) {
+      let result: OperationResult;
+      let cancelledRunning = false;
+      try {
+        result = await this.executeAttempt(operation, context, execution => {
+          cancelledRunning = true;
+          execution.then(() => { cancelledRunning = false; }, () => { cancelledRunning = false; });
+        });
+      } catch (error) {
+        result = { success: false, operationType: operation.type, error: this.sanitizeError(error) };
+      }
+      
+      const record: OperationAttempt = { attempt, success: result.success };
+      if (result.error) {
+        record.error = result.error;
+      }
+      if (result.gasUsed) {
+        record.gasUsed = result.gasUsed;
+        totalGasUsed += BigInt(result.gasUsed);
+      }
+      attempts.push(record);
+      
+      const error = result.error || this.createSanitizedError('OPERATION_FAILED', 'Operation failed');
+      const lastResult = () => ({
+        ...result,
+        gasUsed: totalGasUsed > BigInt(0) ? totalGasUsed.toString() : result.gasUsed,
+        attempts
+      });
+      
+      if (
+        result.success ||
+        attempt >= policy.maxAttempts ||
+        !isRetryable(policy, error, operation.idempotent === true) ||
+        ((error.code === 'TIMEOUT' || result.transactionHash !== undefined) && !operation.idempotent)
+      ) {
+        return lastResult();
+      }
+      
+      record.delayMs = getRetryDelay(policy, attempt);
+      
+      // A retry that cannot start before the deadline would only burn the remaining budget
+      if (context.deadline !== undefined && clock.now() + record.delayMs >= context.deadline) {
+        delete record.delayMs;
+        return lastResult();
+      }
+      
+      getLogger('StrategyExecutor', context).warn('Retrying operation', {
+        operationType: operation.type,
+        code: error.code,
+        delayMs: record.delayMs,
+        attempt: attempt + 1,
+        maxAttempts: policy.maxAttempts
+      });
+      await clock.sleep(record.delayMs);
+      
+      if (cancelledRunning) {
+        getLogger('StrategyExecutor', context).warn('Cancelled attempt still running, not retrying', {
+          operationType: operation.type,
+          code: error.code,
+          attempt
+        });
+        return lastResult();
+      }
+    }
+  }
+
+  /**
+   * Executes a single attempt of an operation within its time limit.
+   * 
+   * The limit is the operation's `timeoutMs` or the time left before the
+   * context deadline, whichever is shorter. When it expires, the signal the
+   * operation runs with is aborted so that its waits and polls stop, and the
+   * attempt fails with TIMEOUT without waiting for the operation to settle.
+   * Once the deadline has passed, no attempt is started at all.
+   * 
+   * Timeouts of the operation itself are recoverable (a retry policy may try
+   * again); reaching the deadline is not.
+   * 
+   * @param operation - Operation to execute
+   * @param context - Execution context
+   * @param onCancelled - Receives the execution of an attempt cancelled before it settled
+   * @returns Promise resolving to the operation result, or a TIMEOUT failure
+   * 
+   * @private
+   */
+  private async executeAttempt(
+    operation: IOperation,
+    context: ExecutionContext,
+    onCancelled?: (execution: Promise<OperationResult>) => void
+  ): Promise<OperationResult> {
+    const clock = context.clock ?? systemClock;
+    const timeLeftMs = context.deadline !== undefined ? context.deadline - clock.now() : Infinity;
+    const operationLimitMs = operation.timeoutMs ?? Infinity;
+    const limitMs = Math.min(operationLimitMs, timeLeftMs);
+    
+    if (limitMs === Infinity) {
+      return operation.execute(context);
+    }
+    
+    const timeoutResult: OperationResult = {
+      success: false,
+      operationType: operation.type,
+      error: timeLeftMs <= operationLimitMs
+        ? { code: 'TIMEOUT', message: 'Execution deadline reached', recoverable: false }
+        : { code: 'TIMEOUT', message: 'Operation timed out', recoverable: true }
+    };
+    
+    if (limitMs <= 0) {
+      return timeoutResult;
+    }
+    
+    // Cancelling an enclosing operation (e.g., a conditional) cancels this one too
+    const cancel = new AbortController();
+    const cancelWithOuter = () => cancel.abort();
+    if (context.signal?.aborted) {
+      cancel.abort();
+    }
+    context.signal?.addEventListener('abort', cancelWithOuter, { once: true });
+    
+    const timer = new AbortController();
+    const expired = clock.sleep(limitMs, timer.signal).then((): typeof TIMED_OUT => TIMED_OUT);
+    const execution = operation.execute({ ...context, signal: cancel.signal });
+    
+    // A cancelled operation may still settle later; its outcome is ignored
+    execution.catch(() => undefined);
+    
+    try {
+      const outcome = await Promise.race([execution, expired]);
+      if (outcome !== TIMED_OUT) {
+        return outcome;
+      }
+      
+      cancel.abort();
+      onCancelled?.(execution);
+      getLogger('StrategyExecutor', context).warn('Operation cancelled', {
+        operationType: operation.type,
+        code: 'TIMEOUT',
+        timeoutMs: limitMs
+      });
+      return timeoutResult;
+      
+    } finally {
+      timer.abort();
+      context.signal?.removeEventListener('abort', cancelWithOuter);
+    }
+  }
+
   /**
    * Attempts to rollback previously executed operations in reverse order.
    * 
@@ -257,7 +959,7 @@ export class StrategyExecutor {
    * previously executed operations by calling their rollback() methods.
    * 
    * Rollback behavior:
-   * - Operations are rolled back in reverse order (last executed first)
+   * - Operations are rolled back in reverse order (last completed first)
    * - Not all operations can be fully rolled back (e.g., completed blockchain txs)
    * - Rollback errors are logged but don't stop the rollback process
    * - Best effort approach - some state changes may be irreversible
@@ -284,15 +986,21 @@ export class StrategyExecutor {
     for (const operation of operationsToRollback) {
       // Only attempt rollback if the operation implements the rollback method
       if (operation.rollback) {
+        const span = startSpan(context, operation.type, 'rollback', {
+          operationType: operation.type,
+          order: operation.order
+        });
+        
         try {
-          await operation.rollback(context);
+          await operation.rollback({
+            ...traceContext(context, span),
+            state: context.state.forOperation(operation.type)
+          });
+          span.end('ok');
         } catch (error) {
           // Log rollback errors but continue with other rollbacks
-          // We use console.error since this is in the TEE environment
-          console.error(
-            `Failed to rollback operation ${operation.type}:`,
-            error instanceof Error ? error.message : 'Unknown error'
-          );
+          span.error('Rollback failed', { operationType: operation.type, error: describeError(error) });
+          span.end('error');
           // Continue with remaining rollbacks despite this failure
         }
       }
@@ -307,18 +1015,31 @@ export class StrategyExecutor {
    * 
    * This method calls the validate() method on each operation to ensure
    * all parameters are valid before any blockchain interactions occur.
+   * It also checks that every result reference and dependency points to a
+   * label that runs earlier: either an operation of lower order here, or an
+   * operation whose result is already in the context (e.g., before a
+   * conditional branch).
    * 
    * Early validation prevents:
    * - Wasting gas on transactions that will fail
    * - Partial strategy execution due to invalid parameters
    * - Exposing the wallet to unnecessary risk
    * 
+   * @param context - Execution context with the results recorded so far
    * @throws Error if any operation fails validation
    * 
    * @private
    */
-  private validateAllOperations(): void {
+  private validateAllOperations(context: ExecutionContext): void {
+    const recorded = (context.results ?? []).map(result => result.label);
+    
     for (const operation of this.operations) {
+      // Operations of the same order run concurrently, so only lower orders run earlier
+      const available = new Set([
+        ...recorded,
+        ...this.operations.filter(other => other.order < operation.order).map(other => other.label)
+      ]);
+      
       const validationResult = operation.validate();
       
       if (!validationResult.isValid) {
@@ -328,6 +1049,22 @@ export class StrategyExecutor {
           `Validation failed for operation ${operation.type} (order ${operation.order}): ${errorMessage}`
         );
       }
+      
+      for (const label of operation.references ?? []) {
+        if (!available.has(label)) {
+          throw new Error(
+            `Validation failed for operation ${operation.type} (order ${operation.order}): invalid reference to "${label}", which does not run earlier`
+          );
+        }
+      }
+      
+      for (const label of operation.dependsOn ?? []) {
+        if (!available.has(label)) {
+          throw new Error(
+            `Validation failed for operation ${operation.type} (order ${operation.order}): invalid dependency on "${label}", which does not run earlier`
+          );
+        }
+      }
     }
   }
   
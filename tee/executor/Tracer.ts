@@ -0,0 +1,568 @@
+import { randomUUID } from 'crypto';
+import { isHexString, keccak256 } from 'ethers';
+import { Clock, ExecutionContext } from './ExecutionContext';
+import { systemClock } from './Clock';
+
+/**
+ * What a span covers
+ * - strategy: a whole execution (the root of a trace)
+ * - operation: one operation, across all of its attempts
+ * - service_call: a call to a context service (DEX, perpetual, price, 1inch, wallet)
+ * - rollback: the rollback of one operation
+ */
+export type SpanKind = 'strategy' | 'operation' | 'service_call' | 'rollback';
+
+/**
+ * How a span ended
+ */
+export type SpanStatus = 'ok' | 'error';
+
+/**
+ * Severity of a log line
+ */
+export type LogLevel = 'info' | 'warn' | 'error';
+
+/**
+ * Structured values attached to spans and log lines.
+ * Undefined values are left out.
+ */
+export type TraceAttributes = Record<string, string | number | boolean | undefined>;
+
+/**
+ * Log line recorded on the span it was written in
+ */
+export interface SpanEvent {
+  /** Log message; a fixed string, with values kept in attributes */
+  name: string;
+
+  /** Severity of the log line */
+  level: LogLevel;
+
+  /** Time of the log line, on the context clock */
+  time: number;
+
+  /** Values logged with the message */
+  attributes: TraceAttributes;
+}
+
+/**
+ * Recorded span of a trace
+ */
+export interface SpanRecord {
+  /** Identifier of the span, unique within its trace */
+  spanId: string;
+
+  /** Identifier of the enclosing span (none for the root span) */
+  parentId?: string;
+
+  /** Span name: the operation type, `service.method`, or 'strategy' */
+  name: string;
+
+  /** What the span covers */
+  kind: SpanKind;
+
+  /** Start time, on the context clock */
+  startTime: number;
+
+  /** End time, on the context clock (unset while the span is open) */
+  endTime?: number;
+
+  /** How the span ended (unset while the span is open) */
+  status?: SpanStatus;
+
+  /** Values describing the span */
+  attributes: TraceAttributes;
+
+  /** Log lines written during the span */
+  events: SpanEvent[];
+}
+
+/**
+ * Trace of a strategy execution.
+ * Included, redacted, in the StrategyExecutionResult (see redactTrace).
+ */
+export interface ExecutionTrace {
+  /** Identifier correlating the spans and log lines of one execution */
+  traceId: string;
+
+  /** Spans, in start order */
+  spans: SpanRecord[];
+}
+
+/**
+ * Destination of structured log lines (one JSON document per line)
+ */
+export type LogSink = (line: string, level: LogLevel) => void;
+
+/**
+ * Structured logger. Messages are fixed strings; values go in attributes so
+ * that lines can be parsed and redacted.
+ */
+export interface Logger {
+  info(message: string, attributes?: TraceAttributes): void;
+  warn(message: string, attributes?: TraceAttributes): void;
+  error(message: string, attributes?: TraceAttributes): void;
+}
+
+/**
+ * Attributes kept by redactTrace. They describe how the execution went
+ * without revealing the strategy's parameters (pairs, amounts, prices).
+ */
+export const TRACE_ATTRIBUTES: readonly string[] = [
+  'operationType',
+  'order',
+  'operations',
+  'service',
+  'method',
+  'attempt',
+  'attempts',
+  'maxAttempts',
+  'delayMs',
+  'timeoutMs',
+  'code',
+  'recoverable',
+  'transactionHash',
+  'gasUsed',
+  'dryRun'
+];
+
+/**
+ * Writes log lines to the process output, errors to stderr
+ */
+export const consoleSink: LogSink = (line, level) => {
+  if (level === 'error') {
+    console.error(line);
+  } else {
+    console.log(line);
+  }
+};
+
+/**
+ * Tracer records the spans of one strategy execution and writes every log
+ * line as JSON, tagged with the trace and span it belongs to.
+ *
+ * @example
+ * ```typescript
+ * const tracer = new Tracer({ clock: context.clock });
+ * const root = tracer.startSpan('strategy', 'strategy', { operations: 3 });
+ * const span = root.startChild('open_short', 'operation', { order: 1 });
+ * span.info('Position opened', { transactionHash });
+ * span.end('ok');
+ * root.end('ok');
+ * const trace = redactTrace(tracer.toTrace());
+ * ```
+ */
+export class Tracer {
+  /** Identifier of the trace */
+  readonly traceId: string;
+
+  /** Time source for span and log times */
+  readonly clock: Clock;
+
+  /** Destination of log lines */
+  private readonly sink: LogSink;
+
+  /** Spans started so far, in start order */
+  private readonly spans: SpanRecord[] = [];
+
+  /**
+   * Creates a new Tracer.
+   *
+   * @param options - Clock (default: system clock), log sink (default: console)
+   *   and trace identifier (default: random)
+   */
+  constructor(options: { clock?: Clock; sink?: LogSink; traceId?: string } = {}) {
+    this.clock = options.clock ?? systemClock;
+    this.sink = options.sink ?? consoleSink;
+    this.traceId = options.traceId ?? randomUUID();
+  }
+
+  /**
+   * Starts a span.
+   *
+   * @param name - Span name
+   * @param kind - What the span covers
+   * @param attributes - Values describing the span
+   * @param parent - Enclosing span (none for a root span)
+   * @returns The started span
+   */
+  startSpan(name: string, kind: SpanKind, attributes: TraceAttributes = {}, parent?: Span): Span {
+    const record: SpanRecord = {
+      spanId: String(this.spans.length + 1),
+      name,
+      kind,
+      startTime: this.clock.now(),
+      attributes: definedAttributes(attributes),
+      events: []
+    };
+    if (parent) {
+      record.parentId = parent.spanId;
+    }
+
+    this.spans.push(record);
+    return new Span(this, record);
+  }
+
+  /**
+   * Writes a log line to the sink.
+   *
+   * @param component - Component writing the line (e.g., 'SpotBuy')
+   * @param level - Severity
+   * @param message - Fixed message
+   * @param attributes - Values logged with the message
+   * @param spanId - Span the line was written in
+   */
+  write(component: string, level: LogLevel, message: string, attributes: TraceAttributes, spanId?: string): void {
+    this.sink(formatLine(this.clock, level, component, message, attributes, { traceId: this.traceId, spanId }), level);
+  }
+
+  /**
+   * Gets the spans recorded so far.
+   *
+   * @returns The unredacted trace
+   */
+  toTrace(): ExecutionTrace {
+    return {
+      traceId: this.traceId,
+      spans: this.spans.map(span => ({
+        ...span,
+        attributes: { ...span.attributes },
+        events: span.events.map(event => ({ ...event, attributes: { ...event.attributes } }))
+      }))
+    };
+  }
+}
+
+/**
+ * Span of a trace. Logging through a span records the line as a span event
+ * and writes it to the tracer's sink.
+ */
+export class Span implements Logger {
+  /** Tracer the span belongs to */
+  readonly tracer: Tracer;
+
+  /** Recorded span, updated as the span progresses */
+  private readonly record: SpanRecord;
+
+  /** Component named in the log lines written through this span */
+  private readonly component: string;
+
+  /**
+   * Creates a new Span. Spans are started through Tracer.startSpan.
+   *
+   * @param tracer - Tracer the span belongs to
+   * @param record - Recorded span
+   * @param component - Component named in log lines (default: the span name)
+   */
+  constructor(tracer: Tracer, record: SpanRecord, component: string = record.name) {
+    this.tracer = tracer;
+    this.record = record;
+    this.component = component;
+  }
+
+  /** Identifier of the span */
+  get spanId(): string {
+    return this.record.spanId;
+  }
+
+  /** Whether the span has ended */
+  get ended(): boolean {
+    return this.record.endTime !== undefined;
+  }
+
+  /**
+   * Starts a span enclosed in this one.
+   *
+   * @param name - Span name
+   * @param kind - What the span covers
+   * @param attributes - Values describing the span
+   * @returns The started span
+   */
+  startChild(name: string, kind: SpanKind, attributes: TraceAttributes = {}): Span {
+    return this.tracer.startSpan(name, kind, attributes, this);
+  }
+
+  /**
+   * Adds values describing the span.
+   *
+   * @param attributes - Values to add
+   */
+  setAttributes(attributes: TraceAttributes): void {
+    Object.assign(this.record.attributes, definedAttributes(attributes));
+  }
+
+  /**
+   * Gets a logger that writes in this span under another component name.
+   *
+   * @param component - Component writing the lines (e.g., 'SpotBuy')
+   * @returns Logger recording its lines on this span
+   */
+  logger(component: string): Logger {
+    return new Span(this.tracer, this.record, component);
+  }
+
+  info(message: string, attributes: TraceAttributes = {}): void {
+    this.log('info', message, attributes);
+  }
+
+  warn(message: string, attributes: TraceAttributes = {}): void {
+    this.log('warn', message, attributes);
+  }
+
+  error(message: string, attributes: TraceAttributes = {}): void {
+    this.log('error', message, attributes);
+  }
+
+  /**
+   * Ends the span. Ending a span twice keeps the first outcome.
+   *
+   * @param status - How the span ended
+   * @param attributes - Values describing the outcome
+   */
+  end(status: SpanStatus, attributes: TraceAttributes = {}): void {
+    if (this.ended) {
+      return;
+    }
+
+    this.setAttributes(attributes);
+    this.record.status = status;
+    this.record.endTime = this.tracer.clock.now();
+  }
+
+  /**
+   * Records a log line on the span and writes it to the sink.
+   *
+   * @param level - Severity
+   * @param message - Fixed message
+   * @param attributes - Values logged with the message
+   */
+  private log(level: LogLevel, message: string, attributes: TraceAttributes): void {
+    this.record.events.push({
+      name: message,
+      level,
+      time: this.tracer.clock.now(),
+      attributes: definedAttributes(attributes)
+    });
+    this.tracer.write(this.component, level, message, attributes, this.spanId);
+  }
+}
+
+/**
+ * Gets a logger for a component.
+ *
+ * Within an execution, lines are recorded on the span the context runs in.
+ * Without a traced context (e.g., before the executor starts), lines are
+ * written on their own, still as JSON.
+ *
+ * @param component - Component writing the lines (e.g., 'SpotBuy')
+ * @param context - Execution context the component runs in
+ * @returns Structured logger
+ *
+ * @example
+ * ```typescript
+ * const log = getLogger('SpotBuy', context);
+ * log.info('Swap executed', { transactionHash: result.transactionHash });
+ * ```
+ */
+export function getLogger(component: string, context?: Pick<ExecutionContext, 'span' | 'clock'>): Logger {
+  if (context?.span) {
+    return context.span.logger(component);
+  }
+
+  const clock = context?.clock ?? systemClock;
+  const write = (level: LogLevel) => (message: string, attributes: TraceAttributes = {}) =>
+    consoleSink(formatLine(clock, level, component, message, attributes), level);
+
+  return { info: write('info'), warn: write('warn'), error: write('error') };
+}
+
+/**
+ * Starts a span enclosed in the span the context runs in, or a new trace's
+ * root span when the context is not traced.
+ *
+ * @param context - Execution context
+ * @param name - Span name
+ * @param kind - What the span covers
+ * @param attributes - Values describing the span
+ * @returns The started span
+ */
+export function startSpan(
+  context: Pick<ExecutionContext, 'span' | 'clock'>,
+  name: string,
+  kind: SpanKind,
+  attributes: TraceAttributes = {}
+): Span {
+  return context.span
+    ? context.span.startChild(name, kind, attributes)
+    : new Tracer({ clock: context.clock }).startSpan(name, kind, attributes);
+}
+
+/**
+ * Describes a thrown value for a log line.
+ *
+ * @param error - Thrown value
+ * @returns The error message, or 'Unknown error'
+ */
+export function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+/**
+ * Gets the hash of the transaction a service call sent or signed.
+ *
+ * Chain writes return their `transactionHash`; the wallet returns the signed
+ * transaction itself, which is reduced to its hash so that the transaction's
+ * contents are not recorded.
+ *
+ * @param response - Value the call resolved to
+ * @returns Transaction hash, or undefined if the response carries none
+ */
+export function getTransactionHash(response: unknown): string | undefined {
+  if (typeof response === 'string') {
+    if (isHexString(response, 32)) {
+      return response;
+    }
+    return isHexString(response) ? keccak256(response) : undefined;
+  }
+
+  const transactionHash = (response as { transactionHash?: unknown } | undefined)?.transactionHash;
+  return typeof transactionHash === 'string' ? transactionHash : undefined;
+}
+
+/** Traced service proxies, mapped to the services they wrap */
+const tracedServices = new WeakMap<object, object>();
+
+/**
+ * Wraps a service so that each of its method calls is recorded as a
+ * `service_call` span, with the transaction hash the call returned if any.
+ *
+ * @param service - Service to trace
+ * @param name - Service name (e.g., 'perpetual')
+ * @param span - Span the calls are made in
+ * @returns Service recording its calls
+ */
+export function traceService<T extends object>(service: T, name: string, span: Span): T {
+  // Tracing again (e.g., in a conditional branch) replaces the outer tracing
+  const target = (tracedServices.get(service) ?? service) as T;
+
+  const traced = new Proxy(target, {
+    get(object, property, receiver) {
+      const value = Reflect.get(object, property, receiver);
+      if (typeof value !== 'function' || typeof property !== 'string') {
+        return value;
+      }
+
+      return async (...args: unknown[]) => {
+        const call = span.startChild(`${name}.${property}`, 'service_call', { service: name, method: property });
+        try {
+          const response = await value.apply(object, args);
+          call.end('ok', { transactionHash: getTransactionHash(response) });
+          return response;
+        } catch (error) {
+          call.end('error');
+          throw error;
+        }
+      };
+    }
+  });
+
+  tracedServices.set(traced, target);
+  return traced;
+}
+
+/**
+ * Derives the context an operation runs with inside a span: its logs are
+ * recorded on the span and its service calls become child spans.
+ *
+ * @param context - Execution context
+ * @param span - Span to run in
+ * @returns Traced execution context
+ */
+export function traceContext(context: ExecutionContext, span: Span): ExecutionContext {
+  return {
+    ...context,
+    span,
+    // Partial contexts (e.g., in tests) may come without a wallet
+    wallet: context.wallet && traceService(context.wallet, 'wallet', span),
+    getDexService: () => traceService(context.getDexService(), 'dex', span),
+    getPerpetualService: () => traceService(context.getPerpetualService(), 'perpetual', span),
+    getPriceService: () => traceService(context.getPriceService(), 'price', span),
+    getOneInchService: () => traceService(context.getOneInchService(), 'oneInch', span),
+    getFallbackSpotService: context.getFallbackSpotService
+      && (() => traceService(context.getFallbackSpotService!(), 'fallbackSpot', span)),
+    getFeeService: () => traceService(context.getFeeService(), 'fees', span),
+    getTransactionManager: () => traceService(context.getTransactionManager(), 'transactions', span)
+  };
+}
+
+/**
+ * Redacts a trace for the task output.
+ *
+ * Only the attributes listed in TRACE_ATTRIBUTES are kept, and only warning
+ * and error events, so the output shows when and where an execution went
+ * wrong without exposing the strategy's parameters or its decisions.
+ *
+ * @param trace - Unredacted trace
+ * @returns Trace safe to include in the StrategyExecutionResult
+ */
+export function redactTrace(trace: ExecutionTrace): ExecutionTrace {
+  return {
+    traceId: trace.traceId,
+    spans: trace.spans.map(span => ({
+      ...span,
+      attributes: allowedAttributes(span.attributes),
+      events: span.events
+        .filter(event => event.level !== 'info')
+        .map(event => ({ ...event, attributes: allowedAttributes(event.attributes) }))
+    }))
+  };
+}
+
+/**
+ * Formats a log line as a JSON document.
+ *
+ * @param clock - Time source for the line's time
+ * @param level - Severity
+ * @param component - Component writing the line
+ * @param message - Fixed message
+ * @param attributes - Values logged with the message
+ * @param ids - Trace and span the line was written in, if any
+ * @returns The line, without its newline
+ */
+function formatLine(
+  clock: Clock,
+  level: LogLevel,
+  component: string,
+  message: string,
+  attributes: TraceAttributes,
+  ids: { traceId?: string; spanId?: string } = {}
+): string {
+  return JSON.stringify({
+    time: clock.now(),
+    level,
+    component,
+    message,
+    ...ids,
+    attributes: definedAttributes(attributes)
+  });
+}
+
+/**
+ * Copies the attributes that are set.
+ *
+ * @param attributes - Attributes to copy
+ * @returns Attributes without undefined values
+ */
+function definedAttributes(attributes: TraceAttributes): TraceAttributes {
+  return Object.fromEntries(Object.entries(attributes).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * Copies the attributes redactTrace keeps.
+ *
+ * @param attributes - Attributes to copy
+ * @returns Allowed attributes only
+ */
+function allowedAttributes(attributes: TraceAttributes): TraceAttributes {
+  return Object.fromEntries(Object.entries(attributes).filter(([key]) => TRACE_ATTRIBUTES.includes(key)));
+}
@@ -0,0 +1,139 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createDryRunContext, SIMULATED_GAS_UNITS, SIMULATED_TRANSACTION_HASH } from '../DryRun';
+import { ExecutionContext } from '../ExecutionContext';
+import { ExecutionState } from '../ExecutionState';
+
+function createLiveContext() {
+  const perpetual = {
+    openShort: vi.fn(),
+    openLong: vi.fn(),
+    closePosition: vi.fn(),
+    getPositionStatus: vi.fn().mockResolvedValue({ confirmed: false }),
+    getMarketLiquidity: vi.fn().mockResolvedValue({ availableOpenInterest: '1000000', priceImpact: 0.1 })
+  };
+  const oneInch = {
+    executeFusionSwap: vi.fn(),
+    getQuote: vi.fn().mockResolvedValue({ amountOut: '0.02', priceImpact: 0.05 })
+  };
+  const wallet = {
+    address: '0xabc',
+    signTransaction: vi.fn(),
+    getBalance: vi.fn().mockResolvedValue('5000')
+  };
+  const transactionManager = { send: vi.fn() };
+  const context = {
+    config: { capitalAllocation: '10000', slippageTolerance: 0.5, executionMode: 'instant' as const },
+    wallet,
+    state: new ExecutionState(),
+    getDexService: () => ({ getFundingRate: vi.fn().mockResolvedValue(0.01) }),
+    getPriceService: () => ({ getPrice: vi.fn().mockResolvedValue('50000') }),
+    getPerpetualService: () => perpetual,
+    getOneInchService: () => oneInch,
+    getTransactionManager: () => transactionManager
+  } as unknown as ExecutionContext;
+
+  return { context, perpetual, oneInch, wallet, transactionManager };
+}
+
+describe('createDryRunContext', () => {
+  it('should intercept position writes and answer them at the oracle price', async () => {
+    const { context, perpetual, wallet } = createLiveContext();
+    const { context: dryRunContext, transactions } = createDryRunContext(context);
+
+    const opened = await dryRunContext.getPerpetualService().openShort({ pair: 'BTC/USDC', amount: '5000', leverage: 2, wallet });
+    const closed = await dryRunContext.getPerpetualService().closePosition({ pair: 'BTC/USDC' }, { maxPrice: '52000' });
+
+    expect(perpetual.openShort).not.toHaveBeenCalled();
+    expect(perpetual.closePosition).not.toHaveBeenCalled();
+    expect(opened).toEqual({ entryPrice: '50000', transactionHash: SIMULATED_TRANSACTION_HASH, gasUsed: SIMULATED_GAS_UNITS.openPosition });
+    expect(closed.exitPrice).toBe('50000');
+    expect(transactions).toEqual([
+      { service: 'perpetual', method: 'openShort', params: { pair: 'BTC/USDC', amount: '5000', leverage: 2 }, estimatedGas: '100000' },
+      { service: 'perpetual', method: 'closePosition', params: { pair: 'BTC/USDC', maxPrice: '52000' }, estimatedGas: '80000' }
+    ]);
+  });
+
+  it('should fill simulated market swaps at the quoted amount', async () => {
+    const { context, oneInch, wallet } = createLiveContext();
+    const { context: dryRunContext, transactions } = createDryRunContext(context);
+
+    const swap = await dryRunContext.getOneInchService().executeFusionSwap({
+      asset: 'BTC', side: 'buy', amount: '1000', orderType: 'market', wallet, slippage: 0.5
+    });
+
+    expect(oneInch.executeFusionSwap).not.toHaveBeenCalled();
+    expect(oneInch.getQuote).toHaveBeenCalledWith({ asset: 'BTC', side: 'buy', amount: '1000' });
+    expect(swap).toEqual({
+      amountReceived: '0.02',
+      executionPrice: '50000',
+      transactionHash: SIMULATED_TRANSACTION_HASH,
+      gasUsed: SIMULATED_GAS_UNITS.fusionSwap
+    });
+    expect(transactions[0].params).not.toHaveProperty('wallet');
+  });
+
+  it('should report simulated limit orders as placed at their target price', async () => {
+    const { context, wallet } = createLiveContext();
+    const { context: dryRunContext } = createDryRunContext(context);
+
+    const swap = await dryRunContext.getOneInchService().executeFusionSwap({
+      asset: 'BTC', amount: '1000', orderType: 'limit', targetPrice: '49000', wallet, slippage: 0.5
+    });
+
+    expect(swap).toEqual({ executionPrice: '49000', fusionOrderId: 'simulated' });
+  });
+
+  it('should fill fallback swaps immediately, limit orders included', async () => {
+    const { context, wallet } = createLiveContext();
+    const uniswap = { executeFusionSwap: vi.fn(), getQuote: vi.fn().mockResolvedValue({ amountOut: '0.0199', priceImpact: 0.1 }) };
+    const { context: dryRunContext, transactions } = createDryRunContext({ ...context, getFallbackSpotService: () => uniswap });
+
+    const swap = await dryRunContext.getFallbackSpotService!().executeFusionSwap({
+      asset: 'BTC', amount: '1000', orderType: 'limit', targetPrice: '51000', wallet, slippage: 0.5
+    });
+
+    expect(uniswap.executeFusionSwap).not.toHaveBeenCalled();
+    expect(swap).toMatchObject({ amountReceived: '0.0199', transactionHash: SIMULATED_TRANSACTION_HASH });
+    expect(transactions).toMatchObject([{ service: 'fallbackSpot', method: 'executeFusionSwap' }]);
+    expect(createDryRunContext(context).context.getFallbackSpotService).toBeUndefined();
+  });
+
+  it('should pass reads through to the live services', async () => {
+    const { context, perpetual, wallet } = createLiveContext();
+    const { context: dryRunContext, transactions } = createDryRunContext(context);
+    const perpService = dryRunContext.getPerpetualService();
+
+    await expect(dryRunContext.wallet.getBalance()).resolves.toBe('5000');
+    await expect(perpService.getMarketLiquidity!({ pair: 'BTC/USDC', side: 'short', notional: '1000' }))
+      .resolves.toEqual({ availableOpenInterest: '1000000', priceImpact: 0.1 });
+    await expect(perpService.getPositionStatus!('0xreal')).resolves.toEqual({ confirmed: false });
+    await expect(perpService.getPositionStatus!(SIMULATED_TRANSACTION_HASH)).resolves.toEqual({ confirmed: true });
+
+    expect(wallet.getBalance).toHaveBeenCalled();
+    expect(perpetual.getPositionStatus).toHaveBeenCalledTimes(1);
+    expect(transactions).toEqual([]);
+  });
+
+  it('should never sign with the real wallet', async () => {
+    const { context, wallet } = createLiveContext();
+    const { context: dryRunContext, transactions } = createDryRunContext(context);
+
+    await expect(dryRunContext.wallet.signTransaction({ to: '0xdef', data: '0x' })).resolves.toBe(SIMULATED_TRANSACTION_HASH);
+
+    expect(wallet.signTransaction).not.toHaveBeenCalled();
+    expect(dryRunContext.dryRun).toBe(true);
+    expect(dryRunContext.wallet.address).toBe('0xabc');
+    expect(transactions).toEqual([{ service: 'wallet', method: 'signTransaction', params: { to: '0xdef' }, estimatedGas: '21000' }]);
+  });
+
+  it('should report sent transactions as confirmed without sending them', async () => {
+    const { context, transactionManager } = createLiveContext();
+    const { context: dryRunContext, transactions } = createDryRunContext(context);
+
+    const receipt = await dryRunContext.getTransactionManager().send({ to: '0xdef', data: '0x095ea7b3', gasLimit: '46000' });
+
+    expect(transactionManager.send).not.toHaveBeenCalled();
+    expect(receipt).toMatchObject({ transactionHash: SIMULATED_TRANSACTION_HASH, status: 'success', gasUsed: '46000', events: [] });
+    expect(transactions).toEqual([{ service: 'transactions', method: 'send', params: { to: '0xdef' }, estimatedGas: '46000' }]);
+  });
+});
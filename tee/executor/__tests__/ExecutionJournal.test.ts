@@ -0,0 +1,142 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileJournal, InMemoryJournal, JournalEntry, findIncompleteRun } from '../ExecutionJournal';
+import { OperationType } from '../../operations/OperationTypes';
+
+const openShortResult = { success: true, operationType: OperationType.OPEN_SHORT, data: { entryPrice: '50000' } };
+
+const shortPosition = { pair: 'BTC/USDC', entryPrice: '50000', amount: '5000', leverage: 1, transactionHash: '0xshort' };
+
+const interruptedRun: JournalEntry[] = [
+  { type: 'run_started', runId: 'run-1', strategyId: 'strategy', timestamp: 1 },
+  { type: 'operation_started', runId: 'run-1', index: 0, order: 1, operationType: OperationType.OPEN_SHORT, timestamp: 2 },
+  { type: 'transaction_requested', runId: 'run-1', index: 0, service: 'perpetual', method: 'openShort', params: { pair: 'BTC/USDC' }, timestamp: 3 },
+  { type: 'transaction_submitted', runId: 'run-1', index: 0, service: 'perpetual', method: 'openShort', transactionHash: '0xshort', timestamp: 4 },
+  { type: 'operation_completed', runId: 'run-1', index: 0, result: openShortResult, state: { shortPosition }, timestamp: 5 },
+  { type: 'operation_started', runId: 'run-1', index: 1, order: 2, operationType: OperationType.SPOT_BUY, timestamp: 6 },
+  { type: 'transaction_requested', runId: 'run-1', index: 1, service: 'oneInch', method: 'executeFusionSwap', params: { asset: 'BTC' }, timestamp: 7 }
+];
+
+describe('findIncompleteRun', () => {
+  it('should replay an interrupted run up to the operation it was executing', () => {
+    const run = findIncompleteRun(interruptedRun, 'strategy');
+
+    expect(run?.runId).toBe('run-1');
+    expect(run?.results).toEqual(new Map([[0, openShortResult]]));
+    expect(run?.state).toEqual({ shortPosition });
+    expect(run?.inFlight).toEqual([{
+      index: 1,
+      order: 2,
+      operationType: OperationType.SPOT_BUY,
+      writes: [{ service: 'oneInch', method: 'executeFusionSwap', params: { asset: 'BTC' }, submitted: false }]
+    }]);
+  });
+
+  it('should attribute interleaved entries of concurrent operations to their operation', () => {
+    const run = findIncompleteRun([
+      interruptedRun[0],
+      { type: 'operation_started', runId: 'run-1', index: 0, order: 1, operationType: OperationType.OPEN_SHORT, timestamp: 2 },
+      { type: 'operation_started', runId: 'run-1', index: 1, order: 1, operationType: OperationType.SPOT_BUY, timestamp: 2 },
+      { type: 'transaction_requested', runId: 'run-1', index: 0, service: 'perpetual', method: 'openShort', params: { pair: 'BTC/USDC' }, timestamp: 3 },
+      { type: 'transaction_requested', runId: 'run-1', index: 1, service: 'oneInch', method: 'executeFusionSwap', params: { asset: 'BTC' }, timestamp: 3 },
+      { type: 'transaction_submitted', runId: 'run-1', index: 0, service: 'perpetual', method: 'openShort', transactionHash: '0xshort', timestamp: 4 }
+    ], 'strategy');
+
+    expect(run?.inFlight).toEqual([
+      {
+        index: 0,
+        order: 1,
+        operationType: OperationType.OPEN_SHORT,
+        writes: [{ service: 'perpetual', method: 'openShort', params: { pair: 'BTC/USDC' }, submitted: true, transactionHash: '0xshort' }]
+      },
+      {
+        index: 1,
+        order: 1,
+        operationType: OperationType.SPOT_BUY,
+        writes: [{ service: 'oneInch', method: 'executeFusionSwap', params: { asset: 'BTC' }, submitted: false }]
+      }
+    ]);
+  });
+
+  it('should ignore finished runs and runs of other strategies', () => {
+    const finished: JournalEntry[] = [
+      ...interruptedRun,
+      { type: 'run_finished', runId: 'run-1', outcome: 'failed', timestamp: 8 },
+      { type: 'run_started', runId: 'run-2', strategyId: 'other', timestamp: 9 }
+    ];
+
+    expect(findIncompleteRun(finished, 'strategy')).toBeNull();
+    expect(findIncompleteRun(interruptedRun, 'other')).toBeNull();
+    expect(findIncompleteRun(finished, 'other')?.runId).toBe('run-2');
+  });
+
+  it('should record rollbacks and clear in-flight operations once they complete', () => {
+    const run = findIncompleteRun([
+      ...interruptedRun.slice(0, 5),
+      { type: 'operation_rolled_back', runId: 'run-1', index: 0, timestamp: 6 }
+    ], 'strategy');
+
+    expect(run?.inFlight).toEqual([]);
+    expect(run?.rolledBack).toEqual(new Set([0]));
+  });
+});
+
+describe('InMemoryJournal', () => {
+  it('should return appended entries in order without exposing its storage', () => {
+    const journal = new InMemoryJournal(interruptedRun.slice(0, 1));
+    journal.append(interruptedRun[1]);
+
+    const entries = journal.read();
+    entries.pop();
+
+    expect(journal.read()).toEqual(interruptedRun.slice(0, 2));
+  });
+});
+
+describe('FileJournal', () => {
+  let directory: string | undefined;
+
+  afterEach(() => {
+    if (directory) {
+      fs.rmSync(directory, { recursive: true, force: true });
+      directory = undefined;
+    }
+  });
+
+  const journalPath = () => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'tee-journal-'));
+    return path.join(directory, 'sealed', 'journal.jsonl');
+  };
+
+  it('should persist entries across instances', () => {
+    const filePath = journalPath();
+    interruptedRun.forEach(entry => new FileJournal(filePath).append(entry));
+
+    expect(new FileJournal(filePath).read()).toEqual(interruptedRun);
+  });
+
+  it('should read a missing journal as empty', () => {
+    expect(new FileJournal(journalPath()).read()).toEqual([]);
+  });
+
+  it('should ignore a last entry torn by a crash', () => {
+    const filePath = journalPath();
+    const journal = new FileJournal(filePath);
+    journal.append(interruptedRun[0]);
+    fs.appendFileSync(filePath, '{"type":"operation_sta');
+
+    expect(journal.read()).toEqual([interruptedRun[0]]);
+  });
+
+  it('should refuse a journal corrupted before its last entry', () => {
+    const filePath = journalPath();
+    const journal = new FileJournal(filePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, 'garbage\n');
+    journal.append(interruptedRun[0]);
+
+    expect(() => journal.read()).toThrow('Execution journal is corrupted at line 1');
+  });
+});
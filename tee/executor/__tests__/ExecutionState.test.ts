@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { ExecutionState, StateError } from '../ExecutionState';
+import { OperationType } from '../../operations/OperationTypes';
+
+const shortPosition = { pair: 'BTC/USDC', entryPrice: '50000', amount: '500', leverage: 1 };
+
+describe('ExecutionState', () => {
+  it('should share values between the state and its operation views', () => {
+    const state = new ExecutionState();
+
+    state.forOperation(OperationType.CHECK_FUNDING_RATE).set('isProfitable', true);
+    state.forOperation(OperationType.OPEN_SHORT).set('shortPosition', shortPosition);
+
+    expect(state.get('isProfitable')).toBe(true);
+    expect(state.forOperation(OperationType.SPOT_BUY).get('shortPosition')).toEqual(shortPosition);
+    expect(state.snapshot()).toEqual({ isProfitable: true, shortPosition });
+  });
+
+  it('should reject writes and deletes of keys owned by other operations', () => {
+    const state = new ExecutionState({ shortPosition });
+    const spotBuy = state.forOperation(OperationType.SPOT_BUY);
+
+    expect(() => spotBuy.set('isProfitable', false)).toThrow(StateError);
+    expect(() => spotBuy.delete('shortPosition')).toThrow('Operation spot_buy cannot write state key "shortPosition"');
+    expect(() => spotBuy.write('ethRate', 0.02)).toThrow('Operation spot_buy cannot write state key "ethRate"');
+
+    state.forOperation(OperationType.CLOSE_SHORT).delete('shortPosition');
+    expect(state.has('shortPosition')).toBe(false);
+  });
+
+  it('should let wait views write custom keys and declared keys they own', () => {
+    const state = new ExecutionState();
+    const wait = state.forOperation(OperationType.WAIT);
+
+    wait.write('ethRate', 0.02);
+    wait.write('fundingRate', 0.01);
+
+    expect(state.snapshot()).toEqual({ ethRate: 0.02, fundingRate: 0.01 });
+    expect(() => wait.write('price', 50000)).toThrow(StateError);
+  });
+
+  it('should read known keys and reject unknown ones', () => {
+    const state = new ExecutionState({ ready: true });
+
+    expect(state.read('ready')).toBe(true);
+    expect(state.read('shortPosition')).toBeUndefined();
+    expect(() => state.read('isProfitible')).toThrow('Unknown state key "isProfitible"');
+
+    state.forOperation(OperationType.WAIT).declare('ethRate');
+    expect(state.read('ethRate')).toBeUndefined();
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi } from 'vitest';
+import { JournaledOperation } from '../JournaledOperation';
+import { InMemoryJournal } from '../ExecutionJournal';
+import { ExecutionContext } from '../ExecutionContext';
+import { IOperation } from '../../operations/IOperation';
+import { OperationType } from '../../operations/OperationTypes';
+import { ExecutionState } from '../ExecutionState';
+
+function createContext() {
+  const perpetual = {
+    openShort: vi.fn().mockResolvedValue({ entryPrice: '50000', transactionHash: '0xshort', gasUsed: '100000' }),
+    openLong: vi.fn(),
+    closePosition: vi.fn()
+  };
+  const context = {
+    config: { capitalAllocation: '10000', slippageTolerance: 0.5, executionMode: 'instant' as const },
+    wallet: { address: '0xabc', signTransaction: vi.fn(), getBalance: vi.fn() },
+    state: new ExecutionState(),
+    clock: { now: () => 42, sleep: vi.fn() },
+    getPerpetualService: () => perpetual
+  } as unknown as ExecutionContext;
+
+  return { context, perpetual };
+}
+
+function createOperation(): IOperation {
+  return {
+    type: OperationType.OPEN_SHORT,
+    order: 2,
+    label: 'shortPosition',
+    retry: { maxAttempts: 2 },
+    dependsOn: ['fundingCheck'],
+    validate: () => ({ isValid: true, errors: [] }),
+    async execute(context: ExecutionContext) {
+      const result = await context.getPerpetualService().openShort({ pair: 'BTC/USDC', amount: '5000', leverage: 1, wallet: context.wallet });
+      context.state.set('shortPosition', {
+        pair: 'BTC/USDC',
+        entryPrice: result.entryPrice,
+        amount: '5000',
+        leverage: 1,
+        transactionHash: result.transactionHash
+      });
+      return { success: true, operationType: OperationType.OPEN_SHORT, transactionHash: result.transactionHash };
+    },
+    rollback: vi.fn().mockResolvedValue(undefined)
+  };
+}
+
+describe('JournaledOperation', () => {
+  it('should expose the envelope of the wrapped operation', () => {
+    const journaled = new JournaledOperation(createOperation(), 1, new InMemoryJournal(), 'run-1');
+
+    expect(journaled.type).toBe(OperationType.OPEN_SHORT);
+    expect(journaled.order).toBe(2);
+    expect(journaled.label).toBe('shortPosition');
+    expect(journaled.retry).toEqual({ maxAttempts: 2 });
+    expect(journaled.dependsOn).toEqual(['fundingCheck']);
+  });
+
+  it('should journal the intent, the submitted write and the completion', async () => {
+    const { context, perpetual } = createContext();
+    const journal = new InMemoryJournal();
+
+    const result = await new JournaledOperation(createOperation(), 1, journal, 'run-1').execute(context);
+
+    expect(result.success).toBe(true);
+    expect(perpetual.openShort).toHaveBeenCalledWith(expect.objectContaining({ pair: 'BTC/USDC' }));
+    expect(journal.read()).toEqual([
+      { type: 'operation_started', runId: 'run-1', index: 1, order: 2, operationType: OperationType.OPEN_SHORT, timestamp: 42 },
+      { type: 'transaction_requested', runId: 'run-1', index: 1, service: 'perpetual', method: 'openShort', params: { pair: 'BTC/USDC', amount: '5000', leverage: 1 }, timestamp: 42 },
+      { type: 'transaction_submitted', runId: 'run-1', index: 1, service: 'perpetual', method: 'openShort', transactionHash: '0xshort', timestamp: 42 },
+      { type: 'operation_completed', runId: 'run-1', index: 1, result, state: {
+        shortPosition: { pair: 'BTC/USDC', entryPrice: '50000', amount: '5000', leverage: 1, transactionHash: '0xshort' }
+      }, timestamp: 42 }
+    ]);
+  });
+
+  it('should journal a thrown attempt as completed and rethrow', async () => {
+    const { context, perpetual } = createContext();
+    perpetual.openShort.mockRejectedValue(new Error('network down'));
+    const journal = new InMemoryJournal();
+
+    await expect(new JournaledOperation(createOperation(), 0, journal, 'run-1').execute(context)).rejects.toThrow('network down');
+
+    expect(journal.read().map(entry => entry.type)).toEqual(['operation_started', 'transaction_requested', 'operation_completed']);
+  });
+
+  it('should journal rollbacks after delegating them', async () => {
+    const { context } = createContext();
+    const operation = createOperation();
+    const journal = new InMemoryJournal();
+
+    await new JournaledOperation(operation, 0, journal, 'run-1').rollback(context);
+
+    expect(operation.rollback).toHaveBeenCalledWith(context);
+    expect(journal.read()).toEqual([{ type: 'operation_rolled_back', runId: 'run-1', index: 0, timestamp: 42 }]);
+  });
+});
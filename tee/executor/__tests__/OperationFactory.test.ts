@@ -2,6 +2,20 @@ import { describe, it, expect } from 'vitest';
 import { OperationFactory } from '../OperationFactory';
 import { OperationType } from '../../operations/OperationTypes';
 import { MockOperation } from '../../operations/MockOperation';
+import { CheckFundingRateOperation } from '../../operations/CheckFundingRateOperation';
+import { CheckPriceOperation } from '../../operations/CheckPriceOperation';
+import { CheckLiquidityOperation } from '../../operations/CheckLiquidityOperation';
+import { ConditionalOperation } from '../../operations/ConditionalOperation';
+import { WaitOperation } from '../../operations/WaitOperation';
+import { SpotBuyOperation } from '../../operations/SpotBuyOperation';
+import { SpotSellOperation } from '../../operations/SpotSellOperation';
+import { OpenPerpetualShortOperation } from '../../operations/OpenPerpetualShortOperation';
+import { OpenPerpetualLongOperation } from '../../operations/OpenPerpetualLongOperation';
+import { ClosePositionOperation } from '../../operations/ClosePositionOperation';
+import { DeferredOperation } from '../../operations/DeferredOperation';
+import { OperationRegistry, operationRegistry } from '../../operations/OperationRegistry';
+import { CURRENT_FORMAT_VERSION } from '../../schema/operationSchema';
+import { StrategyFormatError } from '../../schema/migrations';
 
 describe('OperationFactory', () => {
   describe('deserialize', () => {
@@ -162,7 +176,7 @@ describe('OperationFactory', () => {
       });
       
       expect(() => OperationFactory.deserialize(serialized))
-        .toThrow('MockOperation requires "message" parameter of type string');
+        .toThrow('mock_operation requires "message" parameter');
     });
     
     it('should include operation index in error messages', () => {
@@ -184,6 +198,193 @@ describe('OperationFactory', () => {
       expect(() => OperationFactory.deserialize(serialized))
         .toThrow('Failed to deserialize operation at index 1');
     });
+    
+    it('should carry the optional flag onto operations and nested branches', () => {
+      const serialized = JSON.stringify({
+        operations: [
+          { type: OperationType.MOCK_OPERATION, order: 1, params: { message: 'Optional' }, optional: true },
+          { type: OperationType.MOCK_OPERATION, order: 2, params: { message: 'Required' } },
+          {
+            type: OperationType.CONDITIONAL,
+            order: 3,
+            params: {
+              condition: 'true',
+              thenOperations: [{ type: OperationType.MOCK_OPERATION, order: 1, params: { message: 'Nested' }, optional: true }]
+            }
+          }
+        ]
+      });
+      
+      const operations = OperationFactory.deserialize(serialized);
+      
+      expect(operations[0].optional).toBe(true);
+      expect(operations[1].optional).toBeUndefined();
+      expect((operations[2] as ConditionalOperation)['thenOperations'][0].optional).toBe(true);
+    });
+    
+    it('should carry the retry policy onto operations', () => {
+      const retry = { maxAttempts: 3, retryableCodes: ['NETWORK_ERROR'] };
+      const serialized = JSON.stringify({
+        operations: [
+          { type: OperationType.MOCK_OPERATION, order: 1, params: { message: 'Retried' }, retry },
+          { type: OperationType.MOCK_OPERATION, order: 2, params: { message: 'Once' } }
+        ]
+      });
+      
+      const operations = OperationFactory.deserialize(serialized);
+      
+      expect(operations[0].retry).toEqual(retry);
+      expect(operations[1].retry).toBeUndefined();
+    });
+    
+    it('should carry the time limit onto operations', () => {
+      const serialized = JSON.stringify({
+        operations: [{ type: OperationType.MOCK_OPERATION, order: 1, params: { message: 'Limited' }, timeoutMs: 30000 }]
+      });
+      
+      expect(OperationFactory.deserialize(serialized)[0].timeoutMs).toBe(30000);
+    });
+    
+    it('should carry dependencies onto operations', () => {
+      const serialized = JSON.stringify({
+        operations: [
+          { type: OperationType.MOCK_OPERATION, order: 1, params: { message: 'First' }, label: 'first' },
+          { type: OperationType.MOCK_OPERATION, order: 2, params: { message: 'Second' }, dependsOn: ['first'] }
+        ]
+      });
+      
+      const operations = OperationFactory.deserialize(serialized);
+      
+      expect(operations[0].dependsOn).toBeUndefined();
+      expect(operations[1].dependsOn).toEqual(['first']);
+    });
+    
+    it('should instantiate operations with the definitions of the given registry', () => {
+      const created: string[] = [];
+      const registry = new OperationRegistry();
+      registry.register(operationRegistry.get(OperationType.CONDITIONAL)!);
+      registry.register({
+        ...operationRegistry.get(OperationType.MOCK_OPERATION)!,
+        create: op => {
+          created.push(op.params.message);
+          return new MockOperation(op.order, op.params.message, 0);
+        }
+      });
+      const serialized = (operations: object[]) => JSON.stringify({ formatVersion: CURRENT_FORMAT_VERSION, operations });
+      const mock = { type: OperationType.MOCK_OPERATION, order: 1, params: { message: 'mock' } };
+      
+      const [operation] = OperationFactory.deserialize(serialized([mock]), registry);
+      
+      expect(operation).toBeInstanceOf(MockOperation);
+      expect(created).toEqual(['mock']);
+      expect(() => OperationFactory.deserialize(serialized([
+        { type: OperationType.CONDITIONAL, order: 1, params: { condition: 'true', thenOperations: [{ type: OperationType.WAIT, order: 1, params: { duration: 0 } }] } }
+      ]), registry)).toThrow('Failed to deserialize operation at index 0: Unsupported operation type: wait');
+    });
+    
+    it('should reject operations with an invalid retry policy', () => {
+      const serialized = JSON.stringify({
+        operations: [{ type: OperationType.MOCK_OPERATION, order: 1, params: { message: 'Retried' }, retry: { maxAttempts: 0 } }]
+      });
+      
+      expect(() => OperationFactory.deserialize(serialized)).toThrow('retry.maxAttempts');
+    });
+    
+    it('should label operations and defer those that reference earlier results', () => {
+      const serialized = JSON.stringify({
+        formatVersion: CURRENT_FORMAT_VERSION,
+        operations: [
+          { type: OperationType.OPEN_SHORT, order: 1, params: { ticker: 'BTC/USDC', size: 50, leverage: 1 }, label: 'shortPosition' },
+          { type: OperationType.SPOT_BUY, order: 2, params: { ticker: 'BTC/USDC', amount: 50, maxPrice: { $ref: 'shortPosition.entryPrice' } } }
+        ]
+      });
+      
+      const operations = OperationFactory.deserialize(serialized);
+      
+      expect(operations[0]).toBeInstanceOf(OpenPerpetualShortOperation);
+      expect(operations[0].label).toBe('shortPosition');
+      expect(operations[1]).toBeInstanceOf(DeferredOperation);
+      expect(operations[1].type).toBe(OperationType.SPOT_BUY);
+      expect(operations[1].references).toEqual(['shortPosition']);
+    });
+    
+    it('should throw error for references to operations that do not run earlier', () => {
+      const serialized = JSON.stringify({
+        formatVersion: CURRENT_FORMAT_VERSION,
+        operations: [
+          { type: OperationType.SPOT_BUY, order: 1, params: { ticker: 'BTC/USDC', amount: 50, maxPrice: { $ref: 'shortPosition.entryPrice' } } },
+          { type: OperationType.OPEN_SHORT, order: 2, params: { ticker: 'BTC/USDC', size: 50, leverage: 1 }, label: 'shortPosition' }
+        ]
+      });
+      
+      expect(() => OperationFactory.deserialize(serialized)).toThrow(
+        'Invalid result references: Operation at index 0: reference to "shortPosition" must point to the label of an earlier operation'
+      );
+    });
+    
+    it('should migrate unversioned payloads written in the legacy TEE vocabulary', () => {
+      const serialized = JSON.stringify({
+        metadata: { strategyId: 'funding-001', version: '1.0.0' },
+        operations: [
+          { type: 'check_funding_rate', order: 1, params: { pair: 'BTC/USD', minProfitableRate: 0.01 } },
+          { type: 'open_perpetual_short', order: 2, params: { pair: 'BTC/USD', capitalPercentage: 50, leverage: 2 } },
+          { type: 'close_position', order: 3, params: { pair: 'BTC/USD', side: 'short', maxPrice: 52000 } }
+        ]
+      });
+      
+      const operations = OperationFactory.deserialize(serialized);
+      
+      expect(operations[0]).toBeInstanceOf(CheckFundingRateOperation);
+      expect(operations[1]).toBeInstanceOf(OpenPerpetualShortOperation);
+      expect(operations[2]).toBeInstanceOf(ClosePositionOperation);
+      expect(operations[2].type).toBe(OperationType.CLOSE_SHORT);
+      expect(operations.every(op => op.validate().isValid)).toBe(true);
+    });
+    
+    it('should not apply legacy migrations to current-format payloads', () => {
+      const serialized = JSON.stringify({
+        formatVersion: CURRENT_FORMAT_VERSION,
+        operations: [
+          { type: 'open_perpetual_short', order: 1, params: { pair: 'BTC/USD', capitalPercentage: 50 } }
+        ]
+      });
+      
+      expect(() => OperationFactory.deserialize(serialized))
+        .toThrow('Failed to deserialize operation at index 0: Unknown operation type: open_perpetual_short');
+    });
+    
+    it('should reject unsupported format versions with a dedicated error', () => {
+      const serialized = JSON.stringify({
+        formatVersion: CURRENT_FORMAT_VERSION + 1,
+        operations: [
+          { type: OperationType.MOCK_OPERATION, order: 1, params: { message: 'Test' } }
+        ]
+      });
+      
+      expect(() => OperationFactory.deserialize(serialized)).toThrow(StrategyFormatError);
+      expect(() => OperationFactory.deserialize(serialized))
+        .toThrow(`Unsupported strategy format version: ${CURRENT_FORMAT_VERSION + 1}`);
+    });
+    
+    it('should report every schema violation of an operation at once', () => {
+      const serialized = JSON.stringify({
+        formatVersion: CURRENT_FORMAT_VERSION,
+        operations: [
+          {
+            type: OperationType.OPEN_SHORT,
+            order: 1,
+            params: { pair: 'BTC/USD', size: '150', leverage: 20 }
+          }
+        ]
+      });
+      
+      expect(() => OperationFactory.deserialize(serialized)).toThrow(
+        'Failed to deserialize operation at index 0: open_short has unknown parameter "pair"; ' +
+        'open_short requires "ticker" parameter; ' +
+        'open_short "size" must be between 0 and 100; ' +
+        'open_short "leverage" must be between 1 and 10'
+      );
+    });
   });
   
   describe('CheckFundingRateOperation deserialization', () => {
@@ -194,8 +395,8 @@ describe('OperationFactory', () => {
             type: OperationType.CHECK_FUNDING_RATE,
             order: 1,
             params: {
-              pair: 'BTC/USD',
-              minProfitableRate: 0.01,
+              ticker: 'BTC/USDC',
+              minRate: 0.01,
               estimatedGasCostUSD: '50'
             }
           }
@@ -209,16 +410,16 @@ describe('OperationFactory', () => {
       expect(operations[0].order).toBe(1);
     });
     
-    it('should deserialize CheckFundingRateOperation with default gas cost', () => {
+    it('should deserialize CheckFundingRateOperation without a fixed gas cost', () => {
       const serialized = JSON.stringify({
         operations: [
           {
             type: OperationType.CHECK_FUNDING_RATE,
             order: 1,
             params: {
-              pair: 'ETH/USD',
-              minProfitableRate: 0.005
-              // estimatedGasCostUSD not provided, should default to '50'
+              ticker: 'ETH/USDC',
+              minRate: 0.005
+              // estimatedGasCostUSD not provided, estimated at execution
             }
           }
         ]
@@ -237,8 +438,8 @@ describe('OperationFactory', () => {
             type: OperationType.CHECK_FUNDING_RATE,
             order: 1,
             params: {
-              pair: 'BTC/USD',
-              minProfitableRate: 0.01,
+              ticker: 'BTC/USDC',
+              minRate: 0.01,
               estimatedGasCostUSD: 75 // number instead of string
             }
           }
@@ -258,69 +459,90 @@ describe('OperationFactory', () => {
             type: OperationType.CHECK_FUNDING_RATE,
             order: 1,
             params: {
-              minProfitableRate: 0.01
-              // pair missing
+              minRate: 0.01
+              // ticker missing
             }
           }
         ]
       });
       
       expect(() => OperationFactory.deserialize(serialized))
-        .toThrow('CheckFundingRateOperation requires "pair" parameter of type string');
+        .toThrow('check_funding_rate requires "ticker" parameter');
     });
     
-    it('should throw error for empty pair parameter', () => {
+    it('should throw error for empty ticker parameter', () => {
       const serialized = JSON.stringify({
         operations: [
           {
             type: OperationType.CHECK_FUNDING_RATE,
             order: 1,
             params: {
-              pair: '',
-              minProfitableRate: 0.01
+              ticker: '',
+              minRate: 0.01
             }
           }
         ]
       });
       
       expect(() => OperationFactory.deserialize(serialized))
-        .toThrow('CheckFundingRateOperation requires "pair" parameter of type string');
+        .toThrow('check_funding_rate "ticker" must be a non-empty string');
     });
     
-    it('should throw error for missing minProfitableRate parameter', () => {
+    it('should default minRate to zero', () => {
       const serialized = JSON.stringify({
         operations: [
           {
             type: OperationType.CHECK_FUNDING_RATE,
             order: 1,
             params: {
-              pair: 'BTC/USD'
-              // minProfitableRate missing
+              ticker: 'BTC/USDC',
+              maxRate: 0.05
+              // minRate not provided, should default to 0
             }
           }
         ]
       });
       
-      expect(() => OperationFactory.deserialize(serialized))
-        .toThrow('CheckFundingRateOperation requires "minProfitableRate" parameter of type number');
+      const operations = OperationFactory.deserialize(serialized);
+      
+      expect(operations[0].validate().isValid).toBe(true);
     });
     
-    it('should throw error for minProfitableRate out of range', () => {
+    it('should throw error for the legacy pair and minProfitableRate names in the current format', () => {
       const serialized = JSON.stringify({
+        formatVersion: CURRENT_FORMAT_VERSION,
         operations: [
           {
             type: OperationType.CHECK_FUNDING_RATE,
             order: 1,
             params: {
               pair: 'BTC/USD',
-              minProfitableRate: 1.5 // > 1.0
+              minProfitableRate: 0.01
+            }
+          }
+        ]
+      });
+      
+      expect(() => OperationFactory.deserialize(serialized))
+        .toThrow('check_funding_rate has unknown parameter "pair"; check_funding_rate has unknown parameter "minProfitableRate"');
+    });
+    
+    it('should throw error for minRate out of range', () => {
+      const serialized = JSON.stringify({
+        operations: [
+          {
+            type: OperationType.CHECK_FUNDING_RATE,
+            order: 1,
+            params: {
+              ticker: 'BTC/USDC',
+              minRate: 1.5 // > 1.0
             }
           }
         ]
       });
       
       expect(() => OperationFactory.deserialize(serialized))
-        .toThrow('CheckFundingRateOperation "minProfitableRate" must be between 0 and 1.0');
+        .toThrow('check_funding_rate "minRate" must be between 0 and 1');
     });
     
     it('should throw error for invalid estimatedGasCostUSD type', () => {
@@ -330,8 +552,8 @@ describe('OperationFactory', () => {
             type: OperationType.CHECK_FUNDING_RATE,
             order: 1,
             params: {
-              pair: 'BTC/USD',
-              minProfitableRate: 0.01,
+              ticker: 'BTC/USDC',
+              minRate: 0.01,
               estimatedGasCostUSD: true // invalid type
             }
           }
@@ -339,7 +561,522 @@ describe('OperationFactory', () => {
       });
       
       expect(() => OperationFactory.deserialize(serialized))
-        .toThrow('CheckFundingRateOperation "estimatedGasCostUSD" must be a string or number');
+        .toThrow('check_funding_rate "estimatedGasCostUSD" must be a number or numeric string');
+    });
+  });
+  
+  describe('ConditionalOperation deserialization', () => {
+    it('should deserialize a conditional with nested branches', () => {
+      const serialized = JSON.stringify({
+        operations: [
+          { type: OperationType.CHECK_FUNDING_RATE, order: 1, params: { ticker: 'BTC/USDC', minRate: 0.01 } },
+          {
+            type: OperationType.CONDITIONAL,
+            order: 2,
+            params: {
+              condition: 'state.isProfitable == true',
+              thenOperations: [
+                { type: OperationType.MOCK_OPERATION, order: 1, params: { message: 'then' } }
+              ],
+              elseOperations: [
+                { type: OperationType.MOCK_OPERATION, order: 1, params: { message: 'else' } }
+              ]
+            }
+          }
+        ]
+      });
+      
+      const operations = OperationFactory.deserialize(serialized);
+      
+      expect(operations).toHaveLength(2);
+      expect(operations[1]).toBeInstanceOf(ConditionalOperation);
+      expect(operations[1].validate().isValid).toBe(true);
+    });
+    
+    it('should default elseOperations to an empty branch', () => {
+      const serialized = JSON.stringify({
+        operations: [
+          { type: OperationType.CHECK_FUNDING_RATE, order: 1, params: { ticker: 'BTC/USDC', minRate: 0.01 } },
+          {
+            type: OperationType.CONDITIONAL,
+            order: 2,
+            params: {
+              condition: 'state.isProfitable',
+              thenOperations: [
+                { type: OperationType.MOCK_OPERATION, order: 1, params: { message: 'then' } }
+              ]
+            }
+          }
+        ]
+      });
+      
+      const operations = OperationFactory.deserialize(serialized);
+      
+      expect(operations[1]).toBeInstanceOf(ConditionalOperation);
+    });
+    
+    it('should throw error for missing condition parameter', () => {
+      const serialized = JSON.stringify({
+        operations: [
+          {
+            type: OperationType.CONDITIONAL,
+            order: 1,
+            params: { thenOperations: [] }
+          }
+        ]
+      });
+      
+      expect(() => OperationFactory.deserialize(serialized))
+        .toThrow('conditional requires "condition" parameter');
+    });
+    
+    it('should throw error for missing thenOperations parameter', () => {
+      const serialized = JSON.stringify({
+        operations: [
+          {
+            type: OperationType.CONDITIONAL,
+            order: 1,
+            params: { condition: 'state.isProfitable' }
+          }
+        ]
+      });
+      
+      expect(() => OperationFactory.deserialize(serialized))
+        .toThrow('conditional requires "thenOperations" parameter');
+    });
+    
+    it('should identify invalid nested operations', () => {
+      const serialized = JSON.stringify({
+        operations: [
+          {
+            type: OperationType.CONDITIONAL,
+            order: 1,
+            params: {
+              condition: 'state.isProfitable',
+              thenOperations: [
+                { type: OperationType.MOCK_OPERATION, order: 1, params: { delay: 100 } }
+              ]
+            }
+          }
+        ]
+      });
+      
+      expect(() => OperationFactory.deserialize(serialized))
+        .toThrow('conditional "thenOperations" entry at index 0: mock_operation requires "message" parameter');
+    });
+    
+    it('should reject conditions reading misspelled state keys', () => {
+      const serialized = JSON.stringify({
+        operations: [
+          { type: OperationType.CHECK_FUNDING_RATE, order: 1, params: { ticker: 'BTC/USDC', minRate: 0.01 } },
+          {
+            type: OperationType.CONDITIONAL,
+            order: 2,
+            params: {
+              condition: 'state.isProfitible',
+              thenOperations: [
+                { type: OperationType.MOCK_OPERATION, order: 1, params: { message: 'then' } }
+              ]
+            }
+          }
+        ]
+      });
+      
+      expect(() => OperationFactory.deserialize(serialized))
+        .toThrow('Invalid state keys: Operation at index 1: condition reads unknown state key "isProfitible"');
+    });
+  });
+  
+  describe('WaitOperation deserialization', () => {
+    it('should deserialize a fixed-delay wait', () => {
+      const serialized = JSON.stringify({
+        operations: [
+          { type: OperationType.WAIT, order: 1, params: { duration: 5000 } }
+        ]
+      });
+      
+      const operations = OperationFactory.deserialize(serialized);
+      
+      expect(operations[0]).toBeInstanceOf(WaitOperation);
+      expect(operations[0].validate().isValid).toBe(true);
+    });
+    
+    it('should deserialize a condition wait with refresh sources', () => {
+      const serialized = JSON.stringify({
+        operations: [
+          {
+            type: OperationType.WAIT,
+            order: 1,
+            params: {
+              duration: 60000,
+              condition: 'state.fundingRate >= 0.01',
+              pollInterval: 10000,
+              refresh: [{ source: 'funding_rate', pair: 'BTC/USD' }]
+            }
+          }
+        ]
+      });
+      
+      const operations = OperationFactory.deserialize(serialized);
+      
+      expect(operations[0]).toBeInstanceOf(WaitOperation);
+      expect(operations[0].validate().isValid).toBe(true);
+    });
+    
+    it('should throw error for missing duration parameter', () => {
+      const serialized = JSON.stringify({
+        operations: [
+          { type: OperationType.WAIT, order: 1, params: { condition: 'state.ready' } }
+        ]
+      });
+      
+      expect(() => OperationFactory.deserialize(serialized))
+        .toThrow('wait requires "duration" parameter');
+    });
+    
+    it('should throw error for unknown refresh sources', () => {
+      const serialized = JSON.stringify({
+        operations: [
+          {
+            type: OperationType.WAIT,
+            order: 1,
+            params: {
+              duration: 1000,
+              condition: 'state.ready',
+              refresh: [{ source: 'oracle' }]
+            }
+          }
+        ]
+      });
+      
+      expect(() => OperationFactory.deserialize(serialized))
+        .toThrow('wait "refresh" entry at index 0 has unknown source "oracle"');
+    });
+  });
+  
+  describe('SpotSellOperation deserialization', () => {
+    it('should deserialize a valid SpotSellOperation', () => {
+      const serialized = JSON.stringify({
+        operations: [
+          {
+            type: OperationType.SPOT_SELL,
+            order: 4,
+            params: {
+              ticker: 'BTC/USDC',
+              amount: '100',
+              isPercentage: true,
+              orderType: 'limit',
+              minPrice: '49000'
+            }
+          }
+        ]
+      });
+      
+      const operations = OperationFactory.deserialize(serialized);
+      
+      expect(operations[0]).toBeInstanceOf(SpotSellOperation);
+      expect(operations[0].order).toBe(4);
+      expect(operations[0].validate().isValid).toBe(true);
+    });
+    
+    it('should accept the params produced by the frontend builder', () => {
+      const serialized = JSON.stringify({
+        operations: [
+          {
+            type: OperationType.SPOT_SELL,
+            order: 1,
+            params: { ticker: 'ETH/USDC', amount: 50, isPercentage: true, exchange: '1inch-fusion' }
+          }
+        ]
+      });
+      
+      const operations = OperationFactory.deserialize(serialized);
+      
+      expect(operations[0]).toBeInstanceOf(SpotSellOperation);
+      expect(operations[0].validate().isValid).toBe(true);
+    });
+    
+    it('should throw error for missing amount parameter', () => {
+      const serialized = JSON.stringify({
+        operations: [
+          { type: OperationType.SPOT_SELL, order: 1, params: { ticker: 'BTC/USDC' } }
+        ]
+      });
+      
+      expect(() => OperationFactory.deserialize(serialized))
+        .toThrow('spot_sell requires "amount" parameter');
+    });
+    
+    it('should throw error for invalid orderType', () => {
+      const serialized = JSON.stringify({
+        operations: [
+          { type: OperationType.SPOT_SELL, order: 1, params: { ticker: 'BTC/USDC', amount: '1', orderType: 'stop' } }
+        ]
+      });
+      
+      expect(() => OperationFactory.deserialize(serialized))
+        .toThrow('spot_sell "orderType" must be one of: market, limit');
+    });
+  });
+  
+  describe('SpotBuyOperation deserialization', () => {
+    it('should deserialize a market buy from the frontend params', () => {
+      const serialized = JSON.stringify({
+        operations: [
+          {
+            type: OperationType.SPOT_BUY,
+            order: 3,
+            params: { ticker: 'BTC/USDC', amount: '50', isPercentage: true, exchange: '1inch-fusion' }
+          }
+        ]
+      });
+      
+      const operations = OperationFactory.deserialize(serialized);
+      
+      expect(operations[0]).toBeInstanceOf(SpotBuyOperation);
+      expect(operations[0].validate().isValid).toBe(true);
+    });
+    
+    it('should place a limit order when a maximum price is given', () => {
+      const serialized = JSON.stringify({
+        operations: [
+          { type: OperationType.SPOT_BUY, order: 3, params: { ticker: 'BTC/USDC', amount: 50, maxPrice: '51000' } }
+        ]
+      });
+      
+      const operations = OperationFactory.deserialize(serialized);
+      
+      expect(operations[0].validate().isValid).toBe(true);
+    });
+    
+    it('should throw error for a price on a market order', () => {
+      const serialized = JSON.stringify({
+        operations: [
+          {
+            type: OperationType.SPOT_BUY,
+            order: 1,
+            params: { ticker: 'BTC/USDC', amount: 50, orderType: 'market', priceReference: 'short_entry_price' }
+          }
+        ]
+      });
+      
+      expect(() => OperationFactory.deserialize(serialized))
+        .toThrow('spot_buy "maxPrice" and "priceReference" only apply to limit orders');
+    });
+  });
+  
+  describe('OpenPerpetualShortOperation deserialization', () => {
+    it('should deserialize the open_short params produced by the frontend builder', () => {
+      const serialized = JSON.stringify({
+        operations: [
+          {
+            type: OperationType.OPEN_SHORT,
+            order: 2,
+            params: { ticker: 'BTC/USDC', size: '50', isPercentage: true, leverage: 2, stopLoss: 55000, exchange: 'avantis' }
+          }
+        ]
+      });
+      
+      const operations = OperationFactory.deserialize(serialized);
+      
+      expect(operations[0]).toBeInstanceOf(OpenPerpetualShortOperation);
+      expect(operations[0].type).toBe(OperationType.OPEN_SHORT);
+      expect(operations[0].validate().isValid).toBe(true);
+    });
+    
+    it('should throw error for absolute sizes', () => {
+      const serialized = JSON.stringify({
+        operations: [
+          { type: OperationType.OPEN_SHORT, order: 1, params: { ticker: 'BTC/USDC', size: '50', isPercentage: false, leverage: 1 } }
+        ]
+      });
+      
+      expect(() => OperationFactory.deserialize(serialized))
+        .toThrow('open_short "isPercentage" must be true; "size" is a percentage of allocated capital');
+    });
+  });
+  
+  describe('Perpetual long deserialization', () => {
+    it('should deserialize an OpenPerpetualLongOperation with protective orders', () => {
+      const serialized = JSON.stringify({
+        operations: [
+          {
+            type: OperationType.OPEN_LONG,
+            order: 2,
+            params: { ticker: 'BTC/USDC', size: 50, leverage: 3, stopLoss: 45000, takeProfit: '60000' }
+          }
+        ]
+      });
+      
+      const operations = OperationFactory.deserialize(serialized);
+      
+      expect(operations[0]).toBeInstanceOf(OpenPerpetualLongOperation);
+      expect(operations[0].order).toBe(2);
+      expect(operations[0].validate().isValid).toBe(true);
+    });
+    
+    it('should throw error for invalid stopLoss type', () => {
+      const serialized = JSON.stringify({
+        operations: [
+          {
+            type: OperationType.OPEN_LONG,
+            order: 1,
+            params: { ticker: 'BTC/USDC', size: 50, leverage: 1, stopLoss: true }
+          }
+        ]
+      });
+      
+      expect(() => OperationFactory.deserialize(serialized))
+        .toThrow('open_long "stopLoss" must be a number or numeric string');
+    });
+    
+    it('should deserialize a partial close_long as a ClosePositionOperation', () => {
+      const serialized = JSON.stringify({
+        operations: [
+          {
+            type: OperationType.CLOSE_LONG,
+            order: 5,
+            params: { ticker: 'BTC/USDC', closeAll: false, amount: 50, isPercentage: true, minPrice: 58000 }
+          }
+        ]
+      });
+      
+      const operations = OperationFactory.deserialize(serialized);
+      
+      expect(operations[0]).toBeInstanceOf(ClosePositionOperation);
+      expect(operations[0].type).toBe(OperationType.CLOSE_LONG);
+      expect(operations[0].validate().isValid).toBe(true);
+    });
+    
+    it('should throw error for missing pair on close', () => {
+      const serialized = JSON.stringify({
+        operations: [
+          { type: OperationType.CLOSE_LONG, order: 1, params: {} }
+        ]
+      });
+      
+      expect(() => OperationFactory.deserialize(serialized))
+        .toThrow('close_long requires "ticker" parameter');
+    });
+  });
+  
+  describe('ClosePositionOperation deserialization', () => {
+    it('should accept the close_short params produced by the frontend builder', () => {
+      const serialized = JSON.stringify({
+        operations: [
+          {
+            type: OperationType.CLOSE_SHORT,
+            order: 5,
+            params: { ticker: 'BTC/USDC', amount: '50', isPercentage: true, closeAll: false, maxPrice: 52000 }
+          }
+        ]
+      });
+      
+      const operations = OperationFactory.deserialize(serialized);
+      
+      expect(operations[0]).toBeInstanceOf(ClosePositionOperation);
+      expect(operations[0].type).toBe(OperationType.CLOSE_SHORT);
+      expect(operations[0].validate().isValid).toBe(true);
+    });
+    
+    it('should throw error for a side parameter, which the type already defines', () => {
+      const serialized = JSON.stringify({
+        operations: [
+          { type: OperationType.CLOSE_SHORT, order: 1, params: { ticker: 'BTC/USDC', side: 'long' } }
+        ]
+      });
+      
+      expect(() => OperationFactory.deserialize(serialized))
+        .toThrow('close_short has unknown parameter "side"');
+    });
+    
+    it('should throw error for percentages above 100', () => {
+      const serialized = JSON.stringify({
+        operations: [
+          { type: OperationType.CLOSE_SHORT, order: 1, params: { ticker: 'BTC/USDC', amount: 150, isPercentage: true } }
+        ]
+      });
+      
+      expect(() => OperationFactory.deserialize(serialized))
+        .toThrow('close_short "amount" must be between 0 and 100 when "isPercentage" is set');
+    });
+    
+    it('should throw error for a price limit that does not match the side', () => {
+      const serialized = JSON.stringify({
+        operations: [
+          { type: OperationType.CLOSE_SHORT, order: 1, params: { ticker: 'BTC/USDC', minPrice: '40000' } }
+        ]
+      });
+      
+      expect(() => OperationFactory.deserialize(serialized))
+        .toThrow('close_short has unknown parameter "minPrice"');
+    });
+  });
+  
+  describe('CheckPriceOperation deserialization', () => {
+    it('should accept the check_price params produced by the frontend builder', () => {
+      const serialized = JSON.stringify({
+        operations: [
+          {
+            type: OperationType.CHECK_PRICE,
+            order: 1,
+            params: { ticker: 'BTC/USD', operator: 'gte', targetPrice: '40000' }
+          }
+        ]
+      });
+      
+      const operations = OperationFactory.deserialize(serialized);
+      
+      expect(operations[0]).toBeInstanceOf(CheckPriceOperation);
+      expect(operations[0].validate().isValid).toBe(true);
+    });
+    
+    it('should throw error for invalid operator', () => {
+      const serialized = JSON.stringify({
+        operations: [
+          { type: OperationType.CHECK_PRICE, order: 1, params: { ticker: 'BTC/USDC', operator: '>', targetPrice: 1 } }
+        ]
+      });
+      
+      expect(() => OperationFactory.deserialize(serialized))
+        .toThrow('check_price "operator" must be one of: gt, lt, gte, lte, eq');
+    });
+    
+    it('should throw error for missing targetPrice', () => {
+      const serialized = JSON.stringify({
+        operations: [
+          { type: OperationType.CHECK_PRICE, order: 1, params: { ticker: 'BTC/USDC', operator: 'gt' } }
+        ]
+      });
+      
+      expect(() => OperationFactory.deserialize(serialized))
+        .toThrow('check_price requires "targetPrice" parameter');
+    });
+  });
+  
+  describe('CheckLiquidityOperation deserialization', () => {
+    it('should deserialize with defaults', () => {
+      const serialized = JSON.stringify({
+        operations: [
+          { type: OperationType.CHECK_LIQUIDITY, order: 1, params: { ticker: 'BTC/USDC' } }
+        ]
+      });
+      
+      const operations = OperationFactory.deserialize(serialized);
+      
+      expect(operations[0]).toBeInstanceOf(CheckLiquidityOperation);
+      expect(operations[0].validate().isValid).toBe(true);
+    });
+    
+    it('should throw error for invalid maxPriceImpact', () => {
+      const serialized = JSON.stringify({
+        operations: [
+          { type: OperationType.CHECK_LIQUIDITY, order: 1, params: { ticker: 'BTC/USDC', maxPriceImpact: '1%' } }
+        ]
+      });
+      
+      expect(() => OperationFactory.deserialize(serialized))
+        .toThrow('check_liquidity "maxPriceImpact" must be a number');
     });
   });
 });
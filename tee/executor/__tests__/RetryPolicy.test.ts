@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { getRetryDelay, isRetryable } from '../RetryPolicy';
+
+const networkError = { code: 'NETWORK_ERROR', message: 'Network error occurred during execution', recoverable: true };
+
+describe('RetryPolicy', () => {
+  describe('isRetryable', () => {
+    it('should retry any recoverable error of idempotent operations when no codes are listed', () => {
+      expect(isRetryable({ maxAttempts: 2 }, networkError, true)).toBe(true);
+      expect(isRetryable({ maxAttempts: 2 }, { ...networkError, recoverable: false }, true)).toBe(false);
+      expect(isRetryable({ maxAttempts: 2 }, networkError, false)).toBe(false);
+    });
+
+    it('should restrict retries to the listed codes', () => {
+      expect(isRetryable({ maxAttempts: 2, retryableCodes: ['NETWORK_ERROR'] }, networkError, false)).toBe(true);
+      expect(isRetryable({ maxAttempts: 2, retryableCodes: ['GAS_ERROR'] }, networkError, true)).toBe(false);
+      expect(isRetryable({ maxAttempts: 2, retryableCodes: ['NETWORK_ERROR'] }, { ...networkError, recoverable: false }, false)).toBe(false);
+    });
+  });
+
+  describe('getRetryDelay', () => {
+    it('should back off exponentially up to the maximum delay', () => {
+      const policy = { maxAttempts: 6, initialDelayMs: 500, backoffMultiplier: 3, maxDelayMs: 10000, jitter: 0 };
+
+      expect([1, 2, 3, 4].map(retry => getRetryDelay(policy, retry))).toEqual([500, 1500, 4500, 10000]);
+    });
+
+    it('should use the defaults for fields left out', () => {
+      expect(getRetryDelay({ maxAttempts: 3 }, 2, () => 0)).toBe(2000);
+    });
+
+    it('should remove up to the jitter fraction of the delay', () => {
+      const policy = { maxAttempts: 3, initialDelayMs: 1000, jitter: 0.5 };
+
+      expect(getRetryDelay(policy, 1, () => 0)).toBe(1000);
+      expect(getRetryDelay(policy, 1, () => 0.5)).toBe(750);
+      expect(getRetryDelay(policy, 1, () => 0.999)).toBeGreaterThanOrEqual(500);
+    });
+  });
+});
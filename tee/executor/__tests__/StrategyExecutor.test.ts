@@ -0,0 +1,905 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createHash } from 'crypto';
+import { StrategyExecutor } from '../StrategyExecutor';
+import { InMemoryJournal, JournalEntry } from '../ExecutionJournal';
+import { ExecutionContext } from '../ExecutionContext';
+import { IOperation } from '../../operations/IOperation';
+import { OperationType, OperationResult } from '../../operations/OperationTypes';
+import { OpenPerpetualShortOperation } from '../../operations/OpenPerpetualShortOperation';
+import { ExecutionState } from '../ExecutionState';
+
+function createOperation(order: number, result: OperationResult | Error, optional?: boolean, label?: string) {
+  return {
+    type: result instanceof Error ? OperationType.MOCK_OPERATION : result.operationType,
+    order,
+    optional,
+    label,
+    validate: () => ({ isValid: true, errors: [] }),
+    execute: result instanceof Error ? vi.fn().mockRejectedValue(result) : vi.fn().mockResolvedValue(result),
+    rollback: vi.fn().mockResolvedValue(undefined)
+  } satisfies IOperation;
+}
+
+function createContext(): ExecutionContext {
+  return {
+    config: { slippageTolerance: 1, executionMode: 'instant', capitalAllocation: '1000' },
+    state: new ExecutionState()
+  } as unknown as ExecutionContext;
+}
+
+const succeeded = (operationType: OperationType, gasUsed?: string, data?: Record<string, any>): OperationResult => ({
+  success: true,
+  operationType,
+  gasUsed,
+  data
+});
+
+const failed = (operationType: OperationType, gasUsed?: string): OperationResult => ({
+  success: false,
+  operationType,
+  error: { code: 'FUNDING_RATE_CHECK_FAILED', message: 'Failed to check funding rate', recoverable: true },
+  gasUsed
+});
+
+describe('StrategyExecutor', () => {
+  describe('execute', () => {
+    it('should run every operation and report no soft failures', async () => {
+      const executor = new StrategyExecutor();
+      executor.load([
+        createOperation(1, succeeded(OperationType.OPEN_SHORT, '100')),
+        createOperation(2, succeeded(OperationType.SPOT_BUY, '50'))
+      ]);
+
+      const result = await executor.execute(createContext());
+
+      expect(result.success).toBe(true);
+      expect(result.totalGasUsed).toBe('150');
+      expect(result.softFailures).toEqual([]);
+    });
+
+    it('should stop and roll back when a required operation fails', async () => {
+      const first = createOperation(1, succeeded(OperationType.OPEN_SHORT));
+      const second = createOperation(2, failed(OperationType.SPOT_BUY));
+      const third = createOperation(3, succeeded(OperationType.MOCK_OPERATION));
+      const executor = new StrategyExecutor();
+      executor.load([first, second, third]);
+
+      const result = await executor.execute(createContext());
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('FUNDING_RATE_CHECK_FAILED');
+      expect(first.rollback).toHaveBeenCalled();
+      expect(third.execute).not.toHaveBeenCalled();
+    });
+
+    it('should continue past a failed optional operation without rolling back', async () => {
+      const first = createOperation(1, succeeded(OperationType.OPEN_SHORT, '100'));
+      const optional = createOperation(2, failed(OperationType.CHECK_FUNDING_RATE, '20'), true);
+      const third = createOperation(3, succeeded(OperationType.SPOT_BUY, '50'));
+      const executor = new StrategyExecutor();
+      executor.load([first, optional, third]);
+
+      const result = await executor.execute(createContext());
+
+      expect(result.success).toBe(true);
+      expect(third.execute).toHaveBeenCalled();
+      expect(first.rollback).not.toHaveBeenCalled();
+      expect(result.operationResults).toHaveLength(3);
+      expect(result.totalGasUsed).toBe('170');
+      expect(result.softFailures).toEqual([
+        {
+          operationType: OperationType.CHECK_FUNDING_RATE,
+          order: 2,
+          error: { code: 'FUNDING_RATE_CHECK_FAILED', message: 'Failed to check funding rate', recoverable: true }
+        }
+      ]);
+    });
+
+    it('should treat unexpected errors in optional operations as soft failures', async () => {
+      const third = createOperation(2, succeeded(OperationType.SPOT_BUY));
+      const executor = new StrategyExecutor();
+      executor.load([createOperation(1, new Error('network unreachable'), true), third]);
+
+      const result = await executor.execute(createContext());
+
+      expect(result.success).toBe(true);
+      expect(third.execute).toHaveBeenCalled();
+      expect(result.softFailures).toEqual([
+        {
+          operationType: OperationType.MOCK_OPERATION,
+          order: 1,
+          error: { code: 'NETWORK_ERROR', message: 'Network error occurred during execution', recoverable: true }
+        }
+      ]);
+    });
+
+    it('should not roll back a failed optional operation when a later operation fails', async () => {
+      const optional = createOperation(1, failed(OperationType.CHECK_PRICE), true);
+      const executor = new StrategyExecutor();
+      executor.load([optional, createOperation(2, failed(OperationType.SPOT_BUY))]);
+
+      const result = await executor.execute(createContext());
+
+      expect(result.success).toBe(false);
+      expect(result.softFailures).toHaveLength(1);
+      expect(optional.rollback).not.toHaveBeenCalled();
+    });
+
+    it('should label the results of labelled operations', async () => {
+      const executor = new StrategyExecutor();
+      executor.load([
+        createOperation(1, succeeded(OperationType.OPEN_SHORT), false, 'shortPosition'),
+        createOperation(2, new Error('network unreachable'), true, 'probe'),
+        createOperation(3, succeeded(OperationType.SPOT_BUY))
+      ]);
+
+      const result = await executor.execute(createContext());
+
+      expect(result.operationResults.map(r => r.label)).toEqual(['shortPosition', 'probe', undefined]);
+    });
+
+    it('should reject references to labels that do not run earlier before executing anything', async () => {
+      const first = createOperation(1, succeeded(OperationType.SPOT_BUY));
+      const executor = new StrategyExecutor();
+      executor.load([
+        { ...first, references: ['shortPosition'] },
+        createOperation(2, succeeded(OperationType.OPEN_SHORT), false, 'shortPosition')
+      ]);
+
+      const result = await executor.execute(createContext());
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('VALIDATION_ERROR');
+      expect(first.execute).not.toHaveBeenCalled();
+    });
+
+    it('should accept references to results recorded before a nested run', async () => {
+      const context = createContext();
+      context.results = [{ ...succeeded(OperationType.OPEN_SHORT), label: 'shortPosition' }];
+      const executor = new StrategyExecutor();
+      executor.load([{ ...createOperation(1, succeeded(OperationType.SPOT_BUY)), references: ['shortPosition'] }]);
+
+      const result = await executor.execute(context);
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should bind state to each operation and report what the operations left', async () => {
+      const check = createOperation(1, succeeded(OperationType.CHECK_FUNDING_RATE));
+      check.execute.mockImplementation(async (context: ExecutionContext) => {
+        context.state.set('isProfitable', true);
+        return succeeded(OperationType.CHECK_FUNDING_RATE);
+      });
+      const spotBuy = createOperation(2, succeeded(OperationType.SPOT_BUY));
+      spotBuy.execute.mockImplementation(async (context: ExecutionContext) => {
+        context.state.set('isProfitable', false);
+        return succeeded(OperationType.SPOT_BUY);
+      });
+      const executor = new StrategyExecutor();
+      executor.load([check, spotBuy]);
+
+      const result = await executor.execute(createContext());
+
+      expect(result.success).toBe(false);
+      expect(result.state).toEqual({ isProfitable: true });
+    });
+  });
+
+  describe('concurrency', () => {
+    /** Operation that settles when the test finishes it */
+    const pending = (order: number, label: string, dependsOn?: string[]) => {
+      let finish: (result: OperationResult) => void = () => undefined;
+      const operation = { ...createOperation(order, succeeded(OperationType.MOCK_OPERATION), false, label), dependsOn };
+      operation.execute.mockReturnValue(new Promise<OperationResult>(resolve => {
+        finish = resolve;
+      }));
+      return { operation, finish: (result: OperationResult = succeeded(OperationType.MOCK_OPERATION)) => finish(result) };
+    };
+
+    const settled = () => new Promise(resolve => setTimeout(resolve, 0));
+
+    it('should run operations of the same order concurrently and wait for them before the next order', async () => {
+      const first = pending(1, 'first');
+      const second = pending(1, 'second');
+      const third = createOperation(2, succeeded(OperationType.SPOT_BUY));
+      const executor = new StrategyExecutor();
+      executor.load([first.operation, second.operation, third]);
+
+      const execution = executor.execute(createContext());
+      await settled();
+      expect(first.operation.execute).toHaveBeenCalled();
+      expect(second.operation.execute).toHaveBeenCalled();
+
+      second.finish();
+      await settled();
+      expect(third.execute).not.toHaveBeenCalled();
+
+      first.finish();
+      const result = await execution;
+
+      expect(result.success).toBe(true);
+      expect(result.operationResults.map(r => r.label)).toEqual(['second', 'first', undefined]);
+    });
+
+    it('should start operations as soon as the operations they depend on are done', async () => {
+      const short = pending(1, 'short');
+      const slow = pending(1, 'slow');
+      const hedge = createOperation(2, succeeded(OperationType.SPOT_BUY));
+      const executor = new StrategyExecutor();
+      executor.load([short.operation, slow.operation, { ...hedge, dependsOn: ['short'] }]);
+
+      const execution = executor.execute(createContext());
+      short.finish();
+      await settled();
+      expect(hedge.execute).toHaveBeenCalled();
+
+      slow.finish();
+      expect((await execution).success).toBe(true);
+    });
+
+    it('should let running operations settle before rolling back every one that succeeded', async () => {
+      const failing = createOperation(1, failed(OperationType.OPEN_SHORT));
+      const sibling = pending(1, 'sibling');
+      const next = createOperation(2, succeeded(OperationType.SPOT_BUY));
+      const executor = new StrategyExecutor();
+      executor.load([failing, sibling.operation, next]);
+
+      const execution = executor.execute(createContext());
+      await settled();
+      expect(sibling.operation.rollback).not.toHaveBeenCalled();
+
+      sibling.finish();
+      const result = await execution;
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('FUNDING_RATE_CHECK_FAILED');
+      expect(sibling.operation.rollback).toHaveBeenCalled();
+      expect(next.execute).not.toHaveBeenCalled();
+    });
+
+    it('should reject dependencies on operations of the same order before executing anything', async () => {
+      const first = createOperation(1, succeeded(OperationType.OPEN_SHORT), false, 'short');
+      const second = createOperation(1, succeeded(OperationType.SPOT_BUY));
+      const executor = new StrategyExecutor();
+      executor.load([first, { ...second, dependsOn: ['short'] }]);
+
+      const result = await executor.execute(createContext());
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('VALIDATION_ERROR');
+      expect(first.execute).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('retry', () => {
+    const retryContext = () => {
+      const sleep = vi.fn().mockResolvedValue(undefined);
+      const context = { ...createContext(), clock: { now: () => 0, sleep } } as ExecutionContext;
+      return { context, sleep };
+    };
+
+    it('should retry recoverable failures with exponential backoff and record every attempt', async () => {
+      const operation = {
+        ...createOperation(1, succeeded(OperationType.CHECK_FUNDING_RATE, '30')),
+        idempotent: true,
+        retry: { maxAttempts: 3, initialDelayMs: 1000, jitter: 0 }
+      };
+      operation.execute
+        .mockResolvedValueOnce(failed(OperationType.CHECK_FUNDING_RATE, '10'))
+        .mockRejectedValueOnce(new Error('connection reset'));
+      const { context, sleep } = retryContext();
+      const executor = new StrategyExecutor();
+      executor.load([operation]);
+
+      const result = await executor.execute(context);
+
+      expect(result.success).toBe(true);
+      expect(operation.execute).toHaveBeenCalledTimes(3);
+      expect(sleep.mock.calls).toEqual([[1000], [2000]]);
+      expect(result.totalGasUsed).toBe('40');
+      expect(result.operationResults[0].attempts).toEqual([
+        { attempt: 1, success: false, error: failed(OperationType.CHECK_FUNDING_RATE).error, gasUsed: '10', delayMs: 1000 },
+        { attempt: 2, success: false, error: { code: 'NETWORK_ERROR', message: 'Network error occurred during execution', recoverable: true }, delayMs: 2000 },
+        { attempt: 3, success: true, gasUsed: '30' }
+      ]);
+    });
+
+    it('should roll back once the attempts are exhausted', async () => {
+      const first = createOperation(1, succeeded(OperationType.OPEN_SHORT));
+      const second = { ...createOperation(2, failed(OperationType.CHECK_FUNDING_RATE)), idempotent: true, retry: { maxAttempts: 2, jitter: 0 } };
+      const { context, sleep } = retryContext();
+      const executor = new StrategyExecutor();
+      executor.load([first, second]);
+
+      const result = await executor.execute(context);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('FUNDING_RATE_CHECK_FAILED');
+      expect(second.execute).toHaveBeenCalledTimes(2);
+      expect(sleep).toHaveBeenCalledTimes(1);
+      expect(result.operationResults[1].attempts).toHaveLength(2);
+      expect(first.rollback).toHaveBeenCalled();
+    });
+
+    it('should not retry errors that are not recoverable or not listed as retryable', async () => {
+      const unrecoverable = {
+        ...createOperation(1, new Error('invalid amount')),
+        optional: true,
+        retry: { maxAttempts: 3 }
+      };
+      const unlisted = {
+        ...createOperation(2, failed(OperationType.CHECK_FUNDING_RATE)),
+        optional: true,
+        retry: { maxAttempts: 3, retryableCodes: ['NETWORK_ERROR'] }
+      };
+      const { context, sleep } = retryContext();
+      const executor = new StrategyExecutor();
+      executor.load([unrecoverable, unlisted]);
+
+      const result = await executor.execute(context);
+
+      expect(unrecoverable.execute).toHaveBeenCalledTimes(1);
+      expect(unlisted.execute).toHaveBeenCalledTimes(1);
+      expect(sleep).not.toHaveBeenCalled();
+      expect(result.softFailures.map(f => f.error.code)).toEqual(['VALIDATION_ERROR', 'FUNDING_RATE_CHECK_FAILED']);
+    });
+
+    it('should only retry operations that are not idempotent for the listed codes', async () => {
+      const unlisted = { ...createOperation(1, failed(OperationType.OPEN_SHORT)), optional: true, retry: { maxAttempts: 3 } };
+      const listed = {
+        ...createOperation(2, failed(OperationType.OPEN_SHORT)),
+        optional: true,
+        retry: { maxAttempts: 2, retryableCodes: ['FUNDING_RATE_CHECK_FAILED'] }
+      };
+      const { context } = retryContext();
+      const executor = new StrategyExecutor();
+      executor.load([unlisted, listed]);
+
+      await executor.execute(context);
+
+      expect(unlisted.execute).toHaveBeenCalledTimes(1);
+      expect(listed.execute).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry failures that report a sent transaction', async () => {
+      const operation = {
+        ...createOperation(1, { ...failed(OperationType.OPEN_SHORT, '50000'), transactionHash: '0xreverted' }),
+        retry: { maxAttempts: 3, retryableCodes: ['FUNDING_RATE_CHECK_FAILED'] }
+      };
+      const { context, sleep } = retryContext();
+      const executor = new StrategyExecutor();
+      executor.load([operation]);
+
+      const result = await executor.execute(context);
+
+      expect(operation.execute).toHaveBeenCalledTimes(1);
+      expect(sleep).not.toHaveBeenCalled();
+      expect(result.success).toBe(false);
+    });
+
+    it('should not send an order again when it failed after being sent', async () => {
+      const sent: string[] = [];
+      const openShort = vi.fn(async () => {
+        sent.push('openTrade');
+        throw Object.assign(new Error('Order 0xorder was not filled within 60000ms'), { transactionHash: '0xorder' });
+      });
+      const { context, sleep } = retryContext();
+      const operation = Object.assign(new OpenPerpetualShortOperation(1, 'BTC/USDC', 50, 2), {
+        retry: { maxAttempts: 3, retryableCodes: ['OPEN_SHORT_FAILED'] }
+      });
+      const executor = new StrategyExecutor();
+      executor.load([operation]);
+
+      const result = await executor.execute({
+        ...context,
+        getPerpetualService: () => ({ openShort, openLong: vi.fn(), closePosition: vi.fn() })
+      } as unknown as ExecutionContext);
+
+      expect(sent).toEqual(['openTrade']);
+      expect(sleep).not.toHaveBeenCalled();
+      expect(result.operationResults[0]).toMatchObject({
+        success: false,
+        transactionHash: '0xorder',
+        error: { code: 'OPEN_SHORT_FAILED', recoverable: false }
+      });
+    });
+
+    it('should attempt operations without a retry policy once', async () => {
+      const operation = createOperation(1, failed(OperationType.CHECK_FUNDING_RATE));
+      const executor = new StrategyExecutor();
+      executor.load([operation]);
+
+      const result = await executor.execute(createContext());
+
+      expect(operation.execute).toHaveBeenCalledTimes(1);
+      expect(result.operationResults[0].attempts).toBeUndefined();
+    });
+  });
+
+  describe('timeouts', () => {
+    /** Clock whose timers expire as soon as they are set */
+    const expiringContext = (deadline?: number) => ({
+      ...createContext(),
+      clock: { now: () => 0, sleep: vi.fn().mockResolvedValue(undefined) },
+      deadline
+    }) as ExecutionContext;
+
+    const hanging = (order: number, timeoutMs?: number) => {
+      const operation = { ...createOperation(order, succeeded(OperationType.SPOT_BUY)), timeoutMs };
+      operation.execute.mockReturnValue(new Promise(() => undefined));
+      return operation;
+    };
+
+    it('should cancel an operation that overruns its timeout and roll back', async () => {
+      const first = createOperation(1, succeeded(OperationType.OPEN_SHORT));
+      const second = hanging(2, 60000);
+      const executor = new StrategyExecutor();
+      executor.load([first, second]);
+
+      const result = await executor.execute(expiringContext());
+
+      expect(result.success).toBe(false);
+      expect(result.error).toEqual({ code: 'TIMEOUT', message: 'Operation timed out', recoverable: true });
+      expect(second.execute.mock.calls[0][0].signal.aborted).toBe(true);
+      expect(second.rollback).toHaveBeenCalled();
+      expect(first.rollback).toHaveBeenCalled();
+    });
+
+    it('should not start operations once the deadline has passed', async () => {
+      const operation = createOperation(1, succeeded(OperationType.OPEN_SHORT));
+      const executor = new StrategyExecutor();
+      executor.load([operation]);
+
+      const result = await executor.execute(expiringContext(0));
+
+      expect(operation.execute).not.toHaveBeenCalled();
+      expect(result.error).toEqual({ code: 'TIMEOUT', message: 'Execution deadline reached', recoverable: false });
+    });
+
+    it('should not retry an operation cancelled at the deadline', async () => {
+      const operation = { ...hanging(1), retry: { maxAttempts: 3 } };
+      const executor = new StrategyExecutor();
+      executor.load([operation]);
+
+      const result = await executor.execute(expiringContext(30000));
+
+      expect(operation.execute).toHaveBeenCalledTimes(1);
+      expect(result.error?.message).toBe('Execution deadline reached');
+      expect(result.operationResults[0].attempts).toHaveLength(1);
+    });
+
+    it('should retry an idempotent operation once the timed-out attempt has settled', async () => {
+      const events: string[] = [];
+      const operation = {
+        ...createOperation(1, succeeded(OperationType.CHECK_PRICE)),
+        timeoutMs: 5000,
+        idempotent: true,
+        retry: { maxAttempts: 2, retryableCodes: ['TIMEOUT'] }
+      };
+      // The first attempt ignores the cancellation and only settles during the retry delay
+      let settleFirst = () => {};
+      operation.execute
+        .mockImplementationOnce(() => new Promise(resolve => {
+          settleFirst = () => {
+            events.push('first settled');
+            resolve(failed(OperationType.CHECK_PRICE));
+          };
+        }))
+        .mockImplementationOnce(async () => {
+          events.push('second started');
+          return succeeded(OperationType.CHECK_PRICE);
+        });
+      const context = expiringContext();
+      vi.mocked(context.clock!.sleep).mockImplementation(async (_ms, signal) => {
+        if (!signal) {
+          settleFirst();
+        }
+      });
+      const executor = new StrategyExecutor();
+      executor.load([operation]);
+
+      const result = await executor.execute(context);
+
+      expect(result.success).toBe(true);
+      expect(result.operationResults[0].attempts?.map(attempt => attempt.error?.code)).toEqual(['TIMEOUT', undefined]);
+      expect(events).toEqual(['first settled', 'second started']);
+    });
+
+    it('should not retry an idempotent operation whose timed-out attempt is still running', async () => {
+      const operation = { ...hanging(1, 5000), idempotent: true, retry: { maxAttempts: 2, retryableCodes: ['TIMEOUT'] } };
+      const executor = new StrategyExecutor();
+      executor.load([operation]);
+
+      const result = await executor.execute(expiringContext());
+
+      expect(operation.execute).toHaveBeenCalledTimes(1);
+      expect(result.error?.code).toBe('TIMEOUT');
+    });
+
+    it('should not retry a timed-out operation that may have sent a transaction', async () => {
+      const operation = { ...hanging(1, 5000), retry: { maxAttempts: 3 } };
+      const executor = new StrategyExecutor();
+      executor.load([operation]);
+
+      const result = await executor.execute(expiringContext());
+
+      expect(operation.execute).toHaveBeenCalledTimes(1);
+      expect(result.operationResults[0].attempts).toHaveLength(1);
+      expect(operation.rollback).toHaveBeenCalled();
+    });
+
+    it('should clear the timer of an operation that finishes in time', async () => {
+      const sleep = vi.fn().mockReturnValue(new Promise(() => undefined));
+      const operation = { ...createOperation(1, succeeded(OperationType.OPEN_SHORT)), timeoutMs: 1000 };
+      const executor = new StrategyExecutor();
+      executor.load([operation]);
+
+      const result = await executor.execute({ ...createContext(), clock: { now: () => 0, sleep } } as ExecutionContext);
+
+      expect(result.success).toBe(true);
+      expect(sleep).toHaveBeenCalledWith(1000, expect.any(AbortSignal));
+      expect(sleep.mock.calls[0][1].aborted).toBe(true);
+    });
+  });
+
+  describe('journal', () => {
+    const openShort = { type: 'open_short', order: 1, params: { ticker: 'BTC/USDC', size: 50, leverage: 1 } };
+    const spotBuy = { type: 'spot_buy', order: 2, params: { ticker: 'BTC/USDC', amount: 50 } };
+    const mock = { type: 'mock_operation', order: 2, params: { message: 'done', delay: 0 } };
+    const shortPosition = { pair: 'BTC/USDC', amount: '5000', entryPrice: '50000', transactionHash: '0xshort', leverage: 1 };
+
+    const serialize = (...operations: object[]) => JSON.stringify({ formatVersion: 2, operations });
+    const strategyIdOf = (serialized: string) => createHash('sha256').update(serialized).digest('hex');
+
+    /** Journal of a run that died after opening the short */
+    const interruptedAfterShort = (serialized: string, ...inFlight: JournalEntry[]): InMemoryJournal => new InMemoryJournal([
+      { type: 'run_started', runId: 'run-1', strategyId: strategyIdOf(serialized), timestamp: 0 },
+      { type: 'operation_started', runId: 'run-1', index: 0, order: 1, operationType: OperationType.OPEN_SHORT, timestamp: 0 },
+      {
+        type: 'operation_completed',
+        runId: 'run-1',
+        index: 0,
+        result: { ...succeeded(OperationType.OPEN_SHORT, '100000'), transactionHash: '0xshort' },
+        state: { shortPosition },
+        timestamp: 0
+      },
+      ...inFlight
+    ]);
+
+    const createServices = () => {
+      const perpetual = {
+        openShort: vi.fn().mockResolvedValue({ entryPrice: '50000', transactionHash: '0xshort', gasUsed: '100000' }),
+        openLong: vi.fn(),
+        closePosition: vi.fn().mockResolvedValue({ transactionHash: '0xclose', gasUsed: '80000' }),
+        getOpenPosition: vi.fn().mockResolvedValue(null)
+      };
+      const context = {
+        ...createContext(),
+        wallet: { address: '0xabc', signTransaction: vi.fn(), getBalance: vi.fn() },
+        getPerpetualService: () => perpetual
+      } as unknown as ExecutionContext;
+      return { context, perpetual };
+    };
+
+    it('should journal a run from start to finish', async () => {
+      const journal = new InMemoryJournal();
+      const serialized = serialize(openShort);
+      const executor = new StrategyExecutor({ journal });
+      executor.initialize(serialized);
+
+      const result = await executor.execute(createServices().context);
+
+      expect(result.success).toBe(true);
+      expect(result.recovery).toBeUndefined();
+      expect(journal.read().map(entry => entry.type)).toEqual([
+        'run_started',
+        'operation_started',
+        'transaction_requested',
+        'transaction_submitted',
+        'operation_completed',
+        'run_finished'
+      ]);
+      expect(journal.read()[0]).toMatchObject({ strategyId: strategyIdOf(serialized) });
+    });
+
+    it('should resume an interrupted run after its last completed operation', async () => {
+      const serialized = serialize(openShort, mock);
+      const journal = interruptedAfterShort(serialized);
+      const { context, perpetual } = createServices();
+      const executor = new StrategyExecutor({ journal });
+      executor.initialize(serialized);
+
+      const result = await executor.execute(context);
+
+      expect(result.success).toBe(true);
+      expect(perpetual.openShort).not.toHaveBeenCalled();
+      expect(context.state.get('shortPosition')).toEqual(shortPosition);
+      expect(result.operationResults.map(r => r.operationType)).toEqual([OperationType.OPEN_SHORT, OperationType.MOCK_OPERATION]);
+      expect(result.totalGasUsed).toBe('100000');
+      expect(result.recovery).toEqual({ runId: 'run-1', action: 'resumed', resumedFromOrder: 2, closedPositions: [], unreconciledTransactions: [] });
+      expect(journal.read().slice(3).map(entry => entry.type)).toEqual(['run_resumed', 'operation_started', 'operation_completed', 'run_finished']);
+    });
+
+    it('should run an interrupted operation again when its writes did not execute', async () => {
+      const serialized = serialize(mock, { ...openShort, order: 2 });
+      const journal = new InMemoryJournal([
+        { type: 'run_started', runId: 'run-1', strategyId: strategyIdOf(serialized), timestamp: 0 },
+        { type: 'operation_started', runId: 'run-1', index: 0, order: 1, operationType: OperationType.MOCK_OPERATION, timestamp: 0 },
+        { type: 'operation_completed', runId: 'run-1', index: 0, result: succeeded(OperationType.MOCK_OPERATION), state: {}, timestamp: 0 },
+        { type: 'operation_started', runId: 'run-1', index: 1, order: 2, operationType: OperationType.OPEN_SHORT, timestamp: 0 },
+        { type: 'transaction_requested', runId: 'run-1', index: 1, service: 'perpetual', method: 'openShort', params: { pair: 'BTC/USDC' }, timestamp: 0 }
+      ]);
+      const { context, perpetual } = createServices();
+      const executor = new StrategyExecutor({ journal });
+      executor.initialize(serialized);
+
+      const result = await executor.execute(context);
+
+      expect(perpetual.getOpenPosition).toHaveBeenCalledWith({ pair: 'BTC/USDC', side: 'short', wallet: context.wallet });
+      expect(perpetual.openShort).toHaveBeenCalledTimes(1);
+      expect(result.success).toBe(true);
+      expect(result.recovery?.resumedFromOrder).toBe(2);
+    });
+
+    it('should run again only the operations of an interrupted run that did not complete', async () => {
+      const serialized = serialize(openShort, { ...mock, order: 1 });
+      const journal = new InMemoryJournal([
+        { type: 'run_started', runId: 'run-1', strategyId: strategyIdOf(serialized), timestamp: 0 },
+        { type: 'operation_started', runId: 'run-1', index: 0, order: 1, operationType: OperationType.OPEN_SHORT, timestamp: 0 },
+        { type: 'operation_started', runId: 'run-1', index: 1, order: 1, operationType: OperationType.MOCK_OPERATION, timestamp: 0 },
+        { type: 'transaction_requested', runId: 'run-1', index: 0, service: 'perpetual', method: 'openShort', params: { pair: 'BTC/USDC' }, timestamp: 0 },
+        { type: 'operation_completed', runId: 'run-1', index: 1, result: succeeded(OperationType.MOCK_OPERATION), state: {}, timestamp: 0 }
+      ]);
+      const { context, perpetual } = createServices();
+      const executor = new StrategyExecutor({ journal });
+      executor.initialize(serialized);
+
+      const result = await executor.execute(context);
+
+      expect(result.success).toBe(true);
+      expect(perpetual.openShort).toHaveBeenCalledTimes(1);
+      expect(result.operationResults.map(r => r.operationType)).toEqual([OperationType.MOCK_OPERATION, OperationType.OPEN_SHORT]);
+      expect(result.recovery?.resumedFromOrder).toBe(1);
+      expect(journal.read().slice(5).filter(entry => entry.type === 'operation_started')).toMatchObject([{ index: 0 }]);
+    });
+
+    it('should unwind when the interrupted operation opened a position', async () => {
+      const serialized = serialize(mock, { ...openShort, order: 2 });
+      const journal = new InMemoryJournal([
+        { type: 'run_started', runId: 'run-1', strategyId: strategyIdOf(serialized), timestamp: 0 },
+        { type: 'operation_started', runId: 'run-1', index: 1, order: 2, operationType: OperationType.OPEN_SHORT, timestamp: 0 },
+        { type: 'transaction_requested', runId: 'run-1', index: 1, service: 'perpetual', method: 'openShort', params: { pair: 'BTC/USDC' }, timestamp: 0 }
+      ]);
+      const { context, perpetual } = createServices();
+      perpetual.getOpenPosition.mockResolvedValue({ ...shortPosition, side: 'short' });
+      const executor = new StrategyExecutor({ journal });
+      executor.initialize(serialized);
+
+      const result = await executor.execute(context);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toEqual({ code: 'RUN_UNWOUND', message: 'An interrupted run was unwound', recoverable: true });
+      expect(perpetual.openShort).not.toHaveBeenCalled();
+      expect(perpetual.closePosition).toHaveBeenCalledWith({ ...shortPosition, side: 'short' });
+      expect(result.recovery?.closedPositions).toEqual([{ pair: 'BTC/USDC', side: 'short', transactionHash: '0xclose' }]);
+      expect(journal.read().at(-1)).toMatchObject({ type: 'run_finished', outcome: 'unwound' });
+    });
+
+    it('should roll back completed operations and report writes the chain cannot confirm', async () => {
+      const serialized = serialize(openShort, spotBuy);
+      const journal = interruptedAfterShort(
+        serialized,
+        { type: 'operation_started', runId: 'run-1', index: 1, order: 2, operationType: OperationType.SPOT_BUY, timestamp: 0 },
+        { type: 'transaction_requested', runId: 'run-1', index: 1, service: 'oneInch', method: 'executeFusionSwap', params: { asset: 'BTC' }, timestamp: 0 }
+      );
+      const { context, perpetual } = createServices();
+      const executor = new StrategyExecutor({ journal });
+      executor.initialize(serialized);
+
+      const result = await executor.execute(context);
+
+      expect(result.error?.code).toBe('RUN_UNWOUND');
+      expect(perpetual.closePosition).toHaveBeenCalledWith(shortPosition);
+      expect(result.recovery?.unreconciledTransactions).toEqual([
+        { operationType: OperationType.SPOT_BUY, order: 2, service: 'oneInch', method: 'executeFusionSwap', transactionHash: undefined }
+      ]);
+      expect(journal.read().map(entry => entry.type)).toContain('operation_rolled_back');
+    });
+
+    it('should unwind instead of resuming when configured to', async () => {
+      const serialized = serialize(openShort, mock);
+      const { context, perpetual } = createServices();
+      const executor = new StrategyExecutor({ journal: interruptedAfterShort(serialized), onIncompleteRun: 'unwind' });
+      executor.initialize(serialized);
+
+      const result = await executor.execute(context);
+
+      expect(result.recovery?.action).toBe('unwound');
+      expect(perpetual.closePosition).toHaveBeenCalledWith(shortPosition);
+    });
+
+    it('should not journal dry runs', async () => {
+      const journal = new InMemoryJournal();
+      const executor = new StrategyExecutor({ journal, dryRun: true });
+      executor.initialize(serialize(mock));
+
+      await executor.execute(createServices().context);
+
+      expect(journal.read()).toEqual([]);
+    });
+  });
+
+  describe('dry run', () => {
+    it('should run the strategy without sending transactions', async () => {
+      const openShort = vi.fn();
+      const executor = new StrategyExecutor({ dryRun: true });
+      executor.initialize(JSON.stringify({
+        formatVersion: 2,
+        operations: [
+          { type: 'open_short', order: 1, params: { ticker: 'BTC/USDC', size: 50, leverage: 2 } }
+        ]
+      }));
+      const context = {
+        ...createContext(),
+        wallet: { address: '0xabc', signTransaction: vi.fn(), getBalance: vi.fn() },
+        getPriceService: () => ({ getPrice: vi.fn().mockResolvedValue('50000') }),
+        getPerpetualService: () => ({ openShort, openLong: vi.fn(), closePosition: vi.fn() })
+      } as unknown as ExecutionContext;
+
+      const result = await executor.execute(context);
+
+      expect(result.success).toBe(true);
+      expect(result.dryRun).toBe(true);
+      expect(openShort).not.toHaveBeenCalled();
+      expect(result.totalGasUsed).toBe('100000');
+      expect(result.operationResults[0].data).toMatchObject({ entryPrice: '50000' });
+      expect(result.simulatedTransactions).toEqual([
+        { service: 'perpetual', method: 'openShort', params: expect.objectContaining({ pair: 'BTC/USDC', leverage: 2 }), estimatedGas: '100000' }
+      ]);
+    });
+
+    it('should not report simulated transactions for live runs', async () => {
+      const executor = new StrategyExecutor();
+      executor.load([createOperation(1, succeeded(OperationType.MOCK_OPERATION))]);
+
+      const result = await executor.execute(createContext());
+
+      expect(result.dryRun).toBeUndefined();
+      expect(result.simulatedTransactions).toBeUndefined();
+    });
+  });
+
+  describe('tracing', () => {
+    const tracedContext = (openShort = vi.fn().mockResolvedValue({ entryPrice: '50000', transactionHash: '0xshort' })) => ({
+      ...createContext(),
+      clock: { now: () => 0, sleep: vi.fn().mockResolvedValue(undefined) },
+      getPerpetualService: () => ({ openShort, openLong: vi.fn(), closePosition: vi.fn() })
+    }) as unknown as ExecutionContext;
+
+    const openingShort = (order: number) => ({
+      ...createOperation(order, succeeded(OperationType.OPEN_SHORT, '100')),
+      execute: vi.fn(async (context: ExecutionContext) => {
+        const { transactionHash } = await context.getPerpetualService().openShort({
+          pair: 'BTC/USDC',
+          amount: '500',
+          leverage: 2,
+          wallet: context.wallet
+        });
+        return { ...succeeded(OperationType.OPEN_SHORT, '100'), transactionHash };
+      })
+    });
+
+    it('should trace the strategy, its operations and their service calls', async () => {
+      const executor = new StrategyExecutor();
+      executor.load([openingShort(1), createOperation(2, succeeded(OperationType.SPOT_BUY, '50'))]);
+
+      const result = await executor.execute(tracedContext());
+
+      expect(result.trace?.spans).toEqual([
+        expect.objectContaining({ spanId: '1', name: 'strategy', kind: 'strategy', status: 'ok', attributes: { operations: 2 } }),
+        expect.objectContaining({
+          spanId: '2',
+          parentId: '1',
+          name: 'open_short',
+          kind: 'operation',
+          status: 'ok',
+          attributes: { operationType: 'open_short', order: 1, gasUsed: '100' }
+        }),
+        expect.objectContaining({
+          parentId: '2',
+          name: 'perpetual.openShort',
+          kind: 'service_call',
+          status: 'ok',
+          attributes: { service: 'perpetual', method: 'openShort', transactionHash: '0xshort' }
+        }),
+        expect.objectContaining({ parentId: '1', name: 'spot_buy', kind: 'operation', status: 'ok' })
+      ]);
+    });
+
+    it('should record retries, failures and rollbacks without the strategy parameters', async () => {
+      const first = openingShort(1);
+      const second = { ...createOperation(2, failed(OperationType.CHECK_FUNDING_RATE)), idempotent: true, retry: { maxAttempts: 2, jitter: 0 } };
+      const executor = new StrategyExecutor();
+      executor.load([first, second]);
+
+      const result = await executor.execute(tracedContext());
+      const spans = result.trace!.spans;
+
+      expect(spans[0]).toMatchObject({ status: 'error', attributes: { code: 'FUNDING_RATE_CHECK_FAILED' } });
+      expect(spans.find(span => span.name === 'check_funding_rate')).toMatchObject({
+        status: 'error',
+        attributes: { code: 'FUNDING_RATE_CHECK_FAILED', attempts: 2 },
+        events: [{ name: 'Retrying operation', level: 'warn', attributes: { attempt: 2, delayMs: 1000 } }]
+      });
+      expect(spans.find(span => span.kind === 'rollback')).toMatchObject({ name: 'open_short', parentId: '1', status: 'ok' });
+      expect(JSON.stringify(result.trace)).not.toContain('BTC/USDC');
+    });
+
+    it('should trace nested executors in the enclosing trace', async () => {
+      const nested = new StrategyExecutor();
+      nested.load([openingShort(1)]);
+      const conditional = {
+        ...createOperation(1, succeeded(OperationType.CONDITIONAL)),
+        execute: vi.fn(async (context: ExecutionContext) => {
+          const branch = await nested.execute(context);
+          expect(branch.trace).toBeUndefined();
+          return succeeded(OperationType.CONDITIONAL);
+        })
+      };
+      const executor = new StrategyExecutor();
+      executor.load([conditional]);
+
+      const result = await executor.execute(tracedContext());
+
+      expect(result.trace?.spans.map(span => [span.name, span.parentId])).toEqual([
+        ['strategy', undefined],
+        ['conditional', '1'],
+        ['open_short', '2'],
+        ['perpetual.openShort', '3']
+      ]);
+    });
+  });
+
+  describe('initialize', () => {
+    it('should carry the optional flag from the serialized strategy', async () => {
+      const executor = new StrategyExecutor();
+      executor.initialize(JSON.stringify({
+        formatVersion: 2,
+        operations: [
+          { type: 'check_price', order: 1, params: { ticker: 'BTC/USDC', operator: 'gt', targetPrice: 1 }, optional: true },
+          { type: 'mock_operation', order: 2, params: { message: 'done', delay: 0 } }
+        ]
+      }));
+      const context = {
+        ...createContext(),
+        getPriceService: () => ({ getPrice: vi.fn().mockRejectedValue(new Error('Oracle down')) })
+      } as unknown as ExecutionContext;
+
+      const result = await executor.execute(context);
+
+      expect(result.success).toBe(true);
+      expect(result.operationResults.map(r => r.success)).toEqual([false, true]);
+      expect(result.softFailures.map(f => f.operationType)).toEqual([OperationType.CHECK_PRICE]);
+    });
+
+    it('should resolve references to earlier results at execution time', async () => {
+      const executor = new StrategyExecutor();
+      executor.initialize(JSON.stringify({
+        formatVersion: 2,
+        operations: [
+          { type: 'check_price', order: 1, params: { ticker: 'BTC/USDC', operator: 'gt', targetPrice: 1 }, label: 'btcPrice' },
+          { type: 'check_price', order: 2, params: { ticker: 'BTC/USDC', operator: 'gte', targetPrice: { $ref: 'btcPrice.price' } } }
+        ]
+      }));
+      const context = {
+        ...createContext(),
+        getPriceService: () => ({ getPrice: vi.fn().mockResolvedValue('50000') })
+      } as unknown as ExecutionContext;
+
+      const result = await executor.execute(context);
+
+      expect(result.success).toBe(true);
+      expect(result.operationResults[1].data).toMatchObject({ targetPrice: '50000', conditionMet: true });
+    });
+  });
+});
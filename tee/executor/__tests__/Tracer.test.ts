@@ -0,0 +1,176 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { keccak256 } from 'ethers';
+import { Tracer, getLogger, redactTrace, traceService, LogLevel } from '../Tracer';
+
+function createClock(start = 1000) {
+  let time = start;
+  return {
+    now: () => time,
+    sleep: vi.fn(),
+    advance: (ms: number) => {
+      time += ms;
+    }
+  };
+}
+
+function createTracer(clock = createClock()) {
+  const lines: { line: string; level: LogLevel }[] = [];
+  const tracer = new Tracer({ clock, sink: (line, level) => lines.push({ line, level }), traceId: 'trace-1' });
+  return { tracer, lines, clock };
+}
+
+describe('Tracer', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should record nested spans with their times, status and attributes', () => {
+    const { tracer, clock } = createTracer();
+
+    const root = tracer.startSpan('strategy', 'strategy', { operations: 1, dryRun: undefined });
+    clock.advance(10);
+    const span = root.startChild('open_short', 'operation', { order: 1 });
+    clock.advance(25);
+    span.end('error', { code: 'OPEN_SHORT_FAILED' });
+    root.end('error');
+
+    expect(tracer.toTrace()).toEqual({
+      traceId: 'trace-1',
+      spans: [
+        { spanId: '1', name: 'strategy', kind: 'strategy', startTime: 1000, endTime: 1035, status: 'error', attributes: { operations: 1 }, events: [] },
+        {
+          spanId: '2',
+          parentId: '1',
+          name: 'open_short',
+          kind: 'operation',
+          startTime: 1010,
+          endTime: 1035,
+          status: 'error',
+          attributes: { order: 1, code: 'OPEN_SHORT_FAILED' },
+          events: []
+        }
+      ]
+    });
+  });
+
+  it('should keep the first outcome of a span ended twice', () => {
+    const { tracer, clock } = createTracer();
+
+    const span = tracer.startSpan('wait', 'operation');
+    span.end('ok');
+    clock.advance(5);
+    span.end('error', { code: 'TIMEOUT' });
+
+    expect(tracer.toTrace().spans[0]).toMatchObject({ status: 'ok', endTime: 1000, attributes: {} });
+  });
+
+  it('should write log lines as JSON tagged with their trace and span', () => {
+    const { tracer, lines } = createTracer();
+
+    const span = tracer.startSpan('spot_buy', 'operation');
+    span.logger('SpotBuy').error('Spot buy failed', { code: 'SPOT_BUY_FAILED', error: 'Quote unavailable' });
+
+    expect(lines).toHaveLength(1);
+    expect(lines[0].level).toBe('error');
+    expect(JSON.parse(lines[0].line)).toEqual({
+      time: 1000,
+      level: 'error',
+      component: 'SpotBuy',
+      message: 'Spot buy failed',
+      traceId: 'trace-1',
+      spanId: '1',
+      attributes: { code: 'SPOT_BUY_FAILED', error: 'Quote unavailable' }
+    });
+    expect(tracer.toTrace().spans[0].events).toEqual([
+      { name: 'Spot buy failed', level: 'error', time: 1000, attributes: { code: 'SPOT_BUY_FAILED', error: 'Quote unavailable' } }
+    ]);
+  });
+
+  describe('getLogger', () => {
+    it('should log on the span of a traced context', () => {
+      const { tracer, lines } = createTracer();
+      const span = tracer.startSpan('wait', 'operation');
+
+      getLogger('Wait', { span }).info('Condition met', { checks: 2 });
+
+      expect(JSON.parse(lines[0].line)).toMatchObject({ component: 'Wait', spanId: '1', message: 'Condition met' });
+      expect(tracer.toTrace().spans[0].events).toHaveLength(1);
+    });
+
+    it('should write standalone lines without a traced context', () => {
+      const log = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+
+      getLogger('TEE', { clock: createClock(42) }).info('Input parsed', { dryRun: false });
+
+      expect(JSON.parse(log.mock.calls[0][0])).toEqual({
+        time: 42,
+        level: 'info',
+        component: 'TEE',
+        message: 'Input parsed',
+        attributes: { dryRun: false }
+      });
+    });
+  });
+
+  describe('traceService', () => {
+    it('should record each call as a service call span with its transaction hash', async () => {
+      const { tracer } = createTracer();
+      const span = tracer.startSpan('open_short', 'operation');
+      const service = {
+        openShort: vi.fn().mockResolvedValue({ entryPrice: '50000', transactionHash: '0xshort' }),
+        closePosition: vi.fn().mockRejectedValue(new Error('Reverted'))
+      };
+
+      const traced = traceService(service, 'perpetual', span);
+      await traced.openShort({ pair: 'BTC/USDC' });
+      await expect(traced.closePosition({})).rejects.toThrow('Reverted');
+
+      expect(service.openShort).toHaveBeenCalledWith({ pair: 'BTC/USDC' });
+      expect(tracer.toTrace().spans.slice(1)).toMatchObject([
+        { name: 'perpetual.openShort', kind: 'service_call', parentId: '1', status: 'ok', attributes: { service: 'perpetual', method: 'openShort', transactionHash: '0xshort' } },
+        { name: 'perpetual.closePosition', kind: 'service_call', parentId: '1', status: 'error', attributes: { service: 'perpetual', method: 'closePosition' } }
+      ]);
+    });
+
+    it('should record the hash of a signed transaction, not the transaction', async () => {
+      const { tracer } = createTracer();
+      const span = tracer.startSpan('spot_buy', 'operation');
+      const signed = '0x02f86c827a6980843b9aca00';
+      const wallet = { address: '0xabc', signTransaction: vi.fn().mockResolvedValue(signed) };
+
+      await expect(traceService(wallet, 'wallet', span).signTransaction({ to: '0xdef' })).resolves.toBe(signed);
+
+      expect(tracer.toTrace().spans[1].attributes).toEqual({ service: 'wallet', method: 'signTransaction', transactionHash: keccak256(signed) });
+    });
+
+    it('should record calls of a service traced again only in the innermost span', async () => {
+      const { tracer } = createTracer();
+      const outer = tracer.startSpan('conditional', 'operation');
+      const inner = outer.startChild('check_price', 'operation');
+      const service = { getPrice: vi.fn().mockResolvedValue('50000') };
+
+      await traceService(traceService(service, 'price', outer), 'price', inner).getPrice('BTC/USD');
+
+      const calls = tracer.toTrace().spans.filter(span => span.kind === 'service_call');
+      expect(calls).toHaveLength(1);
+      expect(calls[0].parentId).toBe('2');
+    });
+  });
+
+  describe('redactTrace', () => {
+    it('should keep only allowed attributes and warning or error events', () => {
+      const { tracer } = createTracer();
+      const span = tracer.startSpan('spot_buy', 'operation', { order: 2, asset: 'BTC' });
+      span.info('Executing spot buy', { capitalAmount: '500' });
+      span.warn('Retrying operation', { attempt: 2, delayMs: 1000, pair: 'BTC/USDC' });
+      span.end('ok', { gasUsed: '150000', targetPrice: '50000' });
+
+      const [redacted] = redactTrace(tracer.toTrace()).spans;
+
+      expect(redacted.attributes).toEqual({ order: 2, gasUsed: '150000' });
+      expect(redacted.events).toEqual([
+        { name: 'Retrying operation', level: 'warn', time: 1000, attributes: { attempt: 2, delayMs: 1000 } }
+      ]);
+    });
+  });
+});
@@ -5,12 +5,97 @@
  * the strategy executor to orchestrate operation execution.
  */
 
-export {
+export type {
   ExecutionContext,
   StrategyConfig,
   NetworkConfig,
+  SpotFailoverPolicy,
   SecureWallet,
+  WalletTransaction,
+  TypedDataDomain,
+  TypedDataField,
+  ReceiptLog,
+  TransactionReceipt,
+  SendTransactionOptions,
+  TransactionManager,
+  Clock,
   DexService,
   PerpetualService,
+  PriceService,
+  FeeService,
   OneInchService
 } from './ExecutionContext';
+export {
+  ExecutionState,
+  StateError
+} from './ExecutionState';
+export type {
+  StateValues,
+  StateSnapshot,
+  ProfitabilityDetails,
+  PriceCheck,
+  VenueLiquidity,
+  LiquidityCheck,
+  PositionState,
+  SpotHolding,
+  SpotSale,
+  PositionStatus
+} from './ExecutionState';
+export { systemClock, pollUntil } from './Clock';
+export { ResultReferenceResolver } from './ResultReferenceResolver';
+export {
+  SIMULATED_TRANSACTION_HASH,
+  SIMULATED_GAS_UNITS,
+  createDryRunContext
+} from './DryRun';
+export type {
+  SimulatedTransaction,
+  DryRunContext
+} from './DryRun';
+export { DEFAULT_RETRY_POLICY, isRetryable, getRetryDelay } from './RetryPolicy';
+export {
+  InMemoryJournal,
+  FileJournal,
+  findIncompleteRun
+} from './ExecutionJournal';
+export type {
+  JournalEntry,
+  JournaledService,
+  JournaledWrite,
+  ExecutionJournal,
+  IncompleteRun,
+  InFlightOperation
+} from './ExecutionJournal';
+export { JournaledOperation } from './JournaledOperation';
+export {
+  reconcileWrites,
+  closeReconciledPositions
+} from './Recovery';
+export type {
+  WriteStatus,
+  ReconciledWrite,
+  RecoveryReport
+} from './Recovery';
+export {
+  TRACE_ATTRIBUTES,
+  consoleSink,
+  Tracer,
+  Span,
+  getLogger,
+  startSpan,
+  describeError,
+  traceService,
+  traceContext,
+  redactTrace
+} from './Tracer';
+export type {
+  SpanKind,
+  SpanStatus,
+  LogLevel,
+  TraceAttributes,
+  SpanEvent,
+  SpanRecord,
+  ExecutionTrace,
+  LogSink,
+  Logger
+} from './Tracer';
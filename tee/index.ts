@@ -13,6 +13,11 @@
  * - `IEXEC_DATASET_ADDRESS`: Address of the protected data (encrypted strategy)
  * - `IEXEC_IN`: Path to input file containing user configuration
  * - `IEXEC_OUT`: Path to output file for execution results
+ * - `TEE_JOURNAL_PATH`: Path of the execution journal on sealed storage (optional)
+ * - `IEXEC_APP_DEVELOPER_SECRET`: Private key of the wallet, when the input
+ *   names no requester secret
+ * - `IEXEC_REQUESTER_SECRET_<n>`: Private key of the wallet, when the input
+ *   sets `wallet.requesterSecretIndex` to `n`
  * 
  * **Input File Structure (JSON):**
  * ```json
@@ -25,17 +30,35 @@
  *     "capitalAllocation": "1000"
  *   },
  *   "wallet": {
- *     "address": "0x...",
- *     // Secure wallet credentials managed by TEE
+ *     "address": "0x...",         // Address the wallet key controls
+ *     "requesterSecretIndex": 1   // Optional: key in a requester secret (default: app secret)
  *   },
  *   "network": {
  *     "chainId": 8453,
  *     "rpcUrl": "https://mainnet.base.org",
+ *     "confirmations": 2,         // Optional: blocks before a transaction is final (default: 1)
+ *     "fusionApiUrl": "https://...",  // Optional: 1inch API, or a proxy adding the API key
+ *     "spotFailover": {               // Optional: when spot buys fall back to Uniswap V3
+ *       "fusionEnabled": true,        //   false: every spot buy goes through Uniswap V3
+ *       "onQuoteUnavailable": true,   //   fail over when Fusion has no quote
+ *       "onOrderExpired": true        //   fail over when a market order expires unfilled
+ *     },
  *     "contracts": {
- *       "oneInchFusion": "0x...",
- *       "perpetualDex": "0x..."
+ *       "oneInchFusion": "0x...",           // Optional: Limit Order Protocol (default: v4)
+ *       "perpetualDex": "0x...",           // Avantis Trading
+ *       "avantisTradingStorage": "0x...",
+ *       "avantisPairInfos": "0x...",
+ *       "avantisPositionPredicate": "0x...", // Optional: makes hedging spot buys wait for the short
+ *       "uniswapV3Router": "0x...",         // Optional: SwapRouter02, the fallback spot route
+ *       "uniswapV3Quoter": "0x..."          // Optional: QuoterV2 (default: Base deployment)
+ *     },
+ *     "tokens": {
+ *       "USDC": { "address": "0x...", "decimals": 6 },   // Perpetual collateral and spot quote
+ *       "WETH": { "address": "0x...", "decimals": 18 }   // Spot assets
  *     }
- *   }
+ *   },
+ *   "dryRun": false,              // Optional: preview without sending transactions
+ *   "timeBudgetMs": 300000        // Optional: iExec task time budget (default: 5 minutes)
  * }
  * ```
  * 
@@ -55,11 +78,15 @@
  *     }
  *   ],
  *   "totalGasUsed": "123456",
+ *   "softFailures": [],
  *   "startTime": 1234567890,
  *   "endTime": 1234567900
  * }
  * ```
  * 
+ * Optional operations that fail do not stop the strategy; each one is listed
+ * in `softFailures` with its `operationType`, `order` and sanitized `error`.
+ * 
  * **Failure Response:**
  * ```json
  * {
@@ -76,12 +103,52 @@
  * }
  * ```
  * 
+ * When the input sets `dryRun`, every operation runs against live market data
+ * but no transaction is sent. The output then carries `"dryRun": true` and a
+ * `simulatedTransactions` list of the writes a real run would send, each with
+ * its `service`, `method`, `params` and `estimatedGas`.
+ * 
+ * When `TEE_JOURNAL_PATH` points to storage sealed to the enclave, every run is
+ * journaled there. A run interrupted by a crash is then resumed or unwound by
+ * the next run of the same strategy, and the output carries a `recovery` report.
+ * 
+ * Every execution is traced. The output carries a `trace` with a span per
+ * operation, service call and rollback (start and end times, outcome, retries
+ * and timeouts), redacted down to error codes, transaction hashes and gas so
+ * it does not reveal the strategy's parameters. Log lines are written to
+ * stdout and stderr as JSON documents tagged with their `traceId` and `spanId`.
+ *
+ * Operations must finish `SHUTDOWN_RESERVE_MS` before the end of the task's
+ * time budget. The operation still running at that deadline is cancelled and
+ * the strategy fails with the error code `TIMEOUT`; the reserve is left for
+ * rolling back and writing `computed.json`.
+ * 
+ * A strategy serialized with a `formatVersion` this TEE cannot migrate fails
+ * with the error code `UNSUPPORTED_FORMAT_VERSION` before any operation runs.
+ * A wallet key secret that is missing, malformed or controls another address
+ * than `wallet.address` fails with `WALLET_KEY_UNAVAILABLE`.
+ * 
+ * ## Describing the TEE Build
+ * 
+ * An input of `{ "describe": true }` runs no strategy. The output is instead
+ * the manifest of the operations this build supports (see OperationRegistry),
+ * which the frontend checks strategies against with `checkManifestSupport`:
+ * 
+ * ```json
+ * {
+ *   "formatVersion": 2,
+ *   "operations": [
+ *     { "type": "wait", "params": { "duration": { "kind": "number", "required": true, "min": 0 } } }
+ *   ]
+ * }
+ * ```
+ * 
  * ## Execution Flow
  * 
  * 1. **Read Input**: Parse input from `IEXEC_IN` file
  * 2. **Initialize Executor**: Create StrategyExecutor with serialized operations
  * 3. **Create Context**: Build ExecutionContext with config, wallet, and services
- * 4. **Execute Strategy**: Run operations sequentially in the TEE
+ * 4. **Execute Strategy**: Run operations along their dependencies in the TEE
  * 5. **Write Output**: Write results to `IEXEC_OUT` file
  * 6. **Exit**: Return appropriate exit code (0 for success, 1 for failure)
  * 
@@ -90,7 +157,7 @@
  * - All strategy operations remain encrypted until execution in TEE
  * - Operation logic and parameters never leave the TEE
  * - Only sanitized results and transaction hashes are returned
- * - Private keys are managed securely within the TEE
+ * - The wallet key is read from an iExec secret and never logged or returned
  * - All errors are sanitized to prevent strategy logic exposure
  * 
  * @module tee/index
@@ -99,7 +166,37 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { StrategyExecutor } from './executor/StrategyExecutor';
-import { ExecutionContext, StrategyConfig, NetworkConfig, SecureWallet } from './executor/ExecutionContext';
+import { ExecutionContext, StrategyConfig, NetworkConfig } from './executor/ExecutionContext';
+import { ExecutionState } from './executor/ExecutionState';
+import { StrategyFormatError, migrateStrategy } from './schema/migrations';
+import { SerializedStrategy } from './schema/operationSchema';
+import { createFetchTransport } from './schema/feeEstimation';
+import { EnclaveWallet, WalletKeyError } from './services/EnclaveWallet';
+import { RpcTransactionManager } from './services/TransactionManager';
+import { RpcFeeService } from './services/FeeService';
+import { AvantisPerpetualService } from './services/AvantisPerpetualService';
+import { DEFAULT_FUSION_API_URL, FusionOneInchService, createFusionFetchTransport } from './services/FusionOneInchService';
+import { UniswapV3SpotService } from './services/UniswapV3SpotService';
+import { FileJournal } from './executor/ExecutionJournal';
+import { describeError, getLogger } from './executor/Tracer';
+import { operationRegistry } from './operations/OperationRegistry';
+
+/**
+ * Time budget of an iExec task when the input does not give one
+ * (category 0, the smallest iExec task category)
+ */
+const DEFAULT_TIME_BUDGET_MS = 5 * 60 * 1000;
+
+/**
+ * Part of the time budget kept free at the end of execution for rolling back
+ * and writing the task output
+ */
+const SHUTDOWN_RESERVE_MS = 60 * 1000;
+
+/**
+ * Logger for the task lifecycle; the executor traces the execution itself
+ */
+const log = getLogger('TEE');
 
 /**
  * Input structure received from iExec.
@@ -112,14 +209,26 @@ interface TEEInput {
   /** User-provided configuration for strategy execution */
   config: StrategyConfig;
   
-  /** Secure wallet information (managed by TEE) */
+  /** Secure wallet information (the key itself is an iExec secret) */
   wallet: {
+    /** Address the wallet key controls */
     address: string;
-    // Additional wallet credentials managed securely by TEE
+    
+    /** Index of the requester secret holding the key (default: the app developer secret) */
+    requesterSecretIndex?: number;
   };
   
   /** Network configuration for blockchain interactions */
   network: NetworkConfig;
+  
+  /** Preview the strategy without sending transactions (default: false) */
+  dryRun?: boolean;
+  
+  /** Time budget of the iExec task in milliseconds (default: DEFAULT_TIME_BUDGET_MS) */
+  timeBudgetMs?: number;
+  
+  /** Report the operations this build supports instead of running a strategy */
+  describe?: boolean;
 }
 
 /**
@@ -139,6 +248,9 @@ interface TEEInput {
  * @throws Never throws - all errors are caught and written to output
  */
 async function main(): Promise<void> {
+  // The time budget runs from the start of the task
+  const taskStartTime = Date.now();
+  
   try {
     // Read input file path from environment variable
     // iExec provides this path when launching the TEE container
@@ -150,60 +262,79 @@ async function main(): Promise<void> {
       ? `${process.env.IEXEC_OUT}/computed.json`
       : '/iexec_out/computed.json';
     
-    console.log('[TEE] Starting strategy execution...');
-    console.log('[TEE] Input path:', inputPath);
-    console.log('[TEE] Output path:', outputPath);
+    log.info('Starting strategy execution', { inputPath, outputPath });
     
     // Read and parse input data
     const input = readInput(inputPath);
-    console.log('[TEE] Input parsed successfully');
-    console.log('[TEE] Execution mode:', input.config.executionMode);
-    console.log('[TEE] Capital allocation:', input.config.capitalAllocation);
+    
+    // Describe requests only report what this build can execute
+    if (input.describe) {
+      writeOutput(outputPath, operationRegistry.describe());
+      log.info('Operation manifest written to output file');
+      process.exit(0);
+    }
+    
+    log.info('Input parsed', {
+      executionMode: input.config.executionMode,
+      capitalAllocation: input.config.capitalAllocation,
+      dryRun: input.dryRun === true
+    });
     
     // Initialize the strategy executor with serialized operations
-    const executor = new StrategyExecutor();
+    // Journal runs when sealed storage is available, so crashed runs can be recovered
+    const journalPath = process.env.TEE_JOURNAL_PATH;
+    const executor = new StrategyExecutor({
+      dryRun: input.dryRun === true,
+      journal: journalPath ? new FileJournal(journalPath) : undefined
+    });
     executor.initialize(input.serializedStrategy);
-    console.log('[TEE] StrategyExecutor initialized');
+    log.info('StrategyExecutor initialized');
     
     // Create execution context with wallet, config, and services
-    const context = createExecutionContext(input);
-    console.log('[TEE] ExecutionContext created');
-    console.log('[TEE] Network:', input.network.chainId);
-    console.log('[TEE] Wallet:', input.wallet.address);
+    const context = await createExecutionContext(input, taskStartTime);
+    log.info('ExecutionContext created', { chainId: input.network.chainId, wallet: input.wallet.address });
     
     // Execute the strategy
-    console.log('[TEE] Executing strategy...');
+    log.info('Executing strategy');
     const result = await executor.execute(context);
-    console.log('[TEE] Strategy execution completed');
-    console.log('[TEE] Success:', result.success);
-    console.log('[TEE] Operations executed:', result.operationResults.length);
-    console.log('[TEE] Total gas used:', result.totalGasUsed);
+    log.info('Strategy execution completed', {
+      success: result.success,
+      operations: result.operationResults.length,
+      totalGasUsed: result.totalGasUsed,
+      traceId: result.trace?.traceId
+    });
     
     // Write results to output file
-    writeOutput(outputPath, result);
-    console.log('[TEE] Results written to output file');
+    // The execution state holds the thresholds the strategy compared against; it stays in the enclave
+    const { state, ...output } = result;
+    writeOutput(outputPath, output);
+    log.info('Results written to output file');
     
     // Exit with appropriate code
     // 0 = success, 1 = failure
     const exitCode = result.success ? 0 : 1;
-    console.log('[TEE] Exiting with code:', exitCode);
+    log.info('Exiting', { exitCode });
     process.exit(exitCode);
     
   } catch (error) {
     // Catch any unexpected errors during execution
     // This ensures we always write a result, even if something goes wrong
-    console.error('[TEE] Fatal error during execution:', error);
+    log.error('Fatal error during execution', { error: describeError(error) });
     
     // Create error result
+    // Strategies serialized in a format this TEE cannot migrate and unusable wallet keys get a dedicated code
     const errorResult = {
       success: false,
       operationResults: [],
       totalGasUsed: '0',
-      error: {
-        code: 'FATAL_ERROR',
-        message: 'An unexpected error occurred during strategy execution',
-        recoverable: false
-      },
+      error: error instanceof StrategyFormatError || error instanceof WalletKeyError
+        ? { code: error.code, message: error.message, recoverable: false }
+        : {
+          code: 'FATAL_ERROR',
+          message: 'An unexpected error occurred during strategy execution',
+          recoverable: false
+        },
+      softFailures: [],
       startTime: Date.now(),
       endTime: Date.now()
     };
@@ -212,9 +343,9 @@ async function main(): Promise<void> {
     try {
       const outputPath = process.env.IEXEC_OUT || '/iexec_out/result.json';
       writeOutput(outputPath, errorResult);
-      console.log('[TEE] Error result written to output file');
+      log.info('Error result written to output file');
     } catch (writeError) {
-      console.error('[TEE] Failed to write error result:', writeError);
+      log.error('Failed to write error result', { error: describeError(writeError) });
     }
     
     // Exit with failure code
@@ -231,6 +362,8 @@ async function main(): Promise<void> {
  * - Wallet information
  * - Network configuration
  * 
+ * Describe requests need none of these.
+ * 
  * @param inputPath - Path to the input file (provided by iExec)
  * @returns Parsed TEE input data
  * @throws Error if input file cannot be read or parsed
@@ -242,6 +375,9 @@ function readInput(inputPath: string): TEEInput {
     
     // Parse JSON
     const input = JSON.parse(inputData) as TEEInput;
+    if (input.describe) {
+      return input;
+    }
     
     // Validate required fields
     if (!input.serializedStrategy) {
@@ -253,6 +389,10 @@ function readInput(inputPath: string): TEEInput {
     if (!input.wallet) {
       throw new Error('Missing required field: wallet');
     }
+    const { requesterSecretIndex } = input.wallet;
+    if (requesterSecretIndex !== undefined && !(Number.isInteger(requesterSecretIndex) && requesterSecretIndex > 0)) {
+      throw new Error('Invalid field: wallet.requesterSecretIndex must be a positive integer');
+    }
     if (!input.network) {
       throw new Error('Missing required field: network');
     }
@@ -260,7 +400,7 @@ function readInput(inputPath: string): TEEInput {
     return input;
     
   } catch (error) {
-    console.error('[TEE] Failed to read input:', error);
+    log.error('Failed to read input', { error: describeError(error) });
     throw new Error(
       `Failed to read input file: ${error instanceof Error ? error.message : 'Unknown error'}`
     );
@@ -294,7 +434,7 @@ function writeOutput(outputPath: string, result: any): void {
     fs.writeFileSync(outputPath, resultJson, 'utf-8');
     
   } catch (error) {
-    console.error('[TEE] Failed to write output:', error);
+    log.error('Failed to write output', { error: describeError(error) });
     throw new Error(
       `Failed to write output file: ${error instanceof Error ? error.message : 'Unknown error'}`
     );
@@ -306,35 +446,108 @@ function writeOutput(outputPath: string, result: any): void {
  * 
  * The ExecutionContext provides:
  * - User configuration
- * - Secure wallet for transaction signing
+ * - Secure wallet for transaction signing, connected to the network
+ * - Transaction manager sending the wallet's transactions
+ * - Fee service pricing the strategy's transactions at current network fees
  * - Network configuration
- * - Shared state map
+ * - Shared execution state
  * - Access to blockchain services
  * 
- * Note: In a production implementation, this would initialize actual
- * service instances (DexService, PerpetualService, OneInchService).
- * For now, we provide placeholder implementations.
+ * Perpetual positions and funding rates go through Avantis, whose contracts
+ * are read from the network configuration; the getters throw when they are
+ * missing, so strategies without a perpetual leg still run. Spot swaps go
+ * through 1inch Fusion, at `network.fusionApiUrl`; when
+ * `contracts.uniswapV3Router` is set, spot buys fail over to Uniswap V3 as
+ * `network.spotFailover` allows. The price service is a placeholder
+ * implementation for now.
+ * 
+ * Its deadline is the end of the task's time budget minus SHUTDOWN_RESERVE_MS.
  * 
- * @param input - Parsed TEE input data
- * @returns ExecutionContext for strategy execution
+ * @param input - Parsed TEE input data (its strategy already loaded by the executor)
+ * @param taskStartTime - Time the task started, in milliseconds since the Unix epoch
+ * @returns Promise resolving to the ExecutionContext for strategy execution
+ * @throws WalletKeyError if the wallet key secret is unusable
  */
-function createExecutionContext(input: TEEInput): ExecutionContext {
-  // Create secure wallet instance
-  // In production, this would use actual secure key management
-  const wallet: SecureWallet = {
-    address: input.wallet.address,
+async function createExecutionContext(input: TEEInput, taskStartTime: number): Promise<ExecutionContext> {
+  // Load the wallet key from its iExec secret
+  const { address, requesterSecretIndex } = input.wallet;
+  const wallet = await EnclaveWallet.connect({
+    network: input.network,
+    address,
+    key: requesterSecretIndex === undefined
+      ? { secret: 'app' }
+      : { secret: 'requester', index: requesterSecretIndex }
+  });
+  
+  // One manager for the whole execution, so concurrent operations never reuse a nonce
+  const transactions = new RpcTransactionManager({
+    provider: wallet.provider,
+    wallet,
+    confirmations: input.network.confirmations
+  });
+  
+  // Fees are estimated from the strategy's own operations, as the frontend does
+  const strategy = migrateStrategy(JSON.parse(input.serializedStrategy)) as SerializedStrategy;
+  const fees = new RpcFeeService({
+    transport: createFetchTransport(input.network.rpcUrl),
+    operations: strategy.operations
+  });
+  
+  // Avantis adapter, created on first use from the configured contracts
+  let avantis: AvantisPerpetualService | undefined;
+  const getAvantis = (): AvantisPerpetualService => {
+    const { perpetualDex, avantisTradingStorage, avantisPairInfos } = input.network.contracts;
+    const usdc = input.network.tokens?.USDC?.address;
+    if (!perpetualDex || !avantisTradingStorage || !avantisPairInfos || !usdc) {
+      throw new Error('Avantis is not configured: perpetualDex, avantisTradingStorage, avantisPairInfos and the USDC token are required');
+    }
     
-    async signTransaction(_transaction: any): Promise<string> {
-      // Placeholder: In production, this would sign using secure keys
-      console.log('[TEE] Signing transaction...');
-      return '0x...signed_transaction';
-    },
+    avantis ??= new AvantisPerpetualService({
+      provider: wallet.provider,
+      transactions,
+      trader: wallet.address,
+      contracts: { trading: perpetualDex, tradingStorage: avantisTradingStorage, pairInfos: avantisPairInfos, usdc },
+      prices: context.getPriceService()
+    });
+    return avantis;
+  };
+  
+  // Fusion client, created on first use from the configured tokens
+  let fusion: FusionOneInchService | undefined;
+  const getFusion = (): FusionOneInchService => {
+    const { tokens, contracts } = input.network;
+    if (!tokens?.USDC) {
+      throw new Error('1inch Fusion is not configured: the USDC token is required');
+    }
     
-    async getBalance(_tokenAddress?: string): Promise<string> {
-      // Placeholder: In production, this would query actual balance
-      console.log('[TEE] Getting balance...');
-      return '1000000000000000000'; // 1 ETH in wei
+    fusion ??= new FusionOneInchService({
+      transport: createFusionFetchTransport(input.network.fusionApiUrl || DEFAULT_FUSION_API_URL),
+      chainId: input.network.chainId,
+      provider: wallet.provider,
+      transactions,
+      tokens,
+      limitOrderProtocol: contracts.oneInchFusion || undefined,
+      positionPredicate: contracts.avantisPositionPredicate || undefined
+    });
+    return fusion;
+  };
+  
+  // Uniswap V3 adapter spot buys fail over to, created on first use
+  let uniswap: UniswapV3SpotService | undefined;
+  const getUniswap = (): UniswapV3SpotService => {
+    const { tokens, contracts } = input.network;
+    if (!contracts.uniswapV3Router || !tokens?.USDC) {
+      throw new Error('Uniswap V3 is not configured: uniswapV3Router and the USDC token are required');
     }
+    
+    uniswap ??= new UniswapV3SpotService({
+      provider: wallet.provider,
+      transactions,
+      tokens,
+      router: contracts.uniswapV3Router,
+      quoter: contracts.uniswapV3Quoter || undefined
+    });
+    return uniswap;
   };
   
   // Create execution context
@@ -342,53 +555,40 @@ function createExecutionContext(input: TEEInput): ExecutionContext {
     config: input.config,
     wallet,
     network: input.network,
-    state: new Map<string, any>(),
+    state: new ExecutionState(),
+    deadline: taskStartTime + (input.timeBudgetMs ?? DEFAULT_TIME_BUDGET_MS) - SHUTDOWN_RESERVE_MS,
     
     getDexService() {
-      // Placeholder: In production, this would return actual DexService
-      return {
-        async getFundingRate(pair: string): Promise<number> {
-          console.log(`[TEE] Getting funding rate for ${pair}...`);
-          return 0.01; // 1% funding rate
-        }
-      };
+      return getAvantis();
     },
     
     getPerpetualService() {
-      // Placeholder: In production, this would return actual PerpetualService
+      return getAvantis();
+    },
+    
+    getPriceService() {
+      // Placeholder: In production, this would return actual PriceService
       return {
-        async openShort(_params: any): Promise<any> {
-          console.log('[TEE] Opening short position...');
-          return {
-            entryPrice: '50000',
-            transactionHash: '0x...short_tx',
-            gasUsed: '100000'
-          };
-        },
-        
-        async closePosition(_position: any): Promise<any> {
-          console.log('[TEE] Closing position...');
-          return {
-            transactionHash: '0x...close_tx',
-            gasUsed: '80000'
-          };
+        async getPrice(pair: string): Promise<string> {
+          log.info('Getting price', { pair });
+          return '50000';
         }
       };
     },
     
     getOneInchService() {
-      // Placeholder: In production, this would return actual OneInchService
-      return {
-        async executeFusionSwap(_params: any): Promise<any> {
-          console.log('[TEE] Executing 1inch Fusion swap...');
-          return {
-            amountReceived: '1000000',
-            executionPrice: '50000',
-            transactionHash: '0x...swap_tx',
-            gasUsed: '150000'
-          };
-        }
-      };
+      return getFusion();
+    },
+    
+    // Without a router, spot buys have no fallback route
+    ...(input.network.contracts.uniswapV3Router ? { getFallbackSpotService: getUniswap } : {}),
+    
+    getFeeService() {
+      return fees;
+    },
+    
+    getTransactionManager() {
+      return transactions;
     }
   };
   
@@ -402,7 +602,7 @@ export { main };
 // This allows the module to be imported in tests without auto-executing
 if (require.main === module) {
   main().catch((error) => {
-    console.error('[TEE] Unhandled error:', error);
+    log.error('Unhandled error', { error: describeError(error) });
     process.exit(1);
   });
 }
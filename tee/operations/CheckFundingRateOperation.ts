@@ -1,6 +1,9 @@
 import { IOperation } from './IOperation';
 import { OperationType, ValidationResult, OperationResult } from './OperationTypes';
 import { ExecutionContext } from '../executor/ExecutionContext';
+import { describeError, getLogger } from '../executor/Tracer';
+import { OPERATION_SCHEMAS } from '../schema/operationSchema';
+import { registerOperation, toDecimalString } from './OperationRegistry';
 
 /**
  * CheckFundingRateOperation fetches the current funding rate from a perpetual DEX
@@ -10,7 +13,8 @@ import { ExecutionContext } from '../executor/ExecutionContext';
  * This operation is typically the first in a funding rate arbitrage strategy. It:
  * 1. Fetches the current funding rate for a trading pair (e.g., BTC/USD)
  * 2. Calculates expected profitability considering gas costs and fees
- * 3. Compares the funding rate against a minimum profitable threshold
+ * 3. Compares the funding rate against a minimum profitable threshold (and an
+ *    optional maximum, above which the rate is treated as a likely spike)
  * 4. Stores the result in ExecutionContext for subsequent operations to check
  * 
  * If the funding rate is below the minimum profitable threshold, subsequent operations
@@ -18,7 +22,8 @@ import { ExecutionContext } from '../executor/ExecutionContext';
  * 
  * The profitability calculation considers:
  * - Current funding rate (positive rates favor shorts)
- * - Estimated gas costs for all operations in the strategy
+ * - Network fees of all operations in the strategy, estimated at current fees
+ *   by the FeeService unless the strategy sets a fixed estimate
  * - DEX trading fees (both perpetual and spot)
  * - Capital allocation amount
  * 
@@ -28,8 +33,7 @@ import { ExecutionContext } from '../executor/ExecutionContext';
  * const checkOp = new CheckFundingRateOperation(
  *   1,                    // Execute first
  *   'BTC/USD',           // Trading pair
- *   0.01,                // Minimum 0.01% funding rate (1 basis point)
- *   '100'                // Estimated gas cost in USD
+ *   0.01                 // Minimum 0.01% funding rate (1 basis point)
  * );
  * 
  * const result = await checkOp.execute(context);
@@ -44,6 +48,9 @@ export class CheckFundingRateOperation implements IOperation {
   
   /** Execution order within the strategy */
   readonly order: number;
+
+  /** Only reads the funding rate, so it can safely be retried */
+  readonly idempotent = true;
   
   /** Trading pair to check (e.g., 'BTC/USD', 'ETH/USD') */
   private readonly pair: string;
@@ -59,14 +66,17 @@ export class CheckFundingRateOperation implements IOperation {
   private readonly minProfitableRate: number;
   
   /**
-   * Estimated total gas cost for the entire strategy execution in USD.
-   * Used to calculate the minimum funding rate needed to cover costs.
-   * This should include gas for:
-   * - Opening perpetual short position
-   * - Executing spot buy order
-   * - Any other blockchain interactions
+   * Fixed gas cost for the entire strategy execution in USD (optional).
+   * When unset, the network fees of the strategy's operations are estimated
+   * at execution time with the FeeService.
    */
-  private readonly estimatedGasCostUSD: string;
+  private readonly estimatedGasCostUSD?: string;
+  
+  /**
+   * Maximum acceptable funding rate (optional), as a decimal.
+   * Rates above it are treated as not profitable.
+   */
+  private readonly maxRate?: number;
   
   /**
    * Creates a new CheckFundingRateOperation instance.
@@ -74,18 +84,21 @@ export class CheckFundingRateOperation implements IOperation {
    * @param order - Execution order (typically 1, as this runs first)
    * @param pair - Trading pair to check (e.g., 'BTC/USD')
    * @param minProfitableRate - Minimum funding rate for profitability (as decimal)
-   * @param estimatedGasCostUSD - Estimated gas cost in USD (default: '50')
+   * @param estimatedGasCostUSD - Fixed gas cost in USD (default: live fee estimate)
+   * @param maxRate - Maximum acceptable funding rate (as decimal, optional)
    */
   constructor(
     order: number,
     pair: string,
     minProfitableRate: number,
-    estimatedGasCostUSD: string = '50'
+    estimatedGasCostUSD?: string,
+    maxRate?: number
   ) {
     this.order = order;
     this.pair = pair;
     this.minProfitableRate = minProfitableRate;
     this.estimatedGasCostUSD = estimatedGasCostUSD;
+    this.maxRate = maxRate;
   }
   
   /**
@@ -94,7 +107,8 @@ export class CheckFundingRateOperation implements IOperation {
    * Validation checks:
    * - Trading pair is provided and non-empty
    * - Minimum profitable rate is positive (negative rates favor longs, not shorts)
-   * - Estimated gas cost is a valid positive number
+   * - Fixed gas cost, if provided, is a valid non-negative number
+   * - Maximum rate, if provided, is not below the minimum
    * 
    * @returns ValidationResult indicating whether parameters are valid
    */
@@ -118,10 +132,17 @@ export class CheckFundingRateOperation implements IOperation {
       errors.push('Minimum profitable rate seems unreasonably high (>100%)');
     }
     
-    // Validate estimated gas cost
-    const gasCost = parseFloat(this.estimatedGasCostUSD);
-    if (isNaN(gasCost) || gasCost < 0) {
-      errors.push('Estimated gas cost must be a valid non-negative number');
+    // Validate the fixed gas cost if provided
+    if (this.estimatedGasCostUSD !== undefined) {
+      const gasCost = parseFloat(this.estimatedGasCostUSD);
+      if (isNaN(gasCost) || gasCost < 0) {
+        errors.push('Estimated gas cost must be a valid non-negative number');
+      }
+    }
+    
+    // Validate maximum rate if provided
+    if (this.maxRate !== undefined && this.maxRate < this.minProfitableRate) {
+      errors.push('Maximum rate must not be below the minimum profitable rate');
     }
     
     return {
@@ -135,7 +156,8 @@ export class CheckFundingRateOperation implements IOperation {
    * 
    * Execution flow:
    * 1. Fetch current funding rate from perpetual DEX via DexService
-   * 2. Calculate profitability considering gas costs and capital allocation
+   * 2. Calculate profitability considering gas costs and capital allocation,
+   *    estimating the gas costs with the FeeService unless they are fixed
    * 3. Determine if the rate exceeds the minimum profitable threshold
    * 4. Store results in ExecutionContext for subsequent operations
    * 
@@ -146,11 +168,12 @@ export class CheckFundingRateOperation implements IOperation {
    * Where:
    * - Funding Rate: Current rate from perpetual DEX (e.g., 0.01 = 1%)
    * - Capital Allocation: Total capital from context.config.capitalAllocation
-   * - Gas Costs: Estimated gas for all operations (this.estimatedGasCostUSD)
+   * - Gas Costs: Network fees of all operations (FeeService estimate, or this.estimatedGasCostUSD)
    * - Trading Fees: Estimated as 0.1% of capital (typical DEX fees)
    * 
    * The operation is considered profitable if:
    * Expected Profit > 0 AND Funding Rate >= minProfitableRate
+   * AND (no maxRate OR Funding Rate <= maxRate)
    * 
    * Results stored in context.state:
    * - 'fundingRate': Current funding rate as decimal
@@ -161,24 +184,31 @@ export class CheckFundingRateOperation implements IOperation {
    * @returns Promise resolving to operation result with funding rate data
    */
   async execute(context: ExecutionContext): Promise<OperationResult> {
+    const log = getLogger('CheckFundingRate', context);
+
     try {
       // Step 1: Fetch current funding rate from perpetual DEX
       const dexService = context.getDexService();
       const currentRate = await dexService.getFundingRate(this.pair);
       
-      console.log(`[TEE CheckFundingRate] Fetched funding rate for ${this.pair}: ${currentRate}`);
+      log.info('Fetched funding rate', { pair: this.pair, rate: currentRate });
       
       // Step 2: Calculate profitability
-      const profitability = this.calculateProfitability(currentRate, context);
+      const gasCosts = await this.getGasCosts(context);
+      const profitability = this.calculateProfitability(currentRate, gasCosts, context);
       
       // Step 3: Determine if execution should proceed
-      // Both conditions must be met:
+      // All conditions must be met:
       // 1. Funding rate >= minimum threshold
-      // 2. Expected profit > 0 (covers all costs)
-      const isProfitable = currentRate >= this.minProfitableRate && profitability.expectedProfit > 0;
+      // 2. Funding rate <= maximum threshold, when one is set
+      // 3. Expected profit > 0 (covers all costs)
+      const withinMaxRate = this.maxRate === undefined || currentRate <= this.maxRate;
+      const isProfitable = currentRate >= this.minProfitableRate && withinMaxRate && profitability.expectedProfit > 0;
       
-      console.log(`[TEE CheckFundingRate] Profitability check: ${isProfitable ? 'PASS' : 'FAIL'}`);
-      console.log(`[TEE CheckFundingRate] Expected profit: $${profitability.expectedProfit.toFixed(2)}`);
+      log.info('Profitability checked', {
+        profitable: isProfitable,
+        expectedProfit: profitability.expectedProfit.toFixed(2)
+      });
       
       // Step 4: Store results in context for subsequent operations
       context.state.set('fundingRate', currentRate);
@@ -194,6 +224,7 @@ export class CheckFundingRateOperation implements IOperation {
           fundingRate: currentRate,
           isProfitable,
           minProfitableRate: this.minProfitableRate,
+          maxRate: this.maxRate,
           expectedProfit: profitability.expectedProfit,
           breakdown: {
             fundingIncome: profitability.fundingIncome,
@@ -205,7 +236,7 @@ export class CheckFundingRateOperation implements IOperation {
       
     } catch (error) {
       // Handle errors gracefully without exposing sensitive details
-      console.error('[TEE CheckFundingRate] Error:', error);
+      log.error('Funding rate check failed', { code: 'FUNDING_RATE_CHECK_FAILED', error: describeError(error) });
       
       return {
         success: false,
@@ -219,6 +250,23 @@ export class CheckFundingRateOperation implements IOperation {
     }
   }
   
+  /**
+   * Gets the gas cost of executing the strategy in USD: the fixed estimate
+   * when the strategy sets one, the FeeService estimate at current network
+   * fees and ETH price otherwise.
+   * 
+   * @param context - Execution context with the fee service
+   * @returns Promise resolving to the gas cost in USD
+   */
+  private async getGasCosts(context: ExecutionContext): Promise<number> {
+    if (this.estimatedGasCostUSD !== undefined) {
+      return parseFloat(this.estimatedGasCostUSD);
+    }
+    
+    const estimate = await context.getFeeService().estimateStrategyFees();
+    return estimate.totalFeeUSD;
+  }
+  
   /**
    * Calculates the profitability of executing the strategy given the current funding rate.
    * 
@@ -229,8 +277,8 @@ export class CheckFundingRateOperation implements IOperation {
    *    Formula: Funding Rate × Capital Allocation
    *    Example: 0.01 (1%) × $10,000 = $100
    * 
-   * 2. Gas Costs: Estimated gas fees for all blockchain operations
-   *    Provided as estimatedGasCostUSD parameter
+   * 2. Gas Costs: Network fees for all blockchain operations
+   *    Estimated by the FeeService, or fixed by estimatedGasCostUSD
    *    Example: $50 for opening short + spot buy
    * 
    * 3. Trading Fees: DEX fees for perpetual and spot trades
@@ -244,11 +292,13 @@ export class CheckFundingRateOperation implements IOperation {
    * The strategy is profitable if Expected Profit > 0
    * 
    * @param fundingRate - Current funding rate as decimal (e.g., 0.01 = 1%)
+   * @param gasCosts - Gas cost of the strategy in USD
    * @param context - Execution context with capital allocation config
    * @returns Profitability breakdown with expected profit and cost components
    */
   private calculateProfitability(
     fundingRate: number,
+    gasCosts: number,
     context: ExecutionContext
   ): {
     expectedProfit: number;
@@ -263,9 +313,6 @@ export class CheckFundingRateOperation implements IOperation {
     // This is the revenue side of the equation
     const fundingIncome = fundingRate * capitalAllocation;
     
-    // Parse gas costs from the estimated amount
-    const gasCosts = parseFloat(this.estimatedGasCostUSD);
-    
     // Estimate trading fees as 0.1% of capital (typical DEX fee)
     // This covers both the perpetual short and spot buy fees
     const tradingFees = 0.001 * capitalAllocation;
@@ -281,3 +328,23 @@ export class CheckFundingRateOperation implements IOperation {
     };
   }
 }
+
+/**
+ * Rates are decimals (0.01 = 1%). Without a fixed gas estimate, gas costs
+ * are estimated at execution time from the strategy's operations.
+ */
+registerOperation({
+  type: OperationType.CHECK_FUNDING_RATE,
+  schema: OPERATION_SCHEMAS[OperationType.CHECK_FUNDING_RATE],
+  create: op => {
+    const { ticker, minRate, maxRate, estimatedGasCostUSD } = op.params;
+
+    return new CheckFundingRateOperation(
+      op.order,
+      ticker,
+      minRate ?? 0,
+      toDecimalString(estimatedGasCostUSD),
+      maxRate
+    );
+  }
+});
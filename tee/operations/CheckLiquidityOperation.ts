@@ -0,0 +1,334 @@
+import { IOperation } from './IOperation';
+import { OperationType, ValidationResult, OperationResult } from './OperationTypes';
+import { ExecutionContext } from '../executor/ExecutionContext';
+import { LiquidityCheck, VenueLiquidity } from '../executor/ExecutionState';
+import { describeError, getLogger } from '../executor/Tracer';
+import { OPERATION_SCHEMAS } from '../schema/operationSchema';
+import { registerOperation } from './OperationRegistry';
+
+/**
+ * CheckLiquidityOperation verifies that both legs of a position can be filled
+ * at the intended size without moving the market more than the user accepts.
+ *
+ * Large allocations on thin markets otherwise fail on-chain or fill far from
+ * the quoted price. It:
+ * 1. Derives the intended notional from capitalAllocation
+ * 2. Queries the perpetual venue for remaining open-interest capacity and
+ *    the price impact of the position
+ * 3. Quotes the spot route through 1inch for the hedging leg
+ * 4. Blocks execution when the open-interest cap is too small or either
+ *    price impact exceeds the allowed maximum
+ *
+ * Sizing:
+ * - Perpetual notional = capitalAllocation × capitalPercentage / 100 × leverage
+ * - Spot notional = capitalAllocation × capitalPercentage / 100
+ *
+ * The spot leg trades the opposite way of the perpetual (buy when shorting the
+ * perp, sell when longing it). Sell quotes are sized in the asset, converted
+ * with the PriceService.
+ *
+ * The maximum price impact defaults to the user's slippage tolerance.
+ *
+ * Results stored in context.state:
+ * - 'hasSufficientLiquidity': Boolean indicating if execution should proceed
+ * - 'liquidityCheck': Object with per-venue notional, impact and capacity
+ *
+ * @example
+ * ```typescript
+ * // Check that 50% of capital at 2x can be shorted on BTC/USD and hedged spot
+ * const checkOp = new CheckLiquidityOperation(
+ *   1,            // Execute first
+ *   'BTC/USD',    // Trading pair
+ *   50,           // Capital per leg (%)
+ *   2,            // Perpetual leverage
+ *   'short'       // Perpetual side
+ * );
+ * ```
+ */
+export class CheckLiquidityOperation implements IOperation {
+  /** Operation type identifier for serialization/deserialization */
+  readonly type = OperationType.CHECK_LIQUIDITY;
+
+  /** Execution order within the strategy */
+  readonly order: number;
+
+  /** Reads market depth and quotes without trading */
+  readonly idempotent = true;
+
+  /** Trading pair to check (e.g., 'BTC/USD') */
+  private readonly pair: string;
+
+  /** Percentage of total capital allocated to each leg (0-100] */
+  private readonly capitalPercentage: number;
+
+  /** Leverage of the perpetual leg (1-10) */
+  private readonly leverage: number;
+
+  /** Side of the perpetual leg */
+  private readonly side: 'long' | 'short';
+
+  /** Whether to check the spot route as well */
+  private readonly checkSpot: boolean;
+
+  /**
+   * Maximum acceptable price impact as a percentage (optional).
+   * Defaults to the user's slippage tolerance.
+   */
+  private readonly maxPriceImpact?: number;
+
+  /**
+   * Creates a new CheckLiquidityOperation instance.
+   *
+   * @param order - Execution order within the strategy
+   * @param pair - Trading pair to check (e.g., 'BTC/USD')
+   * @param capitalPercentage - Percentage of capital allocated to each leg (default: 100)
+   * @param leverage - Leverage of the perpetual leg (default: 1)
+   * @param side - Side of the perpetual leg (default: 'short')
+   * @param checkSpot - Whether to check the spot route (default: true)
+   * @param maxPriceImpact - Maximum price impact in percent (default: slippage tolerance)
+   */
+  constructor(
+    order: number,
+    pair: string,
+    capitalPercentage: number = 100,
+    leverage: number = 1,
+    side: 'long' | 'short' = 'short',
+    checkSpot: boolean = true,
+    maxPriceImpact?: number
+  ) {
+    this.order = order;
+    this.pair = pair;
+    this.capitalPercentage = capitalPercentage;
+    this.leverage = leverage;
+    this.side = side;
+    this.checkSpot = checkSpot;
+    this.maxPriceImpact = maxPriceImpact;
+  }
+
+  /**
+   * Validates the operation parameters.
+   *
+   * Validation checks:
+   * - Trading pair is provided and non-empty
+   * - Capital percentage is within valid range (0-100)
+   * - Leverage is within safe range (1-10)
+   * - Side is either 'long' or 'short'
+   * - Maximum price impact is within 0-100 if provided
+   *
+   * @returns ValidationResult indicating whether parameters are valid
+   */
+  validate(): ValidationResult {
+    const errors: string[] = [];
+
+    // Validate trading pair
+    if (!this.pair || this.pair.trim().length === 0) {
+      errors.push('Trading pair is required and cannot be empty');
+    }
+
+    // Validate capital percentage
+    if (this.capitalPercentage <= 0 || this.capitalPercentage > 100) {
+      errors.push('Capital percentage must be between 0 and 100');
+    }
+
+    // Validate leverage
+    if (this.leverage < 1 || this.leverage > 10) {
+      errors.push('Leverage must be between 1 and 10');
+    }
+
+    // Validate side
+    if (this.side !== 'long' && this.side !== 'short') {
+      errors.push('Side must be either "long" or "short"');
+    }
+
+    // Validate maximum price impact if provided
+    if (this.maxPriceImpact !== undefined && (this.maxPriceImpact <= 0 || this.maxPriceImpact > 100)) {
+      errors.push('Maximum price impact must be between 0 and 100');
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Executes the liquidity check within the TEE.
+   *
+   * Execution flow:
+   * 1. Compute the perpetual and spot notionals
+   * 2. Query perpetual open-interest capacity and price impact
+   * 3. Quote the spot route (if enabled)
+   * 4. Store results and block execution if liquidity is insufficient
+   *
+   * @param context - Execution context with config and services
+   * @returns Promise resolving to operation result with liquidity data
+   */
+  async execute(context: ExecutionContext): Promise<OperationResult> {
+    const log = getLogger('CheckLiquidity', context);
+
+    try {
+      // Step 1: Compute notionals
+      const collateral = (this.capitalPercentage / 100) * parseFloat(context.config.capitalAllocation);
+      const perpNotional = collateral * this.leverage;
+      const maxPriceImpact = this.maxPriceImpact ?? context.config.slippageTolerance;
+
+      log.info('Checking liquidity', { pair: this.pair, notional: perpNotional.toFixed(2) });
+
+      const perpService = context.getPerpetualService();
+      const oneInchService = this.checkSpot ? context.getOneInchService() : undefined;
+
+      if (!perpService.getMarketLiquidity || (oneInchService && !oneInchService.getQuote)) {
+        return {
+          success: false,
+          operationType: this.type,
+          error: {
+            code: 'LIQUIDITY_DATA_UNAVAILABLE',
+            message: 'Liquidity data is not available for this market.',
+            recoverable: false
+          }
+        };
+      }
+
+      // Step 2: Perpetual venue
+      const market = await perpService.getMarketLiquidity({
+        pair: this.pair,
+        side: this.side,
+        notional: perpNotional.toFixed(2)
+      });
+
+      const reasons: string[] = [];
+      const withinOpenInterest = perpNotional <= parseFloat(market.availableOpenInterest);
+      const perpImpactOk = market.priceImpact <= maxPriceImpact;
+
+      if (!withinOpenInterest) {
+        reasons.push(`Position notional exceeds the remaining ${this.side} open interest of ${market.availableOpenInterest}`);
+      }
+      if (!perpImpactOk) {
+        reasons.push(`Perpetual price impact ${market.priceImpact}% exceeds the maximum of ${maxPriceImpact}%`);
+      }
+
+      const perp: VenueLiquidity = {
+        notional: perpNotional.toFixed(2),
+        priceImpact: market.priceImpact,
+        availableOpenInterest: market.availableOpenInterest,
+        sufficient: withinOpenInterest && perpImpactOk
+      };
+
+      // Step 3: Spot route (opposite direction of the perpetual leg)
+      let spot: VenueLiquidity | undefined;
+      if (oneInchService?.getQuote) {
+        const spotSide = this.side === 'short' ? 'buy' : 'sell';
+        const amount = spotSide === 'buy'
+          ? collateral.toFixed(2)
+          : await this.toAssetQuantity(collateral, context);
+
+        const quote = await oneInchService.getQuote({
+          asset: this.pair.split('/')[0],
+          side: spotSide,
+          amount
+        });
+
+        const spotImpactOk = quote.priceImpact <= maxPriceImpact;
+        if (!spotImpactOk) {
+          reasons.push(`Spot price impact ${quote.priceImpact}% exceeds the maximum of ${maxPriceImpact}%`);
+        }
+
+        spot = {
+          notional: collateral.toFixed(2),
+          priceImpact: quote.priceImpact,
+          sufficient: spotImpactOk
+        };
+      }
+
+      // Step 4: Store results and decide
+      const sufficient = reasons.length === 0;
+
+      log.info('Liquidity checked', { sufficient });
+
+      const liquidityCheck: LiquidityCheck = {
+        pair: this.pair,
+        maxPriceImpact,
+        perp,
+        spot,
+        sufficient,
+        reasons
+      };
+
+      context.state.set('hasSufficientLiquidity', sufficient);
+      context.state.set('liquidityCheck', liquidityCheck);
+
+      if (!sufficient) {
+        reasons.forEach(reason => log.info('Liquidity insufficient', { reason }));
+
+        return {
+          success: false,
+          operationType: this.type,
+          data: liquidityCheck,
+          error: {
+            code: 'INSUFFICIENT_LIQUIDITY',
+            message: 'Market liquidity is insufficient for the allocated size, skipping execution',
+            recoverable: true
+          }
+        };
+      }
+
+      return {
+        success: true,
+        operationType: this.type,
+        data: liquidityCheck
+      };
+
+    } catch (error) {
+      // Handle errors gracefully without exposing sensitive details
+      log.error('Liquidity check failed', { code: 'LIQUIDITY_CHECK_FAILED', error: describeError(error) });
+
+      return {
+        success: false,
+        operationType: this.type,
+        error: {
+          code: 'LIQUIDITY_CHECK_FAILED',
+          message: 'Failed to check market liquidity. Please try again later.',
+          recoverable: true
+        }
+      };
+    }
+  }
+
+  /**
+   * Converts a quote-currency notional into an asset quantity for sell quotes.
+   *
+   * @param notional - Notional in quote currency
+   * @param context - Execution context with the price service
+   * @returns Asset quantity as a string
+   */
+  private async toAssetQuantity(notional: number, context: ExecutionContext): Promise<string> {
+    const price = parseFloat(await context.getPriceService().getPrice(this.pair));
+
+    if (isNaN(price) || price <= 0) {
+      throw new Error(`Invalid price returned for ${this.pair}`);
+    }
+
+    return (notional / price).toFixed(8);
+  }
+}
+
+/**
+ * Optional parameters get the same defaults as the constructor
+ */
+registerOperation({
+  type: OperationType.CHECK_LIQUIDITY,
+  schema: OPERATION_SCHEMAS[OperationType.CHECK_LIQUIDITY],
+  create: op => {
+    const { ticker, capitalPercentage, leverage, side, checkSpot, maxPriceImpact } = op.params;
+
+    return new CheckLiquidityOperation(
+      op.order,
+      ticker,
+      capitalPercentage ?? 100,
+      leverage ?? 1,
+      side ?? 'short',
+      checkSpot ?? true,
+      maxPriceImpact
+    );
+  }
+});
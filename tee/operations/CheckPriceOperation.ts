@@ -0,0 +1,228 @@
+import { IOperation } from './IOperation';
+import { OperationType, ValidationResult, OperationResult } from './OperationTypes';
+import { ExecutionContext } from '../executor/ExecutionContext';
+import { describeError, getLogger } from '../executor/Tracer';
+import { OPERATION_SCHEMAS } from '../schema/operationSchema';
+import { registerOperation } from './OperationRegistry';
+
+/** Comparison operator applied as `price <operator> targetPrice` */
+export type PriceOperator = 'gt' | 'lt' | 'gte' | 'lte' | 'eq';
+
+const PRICE_OPERATORS: PriceOperator[] = ['gt', 'lt', 'gte', 'lte', 'eq'];
+
+/**
+ * Relative tolerance for 'eq' comparisons.
+ * Oracle prices carry many decimals, so exact equality would practically never hold.
+ */
+export const PRICE_EQUALITY_TOLERANCE = 0.0001;
+
+/**
+ * CheckPriceOperation fetches the current oracle price for a trading pair and
+ * compares it against a target price.
+ *
+ * It plays the same role for price levels that CheckFundingRateOperation plays
+ * for funding rates:
+ * 1. Fetches the current price from the PriceService
+ * 2. Evaluates `price <operator> targetPrice`
+ * 3. Stores the outcome in ExecutionContext for subsequent operations
+ *
+ * If the comparison does not hold, position-opening operations check the
+ * 'priceConditionMet' flag and skip execution gracefully, exactly like they
+ * do with 'isProfitable'. The flag and price can also be referenced in
+ * conditions (e.g., 'state.priceConditionMet', 'state.price < 45000').
+ *
+ * The check itself succeeds whether or not the comparison holds; it only
+ * fails when the price cannot be fetched.
+ *
+ * @example
+ * ```typescript
+ * // Only proceed while BTC trades above $40,000
+ * const checkOp = new CheckPriceOperation(
+ *   1,            // Execute first
+ *   'BTC/USD',    // Trading pair
+ *   'gt',         // Operator
+ *   '40000'       // Target price
+ * );
+ *
+ * const result = await checkOp.execute(context);
+ * // Result stored in context.state:
+ * // - price: current price as a number
+ * // - priceConditionMet: boolean indicating if execution should proceed
+ * ```
+ */
+export class CheckPriceOperation implements IOperation {
+  /** Operation type identifier for serialization/deserialization */
+  readonly type = OperationType.CHECK_PRICE;
+
+  /** Execution order within the strategy */
+  readonly order: number;
+
+  /** Price checks have no side effects beyond their state entry */
+  readonly idempotent = true;
+
+  /** Trading pair to check (e.g., 'BTC/USD', 'ETH/USD') */
+  private readonly pair: string;
+
+  /** Comparison operator */
+  private readonly operator: PriceOperator;
+
+  /** Target price to compare against, in quote currency */
+  private readonly targetPrice: string;
+
+  /**
+   * Creates a new CheckPriceOperation instance.
+   *
+   * @param order - Execution order within the strategy
+   * @param pair - Trading pair to check (e.g., 'BTC/USD')
+   * @param operator - Comparison operator ('gt', 'lt', 'gte', 'lte' or 'eq')
+   * @param targetPrice - Target price to compare against
+   */
+  constructor(
+    order: number,
+    pair: string,
+    operator: PriceOperator,
+    targetPrice: string
+  ) {
+    this.order = order;
+    this.pair = pair;
+    this.operator = operator;
+    this.targetPrice = targetPrice;
+  }
+
+  /**
+   * Validates the operation parameters.
+   *
+   * Validation checks:
+   * - Trading pair is provided and non-empty
+   * - Operator is one of 'gt', 'lt', 'gte', 'lte', 'eq'
+   * - Target price is a positive number
+   *
+   * @returns ValidationResult indicating whether parameters are valid
+   */
+  validate(): ValidationResult {
+    const errors: string[] = [];
+
+    // Validate trading pair
+    if (!this.pair || this.pair.trim().length === 0) {
+      errors.push('Trading pair is required and cannot be empty');
+    }
+
+    // Validate operator
+    if (!PRICE_OPERATORS.includes(this.operator)) {
+      errors.push(`Operator must be one of: ${PRICE_OPERATORS.join(', ')}`);
+    }
+
+    // Validate target price
+    const targetPrice = parseFloat(this.targetPrice);
+    if (isNaN(targetPrice) || targetPrice <= 0) {
+      errors.push('Target price must be a positive number');
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Executes the price check within the TEE.
+   *
+   * Execution flow:
+   * 1. Fetch current price via PriceService
+   * 2. Compare it against the target price
+   * 3. Store results in ExecutionContext for subsequent operations
+   *
+   * Results stored in context.state:
+   * - 'price': Current price as a number
+   * - 'priceConditionMet': Boolean indicating if execution should proceed
+   * - 'priceCheck': Object with pair, price, operator and target price
+   *
+   * @param context - Execution context with config and services
+   * @returns Promise resolving to operation result with price data
+   */
+  async execute(context: ExecutionContext): Promise<OperationResult> {
+    const log = getLogger('CheckPrice', context);
+
+    try {
+      // Step 1: Fetch current price
+      const priceService = context.getPriceService();
+      const price = parseFloat(await priceService.getPrice(this.pair));
+
+      if (isNaN(price)) {
+        throw new Error(`Invalid price returned for ${this.pair}`);
+      }
+
+      log.info('Fetched price', { pair: this.pair, price });
+
+      // Step 2: Compare against the target price
+      const conditionMet = this.compare(price, parseFloat(this.targetPrice));
+
+      log.info('Price compared', { price, operator: this.operator, targetPrice: this.targetPrice, conditionMet });
+
+      // Step 3: Store results in context for subsequent operations
+      context.state.set('price', price);
+      context.state.set('priceConditionMet', conditionMet);
+      context.state.set('priceCheck', {
+        pair: this.pair,
+        price,
+        operator: this.operator,
+        targetPrice: this.targetPrice,
+        conditionMet
+      });
+
+      return {
+        success: true,
+        operationType: this.type,
+        data: {
+          pair: this.pair,
+          price,
+          operator: this.operator,
+          targetPrice: this.targetPrice,
+          conditionMet
+        }
+      };
+
+    } catch (error) {
+      // Handle errors gracefully without exposing sensitive details
+      log.error('Price check failed', { code: 'PRICE_CHECK_FAILED', error: describeError(error) });
+
+      return {
+        success: false,
+        operationType: this.type,
+        error: {
+          code: 'PRICE_CHECK_FAILED',
+          message: 'Failed to check price. Please try again later.',
+          recoverable: true
+        }
+      };
+    }
+  }
+
+  /**
+   * Applies the comparison operator.
+   *
+   * @param price - Current price
+   * @param target - Target price
+   * @returns Whether `price <operator> target` holds
+   */
+  private compare(price: number, target: number): boolean {
+    switch (this.operator) {
+      case 'gt':
+        return price > target;
+      case 'lt':
+        return price < target;
+      case 'gte':
+        return price >= target;
+      case 'lte':
+        return price <= target;
+      case 'eq':
+        return Math.abs(price - target) <= target * PRICE_EQUALITY_TOLERANCE;
+    }
+  }
+}
+
+registerOperation({
+  type: OperationType.CHECK_PRICE,
+  schema: OPERATION_SCHEMAS[OperationType.CHECK_PRICE],
+  create: op => new CheckPriceOperation(op.order, op.params.ticker, op.params.operator, String(op.params.targetPrice))
+});
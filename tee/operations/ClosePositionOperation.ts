@@ -0,0 +1,371 @@
+import { IOperation } from './IOperation';
+import { OperationType, ValidationResult, OperationResult } from './OperationTypes';
+import { ExecutionContext } from '../executor/ExecutionContext';
+import { PositionState } from '../executor/ExecutionState';
+import { describeError, getLogger } from '../executor/Tracer';
+import { OPERATION_SCHEMAS } from '../schema/operationSchema';
+import { registerOperation, toDecimalString } from './OperationRegistry';
+
+/** Side of the perpetual position to close */
+export type PositionSide = 'long' | 'short';
+
+/**
+ * ClosePositionOperation closes all or part of a perpetual position.
+ *
+ * It unwinds positions opened by OpenPerpetualShortOperation and
+ * OpenPerpetualLongOperation, and is created for both 'close_short' and
+ * 'close_long' operations. It:
+ * 1. Locates the position, from context state or with an on-chain lookup
+ * 2. Sizes the close (whole position, absolute collateral or percentage)
+ * 3. Closes through PerpetualService with an optional exit price limit
+ * 4. Records the realized PnL and updates or clears the recorded position
+ *
+ * Positions are located in this order:
+ * - 'shortPosition' / 'longPosition' in context.state (same run)
+ * - PerpetualService.getOpenPosition, for positions opened by an earlier run
+ *
+ * Realized PnL is taken from the service when reported. Otherwise it is
+ * estimated from the entry and exit prices:
+ *   PnL = amount × leverage × (exit - entry) / entry   (negated for shorts)
+ *
+ * @example
+ * ```typescript
+ * // Close the entire BTC short, never buying back above $52k
+ * const closeOp = new ClosePositionOperation(
+ *   5,          // Execute fifth
+ *   'BTC/USD',  // Trading pair
+ *   'short',    // Position side
+ *   true,       // Close the entire position
+ *   undefined,  // No partial amount
+ *   false,
+ *   '52000'     // Highest acceptable exit price
+ * );
+ * ```
+ */
+export class ClosePositionOperation implements IOperation {
+  /** Operation type identifier for serialization/deserialization (follows the side) */
+  readonly type: OperationType.CLOSE_LONG | OperationType.CLOSE_SHORT;
+
+  /** Execution order within the strategy */
+  readonly order: number;
+
+  /** Trading pair of the position (e.g., 'BTC/USD') */
+  private readonly pair: string;
+
+  /** Side of the position to close */
+  private readonly side: PositionSide;
+
+  /** Whether to close the entire position when no amount is given */
+  private readonly closeAll: boolean;
+
+  /**
+   * Portion to close (optional).
+   * Collateral in quote currency, or a percentage (0-100] of the position when isPercentage is true.
+   */
+  private readonly amount?: string;
+
+  /** Whether amount is a percentage of the position */
+  private readonly isPercentage: boolean;
+
+  /**
+   * Exit price limit (optional).
+   * Highest acceptable exit price for shorts, lowest for longs.
+   */
+  private readonly priceLimit?: string;
+
+  /**
+   * Creates a new ClosePositionOperation instance.
+   *
+   * @param order - Execution order within the strategy
+   * @param pair - Trading pair of the position (e.g., 'BTC/USD')
+   * @param side - Side of the position (default: 'short')
+   * @param closeAll - Close the entire position when no amount is given (default: true)
+   * @param amount - Portion to close (optional)
+   * @param isPercentage - Whether amount is a percentage of the position (default: false)
+   * @param priceLimit - Highest (short) or lowest (long) acceptable exit price (optional)
+   */
+  constructor(
+    order: number,
+    pair: string,
+    side: PositionSide = 'short',
+    closeAll: boolean = true,
+    amount?: string,
+    isPercentage: boolean = false,
+    priceLimit?: string
+  ) {
+    this.type = side === 'long' ? OperationType.CLOSE_LONG : OperationType.CLOSE_SHORT;
+    this.order = order;
+    this.pair = pair;
+    this.side = side;
+    this.closeAll = closeAll;
+    this.amount = amount;
+    this.isPercentage = isPercentage;
+    this.priceLimit = priceLimit;
+  }
+
+  /**
+   * Validates the operation parameters.
+   *
+   * Validation checks:
+   * - Trading pair is provided and non-empty
+   * - Side is either 'long' or 'short'
+   * - An amount is given unless the entire position is closed
+   * - Amount is a positive number (at most 100 when it is a percentage)
+   * - Price limit is a positive number if provided
+   *
+   * @returns ValidationResult indicating whether parameters are valid
+   */
+  validate(): ValidationResult {
+    const errors: string[] = [];
+
+    // Validate trading pair
+    if (!this.pair || this.pair.trim().length === 0) {
+      errors.push('Trading pair is required and cannot be empty');
+    }
+
+    // Validate side
+    if (this.side !== 'long' && this.side !== 'short') {
+      errors.push('Side must be either "long" or "short"');
+    }
+
+    // Validate amount
+    if (this.amount === undefined) {
+      if (!this.closeAll) {
+        errors.push('Amount is required when not closing the entire position');
+      }
+    } else {
+      const amount = parseFloat(this.amount);
+      if (isNaN(amount) || amount <= 0) {
+        errors.push('Amount must be a positive number');
+      } else if (this.isPercentage && amount > 100) {
+        errors.push('Percentage amount must be between 0 and 100');
+      }
+    }
+
+    // Validate price limit if provided
+    if (this.priceLimit !== undefined) {
+      const priceLimit = parseFloat(this.priceLimit);
+      if (isNaN(priceLimit) || priceLimit <= 0) {
+        errors.push('Price limit must be a positive number');
+      }
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Closes the position within the TEE.
+   *
+   * Execution flow:
+   * 1. Locate the position in context state, or on-chain
+   * 2. Compute the collateral amount to close
+   * 3. Close through PerpetualService with the price limit
+   * 4. Compute realized PnL and update or remove the recorded position
+   *
+   * Results stored in context.state:
+   * - 'shortPosition' / 'longPosition': remaining amount after a partial
+   *   close, removed after a full close
+   *
+   * @param context - Execution context with state, wallet and services
+   * @returns Promise resolving to operation result with close data and realized PnL
+   */
+  async execute(context: ExecutionContext): Promise<OperationResult> {
+    const log = getLogger('ClosePosition', context);
+
+    const stateKey = this.side === 'short' ? 'shortPosition' : 'longPosition';
+    // Once the close is submitted, a failure may still have closed on-chain
+    let closeSubmitted = false;
+
+    try {
+      // Step 1: Locate the position
+      const perpService = context.getPerpetualService();
+      let position: PositionState | null | undefined = context.state.get(stateKey);
+      let source: 'state' | 'on_chain' = 'state';
+
+      if (!position || position.pair !== this.pair) {
+        position = perpService.getOpenPosition
+          ? await perpService.getOpenPosition({ pair: this.pair, side: this.side, wallet: context.wallet })
+          : null;
+        source = 'on_chain';
+      }
+
+      if (!position) {
+        log.error('No open position found', { code: 'POSITION_NOT_FOUND', side: this.side, pair: this.pair });
+
+        return {
+          success: false,
+          operationType: this.type,
+          error: {
+            code: 'POSITION_NOT_FOUND',
+            message: 'No open position found to close.',
+            recoverable: false
+          }
+        };
+      }
+
+      // Step 2: Compute the amount to close
+      const positionAmount = parseFloat(position.amount);
+      const closeAmount = this.amount === undefined
+        ? positionAmount
+        : this.isPercentage
+          ? (parseFloat(this.amount) / 100) * positionAmount
+          : parseFloat(this.amount);
+
+      if (closeAmount <= 0 || closeAmount > positionAmount) {
+        log.error('Close amount exceeds position size', { code: 'INVALID_CLOSE_AMOUNT' });
+
+        return {
+          success: false,
+          operationType: this.type,
+          error: {
+            code: 'INVALID_CLOSE_AMOUNT',
+            message: 'Close amount exceeds the open position.',
+            recoverable: false
+          }
+        };
+      }
+
+      const isFullClose = closeAmount === positionAmount;
+      const amountToClose = closeAmount.toFixed(2);
+
+      log.info('Closing position', {
+        side: this.side,
+        pair: this.pair,
+        source,
+        fullClose: isFullClose,
+        amount: amountToClose
+      });
+
+      // Step 3: Close through PerpetualService
+      closeSubmitted = true;
+      const result = await perpService.closePosition(position, {
+        amount: isFullClose ? undefined : amountToClose,
+        maxPrice: this.side === 'short' ? this.priceLimit : undefined,
+        minPrice: this.side === 'long' ? this.priceLimit : undefined,
+        signal: context.signal
+      });
+
+      log.info('Position closed', { transactionHash: result.transactionHash });
+
+      // Step 4: Realized PnL and remaining position
+      const realizedPnl = result.realizedPnl
+        ?? this.estimatePnl(position.entryPrice, result.exitPrice, closeAmount, position.leverage ?? 1);
+      const remainingAmount = isFullClose ? '0.00' : (positionAmount - closeAmount).toFixed(2);
+
+      if (isFullClose) {
+        context.state.delete(stateKey);
+      } else {
+        context.state.set(stateKey, { ...position, amount: remainingAmount });
+      }
+
+      return {
+        success: true,
+        operationType: this.type,
+        transactionHash: result.transactionHash,
+        data: {
+          pair: this.pair,
+          side: this.side,
+          positionSource: source,
+          amountClosed: amountToClose,
+          remainingAmount,
+          entryPrice: position.entryPrice,
+          exitPrice: result.exitPrice,
+          realizedPnl,
+          priceLimit: this.priceLimit
+        },
+        gasUsed: result.gasUsed
+      };
+
+    } catch (error) {
+      // Handle errors gracefully without exposing sensitive details
+      log.error('Close position failed', {
+        code: 'CLOSE_POSITION_FAILED',
+        submitted: closeSubmitted,
+        error: describeError(error)
+      });
+
+      return {
+        success: false,
+        operationType: this.type,
+        error: {
+          code: 'CLOSE_POSITION_FAILED',
+          message: closeSubmitted
+            ? 'Failed to close position. Check the position on-chain before closing again.'
+            : 'Failed to close position. Please try again later.',
+          recoverable: !closeSubmitted
+        }
+      };
+    }
+  }
+
+  /**
+   * Estimates realized PnL when the service does not report it.
+   *
+   * @param entryPrice - Position entry price
+   * @param exitPrice - Exit price reported by the service
+   * @param amount - Collateral closed, in quote currency
+   * @param leverage - Position leverage
+   * @returns PnL in quote currency rounded to 2 decimals, or undefined if prices are unknown
+   */
+  private estimatePnl(
+    entryPrice: string | undefined,
+    exitPrice: string | undefined,
+    amount: number,
+    leverage: number
+  ): string | undefined {
+    const entry = parseFloat(entryPrice ?? '');
+    const exit = parseFloat(exitPrice ?? '');
+
+    if (isNaN(entry) || isNaN(exit) || entry <= 0) {
+      return undefined;
+    }
+
+    const direction = this.side === 'short' ? -1 : 1;
+    const pnl = direction * amount * leverage * (exit - entry) / entry;
+    return pnl.toFixed(2);
+  }
+}
+
+/**
+ * Both 'close_long' and 'close_short' map to ClosePositionOperation; the type
+ * selects the side. Shorts are bought back, so they cap the exit price
+ * (maxPrice); longs are sold, so they floor it (minPrice).
+ */
+registerOperation({
+  type: OperationType.CLOSE_LONG,
+  schema: OPERATION_SCHEMAS[OperationType.CLOSE_LONG],
+  create: op => {
+    const { ticker, closeAll, amount, isPercentage, minPrice } = op.params;
+
+    return new ClosePositionOperation(
+      op.order,
+      ticker,
+      'long',
+      closeAll ?? true,
+      toDecimalString(amount),
+      isPercentage ?? false,
+      toDecimalString(minPrice)
+    );
+  }
+});
+
+registerOperation({
+  type: OperationType.CLOSE_SHORT,
+  schema: OPERATION_SCHEMAS[OperationType.CLOSE_SHORT],
+  create: op => {
+    const { ticker, closeAll, amount, isPercentage, maxPrice } = op.params;
+
+    return new ClosePositionOperation(
+      op.order,
+      ticker,
+      'short',
+      closeAll ?? true,
+      toDecimalString(amount),
+      isPercentage ?? false,
+      toDecimalString(maxPrice)
+    );
+  }
+});
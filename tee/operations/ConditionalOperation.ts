@@ -0,0 +1,244 @@
+import { IOperation } from './IOperation';
+import { OperationType, ValidationResult, OperationResult } from './OperationTypes';
+import { ExecutionContext } from '../executor/ExecutionContext';
+import { describeError, getLogger } from '../executor/Tracer';
+import { ConditionEvaluator } from '../executor/ConditionEvaluator';
+import { StrategyExecutor } from '../executor/StrategyExecutor';
+import { OPERATION_SCHEMAS } from '../schema/operationSchema';
+import { registerOperation } from './OperationRegistry';
+
+/**
+ * ConditionalOperation evaluates a condition at execution time and runs one of
+ * two nested operation lists depending on the outcome.
+ *
+ * This replaces ad-hoc flags such as 'isProfitable' that every downstream
+ * operation had to check on its own. Instead, a strategy can express
+ * "only open the position if the funding rate is profitable" directly:
+ *
+ * 1. Evaluate the condition against ExecutionContext.state and prior results
+ * 2. Pick the 'then' branch if it holds, otherwise the 'else' branch (if any)
+ * 3. Run the branch through a dedicated StrategyExecutor
+ * 4. Return the branch's results as this operation's result data
+ *
+ * Running the branch through a StrategyExecutor gives nested operations the
+ * same guarantees as top-level ones: they are validated, executed in order,
+ * their errors are sanitized, and a failure inside the branch rolls back the
+ * branch operations that already ran.
+ *
+ * If a later top-level operation fails, rollback() delegates to the branch
+ * executor so the nested operations are unwound in reverse order as well.
+ *
+ * See ConditionEvaluator for the condition syntax.
+ *
+ * @example
+ * ```typescript
+ * const conditionalOp = new ConditionalOperation(
+ *   2,                                                  // Execute after the funding rate check
+ *   'state.isProfitable && state.fundingRate >= 0.01',  // Condition
+ *   [openShortOp, spotBuyOp],                           // Run when condition holds
+ *   []                                                  // Nothing to do otherwise
+ * );
+ *
+ * const result = await conditionalOp.execute(context);
+ * // result.data: { conditionMet, branch, operationResults, softFailures }
+ * ```
+ */
+export class ConditionalOperation implements IOperation {
+  /** Operation type identifier for serialization/deserialization */
+  readonly type = OperationType.CONDITIONAL;
+
+  /** Execution order within the strategy */
+  readonly order: number;
+
+  /** Condition expression evaluated at execution time */
+  private readonly condition: string;
+
+  /** Operations executed when the condition holds */
+  private readonly thenOperations: IOperation[];
+
+  /** Operations executed when the condition does not hold */
+  private readonly elseOperations: IOperation[];
+
+  /**
+   * Executor that ran the selected branch.
+   * Kept so the branch can be rolled back if a later operation fails.
+   */
+  private branchExecutor?: StrategyExecutor;
+
+  /**
+   * Creates a new ConditionalOperation instance.
+   *
+   * @param order - Execution order within the strategy
+   * @param condition - Condition expression (see ConditionEvaluator)
+   * @param thenOperations - Operations to run when the condition holds
+   * @param elseOperations - Operations to run otherwise (default: none)
+   */
+  constructor(
+    order: number,
+    condition: string,
+    thenOperations: IOperation[],
+    elseOperations: IOperation[] = []
+  ) {
+    this.order = order;
+    this.condition = condition;
+    this.thenOperations = thenOperations;
+    this.elseOperations = elseOperations;
+  }
+
+  /**
+   * Validates the operation parameters and every nested operation.
+   *
+   * Validation checks:
+   * - Condition is syntactically valid
+   * - The 'then' branch contains at least one operation
+   * - Every nested operation passes its own validation
+   *
+   * Nested errors are prefixed with their branch and index (e.g., 'then[1]: ...')
+   * so they can be traced back to the offending operation.
+   *
+   * @returns ValidationResult indicating whether parameters are valid
+   */
+  validate(): ValidationResult {
+    const errors: string[] = [];
+
+    // Validate the condition syntax without evaluating it
+    errors.push(...ConditionEvaluator.validate(this.condition));
+
+    // A conditional with nothing to run in the 'then' branch is almost certainly a mistake
+    if (this.thenOperations.length === 0) {
+      errors.push('Conditional must contain at least one operation in the "then" branch');
+    }
+
+    // Validate nested operations
+    this.thenOperations.forEach((operation, index) => {
+      for (const error of operation.validate().errors) {
+        errors.push(`then[${index}]: ${error}`);
+      }
+    });
+
+    this.elseOperations.forEach((operation, index) => {
+      for (const error of operation.validate().errors) {
+        errors.push(`else[${index}]: ${error}`);
+      }
+    });
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Evaluates the condition and executes the selected branch.
+   *
+   * Execution flow:
+   * 1. Evaluate the condition against context state and prior results
+   * 2. Select the 'then' or 'else' branch
+   * 3. If the selected branch is empty, return success without doing anything
+   * 4. Otherwise run the branch through a nested StrategyExecutor
+   * 5. Return the branch outcome, its nested results and gas usage
+   *
+   * The condition expression itself is never included in the result, as it
+   * is part of the strategy logic that must stay inside the TEE.
+   *
+   * @param context - Execution context with state, prior results and services
+   * @returns Promise resolving to operation result with branch data
+   */
+  async execute(context: ExecutionContext): Promise<OperationResult> {
+    const log = getLogger('Conditional', context);
+
+    // Step 1: Evaluate the condition
+    let conditionMet: boolean;
+    try {
+      conditionMet = ConditionEvaluator.evaluate(this.condition, context);
+    } catch (error) {
+      log.error('Condition evaluation failed', { code: 'CONDITION_EVALUATION_FAILED', error: describeError(error) });
+
+      return {
+        success: false,
+        operationType: this.type,
+        error: {
+          code: 'CONDITION_EVALUATION_FAILED',
+          message: 'Failed to evaluate strategy condition.',
+          recoverable: false
+        }
+      };
+    }
+
+    // Step 2: Select the branch to run
+    const branch = conditionMet ? 'then' : 'else';
+    const operations = conditionMet ? this.thenOperations : this.elseOperations;
+
+    log.info('Condition evaluated', { conditionMet, branch, operations: operations.length });
+
+    // Step 3: Nothing to run (e.g., condition false with no else branch)
+    if (operations.length === 0) {
+      return {
+        success: true,
+        operationType: this.type,
+        data: {
+          conditionMet,
+          branch: 'none',
+          operationResults: []
+        }
+      };
+    }
+
+    // Step 4: Run the branch through a nested executor
+    // The nested executor rolls back its own operations if the branch fails
+    this.branchExecutor = new StrategyExecutor();
+    this.branchExecutor.load(operations);
+    const branchResult = await this.branchExecutor.execute(context);
+
+    // Step 5: Report the branch outcome
+    return {
+      success: branchResult.success,
+      operationType: this.type,
+      data: {
+        conditionMet,
+        branch,
+        operationResults: branchResult.operationResults,
+        softFailures: branchResult.softFailures
+      },
+      error: branchResult.error,
+      gasUsed: branchResult.totalGasUsed
+    };
+  }
+
+  /**
+   * Rolls back the operations executed by the selected branch.
+   *
+   * Delegates to the branch executor, which rolls back the nested operations
+   * in reverse order using their own rollback() implementations.
+   *
+   * @param context - Execution context with state and services
+   * @returns Promise that resolves when rollback is complete
+   */
+  async rollback(context: ExecutionContext): Promise<void> {
+    const log = getLogger('Conditional', context);
+
+    if (!this.branchExecutor) {
+      log.info('No branch to rollback');
+      return;
+    }
+
+    log.info('Rolling back branch operations');
+    await this.branchExecutor.rollback(context);
+    this.branchExecutor = undefined;
+  }
+}
+
+/**
+ * Branch operations are built like top-level ones, so branches may contain any
+ * registered operation type, including further conditionals
+ */
+registerOperation({
+  type: OperationType.CONDITIONAL,
+  schema: OPERATION_SCHEMAS[OperationType.CONDITIONAL],
+  create: (op, build) => new ConditionalOperation(
+    op.order,
+    op.params.condition,
+    op.params.thenOperations.map(build),
+    (op.params.elseOperations ?? []).map(build)
+  )
+});
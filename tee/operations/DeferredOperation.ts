@@ -0,0 +1,164 @@
+import { IOperation } from './IOperation';
+import { OperationType, ValidationResult, OperationResult } from './OperationTypes';
+import { ExecutionContext } from '../executor/ExecutionContext';
+import { describeError, getLogger } from '../executor/Tracer';
+import { ResultReferenceResolver } from '../executor/ResultReferenceResolver';
+import { SerializedOperation, getReferencedLabels, validateOperation } from '../schema/operationSchema';
+
+/**
+ * DeferredOperation stands in for an operation whose params reference the
+ * results of earlier operations (e.g., `maxPrice: { $ref: 'shortPosition.entryPrice' }`).
+ *
+ * Those values only exist at execution time, so the concrete operation cannot
+ * be created during deserialization. Instead, OperationFactory wraps the
+ * serialized operation in a DeferredOperation, which:
+ *
+ * 1. Resolves the references against the results recorded in the context
+ * 2. Validates the resolved params against the shared schema
+ * 3. Builds the concrete operation and runs its own validation
+ * 4. Executes it, and delegates rollback to it afterwards
+ *
+ * Neither the references nor the resolved values appear in the result error,
+ * as they are part of the strategy logic that must stay inside the TEE.
+ *
+ * @example
+ * ```typescript
+ * const deferred = new DeferredOperation(
+ *   { type: 'spot_buy', order: 3, params: { ticker: 'BTC/USDC', amount: 50, maxPrice: { $ref: 'shortPosition.entryPrice' } } },
+ *   op => createConcreteOperation(op) // OperationFactory passes its own builder
+ * );
+ *
+ * const result = await deferred.execute(context);
+ * // Executes a SpotBuyOperation with maxPrice set to the short's entry price
+ * ```
+ */
+export class DeferredOperation implements IOperation {
+  /** Operation type identifier, taken from the wrapped operation */
+  readonly type: OperationType;
+
+  /** Execution order within the strategy */
+  readonly order: number;
+
+  /** Labels whose results the wrapped operation's params reference */
+  readonly references: readonly string[];
+
+  /** Serialized operation whose params contain references */
+  private readonly serialized: SerializedOperation;
+
+  /** Builds the concrete operation once the params are resolved */
+  private readonly build: (op: SerializedOperation) => IOperation;
+
+  /**
+   * Concrete operation built from the resolved params.
+   * Kept so it can be rolled back if a later operation fails.
+   */
+  private resolved?: IOperation;
+
+  /**
+   * Whether the concrete operation is safe to run again. It is only known
+   * once an attempt has built it, which is when StrategyExecutor asks.
+   */
+  get idempotent(): boolean | undefined {
+    return this.resolved?.idempotent;
+  }
+
+  /**
+   * Creates a new DeferredOperation instance.
+   *
+   * @param serialized - Schema-valid serialized operation with result references
+   * @param build - Creates the concrete operation from resolved serialized data
+   */
+  constructor(serialized: SerializedOperation, build: (op: SerializedOperation) => IOperation) {
+    this.type = serialized.type;
+    this.order = serialized.order;
+    this.references = getReferencedLabels(serialized);
+    this.serialized = serialized;
+    this.build = build;
+  }
+
+  /**
+   * The serialized operation has already been checked against the shared
+   * schema; its referenced values are validated once resolved, in execute().
+   *
+   * @returns ValidationResult (always valid)
+   */
+  validate(): ValidationResult {
+    return {
+      isValid: true,
+      errors: []
+    };
+  }
+
+  /**
+   * Resolves the references, then builds, validates and executes the
+   * concrete operation.
+   *
+   * @param context - Execution context with prior results
+   * @returns Promise resolving to the concrete operation's result
+   */
+  async execute(context: ExecutionContext): Promise<OperationResult> {
+    const log = getLogger('Deferred', context);
+
+    // Step 1: Resolve references against earlier results
+    let resolved: SerializedOperation;
+    try {
+      resolved = {
+        ...this.serialized,
+        params: ResultReferenceResolver.resolve(this.serialized.params, context.results ?? [])
+      } as SerializedOperation;
+    } catch (error) {
+      log.error('Failed to resolve references', { code: 'UNRESOLVED_REFERENCE', operationType: this.type, error: describeError(error) });
+
+      return {
+        success: false,
+        operationType: this.type,
+        error: {
+          code: 'UNRESOLVED_REFERENCE',
+          message: 'Failed to resolve a reference to an earlier operation result.',
+          recoverable: false
+        }
+      };
+    }
+
+    // Step 2: Resolved values must satisfy the same rules as literal ones
+    const schemaValidation = validateOperation(resolved);
+    const operation = schemaValidation.isValid ? this.build(resolved) : undefined;
+    const errors = operation ? operation.validate().errors : schemaValidation.errors;
+
+    if (!operation || errors.length > 0) {
+      log.error('Resolved params are invalid', { code: 'VALIDATION_ERROR', operationType: this.type, errors: errors.join('; ') });
+
+      return {
+        success: false,
+        operationType: this.type,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid operation parameters',
+          recoverable: false
+        }
+      };
+    }
+
+    // Step 3: Execute the concrete operation
+    this.resolved = operation;
+    return operation.execute(context);
+  }
+
+  /**
+   * Rolls back the concrete operation, if it was executed.
+   *
+   * @param context - Execution context with state and services
+   * @returns Promise that resolves when rollback is complete
+   */
+  async rollback(context: ExecutionContext): Promise<void> {
+    const log = getLogger('Deferred', context);
+
+    if (!this.resolved?.rollback) {
+      log.info('Nothing to rollback');
+      return;
+    }
+
+    await this.resolved.rollback(context);
+    this.resolved = undefined;
+  }
+}
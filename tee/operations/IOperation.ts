@@ -1,5 +1,6 @@
 import { OperationType, ValidationResult, OperationResult } from './OperationTypes';
 import { ExecutionContext } from '../executor/ExecutionContext';
+import { RetryPolicy } from '../schema/operationSchema';
 
 /**
  * Base interface for all operations that execute within the TEE.
@@ -8,7 +9,7 @@ import { ExecutionContext } from '../executor/ExecutionContext';
  * unit of work that can be validated, executed, and potentially rolled back.
  * 
  * Operations are serialized from the frontend, deserialized in the TEE, and executed
- * sequentially as part of a strategy. Each operation has access to a shared ExecutionContext
+ * in dependency order as part of a strategy. Each operation has access to a shared ExecutionContext
  * that maintains state and provides access to services.
  * 
  * @example
@@ -37,11 +38,59 @@ export interface IOperation {
   
   /**
    * Execution order of this operation within the strategy.
-   * Operations are sorted by this value and executed sequentially.
-   * Lower numbers execute first.
+   * Lower numbers execute first; operations sharing an order run concurrently.
    */
   readonly order: number;
   
+  /**
+   * Whether this operation may fail without stopping the strategy.
+   * Set by OperationFactory from the serialized operation's `optional` flag.
+   * A failed optional operation is reported as a soft failure and is neither
+   * rolled back nor allowed to trigger a rollback of earlier operations.
+   */
+  optional?: boolean;
+  
+  /**
+   * Label of this operation, used by later operations to reference its result.
+   * Set by OperationFactory from the serialized operation's `label`.
+   */
+  label?: string;
+  
+  /**
+   * How StrategyExecutor retries this operation after a recoverable failure.
+   * Set by OperationFactory from the serialized operation's `retry` policy.
+   * Operations without a policy are attempted once.
+   */
+  retry?: RetryPolicy;
+  
+  /**
+   * Time limit for each attempt, in milliseconds, after which StrategyExecutor
+   * cancels the operation and fails it with TIMEOUT.
+   * Set by OperationFactory from the serialized operation's `timeoutMs`.
+   */
+  timeoutMs?: number;
+  
+  /**
+   * Whether running this operation again is harmless, as for operations that
+   * only read (checks, waits). StrategyExecutor retries other operations only
+   * for the error codes their policy lists, and never after a timed-out
+   * attempt, which may have been cut off mid-way.
+   */
+  readonly idempotent?: boolean;
+  
+  /**
+   * Labels of the operations StrategyExecutor must complete before starting
+   * this one, instead of every operation of lower order.
+   * Set by OperationFactory from the serialized operation's `dependsOn`.
+   */
+  dependsOn?: readonly string[];
+  
+  /**
+   * Labels whose results this operation's params reference.
+   * StrategyExecutor checks that each of them runs earlier.
+   */
+  readonly references?: readonly string[];
+  
   /**
    * Validates the operation's parameters before execution.
    * 
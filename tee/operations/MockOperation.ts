@@ -1,6 +1,9 @@
 import { IOperation } from './IOperation';
 import { OperationType, ValidationResult, OperationResult } from './OperationTypes';
 import { ExecutionContext } from '../executor/ExecutionContext';
+import { getLogger } from '../executor/Tracer';
+import { OPERATION_SCHEMAS } from '../schema/operationSchema';
+import { registerOperation } from './OperationRegistry';
 
 /**
  * MockOperation is a simple test operation used to verify TEE integration
@@ -80,19 +83,19 @@ export class MockOperation implements IOperation {
    * Executes the mock operation within the TEE.
    * 
    * Execution flow:
-   * 1. Log the message to console (visible in TEE logs)
+   * 1. Log the message (visible in TEE logs)
    * 2. Simulate work by waiting for the configured delay
    * 3. Return success result with execution metadata
    * 
    * This operation doesn't interact with the blockchain or modify shared state,
    * making it safe for testing the execution pipeline.
    * 
-   * @param _context - Execution context (not used by MockOperation)
+   * @param context - Execution context (only used for logging)
    * @returns Promise resolving to operation result with execution metadata
    */
-  async execute(_context: ExecutionContext): Promise<OperationResult> {
-    // Log message to TEE console for debugging/verification
-    console.log(`[TEE MockOperation] ${this.message}`);
+  async execute(context: ExecutionContext): Promise<OperationResult> {
+    // Log message to TEE output for debugging/verification
+    getLogger('MockOperation', context).info(this.message);
     
     // Simulate work by introducing a delay
     // This helps test async operation handling in the executor
@@ -110,3 +113,12 @@ export class MockOperation implements IOperation {
     };
   }
 }
+
+/**
+ * Mock operations are created with a one second delay unless one is given
+ */
+registerOperation({
+  type: OperationType.MOCK_OPERATION,
+  schema: OPERATION_SCHEMAS[OperationType.MOCK_OPERATION],
+  create: op => new MockOperation(op.order, op.params.message, op.params.delay ?? 1000)
+});
@@ -0,0 +1,348 @@
+import { IOperation } from './IOperation';
+import { OperationType, ValidationResult, OperationResult } from './OperationTypes';
+import { ExecutionContext } from '../executor/ExecutionContext';
+import { PositionState } from '../executor/ExecutionState';
+import { systemClock } from '../executor/Clock';
+import { describeError, getLogger } from '../executor/Tracer';
+import { OPERATION_SCHEMAS } from '../schema/operationSchema';
+import { registerOperation, sentTransactionHash, toDecimalString } from './OperationRegistry';
+
+/**
+ * OpenPerpetualLongOperation opens a long position on a perpetual DEX.
+ *
+ * This is the mirror image of OpenPerpetualShortOperation and is used in
+ * negative funding regimes, where shorts pay longs. Combined with a short
+ * spot leg (SpotSellOperation), it creates a delta-neutral position that
+ * collects negative funding. It:
+ * 1. Checks if the price check passed (reads 'priceConditionMet' from context)
+ * 2. Calculates the capital amount to allocate based on percentage
+ * 3. Opens a long position with optional leverage, stop-loss and take-profit
+ * 4. Stores position details in ExecutionContext for subsequent operations
+ *
+ * Unlike the short, this operation does not read the 'isProfitable' flag:
+ * that flag describes positive funding for shorts. Strategies gate longs
+ * on funding with a ConditionalOperation instead.
+ *
+ * Position details stored in context.state:
+ * - 'longPosition': Object containing entry price, amount, transaction hash,
+ *   leverage and protective orders
+ *
+ * @example
+ * ```typescript
+ * // Open a 3x long with 50% of capital, stop at $45k, take profit at $60k
+ * const openLongOp = new OpenPerpetualLongOperation(
+ *   2,            // Execute second
+ *   'BTC/USD',    // Trading pair
+ *   50,           // Use 50% of capital
+ *   3,            // 3x leverage
+ *   '45000',      // Stop-loss price
+ *   '60000'       // Take-profit price
+ * );
+ * ```
+ */
+export class OpenPerpetualLongOperation implements IOperation {
+  /** Operation type identifier for serialization/deserialization */
+  readonly type = OperationType.OPEN_LONG;
+
+  /** Execution order within the strategy */
+  readonly order: number;
+
+  /** Trading pair for the long position (e.g., 'BTC/USD', 'ETH/USD') */
+  private readonly pair: string;
+
+  /**
+   * Percentage of total capital to allocate to this long position.
+   * Range: 0-100
+   */
+  private readonly capitalPercentage: number;
+
+  /**
+   * Leverage multiplier for the position.
+   * Range: 1-10 (1 = no leverage, 10 = 10x leverage)
+   */
+  private readonly leverage: number;
+
+  /** Price at which the position is closed to cap losses (optional) */
+  private readonly stopLoss?: string;
+
+  /** Price at which the position is closed to lock in gains (optional) */
+  private readonly takeProfit?: string;
+
+  /**
+   * Creates a new OpenPerpetualLongOperation instance.
+   *
+   * @param order - Execution order within the strategy
+   * @param pair - Trading pair for the long (e.g., 'BTC/USD')
+   * @param capitalPercentage - Percentage of capital to allocate (0-100)
+   * @param leverage - Leverage multiplier (1-10, default: 1)
+   * @param stopLoss - Stop-loss price (optional)
+   * @param takeProfit - Take-profit price (optional)
+   */
+  constructor(
+    order: number,
+    pair: string,
+    capitalPercentage: number,
+    leverage: number = 1,
+    stopLoss?: string,
+    takeProfit?: string
+  ) {
+    this.order = order;
+    this.pair = pair;
+    this.capitalPercentage = capitalPercentage;
+    this.leverage = leverage;
+    this.stopLoss = stopLoss;
+    this.takeProfit = takeProfit;
+  }
+
+  /**
+   * Validates the operation parameters.
+   *
+   * Validation checks:
+   * - Trading pair is provided and non-empty
+   * - Capital percentage is within valid range (0-100)
+   * - Leverage is a whole number within safe range (1-10)
+   * - Stop-loss and take-profit are positive numbers if provided
+   * - Stop-loss is below take-profit when both are provided
+   *
+   * @returns ValidationResult indicating whether parameters are valid
+   */
+  validate(): ValidationResult {
+    const errors: string[] = [];
+
+    // Validate trading pair
+    if (!this.pair || this.pair.trim().length === 0) {
+      errors.push('Trading pair is required and cannot be empty');
+    }
+
+    // Validate capital percentage
+    if (this.capitalPercentage <= 0 || this.capitalPercentage > 100) {
+      errors.push('Capital percentage must be between 0 and 100');
+    }
+
+    // Validate leverage
+    if (this.leverage < 1 || this.leverage > 10) {
+      errors.push('Leverage must be between 1 and 10');
+    }
+
+    if (!Number.isInteger(this.leverage)) {
+      errors.push('Leverage must be a whole number');
+    }
+
+    // Validate protective orders
+    const stopLoss = this.stopLoss !== undefined ? parseFloat(this.stopLoss) : undefined;
+    const takeProfit = this.takeProfit !== undefined ? parseFloat(this.takeProfit) : undefined;
+
+    if (stopLoss !== undefined && (isNaN(stopLoss) || stopLoss <= 0)) {
+      errors.push('Stop-loss must be a positive number');
+    }
+
+    if (takeProfit !== undefined && (isNaN(takeProfit) || takeProfit <= 0)) {
+      errors.push('Take-profit must be a positive number');
+    }
+
+    // For a long, the stop sits below the target
+    if (stopLoss !== undefined && takeProfit !== undefined && stopLoss >= takeProfit) {
+      errors.push('Stop-loss must be below take-profit for a long position');
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Opens the perpetual long position within the TEE.
+   *
+   * Execution flow:
+   * 1. Skip gracefully if a price check failed ('priceConditionMet' is false)
+   * 2. Calculate capital amount based on percentage and total allocation
+   * 3. Call PerpetualService to open the long with protective orders
+   * 4. Store position details in ExecutionContext for subsequent operations
+   *
+   * Position details stored in context.state:
+   * - 'longPosition': {
+   *     entryPrice: string,
+   *     amount: string (capital allocated),
+   *     transactionHash: string,
+   *     pair: string,
+   *     leverage: number,
+   *     stopLoss?: string,
+   *     takeProfit?: string
+   *   }
+   *
+   * These details are used by:
+   * - ClosePositionOperation: Closes all or part of the position
+   * - Rollback logic: Closes position if subsequent operations fail
+   *
+   * @param context - Execution context with config and services
+   * @returns Promise resolving to operation result with position data
+   */
+  async execute(context: ExecutionContext): Promise<OperationResult> {
+    const log = getLogger('OpenPerpetualLong', context);
+    // Once the order is sent, a failure may still have opened the position
+    let orderSubmitted = false;
+
+    try {
+      // Step 1: Check if the price check passed
+      // The CheckPriceOperation sets this flag when the strategy is price-gated
+      if (context.state.get('priceConditionMet') === false) {
+        log.info('Skipping execution: price condition not met');
+
+        return {
+          success: false,
+          operationType: this.type,
+          error: {
+            code: 'PRICE_CONDITION_NOT_MET',
+            message: 'Price condition not met, skipping execution',
+            recoverable: true
+          }
+        };
+      }
+
+      // Step 2: Calculate capital amount to allocate to this long position
+      const capitalAmount = this.calculateCapitalAmount(context);
+
+      log.info('Opening position', { pair: this.pair, capitalAmount, leverage: this.leverage });
+
+      // Step 3: Open the long position via PerpetualService
+      const perpService = context.getPerpetualService();
+      orderSubmitted = true;
+      const result = await perpService.openLong({
+        pair: this.pair,
+        amount: capitalAmount,
+        leverage: this.leverage,
+        stopLoss: this.stopLoss,
+        takeProfit: this.takeProfit,
+        wallet: context.wallet,
+        signal: context.signal
+      });
+
+      log.info('Position opened', { entryPrice: result.entryPrice, transactionHash: result.transactionHash });
+
+      // Step 4: Store position details in context for subsequent operations
+      const positionInfo: PositionState = {
+        entryPrice: result.entryPrice,
+        amount: capitalAmount,
+        transactionHash: result.transactionHash,
+        tradeIndex: result.tradeIndex,
+        pair: this.pair,
+        leverage: this.leverage,
+        stopLoss: this.stopLoss,
+        takeProfit: this.takeProfit,
+        timestamp: (context.clock ?? systemClock).now()
+      };
+
+      context.state.set('longPosition', positionInfo);
+
+      return {
+        success: true,
+        operationType: this.type,
+        transactionHash: result.transactionHash,
+        data: {
+          pair: this.pair,
+          amount: capitalAmount,
+          entryPrice: result.entryPrice,
+          leverage: this.leverage,
+          stopLoss: this.stopLoss,
+          takeProfit: this.takeProfit,
+          capitalPercentage: this.capitalPercentage
+        },
+        gasUsed: result.gasUsed
+      };
+
+    } catch (error) {
+      // Handle errors gracefully without exposing sensitive details
+      const transactionHash = orderSubmitted ? sentTransactionHash(error) : undefined;
+      log.error('Open position failed', {
+        code: 'OPEN_LONG_FAILED',
+        submitted: orderSubmitted,
+        transactionHash,
+        error: describeError(error)
+      });
+
+      return {
+        success: false,
+        operationType: this.type,
+        ...(transactionHash !== undefined && { transactionHash }),
+        error: {
+          code: 'OPEN_LONG_FAILED',
+          message: orderSubmitted
+            ? 'Failed to open long position. Check the position on-chain before opening again.'
+            : 'Failed to open long position. Please try again later.',
+          recoverable: !orderSubmitted
+        }
+      };
+    }
+  }
+
+  /**
+   * Rolls back the long position by closing it.
+   *
+   * Called when a subsequent operation fails. Rollback is best-effort:
+   * errors are logged and never thrown.
+   *
+   * @param context - Execution context with position details
+   * @returns Promise that resolves when rollback is complete
+   */
+  async rollback(context: ExecutionContext): Promise<void> {
+    const log = getLogger('OpenPerpetualLong', context);
+
+    try {
+      const position = context.state.get('longPosition');
+
+      if (!position) {
+        log.info('No position to rollback');
+        return;
+      }
+
+      log.info('Rolling back position', { pair: position.pair });
+
+      const perpService = context.getPerpetualService();
+      const result = await perpService.closePosition(position);
+
+      log.info('Position closed', { transactionHash: result.transactionHash });
+
+      context.state.delete('longPosition');
+
+    } catch (error) {
+      // Rollback is best-effort and shouldn't fail the entire strategy
+      log.error('Rollback failed', { error: describeError(error) });
+    }
+  }
+
+  /**
+   * Calculates the capital amount to allocate to this long position.
+   *
+   * Formula:
+   * Capital Amount = (capitalPercentage / 100) × Total Capital Allocation
+   *
+   * @param context - Execution context with capitalAllocation config
+   * @returns Capital amount as a string rounded to 2 decimals (e.g., '5000.00')
+   */
+  private calculateCapitalAmount(context: ExecutionContext): string {
+    const totalCapital = parseFloat(context.config.capitalAllocation);
+    const amount = (this.capitalPercentage / 100) * totalCapital;
+    return amount.toFixed(2);
+  }
+}
+
+/**
+ * The size is a percentage of allocated capital
+ */
+registerOperation({
+  type: OperationType.OPEN_LONG,
+  schema: OPERATION_SCHEMAS[OperationType.OPEN_LONG],
+  create: op => {
+    const { ticker, size, leverage, stopLoss, takeProfit } = op.params;
+
+    return new OpenPerpetualLongOperation(
+      op.order,
+      ticker,
+      Number(size),
+      leverage,
+      toDecimalString(stopLoss),
+      toDecimalString(takeProfit)
+    );
+  }
+});
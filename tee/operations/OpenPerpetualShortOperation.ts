@@ -1,6 +1,11 @@
 import { IOperation } from './IOperation';
 import { OperationType, ValidationResult, OperationResult } from './OperationTypes';
 import { ExecutionContext } from '../executor/ExecutionContext';
+import { PositionState } from '../executor/ExecutionState';
+import { systemClock } from '../executor/Clock';
+import { describeError, getLogger } from '../executor/Tracer';
+import { OPERATION_SCHEMAS } from '../schema/operationSchema';
+import { registerOperation, sentTransactionHash, toDecimalString } from './OperationRegistry';
 
 /**
  * OpenPerpetualShortOperation opens a short position on a perpetual DEX
@@ -8,9 +13,11 @@ import { ExecutionContext } from '../executor/ExecutionContext';
  * 
  * This operation is typically executed after checking that the funding rate
  * is profitable (via CheckFundingRateOperation). It:
- * 1. Checks if the profitability check passed (reads 'isProfitable' from context)
+ * 1. Checks if the profitability and price checks passed (reads 'isProfitable'
+ *    and 'priceConditionMet' from context)
  * 2. Calculates the capital amount to allocate based on percentage
- * 3. Opens a short position on the perpetual DEX with optional leverage
+ * 3. Opens a short position on the perpetual DEX with optional leverage,
+ *    stop-loss and take-profit
  * 4. Stores position details in ExecutionContext for subsequent operations
  * 
  * The short position benefits from positive funding rates, where longs pay shorts.
@@ -40,7 +47,7 @@ import { ExecutionContext } from '../executor/ExecutionContext';
  */
 export class OpenPerpetualShortOperation implements IOperation {
   /** Operation type identifier for serialization/deserialization */
-  readonly type = OperationType.OPEN_PERPETUAL_SHORT;
+  readonly type = OperationType.OPEN_SHORT;
   
   /** Execution order within the strategy */
   readonly order: number;
@@ -63,6 +70,12 @@ export class OpenPerpetualShortOperation implements IOperation {
    */
   private readonly leverage: number;
   
+  /** Price at which the position is closed to cap losses (optional) */
+  private readonly stopLoss?: string;
+  
+  /** Price at which the position is closed to lock in gains (optional) */
+  private readonly takeProfit?: string;
+  
   /**
    * Creates a new OpenPerpetualShortOperation instance.
    * 
@@ -70,17 +83,23 @@ export class OpenPerpetualShortOperation implements IOperation {
    * @param pair - Trading pair for the short (e.g., 'BTC/USD')
    * @param capitalPercentage - Percentage of capital to allocate (0-100)
    * @param leverage - Leverage multiplier (1-10, default: 1)
+   * @param stopLoss - Stop-loss price (optional)
+   * @param takeProfit - Take-profit price (optional)
    */
   constructor(
     order: number,
     pair: string,
     capitalPercentage: number,
-    leverage: number = 1
+    leverage: number = 1,
+    stopLoss?: string,
+    takeProfit?: string
   ) {
     this.order = order;
     this.pair = pair;
     this.capitalPercentage = capitalPercentage;
     this.leverage = leverage;
+    this.stopLoss = stopLoss;
+    this.takeProfit = takeProfit;
   }
   
   /**
@@ -90,6 +109,8 @@ export class OpenPerpetualShortOperation implements IOperation {
    * - Trading pair is provided and non-empty
    * - Capital percentage is within valid range (0-100)
    * - Leverage is within safe range (1-10)
+   * - Stop-loss and take-profit are positive numbers if provided
+   * - Stop-loss is above take-profit when both are provided
    * 
    * @returns ValidationResult indicating whether parameters are valid
    */
@@ -118,6 +139,23 @@ export class OpenPerpetualShortOperation implements IOperation {
       errors.push('Leverage must be a whole number');
     }
     
+    // Validate protective orders
+    const stopLoss = this.stopLoss !== undefined ? parseFloat(this.stopLoss) : undefined;
+    const takeProfit = this.takeProfit !== undefined ? parseFloat(this.takeProfit) : undefined;
+    
+    if (stopLoss !== undefined && (isNaN(stopLoss) || stopLoss <= 0)) {
+      errors.push('Stop-loss must be a positive number');
+    }
+    
+    if (takeProfit !== undefined && (isNaN(takeProfit) || takeProfit <= 0)) {
+      errors.push('Take-profit must be a positive number');
+    }
+    
+    // For a short, the stop sits above the target
+    if (stopLoss !== undefined && takeProfit !== undefined && stopLoss <= takeProfit) {
+      errors.push('Stop-loss must be above take-profit for a short position');
+    }
+    
     return {
       isValid: errors.length === 0,
       errors
@@ -128,8 +166,9 @@ export class OpenPerpetualShortOperation implements IOperation {
    * Executes the perpetual short position opening within the TEE.
    * 
    * Execution flow:
-   * 1. Check if profitability check passed (read 'isProfitable' from context)
-   * 2. If not profitable, skip execution and return gracefully
+   * 1. Check if profitability and price checks passed (read 'isProfitable'
+   *    and 'priceConditionMet' from context)
+   * 2. If either failed, skip execution and return gracefully
    * 3. Calculate capital amount based on percentage and total allocation
    * 4. Call PerpetualService to open the short position
    * 5. Store position details in ExecutionContext for subsequent operations
@@ -148,7 +187,9 @@ export class OpenPerpetualShortOperation implements IOperation {
    *     amount: string (capital allocated),
    *     transactionHash: string (blockchain tx hash),
    *     pair: string (trading pair),
-   *     leverage: number (leverage used)
+   *     leverage: number (leverage used),
+   *     stopLoss: string | undefined,
+   *     takeProfit: string | undefined
    *   }
    * 
    * These details are used by:
@@ -160,6 +201,10 @@ export class OpenPerpetualShortOperation implements IOperation {
    * @returns Promise resolving to operation result with position data
    */
   async execute(context: ExecutionContext): Promise<OperationResult> {
+    const log = getLogger('OpenPerpetualShort', context);
+    // Once the order is sent, a failure may still have opened the position
+    let orderSubmitted = false;
+
     try {
       // Step 1: Check if profitability check passed
       // The CheckFundingRateOperation should have set this flag
@@ -167,7 +212,7 @@ export class OpenPerpetualShortOperation implements IOperation {
       
       if (isProfitable === false) {
         // Funding rate not profitable, skip execution gracefully
-        console.log('[TEE OpenPerpetualShort] Skipping execution: funding rate not profitable');
+        log.info('Skipping execution: funding rate not profitable');
         
         return {
           success: false,
@@ -180,36 +225,54 @@ export class OpenPerpetualShortOperation implements IOperation {
         };
       }
       
+      // The CheckPriceOperation sets this flag when the strategy is price-gated
+      if (context.state.get('priceConditionMet') === false) {
+        log.info('Skipping execution: price condition not met');
+        
+        return {
+          success: false,
+          operationType: this.type,
+          error: {
+            code: 'PRICE_CONDITION_NOT_MET',
+            message: 'Price condition not met, skipping execution',
+            recoverable: true
+          }
+        };
+      }
+      
       // Step 2: Calculate capital amount to allocate to this short position
       const capitalAmount = this.calculateCapitalAmount(context);
       
-      console.log(`[TEE OpenPerpetualShort] Opening short position on ${this.pair}`);
-      console.log(`[TEE OpenPerpetualShort] Capital amount: ${capitalAmount}`);
-      console.log(`[TEE OpenPerpetualShort] Leverage: ${this.leverage}x`);
+      log.info('Opening position', { pair: this.pair, capitalAmount, leverage: this.leverage });
       
       // Step 3: Open the short position via PerpetualService
       const perpService = context.getPerpetualService();
+      orderSubmitted = true;
       const result = await perpService.openShort({
         pair: this.pair,
         amount: capitalAmount,
         leverage: this.leverage,
-        wallet: context.wallet
+        stopLoss: this.stopLoss,
+        takeProfit: this.takeProfit,
+        wallet: context.wallet,
+        signal: context.signal
       });
       
-      console.log(`[TEE OpenPerpetualShort] Position opened successfully`);
-      console.log(`[TEE OpenPerpetualShort] Entry price: ${result.entryPrice}`);
-      console.log(`[TEE OpenPerpetualShort] Transaction: ${result.transactionHash}`);
+      log.info('Position opened', { entryPrice: result.entryPrice, transactionHash: result.transactionHash });
       
       // Step 4: Store position details in context for subsequent operations
       // This allows SpotBuyOperation to reference the entry price
       // and enables rollback if needed
-      const positionInfo = {
+      const positionInfo: PositionState = {
         entryPrice: result.entryPrice,
         amount: capitalAmount,
         transactionHash: result.transactionHash,
+        tradeIndex: result.tradeIndex,
         pair: this.pair,
         leverage: this.leverage,
-        timestamp: Date.now()
+        stopLoss: this.stopLoss,
+        takeProfit: this.takeProfit,
+        timestamp: (context.clock ?? systemClock).now()
       };
       
       context.state.set('shortPosition', positionInfo);
@@ -224,6 +287,8 @@ export class OpenPerpetualShortOperation implements IOperation {
           amount: capitalAmount,
           entryPrice: result.entryPrice,
           leverage: this.leverage,
+          stopLoss: this.stopLoss,
+          takeProfit: this.takeProfit,
           capitalPercentage: this.capitalPercentage
         },
         gasUsed: result.gasUsed
@@ -231,15 +296,24 @@ export class OpenPerpetualShortOperation implements IOperation {
       
     } catch (error) {
       // Handle errors gracefully without exposing sensitive details
-      console.error('[TEE OpenPerpetualShort] Error:', error);
+      const transactionHash = orderSubmitted ? sentTransactionHash(error) : undefined;
+      log.error('Open position failed', {
+        code: 'OPEN_SHORT_FAILED',
+        submitted: orderSubmitted,
+        transactionHash,
+        error: describeError(error)
+      });
       
       return {
         success: false,
         operationType: this.type,
+        ...(transactionHash !== undefined && { transactionHash }),
         error: {
           code: 'OPEN_SHORT_FAILED',
-          message: 'Failed to open short position. Please try again later.',
-          recoverable: true
+          message: orderSubmitted
+            ? 'Failed to open short position. Check the position on-chain before opening again.'
+            : 'Failed to open short position. Please try again later.',
+          recoverable: !orderSubmitted
         }
       };
     }
@@ -264,24 +338,24 @@ export class OpenPerpetualShortOperation implements IOperation {
    * @returns Promise that resolves when rollback is complete
    */
   async rollback(context: ExecutionContext): Promise<void> {
+    const log = getLogger('OpenPerpetualShort', context);
+
     try {
       // Retrieve the position details stored during execute()
       const position = context.state.get('shortPosition');
       
       if (!position) {
-        console.log('[TEE OpenPerpetualShort] No position to rollback');
+        log.info('No position to rollback');
         return;
       }
       
-      console.log('[TEE OpenPerpetualShort] Rolling back short position');
-      console.log(`[TEE OpenPerpetualShort] Position: ${position.pair} at ${position.entryPrice}`);
+      log.info('Rolling back position', { pair: position.pair, entryPrice: position.entryPrice });
       
       // Close the position via PerpetualService
       const perpService = context.getPerpetualService();
       const result = await perpService.closePosition(position);
       
-      console.log('[TEE OpenPerpetualShort] Position closed successfully');
-      console.log(`[TEE OpenPerpetualShort] Transaction: ${result.transactionHash}`);
+      log.info('Position closed', { transactionHash: result.transactionHash });
       
       // Clear the position from context state
       context.state.delete('shortPosition');
@@ -289,7 +363,7 @@ export class OpenPerpetualShortOperation implements IOperation {
     } catch (error) {
       // Log rollback failure but don't throw
       // Rollback is best-effort and shouldn't fail the entire strategy
-      console.error('[TEE OpenPerpetualShort] Rollback failed:', error);
+      log.error('Rollback failed', { error: describeError(error) });
     }
   }
   
@@ -327,3 +401,23 @@ export class OpenPerpetualShortOperation implements IOperation {
     return amount.toFixed(2);
   }
 }
+
+/**
+ * The size is a percentage of allocated capital
+ */
+registerOperation({
+  type: OperationType.OPEN_SHORT,
+  schema: OPERATION_SCHEMAS[OperationType.OPEN_SHORT],
+  create: op => {
+    const { ticker, size, leverage, stopLoss, takeProfit } = op.params;
+
+    return new OpenPerpetualShortOperation(
+      op.order,
+      ticker,
+      Number(size),
+      leverage,
+      toDecimalString(stopLoss),
+      toDecimalString(takeProfit)
+    );
+  }
+});
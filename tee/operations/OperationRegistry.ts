@@ -0,0 +1,175 @@
+import { IOperation } from './IOperation';
+import { OperationType } from './OperationTypes';
+import {
+  CURRENT_FORMAT_VERSION,
+  Decimal,
+  FieldSpec,
+  OperationParamsMap,
+  OperationSpec,
+  SerializedOperation
+} from '../schema/operationSchema';
+import { OperationManifest } from '../schema/manifest';
+
+/**
+ * Builds the operation of a validated serialized operation, envelope included.
+ * Given to constructors of operations that contain other operations.
+ */
+export type OperationBuilder = (op: SerializedOperation) => IOperation;
+
+/**
+ * Registration of one operation type
+ */
+export interface OperationDefinition<T extends OperationType = OperationType> {
+  /** Operation type, as found in serialized strategies */
+  type: T;
+
+  /** Schema of the operation's parameters (its entry in OPERATION_SCHEMAS) */
+  schema: OperationSpec<OperationParamsMap[T]>;
+
+  /**
+   * Creates the operation from validated serialized data.
+   * Envelope fields (label, optional, retry, ...) are applied by OperationFactory.
+   *
+   * @param op - Validated serialized operation, with its references resolved
+   * @param build - Builds nested serialized operations (e.g., conditional branches)
+   * @returns Operation instance
+   */
+  create(op: SerializedOperation<T>, build: OperationBuilder): IOperation;
+}
+
+/**
+ * Type-erased view of an OperationDefinition, as stored by the registry
+ */
+interface AnyOperationDefinition {
+  type: OperationType;
+  schema: { params: Record<string, FieldSpec> };
+  create(op: SerializedOperation, build: OperationBuilder): IOperation;
+}
+
+/**
+ * OperationRegistry maps operation types to the definitions OperationFactory
+ * instantiates them with.
+ *
+ * Each operation module registers its own type with registerOperation() when
+ * it is loaded, so adding an operation does not touch the factory. The
+ * registry also describes what this TEE build supports (see describe()), which
+ * the frontend checks strategies against before they are sold.
+ *
+ * @example
+ * ```typescript
+ * registerOperation({
+ *   type: OperationType.MOCK_OPERATION,
+ *   schema: OPERATION_SCHEMAS[OperationType.MOCK_OPERATION],
+ *   create: op => new MockOperation(op.order, op.params.message, op.params.delay ?? 1000)
+ * });
+ * ```
+ */
+export class OperationRegistry {
+  /** Registered definitions, by operation type */
+  private readonly definitions = new Map<OperationType, AnyOperationDefinition>();
+
+  /**
+   * Registers an operation type.
+   *
+   * @param definition - Type, parameter schema and constructor of the operation
+   * @throws Error if the type is already registered
+   */
+  register<T extends OperationType>(definition: OperationDefinition<T>): void {
+    if (this.definitions.has(definition.type)) {
+      throw new Error(`Operation type already registered: ${definition.type}`);
+    }
+    this.definitions.set(definition.type, definition as unknown as AnyOperationDefinition);
+  }
+
+  /**
+   * Looks up the definition of an operation type.
+   *
+   * @param type - Operation type
+   * @returns Its definition, or undefined if the type is not registered
+   */
+  get<T extends OperationType>(type: T): OperationDefinition<T> | undefined {
+    return this.definitions.get(type) as unknown as OperationDefinition<T> | undefined;
+  }
+
+  /**
+   * Lists the registered operation types.
+   *
+   * @returns Registered types, in registration order
+   */
+  types(): OperationType[] {
+    return [...this.definitions.keys()];
+  }
+
+  /**
+   * Describes the operation types and parameters this TEE build supports.
+   *
+   * @returns Manifest of the registered operations, safe to serialize
+   */
+  describe(): OperationManifest {
+    return {
+      formatVersion: CURRENT_FORMAT_VERSION,
+      operations: [...this.definitions.values()].map(definition => ({
+        type: definition.type,
+        params: { ...definition.schema.params }
+      }))
+    };
+  }
+}
+
+/**
+ * Registry of the operations built into this TEE
+ */
+export const operationRegistry = new OperationRegistry();
+
+/**
+ * Registers an operation type with the built-in registry.
+ * Called by each operation module when it is loaded.
+ *
+ * @param definition - Type, parameter schema and constructor of the operation
+ */
+export function registerOperation<T extends OperationType>(definition: OperationDefinition<T>): void {
+  operationRegistry.register(definition);
+}
+
+/**
+ * Converts an optional decimal parameter to the string form used by operations.
+ *
+ * References have been resolved by DeferredOperation before operations are created.
+ *
+ * @param value - Decimal given as a string or number
+ * @returns The value as a string, or undefined if not provided
+ */
+export function toDecimalString(value: Decimal | undefined): string | undefined {
+  return value === undefined ? undefined : String(value);
+}
+
+/**
+ * Extracts the base asset of a trading pair.
+ *
+ * @param ticker - Trading pair (e.g., 'BTC/USDC')
+ * @returns Base asset symbol (e.g., 'BTC')
+ */
+export function baseAsset(ticker: string): string {
+  return ticker.split('/')[0];
+}
+
+/**
+ * Reads the transaction a failed service call had already sent from the
+ * error it threw: its `transactionHash`, or the latest of its
+ * `transactionHashes` when the transaction was replaced.
+ *
+ * @param error - Error thrown by a service
+ * @returns Transaction hash, or undefined if the error carries none
+ */
+export function sentTransactionHash(error: unknown): string | undefined {
+  if (typeof error !== 'object' || error === null) {
+    return undefined;
+  }
+
+  const { transactionHash, transactionHashes } = error as { transactionHash?: unknown; transactionHashes?: unknown };
+  if (typeof transactionHash === 'string') {
+    return transactionHash;
+  }
+  const latest: unknown = Array.isArray(transactionHashes) ? transactionHashes[transactionHashes.length - 1] : undefined;
+  return typeof latest === 'string' ? latest : undefined;
+}
@@ -1,23 +1,11 @@
+import { OperationType } from '../schema/operationSchema';
+
 /**
  * Operation types supported by the TEE execution environment.
- * Each type represents a distinct operation that can be executed as part of a strategy.
+ * Defined in the shared schema so the frontend serializes exactly the types
+ * the OperationFactory understands.
  */
-export enum OperationType {
-  /** Mock operation for testing TEE integration without real blockchain interactions */
-  MOCK_OPERATION = 'mock_operation',
-  
-  /** Checks current funding rate and determines if execution should proceed */
-  CHECK_FUNDING_RATE = 'check_funding_rate',
-  
-  /** Opens a short position on a perpetual DEX */
-  OPEN_PERPETUAL_SHORT = 'open_perpetual_short',
-  
-  /** Executes a spot buy order using 1inch Fusion */
-  SPOT_BUY = 'spot_buy',
-  
-  /** Closes an open position */
-  CLOSE_POSITION = 'close_position'
-}
+export { OperationType };
 
 /**
  * Result of a validation check on an operation.
@@ -42,6 +30,9 @@ export interface OperationResult {
   /** Type of operation that was executed */
   operationType: OperationType;
   
+  /** Label of the operation that was executed, if it has one (set by StrategyExecutor) */
+  label?: string;
+  
   /** Transaction hash if a blockchain transaction was executed */
   transactionHash?: string;
   
@@ -51,8 +42,31 @@ export interface OperationResult {
   /** Error information if the operation failed */
   error?: OperationError;
   
-  /** Amount of gas used for the operation (in wei) */
+  /** Amount of gas used for the operation (in wei), including failed attempts */
   gasUsed?: string;
+  
+  /** Every attempt made, in order (operations with a retry policy only; set by StrategyExecutor) */
+  attempts?: OperationAttempt[];
+}
+
+/**
+ * One attempt at executing an operation that has a retry policy.
+ */
+export interface OperationAttempt {
+  /** Attempt number, starting at 1 */
+  attempt: number;
+  
+  /** Whether this attempt succeeded */
+  success: boolean;
+  
+  /** Sanitized error of a failed attempt */
+  error?: OperationError;
+  
+  /** Gas used by this attempt (in wei) */
+  gasUsed?: string;
+  
+  /** Delay before the next attempt in milliseconds, when the operation was retried */
+  delayMs?: number;
 }
 
 /**
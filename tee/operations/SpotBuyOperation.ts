@@ -1,6 +1,26 @@
 import { IOperation } from './IOperation';
 import { OperationType, ValidationResult, OperationResult } from './OperationTypes';
-import { ExecutionContext } from '../executor/ExecutionContext';
+import { ExecutionContext, OneInchService, SpotFailoverPolicy } from '../executor/ExecutionContext';
+import { SpotHolding } from '../executor/ExecutionState';
+import { describeError, getLogger } from '../executor/Tracer';
+import { systemClock, pollUntil } from '../executor/Clock';
+import { OPERATION_SCHEMAS } from '../schema/operationSchema';
+import { baseAsset, registerOperation, sentTransactionHash, toDecimalString } from './OperationRegistry';
+
+/** Maximum time to wait for the short position to confirm, in milliseconds */
+const SHORT_CONFIRMATION_TIMEOUT_MS = 2 * 60 * 1000;
+
+/** Delay between two confirmation checks, in milliseconds */
+const SHORT_CONFIRMATION_POLL_INTERVAL_MS = 2000;
+
+/** Fusion error codes spot buys may fail over on, with the policy setting allowing it */
+const FAILOVER_SETTINGS: Record<string, keyof SpotFailoverPolicy> = {
+  FUSION_QUOTE_UNAVAILABLE: 'onQuoteUnavailable',
+  FUSION_ORDER_EXPIRED: 'onOrderExpired'
+};
+
+type SwapParams = Parameters<OneInchService['executeFusionSwap']>[0];
+type SwapResult = Awaited<ReturnType<OneInchService['executeFusionSwap']>>;
 
 /**
  * SpotBuyOperation executes a spot buy order using 1inch Fusion
@@ -31,7 +51,8 @@ import { ExecutionContext } from '../executor/ExecutionContext';
  * 
  * - Limit Order: Executes at a specific target price or better via 1inch Fusion
  *   Used when executionMode is 'optimized'
- *   References the confirmed short entry price to ensure balanced entry
+ *   References the confirmed short entry price to ensure balanced entry,
+ *   or a fixed maximum price
  *   Uses 1inch Fusion's resolver network to execute when conditions are met
  *   May take longer to fill but provides better price control
  * 
@@ -53,6 +74,13 @@ import { ExecutionContext } from '../executor/ExecutionContext';
  * This ensures the spot buy happens at approximately the same price as
  * the short, creating a balanced delta-neutral position.
  * 
+ * Fallback Route:
+ * When the context provides a fallback spot service (Uniswap V3), the swap
+ * fails over to it as `network.spotFailover` allows: always when 1inch
+ * Fusion is disabled, and otherwise when Fusion has no quote or a market
+ * order expires unfilled. The fallback swaps immediately, so limit orders
+ * through it either fill at the target price or better, or fail.
+ * 
  * Holding details stored in context.state:
  * - 'spotHolding': Object containing asset, amount, order details
  * 
@@ -105,6 +133,13 @@ export class SpotBuyOperation implements IOperation {
    */
   private readonly priceReference?: 'short_entry_price';
   
+  /**
+   * Maximum price willing to pay (optional).
+   * Used as the limit price when no price reference is set, and caps the
+   * referenced price otherwise. Only used when orderType is 'limit'.
+   */
+  private readonly maxPrice?: string;
+  
   /**
    * Creates a new SpotBuyOperation instance.
    * 
@@ -113,19 +148,22 @@ export class SpotBuyOperation implements IOperation {
    * @param capitalPercentage - Percentage of capital to allocate (0-100)
    * @param orderType - Order type ('market' or 'limit')
    * @param priceReference - Price reference for limit orders (optional)
+   * @param maxPrice - Maximum price for limit orders (optional)
    */
   constructor(
     order: number,
     asset: string,
     capitalPercentage: number,
     orderType: 'market' | 'limit',
-    priceReference?: 'short_entry_price'
+    priceReference?: 'short_entry_price',
+    maxPrice?: string
   ) {
     this.order = order;
     this.asset = asset;
     this.capitalPercentage = capitalPercentage;
     this.orderType = orderType;
     this.priceReference = priceReference;
+    this.maxPrice = maxPrice;
   }
   
   /**
@@ -135,8 +173,9 @@ export class SpotBuyOperation implements IOperation {
    * - Asset is provided and non-empty
    * - Capital percentage is within valid range (0-100)
    * - Order type is either 'market' or 'limit'
-   * - If order type is 'limit', price reference should be provided
+   * - If order type is 'limit', a price reference or maximum price should be provided
    * - Price reference is valid if provided
+   * - Maximum price is a positive number if provided
    * 
    * @returns ValidationResult indicating whether parameters are valid
    */
@@ -160,9 +199,9 @@ export class SpotBuyOperation implements IOperation {
     }
     
     // Validate price reference for limit orders
-    // Limit orders should have a price reference to ensure proper execution
-    if (this.orderType === 'limit' && !this.priceReference) {
-      errors.push('Price reference is required for limit orders');
+    // Limit orders need a price to target to ensure proper execution
+    if (this.orderType === 'limit' && !this.priceReference && this.maxPrice === undefined) {
+      errors.push('Price reference or maximum price is required for limit orders');
     }
     
     // Validate price reference value if provided
@@ -170,6 +209,14 @@ export class SpotBuyOperation implements IOperation {
       errors.push('Price reference must be "short_entry_price" if provided');
     }
     
+    // Validate maximum price if provided
+    if (this.maxPrice !== undefined) {
+      const maxPrice = parseFloat(this.maxPrice);
+      if (isNaN(maxPrice) || maxPrice <= 0) {
+        errors.push('Maximum price must be a positive number');
+      }
+    }
+    
     return {
       isValid: errors.length === 0,
       errors
@@ -241,12 +288,16 @@ export class SpotBuyOperation implements IOperation {
    * @returns Promise resolving to operation result with order data
    */
   async execute(context: ExecutionContext): Promise<OperationResult> {
+    const log = getLogger('SpotBuy', context);
+    // Once a swap is submitted, a failure may still have bought on-chain
+    let swapSubmitted = false;
+
     try {
       // Step 1: Retrieve short position details from context
       const shortPosition = context.state.get('shortPosition');
       
       if (!shortPosition || !shortPosition.transactionHash) {
-        console.error('[TEE SpotBuy] Short position not found in context');
+        log.error('Short position not found in context', { code: 'MISSING_SHORT_POSITION' });
         
         return {
           success: false,
@@ -259,8 +310,7 @@ export class SpotBuyOperation implements IOperation {
         };
       }
       
-      console.log(`[TEE SpotBuy] Found short position: ${shortPosition.transactionHash}`);
-      console.log(`[TEE SpotBuy] Waiting for short position confirmation...`);
+      log.info('Waiting for short position confirmation', { transactionHash: shortPosition.transactionHash });
       
       // Step 2: Wait for short position transaction to be confirmed on-chain
       // This is the "hook trigger" - we wait for the event before proceeding
@@ -269,14 +319,12 @@ export class SpotBuyOperation implements IOperation {
         shortPosition.transactionHash
       );
       
-      console.log(`[TEE SpotBuy] Short position confirmed at price: ${confirmedPrice}`);
+      log.info('Short position confirmed', { entryPrice: confirmedPrice });
       
       // Step 3: Calculate capital amount to allocate to this spot buy
       const capitalAmount = this.calculateCapitalAmount(context);
       
-      console.log(`[TEE SpotBuy] Executing spot buy for ${this.asset}`);
-      console.log(`[TEE SpotBuy] Capital amount: ${capitalAmount}`);
-      console.log(`[TEE SpotBuy] Order type: ${this.orderType}`);
+      log.info('Executing spot buy', { asset: this.asset, capitalAmount, orderType: this.orderType });
       
       // Step 4: Determine target price based on order type and price reference
       let targetPrice: string | undefined;
@@ -286,36 +334,54 @@ export class SpotBuyOperation implements IOperation {
         // This ensures we reference the actual executed price, not an estimate
         targetPrice = confirmedPrice;
         
-        console.log(`[TEE SpotBuy] Using confirmed short entry price as target: ${targetPrice}`);
+        // Never pay more than the user's maximum
+        if (this.maxPrice !== undefined && parseFloat(this.maxPrice) < parseFloat(targetPrice)) {
+          targetPrice = this.maxPrice;
+        }
+        
+        log.info('Using confirmed short entry price as target', { targetPrice });
+      } else if (this.orderType === 'limit') {
+        targetPrice = this.maxPrice;
+        
+        log.info('Using maximum price as target', { targetPrice });
       }
       
       // Step 5: Create 1inch Fusion order
       // For limit orders, the Fusion resolver network acts as the "callback"
-      // that executes the order when price conditions are met
-      const oneInchService = context.getOneInchService();
-      const result = await oneInchService.executeFusionSwap({
+      // that executes the order when price conditions are met. When the short's
+      // slot is known, the order also only fills while the short is open.
+      swapSubmitted = true;
+      const { result, route } = await this.swap(context, {
         asset: this.asset,
+        side: 'buy',
         amount: capitalAmount,
         orderType: this.orderType,
         targetPrice,
+        shortPosition: shortPosition.tradeIndex === undefined
+          ? undefined
+          : { pair: shortPosition.pair, tradeIndex: shortPosition.tradeIndex, entryPrice: confirmedPrice },
         wallet: context.wallet,
-        slippage: context.config.slippageTolerance
+        slippage: context.config.slippageTolerance,
+        signal: context.signal
       });
       
-      if (this.orderType === 'market') {
-        console.log(`[TEE SpotBuy] Market order executed immediately`);
-        console.log(`[TEE SpotBuy] Amount received: ${result.amountReceived}`);
-        console.log(`[TEE SpotBuy] Execution price: ${result.executionPrice}`);
-        console.log(`[TEE SpotBuy] Transaction: ${result.transactionHash}`);
+      // Swaps through the fallback are immediate, limit orders included
+      const filled = this.orderType === 'market' || route === 'fallback';
+      
+      if (filled) {
+        log.info('Spot buy executed', {
+          route,
+          amountReceived: result.amountReceived,
+          executionPrice: result.executionPrice,
+          transactionHash: result.transactionHash
+        });
       } else {
-        console.log(`[TEE SpotBuy] Limit order created via 1inch Fusion`);
-        console.log(`[TEE SpotBuy] Order ID: ${result.fusionOrderId}`);
-        console.log(`[TEE SpotBuy] Target price: ${targetPrice}`);
-        console.log(`[TEE SpotBuy] Fusion resolvers will execute when price matches`);
+        // Fusion resolvers execute the order when the price matches
+        log.info('Limit order created via 1inch Fusion', { fusionOrderId: result.fusionOrderId, targetPrice });
       }
       
       // Step 6: Store holding/order details in context for result tracking
-      const holdingInfo = {
+      const holdingInfo: SpotHolding = {
         asset: this.asset,
         amount: result.amountReceived || capitalAmount, // For limit orders, this is expected amount
         transactionHash: result.transactionHash,
@@ -324,8 +390,9 @@ export class SpotBuyOperation implements IOperation {
         targetPrice,
         amountSpent: capitalAmount,
         orderType: this.orderType,
-        status: this.orderType === 'market' ? 'filled' : 'pending',
-        timestamp: Date.now()
+        route,
+        status: filled ? 'filled' : 'pending',
+        timestamp: (context.clock ?? systemClock).now()
       };
       
       context.state.set('spotHolding', holdingInfo);
@@ -343,6 +410,7 @@ export class SpotBuyOperation implements IOperation {
           fusionOrderId: result.fusionOrderId,
           targetPrice,
           orderType: this.orderType,
+          route,
           capitalPercentage: this.capitalPercentage,
           status: holdingInfo.status
         },
@@ -351,27 +419,78 @@ export class SpotBuyOperation implements IOperation {
       
     } catch (error) {
       // Handle errors gracefully without exposing sensitive details
-      console.error('[TEE SpotBuy] Error:', error);
+      const transactionHash = swapSubmitted ? sentTransactionHash(error) : undefined;
+      const fusionOrderId = swapSubmitted ? fusionOrderOf(error) : undefined;
+      log.error('Spot buy failed', {
+        code: 'SPOT_BUY_FAILED',
+        submitted: swapSubmitted,
+        transactionHash,
+        fusionOrderId,
+        error: describeError(error)
+      });
       
       return {
         success: false,
         operationType: this.type,
+        ...(transactionHash !== undefined && { transactionHash }),
+        ...(fusionOrderId !== undefined && { data: { fusionOrderId } }),
         error: {
           code: 'SPOT_BUY_FAILED',
-          message: 'Failed to execute spot buy. Please try again later.',
-          recoverable: true
+          message: swapSubmitted
+            ? 'Failed to execute spot buy. Check the wallet and open orders before buying again.'
+            : 'Failed to execute spot buy. Please try again later.',
+          recoverable: !swapSubmitted
         }
       };
     }
   }
   
+  /**
+   * Swaps through 1inch Fusion, failing over to the fallback spot service
+   * as the network's spotFailover policy allows.
+   * 
+   * Without a policy, Fusion is enabled and every failover applies. Without
+   * a fallback service, Fusion failures are thrown as they are.
+   * 
+   * @param context - Execution context with the spot services
+   * @param params - Swap parameters
+   * @returns Promise resolving to the swap result and the service that made it
+   * @throws Error if Fusion is disabled without a fallback, or the swap fails
+   */
+  private async swap(
+    context: ExecutionContext,
+    params: SwapParams
+  ): Promise<{ result: SwapResult; route: 'fusion' | 'fallback' }> {
+    const policy = context.network?.spotFailover ?? {};
+    
+    if (policy.fusionEnabled === false) {
+      if (!context.getFallbackSpotService) {
+        throw new Error('1inch Fusion is disabled and no fallback spot service is configured');
+      }
+      return { result: await context.getFallbackSpotService().executeFusionSwap(params), route: 'fallback' };
+    }
+    
+    try {
+      return { result: await context.getOneInchService().executeFusionSwap(params), route: 'fusion' };
+    } catch (error) {
+      const code = error instanceof Error && 'code' in error && typeof error.code === 'string' ? error.code : undefined;
+      const setting = code === undefined ? undefined : FAILOVER_SETTINGS[code];
+      if (!setting || policy[setting] === false || !context.getFallbackSpotService) {
+        throw error;
+      }
+      
+      getLogger('SpotBuy', context).warn('Failing over to the fallback spot service', { code, error: describeError(error) });
+      return { result: await context.getFallbackSpotService().executeFusionSwap(params), route: 'fallback' };
+    }
+  }
+  
   /**
    * Waits for the short position transaction to be confirmed on-chain
    * and retrieves the actual entry price.
    * 
    * This method implements the "hook trigger" by:
-   * 1. Monitoring the blockchain for transaction confirmation
-   * 2. Reading the confirmed entry price from the transaction receipt
+   * 1. Polling the perpetual service for the transaction's confirmation status
+   * 2. Reading the confirmed entry price once the position is confirmed
    * 3. Returning the price once confirmed
    * 
    * The confirmation ensures that:
@@ -379,11 +498,10 @@ export class SpotBuyOperation implements IOperation {
    * - We have the real entry price (not an estimate)
    * - The spot buy references accurate data
    * 
-   * Implementation:
-   * - Uses the wallet's provider to monitor transaction status
-   * - Waits for the configured number of confirmations (typically 1-3)
-   * - Parses the transaction receipt to extract the entry price
-   * - Times out after a reasonable period to prevent hanging
+   * Polling uses the shared pollUntil() helper with the context clock and is
+   * bounded by SHORT_CONFIRMATION_TIMEOUT_MS. If the perpetual service cannot
+   * report confirmation status, the entry price recorded when the position
+   * was opened is used as-is.
    * 
    * @param context - Execution context with wallet and network config
    * @param transactionHash - Hash of the short position transaction
@@ -394,31 +512,43 @@ export class SpotBuyOperation implements IOperation {
     context: ExecutionContext,
     transactionHash: string
   ): Promise<string> {
-    // Get the short position details which should include the entry price
-    // In a real implementation, this would:
-    // 1. Use context.wallet to get the provider
-    // 2. Call provider.waitForTransaction(transactionHash, confirmations)
-    // 3. Parse the transaction receipt to extract the entry price
-    // 4. Handle timeouts and errors appropriately
-    
-    // For now, we'll use the entry price from context as it's already available
-    // The real implementation would verify this on-chain
     const shortPosition = context.state.get('shortPosition');
+    const perpService = context.getPerpetualService();
     
-    if (!shortPosition || !shortPosition.entryPrice) {
-      throw new Error('Short position entry price not available');
+    // Services without confirmation tracking: trust the reported entry price
+    if (!perpService.getPositionStatus) {
+      if (!shortPosition || !shortPosition.entryPrice) {
+        throw new Error('Short position entry price not available');
+      }
+      
+      return shortPosition.entryPrice;
     }
     
-    // In production, add actual blockchain confirmation logic here:
-    // const provider = context.wallet.getProvider();
-    // const receipt = await provider.waitForTransaction(transactionHash, 1);
-    // const entryPrice = parseEntryPriceFromReceipt(receipt);
-    // return entryPrice;
+    getLogger('SpotBuy', context).info('Confirming transaction', { transactionHash });
     
-    // Simulate confirmation delay (in production, this is real blockchain wait time)
-    console.log(`[TEE SpotBuy] Confirming transaction: ${transactionHash}`);
+    const getPositionStatus = perpService.getPositionStatus.bind(perpService);
+    let confirmedPrice: string | undefined;
     
-    return shortPosition.entryPrice;
+    const poll = await pollUntil(
+      context.clock ?? systemClock,
+      { timeoutMs: SHORT_CONFIRMATION_TIMEOUT_MS, intervalMs: SHORT_CONFIRMATION_POLL_INTERVAL_MS, signal: context.signal },
+      async () => {
+        const status = await getPositionStatus(transactionHash);
+        confirmedPrice = status.entryPrice;
+        return status.confirmed;
+      }
+    );
+    
+    if (!poll.satisfied) {
+      throw new Error('Timed out waiting for short position confirmation');
+    }
+    
+    const entryPrice = confirmedPrice ?? shortPosition?.entryPrice;
+    if (!entryPrice) {
+      throw new Error('Short position entry price not available');
+    }
+    
+    return entryPrice;
   }
   
   /**
@@ -455,3 +585,36 @@ export class SpotBuyOperation implements IOperation {
     return amount.toFixed(2);
   }
 }
+
+/**
+ * The amount is a percentage of allocated capital. Without an explicit order
+ * type, a limit order is placed when a maximum price or price reference is
+ * given, and a market order otherwise.
+ */
+registerOperation({
+  type: OperationType.SPOT_BUY,
+  schema: OPERATION_SCHEMAS[OperationType.SPOT_BUY],
+  create: op => {
+    const { ticker, amount, maxPrice, priceReference } = op.params;
+    const hasLimitPrice = maxPrice !== undefined || priceReference !== undefined;
+
+    return new SpotBuyOperation(
+      op.order,
+      baseAsset(ticker),
+      Number(amount),
+      op.params.orderType ?? (hasLimitPrice ? 'limit' : 'market'),
+      priceReference,
+      toDecimalString(maxPrice)
+    );
+  }
+});
+
+/**
+ * Reads the Fusion order a failed swap had placed from the error it threw
+ *
+ * @param error - Error thrown by the spot service
+ * @returns Order hash, or undefined if the error carries none
+ */
+function fusionOrderOf(error: unknown): string | undefined {
+  return error instanceof Error && 'orderHash' in error && typeof error.orderHash === 'string' ? error.orderHash : undefined;
+}
@@ -0,0 +1,391 @@
+import { formatUnits } from 'ethers';
+import { IOperation } from './IOperation';
+import { OperationType, ValidationResult, OperationResult } from './OperationTypes';
+import { ExecutionContext } from '../executor/ExecutionContext';
+import { SpotSale } from '../executor/ExecutionState';
+import { systemClock } from '../executor/Clock';
+import { describeError, getLogger } from '../executor/Tracer';
+import { OPERATION_SCHEMAS } from '../schema/operationSchema';
+import { baseAsset, registerOperation, toDecimalString } from './OperationRegistry';
+
+/**
+ * SpotSellOperation executes a spot sell order using 1inch Fusion.
+ *
+ * This is the counterpart of SpotBuyOperation and is used to unwind the spot
+ * leg of a delta-neutral position. It:
+ * 1. Determines the current holdings of the asset
+ * 2. Sizes the sale (absolute quantity or percentage of holdings)
+ * 3. Determines the order type and, for limit orders, the target price
+ * 4. Sells through 1inch Fusion with the configured price floor
+ * 5. Records the fill in ExecutionContext for subsequent operations
+ *
+ * Holdings are resolved in this order:
+ * - 'spotHolding' in context.state (set by SpotBuyOperation in the same run)
+ * - The wallet's ERC-20 balance, if the asset is listed in NetworkConfig.tokens
+ *
+ * Order Types:
+ * - Market Order: Sells immediately. When minPrice is set, it is passed to
+ *   1inch as a floor so the swap never fills below it.
+ * - Limit Order: Creates a Fusion order at minPrice (or, if no minPrice is
+ *   given, at the spot entry price recorded by SpotBuyOperation).
+ *
+ * When no order type is given, it follows the user's execution mode:
+ * 'instant' uses market orders and 'optimized' uses limit orders.
+ *
+ * Sale details stored in context.state:
+ * - 'spotSale': Object containing amount sold, amount received, price and order details
+ * - 'spotHolding': amount reduced by the quantity sold (market orders only)
+ *
+ * @example
+ * ```typescript
+ * // Sell all BTC bought earlier, never below $49,000
+ * const spotSellOp = new SpotSellOperation(
+ *   4,              // Execute fourth
+ *   'BTC',          // Asset to sell
+ *   '100',          // 100% ...
+ *   true,           // ... of current holdings
+ *   'market',       // Market order
+ *   '49000'         // Price floor
+ * );
+ * ```
+ */
+export class SpotSellOperation implements IOperation {
+  /** Operation type identifier for serialization/deserialization */
+  readonly type = OperationType.SPOT_SELL;
+
+  /** Execution order within the strategy */
+  readonly order: number;
+
+  /** Asset to sell (e.g., 'BTC', 'ETH') */
+  private readonly asset: string;
+
+  /**
+   * Amount to sell.
+   * Quantity of the asset, or a percentage (0-100] of holdings when isPercentage is true.
+   */
+  private readonly amount: string;
+
+  /** Whether amount is a percentage of current holdings */
+  private readonly isPercentage: boolean;
+
+  /**
+   * Order type for the swap (optional).
+   * When omitted, derived from the execution mode at execution time.
+   */
+  private readonly orderType?: 'market' | 'limit';
+
+  /** Lowest acceptable execution price (optional) */
+  private readonly minPrice?: string;
+
+  /**
+   * Creates a new SpotSellOperation instance.
+   *
+   * @param order - Execution order within the strategy
+   * @param asset - Asset to sell (e.g., 'BTC', 'ETH')
+   * @param amount - Quantity to sell, or percentage of holdings
+   * @param isPercentage - Whether amount is a percentage of holdings (default: false)
+   * @param orderType - Order type ('market' or 'limit'); defaults to the execution mode
+   * @param minPrice - Lowest acceptable execution price (optional)
+   */
+  constructor(
+    order: number,
+    asset: string,
+    amount: string,
+    isPercentage: boolean = false,
+    orderType?: 'market' | 'limit',
+    minPrice?: string
+  ) {
+    this.order = order;
+    this.asset = asset;
+    this.amount = amount;
+    this.isPercentage = isPercentage;
+    this.orderType = orderType;
+    this.minPrice = minPrice;
+  }
+
+  /**
+   * Validates the operation parameters.
+   *
+   * Validation checks:
+   * - Asset is provided and non-empty
+   * - Amount is a positive number (at most 100 when it is a percentage)
+   * - Order type is either 'market' or 'limit' if provided
+   * - Minimum price is a positive number if provided
+   *
+   * @returns ValidationResult indicating whether parameters are valid
+   */
+  validate(): ValidationResult {
+    const errors: string[] = [];
+
+    // Validate asset
+    if (!this.asset || this.asset.trim().length === 0) {
+      errors.push('Asset is required and cannot be empty');
+    }
+
+    // Validate amount
+    const amount = parseFloat(this.amount);
+    if (isNaN(amount) || amount <= 0) {
+      errors.push('Amount must be a positive number');
+    } else if (this.isPercentage && amount > 100) {
+      errors.push('Percentage amount must be between 0 and 100');
+    }
+
+    // Validate order type if provided
+    if (this.orderType !== undefined && this.orderType !== 'market' && this.orderType !== 'limit') {
+      errors.push('Order type must be either "market" or "limit"');
+    }
+
+    // Validate minimum price if provided
+    if (this.minPrice !== undefined) {
+      const minPrice = parseFloat(this.minPrice);
+      if (isNaN(minPrice) || minPrice <= 0) {
+        errors.push('Minimum price must be a positive number');
+      }
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Executes the spot sell order within the TEE.
+   *
+   * Execution flow:
+   * 1. Resolve current holdings of the asset
+   * 2. Compute the quantity to sell and check it does not exceed holdings
+   * 3. Determine the order type and limit price
+   * 4. Sell through 1inch Fusion with the price floor
+   * 5. Record the sale and update the remaining holding in context state
+   *
+   * Results stored in context.state:
+   * - 'spotSale': {
+   *     asset: string,
+   *     amountSold: string (quantity of asset sold),
+   *     amountReceived: string (quote currency received or expected),
+   *     executionPrice: string,
+   *     transactionHash / fusionOrderId,
+   *     orderType: 'market' | 'limit',
+   *     status: 'filled' | 'pending'
+   *   }
+   *
+   * @param context - Execution context with config and services
+   * @returns Promise resolving to operation result with sale data
+   */
+  async execute(context: ExecutionContext): Promise<OperationResult> {
+    const log = getLogger('SpotSell', context);
+
+    try {
+      // Step 1: Resolve holdings
+      const holdings = await this.getHoldings(context);
+
+      // Step 2: Compute the quantity to sell
+      if (this.isPercentage && holdings === undefined) {
+        log.error('No holdings found', { code: 'MISSING_SPOT_HOLDING', asset: this.asset });
+
+        return {
+          success: false,
+          operationType: this.type,
+          error: {
+            code: 'MISSING_SPOT_HOLDING',
+            message: 'Spot holding details not available. Please ensure operations execute in order.',
+            recoverable: false
+          }
+        };
+      }
+
+      const quantity = this.isPercentage
+        ? (parseFloat(this.amount) / 100) * holdings!
+        : parseFloat(this.amount);
+
+      if (quantity <= 0 || (holdings !== undefined && quantity > holdings)) {
+        log.error('Insufficient holdings', { code: 'INSUFFICIENT_HOLDINGS', asset: this.asset });
+
+        return {
+          success: false,
+          operationType: this.type,
+          error: {
+            code: 'INSUFFICIENT_HOLDINGS',
+            message: 'Insufficient holdings to complete the sale.',
+            recoverable: false
+          }
+        };
+      }
+
+      const amountToSell = this.formatQuantity(quantity);
+
+      // Dust below 8 decimals truncates to nothing to sell
+      if (parseFloat(amountToSell) === 0) {
+        log.error('Sell amount rounds down to zero', { code: 'INVALID_SELL_AMOUNT', asset: this.asset });
+
+        return {
+          success: false,
+          operationType: this.type,
+          error: {
+            code: 'INVALID_SELL_AMOUNT',
+            message: `Sell amount ${quantity} ${this.asset} is below the smallest tradable quantity.`,
+            recoverable: false
+          }
+        };
+      }
+
+      // Step 3: Determine order type and limit price
+      const orderType = this.orderType ?? (context.config.executionMode === 'instant' ? 'market' : 'limit');
+      let targetPrice: string | undefined;
+
+      if (orderType === 'limit') {
+        targetPrice = this.minPrice ?? context.state.get('spotHolding')?.executionPrice;
+
+        if (!targetPrice) {
+          return {
+            success: false,
+            operationType: this.type,
+            error: {
+              code: 'MISSING_LIMIT_PRICE',
+              message: 'A limit price is required for limit sell orders.',
+              recoverable: false
+            }
+          };
+        }
+      }
+
+      log.info('Executing spot sell', { asset: this.asset, amount: amountToSell, orderType });
+
+      // Step 4: Sell through 1inch Fusion
+      const oneInchService = context.getOneInchService();
+      const result = await oneInchService.executeFusionSwap({
+        asset: this.asset,
+        side: 'sell',
+        amount: amountToSell,
+        orderType,
+        targetPrice,
+        minPrice: this.minPrice,
+        wallet: context.wallet,
+        slippage: context.config.slippageTolerance,
+        signal: context.signal
+      });
+
+      const status = orderType === 'market' ? 'filled' : 'pending';
+
+      if (orderType === 'market') {
+        log.info('Market order executed', {
+          amountReceived: result.amountReceived,
+          transactionHash: result.transactionHash
+        });
+      } else {
+        log.info('Limit order created via 1inch Fusion', { fusionOrderId: result.fusionOrderId });
+      }
+
+      // Step 5: Record the sale and update the remaining holding
+      const saleInfo: SpotSale = {
+        asset: this.asset,
+        amountSold: amountToSell,
+        amountReceived: result.amountReceived,
+        executionPrice: result.executionPrice || targetPrice,
+        transactionHash: result.transactionHash,
+        fusionOrderId: result.fusionOrderId,
+        orderType,
+        status,
+        timestamp: (context.clock ?? systemClock).now()
+      };
+
+      context.state.set('spotSale', saleInfo);
+
+      const spotHolding = context.state.get('spotHolding');
+      if (status === 'filled' && spotHolding && spotHolding.asset === this.asset) {
+        context.state.set('spotHolding', {
+          ...spotHolding,
+          amount: this.formatQuantity(Math.max(parseFloat(spotHolding.amount) - quantity, 0))
+        });
+      }
+
+      return {
+        success: true,
+        operationType: this.type,
+        transactionHash: result.transactionHash,
+        data: {
+          asset: this.asset,
+          amountSold: amountToSell,
+          amountReceived: result.amountReceived,
+          executionPrice: saleInfo.executionPrice,
+          fusionOrderId: result.fusionOrderId,
+          minPrice: this.minPrice,
+          orderType,
+          status
+        },
+        gasUsed: result.gasUsed
+      };
+
+    } catch (error) {
+      // Handle errors gracefully without exposing sensitive details
+      log.error('Spot sell failed', { code: 'SPOT_SELL_FAILED', error: describeError(error) });
+
+      return {
+        success: false,
+        operationType: this.type,
+        error: {
+          code: 'SPOT_SELL_FAILED',
+          message: 'Failed to execute spot sell. Please try again later.',
+          recoverable: true
+        }
+      };
+    }
+  }
+
+  /**
+   * Resolves the current holdings of the asset.
+   *
+   * Prefers the holding recorded by SpotBuyOperation in this run. Otherwise,
+   * reads the wallet's token balance if the asset is listed in
+   * NetworkConfig.tokens.
+   *
+   * @param context - Execution context with state, wallet and network config
+   * @returns Holdings as a number of asset units, or undefined if unknown
+   */
+  private async getHoldings(context: ExecutionContext): Promise<number | undefined> {
+    const spotHolding = context.state.get('spotHolding');
+    if (spotHolding && spotHolding.asset === this.asset && spotHolding.status === 'filled') {
+      return parseFloat(spotHolding.amount);
+    }
+
+    const token = context.network?.tokens?.[this.asset];
+    if (token) {
+      const balance = await context.wallet.getBalance(token.address);
+      return parseFloat(formatUnits(balance, token.decimals));
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Formats an asset quantity for the swap request.
+   *
+   * Quantities are rounded down to 8 decimals so that selling a percentage of
+   * holdings never requests more than is actually held.
+   *
+   * @param quantity - Asset quantity
+   * @returns Quantity as a string (e.g., '0.05')
+   */
+  private formatQuantity(quantity: number): string {
+    const truncated = Math.floor(quantity * 1e8) / 1e8;
+    return truncated.toFixed(8).replace(/\.?0+$/, '');
+  }
+}
+
+registerOperation({
+  type: OperationType.SPOT_SELL,
+  schema: OPERATION_SCHEMAS[OperationType.SPOT_SELL],
+  create: op => {
+    const { ticker, amount, isPercentage, orderType, minPrice } = op.params;
+
+    return new SpotSellOperation(
+      op.order,
+      baseAsset(ticker),
+      String(amount),
+      isPercentage ?? false,
+      orderType,
+      toDecimalString(minPrice)
+    );
+  }
+});
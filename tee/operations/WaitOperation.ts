@@ -0,0 +1,328 @@
+import { IOperation } from './IOperation';
+import { OperationType, ValidationResult, OperationResult } from './OperationTypes';
+import { ExecutionContext } from '../executor/ExecutionContext';
+import { describeError, getLogger } from '../executor/Tracer';
+import { ConditionEvaluator } from '../executor/ConditionEvaluator';
+import { systemClock, pollUntil } from '../executor/Clock';
+import { OPERATION_SCHEMAS } from '../schema/operationSchema';
+import { registerOperation } from './OperationRegistry';
+
+/**
+ * Maximum time a single WaitOperation may wait, in milliseconds.
+ * iExec tasks have a hard time budget, so waits must stay well below it.
+ */
+export const MAX_WAIT_DURATION_MS = 15 * 60 * 1000;
+
+/** Default delay between two condition checks, in milliseconds */
+export const DEFAULT_POLL_INTERVAL_MS = 5000;
+
+/** Minimum delay between two condition checks, in milliseconds */
+const MIN_POLL_INTERVAL_MS = 100;
+
+/**
+ * Live data source refreshed before each condition check.
+ *
+ * State-only conditions never change while an operation is waiting, so a
+ * wait on market data or on-chain confirmation needs fresh values on every
+ * poll. Each source fetches one value and stores it in context.state under
+ * `stateKey`, where the condition can reference it.
+ *
+ * - 'funding_rate': current funding rate for `pair` (default key: 'fundingRate')
+ * - 'position_status': confirmation status of a position opening transaction
+ *   (default key: 'positionStatus'). Uses `transactionHash`, or the short
+ *   position recorded by OpenPerpetualShortOperation when omitted.
+ */
+export type WaitSource =
+  | { source: 'funding_rate'; pair: string; stateKey?: string }
+  | { source: 'position_status'; transactionHash?: string; stateKey?: string };
+
+/**
+ * WaitOperation pauses strategy execution for a bounded amount of time,
+ * optionally until a condition becomes true.
+ *
+ * Two modes are supported:
+ *
+ * - **Fixed delay** (no condition): sleeps for `duration` milliseconds.
+ * - **Condition polling**: refreshes the configured live sources, evaluates
+ *   the condition and repeats every `pollInterval` milliseconds until the
+ *   condition holds or `duration` elapses. `duration` is then the timeout.
+ *
+ * Conditions use the ConditionEvaluator syntax, for example:
+ * - 'state.fundingRate >= 0.01' with a 'funding_rate' source
+ * - 'state.positionStatus.confirmed' with a 'position_status' source
+ *
+ * All waiting goes through the ExecutionContext clock, so tests can run the
+ * operation deterministically with a fake clock.
+ *
+ * @example
+ * ```typescript
+ * // Wait up to 10 minutes for the BTC funding rate to reach 1 basis point
+ * const waitOp = new WaitOperation(
+ *   2,
+ *   600000,
+ *   'state.fundingRate >= 0.0001',
+ *   30000,
+ *   [{ source: 'funding_rate', pair: 'BTC/USD' }]
+ * );
+ * ```
+ */
+export class WaitOperation implements IOperation {
+  /** Operation type identifier for serialization/deserialization */
+  readonly type = OperationType.WAIT;
+
+  /** Execution order within the strategy */
+  readonly order: number;
+
+  /** Sleeping and polling read-only sources can be repeated */
+  readonly idempotent = true;
+
+  /**
+   * Wait duration in milliseconds.
+   * Fixed delay without a condition, maximum wait (timeout) with one.
+   */
+  private readonly duration: number;
+
+  /** Condition to wait for (optional) */
+  private readonly condition?: string;
+
+  /** Delay between condition checks in milliseconds */
+  private readonly pollInterval: number;
+
+  /** Live data sources refreshed before each condition check */
+  private readonly refresh: WaitSource[];
+
+  /**
+   * Creates a new WaitOperation instance.
+   *
+   * @param order - Execution order within the strategy
+   * @param duration - Delay, or timeout when a condition is given, in milliseconds
+   * @param condition - Condition to wait for (optional)
+   * @param pollInterval - Delay between condition checks (default: 5000ms)
+   * @param refresh - Live data sources to refresh before each check (default: none)
+   */
+  constructor(
+    order: number,
+    duration: number,
+    condition?: string,
+    pollInterval: number = DEFAULT_POLL_INTERVAL_MS,
+    refresh: WaitSource[] = []
+  ) {
+    this.order = order;
+    this.duration = duration;
+    this.condition = condition;
+    this.pollInterval = pollInterval;
+    this.refresh = refresh;
+  }
+
+  /**
+   * Validates the operation parameters.
+   *
+   * Validation checks:
+   * - Duration is a non-negative number within MAX_WAIT_DURATION_MS
+   * - Condition is syntactically valid if provided
+   * - Poll interval is at least 100ms
+   * - Refresh sources are only used together with a condition and are well-formed
+   *
+   * @returns ValidationResult indicating whether parameters are valid
+   */
+  validate(): ValidationResult {
+    const errors: string[] = [];
+
+    // Validate duration
+    if (!Number.isFinite(this.duration) || this.duration < 0) {
+      errors.push('Wait duration must be a non-negative number');
+    } else if (this.duration > MAX_WAIT_DURATION_MS) {
+      errors.push(`Wait duration must not exceed ${MAX_WAIT_DURATION_MS}ms`);
+    }
+
+    // Validate condition syntax if provided
+    if (this.condition !== undefined) {
+      errors.push(...ConditionEvaluator.validate(this.condition));
+    }
+
+    // Validate poll interval
+    if (!Number.isFinite(this.pollInterval) || this.pollInterval < MIN_POLL_INTERVAL_MS) {
+      errors.push(`Poll interval must be at least ${MIN_POLL_INTERVAL_MS}ms`);
+    }
+
+    // Refreshing sources only makes sense when a condition reads them
+    if (this.refresh.length > 0 && this.condition === undefined) {
+      errors.push('Refresh sources require a condition');
+    }
+
+    this.refresh.forEach((source, index) => {
+      if (source.source === 'funding_rate') {
+        if (!source.pair || source.pair.trim().length === 0) {
+          errors.push(`Refresh source ${index} requires a trading pair`);
+        }
+      } else if (source.source !== 'position_status') {
+        errors.push(`Refresh source ${index} has unknown type "${(source as { source: string }).source}"`);
+      }
+    });
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Executes the wait within the TEE.
+   *
+   * Execution flow:
+   * - Without a condition: sleep for the configured duration
+   * - With a condition:
+   *   1. Refresh live sources into context.state
+   *   2. Evaluate the condition
+   *   3. Repeat every pollInterval until it holds or the duration elapses
+   *
+   * Results stored in context.state:
+   * - One entry per refresh source, under its stateKey
+   *
+   * @param context - Execution context with state, services and clock
+   * @returns Promise resolving to operation result with wait metrics
+   */
+  async execute(context: ExecutionContext): Promise<OperationResult> {
+    const clock = context.clock ?? systemClock;
+    const log = getLogger('Wait', context);
+
+    try {
+      // Fixed delay: nothing to poll
+      if (this.condition === undefined) {
+        log.info('Waiting', { durationMs: this.duration });
+        await clock.sleep(this.duration, context.signal);
+
+        return {
+          success: true,
+          operationType: this.type,
+          data: {
+            waitedMs: this.duration
+          }
+        };
+      }
+
+      log.info('Polling condition', { intervalMs: this.pollInterval, durationMs: this.duration });
+
+      // Sources may fail to refresh on the first checks; their keys read as undefined until then
+      this.refresh.forEach(source => context.state.declare(this.stateKey(source)));
+
+      const condition = this.condition;
+      const poll = await pollUntil(
+        clock,
+        { timeoutMs: this.duration, intervalMs: this.pollInterval, signal: context.signal },
+        async () => {
+          await this.refreshSources(context);
+          return ConditionEvaluator.evaluate(condition, context);
+        }
+      );
+
+      if (!poll.satisfied) {
+        log.warn('Condition not met before the wait timed out', { code: 'WAIT_TIMEOUT', checks: poll.attempts });
+
+        return {
+          success: false,
+          operationType: this.type,
+          data: {
+            conditionMet: false,
+            waitedMs: poll.elapsedMs,
+            checks: poll.attempts
+          },
+          error: {
+            code: 'WAIT_TIMEOUT',
+            message: 'Condition was not met before the wait timed out.',
+            recoverable: true
+          }
+        };
+      }
+
+      log.info('Condition met', { checks: poll.attempts });
+
+      return {
+        success: true,
+        operationType: this.type,
+        data: {
+          conditionMet: true,
+          waitedMs: poll.elapsedMs,
+          checks: poll.attempts
+        }
+      };
+
+    } catch (error) {
+      // Handle errors gracefully without exposing sensitive details
+      log.error('Wait failed', { code: 'WAIT_FAILED', error: describeError(error) });
+
+      return {
+        success: false,
+        operationType: this.type,
+        error: {
+          code: 'WAIT_FAILED',
+          message: 'Failed while waiting for strategy condition.',
+          recoverable: true
+        }
+      };
+    }
+  }
+
+  /**
+   * Refreshes every configured live source into context.state.
+   *
+   * A source that fails to refresh (e.g., a transient RPC error) is logged
+   * and skipped; the condition is then evaluated against the previous value
+   * and polling continues until the timeout.
+   *
+   * @param context - Execution context with state and services
+   * @returns Promise that resolves when all sources were refreshed
+   */
+  private async refreshSources(context: ExecutionContext): Promise<void> {
+    for (const source of this.refresh) {
+      try {
+        switch (source.source) {
+          case 'funding_rate': {
+            const rate = await context.getDexService().getFundingRate(source.pair);
+            context.state.write(this.stateKey(source), rate);
+            break;
+          }
+
+          case 'position_status': {
+            const perpService = context.getPerpetualService();
+            const transactionHash = source.transactionHash ?? context.state.get('shortPosition')?.transactionHash;
+
+            if (!transactionHash || !perpService.getPositionStatus) {
+              throw new Error('Position status is not available');
+            }
+
+            const status = await perpService.getPositionStatus(transactionHash);
+            context.state.write(this.stateKey(source), status);
+            break;
+          }
+        }
+      } catch (error) {
+        getLogger('Wait', context).warn('Failed to refresh source', { source: source.source, error: describeError(error) });
+      }
+    }
+  }
+
+  /**
+   * Gets the state key a refresh source is stored under.
+   *
+   * @param source - Refresh source
+   * @returns Its stateKey, or the default key of its source
+   */
+  private stateKey(source: WaitSource): string {
+    return source.stateKey ?? (source.source === 'funding_rate' ? 'fundingRate' : 'positionStatus');
+  }
+}
+
+/**
+ * Range checks (maximum duration, minimum poll interval) are left to
+ * validate(), which runs before execution
+ */
+registerOperation({
+  type: OperationType.WAIT,
+  schema: OPERATION_SCHEMAS[OperationType.WAIT],
+  create: op => {
+    const { duration, condition, pollInterval, refresh } = op.params;
+
+    return new WaitOperation(op.order, duration, condition, pollInterval ?? DEFAULT_POLL_INTERVAL_MS, refresh ?? []);
+  }
+});
@@ -1,7 +1,8 @@
 import { describe, it, expect, vi } from 'vitest';
 import { CheckFundingRateOperation } from '../CheckFundingRateOperation';
 import { OperationType } from '../OperationTypes';
-import { ExecutionContext, DexService } from '../../executor/ExecutionContext';
+import { ExecutionContext, DexService, FeeService } from '../../executor/ExecutionContext';
+import { ExecutionState } from '../../executor/ExecutionState';
 
 describe('CheckFundingRateOperation', () => {
   describe('constructor', () => {
@@ -74,6 +75,15 @@ describe('CheckFundingRateOperation', () => {
       expect(result.isValid).toBe(false);
       expect(result.errors).toContain('Estimated gas cost must be a valid non-negative number');
     });
+    
+    it('should reject a maximum rate below the minimum', () => {
+      const op = new CheckFundingRateOperation(1, 'BTC/USD', 0.01, '50', 0.005);
+      
+      const result = op.validate();
+      
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain('Maximum rate must not be below the minimum profitable rate');
+    });
   });
   
   describe('execute', () => {
@@ -90,7 +100,7 @@ describe('CheckFundingRateOperation', () => {
           slippageTolerance: 0.5,
           executionMode: 'instant' as const
         },
-        state: new Map(),
+        state: new ExecutionState(),
         getDexService: () => mockDexService
       } as ExecutionContext;
       
@@ -119,7 +129,7 @@ describe('CheckFundingRateOperation', () => {
           slippageTolerance: 0.5,
           executionMode: 'instant' as const
         },
-        state: new Map(),
+        state: new ExecutionState(),
         getDexService: () => mockDexService
       } as ExecutionContext;
       
@@ -131,6 +141,29 @@ describe('CheckFundingRateOperation', () => {
       expect(mockContext.state.get('isProfitable')).toBe(false);
     });
     
+    it('should mark as unprofitable when funding rate is above the maximum', async () => {
+      const mockDexService: DexService = {
+        getFundingRate: vi.fn().mockResolvedValue(0.05) // 5% funding rate
+      };
+      
+      const mockContext = {
+        config: {
+          capitalAllocation: '10000',
+          slippageTolerance: 0.5,
+          executionMode: 'instant' as const
+        },
+        state: new ExecutionState(),
+        getDexService: () => mockDexService
+      } as ExecutionContext;
+      
+      const op = new CheckFundingRateOperation(1, 'BTC/USD', 0.01, '50', 0.03); // Accepts 1% to 3%
+      const result = await op.execute(mockContext);
+      
+      expect(result.success).toBe(true);
+      expect(result.data?.isProfitable).toBe(false);
+      expect(result.data?.maxRate).toBe(0.03);
+    });
+    
     it('should mark as unprofitable when expected profit is negative', async () => {
       const mockDexService: DexService = {
         getFundingRate: vi.fn().mockResolvedValue(0.01) // 1% funding rate
@@ -142,7 +175,7 @@ describe('CheckFundingRateOperation', () => {
           slippageTolerance: 0.5,
           executionMode: 'instant' as const
         },
-        state: new Map(),
+        state: new ExecutionState(),
         getDexService: () => mockDexService
       } as ExecutionContext;
       
@@ -167,7 +200,7 @@ describe('CheckFundingRateOperation', () => {
           slippageTolerance: 0.5,
           executionMode: 'instant' as const
         },
-        state: new Map(),
+        state: new ExecutionState(),
         getDexService: () => mockDexService
       } as ExecutionContext;
       
@@ -192,7 +225,7 @@ describe('CheckFundingRateOperation', () => {
           slippageTolerance: 0.5,
           executionMode: 'instant' as const
         },
-        state: new Map(),
+        state: new ExecutionState(),
         getDexService: () => mockDexService
       } as ExecutionContext;
       
@@ -219,7 +252,7 @@ describe('CheckFundingRateOperation', () => {
             slippageTolerance: 0.5,
             executionMode: 'instant' as const
           },
-          state: new Map(),
+          state: new ExecutionState(),
           getDexService: () => mockDexService
         } as ExecutionContext;
         
@@ -249,7 +282,7 @@ describe('CheckFundingRateOperation', () => {
             slippageTolerance: 0.5,
             executionMode: 'instant' as const
           },
-          state: new Map(),
+          state: new ExecutionState(),
           getDexService: () => mockDexService
         } as ExecutionContext;
         
@@ -276,7 +309,7 @@ describe('CheckFundingRateOperation', () => {
             slippageTolerance: 0.5,
             executionMode: 'instant' as const
           },
-          state: new Map(),
+          state: new ExecutionState(),
           getDexService: () => mockDexService
         } as ExecutionContext;
         
@@ -305,7 +338,7 @@ describe('CheckFundingRateOperation', () => {
             slippageTolerance: 0.5,
             executionMode: 'instant' as const
           },
-          state: new Map(),
+          state: new ExecutionState(),
           getDexService: () => mockDexService
         } as ExecutionContext;
         
@@ -332,7 +365,7 @@ describe('CheckFundingRateOperation', () => {
             slippageTolerance: 0.5,
             executionMode: 'instant' as const
           },
-          state: new Map(),
+          state: new ExecutionState(),
           getDexService: () => mockDexService
         } as ExecutionContext;
         
@@ -359,7 +392,7 @@ describe('CheckFundingRateOperation', () => {
             slippageTolerance: 0.5,
             executionMode: 'instant' as const
           },
-          state: new Map(),
+          state: new ExecutionState(),
           getDexService: () => mockDexService
         } as ExecutionContext;
         
@@ -386,7 +419,7 @@ describe('CheckFundingRateOperation', () => {
             slippageTolerance: 0.5,
             executionMode: 'instant' as const
           },
-          state: new Map(),
+          state: new ExecutionState(),
           getDexService: () => mockDexService
         } as ExecutionContext;
         
@@ -415,7 +448,7 @@ describe('CheckFundingRateOperation', () => {
             slippageTolerance: 0.5,
             executionMode: 'instant' as const
           },
-          state: new Map(),
+          state: new ExecutionState(),
           getDexService: () => mockDexService
         } as ExecutionContext;
         
@@ -443,7 +476,7 @@ describe('CheckFundingRateOperation', () => {
             slippageTolerance: 0.5,
             executionMode: 'instant' as const
           },
-          state: new Map(),
+          state: new ExecutionState(),
           getDexService: () => mockDexService
         } as ExecutionContext;
         
@@ -471,7 +504,7 @@ describe('CheckFundingRateOperation', () => {
             slippageTolerance: 0.5,
             executionMode: 'instant' as const
           },
-          state: new Map(),
+          state: new ExecutionState(),
           getDexService: () => mockDexService
         } as ExecutionContext;
         
@@ -486,6 +519,54 @@ describe('CheckFundingRateOperation', () => {
         expect(result.data?.expectedProfit).toBe(-110);
         expect(result.data?.isProfitable).toBe(false);
       });
+      
+      it('should use the live fee estimate when no gas cost is fixed', async () => {
+        const mockDexService: DexService = {
+          getFundingRate: vi.fn().mockResolvedValue(0.02)
+        };
+        const mockFeeService = {
+          estimateStrategyFees: vi.fn().mockResolvedValue({ gasUnits: 560000, totalFeeUSD: 0.25 })
+        } as unknown as FeeService;
+        
+        const mockContext = {
+          config: {
+            capitalAllocation: '10000',
+            slippageTolerance: 0.5,
+            executionMode: 'instant' as const
+          },
+          state: new ExecutionState(),
+          getDexService: () => mockDexService,
+          getFeeService: () => mockFeeService
+        } as ExecutionContext;
+        
+        const result = await new CheckFundingRateOperation(1, 'BTC/USD', 0.01).execute(mockContext);
+        
+        // Expected profit: 200 - 0.25 - 10 = 189.75
+        expect(result.data?.breakdown.gasCosts).toBe(0.25);
+        expect(result.data?.expectedProfit).toBe(189.75);
+        expect(mockFeeService.estimateStrategyFees).toHaveBeenCalledOnce();
+      });
+      
+      it('should fail the check when fees cannot be estimated', async () => {
+        const mockContext = {
+          config: {
+            capitalAllocation: '10000',
+            slippageTolerance: 0.5,
+            executionMode: 'instant' as const
+          },
+          state: new ExecutionState(),
+          getDexService: () => ({ getFundingRate: vi.fn().mockResolvedValue(0.02) }),
+          getFeeService: () => ({
+            estimateStrategyFees: vi.fn().mockRejectedValue(new Error('ETH/USD price feed answer is stale (7200s old)'))
+          })
+        } as unknown as ExecutionContext;
+        
+        const result = await new CheckFundingRateOperation(1, 'BTC/USD', 0.01).execute(mockContext);
+        
+        expect(result.success).toBe(false);
+        expect(result.error?.code).toBe('FUNDING_RATE_CHECK_FAILED');
+        expect(mockContext.state.has('isProfitable')).toBe(false);
+      });
     });
     
     describe('execution decision logic', () => {
@@ -500,7 +581,7 @@ describe('CheckFundingRateOperation', () => {
             slippageTolerance: 0.5,
             executionMode: 'instant' as const
           },
-          state: new Map(),
+          state: new ExecutionState(),
           getDexService: () => mockDexService
         } as ExecutionContext;
         
@@ -528,7 +609,7 @@ describe('CheckFundingRateOperation', () => {
             slippageTolerance: 0.5,
             executionMode: 'instant' as const
           },
-          state: new Map(),
+          state: new ExecutionState(),
           getDexService: () => mockDexService
         } as ExecutionContext;
         
@@ -556,7 +637,7 @@ describe('CheckFundingRateOperation', () => {
             slippageTolerance: 0.5,
             executionMode: 'instant' as const
           },
-          state: new Map(),
+          state: new ExecutionState(),
           getDexService: () => mockDexService
         } as ExecutionContext;
         
@@ -584,7 +665,7 @@ describe('CheckFundingRateOperation', () => {
             slippageTolerance: 0.5,
             executionMode: 'instant' as const
           },
-          state: new Map(),
+          state: new ExecutionState(),
           getDexService: () => mockDexService
         } as ExecutionContext;
         
@@ -623,7 +704,7 @@ describe('CheckFundingRateOperation', () => {
               slippageTolerance: 0.5,
               executionMode: 'instant' as const
             },
-            state: new Map(),
+            state: new ExecutionState(),
             getDexService: () => mockDexService
           } as ExecutionContext;
           
@@ -0,0 +1,141 @@
+import { describe, it, expect, vi } from 'vitest';
+import { CheckLiquidityOperation } from '../CheckLiquidityOperation';
+import { OperationType } from '../OperationTypes';
+import { ExecutionContext, OneInchService, PerpetualService } from '../../executor/ExecutionContext';
+import { ExecutionState } from '../../executor/ExecutionState';
+
+function createPerpService(availableOpenInterest: string = '1000000', priceImpact: number = 0.1) {
+  return {
+    openShort: vi.fn(),
+    openLong: vi.fn(),
+    closePosition: vi.fn(),
+    getMarketLiquidity: vi.fn().mockResolvedValue({ availableOpenInterest, priceImpact })
+  } satisfies PerpetualService;
+}
+
+function createOneInchService(priceImpact: number = 0.2) {
+  return {
+    executeFusionSwap: vi.fn(),
+    getQuote: vi.fn().mockResolvedValue({ amountOut: '0.1', priceImpact })
+  } satisfies OneInchService;
+}
+
+function createContext(perpService: PerpetualService, oneInchService: OneInchService): ExecutionContext {
+  return {
+    config: {
+      capitalAllocation: '10000',
+      slippageTolerance: 0.5,
+      executionMode: 'instant' as const
+    },
+    state: new ExecutionState(),
+    getPerpetualService: () => perpService,
+    getOneInchService: () => oneInchService,
+    getPriceService: () => ({ getPrice: vi.fn().mockResolvedValue('50000') })
+  } as unknown as ExecutionContext;
+}
+
+describe('CheckLiquidityOperation', () => {
+  describe('validate', () => {
+    it('should validate correct parameters', () => {
+      expect(new CheckLiquidityOperation(1, 'BTC/USD', 50, 2).validate().isValid).toBe(true);
+    });
+
+    it('should reject out-of-range parameters', () => {
+      const result = new CheckLiquidityOperation(1, 'BTC/USD', 0, 20, 'short', true, 150).validate();
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toEqual([
+        'Capital percentage must be between 0 and 100',
+        'Leverage must be between 1 and 10',
+        'Maximum price impact must be between 0 and 100'
+      ]);
+    });
+  });
+
+  describe('execute', () => {
+    it('should pass when both venues can absorb the size', async () => {
+      const perpService = createPerpService();
+      const oneInch = createOneInchService();
+      const context = createContext(perpService, oneInch);
+
+      const result = await new CheckLiquidityOperation(1, 'BTC/USD', 50, 2).execute(context);
+
+      expect(result.success).toBe(true);
+      expect(result.operationType).toBe(OperationType.CHECK_LIQUIDITY);
+      expect(perpService.getMarketLiquidity).toHaveBeenCalledWith({ pair: 'BTC/USD', side: 'short', notional: '10000.00' });
+      expect(oneInch.getQuote).toHaveBeenCalledWith({ asset: 'BTC', side: 'buy', amount: '5000.00' });
+      expect(context.state.get('hasSufficientLiquidity')).toBe(true);
+    });
+
+    it('should block when the open-interest cap is too small', async () => {
+      const context = createContext(createPerpService('8000'), createOneInchService());
+
+      const result = await new CheckLiquidityOperation(1, 'BTC/USD', 50, 2).execute(context);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('INSUFFICIENT_LIQUIDITY');
+      expect(result.data?.perp.sufficient).toBe(false);
+      expect(context.state.get('hasSufficientLiquidity')).toBe(false);
+    });
+
+    it('should block when spot price impact exceeds the slippage tolerance', async () => {
+      const context = createContext(createPerpService(), createOneInchService(0.8));
+
+      const result = await new CheckLiquidityOperation(1, 'BTC/USD').execute(context);
+
+      expect(result.success).toBe(false);
+      expect(result.data?.reasons).toEqual(['Spot price impact 0.8% exceeds the maximum of 0.5%']);
+    });
+
+    it('should honor an explicit maximum price impact', async () => {
+      const context = createContext(createPerpService('1000000', 0.8), createOneInchService(0.8));
+
+      const result = await new CheckLiquidityOperation(1, 'BTC/USD', 100, 1, 'short', true, 1).execute(context);
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should quote a spot sell in asset units when hedging a long', async () => {
+      const oneInch = createOneInchService();
+      const context = createContext(createPerpService(), oneInch);
+
+      await new CheckLiquidityOperation(1, 'BTC/USD', 50, 1, 'long').execute(context);
+
+      expect(oneInch.getQuote).toHaveBeenCalledWith({ asset: 'BTC', side: 'sell', amount: '0.10000000' });
+    });
+
+    it('should skip the spot route when disabled', async () => {
+      const oneInch = createOneInchService();
+      const context = createContext(createPerpService(), oneInch);
+
+      const result = await new CheckLiquidityOperation(1, 'BTC/USD', 50, 1, 'short', false).execute(context);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.spot).toBeUndefined();
+      expect(oneInch.getQuote).not.toHaveBeenCalled();
+    });
+
+    it('should fail when the venue cannot report liquidity', async () => {
+      const context = createContext(
+        { openShort: vi.fn(), openLong: vi.fn(), closePosition: vi.fn() },
+        createOneInchService()
+      );
+
+      const result = await new CheckLiquidityOperation(1, 'BTC/USD').execute(context);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('LIQUIDITY_DATA_UNAVAILABLE');
+    });
+
+    it('should handle service errors gracefully', async () => {
+      const perpService = createPerpService();
+      perpService.getMarketLiquidity.mockRejectedValue(new Error('RPC error'));
+      const context = createContext(perpService, createOneInchService());
+
+      const result = await new CheckLiquidityOperation(1, 'BTC/USD').execute(context);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('LIQUIDITY_CHECK_FAILED');
+    });
+  });
+});
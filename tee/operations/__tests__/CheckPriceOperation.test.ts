@@ -0,0 +1,108 @@
+import { describe, it, expect, vi } from 'vitest';
+import { CheckPriceOperation, PriceOperator } from '../CheckPriceOperation';
+import { OperationType } from '../OperationTypes';
+import { ExecutionContext, PriceService } from '../../executor/ExecutionContext';
+import { ExecutionState } from '../../executor/ExecutionState';
+
+function createContext(priceService: PriceService): ExecutionContext {
+  return {
+    config: {
+      capitalAllocation: '10000',
+      slippageTolerance: 0.5,
+      executionMode: 'instant' as const
+    },
+    state: new ExecutionState(),
+    getPriceService: () => priceService
+  } as unknown as ExecutionContext;
+}
+
+function createPriceService(price: string): PriceService {
+  return { getPrice: vi.fn().mockResolvedValue(price) };
+}
+
+describe('CheckPriceOperation', () => {
+  describe('validate', () => {
+    it('should validate correct parameters', () => {
+      expect(new CheckPriceOperation(1, 'BTC/USD', 'gt', '40000').validate().isValid).toBe(true);
+    });
+
+    it('should reject unknown operators', () => {
+      const result = new CheckPriceOperation(1, 'BTC/USD', 'ne' as PriceOperator, '40000').validate();
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain('Operator must be one of: gt, lt, gte, lte, eq');
+    });
+
+    it('should reject non-positive target prices', () => {
+      const result = new CheckPriceOperation(1, 'BTC/USD', 'lt', '0').validate();
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain('Target price must be a positive number');
+    });
+  });
+
+  describe('execute', () => {
+    it.each([
+      ['gt', '40000', true],
+      ['gt', '50000', false],
+      ['gte', '50000', true],
+      ['lt', '50000', false],
+      ['lte', '50000', true],
+      ['eq', '50000', true],
+      ['eq', '49000', false]
+    ] as [PriceOperator, string, boolean][])('should evaluate 50000 %s %s as %s', async (operator, target, expected) => {
+      const context = createContext(createPriceService('50000'));
+
+      const result = await new CheckPriceOperation(1, 'BTC/USD', operator, target).execute(context);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.conditionMet).toBe(expected);
+      expect(context.state.get('priceConditionMet')).toBe(expected);
+    });
+
+    it('should treat prices within the tolerance as equal', async () => {
+      const context = createContext(createPriceService('50000.004'));
+
+      const result = await new CheckPriceOperation(1, 'BTC/USD', 'eq', '50000').execute(context);
+
+      expect(result.data?.conditionMet).toBe(true);
+    });
+
+    it('should store the price and check details in state', async () => {
+      const priceService = createPriceService('2450.5');
+      const context = createContext(priceService);
+
+      const result = await new CheckPriceOperation(2, 'ETH/USD', 'lt', '2500').execute(context);
+
+      expect(result.operationType).toBe(OperationType.CHECK_PRICE);
+      expect(priceService.getPrice).toHaveBeenCalledWith('ETH/USD');
+      expect(context.state.get('price')).toBe(2450.5);
+      expect(context.state.get('priceCheck')).toEqual({
+        pair: 'ETH/USD',
+        price: 2450.5,
+        operator: 'lt',
+        targetPrice: '2500',
+        conditionMet: true
+      });
+    });
+
+    it('should fail when the price cannot be fetched', async () => {
+      const context = createContext({ getPrice: vi.fn().mockRejectedValue(new Error('Oracle down')) });
+
+      const result = await new CheckPriceOperation(1, 'BTC/USD', 'gt', '40000').execute(context);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('PRICE_CHECK_FAILED');
+      expect(context.state.has('priceConditionMet')).toBe(false);
+    });
+
+    it('should fail on non-numeric prices', async () => {
+      const context = createContext(createPriceService('n/a'));
+
+      const result = await new CheckPriceOperation(1, 'BTC/USD', 'gt', '40000').execute(context);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('PRICE_CHECK_FAILED');
+    });
+  });
+});
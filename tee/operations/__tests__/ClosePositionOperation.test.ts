@@ -0,0 +1,222 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ClosePositionOperation } from '../ClosePositionOperation';
+import { OperationType } from '../OperationTypes';
+import { ExecutionContext, PerpetualService } from '../../executor/ExecutionContext';
+import { ExecutionState } from '../../executor/ExecutionState';
+
+function createPerpService(closeResult: Record<string, string | undefined> = {}) {
+  return {
+    openShort: vi.fn(),
+    openLong: vi.fn(),
+    closePosition: vi.fn().mockResolvedValue({
+      transactionHash: '0xclose',
+      gasUsed: '80000',
+      exitPrice: '45000',
+      ...closeResult
+    }),
+    getOpenPosition: vi.fn().mockResolvedValue(null)
+  } satisfies PerpetualService;
+}
+
+function createContext(perpService: PerpetualService): ExecutionContext {
+  return {
+    config: {
+      capitalAllocation: '10000',
+      slippageTolerance: 0.5,
+      executionMode: 'instant' as const
+    },
+    wallet: { address: '0xwallet' },
+    state: new ExecutionState(),
+    getPerpetualService: () => perpService
+  } as unknown as ExecutionContext;
+}
+
+const shortPosition = {
+  entryPrice: '50000',
+  amount: '5000.00',
+  transactionHash: '0xshort',
+  pair: 'BTC/USD',
+  leverage: 2
+};
+
+const longPosition = {
+  entryPrice: '50000',
+  amount: '2000.00',
+  transactionHash: '0xlong',
+  pair: 'BTC/USD',
+  leverage: 3
+};
+
+describe('ClosePositionOperation', () => {
+  describe('validate', () => {
+    it('should validate a full close', () => {
+      expect(new ClosePositionOperation(1, 'BTC/USD').validate().isValid).toBe(true);
+    });
+
+    it('should require an amount when not closing everything', () => {
+      const result = new ClosePositionOperation(1, 'BTC/USD', 'short', false).validate();
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain('Amount is required when not closing the entire position');
+    });
+
+    it('should reject percentages above 100', () => {
+      const result = new ClosePositionOperation(1, 'BTC/USD', 'long', false, '150', true).validate();
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain('Percentage amount must be between 0 and 100');
+    });
+
+    it('should reject invalid price limits', () => {
+      const result = new ClosePositionOperation(1, 'BTC/USD', 'short', true, undefined, false, '-1').validate();
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain('Price limit must be a positive number');
+    });
+  });
+
+  describe('execute', () => {
+    it('should close the short recorded in state and estimate realized PnL', async () => {
+      const perpService = createPerpService();
+      const context = createContext(perpService);
+      context.state.set('shortPosition', shortPosition);
+
+      const result = await new ClosePositionOperation(5, 'BTC/USD', 'short', true, undefined, false, '52000').execute(context);
+
+      expect(result.success).toBe(true);
+      expect(result.operationType).toBe(OperationType.CLOSE_SHORT);
+      expect(perpService.closePosition).toHaveBeenCalledWith(shortPosition, {
+        amount: undefined,
+        maxPrice: '52000',
+        minPrice: undefined
+      });
+      // 5000 × 2 × (50000 - 45000) / 50000
+      expect(result.data).toMatchObject({
+        positionSource: 'state',
+        amountClosed: '5000.00',
+        remainingAmount: '0.00',
+        realizedPnl: '1000.00'
+      });
+      expect(context.state.has('shortPosition')).toBe(false);
+      expect(perpService.getOpenPosition).not.toHaveBeenCalled();
+    });
+
+    it('should prefer the realized PnL reported by the service', async () => {
+      const perpService = createPerpService({ realizedPnl: '987.65' });
+      const context = createContext(perpService);
+      context.state.set('shortPosition', shortPosition);
+
+      const result = await new ClosePositionOperation(5, 'BTC/USD').execute(context);
+
+      expect(result.data?.realizedPnl).toBe('987.65');
+    });
+
+    it('should partially close a percentage of the position', async () => {
+      const perpService = createPerpService();
+      const context = createContext(perpService);
+      context.state.set('shortPosition', shortPosition);
+
+      const result = await new ClosePositionOperation(5, 'BTC/USD', 'short', false, '40', true).execute(context);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.amountClosed).toBe('2000.00');
+      expect(result.data?.realizedPnl).toBe('400.00');
+      expect(perpService.closePosition).toHaveBeenCalledWith(shortPosition, expect.objectContaining({ amount: '2000.00' }));
+      expect(context.state.get('shortPosition')).toMatchObject({ amount: '3000.00' });
+    });
+
+    it('should close a percentage of the long recorded in state', async () => {
+      const perpService = createPerpService({ exitPrice: '55000', realizedPnl: '300' });
+      const context = createContext(perpService);
+      context.state.set('longPosition', longPosition);
+
+      const result = await new ClosePositionOperation(5, 'BTC/USD', 'long', false, '25', true, '54000').execute(context);
+
+      expect(result.success).toBe(true);
+      expect(result.operationType).toBe(OperationType.CLOSE_LONG);
+      expect(result.data).toMatchObject({ amountClosed: '500.00', realizedPnl: '300' });
+      expect(perpService.closePosition).toHaveBeenCalledWith(longPosition, {
+        amount: '500.00',
+        maxPrice: undefined,
+        minPrice: '54000'
+      });
+      expect(context.state.get('longPosition')).toMatchObject({ amount: '1500.00' });
+    });
+
+    it('should ignore a recorded position on another pair', async () => {
+      const perpService = createPerpService();
+      const context = createContext(perpService);
+      context.state.set('longPosition', longPosition);
+
+      const result = await new ClosePositionOperation(5, 'ETH/USD', 'long').execute(context);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('POSITION_NOT_FOUND');
+      expect(perpService.getOpenPosition).toHaveBeenCalledWith({ pair: 'ETH/USD', side: 'long', wallet: context.wallet });
+    });
+
+    it('should look the position up on-chain when it is not in state', async () => {
+      const perpService = createPerpService({ exitPrice: '2200' });
+      perpService.getOpenPosition.mockResolvedValue({
+        pair: 'ETH/USD',
+        side: 'long',
+        amount: '1000',
+        entryPrice: '2000',
+        leverage: 1
+      });
+      const context = createContext(perpService);
+
+      const result = await new ClosePositionOperation(1, 'ETH/USD', 'long', true, undefined, false, '2100').execute(context);
+
+      expect(result.success).toBe(true);
+      expect(perpService.getOpenPosition).toHaveBeenCalledWith({ pair: 'ETH/USD', side: 'long', wallet: context.wallet });
+      expect(perpService.closePosition).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ minPrice: '2100' }));
+      expect(result.data).toMatchObject({ positionSource: 'on_chain', realizedPnl: '100.00' });
+    });
+
+    it('should fail when no position exists', async () => {
+      const perpService = createPerpService();
+      const context = createContext(perpService);
+
+      const result = await new ClosePositionOperation(1, 'BTC/USD').execute(context);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('POSITION_NOT_FOUND');
+      expect(perpService.closePosition).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to close more than the position', async () => {
+      const context = createContext(createPerpService());
+      context.state.set('shortPosition', shortPosition);
+
+      const result = await new ClosePositionOperation(1, 'BTC/USD', 'short', false, '6000').execute(context);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('INVALID_CLOSE_AMOUNT');
+    });
+
+    it('should handle service errors gracefully', async () => {
+      const perpService = createPerpService();
+      perpService.closePosition.mockRejectedValue(new Error('Reverted'));
+      const context = createContext(perpService);
+      context.state.set('shortPosition', shortPosition);
+
+      const result = await new ClosePositionOperation(1, 'BTC/USD').execute(context);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatchObject({ code: 'CLOSE_POSITION_FAILED', recoverable: false });
+      expect(context.state.get('shortPosition')).toEqual(shortPosition);
+    });
+
+    it('should only allow retries when the close was never submitted', async () => {
+      const perpService = createPerpService();
+      perpService.getOpenPosition.mockRejectedValue(new Error('connection refused'));
+      const context = createContext(perpService);
+
+      const result = await new ClosePositionOperation(1, 'BTC/USD').execute(context);
+
+      expect(result.error).toMatchObject({ code: 'CLOSE_POSITION_FAILED', recoverable: true });
+      expect(perpService.closePosition).not.toHaveBeenCalled();
+    });
+  });
+});
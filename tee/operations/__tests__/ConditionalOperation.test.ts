@@ -0,0 +1,256 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ConditionalOperation } from '../ConditionalOperation';
+import { IOperation } from '../IOperation';
+import { OperationType, OperationResult } from '../OperationTypes';
+import { ExecutionContext } from '../../executor/ExecutionContext';
+import { StrategyExecutor } from '../../executor/StrategyExecutor';
+import { ExecutionState } from '../../executor/ExecutionState';
+
+/**
+ * Creates a nested operation whose execute/rollback calls can be inspected.
+ */
+function createNestedOperation(order: number, result: Partial<OperationResult> = {}) {
+  const operation = {
+    type: OperationType.MOCK_OPERATION,
+    order,
+    validate: vi.fn().mockReturnValue({ isValid: true, errors: [] }),
+    execute: vi.fn().mockResolvedValue({
+      success: true,
+      operationType: OperationType.MOCK_OPERATION,
+      ...result
+    }),
+    rollback: vi.fn().mockResolvedValue(undefined)
+  };
+  return operation as typeof operation & IOperation;
+}
+
+function createContext(state: Record<string, any> = {}): ExecutionContext {
+  return {
+    config: {
+      capitalAllocation: '10000',
+      slippageTolerance: 0.5,
+      executionMode: 'instant' as const
+    },
+    state: new ExecutionState(state)
+  } as ExecutionContext;
+}
+
+describe('ConditionalOperation', () => {
+  describe('validate', () => {
+    it('should validate a well-formed conditional', () => {
+      const op = new ConditionalOperation(1, 'state.isProfitable == true', [createNestedOperation(1)]);
+
+      const result = op.validate();
+
+      expect(result.isValid).toBe(true);
+      expect(result.errors).toHaveLength(0);
+    });
+
+    it('should reject an empty then branch', () => {
+      const op = new ConditionalOperation(1, 'state.isProfitable', []);
+
+      const result = op.validate();
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain('Conditional must contain at least one operation in the "then" branch');
+    });
+
+    it('should reject malformed conditions', () => {
+      const op = new ConditionalOperation(1, 'state.fundingRate >= (0.01', [createNestedOperation(1)]);
+
+      const result = op.validate();
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain('Missing closing parenthesis in condition');
+    });
+
+    it('should reject references outside state and result', () => {
+      const op = new ConditionalOperation(1, 'process.env.SECRET', [createNestedOperation(1)]);
+
+      const result = op.validate();
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors[0]).toContain('references must start with "state." or "result."');
+    });
+
+    it('should prefix nested validation errors with their branch and index', () => {
+      const invalid = createNestedOperation(1);
+      invalid.validate.mockReturnValue({ isValid: false, errors: ['Delay must be non-negative'] });
+
+      const op = new ConditionalOperation(1, 'state.isProfitable', [createNestedOperation(1)], [invalid]);
+
+      const result = op.validate();
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain('else[0]: Delay must be non-negative');
+    });
+  });
+
+  describe('execute', () => {
+    it('should run the then branch when the condition holds', async () => {
+      const thenOp = createNestedOperation(1, { gasUsed: '21000' });
+      const elseOp = createNestedOperation(1);
+      const context = createContext({ isProfitable: true, fundingRate: 0.015 });
+
+      const op = new ConditionalOperation(1, 'state.isProfitable && state.fundingRate >= 0.01', [thenOp], [elseOp]);
+      const result = await op.execute(context);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.conditionMet).toBe(true);
+      expect(result.data?.branch).toBe('then');
+      expect(result.data?.operationResults).toHaveLength(1);
+      expect(result.gasUsed).toBe('21000');
+      expect(thenOp.execute).toHaveBeenCalledTimes(1);
+      expect(elseOp.execute).not.toHaveBeenCalled();
+    });
+
+    it('should run the else branch when the condition does not hold', async () => {
+      const thenOp = createNestedOperation(1);
+      const elseOp = createNestedOperation(1);
+      const context = createContext({ isProfitable: false });
+
+      const op = new ConditionalOperation(1, 'state.isProfitable == true', [thenOp], [elseOp]);
+      const result = await op.execute(context);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.branch).toBe('else');
+      expect(thenOp.execute).not.toHaveBeenCalled();
+      expect(elseOp.execute).toHaveBeenCalledTimes(1);
+    });
+
+    it('should succeed without running anything when the condition fails and there is no else branch', async () => {
+      const thenOp = createNestedOperation(1);
+
+      const op = new ConditionalOperation(1, '!state.isProfitable', [thenOp]);
+      const result = await op.execute(createContext({ isProfitable: true }));
+
+      expect(result.success).toBe(true);
+      expect(result.data?.branch).toBe('none');
+      expect(thenOp.execute).not.toHaveBeenCalled();
+    });
+
+    it('should execute nested operations in order', async () => {
+      const calls: number[] = [];
+      const first = createNestedOperation(1);
+      const second = createNestedOperation(2);
+      first.execute.mockImplementation(async () => {
+        calls.push(1);
+        return { success: true, operationType: OperationType.MOCK_OPERATION };
+      });
+      second.execute.mockImplementation(async () => {
+        calls.push(2);
+        return { success: true, operationType: OperationType.MOCK_OPERATION };
+      });
+
+      const op = new ConditionalOperation(1, 'state.go', [second, first]);
+      await op.execute(createContext({ go: true }));
+
+      expect(calls).toEqual([1, 2]);
+    });
+
+    it('should compare numeric strings numerically', async () => {
+      const thenOp = createNestedOperation(1);
+      const context = createContext({ shortPosition: { entryPrice: '50000' } });
+
+      const op = new ConditionalOperation(1, 'state.shortPosition.entryPrice < 60000', [thenOp]);
+      const result = await op.execute(context);
+
+      expect(result.data?.conditionMet).toBe(true);
+    });
+
+    it('should evaluate conditions against prior operation results', async () => {
+      const thenOp = createNestedOperation(1);
+      const context = createContext();
+      context.results = [
+        {
+          success: true,
+          operationType: OperationType.CHECK_FUNDING_RATE,
+          data: { fundingRate: 0.02 }
+        }
+      ];
+
+      const op = new ConditionalOperation(1, 'result.check_funding_rate.data.fundingRate > 0.01', [thenOp]);
+      const result = await op.execute(context);
+
+      expect(result.data?.conditionMet).toBe(true);
+      expect(thenOp.execute).toHaveBeenCalledTimes(1);
+    });
+
+    it('should treat missing references as falsy', async () => {
+      const thenOp = createNestedOperation(1);
+
+      const op = new ConditionalOperation(1, 'state.shortPosition.entryPrice', [thenOp]);
+      const result = await op.execute(createContext());
+
+      expect(result.success).toBe(true);
+      expect(result.data?.conditionMet).toBe(false);
+    });
+
+    it('should fail without exposing the condition when evaluation fails', async () => {
+      const op = new ConditionalOperation(1, 'state.a ==', [createNestedOperation(1)]);
+      const result = await op.execute(createContext());
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('CONDITION_EVALUATION_FAILED');
+      expect(JSON.stringify(result)).not.toContain('state.a');
+    });
+
+    it('should roll back earlier nested operations when the branch fails', async () => {
+      const first = createNestedOperation(1);
+      const failing = createNestedOperation(2, {
+        success: false,
+        error: { code: 'OPEN_SHORT_FAILED', message: 'Failed', recoverable: true }
+      });
+
+      const op = new ConditionalOperation(1, 'state.go', [first, failing]);
+      const result = await op.execute(createContext({ go: true }));
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('OPEN_SHORT_FAILED');
+      expect(first.rollback).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('rollback', () => {
+    it('should roll back nested operations in reverse order', async () => {
+      const calls: number[] = [];
+      const first = createNestedOperation(1);
+      const second = createNestedOperation(2);
+      first.rollback.mockImplementation(async () => { calls.push(1); });
+      second.rollback.mockImplementation(async () => { calls.push(2); });
+
+      const context = createContext({ go: true });
+      const op = new ConditionalOperation(1, 'state.go', [first, second]);
+      await op.execute(context);
+      await op.rollback(context);
+
+      expect(calls).toEqual([2, 1]);
+    });
+
+    it('should roll back nested operations when a later top-level operation fails', async () => {
+      const nested = createNestedOperation(1);
+      const failing = createNestedOperation(2, {
+        success: false,
+        error: { code: 'SPOT_BUY_FAILED', message: 'Failed', recoverable: true }
+      });
+
+      const executor = new StrategyExecutor();
+      executor.load([new ConditionalOperation(1, 'state.go', [nested]), failing]);
+      const result = await executor.execute(createContext({ go: true }));
+
+      expect(result.success).toBe(false);
+      expect(nested.rollback).toHaveBeenCalledTimes(1);
+    });
+
+    it('should do nothing when no branch was executed', async () => {
+      const nested = createNestedOperation(1);
+      const context = createContext({ go: false });
+
+      const op = new ConditionalOperation(1, 'state.go', [nested]);
+      await op.execute(context);
+      await op.rollback(context);
+
+      expect(nested.rollback).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, vi } from 'vitest';
+import { DeferredOperation } from '../DeferredOperation';
+import { IOperation } from '../IOperation';
+import { OperationType, OperationResult } from '../OperationTypes';
+import { ExecutionContext } from '../../executor/ExecutionContext';
+import { SerializedOperation } from '../../schema/operationSchema';
+import { ExecutionState } from '../../executor/ExecutionState';
+
+const spotSell: SerializedOperation = {
+  type: OperationType.SPOT_SELL,
+  order: 3,
+  params: { ticker: 'BTC/USDC', amount: { $ref: 'spotHedge.amountReceived' }, minPrice: { $ref: 'shortPosition.entryPrice' } }
+};
+
+function createContext(results: OperationResult[]): ExecutionContext {
+  return {
+    config: { capitalAllocation: '10000', slippageTolerance: 0.5, executionMode: 'instant' as const },
+    state: new ExecutionState(),
+    results
+  } as ExecutionContext;
+}
+
+function createBuilder(errors: string[] = []) {
+  const operation = {
+    type: OperationType.SPOT_SELL,
+    order: 3,
+    validate: vi.fn().mockReturnValue({ isValid: errors.length === 0, errors }),
+    execute: vi.fn().mockResolvedValue({ success: true, operationType: OperationType.SPOT_SELL }),
+    rollback: vi.fn().mockResolvedValue(undefined)
+  };
+  return { operation, build: vi.fn().mockReturnValue(operation as IOperation) };
+}
+
+const earlierResults: OperationResult[] = [
+  { success: true, operationType: OperationType.OPEN_SHORT, label: 'shortPosition', data: { entryPrice: '50000' } },
+  { success: true, operationType: OperationType.SPOT_BUY, label: 'spotHedge', data: { amountReceived: '0.1' } }
+];
+
+describe('DeferredOperation', () => {
+  it('should expose the wrapped operation envelope and its references', () => {
+    const deferred = new DeferredOperation(spotSell, createBuilder().build);
+
+    expect(deferred.type).toBe(OperationType.SPOT_SELL);
+    expect(deferred.order).toBe(3);
+    expect(deferred.references).toEqual(['spotHedge', 'shortPosition']);
+  });
+
+  it('should build and execute the operation with resolved params', async () => {
+    const { operation, build } = createBuilder();
+    const deferred = new DeferredOperation(spotSell, build);
+
+    const result = await deferred.execute(createContext(earlierResults));
+
+    expect(result.success).toBe(true);
+    expect(build).toHaveBeenCalledWith({
+      ...spotSell,
+      params: { ticker: 'BTC/USDC', amount: '0.1', minPrice: '50000' }
+    });
+    expect(operation.execute).toHaveBeenCalled();
+  });
+
+  it('should forward whether the built operation is idempotent', async () => {
+    const { operation, build } = createBuilder();
+    const deferred = new DeferredOperation(spotSell, build);
+    Object.assign(operation, { idempotent: true });
+
+    expect(deferred.idempotent).toBeUndefined();
+    await deferred.execute(createContext(earlierResults));
+    expect(deferred.idempotent).toBe(true);
+  });
+
+  it('should use the most recent successful result for a label', async () => {
+    const { build } = createBuilder();
+    const deferred = new DeferredOperation(spotSell, build);
+
+    await deferred.execute(createContext([
+      ...earlierResults,
+      { success: true, operationType: OperationType.SPOT_BUY, label: 'spotHedge', data: { amountReceived: '0.2' } },
+      { success: false, operationType: OperationType.SPOT_BUY, label: 'spotHedge' }
+    ]));
+
+    expect(build.mock.calls[0][0].params.amount).toBe('0.2');
+  });
+
+  it('should fail without building when a referenced result is missing', async () => {
+    const { build } = createBuilder();
+    const deferred = new DeferredOperation(spotSell, build);
+
+    const result = await deferred.execute(createContext(earlierResults.slice(0, 1)));
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe('UNRESOLVED_REFERENCE');
+    expect(result.error?.message).not.toContain('spotHedge');
+    expect(build).not.toHaveBeenCalled();
+  });
+
+  it('should fail when the referenced field is not a value', async () => {
+    const deferred = new DeferredOperation(spotSell, createBuilder().build);
+
+    const result = await deferred.execute(createContext([
+      { success: true, operationType: OperationType.OPEN_SHORT, label: 'shortPosition', data: { entryPrice: { raw: 1 } } },
+      earlierResults[1]
+    ]));
+
+    expect(result.error?.code).toBe('UNRESOLVED_REFERENCE');
+  });
+
+  it('should validate resolved values like literal ones', async () => {
+    const { build } = createBuilder();
+    const deferred = new DeferredOperation(spotSell, build);
+
+    const result = await deferred.execute(createContext([
+      earlierResults[0],
+      { success: true, operationType: OperationType.SPOT_BUY, label: 'spotHedge', data: { amountReceived: '-1' } }
+    ]));
+
+    expect(result.error).toEqual({ code: 'VALIDATION_ERROR', message: 'Invalid operation parameters', recoverable: false });
+    expect(build).not.toHaveBeenCalled();
+  });
+
+  it('should not execute an operation that fails its own validation', async () => {
+    const { operation, build } = createBuilder(['Minimum price must be a positive number']);
+    const deferred = new DeferredOperation(spotSell, build);
+
+    const result = await deferred.execute(createContext(earlierResults));
+
+    expect(result.error?.code).toBe('VALIDATION_ERROR');
+    expect(operation.execute).not.toHaveBeenCalled();
+  });
+
+  it('should delegate rollback to the executed operation', async () => {
+    const { operation, build } = createBuilder();
+    const deferred = new DeferredOperation(spotSell, build);
+    const context = createContext(earlierResults);
+
+    await deferred.rollback(context);
+    expect(operation.rollback).not.toHaveBeenCalled();
+
+    await deferred.execute(context);
+    await deferred.rollback(context);
+    expect(operation.rollback).toHaveBeenCalledWith(context);
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect, vi } from 'vitest';
+import { OpenPerpetualLongOperation } from '../OpenPerpetualLongOperation';
+import { OperationType } from '../OperationTypes';
+import { ExecutionContext, PerpetualService } from '../../executor/ExecutionContext';
+import { ExecutionState } from '../../executor/ExecutionState';
+
+function createPerpService(closeResult: Record<string, string | undefined> = {}) {
+  return {
+    openShort: vi.fn(),
+    openLong: vi.fn().mockResolvedValue({
+      entryPrice: '50000',
+      transactionHash: '0xlong',
+      gasUsed: '100000'
+    }),
+    closePosition: vi.fn().mockResolvedValue({
+      transactionHash: '0xclose',
+      gasUsed: '80000',
+      exitPrice: '55000',
+      realizedPnl: '300',
+      ...closeResult
+    })
+  } satisfies PerpetualService;
+}
+
+function createContext(perpService: PerpetualService): ExecutionContext {
+  return {
+    config: {
+      capitalAllocation: '10000',
+      slippageTolerance: 0.5,
+      executionMode: 'instant' as const
+    },
+    state: new ExecutionState(),
+    clock: { now: () => 1_800_000_000_000, sleep: vi.fn() },
+    getPerpetualService: () => perpService
+  } as unknown as ExecutionContext;
+}
+
+const openPosition = {
+  entryPrice: '50000',
+  amount: '2000.00',
+  transactionHash: '0xlong',
+  pair: 'BTC/USD',
+  leverage: 3
+};
+
+describe('OpenPerpetualLongOperation', () => {
+  describe('validate', () => {
+    it('should validate correct parameters', () => {
+      const op = new OpenPerpetualLongOperation(1, 'BTC/USD', 50, 3, '45000', '60000');
+
+      expect(op.validate().isValid).toBe(true);
+    });
+
+    it('should reject leverage outside 1-10', () => {
+      const result = new OpenPerpetualLongOperation(1, 'BTC/USD', 50, 20).validate();
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain('Leverage must be between 1 and 10');
+    });
+
+    it('should reject a stop-loss above the take-profit', () => {
+      const result = new OpenPerpetualLongOperation(1, 'BTC/USD', 50, 2, '60000', '45000').validate();
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain('Stop-loss must be below take-profit for a long position');
+    });
+
+    it('should reject non-numeric protective prices', () => {
+      const result = new OpenPerpetualLongOperation(1, 'BTC/USD', 50, 2, 'abc').validate();
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain('Stop-loss must be a positive number');
+    });
+  });
+
+  describe('execute', () => {
+    it('should open a long and record the position', async () => {
+      const perpService = createPerpService();
+      const context = createContext(perpService);
+
+      const op = new OpenPerpetualLongOperation(2, 'BTC/USD', 20, 3, '45000', '60000');
+      const result = await op.execute(context);
+
+      expect(result.success).toBe(true);
+      expect(result.operationType).toBe(OperationType.OPEN_LONG);
+      expect(result.transactionHash).toBe('0xlong');
+      expect(perpService.openLong).toHaveBeenCalledWith(expect.objectContaining({
+        pair: 'BTC/USD',
+        amount: '2000.00',
+        leverage: 3,
+        stopLoss: '45000',
+        takeProfit: '60000'
+      }));
+      expect(context.state.get('longPosition')).toMatchObject({
+        pair: 'BTC/USD',
+        amount: '2000.00',
+        entryPrice: '50000',
+        stopLoss: '45000',
+        timestamp: 1_800_000_000_000
+      });
+    });
+
+    it('should skip when a price check failed', async () => {
+      const perpService = createPerpService();
+      const context = createContext(perpService);
+      context.state.set('priceConditionMet', false);
+
+      const result = await new OpenPerpetualLongOperation(1, 'BTC/USD', 20).execute(context);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('PRICE_CONDITION_NOT_MET');
+      expect(perpService.openLong).not.toHaveBeenCalled();
+    });
+
+    it('should handle service errors gracefully', async () => {
+      const perpService = createPerpService();
+      perpService.openLong.mockRejectedValue(new Error('Insufficient margin'));
+      const context = createContext(perpService);
+
+      const result = await new OpenPerpetualLongOperation(1, 'BTC/USD', 20).execute(context);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('OPEN_LONG_FAILED');
+      expect(result.error?.recoverable).toBe(false);
+      expect(context.state.has('longPosition')).toBe(false);
+    });
+
+    it('should report the sent order when opening fails after sending it', async () => {
+      const perpService = createPerpService();
+      perpService.openLong.mockRejectedValue(
+        Object.assign(new Error('Order 0xlong was not filled within 60000ms'), { transactionHash: '0xlong' })
+      );
+
+      const result = await new OpenPerpetualLongOperation(1, 'BTC/USD', 20).execute(createContext(perpService));
+
+      expect(result).toMatchObject({
+        success: false,
+        transactionHash: '0xlong',
+        error: { code: 'OPEN_LONG_FAILED', recoverable: false }
+      });
+    });
+  });
+
+  describe('rollback', () => {
+    it('should close the recorded position', async () => {
+      const perpService = createPerpService();
+      const context = createContext(perpService);
+      context.state.set('longPosition', openPosition);
+
+      await new OpenPerpetualLongOperation(1, 'BTC/USD', 20).rollback(context);
+
+      expect(perpService.closePosition).toHaveBeenCalledWith(openPosition);
+      expect(context.state.has('longPosition')).toBe(false);
+    });
+  });
+});
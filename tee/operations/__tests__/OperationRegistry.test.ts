@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { OperationRegistry, operationRegistry } from '../OperationRegistry';
+import { MockOperation } from '../MockOperation';
+import { OperationType } from '../OperationTypes';
+import { CURRENT_FORMAT_VERSION, OPERATION_SCHEMAS } from '../../schema/operationSchema';
+import '../index';
+
+describe('OperationRegistry', () => {
+  it('should register every operation type of the schema when the operations are loaded', () => {
+    expect([...operationRegistry.types()].sort()).toEqual(Object.values(OperationType).sort());
+  });
+
+  it('should describe the registered types with their parameter schemas', () => {
+    const manifest = operationRegistry.describe();
+
+    expect(manifest.formatVersion).toBe(CURRENT_FORMAT_VERSION);
+    expect(manifest.operations.find(entry => entry.type === OperationType.WAIT)).toEqual({
+      type: OperationType.WAIT,
+      params: OPERATION_SCHEMAS[OperationType.WAIT].params
+    });
+    expect(JSON.parse(JSON.stringify(manifest))).toEqual(manifest);
+  });
+
+  it('should look up definitions by type and reject registering a type twice', () => {
+    const registry = new OperationRegistry();
+    const definition = {
+      type: OperationType.MOCK_OPERATION,
+      schema: OPERATION_SCHEMAS[OperationType.MOCK_OPERATION],
+      create: () => new MockOperation(1, 'Registered', 0)
+    };
+
+    registry.register(definition);
+
+    expect(registry.get(OperationType.MOCK_OPERATION)).toBe(definition);
+    expect(registry.get(OperationType.WAIT)).toBeUndefined();
+    expect(() => registry.register(definition)).toThrow('Operation type already registered: mock_operation');
+  });
+});
@@ -0,0 +1,195 @@
+import { describe, it, expect, vi } from 'vitest';
+import { SpotBuyOperation } from '../SpotBuyOperation';
+import { OperationType } from '../OperationTypes';
+import { ExecutionContext, OneInchService, PerpetualService, SecureWallet, SpotFailoverPolicy } from '../../executor/ExecutionContext';
+import { ExecutionState } from '../../executor/ExecutionState';
+import { FusionError } from '../../services/FusionOneInchService';
+
+function createSpotService(result: Record<string, string | undefined> = {}) {
+  return {
+    executeFusionSwap: vi.fn().mockResolvedValue({
+      amountReceived: '0.05',
+      executionPrice: '50000',
+      transactionHash: '0xbuy',
+      gasUsed: '150000',
+      ...result
+    })
+  } satisfies OneInchService;
+}
+
+function createFailingFusion(error: Error) {
+  return { executeFusionSwap: vi.fn().mockRejectedValue(error) } satisfies OneInchService;
+}
+
+function createContext(
+  fusion: OneInchService,
+  fallback?: OneInchService,
+  spotFailover?: SpotFailoverPolicy
+): ExecutionContext {
+  const context = {
+    config: {
+      capitalAllocation: '10000',
+      slippageTolerance: 0.5,
+      executionMode: 'instant' as const
+    },
+    wallet: {
+      address: '0xwallet',
+      signTransaction: vi.fn(),
+      getBalance: vi.fn()
+    } as SecureWallet,
+    network: {
+      chainId: 8453,
+      rpcUrl: 'http://localhost:8545',
+      contracts: {},
+      spotFailover
+    },
+    state: new ExecutionState(),
+    // Without status tracking, the short's recorded entry price is used
+    getPerpetualService: () => ({}) as PerpetualService,
+    getOneInchService: () => fusion,
+    ...(fallback && { getFallbackSpotService: () => fallback })
+  } as ExecutionContext;
+
+  context.state.set('shortPosition', {
+    pair: 'BTC/USDC',
+    entryPrice: '50000',
+    amount: '5000',
+    leverage: 1,
+    transactionHash: '0xshort',
+    tradeIndex: 2
+  });
+  return context;
+}
+
+const QUOTE_UNAVAILABLE = new FusionError('FUSION_QUOTE_UNAVAILABLE', 'No Fusion quote for USDC -> cbBTC');
+const ORDER_EXPIRED = new FusionError('FUSION_ORDER_EXPIRED', 'Fusion order 0xorder expired unfilled', '0xorder');
+
+describe('SpotBuyOperation', () => {
+  describe('validate', () => {
+    it('should validate correct parameters', () => {
+      expect(new SpotBuyOperation(2, 'BTC', 50, 'limit', 'short_entry_price').validate().isValid).toBe(true);
+    });
+
+    it('should require a price for limit orders', () => {
+      const result = new SpotBuyOperation(2, 'BTC', 50, 'limit').validate();
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain('Price reference or maximum price is required for limit orders');
+    });
+  });
+
+  describe('execute', () => {
+    it('should buy through 1inch Fusion, conditional on the short', async () => {
+      const fusion = createSpotService();
+      const fallback = createSpotService();
+      const context = createContext(fusion, fallback);
+
+      const result = await new SpotBuyOperation(2, 'BTC', 50, 'market').execute(context);
+
+      expect(result.success).toBe(true);
+      expect(fusion.executeFusionSwap).toHaveBeenCalledWith(expect.objectContaining({
+        asset: 'BTC',
+        side: 'buy',
+        amount: '5000.00',
+        orderType: 'market',
+        shortPosition: { pair: 'BTC/USDC', tradeIndex: 2, entryPrice: '50000' },
+        slippage: 0.5
+      }));
+      expect(fallback.executeFusionSwap).not.toHaveBeenCalled();
+      expect(context.state.get('spotHolding')).toMatchObject({ amount: '0.05', route: 'fusion', status: 'filled' });
+    });
+
+    it('should stamp the holding with the context clock', async () => {
+      const context = { ...createContext(createSpotService()), clock: { now: () => 1_800_000_000_000, sleep: vi.fn() } };
+
+      await new SpotBuyOperation(2, 'BTC', 50, 'market').execute(context);
+
+      expect(context.state.get('spotHolding')).toMatchObject({ timestamp: 1_800_000_000_000 });
+    });
+
+    it('should fail over to the fallback when Fusion has no quote', async () => {
+      const fusion = createFailingFusion(QUOTE_UNAVAILABLE);
+      const fallback = createSpotService({ transactionHash: '0xuniswap' });
+      const context = createContext(fusion, fallback);
+
+      const result = await new SpotBuyOperation(2, 'BTC', 50, 'market').execute(context);
+
+      expect(result).toMatchObject({ success: true, transactionHash: '0xuniswap', data: { route: 'fallback' } });
+      expect(fallback.executeFusionSwap).toHaveBeenCalledWith(fusion.executeFusionSwap.mock.calls[0][0]);
+    });
+
+    it('should fail over when a market order expires unfilled', async () => {
+      const fallback = createSpotService();
+      const context = createContext(createFailingFusion(ORDER_EXPIRED), fallback);
+
+      await expect(new SpotBuyOperation(2, 'BTC', 50, 'market').execute(context)).resolves.toMatchObject({ success: true });
+      expect(fallback.executeFusionSwap).toHaveBeenCalledTimes(1);
+    });
+
+    it('should record limit orders filled through the fallback as filled', async () => {
+      const fallback = createSpotService({ executionPrice: '49900' });
+      const context = createContext(createFailingFusion(QUOTE_UNAVAILABLE), fallback);
+
+      await new SpotBuyOperation(2, 'BTC', 50, 'limit', 'short_entry_price').execute(context);
+
+      expect(fallback.executeFusionSwap).toHaveBeenCalledWith(expect.objectContaining({ orderType: 'limit', targetPrice: '50000' }));
+      expect(context.state.get('spotHolding')).toMatchObject({ route: 'fallback', status: 'filled', executionPrice: '49900' });
+    });
+
+    it('should only fail over on the failures the policy allows', async () => {
+      const fallback = createSpotService();
+      const context = createContext(createFailingFusion(ORDER_EXPIRED), fallback, { onOrderExpired: false });
+
+      const result = await new SpotBuyOperation(2, 'BTC', 50, 'market').execute(context);
+
+      expect(result).toMatchObject({ success: false, error: { code: 'SPOT_BUY_FAILED' } });
+      expect(fallback.executeFusionSwap).not.toHaveBeenCalled();
+    });
+
+    it('should not fail over on rejected orders or without a fallback', async () => {
+      const fallback = createSpotService();
+      const rejected = createContext(
+        createFailingFusion(new FusionError('FUSION_ORDER_FAILED', 'Fusion order 0xorder was not filled: cancelled', '0xorder')),
+        fallback
+      );
+
+      await expect(new SpotBuyOperation(2, 'BTC', 50, 'market').execute(rejected)).resolves.toMatchObject({ success: false });
+      expect(fallback.executeFusionSwap).not.toHaveBeenCalled();
+
+      const withoutFallback = createContext(createFailingFusion(QUOTE_UNAVAILABLE));
+      await expect(new SpotBuyOperation(2, 'BTC', 50, 'market').execute(withoutFallback)).resolves.toMatchObject({ success: false });
+    });
+
+    it('should report the placed order as not recoverable when the swap fails', async () => {
+      const context = createContext(
+        createFailingFusion(new FusionError('FUSION_ORDER_FAILED', 'Fusion order 0xorder was not filled: cancelled', '0xorder'))
+      );
+
+      const result = await new SpotBuyOperation(2, 'BTC', 50, 'market').execute(context);
+
+      expect(result).toMatchObject({
+        success: false,
+        data: { fusionOrderId: '0xorder' },
+        error: { code: 'SPOT_BUY_FAILED', recoverable: false }
+      });
+    });
+
+    it('should go straight to the fallback when Fusion is disabled', async () => {
+      const fusion = createSpotService();
+      const fallback = createSpotService();
+
+      const result = await new SpotBuyOperation(2, 'BTC', 50, 'market').execute(
+        createContext(fusion, fallback, { fusionEnabled: false })
+      );
+
+      expect(result).toMatchObject({ success: true, data: { route: 'fallback' } });
+      expect(fusion.executeFusionSwap).not.toHaveBeenCalled();
+
+      const withoutFallback = await new SpotBuyOperation(2, 'BTC', 50, 'market').execute(
+        createContext(fusion, undefined, { fusionEnabled: false })
+      );
+      expect(withoutFallback).toMatchObject({ success: false, operationType: OperationType.SPOT_BUY });
+      expect(fusion.executeFusionSwap).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,227 @@
+import { describe, it, expect, vi } from 'vitest';
+import { SpotSellOperation } from '../SpotSellOperation';
+import { OperationType } from '../OperationTypes';
+import { ExecutionContext, OneInchService, SecureWallet } from '../../executor/ExecutionContext';
+import { ExecutionState } from '../../executor/ExecutionState';
+
+function createOneInchService(result: Record<string, string | undefined> = {}) {
+  return {
+    executeFusionSwap: vi.fn().mockResolvedValue({
+      amountReceived: '2500',
+      executionPrice: '50000',
+      transactionHash: '0xsell',
+      gasUsed: '150000',
+      ...result
+    })
+  } satisfies OneInchService;
+}
+
+function createContext(
+  oneInchService: OneInchService,
+  overrides: Partial<ExecutionContext> = {}
+): ExecutionContext {
+  return {
+    config: {
+      capitalAllocation: '10000',
+      slippageTolerance: 0.5,
+      executionMode: 'instant' as const
+    },
+    wallet: {
+      address: '0xwallet',
+      signTransaction: vi.fn(),
+      getBalance: vi.fn()
+    } as SecureWallet,
+    network: {
+      chainId: 8453,
+      rpcUrl: 'http://localhost:8545',
+      contracts: {}
+    },
+    state: new ExecutionState(),
+    getOneInchService: () => oneInchService,
+    ...overrides
+  } as ExecutionContext;
+}
+
+describe('SpotSellOperation', () => {
+  describe('validate', () => {
+    it('should validate correct parameters', () => {
+      const op = new SpotSellOperation(1, 'BTC', '100', true, 'market', '49000');
+
+      expect(op.validate().isValid).toBe(true);
+    });
+
+    it('should reject empty asset', () => {
+      const result = new SpotSellOperation(1, '', '1').validate();
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain('Asset is required and cannot be empty');
+    });
+
+    it('should reject non-positive amounts', () => {
+      const result = new SpotSellOperation(1, 'BTC', '0').validate();
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain('Amount must be a positive number');
+    });
+
+    it('should reject percentages above 100', () => {
+      const result = new SpotSellOperation(1, 'BTC', '150', true).validate();
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain('Percentage amount must be between 0 and 100');
+    });
+
+    it('should reject invalid minimum prices', () => {
+      const result = new SpotSellOperation(1, 'BTC', '1', false, 'limit', 'abc').validate();
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain('Minimum price must be a positive number');
+    });
+  });
+
+  describe('execute', () => {
+    it('should sell a percentage of the holding recorded by the spot buy', async () => {
+      const oneInch = createOneInchService();
+      const context = createContext(oneInch, { clock: { now: () => 1_800_000_000_000, sleep: vi.fn() } });
+      context.state.set('spotHolding', { asset: 'BTC', amount: '0.1', status: 'filled', executionPrice: '50000' });
+
+      const op = new SpotSellOperation(4, 'BTC', '50', true, 'market');
+      const result = await op.execute(context);
+
+      expect(result.success).toBe(true);
+      expect(result.operationType).toBe(OperationType.SPOT_SELL);
+      expect(result.data?.amountSold).toBe('0.05');
+      expect(oneInch.executeFusionSwap).toHaveBeenCalledWith(expect.objectContaining({
+        asset: 'BTC',
+        side: 'sell',
+        amount: '0.05',
+        orderType: 'market'
+      }));
+
+      // The fill is recorded and the remaining holding reduced
+      expect(context.state.get('spotSale')).toMatchObject({
+        amountSold: '0.05',
+        status: 'filled',
+        transactionHash: '0xsell',
+        timestamp: 1_800_000_000_000
+      });
+      expect(context.state.get('spotHolding')).toMatchObject({ amount: '0.05' });
+    });
+
+    it('should read holdings from the wallet when not in state', async () => {
+      const oneInch = createOneInchService();
+      const context = createContext(oneInch, {
+        network: {
+          chainId: 8453,
+          rpcUrl: 'http://localhost:8545',
+          contracts: {},
+          tokens: { BTC: { address: '0xcbbtc', decimals: 8 } }
+        }
+      });
+      vi.mocked(context.wallet.getBalance).mockResolvedValue('20000000'); // 0.2 BTC
+
+      const result = await new SpotSellOperation(1, 'BTC', '100', true).execute(context);
+
+      expect(context.wallet.getBalance).toHaveBeenCalledWith('0xcbbtc');
+      expect(result.success).toBe(true);
+      expect(result.data?.amountSold).toBe('0.2');
+    });
+
+    it('should fail when selling a percentage without known holdings', async () => {
+      const context = createContext(createOneInchService());
+
+      const result = await new SpotSellOperation(1, 'BTC', '100', true).execute(context);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('MISSING_SPOT_HOLDING');
+    });
+
+    it('should refuse to sell more than is held', async () => {
+      const oneInch = createOneInchService();
+      const context = createContext(oneInch);
+      context.state.set('spotHolding', { asset: 'BTC', amount: '0.1', status: 'filled' });
+
+      const result = await new SpotSellOperation(1, 'BTC', '0.5').execute(context);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('INSUFFICIENT_HOLDINGS');
+      expect(oneInch.executeFusionSwap).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to sell amounts that round down to zero', async () => {
+      const oneInch = createOneInchService();
+      const context = createContext(oneInch);
+      context.state.set('spotHolding', { asset: 'BTC', amount: '0.000000015', status: 'filled' });
+
+      const result = await new SpotSellOperation(1, 'BTC', '50', true).execute(context);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('INVALID_SELL_AMOUNT');
+      expect(oneInch.executeFusionSwap).not.toHaveBeenCalled();
+    });
+
+    it('should pass the price floor to market orders', async () => {
+      const oneInch = createOneInchService();
+      const context = createContext(oneInch);
+
+      await new SpotSellOperation(1, 'BTC', '0.1', false, 'market', '49000').execute(context);
+
+      expect(oneInch.executeFusionSwap).toHaveBeenCalledWith(expect.objectContaining({
+        minPrice: '49000',
+        targetPrice: undefined
+      }));
+    });
+
+    it('should create limit orders at the minimum price', async () => {
+      const oneInch = createOneInchService({ fusionOrderId: 'order-1', transactionHash: undefined });
+      const context = createContext(oneInch);
+      context.state.set('spotHolding', { asset: 'BTC', amount: '0.1', status: 'filled', executionPrice: '50000' });
+
+      const result = await new SpotSellOperation(1, 'BTC', '100', true, 'limit', '51000').execute(context);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.status).toBe('pending');
+      expect(oneInch.executeFusionSwap).toHaveBeenCalledWith(expect.objectContaining({
+        orderType: 'limit',
+        targetPrice: '51000'
+      }));
+      // Pending limit orders do not reduce the holding yet
+      expect(context.state.get('spotHolding')).toMatchObject({ amount: '0.1' });
+    });
+
+    it('should default to limit orders at the spot entry price in optimized mode', async () => {
+      const oneInch = createOneInchService();
+      const context = createContext(oneInch, {
+        config: { capitalAllocation: '10000', slippageTolerance: 0.5, executionMode: 'optimized' }
+      });
+      context.state.set('spotHolding', { asset: 'BTC', amount: '0.1', status: 'filled', executionPrice: '50000' });
+
+      await new SpotSellOperation(1, 'BTC', '100', true).execute(context);
+
+      expect(oneInch.executeFusionSwap).toHaveBeenCalledWith(expect.objectContaining({
+        orderType: 'limit',
+        targetPrice: '50000'
+      }));
+    });
+
+    it('should fail limit orders without a price', async () => {
+      const context = createContext(createOneInchService());
+
+      const result = await new SpotSellOperation(1, 'BTC', '0.1', false, 'limit').execute(context);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('MISSING_LIMIT_PRICE');
+    });
+
+    it('should handle swap errors gracefully', async () => {
+      const oneInch = { executeFusionSwap: vi.fn().mockRejectedValue(new Error('Quote unavailable')) };
+      const context = createContext(oneInch);
+
+      const result = await new SpotSellOperation(1, 'BTC', '0.1').execute(context);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('SPOT_SELL_FAILED');
+      expect(result.error?.recoverable).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,200 @@
+import { describe, it, expect, vi } from 'vitest';
+import { WaitOperation, MAX_WAIT_DURATION_MS } from '../WaitOperation';
+import { OperationType } from '../OperationTypes';
+import { ExecutionContext, Clock, DexService, PerpetualService } from '../../executor/ExecutionContext';
+import { ExecutionState } from '../../executor/ExecutionState';
+
+/**
+ * Deterministic clock: sleeping advances time instantly.
+ */
+function createFakeClock(start: number = 0) {
+  let current = start;
+  const clock = {
+    now: () => current,
+    sleep: vi.fn(async (ms: number) => {
+      current += ms;
+    })
+  };
+  return clock as typeof clock & Clock;
+}
+
+function createContext(overrides: Partial<ExecutionContext> = {}): ExecutionContext {
+  return {
+    config: {
+      capitalAllocation: '10000',
+      slippageTolerance: 0.5,
+      executionMode: 'instant' as const
+    },
+    state: new ExecutionState(),
+    clock: createFakeClock(),
+    ...overrides
+  } as ExecutionContext;
+}
+
+describe('WaitOperation', () => {
+  describe('validate', () => {
+    it('should validate a fixed delay', () => {
+      const op = new WaitOperation(1, 1000);
+
+      expect(op.validate().isValid).toBe(true);
+    });
+
+    it('should reject negative durations', () => {
+      const result = new WaitOperation(1, -1).validate();
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain('Wait duration must be a non-negative number');
+    });
+
+    it('should reject durations above the maximum', () => {
+      const result = new WaitOperation(1, MAX_WAIT_DURATION_MS + 1).validate();
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain(`Wait duration must not exceed ${MAX_WAIT_DURATION_MS}ms`);
+    });
+
+    it('should reject poll intervals that are too short', () => {
+      const result = new WaitOperation(1, 1000, 'state.ready', 10).validate();
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain('Poll interval must be at least 100ms');
+    });
+
+    it('should reject malformed conditions', () => {
+      const result = new WaitOperation(1, 1000, 'state.ready &&').validate();
+
+      expect(result.isValid).toBe(false);
+    });
+
+    it('should reject refresh sources without a condition', () => {
+      const result = new WaitOperation(1, 1000, undefined, 1000, [
+        { source: 'funding_rate', pair: 'BTC/USD' }
+      ]).validate();
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain('Refresh sources require a condition');
+    });
+  });
+
+  describe('execute', () => {
+    it('should sleep for the configured duration without a condition', async () => {
+      const clock = createFakeClock();
+      const context = createContext({ clock });
+
+      const result = await new WaitOperation(1, 3000).execute(context);
+
+      expect(result.success).toBe(true);
+      expect(result.operationType).toBe(OperationType.WAIT);
+      expect(result.data?.waitedMs).toBe(3000);
+      expect(clock.sleep).toHaveBeenCalledWith(3000, undefined);
+    });
+
+    it('should return immediately when the condition already holds', async () => {
+      const clock = createFakeClock();
+      const context = createContext({ clock });
+      context.state.write('ready', true);
+
+      const result = await new WaitOperation(1, 60000, 'state.ready', 1000).execute(context);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.conditionMet).toBe(true);
+      expect(result.data?.checks).toBe(1);
+      expect(clock.sleep).not.toHaveBeenCalled();
+    });
+
+    it('should poll a funding rate until it crosses the threshold', async () => {
+      const dexService: DexService = {
+        getFundingRate: vi.fn()
+          .mockResolvedValueOnce(0.001)
+          .mockResolvedValueOnce(0.005)
+          .mockResolvedValue(0.012)
+      };
+      const context = createContext({ getDexService: () => dexService });
+
+      const op = new WaitOperation(1, 60000, 'state.fundingRate >= 0.01', 1000, [
+        { source: 'funding_rate', pair: 'BTC/USD' }
+      ]);
+      const result = await op.execute(context);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.checks).toBe(3);
+      expect(result.data?.waitedMs).toBe(2000);
+      expect(context.state.get('fundingRate')).toBe(0.012);
+      expect(dexService.getFundingRate).toHaveBeenCalledWith('BTC/USD');
+    });
+
+    it('should poll a position until it is confirmed', async () => {
+      const perpService = {
+        openShort: vi.fn(),
+        openLong: vi.fn(),
+        closePosition: vi.fn(),
+        getPositionStatus: vi.fn()
+          .mockResolvedValueOnce({ confirmed: false })
+          .mockResolvedValue({ confirmed: true, entryPrice: '50100' })
+      } satisfies PerpetualService;
+      const context = createContext({ getPerpetualService: () => perpService });
+      context.state.set('shortPosition', {
+        pair: 'BTC/USD',
+        entryPrice: '50000',
+        amount: '1000',
+        leverage: 2,
+        transactionHash: '0xshort'
+      });
+
+      const op = new WaitOperation(1, 60000, 'state.positionStatus.confirmed', 2000, [
+        { source: 'position_status' }
+      ]);
+      const result = await op.execute(context);
+
+      expect(result.success).toBe(true);
+      expect(perpService.getPositionStatus).toHaveBeenCalledWith('0xshort');
+      expect(context.state.get('positionStatus')).toEqual({ confirmed: true, entryPrice: '50100' });
+    });
+
+    it('should time out when the condition never holds', async () => {
+      const clock = createFakeClock();
+      const context = createContext({ clock });
+
+      const result = await new WaitOperation(1, 5000, 'state.isProfitable', 2000).execute(context);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('WAIT_TIMEOUT');
+      expect(result.error?.recoverable).toBe(true);
+      expect(result.data?.waitedMs).toBe(5000);
+      // Checks at 0, 2000, 4000 and 5000 - the last sleep is shortened to the timeout
+      expect(result.data?.checks).toBe(4);
+      expect(clock.sleep).toHaveBeenLastCalledWith(1000, undefined);
+    });
+
+    it('should stop polling once the operation is cancelled', async () => {
+      const clock = createFakeClock();
+      const controller = new AbortController();
+      controller.abort();
+      const context = createContext({ clock, signal: controller.signal });
+
+      const result = await new WaitOperation(1, 5000, 'state.isProfitable', 2000).execute(context);
+
+      expect(result.success).toBe(false);
+      expect(result.data?.checks).toBe(1);
+      expect(clock.sleep).not.toHaveBeenCalled();
+    });
+
+    it('should keep polling when a refresh source fails transiently', async () => {
+      const dexService: DexService = {
+        getFundingRate: vi.fn()
+          .mockRejectedValueOnce(new Error('RPC timeout'))
+          .mockResolvedValue(0.02)
+      };
+      const context = createContext({ getDexService: () => dexService });
+
+      const op = new WaitOperation(1, 10000, 'state.ethRate > 0.01', 1000, [
+        { source: 'funding_rate', pair: 'ETH/USD', stateKey: 'ethRate' }
+      ]);
+      const result = await op.execute(context);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.checks).toBe(2);
+      expect(context.state.read('ethRate')).toBe(0.02);
+    });
+  });
+});
@@ -2,18 +2,39 @@
  * TEE Operations Module
  * 
  * This module exports all operation-related interfaces and types used in the TEE.
- * Operations follow the Command pattern and are executed sequentially within
+ * Operations follow the Command pattern and are executed along their dependencies within
  * the Trusted Execution Environment.
  */
 
-export { IOperation } from './IOperation';
-export { 
-  OperationType, 
-  ValidationResult, 
-  OperationResult, 
-  OperationError 
+export type { IOperation } from './IOperation';
+export { OperationType } from './OperationTypes';
+export type {
+  ValidationResult,
+  OperationResult,
+  OperationError,
+  OperationAttempt
 } from './OperationTypes';
 export { MockOperation } from './MockOperation';
 export { CheckFundingRateOperation } from './CheckFundingRateOperation';
+export { CheckPriceOperation, PRICE_EQUALITY_TOLERANCE } from './CheckPriceOperation';
+export type { PriceOperator } from './CheckPriceOperation';
+export { CheckLiquidityOperation } from './CheckLiquidityOperation';
 export { OpenPerpetualShortOperation } from './OpenPerpetualShortOperation';
+export { OpenPerpetualLongOperation } from './OpenPerpetualLongOperation';
+export { ClosePositionOperation } from './ClosePositionOperation';
+export type { PositionSide } from './ClosePositionOperation';
 export { SpotBuyOperation } from './SpotBuyOperation';
+export { SpotSellOperation } from './SpotSellOperation';
+export { ConditionalOperation } from './ConditionalOperation';
+export { DeferredOperation } from './DeferredOperation';
+export { WaitOperation, MAX_WAIT_DURATION_MS, DEFAULT_POLL_INTERVAL_MS } from './WaitOperation';
+export type { WaitSource } from './WaitOperation';
+export {
+  OperationRegistry,
+  operationRegistry,
+  registerOperation
+} from './OperationRegistry';
+export type {
+  OperationDefinition,
+  OperationBuilder
+} from './OperationRegistry';
@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { AbiCoder } from 'ethers';
+import { BASE_FEE_CONTRACTS, RpcTransport, createFetchTransport, estimateFees, estimateOperationGas } from '../feeEstimation';
+import { OperationType, SerializedOperation } from '../operationSchema';
+
+const NOW = 1_800_000_000_000;
+
+const coder = AbiCoder.defaultAbiCoder();
+
+const checkRate: SerializedOperation = {
+  type: OperationType.CHECK_FUNDING_RATE,
+  order: 1,
+  params: { ticker: 'ETH/USDC', minRate: 0.01 }
+};
+const openShort: SerializedOperation = {
+  type: OperationType.OPEN_SHORT,
+  order: 2,
+  label: 'short',
+  params: { ticker: 'ETH/USDC', size: 50, leverage: 1 }
+};
+const spotBuy: SerializedOperation = {
+  type: OperationType.SPOT_BUY,
+  order: 3,
+  params: { ticker: 'ETH/USDC', amount: 50 }
+};
+
+/**
+ * Base node answering with a 0.005 gwei base fee, a 0.001 gwei priority fee,
+ * an L1 fee of 1 gwei per transaction byte and ETH at $3000
+ */
+function createTransport(overrides: { updatedAt?: number; answer?: bigint; baseFeePerGas?: string } = {}) {
+  const transport = vi.fn<Parameters<RpcTransport>, ReturnType<RpcTransport>>(async (method, params) => {
+    switch (method) {
+      case 'eth_getBlockByNumber':
+        return { number: '0x100', baseFeePerGas: 'baseFeePerGas' in overrides ? overrides.baseFeePerGas : '0x4c4b40' };
+      case 'eth_maxPriorityFeePerGas':
+        return '0xf4240';
+      case 'eth_call': {
+        const [{ to, data }] = params as [{ to: string; data: string }];
+        if (to === BASE_FEE_CONTRACTS.gasPriceOracle) {
+          const [txBytes] = coder.decode(['uint256'], `0x${data.slice(10)}`);
+          return coder.encode(['uint256'], [txBytes * BigInt(1_000_000_000)]);
+        }
+        if (data === '0x313ce567') {
+          return coder.encode(['uint8'], [8]);
+        }
+        const updatedAt = overrides.updatedAt ?? NOW / 1000 - 60;
+        return coder.encode(
+          ['uint80', 'int256', 'uint256', 'uint256', 'uint80'],
+          [BigInt(1), overrides.answer ?? BigInt(300_000_000_000), updatedAt, updatedAt, BigInt(1)]
+        );
+      }
+      default:
+        throw new Error(`Unexpected method ${method}`);
+    }
+  });
+  return transport;
+}
+
+describe('feeEstimation', () => {
+  describe('estimateOperationGas', () => {
+    it('should list the transactions of chain writes in execution order', () => {
+      expect(estimateOperationGas([spotBuy, checkRate, openShort])).toEqual([
+        { order: 2, type: OperationType.OPEN_SHORT, label: 'short', gasUnits: 450000, txBytes: 560 },
+        { order: 3, type: OperationType.SPOT_BUY, gasUnits: 55000, txBytes: 120 }
+      ]);
+    });
+
+    it('should count the conditional branch using more gas', () => {
+      const conditional: SerializedOperation = {
+        type: OperationType.CONDITIONAL,
+        order: 2,
+        params: {
+          condition: 'isProfitable',
+          thenOperations: [{ ...spotBuy, order: 1 }],
+          elseOperations: [{ ...openShort, order: 1 }]
+        }
+      };
+
+      expect(estimateOperationGas([checkRate, conditional]).map(transaction => transaction.type))
+        .toEqual([OperationType.OPEN_SHORT]);
+    });
+  });
+
+  describe('estimateFees', () => {
+    it('should price each transaction with the L2 fees, the L1 data fee and the ETH price', async () => {
+      const transport = createTransport();
+
+      const estimate = await estimateFees(transport, [checkRate, openShort, spotBuy], { now: () => NOW });
+
+      // L2: (450000 + 55000) gas at 0.006 gwei; L1: (560 + 120) gwei
+      expect(estimate).toMatchObject({
+        baseFeePerGas: '5000000',
+        priorityFeePerGas: '1000000',
+        ethPriceUSD: 3000,
+        gasUnits: 505000,
+        l2FeeWei: '3030000000000',
+        l1FeeWei: '680000000000',
+        totalFeeWei: '3710000000000'
+      });
+      expect(estimate.totalFeeUSD).toBeCloseTo(0.01113, 10);
+      expect(estimate.operations.map(fee => [fee.type, fee.l2FeeWei, fee.l1FeeWei])).toEqual([
+        [OperationType.OPEN_SHORT, '2700000000000', '560000000000'],
+        [OperationType.SPOT_BUY, '330000000000', '120000000000']
+      ]);
+      expect(estimate.operations[0].feeUSD).toBeCloseTo(0.00978, 10);
+    });
+
+    it('should ask the oracle once per transaction size', async () => {
+      const transport = createTransport();
+
+      await estimateFees(transport, [openShort, { ...openShort, order: 3 }, spotBuy], { now: () => NOW });
+
+      const oracleCalls = transport.mock.calls.filter(
+        ([method, params]) => method === 'eth_call' && (params[0] as { to: string }).to === BASE_FEE_CONTRACTS.gasPriceOracle
+      );
+      expect(oracleCalls).toHaveLength(2);
+    });
+
+    it('should refuse a stale or invalid ETH price', async () => {
+      await expect(estimateFees(createTransport({ updatedAt: NOW / 1000 - 7200 }), [openShort], { now: () => NOW }))
+        .rejects.toThrow('ETH/USD price feed answer is stale (7200s old)');
+      await expect(estimateFees(createTransport({ answer: BigInt(-1) }), [openShort], { now: () => NOW }))
+        .rejects.toThrow('ETH/USD price feed returned an invalid answer');
+    });
+
+    it('should fail on a chain without a base fee', async () => {
+      await expect(estimateFees(createTransport({ baseFeePerGas: undefined }), [openShort], { now: () => NOW }))
+        .rejects.toThrow('Latest block does not report a base fee');
+    });
+  });
+
+  describe('createFetchTransport', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should send JSON-RPC requests and return their result or error', async () => {
+      const fetch = vi.fn()
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ jsonrpc: '2.0', id: 1, result: '0x2105' }) })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ jsonrpc: '2.0', id: 2, error: { message: 'rate limited' } }) })
+        .mockResolvedValueOnce({ ok: false, status: 503 });
+      vi.stubGlobal('fetch', fetch);
+      const transport = createFetchTransport('https://rpc.example');
+
+      await expect(transport('eth_chainId', [])).resolves.toBe('0x2105');
+      await expect(transport('eth_chainId', [])).rejects.toThrow('RPC request eth_chainId failed: rate limited');
+      await expect(transport('eth_chainId', [])).rejects.toThrow('RPC request eth_chainId failed with HTTP 503');
+
+      expect(fetch).toHaveBeenCalledWith('https://rpc.example', expect.objectContaining({ method: 'POST' }));
+      expect(JSON.parse(fetch.mock.calls[1][1].body)).toEqual({ jsonrpc: '2.0', id: 2, method: 'eth_chainId', params: [] });
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { OperationManifest, checkManifestSupport } from '../manifest';
+import { CURRENT_FORMAT_VERSION, OPERATION_SCHEMAS, OperationType, SerializedOperation, resultRef } from '../operationSchema';
+
+/** Manifest of a TEE build that only knows spot buys and conditionals, without limit orders */
+const manifest: OperationManifest = {
+  formatVersion: CURRENT_FORMAT_VERSION,
+  operations: [
+    {
+      type: OperationType.SPOT_BUY,
+      params: {
+        ticker: { kind: 'string', required: true },
+        amount: { kind: 'decimal', required: true },
+        maxPrice: { kind: 'decimal', required: false },
+        orderType: { kind: 'string', required: false, values: ['market'] }
+      }
+    },
+    { type: OperationType.CONDITIONAL, params: OPERATION_SCHEMAS[OperationType.CONDITIONAL].params }
+  ]
+};
+
+const spotBuy: SerializedOperation = {
+  type: OperationType.SPOT_BUY,
+  order: 1,
+  params: { ticker: 'BTC/USDC', amount: 50, maxPrice: resultRef('shortPosition', 'entryPrice'), isPercentage: undefined }
+};
+
+describe('checkManifestSupport', () => {
+  it('should accept strategies that only use supported types and parameters', () => {
+    expect(checkManifestSupport({ formatVersion: CURRENT_FORMAT_VERSION, operations: [spotBuy] }, manifest))
+      .toEqual({ isValid: true, errors: [] });
+  });
+
+  it('should report unsupported types, parameters and values, inside branches too', () => {
+    const result = checkManifestSupport({
+      operations: [
+        { ...spotBuy, params: { ...spotBuy.params, orderType: 'limit' } },
+        {
+          type: OperationType.CONDITIONAL,
+          order: 2,
+          params: {
+            condition: 'state.isProfitable',
+            thenOperations: [
+              { type: OperationType.SPOT_BUY, order: 1, params: { ticker: 'BTC/USDC', amount: 50, isPercentage: true } },
+              { type: OperationType.WAIT, order: 2, params: { duration: 1000 } }
+            ]
+          }
+        }
+      ]
+    }, manifest);
+
+    expect(result.errors).toEqual([
+      'Operation at index 0: value "limit" of "orderType" is not supported by the TEE',
+      'Operation at index 1: "thenOperations" entry at index 0: parameter "isPercentage" is not supported by the TEE',
+      'Operation at index 1: "thenOperations" entry at index 1: type "wait" is not supported by the TEE'
+    ]);
+  });
+
+  it('should report strategies written in a newer format version', () => {
+    const result = checkManifestSupport({ formatVersion: CURRENT_FORMAT_VERSION + 1, operations: [] }, manifest);
+
+    expect(result.errors).toEqual([
+      `Format version ${CURRENT_FORMAT_VERSION + 1} is newer than the TEE supports (${CURRENT_FORMAT_VERSION})`
+    ]);
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { CURRENT_FORMAT_VERSION, validateStrategy } from '../operationSchema';
+import {
+  StrategyFormatError,
+  UNSUPPORTED_FORMAT_VERSION,
+  getFormatVersion,
+  migrateStrategy
+} from '../migrations';
+
+describe('migrations', () => {
+  describe('getFormatVersion', () => {
+    it('should treat unversioned payloads as format 1', () => {
+      expect(getFormatVersion({ operations: [] })).toBe(1);
+    });
+
+    it('should reject versions this TEE does not know', () => {
+      for (const formatVersion of [0, 1.5, '2', CURRENT_FORMAT_VERSION + 1]) {
+        expect(() => getFormatVersion({ formatVersion, operations: [] })).toThrow(StrategyFormatError);
+      }
+    });
+
+    it('should expose a dedicated error code', () => {
+      try {
+        getFormatVersion({ formatVersion: 99, operations: [] });
+        expect.fail('expected a StrategyFormatError');
+      } catch (error) {
+        expect((error as StrategyFormatError).code).toBe(UNSUPPORTED_FORMAT_VERSION);
+        expect((error as Error).message).toBe(
+          `Unsupported strategy format version: 99 (supported: 1 to ${CURRENT_FORMAT_VERSION})`
+        );
+      }
+    });
+  });
+
+  describe('migrateStrategy', () => {
+    it('should upgrade the legacy TEE vocabulary to the shared schema', () => {
+      const legacy = {
+        metadata: { strategyId: 'funding-001', version: '1.0.0' },
+        operations: [
+          { type: 'check_funding_rate', order: 1, params: { pair: 'BTC/USD', minProfitableRate: 0.01 } },
+          { type: 'open_perpetual_short', order: 2, params: { pair: 'BTC/USD', capitalPercentage: 50 } },
+          { type: 'spot_buy', order: 3, params: { asset: 'BTC', capitalPercentage: 50, orderType: 'limit', priceReference: 'short_entry_price' } },
+          { type: 'close_position', order: 4, params: { pair: 'BTC/USD', side: 'long', minPrice: 58000 } },
+          { type: 'close_position', order: 5, params: { ticker: 'BTC/USD', maxPrice: 52000 } },
+          { type: 'spot_sell', order: 6, params: { asset: 'BTC', amount: '100', isPercentage: true } }
+        ]
+      };
+
+      const migrated = migrateStrategy(legacy) as Record<string, unknown>;
+
+      expect(migrated).toEqual({
+        formatVersion: CURRENT_FORMAT_VERSION,
+        strategyId: 'funding-001',
+        version: '1.0.0',
+        operations: [
+          { type: 'check_funding_rate', order: 1, params: { ticker: 'BTC/USD', minRate: 0.01 } },
+          { type: 'open_short', order: 2, params: { ticker: 'BTC/USD', size: 50, isPercentage: true, leverage: 1 } },
+          { type: 'spot_buy', order: 3, params: { ticker: 'BTC/USDC', amount: 50, isPercentage: true, orderType: 'limit', priceReference: 'short_entry_price' } },
+          { type: 'close_long', order: 4, params: { ticker: 'BTC/USD', minPrice: 58000 } },
+          { type: 'close_short', order: 5, params: { ticker: 'BTC/USD', maxPrice: 52000 } },
+          { type: 'spot_sell', order: 6, params: { ticker: 'BTC/USDC', amount: '100', isPercentage: true } }
+        ]
+      });
+      expect(validateStrategy(migrated).isValid).toBe(true);
+    });
+
+    it('should migrate nested conditional branches', () => {
+      const migrated = migrateStrategy({
+        operations: [
+          {
+            type: 'conditional',
+            order: 1,
+            params: {
+              condition: 'state.isProfitable',
+              thenOperations: [{ type: 'open_perpetual_long', order: 1, params: { pair: 'ETH/USD', capitalPercentage: 25, leverage: 2 } }],
+              elseOperations: [{ type: 'close_perpetual_long', order: 1, params: { pair: 'ETH/USD' } }]
+            }
+          }
+        ]
+      }) as { operations: { params: Record<string, unknown> }[] };
+
+      expect(migrated.operations[0].params.thenOperations).toEqual([
+        { type: 'open_long', order: 1, params: { ticker: 'ETH/USD', size: 25, isPercentage: true, leverage: 2 } }
+      ]);
+      expect(migrated.operations[0].params.elseOperations).toEqual([
+        { type: 'close_long', order: 1, params: { ticker: 'ETH/USD' } }
+      ]);
+    });
+
+    it('should keep the new name when a param is set under both names', () => {
+      const migrated = migrateStrategy({
+        operations: [
+          { type: 'open_perpetual_short', order: 1, params: { pair: 'BTC/USD', ticker: 'BTC/USDC', size: '40', capitalPercentage: 50 } }
+        ]
+      }) as { operations: unknown[] };
+
+      expect(migrated.operations).toEqual([
+        { type: 'open_short', order: 1, params: { ticker: 'BTC/USDC', size: '40', leverage: 1 } }
+      ]);
+      expect(validateStrategy(migrated).isValid).toBe(true);
+    });
+
+    it('should leave unversioned frontend payloads unchanged', () => {
+      const operations = [
+        { type: 'check_funding_rate', order: 1, params: { ticker: 'BTC/USDC', minRate: 0.01, exchange: 'avantis' } },
+        { type: 'open_short', order: 2, params: { ticker: 'BTC/USDC', size: '50', isPercentage: true, leverage: 1 } }
+      ];
+
+      const migrated = migrateStrategy({ strategyId: 'x', version: '1.0.0', operations });
+
+      expect(migrated).toEqual({ formatVersion: CURRENT_FORMAT_VERSION, strategyId: 'x', version: '1.0.0', operations });
+    });
+
+    it('should not migrate payloads already in the current format', () => {
+      const strategy = {
+        formatVersion: CURRENT_FORMAT_VERSION,
+        operations: [{ type: 'spot_sell', order: 1, params: { ticker: 'BTC/USDC', amount: 1, asset: 'BTC' } }]
+      };
+
+      expect(migrateStrategy(strategy)).toEqual(strategy);
+    });
+
+    it('should not mutate its input', () => {
+      const legacy = { operations: [{ type: 'open_perpetual_short', order: 1, params: { pair: 'BTC/USD', capitalPercentage: 50 } }] };
+      const snapshot = JSON.parse(JSON.stringify(legacy));
+
+      migrateStrategy(legacy);
+
+      expect(legacy).toEqual(snapshot);
+    });
+  });
+});
@@ -0,0 +1,357 @@
+import { describe, it, expect } from 'vitest';
+import {
+  OperationType,
+  validateOperation,
+  validateOperations,
+  validateStrategy,
+  validateReferences,
+  validateStateKeys,
+  getReferencedLabels,
+  getReadStateKeys,
+  isResultReference,
+  resultRef,
+  isOperationType,
+  MAX_RETRY_ATTEMPTS,
+  SerializedOperation
+} from '../operationSchema';
+
+describe('operationSchema', () => {
+  describe('validateOperation', () => {
+    it('should accept the operations produced by the frontend strategies', () => {
+      const operations = [
+        { type: OperationType.CHECK_FUNDING_RATE, order: 1, params: { ticker: 'BTC/USDC', minRate: 0.01, exchange: 'avantis' } },
+        { type: OperationType.OPEN_SHORT, order: 2, params: { ticker: 'BTC/USDC', size: '50', isPercentage: true, leverage: 1 } },
+        { type: OperationType.SPOT_BUY, order: 3, params: { ticker: 'BTC/USDC', amount: 50, description: 'Hedge' }, label: 'spotHedge' }
+      ];
+
+      for (const op of operations) {
+        expect(validateOperation(op)).toEqual({ isValid: true, errors: [] });
+      }
+    });
+
+    it('should treat undefined optional params as absent', () => {
+      const result = validateOperation({
+        type: OperationType.CLOSE_LONG,
+        order: 1,
+        params: { ticker: 'BTC/USDC', amount: undefined, closeAll: true, minPrice: undefined },
+        label: undefined,
+        optional: undefined
+      });
+
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should reject malformed envelopes', () => {
+      expect(validateOperation(null).errors).toEqual(['Operation must be an object']);
+      expect(validateOperation({ type: 'teleport', order: 1, params: {} }).errors)
+        .toEqual(['Unknown operation type: teleport']);
+      expect(validateOperation({ type: OperationType.WAIT, order: 1, params: { duration: 0 }, label: ' ' }).errors)
+        .toEqual(['Operation "label" must be a non-empty string']);
+    });
+
+    it('should accept retry policies', () => {
+      const result = validateOperation({
+        type: OperationType.CHECK_FUNDING_RATE,
+        order: 1,
+        params: { ticker: 'BTC/USDC' },
+        retry: { maxAttempts: 3, initialDelayMs: 500, backoffMultiplier: 2, maxDelayMs: 5000, jitter: 0.1, retryableCodes: ['FUNDING_RATE_CHECK_FAILED'] }
+      });
+
+      expect(result).toEqual({ isValid: true, errors: [] });
+    });
+
+    it('should reject malformed retry policies', () => {
+      const withRetry = (retry: unknown) => validateOperation({ type: OperationType.WAIT, order: 1, params: { duration: 0 }, retry });
+
+      expect(withRetry(3).errors).toEqual(['Operation "retry" must be an object']);
+      expect(withRetry({ maxAttempts: 11 }).errors)
+        .toEqual([`Operation "retry.maxAttempts" must be an integer between 1 and ${MAX_RETRY_ATTEMPTS}`]);
+      expect(withRetry({ maxAttempts: 2, backoffMultiplier: 0.5, jitter: 2, retryableCodes: [''], delay: 1 }).errors).toEqual([
+        'Operation "retry" has unknown field "delay"',
+        'Operation "retry.backoffMultiplier" must be at least 1',
+        'Operation "retry.jitter" must be between 0 and 1',
+        'Operation "retry.retryableCodes" must be an array of non-empty strings'
+      ]);
+    });
+
+    it('should reject dependencies that are not lists of labels', () => {
+      for (const dependsOn of ['shortPosition', [''], [1]]) {
+        expect(validateOperation({ type: OperationType.WAIT, order: 1, params: { duration: 0 }, dependsOn }).errors)
+          .toEqual(['Operation "dependsOn" must be an array of non-empty strings']);
+      }
+    });
+
+    it('should reject time limits that are not positive integers', () => {
+      for (const timeoutMs of [0, -1, 1.5, '1000']) {
+        expect(validateOperation({ type: OperationType.WAIT, order: 1, params: { duration: 0 }, timeoutMs }).errors)
+          .toEqual(['Operation "timeoutMs" must be a positive integer']);
+      }
+    });
+
+    it('should accept result references in decimal params', () => {
+      const result = validateOperation({
+        type: OperationType.SPOT_BUY,
+        order: 3,
+        params: { ticker: 'BTC/USDC', amount: 50, maxPrice: { $ref: 'shortPosition.entryPrice' } }
+      });
+
+      expect(result).toEqual({ isValid: true, errors: [] });
+    });
+
+    it('should reject malformed result references', () => {
+      for (const maxPrice of [{ $ref: 'shortPosition' }, { $ref: 'a.b', extra: 1 }, { $ref: 42 }]) {
+        expect(validateOperation({
+          type: OperationType.SPOT_BUY,
+          order: 3,
+          params: { ticker: 'BTC/USDC', amount: 50, maxPrice }
+        }).errors).toEqual(['spot_buy "maxPrice" reference must be a string of the form "<label>.<field>"']);
+      }
+    });
+
+    it('should only run cross-field rules once the fields are valid', () => {
+      expect(validateOperation({
+        type: OperationType.CHECK_FUNDING_RATE,
+        order: 1,
+        params: { ticker: 'BTC/USDC', minRate: 0.02, maxRate: 0.01 }
+      }).errors).toEqual(['check_funding_rate "maxRate" must not be below "minRate"']);
+
+      expect(validateOperation({
+        type: OperationType.CHECK_FUNDING_RATE,
+        order: 1,
+        params: { ticker: 'BTC/USDC', minRate: 'high', maxRate: 0.01 }
+      }).errors).toEqual(['check_funding_rate "minRate" must be a number']);
+    });
+
+    it('should validate nested conditional branches', () => {
+      const result = validateOperation({
+        type: OperationType.CONDITIONAL,
+        order: 1,
+        params: {
+          condition: 'state.isProfitable',
+          thenOperations: [{ type: OperationType.MOCK_OPERATION, order: 1, params: { message: 'ok' } }],
+          elseOperations: [{ type: OperationType.SPOT_SELL, order: 1, params: { ticker: 'BTC/USDC', amount: '-1' } }]
+        }
+      });
+
+      expect(result.errors).toEqual([
+        'conditional "elseOperations" entry at index 0: spot_sell "amount" must be greater than 0'
+      ]);
+    });
+  });
+
+  describe('validateOperations', () => {
+    it('should prefix errors with the operation index', () => {
+      const result = validateOperations([
+        { type: OperationType.MOCK_OPERATION, order: 1, params: { message: 'ok' } },
+        { type: OperationType.OPEN_LONG, order: 2, params: { ticker: 'BTC/USDC', size: 50, leverage: 0 } }
+      ]);
+
+      expect(result.errors).toEqual(['Operation at index 1: open_long "leverage" must be between 1 and 10']);
+    });
+
+    it('should check result references once every operation is valid', () => {
+      const result = validateOperations([
+        { type: OperationType.SPOT_BUY, order: 1, params: { ticker: 'BTC/USDC', amount: 50, maxPrice: resultRef('shortPosition', 'entryPrice') } },
+        { type: OperationType.OPEN_SHORT, order: 2, params: { ticker: 'BTC/USDC', size: 50, leverage: 1 }, label: 'shortPosition' }
+      ]);
+
+      expect(result.errors).toEqual([
+        'Operation at index 0: reference to "shortPosition" must point to the label of an earlier operation'
+      ]);
+    });
+  });
+
+  describe('validateReferences', () => {
+    const openShort = { type: OperationType.OPEN_SHORT, order: 1, params: { ticker: 'BTC/USDC', size: 50, leverage: 1 }, label: 'shortPosition' } as const;
+
+    it('should accept references to earlier labelled operations', () => {
+      const result = validateReferences([
+        { type: OperationType.SPOT_BUY, order: 2, params: { ticker: 'BTC/USDC', amount: 50, maxPrice: resultRef('shortPosition', 'entryPrice') } },
+        openShort
+      ]);
+
+      expect(result).toEqual({ isValid: true, errors: [] });
+    });
+
+    it('should reject duplicate labels', () => {
+      const result = validateReferences([openShort, { ...openShort, order: 2 }]);
+
+      expect(result.errors).toEqual(['Operation at index 1: label "shortPosition" is used more than once']);
+    });
+
+    it('should let branches reference enclosing operations but not the reverse', () => {
+      const result = validateReferences([
+        openShort,
+        {
+          type: OperationType.CONDITIONAL,
+          order: 2,
+          params: {
+            condition: 'state.isProfitable',
+            thenOperations: [
+              { type: OperationType.SPOT_BUY, order: 1, params: { ticker: 'BTC/USDC', amount: 50, maxPrice: resultRef('shortPosition', 'entryPrice') }, label: 'spotHedge' }
+            ]
+          }
+        },
+        { type: OperationType.SPOT_SELL, order: 3, params: { ticker: 'BTC/USDC', amount: resultRef('spotHedge', 'amountReceived') } }
+      ]);
+
+      expect(result.errors).toEqual([
+        'Operation at index 2: reference to "spotHedge" must point to the label of an earlier operation'
+      ]);
+    });
+
+    it('should reject dependencies on operations that do not run earlier', () => {
+      const result = validateReferences([
+        openShort,
+        { type: OperationType.SPOT_BUY, order: 2, params: { ticker: 'BTC/USDC', amount: 50 }, label: 'spotHedge', dependsOn: ['shortPosition'] },
+        { type: OperationType.WAIT, order: 2, params: { duration: 0 }, dependsOn: ['spotHedge'] }
+      ]);
+
+      expect(result.errors).toEqual([
+        'Operation at index 2: dependency on "spotHedge" must point to the label of an earlier operation'
+      ]);
+    });
+
+    it('should locate errors inside conditional branches', () => {
+      const result = validateReferences([
+        {
+          type: OperationType.CONDITIONAL,
+          order: 1,
+          params: {
+            condition: 'state.isProfitable',
+            thenOperations: [openShort],
+            elseOperations: [{ type: OperationType.CLOSE_SHORT, order: 1, params: { ticker: 'BTC/USDC', maxPrice: resultRef('shortPosition', 'entryPrice') } }]
+          }
+        }
+      ]);
+
+      expect(result.errors).toEqual([
+        'Operation at index 0: "elseOperations" entry at index 0: reference to "shortPosition" must point to the label of an earlier operation'
+      ]);
+    });
+  });
+
+  describe('validateStateKeys', () => {
+    const checkFundingRate = { type: OperationType.CHECK_FUNDING_RATE, order: 1, params: { ticker: 'BTC/USDC', minRate: 0.01 } } as const;
+
+    it('should accept conditions reading keys written by earlier operations or refreshed by the wait', () => {
+      const result = validateStateKeys([
+        checkFundingRate,
+        {
+          type: OperationType.CONDITIONAL,
+          order: 2,
+          params: {
+            condition: 'state.isProfitable && state.fundingRate >= 0.01',
+            thenOperations: [
+              { type: OperationType.WAIT, order: 1, params: { duration: 1000, condition: 'state.ethRate > 0.01', refresh: [{ source: 'funding_rate', pair: 'ETH/USD', stateKey: 'ethRate' }] } }
+            ]
+          }
+        },
+        { type: OperationType.WAIT, order: 3, params: { duration: 1000, condition: 'state.ethRate > 0.02' } }
+      ]);
+
+      expect(result).toEqual({ isValid: true, errors: [] });
+    });
+
+    it('should reject unknown keys and keys read before they are written', () => {
+      const result = validateStateKeys([
+        { ...checkFundingRate, order: 2 },
+        {
+          type: OperationType.CONDITIONAL,
+          order: 2,
+          params: {
+            condition: 'state.isProfitable',
+            thenOperations: [{ type: OperationType.WAIT, order: 1, params: { duration: 1000, condition: 'state.isProfitible' } }]
+          }
+        }
+      ]);
+
+      expect(result.errors).toEqual([
+        'Operation at index 1: condition reads state key "isProfitable" before any earlier operation writes it',
+        'Operation at index 1: "thenOperations" entry at index 0: condition reads unknown state key "isProfitible"'
+      ]);
+    });
+
+    it('should only count writers the reader waits for when it declares dependencies', () => {
+      const checkPrice = { type: OperationType.CHECK_PRICE, order: 1, label: 'price', params: { ticker: 'BTC/USDC', operator: 'gt', targetPrice: 1 } } as const;
+      const readsProfitability = (order: number, dependsOn: string[]): SerializedOperation<OperationType.CONDITIONAL> => ({
+        type: OperationType.CONDITIONAL,
+        order,
+        dependsOn,
+        params: { condition: 'state.isProfitable', thenOperations: [] }
+      });
+
+      const result = validateStateKeys([
+        checkFundingRate,
+        checkPrice,
+        // Runs as soon as the price check completes, possibly before the funding rate check
+        readsProfitability(2, ['price']),
+        { type: OperationType.WAIT, order: 2, label: 'pause', params: { duration: 1000 } },
+        // The wait follows every operation of order 1, the funding rate check included
+        readsProfitability(3, ['pause'])
+      ]);
+
+      expect(result.errors).toEqual([
+        'Operation at index 2: condition reads state key "isProfitable" without depending on the operation that writes it'
+      ]);
+    });
+
+    it('should not let refresh sources write keys owned by other operations', () => {
+      expect(validateOperation({
+        type: OperationType.WAIT,
+        order: 1,
+        params: { duration: 1000, refresh: [{ source: 'funding_rate', pair: 'BTC/USD', stateKey: 'isProfitable' }] }
+      }).errors).toEqual(['wait "refresh" entry at index 0 cannot write state key "isProfitable", which belongs to other operations']);
+    });
+
+    it('should ignore references inside string literals', () => {
+      expect(getReadStateKeys({
+        type: OperationType.WAIT,
+        order: 1,
+        params: { duration: 1000, condition: "state.priceCheck.pair == 'state.pair' && !result.state.x" }
+      })).toEqual(['priceCheck']);
+    });
+  });
+
+  describe('result references', () => {
+    it('should build and recognise references', () => {
+      expect(resultRef('shortPosition', 'entryPrice')).toEqual({ $ref: 'shortPosition.entryPrice' });
+      expect(isResultReference(resultRef('spotHedge', 'data.amount'))).toBe(true);
+      expect(isResultReference({ $ref: 'shortPosition' })).toBe(false);
+      expect(isResultReference('shortPosition.entryPrice')).toBe(false);
+    });
+
+    it('should list the labels an operation references once each', () => {
+      expect(getReferencedLabels({
+        type: OperationType.OPEN_LONG,
+        order: 3,
+        params: { ticker: 'BTC/USDC', size: 50, leverage: 1, stopLoss: resultRef('a', 'low'), takeProfit: resultRef('a', 'high') }
+      })).toEqual(['a']);
+    });
+  });
+
+  describe('validateStrategy', () => {
+    it('should require an operations array', () => {
+      expect(validateStrategy({ strategyId: 'x' }).errors)
+        .toEqual(['Invalid strategy structure: missing or invalid operations array']);
+    });
+
+    it('should accept a serialized strategy', () => {
+      const result = validateStrategy({
+        strategyId: 'mock-strategy-001',
+        version: '1.0.0',
+        operations: [{ type: OperationType.MOCK_OPERATION, order: 1, params: { message: 'hello', delay: 0 } }]
+      });
+
+      expect(result.isValid).toBe(true);
+    });
+  });
+
+  describe('isOperationType', () => {
+    it('should recognise only known operation types', () => {
+      expect(isOperationType('open_short')).toBe(true);
+      expect(isOperationType('close_position')).toBe(false);
+      expect(isOperationType(42)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,343 @@
+/**
+ * Fee estimation
+ *
+ * Estimates what executing a strategy costs in network fees on Base, from the
+ * serialized operations themselves: each operation that writes to the chain
+ * is priced with the current base fee and priority fee (L2 execution fee)
+ * plus the L1 data fee the OP Stack charges for posting the transaction to
+ * Ethereum, and the total is converted to USD with the on-chain ETH/USD feed.
+ *
+ * The module only talks JSON-RPC through an RpcTransport, so the frontend
+ * (over fetch) and the TEE (over the wallet's provider) share the same
+ * estimate and make profitability decisions on the same numbers.
+ */
+
+import { OperationType, SerializedOperation } from './operationSchema';
+
+/**
+ * Sends a JSON-RPC request and resolves to its result
+ */
+export type RpcTransport = (method: string, params: unknown[]) => Promise<unknown>;
+
+/**
+ * Contracts the estimate reads on Base mainnet
+ */
+export const BASE_FEE_CONTRACTS = {
+  /** OP Stack GasPriceOracle predeploy, which prices the L1 data fee */
+  gasPriceOracle: '0x420000000000000000000000000000000000000F',
+
+  /** Chainlink ETH/USD price feed */
+  ethUsdPriceFeed: '0x71041dddad3595F9CEd3DcCFBe3D1F4b0a16Bb70'
+} as const;
+
+/** Age beyond which the ETH/USD answer is refused (the feed's heartbeat is 20 minutes) */
+export const DEFAULT_MAX_PRICE_AGE_SECONDS = 3600;
+
+/** getL1FeeUpperBound(uint256) */
+const GET_L1_FEE_UPPER_BOUND = '0xf1c7a58b';
+
+/** latestRoundData() */
+const LATEST_ROUND_DATA = '0xfeaf968c';
+
+/** decimals() */
+const DECIMALS = '0x313ce567';
+
+/**
+ * Gas used and size of the transaction an operation sends
+ */
+export interface OperationGasProfile {
+  /** Gas units the transaction uses */
+  gasUnits: number;
+
+  /** Size of the unsigned transaction in bytes, which the L1 data fee is charged on */
+  txBytes: number;
+}
+
+/**
+ * Transaction sent by each operation type, or null for types that do not
+ * write to the chain.
+ *
+ * Spot orders go through 1inch Fusion: the order is signed off-chain and
+ * filled by a resolver, so the wallet only pays for the token approval.
+ * Perpetual trades are sent by the wallet to the perpetual DEX. Conditionals
+ * cost what their branches cost (see estimateOperationGas).
+ */
+export const OPERATION_GAS_PROFILES: Record<OperationType, OperationGasProfile | null> = {
+  [OperationType.MOCK_OPERATION]: null,
+  [OperationType.SPOT_BUY]: { gasUnits: 55000, txBytes: 120 },
+  [OperationType.SPOT_SELL]: { gasUnits: 55000, txBytes: 120 },
+  [OperationType.OPEN_LONG]: { gasUnits: 450000, txBytes: 560 },
+  [OperationType.CLOSE_LONG]: { gasUnits: 350000, txBytes: 240 },
+  [OperationType.OPEN_SHORT]: { gasUnits: 450000, txBytes: 560 },
+  [OperationType.CLOSE_SHORT]: { gasUnits: 350000, txBytes: 240 },
+  [OperationType.CHECK_FUNDING_RATE]: null,
+  [OperationType.CHECK_PRICE]: null,
+  [OperationType.CHECK_LIQUIDITY]: null,
+  [OperationType.CONDITIONAL]: null,
+  [OperationType.WAIT]: null
+};
+
+/**
+ * Transaction an operation of the strategy sends
+ */
+export interface OperationGasEstimate extends OperationGasProfile {
+  /** Execution order of the operation */
+  order: number;
+
+  /** Operation type */
+  type: OperationType;
+
+  /** Operation label, if set */
+  label?: string;
+}
+
+/**
+ * Fee of an operation's transaction
+ */
+export interface OperationFeeEstimate extends OperationGasEstimate {
+  /** L2 execution fee in wei */
+  l2FeeWei: string;
+
+  /** L1 data fee in wei */
+  l1FeeWei: string;
+
+  /** Total fee in USD */
+  feeUSD: number;
+}
+
+/**
+ * Network fees of executing a strategy
+ */
+export interface FeeEstimate {
+  /** Base fee of the latest block in wei */
+  baseFeePerGas: string;
+
+  /** Priority fee the node suggests in wei */
+  priorityFeePerGas: string;
+
+  /** ETH price in USD from the price feed */
+  ethPriceUSD: number;
+
+  /** Gas units of all transactions */
+  gasUnits: number;
+
+  /** L2 execution fees in wei */
+  l2FeeWei: string;
+
+  /** L1 data fees in wei */
+  l1FeeWei: string;
+
+  /** Total fees in wei */
+  totalFeeWei: string;
+
+  /** Total fees in USD */
+  totalFeeUSD: number;
+
+  /** Fee of each operation that sends a transaction, in execution order */
+  operations: OperationFeeEstimate[];
+}
+
+/**
+ * Options for estimating fees
+ */
+export interface FeeEstimationOptions {
+  /** GasPriceOracle address (default: BASE_FEE_CONTRACTS.gasPriceOracle) */
+  gasPriceOracle?: string;
+
+  /** ETH/USD price feed address (default: BASE_FEE_CONTRACTS.ethUsdPriceFeed) */
+  ethUsdPriceFeed?: string;
+
+  /** Age beyond which the price is refused (default: DEFAULT_MAX_PRICE_AGE_SECONDS) */
+  maxPriceAgeSeconds?: number;
+
+  /** Current time in milliseconds since the Unix epoch (default: Date.now) */
+  now?: () => number;
+}
+
+/**
+ * Creates a transport sending JSON-RPC requests over HTTP with fetch.
+ *
+ * @param rpcUrl - RPC endpoint URL
+ * @returns RPC transport
+ */
+export function createFetchTransport(rpcUrl: string): RpcTransport {
+  let id = 0;
+
+  return async (method, params) => {
+    const response = await fetch(rpcUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: ++id, method, params })
+    });
+    if (!response.ok) {
+      throw new Error(`RPC request ${method} failed with HTTP ${response.status}`);
+    }
+
+    const body = await response.json() as { result?: unknown; error?: { message?: string } };
+    if (body.error) {
+      throw new Error(`RPC request ${method} failed: ${body.error.message ?? 'unknown error'}`);
+    }
+    return body.result;
+  };
+}
+
+/**
+ * Lists the transactions a strategy sends, in execution order.
+ *
+ * Which branch of a conditional runs is only known during execution, so the
+ * branch using more gas is counted: the estimate is an upper bound.
+ *
+ * @param operations - Serialized operations
+ * @returns Transactions, one per operation that writes to the chain
+ */
+export function estimateOperationGas(operations: SerializedOperation[]): OperationGasEstimate[] {
+  return [...operations]
+    .sort((a, b) => a.order - b.order)
+    .flatMap(op => {
+      if (op.type === OperationType.CONDITIONAL) {
+        const { thenOperations, elseOperations = [] } = op.params as {
+          thenOperations: SerializedOperation[];
+          elseOperations?: SerializedOperation[];
+        };
+        const branches = [estimateOperationGas(thenOperations), estimateOperationGas(elseOperations)];
+        return totalGas(branches[0]) >= totalGas(branches[1]) ? branches[0] : branches[1];
+      }
+
+      const profile = OPERATION_GAS_PROFILES[op.type];
+      if (!profile) {
+        return [];
+      }
+
+      return [{ order: op.order, type: op.type, ...(op.label !== undefined && { label: op.label }), ...profile }];
+    });
+}
+
+/**
+ * Estimates the network fees of executing a strategy, at the fees and ETH
+ * price the chain reports now.
+ *
+ * @param transport - RPC transport to a Base node
+ * @param operations - Serialized operations of the strategy
+ * @param options - Contract addresses and price freshness
+ * @returns Promise resolving to the fee estimate
+ * @throws Error if the node does not report a base fee or the price feed answer is invalid or stale
+ */
+export async function estimateFees(
+  transport: RpcTransport,
+  operations: SerializedOperation[],
+  options: FeeEstimationOptions = {}
+): Promise<FeeEstimate> {
+  const transactions = estimateOperationGas(operations);
+  const oracle = options.gasPriceOracle ?? BASE_FEE_CONTRACTS.gasPriceOracle;
+
+  const [block, priorityFee, price] = await Promise.all([
+    transport('eth_getBlockByNumber', ['latest', false]) as Promise<{ baseFeePerGas?: string } | null>,
+    transport('eth_maxPriorityFeePerGas', []),
+    readEthPrice(transport, options)
+  ]);
+
+  if (!block?.baseFeePerGas) {
+    throw new Error('Latest block does not report a base fee');
+  }
+  const baseFeePerGas = BigInt(block.baseFeePerGas);
+  const priorityFeePerGas = BigInt(priorityFee as string);
+  const gasPrice = baseFeePerGas + priorityFeePerGas;
+
+  // One oracle call per transaction size
+  const l1Fees = new Map<number, Promise<bigint>>();
+  const l1Fee = (txBytes: number) => {
+    if (!l1Fees.has(txBytes)) {
+      l1Fees.set(txBytes, ethCall(transport, oracle, GET_L1_FEE_UPPER_BOUND + encodeUint(txBytes)).then(BigInt));
+    }
+    return l1Fees.get(txBytes) as Promise<bigint>;
+  };
+
+  const priced = await Promise.all(transactions.map(async transaction => {
+    const l2FeeWei = BigInt(transaction.gasUnits) * gasPrice;
+    const l1FeeWei = await l1Fee(transaction.txBytes);
+    return { transaction, l2FeeWei, l1FeeWei };
+  }));
+
+  const l2FeeWei = priced.reduce((sum, fee) => sum + fee.l2FeeWei, BigInt(0));
+  const l1FeeWei = priced.reduce((sum, fee) => sum + fee.l1FeeWei, BigInt(0));
+  const totalFeeWei = l2FeeWei + l1FeeWei;
+
+  return {
+    baseFeePerGas: baseFeePerGas.toString(),
+    priorityFeePerGas: priorityFeePerGas.toString(),
+    ethPriceUSD: price,
+    gasUnits: totalGas(transactions),
+    l2FeeWei: l2FeeWei.toString(),
+    l1FeeWei: l1FeeWei.toString(),
+    totalFeeWei: totalFeeWei.toString(),
+    totalFeeUSD: toUSD(totalFeeWei, price),
+    operations: priced.map(fee => ({
+      ...fee.transaction,
+      l2FeeWei: fee.l2FeeWei.toString(),
+      l1FeeWei: fee.l1FeeWei.toString(),
+      feeUSD: toUSD(fee.l2FeeWei + fee.l1FeeWei, price)
+    }))
+  };
+}
+
+/**
+ * Reads the ETH price in USD from the price feed.
+ *
+ * @param transport - RPC transport
+ * @param options - Feed address and maximum answer age
+ * @returns ETH price in USD
+ * @throws Error if the answer is not positive or older than the maximum age
+ */
+async function readEthPrice(transport: RpcTransport, options: FeeEstimationOptions): Promise<number> {
+  const feed = options.ethUsdPriceFeed ?? BASE_FEE_CONTRACTS.ethUsdPriceFeed;
+  const [round, decimals] = await Promise.all([
+    ethCall(transport, feed, LATEST_ROUND_DATA),
+    ethCall(transport, feed, DECIMALS)
+  ]);
+
+  // (roundId, answer, startedAt, updatedAt, answeredInRound)
+  const words = round.slice(2).match(/.{64}/g) ?? [];
+  if (words.length < 4 || parseInt(words[1][0], 16) >= 8 || BigInt(`0x${words[1]}`) === BigInt(0)) {
+    throw new Error('ETH/USD price feed returned an invalid answer');
+  }
+
+  const ageSeconds = ((options.now ?? Date.now)() / 1000) - Number(BigInt(`0x${words[3]}`));
+  if (ageSeconds > (options.maxPriceAgeSeconds ?? DEFAULT_MAX_PRICE_AGE_SECONDS)) {
+    throw new Error(`ETH/USD price feed answer is stale (${Math.round(ageSeconds)}s old)`);
+  }
+
+  return Number(BigInt(`0x${words[1]}`)) / 10 ** Number(BigInt(decimals));
+}
+
+/**
+ * Calls a view function at the latest block.
+ *
+ * @param transport - RPC transport
+ * @param to - Contract address
+ * @param data - Encoded call
+ * @returns Encoded result
+ */
+async function ethCall(transport: RpcTransport, to: string, data: string): Promise<string> {
+  return await transport('eth_call', [{ to, data }, 'latest']) as string;
+}
+
+/**
+ * Encodes a uint256 call argument
+ */
+function encodeUint(value: number): string {
+  return value.toString(16).padStart(64, '0');
+}
+
+/**
+ * Sums the gas units of transactions
+ */
+function totalGas(transactions: OperationGasEstimate[]): number {
+  return transactions.reduce((sum, transaction) => sum + transaction.gasUnits, 0);
+}
+
+/**
+ * Converts an amount of wei to USD
+ */
+function toUSD(wei: bigint, ethPriceUSD: number): number {
+  return (Number(wei) / 1e18) * ethPriceUSD;
+}
@@ -0,0 +1,84 @@
+/**
+ * Shared Schema Module
+ * 
+ * This module exports the serialized operation format shared by the frontend
+ * and the TEE, along with its runtime validators, the migrations that
+ * upgrade payloads written in older format versions, the manifest a TEE
+ * build reports its supported operations with, and the network fee estimate
+ * profitability is checked against.
+ */
+
+export {
+  OperationType,
+  MAX_RETRY_ATTEMPTS,
+  CURRENT_FORMAT_VERSION,
+  OPERATION_SCHEMAS,
+  STATE_KEYS,
+  isStateKey,
+  getStateKeyWriters,
+  validateOperation,
+  validateOperations,
+  validateStrategy,
+  validateReferences,
+  getReferencedLabels,
+  validateStateKeys,
+  getReadStateKeys,
+  getWrittenStateKeys,
+  isResultReference,
+  resultRef,
+  isOperationType
+} from './operationSchema';
+export type {
+  ResultReference,
+  Decimal,
+  BaseOperationParams,
+  MockOperationParams,
+  SpotBuyParams,
+  SpotSellParams,
+  OpenLongParams,
+  OpenShortParams,
+  CloseLongParams,
+  CloseShortParams,
+  CheckFundingRateParams,
+  CheckPriceParams,
+  CheckLiquidityParams,
+  ConditionalParams,
+  WaitParams,
+  WaitRefreshSource,
+  OperationParamsMap,
+  OperationParams,
+  SerializedOperation,
+  SerializedStrategy,
+  RetryPolicy,
+  SchemaValidationResult,
+  FieldSpec,
+  OperationSpec,
+  StateKey
+} from './operationSchema';
+export {
+  UNSUPPORTED_FORMAT_VERSION,
+  StrategyFormatError,
+  getFormatVersion,
+  migrateStrategy
+} from './migrations';
+export { checkManifestSupport } from './manifest';
+export type {
+  OperationManifest,
+  OperationManifestEntry
+} from './manifest';
+export {
+  BASE_FEE_CONTRACTS,
+  DEFAULT_MAX_PRICE_AGE_SECONDS,
+  OPERATION_GAS_PROFILES,
+  createFetchTransport,
+  estimateOperationGas,
+  estimateFees
+} from './feeEstimation';
+export type {
+  RpcTransport,
+  OperationGasProfile,
+  OperationGasEstimate,
+  OperationFeeEstimate,
+  FeeEstimate,
+  FeeEstimationOptions
+} from './feeEstimation';
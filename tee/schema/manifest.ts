@@ -0,0 +1,121 @@
+/**
+ * Operation manifest
+ *
+ * A deployed TEE app only executes the operation types and parameters it was
+ * built with. The manifest lists them, as reported by the TEE (see
+ * OperationRegistry.describe() and the `describe` input of tee/index.ts), so
+ * the frontend can check that a strategy is executable by the deployed app
+ * version before encrypting and selling it.
+ */
+
+import {
+  FieldSpec,
+  OperationType,
+  SchemaValidationResult,
+  SerializedOperation,
+  SerializedStrategy
+} from './operationSchema';
+
+/**
+ * Operation types and parameters supported by a TEE app version
+ */
+export interface OperationManifest {
+  /** Newest strategy format version the TEE reads */
+  formatVersion: number;
+
+  /** Supported operation types with their parameter schemas */
+  operations: OperationManifestEntry[];
+}
+
+/**
+ * One supported operation type
+ */
+export interface OperationManifestEntry {
+  /** Operation type */
+  type: OperationType;
+
+  /** Parameter descriptions, keyed by parameter name */
+  params: Record<string, FieldSpec>;
+}
+
+/**
+ * Checks that a strategy only uses what a TEE app version supports: its
+ * format version, operation types, parameters and allowed parameter values,
+ * conditional branches included.
+ *
+ * The strategy is expected to be valid against the local schema already
+ * (see validateStrategy); this only reports what the TEE would not accept.
+ *
+ * @param strategy - Serialized strategy to check
+ * @param manifest - Manifest reported by the deployed TEE app
+ * @returns Validation result listing every unsupported element
+ */
+export function checkManifestSupport(
+  strategy: Pick<SerializedStrategy, 'formatVersion' | 'operations'>,
+  manifest: OperationManifest
+): SchemaValidationResult {
+  const errors: string[] = [];
+
+  if (strategy.formatVersion !== undefined && strategy.formatVersion > manifest.formatVersion) {
+    errors.push(`Format version ${strategy.formatVersion} is newer than the TEE supports (${manifest.formatVersion})`);
+  }
+
+  const supported = new Map(manifest.operations.map(entry => [entry.type, entry.params]));
+  errors.push(...collectSupportErrors(strategy.operations, supported, index => `Operation at index ${index}: `));
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Collects the unsupported types, parameters and values of a list of
+ * operations, recursing into conditional branches.
+ *
+ * @param operations - Serialized operations
+ * @param supported - Parameter schemas of the supported types
+ * @param prefix - Builds the message prefix locating an operation of this list
+ * @returns Error messages
+ */
+function collectSupportErrors(
+  operations: SerializedOperation[],
+  supported: ReadonlyMap<OperationType, Record<string, FieldSpec>>,
+  prefix: (index: number) => string
+): string[] {
+  const errors: string[] = [];
+
+  operations.forEach((op, index) => {
+    const fields = supported.get(op.type);
+    if (!fields) {
+      errors.push(`${prefix(index)}type "${op.type}" is not supported by the TEE`);
+      return;
+    }
+
+    Object.entries(op.params).forEach(([key, value]) => {
+      if (value === undefined) {
+        return;
+      }
+
+      const field = fields[key];
+      if (!field) {
+        errors.push(`${prefix(index)}parameter "${key}" is not supported by the TEE`);
+        return;
+      }
+
+      if (field.values && typeof value === 'string' && !field.values.includes(value)) {
+        errors.push(`${prefix(index)}value "${value}" of "${key}" is not supported by the TEE`);
+      }
+
+      if (field.kind === 'operations' && Array.isArray(value)) {
+        errors.push(...collectSupportErrors(
+          value as SerializedOperation[],
+          supported,
+          nested => `${prefix(index)}"${key}" entry at index ${nested}: `
+        ));
+      }
+    });
+  });
+
+  return errors;
+}
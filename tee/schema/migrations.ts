@@ -0,0 +1,239 @@
+/**
+ * Serialized strategy migrations
+ *
+ * Purchased strategies stay encrypted in DataProtector for months, so the TEE
+ * must keep executing payloads written by older releases. Every payload
+ * carries a `formatVersion` (payloads written before versioning are format 1);
+ * migrateStrategy() runs the chain of migrations below to bring it to
+ * CURRENT_FORMAT_VERSION before any operation is validated or instantiated.
+ *
+ * Format history:
+ * - 1: Unversioned. The TEE accepted its own vocabulary (open_perpetual_short,
+ *      close_position with a side, pair, capitalPercentage, minProfitableRate,
+ *      asset, optional strategy metadata) next to the frontend vocabulary.
+ * - 2: Shared operation schema (tee/schema/operationSchema.ts).
+ */
+
+import { CURRENT_FORMAT_VERSION } from './operationSchema';
+
+/**
+ * Error code reported when a payload's format version cannot be migrated
+ */
+export const UNSUPPORTED_FORMAT_VERSION = 'UNSUPPORTED_FORMAT_VERSION';
+
+/**
+ * Raised when a serialized strategy cannot be brought to the current format.
+ * Carries an error code so the TEE can report it without exposing the payload.
+ */
+export class StrategyFormatError extends Error {
+  readonly code = UNSUPPORTED_FORMAT_VERSION;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'StrategyFormatError';
+  }
+}
+
+/**
+ * Upgrades a strategy from the version it is keyed by to the next version
+ */
+type Migration = (strategy: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * Migration chain, keyed by the version each step upgrades from
+ */
+const MIGRATIONS: Record<number, Migration> = {
+  1: migrateV1ToV2
+};
+
+/**
+ * Operation types renamed in format 2
+ */
+const V1_TYPE_RENAMES: Record<string, string> = {
+  open_perpetual_short: 'open_short',
+  open_perpetual_long: 'open_long',
+  close_perpetual_long: 'close_long'
+};
+
+/**
+ * Quote currency appended to the bare assets used by format 1 spot operations
+ */
+const V1_SPOT_QUOTE = 'USDC';
+
+/**
+ * Reads the format version of a serialized strategy.
+ *
+ * @param strategy - Parsed serialized strategy
+ * @returns The declared format version, or 1 when none is declared
+ * @throws StrategyFormatError if the version is not supported by this TEE
+ */
+export function getFormatVersion(strategy: Record<string, unknown>): number {
+  const version = strategy.formatVersion;
+
+  if (version === undefined) {
+    return 1;
+  }
+
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1 || version > CURRENT_FORMAT_VERSION) {
+    throw new StrategyFormatError(
+      `Unsupported strategy format version: ${JSON.stringify(version)} (supported: 1 to ${CURRENT_FORMAT_VERSION})`
+    );
+  }
+
+  return version;
+}
+
+/**
+ * Brings a parsed serialized strategy to CURRENT_FORMAT_VERSION.
+ *
+ * Values that are not objects are returned unchanged so that the caller's
+ * structure validation reports them. The input is never mutated.
+ *
+ * @param strategy - Parsed serialized strategy
+ * @returns The strategy in the current format, with formatVersion set
+ * @throws StrategyFormatError if the version is not supported by this TEE
+ */
+export function migrateStrategy(strategy: unknown): unknown {
+  if (!isObject(strategy)) {
+    return strategy;
+  }
+
+  let version = getFormatVersion(strategy);
+  let migrated = strategy;
+
+  while (version < CURRENT_FORMAT_VERSION) {
+    migrated = MIGRATIONS[version](migrated);
+    version++;
+  }
+
+  return { ...migrated, formatVersion: CURRENT_FORMAT_VERSION };
+}
+
+/**
+ * Format 1 → 2: translates the TEE's legacy vocabulary into the shared schema
+ * and lifts the legacy `metadata` block into the top-level fields.
+ *
+ * @param strategy - Strategy in format 1
+ * @returns Strategy in format 2
+ */
+function migrateV1ToV2(strategy: Record<string, unknown>): Record<string, unknown> {
+  const { metadata, ...rest } = strategy;
+  const migrated: Record<string, unknown> = { ...rest };
+
+  if (isObject(metadata)) {
+    migrated.strategyId = migrated.strategyId ?? metadata.strategyId;
+    migrated.version = migrated.version ?? metadata.version;
+  }
+
+  if (Array.isArray(strategy.operations)) {
+    migrated.operations = strategy.operations.map(migrateOperationV1ToV2);
+  }
+
+  return migrated;
+}
+
+/**
+ * Format 1 → 2 for a single operation, including nested conditional branches.
+ * Operations already written in the frontend vocabulary pass through unchanged;
+ * anything that cannot be translated is left for schema validation to report.
+ *
+ * @param op - Operation in format 1
+ * @returns Operation in format 2
+ */
+function migrateOperationV1ToV2(op: unknown): unknown {
+  if (!isObject(op) || !isObject(op.params) || typeof op.type !== 'string') {
+    return op;
+  }
+
+  const params: Record<string, unknown> = { ...op.params };
+  let type = op.type;
+
+  renameParam(params, 'pair', 'ticker');
+
+  // close_position carried the side as a param; format 2 encodes it in the type
+  if (type === 'close_position') {
+    type = params.side === 'long' ? 'close_long' : 'close_short';
+    delete params.side;
+  }
+
+  type = V1_TYPE_RENAMES[type] ?? type;
+
+  switch (type) {
+    case 'check_funding_rate':
+      renameParam(params, 'minProfitableRate', 'minRate');
+      break;
+
+    case 'open_short':
+    case 'open_long':
+      if (renameParam(params, 'capitalPercentage', 'size')) {
+        params.isPercentage = true;
+      }
+      params.leverage = params.leverage ?? 1;
+      break;
+
+    case 'spot_buy':
+      assetToTicker(params);
+      if (renameParam(params, 'capitalPercentage', 'amount')) {
+        params.isPercentage = true;
+      }
+      break;
+
+    case 'spot_sell':
+      assetToTicker(params);
+      break;
+
+    case 'conditional':
+      for (const branch of ['thenOperations', 'elseOperations']) {
+        if (Array.isArray(params[branch])) {
+          params[branch] = (params[branch] as unknown[]).map(migrateOperationV1ToV2);
+        }
+      }
+      break;
+  }
+
+  return { ...op, type, params };
+}
+
+/**
+ * Moves a param to its format 2 name. When both names are set, the format 2
+ * value wins and the format 1 name is dropped, since format 2 rejects it.
+ *
+ * @param params - Params being migrated (mutated)
+ * @param from - Format 1 name
+ * @param to - Format 2 name
+ * @returns Whether the format 1 value was moved to the new name
+ */
+function renameParam(params: Record<string, unknown>, from: string, to: string): boolean {
+  if (params[from] === undefined) {
+    return false;
+  }
+
+  const renamed = params[to] === undefined;
+  if (renamed) {
+    params[to] = params[from];
+  }
+  delete params[from];
+  return renamed;
+}
+
+/**
+ * Replaces a format 1 bare `asset` (e.g., 'BTC') with a ticker (e.g., 'BTC/USDC').
+ *
+ * @param params - Params being migrated (mutated)
+ */
+function assetToTicker(params: Record<string, unknown>): void {
+  if (typeof params.asset === 'string' && params.ticker === undefined) {
+    params.ticker = `${params.asset}/${V1_SPOT_QUOTE}`;
+    delete params.asset;
+  }
+}
+
+/**
+ * Type guard for plain objects.
+ *
+ * @param value - Candidate value
+ * @returns Whether the value is a non-null, non-array object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,1338 @@
+/**
+ * Shared operation schema
+ *
+ * Single definition of the serialized operation format exchanged between the
+ * frontend (StrategyBuilder and the strategy classes) and the TEE
+ * (OperationFactory). The TypeScript types catch mismatches at build time;
+ * validateOperation() and validateStrategy() catch them at runtime, before
+ * any operation is instantiated inside the enclave.
+ *
+ * This module has no dependencies so that both the Next.js app and the
+ * standalone TEE package can import it.
+ */
+
+/**
+ * Operation types understood by both the frontend and the TEE
+ */
+export enum OperationType {
+  /** Mock operation for testing TEE integration without real blockchain interactions */
+  MOCK_OPERATION = 'mock_operation',
+
+  /** Executes a spot buy order using 1inch Fusion */
+  SPOT_BUY = 'spot_buy',
+
+  /** Executes a spot sell order using 1inch Fusion */
+  SPOT_SELL = 'spot_sell',
+
+  /** Opens a long position on a perpetual DEX */
+  OPEN_LONG = 'open_long',
+
+  /** Closes (fully or partially) a long position on a perpetual DEX */
+  CLOSE_LONG = 'close_long',
+
+  /** Opens a short position on a perpetual DEX */
+  OPEN_SHORT = 'open_short',
+
+  /** Closes (fully or partially) a short position on a perpetual DEX */
+  CLOSE_SHORT = 'close_short',
+
+  /** Checks current funding rate and determines if execution should proceed */
+  CHECK_FUNDING_RATE = 'check_funding_rate',
+
+  /** Compares the current oracle price against a target and determines if execution should proceed */
+  CHECK_PRICE = 'check_price',
+
+  /** Checks perpetual and spot liquidity for the allocated size and blocks execution on thin markets */
+  CHECK_LIQUIDITY = 'check_liquidity',
+
+  /** Evaluates a condition and executes one of two nested operation branches */
+  CONDITIONAL = 'conditional',
+
+  /** Waits for a fixed duration or until a condition holds (bounded by a timeout) */
+  WAIT = 'wait'
+}
+
+/**
+ * Reference to a field of an earlier operation's result, resolved by the TEE
+ * just before the referencing operation executes.
+ *
+ * The path starts with the label of the referenced operation, followed by the
+ * field of its OperationResult.data, e.g. `{ $ref: 'shortPosition.entryPrice' }`.
+ * The labelled operation must run before the referencing one.
+ */
+export interface ResultReference {
+  /** `<label>.<field>[.<field>...]` */
+  $ref: string;
+}
+
+/**
+ * Decimal value (amount or price) given either as a string ('0.5'), a number (0.5)
+ * or a reference to an earlier operation's result
+ */
+export type Decimal = string | number | ResultReference;
+
+/**
+ * Base parameters for all trading operations
+ */
+export interface BaseOperationParams {
+  /**
+   * Trading pair ticker (e.g., 'ETH/USDC', 'BTC/USDC')
+   * Use USDC as quote currency for Base network compatibility
+   */
+  ticker: string;
+
+  /**
+   * Protocol to execute on
+   * - '1inch-fusion' for spot trading (SPOT_BUY, SPOT_SELL)
+   * - 'avantis' for perpetuals (OPEN_LONG, OPEN_SHORT, CLOSE_LONG, CLOSE_SHORT, CHECK_FUNDING_RATE)
+   */
+  exchange?: string;
+
+  /** Human-readable description of the step (ignored by the TEE) */
+  description?: string;
+}
+
+/**
+ * Parameters for mock operations
+ */
+export interface MockOperationParams {
+  /** Message logged by the TEE */
+  message: string;
+
+  /** Simulated processing time in milliseconds (default: 1000) */
+  delay?: number;
+}
+
+/**
+ * Parameters for spot buy operations
+ */
+export interface SpotBuyParams extends BaseOperationParams {
+  /** Percentage of allocated capital to spend (0-100] */
+  amount: Decimal;
+
+  /** Amounts are always a percentage of allocated capital; only `true` is accepted */
+  isPercentage?: true;
+
+  /** Maximum price willing to pay (places a limit order) */
+  maxPrice?: Decimal;
+
+  /** Order type (default: 'limit' when maxPrice or priceReference is set, 'market' otherwise) */
+  orderType?: 'market' | 'limit';
+
+  /** Use the confirmed short entry price as the limit price */
+  priceReference?: 'short_entry_price';
+}
+
+/**
+ * Parameters for spot sell operations
+ */
+export interface SpotSellParams extends BaseOperationParams {
+  /** Amount to sell (in base currency or percentage of holdings) */
+  amount: Decimal;
+
+  /** Whether amount is a percentage of current holdings */
+  isPercentage?: boolean;
+
+  /** Minimum price willing to accept (optional, for limit orders) */
+  minPrice?: Decimal;
+
+  /** Order type (default: execution mode) */
+  orderType?: 'market' | 'limit';
+}
+
+/**
+ * Parameters for opening long positions
+ */
+export interface OpenLongParams extends BaseOperationParams {
+  /** Percentage of allocated capital used as collateral (0-100] */
+  size: Decimal;
+
+  /** Sizes are always a percentage of allocated capital; only `true` is accepted */
+  isPercentage?: true;
+
+  /** Leverage multiplier (1-10) */
+  leverage: number;
+
+  /** Stop loss price (optional) */
+  stopLoss?: Decimal;
+
+  /** Take profit price (optional) */
+  takeProfit?: Decimal;
+}
+
+/**
+ * Parameters for opening short positions
+ */
+export interface OpenShortParams extends BaseOperationParams {
+  /** Percentage of allocated capital used as collateral (0-100] */
+  size: Decimal;
+
+  /** Sizes are always a percentage of allocated capital; only `true` is accepted */
+  isPercentage?: true;
+
+  /** Leverage multiplier (1-10) */
+  leverage: number;
+
+  /** Stop loss price (optional) */
+  stopLoss?: Decimal;
+
+  /** Take profit price (optional) */
+  takeProfit?: Decimal;
+}
+
+/**
+ * Parameters for closing long positions
+ */
+export interface CloseLongParams extends BaseOperationParams {
+  /** Amount to close (collateral in quote currency or percentage of position) */
+  amount?: Decimal;
+
+  /** Whether amount is a percentage of the position */
+  isPercentage?: boolean;
+
+  /** Whether to close entire position when no amount is given (default: true) */
+  closeAll?: boolean;
+
+  /** Minimum price to accept for closing */
+  minPrice?: Decimal;
+}
+
+/**
+ * Parameters for closing short positions
+ */
+export interface CloseShortParams extends BaseOperationParams {
+  /** Amount to close (collateral in quote currency or percentage of position) */
+  amount?: Decimal;
+
+  /** Whether amount is a percentage of the position */
+  isPercentage?: boolean;
+
+  /** Whether to close entire position when no amount is given (default: true) */
+  closeAll?: boolean;
+
+  /** Maximum price to accept for closing */
+  maxPrice?: Decimal;
+}
+
+/**
+ * Parameters for checking funding rates
+ * Rates are decimals per funding period (0.0001 = 0.01%)
+ */
+export interface CheckFundingRateParams extends BaseOperationParams {
+  /** Minimum acceptable funding rate threshold (default: 0) */
+  minRate?: number;
+
+  /** Maximum acceptable funding rate threshold */
+  maxRate?: number;
+
+  /** Fixed gas cost of the strategy in USD (default: estimated at execution from current network fees) */
+  estimatedGasCostUSD?: Decimal;
+}
+
+/**
+ * Parameters for checking prices
+ */
+export interface CheckPriceParams extends BaseOperationParams {
+  /** Comparison operator */
+  operator: 'gt' | 'lt' | 'gte' | 'lte' | 'eq';
+
+  /** Target price to compare against */
+  targetPrice: Decimal;
+}
+
+/**
+ * Parameters for checking market liquidity
+ */
+export interface CheckLiquidityParams extends BaseOperationParams {
+  /** Percentage of allocated capital per leg (default: 100) */
+  capitalPercentage?: number;
+
+  /** Leverage of the perpetual leg (default: 1) */
+  leverage?: number;
+
+  /** Side of the perpetual leg; the spot leg trades the opposite way (default: 'short') */
+  side?: 'long' | 'short';
+
+  /** Whether to check the spot route as well (default: true) */
+  checkSpot?: boolean;
+
+  /** Maximum acceptable price impact in percent (default: slippage tolerance) */
+  maxPriceImpact?: number;
+}
+
+/**
+ * Parameters for conditional operations
+ */
+export interface ConditionalParams {
+  /** Condition to evaluate (references previous operation results) */
+  condition: string;
+
+  /** Operations to execute if condition is true */
+  thenOperations: SerializedOperation[];
+
+  /** Operations to execute if condition is false (optional) */
+  elseOperations?: SerializedOperation[];
+}
+
+/**
+ * Parameters for wait operations
+ */
+export interface WaitParams {
+  /** Duration to wait in milliseconds (maximum wait when a condition is set) */
+  duration: number;
+
+  /** Optional condition to wait for */
+  condition?: string;
+
+  /** Delay between condition checks in milliseconds (default: 5000) */
+  pollInterval?: number;
+
+  /** Live data sources refreshed into state before each condition check */
+  refresh?: WaitRefreshSource[];
+}
+
+/**
+ * Live data source refreshed by wait operations before each condition check
+ * - funding_rate: current funding rate for a pair (stored as 'fundingRate' by default)
+ * - position_status: confirmation status of a position opening transaction
+ *   (stored as 'positionStatus' by default)
+ */
+export type WaitRefreshSource =
+  | { source: 'funding_rate'; pair: string; stateKey?: string }
+  | { source: 'position_status'; transactionHash?: string; stateKey?: string };
+
+/**
+ * Parameters of each operation type
+ */
+export interface OperationParamsMap {
+  [OperationType.MOCK_OPERATION]: MockOperationParams;
+  [OperationType.SPOT_BUY]: SpotBuyParams;
+  [OperationType.SPOT_SELL]: SpotSellParams;
+  [OperationType.OPEN_LONG]: OpenLongParams;
+  [OperationType.CLOSE_LONG]: CloseLongParams;
+  [OperationType.OPEN_SHORT]: OpenShortParams;
+  [OperationType.CLOSE_SHORT]: CloseShortParams;
+  [OperationType.CHECK_FUNDING_RATE]: CheckFundingRateParams;
+  [OperationType.CHECK_PRICE]: CheckPriceParams;
+  [OperationType.CHECK_LIQUIDITY]: CheckLiquidityParams;
+  [OperationType.CONDITIONAL]: ConditionalParams;
+  [OperationType.WAIT]: WaitParams;
+}
+
+/**
+ * Union type for all operation parameters
+ */
+export type OperationParams = OperationParamsMap[OperationType];
+
+/**
+ * Serialized operation, discriminated on its type so that the params of
+ * each operation are checked against that type's interface.
+ */
+export type SerializedOperation<T extends OperationType = OperationType> = {
+  [K in T]: {
+    /** Type of operation to execute */
+    type: K;
+
+    /**
+     * Execution order. Operations run after every operation of lower order
+     * (unless they declare `dependsOn`); operations sharing an order run concurrently.
+     */
+    order: number;
+
+    /** Operation-specific parameters */
+    params: OperationParamsMap[K];
+
+    /** Optional label for referencing this operation's result */
+    label?: string;
+
+    /** Whether this operation can fail without stopping execution */
+    optional?: boolean;
+
+    /** How to retry this operation when it fails with a recoverable error */
+    retry?: RetryPolicy;
+
+    /** Time limit for each attempt of this operation, in milliseconds */
+    timeoutMs?: number;
+
+    /**
+     * Labels of the operations this one waits for, instead of every operation
+     * of lower order. Operations it references are waited for as well.
+     */
+    dependsOn?: string[];
+  };
+}[T];
+
+/**
+ * Upper bound on RetryPolicy.maxAttempts, so that a strategy cannot keep an
+ * iExec task busy indefinitely
+ */
+export const MAX_RETRY_ATTEMPTS = 10;
+
+/**
+ * Retry policy of a single operation.
+ *
+ * A failed attempt is retried when its error is recoverable and, if
+ * `retryableCodes` is given, its code is listed. Operations that trade are
+ * only retried for the listed codes, and never after an attempt that timed
+ * out or sent a transaction, since a retry could repeat the trade; read-only
+ * operations (checks and waits) retry any recoverable error by default.
+ * The delay before retry n (1-based) is
+ * `initialDelayMs * backoffMultiplier^(n-1)`, capped at `maxDelayMs`, then
+ * reduced by a random fraction of up to `jitter`.
+ */
+export interface RetryPolicy {
+  /** Total number of attempts, including the first one (1-10) */
+  maxAttempts: number;
+
+  /** Delay before the first retry in milliseconds (default: 1000) */
+  initialDelayMs?: number;
+
+  /** Factor applied to the delay after each retry, at least 1 (default: 2) */
+  backoffMultiplier?: number;
+
+  /** Upper bound on a single delay in milliseconds (default: 30000) */
+  maxDelayMs?: number;
+
+  /** Largest fraction of a delay removed at random, 0-1 (default: 0.2) */
+  jitter?: number;
+
+  /** Error codes that may be retried (default: any recoverable error of a read-only operation) */
+  retryableCodes?: string[];
+}
+
+/**
+ * Version of the serialized format described by this module.
+ * Bump it whenever a change to operation types or params would make older
+ * payloads invalid, and add the matching step to tee/schema/migrations.ts so
+ * strategies already protected in DataProtector keep deserializing.
+ */
+export const CURRENT_FORMAT_VERSION = 2;
+
+/**
+ * Serialized strategy, as produced by the strategy classes and passed to the TEE
+ */
+export interface SerializedStrategy {
+  /** Serialization format version (payloads without one are format 1) */
+  formatVersion?: number;
+
+  /** Strategy identifier */
+  strategyId?: string;
+
+  /** Display name of the strategy */
+  strategyName?: string;
+
+  /** Version of the strategy definition */
+  version?: string;
+
+  /** Whether this is a demo strategy */
+  isDemo?: boolean;
+
+  /** Operations to execute */
+  operations: SerializedOperation[];
+}
+
+/**
+ * Result of validating serialized data against the schema
+ */
+export interface SchemaValidationResult {
+  /** Whether the data matches the schema */
+  isValid: boolean;
+
+  /** Array of error messages if validation failed */
+  errors: string[];
+}
+
+/**
+ * Runtime description of a single parameter
+ * - string: non-empty string
+ * - number: finite number
+ * - decimal: finite number, numeric string or ResultReference
+ * - operations: array of nested serialized operations
+ */
+export interface FieldSpec {
+  /** Expected value kind */
+  kind: 'string' | 'number' | 'decimal' | 'boolean' | 'array' | 'operations';
+
+  /** Whether the parameter must be present */
+  required: boolean;
+
+  /** Allowed values (string parameters only) */
+  values?: readonly string[];
+
+  /** Lower bound; exclusive when exclusiveMin is set */
+  min?: number;
+
+  /** Inclusive upper bound */
+  max?: number;
+
+  /** Whether min itself is rejected */
+  exclusiveMin?: boolean;
+}
+
+/**
+ * Runtime description of one operation type.
+ * Every key of P must be described, and `required` must match its optionality.
+ */
+export interface OperationSpec<P> {
+  /** Parameter descriptions */
+  params: { [K in keyof P]-?: FieldSpec & { required: {} extends Pick<P, K> ? false : true } };
+
+  /** Cross-parameter checks, run once every parameter has the right type */
+  rules?(params: P): string[];
+}
+
+/**
+ * Type-erased view of an OperationSpec, as seen by the validator
+ */
+interface AnyOperationSpec {
+  params: Record<string, FieldSpec>;
+  rules?(params: Record<string, unknown>): string[];
+}
+
+/** Fields accepted in a RetryPolicy */
+const RETRY_POLICY_KEYS: readonly string[] = [
+  'maxAttempts',
+  'initialDelayMs',
+  'backoffMultiplier',
+  'maxDelayMs',
+  'jitter',
+  'retryableCodes'
+];
+
+/** `<label>.<field>[.<field>...]`, with identifier-like segments */
+const REFERENCE_PATH = /^[A-Za-z_][\w-]*(\.[A-Za-z_]\w*)+$/;
+
+const BASE_PARAMS = {
+  ticker: { kind: 'string', required: true },
+  exchange: { kind: 'string', required: false },
+  description: { kind: 'string', required: false }
+} as const;
+
+const PERCENTAGE = { kind: 'decimal', min: 0, exclusiveMin: true, max: 100 } as const;
+const POSITIVE_PRICE = { kind: 'decimal', required: false, min: 0, exclusiveMin: true } as const;
+const LEVERAGE = { kind: 'number', min: 1, max: 10 } as const;
+
+/** Rejects absolute sizes, which the TEE does not support */
+function requirePercentage(params: { isPercentage?: boolean }, key: string): string[] {
+  return params.isPercentage === false
+    ? [`"isPercentage" must be true; "${key}" is a percentage of allocated capital`]
+    : [];
+}
+
+/** Caps amounts that are percentages at 100 */
+function checkPercentageAmount(params: { amount?: Decimal; isPercentage?: boolean }): string[] {
+  return params.isPercentage && Number(params.amount) > 100
+    ? ['"amount" must be between 0 and 100 when "isPercentage" is set']
+    : [];
+}
+
+/**
+ * Schema of every operation type
+ */
+export const OPERATION_SCHEMAS: { [T in OperationType]: OperationSpec<OperationParamsMap[T]> } = {
+  [OperationType.MOCK_OPERATION]: {
+    params: {
+      message: { kind: 'string', required: true },
+      delay: { kind: 'number', required: false, min: 0 }
+    }
+  },
+
+  [OperationType.SPOT_BUY]: {
+    params: {
+      ...BASE_PARAMS,
+      amount: { ...PERCENTAGE, required: true },
+      isPercentage: { kind: 'boolean', required: false },
+      maxPrice: POSITIVE_PRICE,
+      orderType: { kind: 'string', required: false, values: ['market', 'limit'] },
+      priceReference: { kind: 'string', required: false, values: ['short_entry_price'] }
+    },
+    rules: params => [
+      ...requirePercentage(params, 'amount'),
+      ...(params.orderType === 'market' && (params.maxPrice !== undefined || params.priceReference !== undefined)
+        ? ['"maxPrice" and "priceReference" only apply to limit orders']
+        : [])
+    ]
+  },
+
+  [OperationType.SPOT_SELL]: {
+    params: {
+      ...BASE_PARAMS,
+      amount: { kind: 'decimal', required: true, min: 0, exclusiveMin: true },
+      isPercentage: { kind: 'boolean', required: false },
+      minPrice: POSITIVE_PRICE,
+      orderType: { kind: 'string', required: false, values: ['market', 'limit'] }
+    },
+    rules: checkPercentageAmount
+  },
+
+  [OperationType.OPEN_LONG]: {
+    params: {
+      ...BASE_PARAMS,
+      size: { ...PERCENTAGE, required: true },
+      isPercentage: { kind: 'boolean', required: false },
+      leverage: { ...LEVERAGE, required: true },
+      stopLoss: POSITIVE_PRICE,
+      takeProfit: POSITIVE_PRICE
+    },
+    rules: params => requirePercentage(params, 'size')
+  },
+
+  [OperationType.CLOSE_LONG]: {
+    params: {
+      ...BASE_PARAMS,
+      amount: { kind: 'decimal', required: false, min: 0, exclusiveMin: true },
+      isPercentage: { kind: 'boolean', required: false },
+      closeAll: { kind: 'boolean', required: false },
+      minPrice: POSITIVE_PRICE
+    },
+    rules: checkPercentageAmount
+  },
+
+  [OperationType.OPEN_SHORT]: {
+    params: {
+      ...BASE_PARAMS,
+      size: { ...PERCENTAGE, required: true },
+      isPercentage: { kind: 'boolean', required: false },
+      leverage: { ...LEVERAGE, required: true },
+      stopLoss: POSITIVE_PRICE,
+      takeProfit: POSITIVE_PRICE
+    },
+    rules: params => requirePercentage(params, 'size')
+  },
+
+  [OperationType.CLOSE_SHORT]: {
+    params: {
+      ...BASE_PARAMS,
+      amount: { kind: 'decimal', required: false, min: 0, exclusiveMin: true },
+      isPercentage: { kind: 'boolean', required: false },
+      closeAll: { kind: 'boolean', required: false },
+      maxPrice: POSITIVE_PRICE
+    },
+    rules: checkPercentageAmount
+  },
+
+  [OperationType.CHECK_FUNDING_RATE]: {
+    params: {
+      ...BASE_PARAMS,
+      minRate: { kind: 'number', required: false, min: 0, max: 1 },
+      maxRate: { kind: 'number', required: false, min: -1, max: 1 },
+      estimatedGasCostUSD: { kind: 'decimal', required: false, min: 0 }
+    },
+    rules: params =>
+      params.minRate !== undefined && params.maxRate !== undefined && params.maxRate < params.minRate
+        ? ['"maxRate" must not be below "minRate"']
+        : []
+  },
+
+  [OperationType.CHECK_PRICE]: {
+    params: {
+      ...BASE_PARAMS,
+      operator: { kind: 'string', required: true, values: ['gt', 'lt', 'gte', 'lte', 'eq'] },
+      targetPrice: { ...POSITIVE_PRICE, required: true }
+    }
+  },
+
+  [OperationType.CHECK_LIQUIDITY]: {
+    params: {
+      ...BASE_PARAMS,
+      capitalPercentage: { kind: 'number', required: false, min: 0, exclusiveMin: true, max: 100 },
+      leverage: { ...LEVERAGE, required: false },
+      side: { kind: 'string', required: false, values: ['long', 'short'] },
+      checkSpot: { kind: 'boolean', required: false },
+      maxPriceImpact: { kind: 'number', required: false, min: 0, exclusiveMin: true, max: 100 }
+    }
+  },
+
+  [OperationType.CONDITIONAL]: {
+    params: {
+      condition: { kind: 'string', required: true },
+      thenOperations: { kind: 'operations', required: true },
+      elseOperations: { kind: 'operations', required: false }
+    }
+  },
+
+  [OperationType.WAIT]: {
+    params: {
+      duration: { kind: 'number', required: true, min: 0 },
+      condition: { kind: 'string', required: false },
+      pollInterval: { kind: 'number', required: false, min: 0, exclusiveMin: true },
+      refresh: { kind: 'array', required: false }
+    },
+    rules: params => (params.refresh ?? []).flatMap(validateRefreshSource)
+  }
+};
+
+/**
+ * Execution state keys, with the operation types allowed to write each one.
+ *
+ * Operations pass data to later operations, and conditions read it, through
+ * the execution state (`state.<key>` in conditions). Any other key is a
+ * custom key, written by the wait refresh source that names it in `stateKey`.
+ * Value types are declared by the TEE (see ExecutionState).
+ */
+export const STATE_KEYS = {
+  fundingRate: [OperationType.CHECK_FUNDING_RATE, OperationType.WAIT],
+  isProfitable: [OperationType.CHECK_FUNDING_RATE],
+  profitabilityDetails: [OperationType.CHECK_FUNDING_RATE],
+  price: [OperationType.CHECK_PRICE],
+  priceConditionMet: [OperationType.CHECK_PRICE],
+  priceCheck: [OperationType.CHECK_PRICE],
+  hasSufficientLiquidity: [OperationType.CHECK_LIQUIDITY],
+  liquidityCheck: [OperationType.CHECK_LIQUIDITY],
+  shortPosition: [OperationType.OPEN_SHORT, OperationType.CLOSE_SHORT],
+  longPosition: [OperationType.OPEN_LONG, OperationType.CLOSE_LONG],
+  spotHolding: [OperationType.SPOT_BUY, OperationType.SPOT_SELL],
+  spotSale: [OperationType.SPOT_SELL],
+  positionStatus: [OperationType.WAIT]
+} as const satisfies Record<string, readonly OperationType[]>;
+
+/**
+ * Declared execution state key
+ */
+export type StateKey = keyof typeof STATE_KEYS;
+
+/**
+ * Operation types allowed to write custom state keys
+ */
+const CUSTOM_STATE_KEY_WRITERS: readonly OperationType[] = [OperationType.WAIT];
+
+/**
+ * Type guard for declared execution state keys.
+ *
+ * @param key - Candidate key
+ * @returns Whether the key is declared in STATE_KEYS
+ */
+export function isStateKey(key: string): key is StateKey {
+  return Object.prototype.hasOwnProperty.call(STATE_KEYS, key);
+}
+
+/**
+ * Lists the operation types allowed to write a state key.
+ *
+ * @param key - Declared or custom state key
+ * @returns Writers of a declared key; wait for a custom key
+ */
+export function getStateKeyWriters(key: string): readonly OperationType[] {
+  return isStateKey(key) ? STATE_KEYS[key] : CUSTOM_STATE_KEY_WRITERS;
+}
+
+/**
+ * Validates one wait refresh source.
+ *
+ * @param source - Refresh source to check
+ * @param index - Position in the refresh array, used in messages
+ * @returns Error messages (empty when valid)
+ */
+function validateRefreshSource(source: unknown, index: number): string[] {
+  const prefix = `"refresh" entry at index ${index}`;
+
+  if (!isObject(source)) {
+    return [`${prefix} must be an object`];
+  }
+
+  const errors: string[] = [];
+
+  if (source.source === 'funding_rate') {
+    if (typeof source.pair !== 'string' || source.pair.trim().length === 0) {
+      errors.push(`${prefix} requires "pair" of type string`);
+    }
+  } else if (source.source !== 'position_status') {
+    errors.push(`${prefix} has unknown source "${String(source.source)}"`);
+  }
+
+  if (source.stateKey !== undefined && typeof source.stateKey !== 'string') {
+    errors.push(`${prefix} "stateKey" must be a string`);
+  } else if (typeof source.stateKey === 'string' && !getStateKeyWriters(source.stateKey).includes(OperationType.WAIT)) {
+    errors.push(`${prefix} cannot write state key "${source.stateKey}", which belongs to other operations`);
+  }
+
+  return errors;
+}
+
+/**
+ * Validates a single serialized operation, including nested branch operations.
+ *
+ * Checks, in order:
+ * - The envelope (type, order, params, label, optional, retry, timeoutMs, dependsOn)
+ * - That the type is known
+ * - That no unknown parameter is present
+ * - The presence, type and range of every parameter
+ * - The operation's cross-parameter rules
+ *
+ * Messages name the operation type and parameter, e.g.
+ * 'open_short "size" must be between 0 and 100'.
+ *
+ * @param op - Candidate serialized operation (e.g., freshly parsed JSON)
+ * @returns SchemaValidationResult listing every mismatch
+ */
+export function validateOperation(op: unknown): SchemaValidationResult {
+  const errors = collectOperationErrors(op);
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Validates a list of serialized operations.
+ * Messages are prefixed with the index of the failing operation.
+ *
+ * @param operations - Candidate serialized operations
+ * @returns SchemaValidationResult listing every mismatch
+ */
+export function validateOperations(operations: unknown[]): SchemaValidationResult {
+  const errors = operations.flatMap((op, index) =>
+    collectOperationErrors(op).map(error => `Operation at index ${index}: ${error}`)
+  );
+
+  // Reference and state checks need every operation to be well-formed
+  if (errors.length === 0) {
+    errors.push(...validateReferences(operations as SerializedOperation[]).errors);
+    errors.push(...validateStateKeys(operations as SerializedOperation[]).errors);
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Checks the labels, result references and dependencies of a list of
+ * well-formed operations: labels must be unique, and every reference and
+ * `dependsOn` entry must point to the label of an operation that runs earlier
+ * (a lower order in the same list, or an earlier operation enclosing a
+ * conditional branch).
+ *
+ * Labels defined inside conditional branches cannot be referenced from outside
+ * the branch, since the branch may not run.
+ *
+ * @param operations - Schema-valid serialized operations
+ * @param enclosingLabels - Labels of operations that run before this list (used for branches)
+ * @returns SchemaValidationResult listing every mismatch
+ */
+export function validateReferences(
+  operations: SerializedOperation[],
+  enclosingLabels: ReadonlySet<string> = new Set()
+): SchemaValidationResult {
+  const errors = collectReferenceErrors(operations, enclosingLabels, index => `Operation at index ${index}: `);
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Collects the label and reference errors of a list of operations, recursing
+ * into conditional branches.
+ *
+ * @param operations - Schema-valid serialized operations
+ * @param enclosingLabels - Labels of operations that run before this list
+ * @param prefix - Builds the message prefix locating an operation of this list
+ * @returns Error messages
+ */
+function collectReferenceErrors(
+  operations: SerializedOperation[],
+  enclosingLabels: ReadonlySet<string>,
+  prefix: (index: number) => string
+): string[] {
+  const errors: string[] = [];
+  const seen = new Set<string>();
+
+  operations.forEach((op, index) => {
+    if (op.label === undefined) {
+      return;
+    }
+    if (seen.has(op.label) || enclosingLabels.has(op.label)) {
+      errors.push(`${prefix(index)}label "${op.label}" is used more than once`);
+    }
+    seen.add(op.label);
+  });
+
+  operations.forEach((op, index) => {
+    // Labels available to this operation: enclosing ones and those of lower order
+    const available = new Set(enclosingLabels);
+    operations.forEach(other => {
+      if (other.label !== undefined && other.order < op.order) {
+        available.add(other.label);
+      }
+    });
+
+    getReferencedLabels(op).forEach(label => {
+      if (!available.has(label)) {
+        errors.push(`${prefix(index)}reference to "${label}" must point to the label of an earlier operation`);
+      }
+    });
+
+    (op.dependsOn ?? []).forEach(label => {
+      if (!available.has(label)) {
+        errors.push(`${prefix(index)}dependency on "${label}" must point to the label of an earlier operation`);
+      }
+    });
+
+    if (op.type === OperationType.CONDITIONAL) {
+      (['thenOperations', 'elseOperations'] as const).forEach(branch => {
+        errors.push(...collectReferenceErrors(
+          op.params[branch] ?? [],
+          available,
+          nestedIndex => `${prefix(index)}"${branch}" entry at index ${nestedIndex}: `
+        ));
+      });
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Lists the labels referenced by an operation's own params.
+ * References inside nested conditional branches belong to the nested operations.
+ *
+ * @param op - Serialized operation
+ * @returns Referenced labels, in param order, without duplicates
+ */
+export function getReferencedLabels(op: SerializedOperation): string[] {
+  const labels = Object.values(op.params)
+    .filter(isResultReference)
+    .map(reference => reference.$ref.split('.')[0]);
+
+  return [...new Set(labels)];
+}
+
+/**
+ * Checks the state keys read by the conditions of a list of well-formed
+ * operations: every key must be written by an operation that completes before
+ * the reader starts (see getPredecessors, or an operation before an enclosing
+ * conditional), or by the refresh sources of the wait that reads it. A writer
+ * of lower order is not enough for a reader declaring `dependsOn`, since the
+ * two may run concurrently.
+ *
+ * This catches misspelled keys, which would otherwise read as undefined and
+ * silently turn a condition false.
+ *
+ * @param operations - Schema-valid serialized operations
+ * @param enclosingKeys - Keys written by operations that run before this list (used for branches)
+ * @returns SchemaValidationResult listing every key read before it is written
+ */
+export function validateStateKeys(
+  operations: SerializedOperation[],
+  enclosingKeys: ReadonlySet<string> = new Set()
+): SchemaValidationResult {
+  const errors = collectStateKeyErrors(operations, enclosingKeys, index => `Operation at index ${index}: `);
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Collects the state key errors of a list of operations, recursing into
+ * conditional branches.
+ *
+ * @param operations - Schema-valid serialized operations
+ * @param enclosingKeys - Keys written by operations that run before this list
+ * @param prefix - Builds the message prefix locating an operation of this list
+ * @returns Error messages
+ */
+function collectStateKeyErrors(
+  operations: SerializedOperation[],
+  enclosingKeys: ReadonlySet<string>,
+  prefix: (index: number) => string
+): string[] {
+  const errors: string[] = [];
+
+  operations.forEach((op, index) => {
+    // Keys available to this operation: enclosing ones and those written by operations it waits for
+    const available = new Set(enclosingKeys);
+    getPredecessors(operations, op).forEach(other => {
+      getWrittenStateKeys(other).forEach(key => available.add(key));
+    });
+
+    // A wait refreshes its sources before each check of its condition
+    if (op.type === OperationType.WAIT) {
+      getWrittenStateKeys(op).forEach(key => available.add(key));
+    }
+
+    getReadStateKeys(op).forEach(key => {
+      if (available.has(key)) {
+        return;
+      }
+
+      if (!isStateKey(key)) {
+        errors.push(`${prefix(index)}condition reads unknown state key "${key}"`);
+      } else if (operations.some(other => other.order < op.order && getWrittenStateKeys(other).includes(key))) {
+        errors.push(`${prefix(index)}condition reads state key "${key}" without depending on the operation that writes it`);
+      } else {
+        errors.push(`${prefix(index)}condition reads state key "${key}" before any earlier operation writes it`);
+      }
+    });
+
+    if (op.type === OperationType.CONDITIONAL) {
+      (['thenOperations', 'elseOperations'] as const).forEach(branch => {
+        errors.push(...collectStateKeyErrors(
+          op.params[branch] ?? [],
+          available,
+          nestedIndex => `${prefix(index)}"${branch}" entry at index ${nestedIndex}: `
+        ));
+      });
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Lists the operations of a list that have completed whenever one of them
+ * starts, following StrategyExecutor's scheduling: every operation of lower
+ * order or, for an operation declaring `dependsOn`, the operations it depends
+ * on or references and, in turn, those they wait for.
+ *
+ * @param operations - Schema-valid serialized operations
+ * @param op - Operation of the list
+ * @returns Operations that complete before `op` starts
+ */
+function getPredecessors(operations: SerializedOperation[], op: SerializedOperation): Set<SerializedOperation> {
+  const waitsFor = (current: SerializedOperation): SerializedOperation[] => {
+    if (current.dependsOn === undefined) {
+      return operations.filter(other => other.order < current.order);
+    }
+    const labels = [...current.dependsOn, ...getReferencedLabels(current)];
+    return operations.filter(other => other.label !== undefined && labels.includes(other.label));
+  };
+
+  const predecessors = new Set<SerializedOperation>();
+  const pending = waitsFor(op);
+  while (pending.length > 0) {
+    const next = pending.pop()!;
+    if (!predecessors.has(next)) {
+      predecessors.add(next);
+      pending.push(...waitsFor(next));
+    }
+  }
+
+  return predecessors;
+}
+
+/**
+ * Lists the state keys read by an operation's own condition.
+ * Keys read inside nested conditional branches belong to the nested operations.
+ *
+ * @param op - Serialized operation
+ * @returns Keys referenced as `state.<key>`, without duplicates
+ */
+export function getReadStateKeys(op: SerializedOperation): string[] {
+  const condition = (op.params as { condition?: unknown }).condition;
+  if (typeof condition !== 'string') {
+    return [];
+  }
+
+  // String literals may contain text that looks like a reference
+  const unquoted = condition.replace(/'[^']*'|"[^"]*"/g, '');
+  const keys = [...unquoted.matchAll(/(?<![\w.])state\.(\w+)/g)].map(match => match[1]);
+
+  return [...new Set(keys)];
+}
+
+/**
+ * Lists the state keys an operation may write, including those written by
+ * the operations of its conditional branches.
+ *
+ * @param op - Serialized operation
+ * @returns Written keys, without duplicates
+ */
+export function getWrittenStateKeys(op: SerializedOperation): string[] {
+  switch (op.type) {
+    case OperationType.WAIT:
+      // Refresh sources name their key; the wait writes nothing else
+      return [...new Set(((op.params as WaitParams).refresh ?? []).map(source =>
+        source.stateKey ?? (source.source === 'funding_rate' ? 'fundingRate' : 'positionStatus')
+      ))];
+
+    case OperationType.CONDITIONAL: {
+      const params = op.params as ConditionalParams;
+      return [...new Set([...params.thenOperations, ...(params.elseOperations ?? [])].flatMap(getWrittenStateKeys))];
+    }
+
+    default:
+      return (Object.keys(STATE_KEYS) as StateKey[])
+        .filter(key => getStateKeyWriters(key).includes(op.type));
+  }
+}
+
+/**
+ * Type guard for result references with a well-formed path.
+ *
+ * @param value - Candidate value
+ * @returns Whether the value is a ResultReference
+ */
+export function isResultReference(value: unknown): value is ResultReference {
+  return isObject(value)
+    && Object.keys(value).length === 1
+    && typeof value.$ref === 'string'
+    && REFERENCE_PATH.test(value.$ref);
+}
+
+/**
+ * Creates a reference to a field of a labelled operation's result.
+ *
+ * @param label - Label of the referenced operation
+ * @param field - Field of its result data (dot-separated for nested fields)
+ * @returns ResultReference
+ *
+ * @example
+ * ```typescript
+ * builder.spotBuy('BTC/USDC', '50', { maxPrice: resultRef('shortPosition', 'entryPrice') });
+ * ```
+ */
+export function resultRef(label: string, field: string): ResultReference {
+  return { $ref: `${label}.${field}` };
+}
+
+/**
+ * Validates a serialized strategy: its operations array and every operation in it.
+ *
+ * @param strategy - Candidate serialized strategy (e.g., freshly parsed JSON)
+ * @returns SchemaValidationResult listing every mismatch
+ */
+export function validateStrategy(strategy: unknown): SchemaValidationResult {
+  if (!isObject(strategy) || !Array.isArray(strategy.operations)) {
+    return {
+      isValid: false,
+      errors: ['Invalid strategy structure: missing or invalid operations array']
+    };
+  }
+
+  return validateOperations(strategy.operations);
+}
+
+/**
+ * Collects the errors of one operation.
+ *
+ * @param op - Candidate serialized operation
+ * @returns Error messages (empty when valid)
+ */
+function collectOperationErrors(op: unknown): string[] {
+  if (!isObject(op)) {
+    return ['Operation must be an object'];
+  }
+
+  // Envelope: the first failure makes the rest meaningless
+  if (!op.type) {
+    return ['Operation missing required "type" field'];
+  }
+
+  if (typeof op.order !== 'number') {
+    return ['Operation missing required "order" field or order is not a number'];
+  }
+
+  if (!isObject(op.params)) {
+    return ['Operation missing required "params" field or params is not an object'];
+  }
+
+  if (!isOperationType(op.type)) {
+    return [`Unknown operation type: ${String(op.type)}`];
+  }
+
+  const errors: string[] = [];
+
+  if (op.label !== undefined && (typeof op.label !== 'string' || op.label.trim().length === 0)) {
+    errors.push('Operation "label" must be a non-empty string');
+  }
+
+  if (op.optional !== undefined && typeof op.optional !== 'boolean') {
+    errors.push('Operation "optional" must be a boolean');
+  }
+
+  if (op.retry !== undefined) {
+    errors.push(...collectRetryErrors(op.retry));
+  }
+
+  if (op.timeoutMs !== undefined && (!Number.isInteger(op.timeoutMs) || (op.timeoutMs as number) <= 0)) {
+    errors.push('Operation "timeoutMs" must be a positive integer');
+  }
+
+  if (op.dependsOn !== undefined && (
+    !Array.isArray(op.dependsOn) ||
+    !op.dependsOn.every(label => typeof label === 'string' && label.trim().length > 0)
+  )) {
+    errors.push('Operation "dependsOn" must be an array of non-empty strings');
+  }
+
+  const type = op.type;
+  const spec = OPERATION_SCHEMAS[type] as AnyOperationSpec;
+  const fields = spec.params;
+
+  // Unknown parameters usually mean the two sides disagree on a name
+  Object.keys(op.params)
+    .filter(key => !(key in fields))
+    .forEach(key => errors.push(`${type} has unknown parameter "${key}"`));
+
+  Object.entries(fields).forEach(([key, field]) => {
+    errors.push(...checkField(op.params as Record<string, unknown>, key, field).map(error => `${type} ${error}`));
+  });
+
+  if (errors.length === 0 && spec.rules) {
+    errors.push(...spec.rules(op.params as Record<string, unknown>).map(error => `${type} ${error}`));
+  }
+
+  return errors;
+}
+
+/**
+ * Collects the errors of an operation's retry policy.
+ *
+ * @param retry - Candidate retry policy
+ * @returns Error messages (empty when valid)
+ */
+function collectRetryErrors(retry: unknown): string[] {
+  if (!isObject(retry)) {
+    return ['Operation "retry" must be an object'];
+  }
+
+  const errors: string[] = Object.keys(retry)
+    .filter(key => !RETRY_POLICY_KEYS.includes(key))
+    .map(key => `Operation "retry" has unknown field "${key}"`);
+
+  const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+  const { maxAttempts, initialDelayMs, backoffMultiplier, maxDelayMs, jitter, retryableCodes } = retry;
+
+  if (!Number.isInteger(maxAttempts) || (maxAttempts as number) < 1 || (maxAttempts as number) > MAX_RETRY_ATTEMPTS) {
+    errors.push(`Operation "retry.maxAttempts" must be an integer between 1 and ${MAX_RETRY_ATTEMPTS}`);
+  }
+
+  if (initialDelayMs !== undefined && (!isNumber(initialDelayMs) || initialDelayMs < 0)) {
+    errors.push('Operation "retry.initialDelayMs" must be at least 0');
+  }
+
+  if (backoffMultiplier !== undefined && (!isNumber(backoffMultiplier) || backoffMultiplier < 1)) {
+    errors.push('Operation "retry.backoffMultiplier" must be at least 1');
+  }
+
+  if (maxDelayMs !== undefined && (!isNumber(maxDelayMs) || maxDelayMs < 0)) {
+    errors.push('Operation "retry.maxDelayMs" must be at least 0');
+  }
+
+  if (jitter !== undefined && (!isNumber(jitter) || jitter < 0 || jitter > 1)) {
+    errors.push('Operation "retry.jitter" must be between 0 and 1');
+  }
+
+  if (retryableCodes !== undefined && (
+    !Array.isArray(retryableCodes)
+    || !retryableCodes.every(code => typeof code === 'string' && code.trim().length > 0)
+  )) {
+    errors.push('Operation "retry.retryableCodes" must be an array of non-empty strings');
+  }
+
+  return errors;
+}
+
+/**
+ * Checks one parameter against its description.
+ *
+ * @param params - Operation parameters
+ * @param key - Parameter name
+ * @param field - Parameter description
+ * @returns Error messages, without the operation type prefix
+ */
+function checkField(params: Record<string, unknown>, key: string, field: FieldSpec): string[] {
+  const value = params[key];
+
+  if (value === undefined) {
+    return field.required ? [`requires "${key}" parameter`] : [];
+  }
+
+  switch (field.kind) {
+    case 'string':
+      if (typeof value !== 'string' || value.trim().length === 0) {
+        return [`"${key}" must be a non-empty string`];
+      }
+      if (field.values && !field.values.includes(value)) {
+        return [`"${key}" must be one of: ${field.values.join(', ')}`];
+      }
+      return [];
+
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`"${key}" must be a boolean`];
+
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return [`"${key}" must be a number`];
+      }
+      return checkRange(key, value, field);
+
+    case 'decimal': {
+      // References are range-checked by the operation once resolved
+      if (isObject(value) && '$ref' in value) {
+        return isResultReference(value)
+          ? []
+          : [`"${key}" reference must be a string of the form "<label>.<field>"`];
+      }
+      const numeric = typeof value === 'string' && value.trim().length > 0 ? Number(value) : value;
+      if (typeof numeric !== 'number' || !Number.isFinite(numeric)) {
+        return [`"${key}" must be a number or numeric string`];
+      }
+      return checkRange(key, numeric, field);
+    }
+
+    case 'array':
+      return Array.isArray(value) ? [] : [`"${key}" must be an array`];
+
+    case 'operations':
+      if (!Array.isArray(value)) {
+        return [`"${key}" must be an array`];
+      }
+      return value.flatMap((nested, index) =>
+        collectOperationErrors(nested).map(error => `"${key}" entry at index ${index}: ${error}`)
+      );
+  }
+}
+
+/**
+ * Checks a numeric parameter against its bounds.
+ *
+ * @param key - Parameter name
+ * @param value - Numeric value
+ * @param field - Parameter description
+ * @returns Error messages, without the operation type prefix
+ */
+function checkRange(key: string, value: number, field: FieldSpec): string[] {
+  const tooLow = field.min !== undefined && (field.exclusiveMin ? value <= field.min : value < field.min);
+  const tooHigh = field.max !== undefined && value > field.max;
+
+  if (!tooLow && !tooHigh) {
+    return [];
+  }
+
+  if (field.min !== undefined && field.max !== undefined) {
+    return [`"${key}" must be between ${field.min} and ${field.max}`];
+  }
+
+  if (field.min !== undefined) {
+    return [field.exclusiveMin ? `"${key}" must be greater than ${field.min}` : `"${key}" must be at least ${field.min}`];
+  }
+
+  return [`"${key}" must be at most ${field.max}`];
+}
+
+/**
+ * Type guard for known operation types.
+ *
+ * @param type - Candidate type value
+ * @returns Whether the value is an OperationType
+ */
+export function isOperationType(type: unknown): type is OperationType {
+  return Object.values(OperationType).includes(type as OperationType);
+}
+
+/**
+ * Type guard for plain objects.
+ *
+ * @param value - Candidate value
+ * @returns Whether the value is a non-null, non-array object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
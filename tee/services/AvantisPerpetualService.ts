@@ -0,0 +1,742 @@
+import { Interface, Provider, formatUnits, getAddress, parseUnits } from 'ethers';
+import {
+  Clock,
+  DexService,
+  PerpetualService,
+  PriceService,
+  SecureWallet,
+  TransactionManager,
+  TransactionReceipt
+} from '../executor/ExecutionContext';
+import { PositionState } from '../executor/ExecutionState';
+import { systemClock, pollUntil } from '../executor/Clock';
+import { getLogger } from '../executor/Tracer';
+
+/**
+ * Avantis functions the adapter calls. The Trade tuple is the struct modelled
+ * by contracts/AvantisPositionPredicate.sol; prices, leverage and slippage use
+ * 1e10 precision and USDC amounts 6 decimals.
+ */
+const TRADE_TUPLE =
+  'tuple(address trader, uint256 pairIndex, uint256 index, uint256 initialPosToken, uint256 positionSizeUsdc, ' +
+  'uint256 openPrice, bool buy, uint256 leverage, uint256 tp, uint256 sl)';
+
+export const AVANTIS_TRADING = new Interface([
+  `function openTrade(${TRADE_TUPLE} trade, uint8 orderType, uint256 slippageP) payable`,
+  'function closeTradeMarket(uint256 pairIndex, uint256 index, uint256 amount) payable'
+]);
+
+export const AVANTIS_TRADING_STORAGE = new Interface([
+  `function openTrades(address trader, uint256 pairIndex, uint256 index) view returns (${TRADE_TUPLE})`,
+  'function openTradesCount(address trader, uint256 pairIndex) view returns (uint256)'
+]);
+
+/** Funding rate of a pair, a 1e10 precision percentage per hour (positive: longs pay shorts) */
+export const AVANTIS_PAIR_INFOS = new Interface([
+  'function getFundingRate(uint256 pairIndex) view returns (int256)'
+]);
+
+const ERC20 = new Interface([
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function approve(address spender, uint256 amount) returns (bool)'
+]);
+
+/** Decimals of Avantis prices, leverage and slippage */
+export const AVANTIS_PRECISION = 10;
+
+/** Decimals of USDC, the collateral token */
+const USDC_DECIMALS = 6;
+
+/** Market order type of openTrade */
+const MARKET_ORDER = 0;
+
+/**
+ * Avantis pair indexes, keyed by normalized pair (see normalizePair)
+ */
+export const DEFAULT_PAIR_INDEXES: Readonly<Record<string, number>> = {
+  'ETH/USD': 0,
+  'BTC/USD': 1
+};
+
+/** Default keeper fee sent with each market order, in wei */
+export const DEFAULT_EXECUTION_FEE_WEI = '350000000000000';
+
+/** Default price slippage accepted by market orders, as a percentage */
+export const DEFAULT_SLIPPAGE_PERCENT = 1;
+
+/** Default time keepers have to fill a market order, in milliseconds */
+export const DEFAULT_FILL_TIMEOUT_MS = 60 * 1000;
+
+/** Default delay between two checks of a pending order, in milliseconds */
+export const DEFAULT_FILL_POLL_INTERVAL_MS = 2000;
+
+/** Default number of trade slots a trader has per pair */
+export const DEFAULT_MAX_TRADES_PER_PAIR = 40;
+
+/**
+ * Addresses of the Avantis deployment and its collateral token
+ */
+export interface AvantisContracts {
+  /** Trading contract, which orders are sent to */
+  trading: string;
+  /** TradingStorage contract, which holds open trades and the collateral */
+  tradingStorage: string;
+  /** PairInfos contract, which reports funding rates */
+  pairInfos: string;
+  /** USDC token */
+  usdc: string;
+}
+
+/**
+ * Options of an AvantisPerpetualService
+ */
+export interface AvantisPerpetualServiceOptions {
+  /** Node the contracts are read from */
+  provider: Provider;
+  /** Sends the wallet's orders and approvals */
+  transactions: TransactionManager;
+  /** Wallet whose positions are opened, looked up and closed; the wallets given to openShort, openLong and getOpenPosition must be it */
+  trader: string;
+  /** Avantis contracts */
+  contracts: AvantisContracts;
+  /** Reference prices for market orders and close price limits */
+  prices: PriceService;
+  /** Pair indexes (default: DEFAULT_PAIR_INDEXES) */
+  pairIndexes?: Record<string, number>;
+  /** Keeper fee sent with each market order, in wei (default: DEFAULT_EXECUTION_FEE_WEI) */
+  executionFeeWei?: string;
+  /** Price slippage accepted by market orders, as a percentage (default: DEFAULT_SLIPPAGE_PERCENT) */
+  slippagePercent?: number;
+  /** Time keepers have to fill an order (default: DEFAULT_FILL_TIMEOUT_MS) */
+  fillTimeoutMs?: number;
+  /** Delay between two checks of a pending order (default: DEFAULT_FILL_POLL_INTERVAL_MS) */
+  pollIntervalMs?: number;
+  /** Trade slots per pair (default: DEFAULT_MAX_TRADES_PER_PAIR) */
+  maxTradesPerPair?: number;
+  /** Time source for polling (default: system clock) */
+  clock?: Clock;
+}
+
+/**
+ * Open trade as stored by TradingStorage
+ */
+export interface AvantisTrade {
+  trader: string;
+  pairIndex: number;
+  index: number;
+  /** Collateral in USDC base units */
+  initialPosToken: bigint;
+  positionSizeUsdc: bigint;
+  /** 1e10 precision */
+  openPrice: bigint;
+  buy: boolean;
+  /** 1e10 precision */
+  leverage: bigint;
+  tp: bigint;
+  sl: bigint;
+}
+
+/**
+ * Trade slot of an order, by the hash of its opening transaction
+ */
+interface OpenedTrade {
+  pairIndex: number;
+  index: number;
+  buy: boolean;
+}
+
+/**
+ * Raised when an order was sent but its fill was not seen. Carries the
+ * order transaction, so callers can look the trade up later.
+ */
+export class AvantisOrderError extends Error {
+  constructor(message: string, readonly transactionHash: string) {
+    super(message);
+    this.name = 'AvantisOrderError';
+  }
+}
+
+const log = getLogger('Avantis');
+
+/**
+ * Normalizes a trading pair to the Avantis market it trades on: wrapped
+ * assets trade as their underlying asset and stablecoin quotes as USD
+ * (e.g., 'WBTC/USDC' -> 'BTC/USD').
+ *
+ * @param pair - Trading pair
+ * @returns Normalized pair
+ */
+export function normalizePair(pair: string): string {
+  const [base, quote = 'USD'] = pair.toUpperCase().split('/');
+  const asset = base === 'WBTC' || base === 'WETH' ? base.slice(1) : base;
+  return `${asset}/${quote === 'USDC' || quote === 'USDT' ? 'USD' : quote}`;
+}
+
+/**
+ * Encodes a decimal price, leverage or percentage with Avantis precision.
+ * Decimal strings drop digits beyond it; numbers, and strings in exponent
+ * notation (e.g., '1e-7'), are rounded to it.
+ *
+ * @param value - Decimal value
+ * @returns Value in 1e10 precision
+ */
+export function encodePrecise(value: string | number): bigint {
+  const decimal = typeof value === 'number' || /e/i.test(value)
+    ? Number(value).toFixed(AVANTIS_PRECISION)
+    : truncateDecimals(value, AVANTIS_PRECISION);
+  return parseUnits(decimal, AVANTIS_PRECISION);
+}
+
+/**
+ * Decodes a 1e10 precision value to a decimal string
+ *
+ * @param value - Value in 1e10 precision
+ * @returns Decimal string (e.g., '50000' or '0.25')
+ */
+export function decodePrecise(value: bigint): string {
+  return formatUnits(value, AVANTIS_PRECISION).replace(/\.0$/, '');
+}
+
+/**
+ * AvantisPerpetualService trades perpetuals on Avantis and reads their
+ * funding rates, for the TEE execution context.
+ *
+ * Positions are market orders collateralized in USDC:
+ * - The collateral is approved to TradingStorage, for the exact amount,
+ *   unless the current allowance covers it.
+ * - openTrade and closeTradeMarket only queue the order; a keeper fills it
+ *   at the oracle price. The service sends the order with the keeper fee,
+ *   then polls TradingStorage until the trade appears (or is reduced or
+ *   removed, for closes), so the returned entry price is the filled price.
+ * - Open trades are read from TradingStorage by pair and slot index;
+ *   positions opened by this service carry their slot in `tradeIndex`.
+ *
+ * Transactions go through the execution's TransactionManager.
+ *
+ * @example
+ * ```typescript
+ * const avantis = new AvantisPerpetualService({
+ *   provider: wallet.provider,
+ *   transactions,
+ *   trader: wallet.address,
+ *   contracts: { trading, tradingStorage, pairInfos, usdc },
+ *   prices
+ * });
+ *
+ * const { entryPrice, tradeIndex } = await avantis.openShort({ pair: 'BTC/USDC', amount: '500', leverage: 2, wallet });
+ * ```
+ */
+export class AvantisPerpetualService implements PerpetualService, DexService {
+  /** Node the contracts are read from */
+  private readonly provider: Provider;
+
+  /** Sends orders and approvals */
+  private readonly transactions: TransactionManager;
+
+  /** Wallet whose positions are traded */
+  private readonly trader: string;
+
+  /** Avantis contracts */
+  private readonly contracts: AvantisContracts;
+
+  /** Reference prices */
+  private readonly prices: PriceService;
+
+  /** Pair indexes by normalized pair */
+  private readonly pairIndexes: Record<string, number>;
+
+  /** Keeper fee per order, in wei */
+  private readonly executionFeeWei: string;
+
+  /** Market order slippage, as a percentage */
+  private readonly slippagePercent: number;
+
+  /** Time keepers have to fill an order */
+  private readonly fillTimeoutMs: number;
+
+  /** Delay between two checks of a pending order */
+  private readonly pollIntervalMs: number;
+
+  /** Trade slots per pair */
+  private readonly maxTradesPerPair: number;
+
+  /** Time source for polling */
+  private readonly clock: Clock;
+
+  /** Trade slots of the orders sent or looked up, by opening transaction hash */
+  private readonly opened = new Map<string, OpenedTrade>();
+
+  /**
+   * Creates an Avantis adapter.
+   *
+   * @param options - Node, transaction manager, contracts and order settings
+   */
+  constructor(options: AvantisPerpetualServiceOptions) {
+    this.provider = options.provider;
+    this.transactions = options.transactions;
+    this.trader = getAddress(options.trader);
+    this.contracts = options.contracts;
+    this.prices = options.prices;
+    this.pairIndexes = { ...DEFAULT_PAIR_INDEXES, ...options.pairIndexes };
+    this.executionFeeWei = options.executionFeeWei ?? DEFAULT_EXECUTION_FEE_WEI;
+    this.slippagePercent = options.slippagePercent ?? DEFAULT_SLIPPAGE_PERCENT;
+    this.fillTimeoutMs = options.fillTimeoutMs ?? DEFAULT_FILL_TIMEOUT_MS;
+    this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_FILL_POLL_INTERVAL_MS;
+    this.maxTradesPerPair = options.maxTradesPerPair ?? DEFAULT_MAX_TRADES_PER_PAIR;
+    this.clock = options.clock ?? systemClock;
+  }
+
+  /**
+   * Gets the funding rate of a pair.
+   *
+   * @param pair - Trading pair
+   * @returns Funding rate over 8 hours as a decimal (0.0001 = 0.01%); positive when longs pay shorts
+   * @throws Error if the pair is not listed
+   */
+  async getFundingRate(pair: string): Promise<number> {
+    const [hourlyPercent] = await this.read(
+      AVANTIS_PAIR_INFOS,
+      this.contracts.pairInfos,
+      'getFundingRate',
+      [this.getPairIndex(pair)]
+    );
+    return (Number(hourlyPercent) / 10 ** AVANTIS_PRECISION / 100) * 8;
+  }
+
+  /**
+   * Opens a short position with a market order.
+   *
+   * @param params - Pair, collateral in USDC, leverage, optional stop loss and take profit, and the trading wallet
+   * @returns Promise resolving to the filled entry price, the order transaction and the trade slot
+   */
+  async openShort(params: OpenParams): Promise<OpenResult> {
+    return this.open(params, false);
+  }
+
+  /**
+   * Opens a long position with a market order.
+   *
+   * @param params - Pair, collateral in USDC, leverage, optional stop loss and take profit, and the trading wallet
+   * @returns Promise resolving to the filled entry price, the order transaction and the trade slot
+   */
+  async openLong(params: OpenParams): Promise<OpenResult> {
+    return this.open(params, true);
+  }
+
+  /**
+   * Closes a position, fully or partially, with a market order.
+   *
+   * The position's trade is its `tradeIndex` slot, or else the only open
+   * trade of the wallet on the pair. Avantis closes at the oracle price, so
+   * the price limit is checked against the reference price before the order
+   * is sent, and the exit price is the oracle price read once the fill is
+   * seen.
+   *
+   * @param position - Position to close
+   * @param options - Collateral to close (default: all) and price limit
+   * @returns Promise resolving to the order transaction and the exit price
+   * @throws Error if the trade cannot be found, the price is past the limit, or the order is not filled in time
+   */
+  async closePosition(position: PositionState, options: {
+    amount?: string;
+    minPrice?: string;
+    maxPrice?: string;
+    signal?: AbortSignal;
+  } = {}): Promise<{ transactionHash: string; gasUsed: string; exitPrice?: string }> {
+    const pairIndex = this.getPairIndex(position.pair);
+    const trade = await this.findTrade(this.trader, pairIndex, position.tradeIndex);
+
+    const referencePrice = await this.prices.getPrice(position.pair);
+    if (options.maxPrice !== undefined && parseFloat(referencePrice) > parseFloat(options.maxPrice)) {
+      throw new Error(`Price ${referencePrice} of ${position.pair} is above the close limit ${options.maxPrice}`);
+    }
+    if (options.minPrice !== undefined && parseFloat(referencePrice) < parseFloat(options.minPrice)) {
+      throw new Error(`Price ${referencePrice} of ${position.pair} is below the close limit ${options.minPrice}`);
+    }
+
+    const amount = options.amount === undefined ? trade.initialPosToken : toUsdc(options.amount);
+    const receipt = await this.send(
+      AVANTIS_TRADING.encodeFunctionData('closeTradeMarket', [pairIndex, trade.index, amount]),
+      this.executionFeeWei,
+      'closeTradeMarket',
+      this.contracts.trading,
+      options.signal
+    );
+
+    const closed = await this.waitForFill(async () => {
+      const current = await this.readTrade(this.trader, pairIndex, trade.index);
+      return !current || current.initialPosToken < trade.initialPosToken;
+    }, options.signal);
+    if (!closed) {
+      throw this.unfilledError('Close order', receipt.transactionHash, options.signal);
+    }
+
+    const exitPrice = await this.prices.getPrice(position.pair);
+    log.info('Position closed', { pair: position.pair, index: trade.index, amount: amount.toString(), exitPrice });
+    return { transactionHash: receipt.transactionHash, gasUsed: receipt.gasUsed, exitPrice };
+  }
+
+  /**
+   * Gets the status of a position from its order transaction.
+   *
+   * Trades opened by this service are read from their slot. Other orders,
+   * such as those of an earlier run, are decoded from the transaction and
+   * matched against the trader's open trades on the pair.
+   *
+   * @param transactionHash - Hash of the order transaction
+   * @returns Promise resolving to whether the trade is open, and its entry price
+   * @throws Error if several open trades match the order
+   */
+  async getPositionStatus(transactionHash: string): Promise<{ confirmed: boolean; entryPrice?: string }> {
+    const opened = this.opened.get(transactionHash) ?? await this.findOpened(transactionHash);
+    const trade = opened && await this.readTrade(this.trader, opened.pairIndex, opened.index);
+
+    return trade && trade.buy === opened.buy
+      ? { confirmed: true, entryPrice: decodePrecise(trade.openPrice) }
+      : { confirmed: false };
+  }
+
+  /**
+   * Looks up the wallet's first open trade on a pair and side.
+   *
+   * @param params - Pair, side and wallet
+   * @returns Promise resolving to the position, or null if there is none
+   */
+  async getOpenPosition(params: {
+    pair: string;
+    side: 'long' | 'short';
+    wallet: SecureWallet;
+  }): Promise<(PositionState & { side: 'long' | 'short' }) | null> {
+    const trades = await this.readTrades(this.traderOf(params.wallet), this.getPairIndex(params.pair));
+    const trade = trades.find(candidate => candidate.buy === (params.side === 'long'));
+    if (!trade) {
+      return null;
+    }
+
+    return {
+      pair: params.pair,
+      side: params.side,
+      amount: formatUnits(trade.initialPosToken, USDC_DECIMALS),
+      entryPrice: decodePrecise(trade.openPrice),
+      leverage: Number(decodePrecise(trade.leverage)),
+      tradeIndex: trade.index
+    };
+  }
+
+  /**
+   * Approves the collateral, sends a market order and waits for its trade.
+   *
+   * @param params - Order parameters
+   * @param buy - Whether the position is a long
+   * @returns Promise resolving to the filled trade
+   */
+  private async open(params: OpenParams, buy: boolean): Promise<OpenResult> {
+    const trader = this.traderOf(params.wallet);
+    const pairIndex = this.getPairIndex(params.pair);
+    const collateral = toUsdc(params.amount);
+
+    await this.approveCollateral(trader, collateral);
+
+    const before = new Set((await this.readTrades(trader, pairIndex)).map(trade => trade.index));
+    const referencePrice = await this.prices.getPrice(params.pair);
+
+    const receipt = await this.send(
+      AVANTIS_TRADING.encodeFunctionData('openTrade', [
+        {
+          trader,
+          pairIndex,
+          index: 0,
+          initialPosToken: collateral,
+          positionSizeUsdc: collateral,
+          openPrice: encodePrecise(referencePrice),
+          buy,
+          leverage: encodePrecise(params.leverage),
+          tp: params.takeProfit === undefined ? 0 : encodePrecise(params.takeProfit),
+          sl: params.stopLoss === undefined ? 0 : encodePrecise(params.stopLoss)
+        },
+        MARKET_ORDER,
+        encodePrecise(this.slippagePercent)
+      ]),
+      this.executionFeeWei,
+      'openTrade',
+      this.contracts.trading,
+      params.signal
+    );
+
+    let filled: AvantisTrade | undefined;
+    await this.waitForFill(async () => {
+      const trades = await this.readTrades(trader, pairIndex);
+      filled = trades.find(trade => !before.has(trade.index) && trade.buy === buy);
+      return filled !== undefined;
+    }, params.signal);
+    if (!filled) {
+      throw this.unfilledError('Order', receipt.transactionHash, params.signal);
+    }
+
+    this.opened.set(receipt.transactionHash, { pairIndex, index: filled.index, buy });
+    const entryPrice = decodePrecise(filled.openPrice);
+    log.info('Position opened', { pair: params.pair, side: buy ? 'long' : 'short', index: filled.index, entryPrice });
+
+    return {
+      entryPrice,
+      transactionHash: receipt.transactionHash,
+      gasUsed: receipt.gasUsed,
+      tradeIndex: filled.index
+    };
+  }
+
+  /**
+   * Finds the trade an openTrade transaction sent by the trader filled:
+   * its open trade on the pair with the order's side and leverage, preferring
+   * one with the order's collateral.
+   *
+   * @param transactionHash - Hash of the order transaction
+   * @returns Promise resolving to the trade, or undefined if the transaction is not such an order or its trade is not open
+   * @throws Error if several open trades match the order
+   */
+  private async findOpened(transactionHash: string): Promise<OpenedTrade | undefined> {
+    const transaction = await this.provider.getTransaction(transactionHash);
+    if (!transaction?.to || getAddress(transaction.to) !== getAddress(this.contracts.trading)) {
+      return undefined;
+    }
+
+    const call = AVANTIS_TRADING.parseTransaction({ data: transaction.data });
+    if (call?.name !== 'openTrade' || getAddress(call.args[0].trader) !== this.trader) {
+      return undefined;
+    }
+
+    const order = call.args[0];
+    const pairIndex = Number(order.pairIndex);
+    const candidates = (await this.readTrades(this.trader, pairIndex))
+      .filter(trade => trade.buy === order.buy && trade.leverage === order.leverage);
+    const trade = candidates.find(candidate => candidate.initialPosToken === order.initialPosToken)
+      ?? (candidates.length <= 1 ? candidates[0] : undefined);
+    if (!trade && candidates.length > 1) {
+      throw new Error(`Cannot tell which of ${candidates.length} open trades on pair ${pairIndex} order ${transactionHash} filled`);
+    }
+    if (!trade) {
+      return undefined;
+    }
+
+    const opened = { pairIndex, index: trade.index, buy: trade.buy };
+    this.opened.set(transactionHash, opened);
+    return opened;
+  }
+
+  /**
+   * Approves TradingStorage to take the collateral, unless it already may.
+   *
+   * @param trader - Wallet address
+   * @param collateral - Collateral in USDC base units
+   */
+  private async approveCollateral(trader: string, collateral: bigint): Promise<void> {
+    const [allowance] = await this.read(ERC20, this.contracts.usdc, 'allowance', [trader, this.contracts.tradingStorage]);
+    if (allowance >= collateral) {
+      return;
+    }
+
+    await this.send(
+      ERC20.encodeFunctionData('approve', [this.contracts.tradingStorage, collateral]),
+      '0',
+      'approve',
+      this.contracts.usdc
+    );
+  }
+
+  /**
+   * Sends a transaction and fails if it reverts.
+   *
+   * @param data - Call data
+   * @param value - Native amount sent, in wei
+   * @param method - Called function, for error messages
+   * @param to - Called contract (default: Trading)
+   * @param signal - Stops waiting for the transaction when aborted
+   * @returns Promise resolving to the receipt
+   */
+  private async send(
+    data: string,
+    value: string,
+    method: string,
+    to = this.contracts.trading,
+    signal?: AbortSignal
+  ): Promise<TransactionReceipt> {
+    const receipt = await this.transactions.send({ to, data, value }, { signal });
+    if (receipt.status === 'reverted') {
+      throw new Error(`${method} transaction ${receipt.transactionHash} reverted`);
+    }
+    return receipt;
+  }
+
+  /**
+   * Polls until a keeper has filled an order.
+   *
+   * @param check - Returns true once the order is reflected in TradingStorage
+   * @param signal - Stops polling when aborted
+   * @returns Promise resolving to whether it was filled in time
+   */
+  private async waitForFill(check: () => Promise<boolean>, signal?: AbortSignal): Promise<boolean> {
+    const { satisfied } = await pollUntil(
+      this.clock,
+      { timeoutMs: this.fillTimeoutMs, intervalMs: this.pollIntervalMs, signal },
+      check
+    );
+    return satisfied;
+  }
+
+  /**
+   * Describes an order that was not seen filled.
+   *
+   * @param order - Kind of order, for the message
+   * @param transactionHash - Order transaction
+   * @param signal - Signal the wait ran with
+   * @returns Error to throw
+   */
+  private unfilledError(order: string, transactionHash: string, signal?: AbortSignal): AvantisOrderError {
+    return signal?.aborted
+      ? new AvantisOrderError(`Stopped waiting for ${order.toLowerCase()} ${transactionHash} to fill`, transactionHash)
+      : new AvantisOrderError(`${order} ${transactionHash} was not filled within ${this.fillTimeoutMs}ms`, transactionHash);
+  }
+
+  /**
+   * Finds the trade of a position: its slot when known, or else the only
+   * open trade of the wallet on the pair.
+   *
+   * @param trader - Wallet address
+   * @param pairIndex - Pair index
+   * @param tradeIndex - Slot of the trade, if known
+   * @returns Promise resolving to the trade
+   * @throws Error if there is no such trade, or several without a known slot
+   */
+  private async findTrade(trader: string, pairIndex: number, tradeIndex?: number): Promise<AvantisTrade> {
+    if (tradeIndex !== undefined) {
+      const trade = await this.readTrade(trader, pairIndex, tradeIndex);
+      if (!trade) {
+        throw new Error(`No open trade in slot ${tradeIndex} of pair ${pairIndex}`);
+      }
+      return trade;
+    }
+
+    const trades = await this.readTrades(trader, pairIndex);
+    if (trades.length !== 1) {
+      throw new Error(`Expected one open trade on pair ${pairIndex}, found ${trades.length}`);
+    }
+    return trades[0];
+  }
+
+  /**
+   * Reads the open trades of a wallet on a pair, scanning the slots until
+   * as many trades as TradingStorage counts are found.
+   *
+   * @param trader - Wallet address
+   * @param pairIndex - Pair index
+   * @returns Promise resolving to the open trades, by slot
+   */
+  private async readTrades(trader: string, pairIndex: number): Promise<AvantisTrade[]> {
+    const [count] = await this.read(AVANTIS_TRADING_STORAGE, this.contracts.tradingStorage, 'openTradesCount', [trader, pairIndex]);
+    const trades: AvantisTrade[] = [];
+
+    for (let index = 0; trades.length < Number(count) && index < this.maxTradesPerPair; index++) {
+      const trade = await this.readTrade(trader, pairIndex, index);
+      if (trade) {
+        trades.push(trade);
+      }
+    }
+    return trades;
+  }
+
+  /**
+   * Reads one trade slot.
+   *
+   * @param trader - Wallet address
+   * @param pairIndex - Pair index
+   * @param index - Slot index
+   * @returns Promise resolving to the trade, or undefined if the slot is empty
+   */
+  private async readTrade(trader: string, pairIndex: number, index: number): Promise<AvantisTrade | undefined> {
+    const [trade] = await this.read(AVANTIS_TRADING_STORAGE, this.contracts.tradingStorage, 'openTrades', [trader, pairIndex, index]);
+    if (BigInt(trade.trader) === BigInt(0) || trade.initialPosToken === BigInt(0)) {
+      return undefined;
+    }
+
+    return {
+      trader: trade.trader,
+      pairIndex: Number(trade.pairIndex),
+      index: Number(trade.index),
+      initialPosToken: trade.initialPosToken,
+      positionSizeUsdc: trade.positionSizeUsdc,
+      openPrice: trade.openPrice,
+      buy: trade.buy,
+      leverage: trade.leverage,
+      tp: trade.tp,
+      sl: trade.sl
+    };
+  }
+
+  /**
+   * Calls a view function.
+   *
+   * @param contract - Contract interface
+   * @param to - Contract address
+   * @param method - Function name
+   * @param args - Function arguments
+   * @returns Promise resolving to the decoded result
+   */
+  private async read(contract: Interface, to: string, method: string, args: unknown[]) {
+    const result = await this.provider.call({ to, data: contract.encodeFunctionData(method, args) });
+    return contract.decodeFunctionResult(method, result);
+  }
+
+  /**
+   * Checks that a wallet is the trader this service trades for.
+   *
+   * @param wallet - Wallet given by the caller
+   * @returns Trader address
+   * @throws Error if the wallet is another one
+   */
+  private traderOf(wallet: SecureWallet): string {
+    if (getAddress(wallet.address) !== this.trader) {
+      throw new Error(`Wallet ${wallet.address} is not the Avantis trader ${this.trader}`);
+    }
+    return this.trader;
+  }
+
+  /**
+   * Gets the Avantis index of a pair.
+   *
+   * @param pair - Trading pair
+   * @returns Pair index
+   * @throws Error if the pair is not listed
+   */
+  private getPairIndex(pair: string): number {
+    const index = this.pairIndexes[normalizePair(pair)];
+    if (index === undefined) {
+      throw new Error(`Pair ${pair} is not listed on Avantis`);
+    }
+    return index;
+  }
+}
+
+/**
+ * Parameters of a market order opening a position
+ */
+type OpenParams = Parameters<PerpetualService['openShort']>[0];
+
+/**
+ * Opened position, with the trade slot it was filled in
+ */
+type OpenResult = Awaited<ReturnType<PerpetualService['openShort']>>;
+
+/**
+ * Converts a decimal USDC amount to base units, dropping digits beyond them
+ */
+function toUsdc(amount: string): bigint {
+  return parseUnits(truncateDecimals(amount, USDC_DECIMALS), USDC_DECIMALS);
+}
+
+/**
+ * Drops the fraction digits of a decimal string beyond the given number
+ */
+function truncateDecimals(value: string, decimals: number): string {
+  const [whole, fraction = ''] = value.split('.');
+  return fraction ? `${whole}.${fraction.slice(0, decimals)}` : whole;
+}
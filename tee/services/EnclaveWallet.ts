@@ -0,0 +1,245 @@
+import { Interface, JsonRpcProvider, Provider, TransactionRequest, Wallet, getAddress } from 'ethers';
+import { NetworkConfig, SecureWallet, TypedDataDomain, TypedDataField, WalletTransaction } from '../executor/ExecutionContext';
+import { getLogger } from '../executor/Tracer';
+
+/** Error code of a wallet whose key cannot be loaded or does not match */
+export const WALLET_KEY_UNAVAILABLE = 'WALLET_KEY_UNAVAILABLE';
+
+/** Secret set by the app developer, provisioned to every task of the app */
+export const APP_SECRET_VARIABLE = 'IEXEC_APP_DEVELOPER_SECRET';
+
+/** Prefix of the secrets a requester provisions to their task, numbered from 1 */
+export const REQUESTER_SECRET_PREFIX = 'IEXEC_REQUESTER_SECRET_';
+
+/**
+ * iExec secret the wallet key is loaded from:
+ * - 'app': the app developer secret
+ * - 'requester': the requester secret with the given index
+ */
+export type WalletKeySource = { secret: 'app' } | { secret: 'requester'; index: number };
+
+/**
+ * Raised when the wallet key cannot be used. The message names the secret,
+ * never its value.
+ */
+export class WalletKeyError extends Error {
+  readonly code = WALLET_KEY_UNAVAILABLE;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'WalletKeyError';
+  }
+}
+
+/** ERC-20 functions the wallet reads */
+const ERC20 = new Interface(['function balanceOf(address owner) view returns (uint256)']);
+
+const log = getLogger('Wallet');
+
+/**
+ * Reads the wallet key from its iExec secret.
+ *
+ * The secret holds a 32-byte hex private key, with or without the 0x
+ * prefix. It is removed from the environment once read, so that nothing
+ * else running in the enclave can read it later.
+ *
+ * @param source - Secret holding the key
+ * @param env - Environment the secrets are provisioned in (default: process.env)
+ * @returns 0x-prefixed private key
+ * @throws WalletKeyError if the secret is missing or is not a private key
+ */
+export function readWalletKey(source: WalletKeySource, env: Record<string, string | undefined> = process.env): string {
+  const variable = secretVariable(source);
+  const secret = env[variable]?.trim();
+  delete env[variable];
+
+  if (!secret) {
+    throw new WalletKeyError(`Wallet key secret ${variable} is not set`);
+  }
+
+  const key = secret.startsWith('0x') ? secret.slice(2) : secret;
+  if (!/^[0-9a-fA-F]{64}$/.test(key)) {
+    throw new WalletKeyError(`Wallet key secret ${variable} is not a 32-byte hex private key`);
+  }
+
+  return `0x${key}`;
+}
+
+/**
+ * Options for connecting an EnclaveWallet
+ */
+export interface EnclaveWalletOptions {
+  /** Network the wallet reads and signs for */
+  network: NetworkConfig;
+  /** Address the key is expected to control (from the task input) */
+  address: string;
+  /** Secret holding the key */
+  key: WalletKeySource;
+  /** Environment the secrets are provisioned in (default: process.env) */
+  env?: Record<string, string | undefined>;
+}
+
+/**
+ * EnclaveWallet is the SecureWallet of a TEE task.
+ *
+ * It holds the private key of the task's wallet, loaded from an iExec secret
+ * that only the enclave can read. Transactions are signed as EIP-1559
+ * (type 2) transactions for the configured chain; the fields a transaction
+ * leaves unset are read from the network over `NetworkConfig.rpcUrl`.
+ *
+ * The key is kept in a private class field: it is not an own enumerable
+ * property, so it never appears when the wallet is serialized, logged or
+ * inspected, and it is never part of an error message.
+ *
+ * @example
+ * ```typescript
+ * const wallet = await EnclaveWallet.connect({
+ *   network,
+ *   address: input.wallet.address,
+ *   key: { secret: 'requester', index: 1 }
+ * });
+ *
+ * const signed = await wallet.signTransaction({ to: recipient, value: '1000' });
+ * const usdc = await wallet.getBalance(network.tokens?.USDC?.address);
+ * ```
+ */
+export class EnclaveWallet implements SecureWallet {
+  /** Address controlled by the key */
+  readonly address: string;
+
+  /** Chain ID transactions are signed for */
+  private readonly chainId: number;
+
+  /** Node the wallet reads balances, nonces and fees from (shared with the transaction manager) */
+  readonly provider: Provider;
+
+  /** Signer holding the private key */
+  readonly #signer: Wallet;
+
+  /**
+   * Creates a wallet from a private key.
+   *
+   * @param privateKey - 0x-prefixed private key (see readWalletKey)
+   * @param provider - Node of the network the wallet is used on
+   * @param chainId - Chain ID of that network
+   */
+  constructor(privateKey: string, provider: Provider, chainId: number) {
+    this.#signer = new Wallet(privateKey);
+    this.address = this.#signer.address;
+    this.provider = provider;
+    this.chainId = chainId;
+  }
+
+  /**
+   * Loads the wallet key from its secret and connects it to the network.
+   *
+   * @param options - Network, expected address and key secret
+   * @returns Connected wallet
+   * @throws WalletKeyError if the key is unavailable or controls another address
+   * @throws Error if the RPC endpoint serves another chain than `network.chainId`
+   */
+  static async connect(options: EnclaveWalletOptions): Promise<EnclaveWallet> {
+    const { network, key } = options;
+    const privateKey = readWalletKey(key, options.env);
+
+    const provider = new JsonRpcProvider(network.rpcUrl, network.chainId, { staticNetwork: true });
+    const wallet = new EnclaveWallet(privateKey, provider, network.chainId);
+
+    if (wallet.address !== getAddress(options.address)) {
+      throw new WalletKeyError(`Wallet key does not control the wallet address ${options.address}`);
+    }
+
+    const rpcChainId = Number(await provider.send('eth_chainId', []));
+    if (rpcChainId !== network.chainId) {
+      throw new Error(`RPC endpoint serves chain ${rpcChainId}, expected chain ${network.chainId}`);
+    }
+
+    log.info('Wallet connected', { address: wallet.address, chainId: network.chainId, keySource: secretVariable(key) });
+    return wallet;
+  }
+
+  /**
+   * Signs an EIP-1559 transaction.
+   *
+   * Unset fields are filled in from the network: the pending nonce of the
+   * wallet, the gas limit the node estimates, and the node's current fee data.
+   *
+   * @param transaction - Transaction to sign
+   * @returns Serialized signed transaction, ready to broadcast
+   * @throws Error if the network does not report EIP-1559 fees
+   */
+  async signTransaction(transaction: WalletTransaction): Promise<string> {
+    const call = {
+      from: this.address,
+      to: transaction.to,
+      data: transaction.data ?? '0x',
+      value: transaction.value ?? '0'
+    };
+
+    const request: TransactionRequest = {
+      ...call,
+      type: 2,
+      chainId: this.chainId,
+      nonce: transaction.nonce ?? await this.provider.getTransactionCount(this.address, 'pending'),
+      gasLimit: transaction.gasLimit ?? await this.provider.estimateGas(call),
+      maxFeePerGas: transaction.maxFeePerGas,
+      maxPriorityFeePerGas: transaction.maxPriorityFeePerGas
+    };
+
+    if (request.maxFeePerGas === undefined || request.maxPriorityFeePerGas === undefined) {
+      const fees = await this.provider.getFeeData();
+      if (fees.maxFeePerGas === null || fees.maxPriorityFeePerGas === null) {
+        throw new Error(`Chain ${this.chainId} does not report EIP-1559 fees`);
+      }
+      request.maxFeePerGas ??= fees.maxFeePerGas;
+      request.maxPriorityFeePerGas ??= fees.maxPriorityFeePerGas;
+    }
+
+    return this.#signer.signTransaction(request);
+  }
+
+  /**
+   * Signs EIP-712 typed data, such as an off-chain order.
+   *
+   * @param domain - Signing domain
+   * @param types - Struct types, without EIP712Domain
+   * @param value - Struct to sign
+   * @returns 65-byte signature
+   */
+  async signTypedData(
+    domain: TypedDataDomain,
+    types: Record<string, TypedDataField[]>,
+    value: Record<string, unknown>
+  ): Promise<string> {
+    return this.#signer.signTypedData(domain, types, value);
+  }
+
+  /**
+   * Gets the balance of the wallet.
+   *
+   * @param tokenAddress - ERC-20 token address (omit for the native token)
+   * @returns Balance in base units (wei for the native token)
+   */
+  async getBalance(tokenAddress?: string): Promise<string> {
+    if (!tokenAddress) {
+      return (await this.provider.getBalance(this.address)).toString();
+    }
+
+    const result = await this.provider.call({
+      to: tokenAddress,
+      data: ERC20.encodeFunctionData('balanceOf', [this.address])
+    });
+    const [balance] = ERC20.decodeFunctionResult('balanceOf', result);
+    return balance.toString();
+  }
+}
+
+/**
+ * Gets the environment variable an iExec secret is provisioned in.
+ *
+ * @param source - Secret holding the key
+ * @returns Variable name (e.g., 'IEXEC_REQUESTER_SECRET_1')
+ */
+function secretVariable(source: WalletKeySource): string {
+  return source.secret === 'app' ? APP_SECRET_VARIABLE : `${REQUESTER_SECRET_PREFIX}${source.index}`;
+}
@@ -0,0 +1,87 @@
+import { Clock, FeeService } from '../executor/ExecutionContext';
+import { systemClock } from '../executor/Clock';
+import { getLogger } from '../executor/Tracer';
+import { SerializedOperation } from '../schema/operationSchema';
+import { FeeEstimate, FeeEstimationOptions, RpcTransport, estimateFees } from '../schema/feeEstimation';
+
+/**
+ * Options for creating an RpcFeeService
+ */
+export interface RpcFeeServiceOptions {
+  /** RPC transport to the Base node the strategy executes on */
+  transport: RpcTransport;
+  /** Serialized operations of the strategy, in the current format */
+  operations: SerializedOperation[];
+  /** Clock the price feed answer's age is measured with (default: systemClock) */
+  clock?: Clock;
+  /** Contract addresses and price freshness (default: Base mainnet, one hour) */
+  estimation?: Omit<FeeEstimationOptions, 'now'>;
+}
+
+const log = getLogger('Fees');
+
+/**
+ * RpcFeeService is the FeeService of a TEE task.
+ *
+ * It estimates the fees of the strategy being executed with the estimator
+ * the frontend shows its cost estimate with (see tee/schema/feeEstimation.ts),
+ * reading the fees and the ETH price when asked, so that profitability is
+ * checked against what executing costs at that moment.
+ *
+ * @example
+ * ```typescript
+ * const fees = new RpcFeeService({
+ *   transport: createFetchTransport(network.rpcUrl),
+ *   operations: strategy.operations
+ * });
+ *
+ * const { totalFeeUSD } = await fees.estimateStrategyFees();
+ * ```
+ */
+export class RpcFeeService implements FeeService {
+  /** RPC transport to the node */
+  private readonly transport: RpcTransport;
+
+  /** Operations whose transactions are priced */
+  private readonly operations: SerializedOperation[];
+
+  /** Clock for the price age */
+  private readonly clock: Clock;
+
+  /** Contract addresses and price freshness */
+  private readonly estimation: Omit<FeeEstimationOptions, 'now'>;
+
+  /**
+   * Creates a fee service for a strategy.
+   *
+   * @param options - Transport, operations and estimation options
+   */
+  constructor(options: RpcFeeServiceOptions) {
+    this.transport = options.transport;
+    this.operations = options.operations;
+    this.clock = options.clock ?? systemClock;
+    this.estimation = options.estimation ?? {};
+  }
+
+  /**
+   * Estimates the network fees of executing the strategy.
+   *
+   * @returns Promise resolving to the fee estimate
+   * @throws Error if the fees or the ETH price cannot be read
+   */
+  async estimateStrategyFees(): Promise<FeeEstimate> {
+    const estimate = await estimateFees(this.transport, this.operations, {
+      ...this.estimation,
+      now: () => this.clock.now()
+    });
+
+    log.info('Fees estimated', {
+      transactions: estimate.operations.length,
+      gasUnits: estimate.gasUnits,
+      baseFeePerGas: estimate.baseFeePerGas,
+      totalFeeWei: estimate.totalFeeWei,
+      totalFeeUSD: estimate.totalFeeUSD.toFixed(4)
+    });
+    return estimate;
+  }
+}
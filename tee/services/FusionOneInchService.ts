@@ -0,0 +1,897 @@
+import {
+  Interface,
+  Provider,
+  TypedDataEncoder,
+  ZeroAddress,
+  concat,
+  dataLength,
+  formatUnits,
+  getAddress,
+  keccak256,
+  parseUnits,
+  randomBytes,
+  solidityPacked,
+  toBeHex,
+  toBigInt
+} from 'ethers';
+import {
+  Clock,
+  NetworkConfig,
+  OneInchService,
+  SecureWallet,
+  TransactionManager,
+  TypedDataField
+} from '../executor/ExecutionContext';
+import { systemClock, pollUntil } from '../executor/Clock';
+import { getLogger } from '../executor/Tracer';
+import { DEFAULT_PAIR_INDEXES, encodePrecise, normalizePair } from './AvantisPerpetualService';
+
+/** Public 1inch API, which requires a Dev Portal API key */
+export const DEFAULT_FUSION_API_URL = 'https://api.1inch.dev';
+
+/** 1inch Limit Order Protocol v4 (Aggregation Router v6), the contract Fusion orders are signed for */
+export const FUSION_LIMIT_ORDER_PROTOCOL = '0x111111125421cA6dc452d289314280a0f8842A65';
+
+/** EIP-712 type of a Limit Order Protocol v4 order */
+export const FUSION_ORDER_TYPES: Record<string, TypedDataField[]> = {
+  Order: [
+    { name: 'salt', type: 'uint256' },
+    { name: 'maker', type: 'address' },
+    { name: 'receiver', type: 'address' },
+    { name: 'makerAsset', type: 'address' },
+    { name: 'takerAsset', type: 'address' },
+    { name: 'makingAmount', type: 'uint256' },
+    { name: 'takingAmount', type: 'uint256' },
+    { name: 'makerTraits', type: 'uint256' }
+  ]
+};
+
+/**
+ * Predicates are static calls made by the Limit Order Protocol; a predicate
+ * holds when the first word the call returns is 1.
+ */
+export const LIMIT_ORDER_PROTOCOL = new Interface([
+  'function arbitraryStaticCall(address target, bytes data) view returns (uint256)'
+]);
+
+/** See contracts/AvantisPositionPredicate.sol */
+export const AVANTIS_POSITION_PREDICATE = new Interface([
+  'function checkShortPositionConfirmed(address trader, uint256 pairIndex, uint256 tradeIndex, uint256 expectedOpenPrice) ' +
+    'view returns (bool canExecute, uint256 actualOpenPrice)'
+]);
+
+/** Default delay between two order status checks, in milliseconds */
+export const DEFAULT_ORDER_POLL_INTERVAL_MS = 3000;
+
+/** Default lifetime of a limit order, in seconds */
+export const DEFAULT_LIMIT_ORDER_TTL_SECONDS = 24 * 60 * 60;
+
+/** Token swapped against the assets */
+const QUOTE_TOKEN = 'USDC';
+
+/** Decimals prices are parsed with */
+const PRICE_DECIMALS = 18;
+
+/** Decimals execution prices are reported with */
+const REPORTED_PRICE_DECIMALS = 8;
+
+/** Maker traits flags and fields (Limit Order Protocol v4 MakerTraitsLib) */
+const NO_PARTIAL_FILLS_FLAG = BigInt(1) << BigInt(255);
+const ALLOW_MULTIPLE_FILLS_FLAG = BigInt(1) << BigInt(254);
+const POST_INTERACTION_CALL_FLAG = BigInt(1) << BigInt(251);
+const HAS_EXTENSION_FLAG = BigInt(1) << BigInt(249);
+const EXPIRATION_OFFSET = BigInt(80);
+const NONCE_OFFSET = BigInt(120);
+
+/** Lower 160 bits of the salt, which hold the extension hash */
+const SALT_EXTENSION_MASK = (BigInt(1) << BigInt(160)) - BigInt(1);
+
+/** ERC-20 functions used to let the Limit Order Protocol take the maker asset */
+const ERC20 = new Interface([
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function approve(address spender, uint256 amount) returns (bool)'
+]);
+
+/**
+ * Request to the 1inch Fusion API
+ */
+export interface FusionRequest {
+  method: 'GET' | 'POST';
+  /** Path from the API root (e.g., '/fusion/quoter/v2.0/8453/quote/receive') */
+  path: string;
+  query?: Record<string, string>;
+  /** JSON body */
+  body?: unknown;
+}
+
+/**
+ * Sends a request to the Fusion API and resolves to its parsed JSON response
+ * (undefined for empty responses). Fails on HTTP errors.
+ */
+export type FusionTransport = (request: FusionRequest) => Promise<unknown>;
+
+/** Auction speed presets the quoter offers */
+export type FusionPresetName = 'fast' | 'medium' | 'slow' | 'custom';
+
+/**
+ * Dutch auction of a Fusion order: the taker must give
+ * `auctionStartAmount` when it starts, decreasing to `auctionEndAmount`
+ */
+export interface FusionAuctionPreset {
+  /** Auction duration, in seconds */
+  auctionDuration: number;
+  /** Delay before the auction starts, in seconds */
+  startAuctionIn: number;
+  /** Rate bump at the start of the auction, in 1e7 units */
+  initialRateBump: number;
+  auctionStartAmount: string;
+  auctionEndAmount: string;
+  /** Intermediate points of the rate bump curve */
+  points: { delay: number; coefficient: number }[];
+  allowPartialFills: boolean;
+  allowMultipleFills: boolean;
+  /** Estimates resolvers adjust the rate with when gas prices move */
+  gasCost?: { gasBumpEstimate: number; gasPriceEstimate: string };
+}
+
+/**
+ * Quote of the Fusion quoter (the fields the service uses)
+ */
+export interface FusionQuote {
+  quoteId: string;
+  fromTokenAmount: string;
+  toTokenAmount: string;
+  presets: Partial<Record<FusionPresetName, FusionAuctionPreset>>;
+  recommended_preset: FusionPresetName;
+  /** Settlement contract resolvers fill through */
+  settlementAddress: string;
+  /** Resolvers allowed to fill */
+  whitelist: string[];
+  priceImpactPercent?: number;
+}
+
+/**
+ * Limit Order Protocol v4 order, with amounts and traits as decimal strings
+ */
+export interface FusionLimitOrder {
+  salt: string;
+  maker: string;
+  receiver: string;
+  makerAsset: string;
+  takerAsset: string;
+  makingAmount: string;
+  takingAmount: string;
+  makerTraits: string;
+}
+
+/**
+ * Status of a submitted order:
+ * - 'pending', 'partially-filled': resolvers may still fill it
+ * - 'false-predicate': its predicate does not hold yet
+ * - 'filled', 'expired', 'cancelled': final
+ * - 'not-enough-balance-or-allowance', 'wrong-permit', 'invalid-signature': rejected
+ */
+export type FusionOrderStatus =
+  | 'pending'
+  | 'partially-filled'
+  | 'false-predicate'
+  | 'filled'
+  | 'expired'
+  | 'cancelled'
+  | 'not-enough-balance-or-allowance'
+  | 'wrong-permit'
+  | 'invalid-signature';
+
+/**
+ * Fill of an order by a resolver
+ */
+export interface FusionOrderFill {
+  txHash: string;
+  /** Maker asset taken, in base units */
+  filledMakerAmount: string;
+  /** Taker asset given, in base units */
+  filledAuctionTakerAmount: string;
+}
+
+/**
+ * Order status reported by the orders API
+ */
+export interface FusionOrderState {
+  orderHash: string;
+  status: FusionOrderStatus;
+  fills: FusionOrderFill[];
+}
+
+/** Statuses of orders that may still fill */
+const OPEN_ORDER_STATUSES: readonly FusionOrderStatus[] = ['pending', 'partially-filled', 'false-predicate'];
+
+/**
+ * Why a Fusion swap did not complete:
+ * - 'FUSION_QUOTE_UNAVAILABLE': the quoter returned no route
+ * - 'FUSION_ORDER_EXPIRED': the order expired without any fill
+ * - 'FUSION_ORDER_FAILED': the order was cancelled or rejected
+ * - 'FUSION_WAIT_CANCELLED': the swap was cancelled while the order was open; it may still fill
+ */
+export type FusionErrorCode =
+  | 'FUSION_QUOTE_UNAVAILABLE'
+  | 'FUSION_ORDER_EXPIRED'
+  | 'FUSION_ORDER_FAILED'
+  | 'FUSION_WAIT_CANCELLED';
+
+/**
+ * Raised when a Fusion swap does not complete. Carries the order hash once
+ * the order was submitted.
+ */
+export class FusionError extends Error {
+  constructor(
+    readonly code: FusionErrorCode,
+    message: string,
+    readonly orderHash?: string
+  ) {
+    super(message);
+    this.name = 'FusionError';
+  }
+}
+
+/**
+ * Options of a FusionOneInchService
+ */
+export interface FusionOneInchServiceOptions {
+  /** Fusion API transport (see createFusionFetchTransport) */
+  transport: FusionTransport;
+  /** Chain the orders are placed on */
+  chainId: number;
+  /** Node allowances are read from */
+  provider: Provider;
+  /** Sends token approvals */
+  transactions: TransactionManager;
+  /** Tokens by symbol; must list USDC and the traded assets */
+  tokens: NonNullable<NetworkConfig['tokens']>;
+  /** Limit Order Protocol (default: FUSION_LIMIT_ORDER_PROTOCOL) */
+  limitOrderProtocol?: string;
+  /** AvantisPositionPredicate conditioning hedging orders (default: none, orders are unconditional) */
+  positionPredicate?: string;
+  /** Avantis pair indexes, for the predicate (default: DEFAULT_PAIR_INDEXES) */
+  pairIndexes?: Record<string, number>;
+  /** Auction preset of market orders (default: the quoter's recommendation) */
+  preset?: FusionPresetName;
+  /** Lifetime of limit orders, in seconds (default: DEFAULT_LIMIT_ORDER_TTL_SECONDS) */
+  limitOrderTtlSeconds?: number;
+  /** Delay between two status checks (default: DEFAULT_ORDER_POLL_INTERVAL_MS) */
+  pollIntervalMs?: number;
+  /** Time source for auctions and polling (default: system clock) */
+  clock?: Clock;
+}
+
+/**
+ * Spot token, with the symbol it is configured under
+ */
+export interface SpotToken {
+  symbol: string;
+  address: string;
+  decimals: number;
+}
+
+type SwapParams = Parameters<OneInchService['executeFusionSwap']>[0];
+type SwapResult = Awaited<ReturnType<OneInchService['executeFusionSwap']>>;
+
+const log = getLogger('Fusion');
+
+/**
+ * Creates a transport to the Fusion API over fetch.
+ *
+ * @param baseUrl - API root (e.g., DEFAULT_FUSION_API_URL or a proxy)
+ * @param apiKey - 1inch Dev Portal API key, sent as a bearer token (omit behind a proxy adding it)
+ * @returns Transport
+ */
+export function createFusionFetchTransport(baseUrl: string, apiKey?: string): FusionTransport {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  return async ({ method, path, query, body }) => {
+    const search = query ? `?${new URLSearchParams(query)}` : '';
+    const response = await fetch(`${root}${path}${search}`, {
+      method,
+      headers: {
+        Accept: 'application/json',
+        ...(body !== undefined && { 'Content-Type': 'application/json' }),
+        ...(apiKey && { Authorization: `Bearer ${apiKey}` })
+      },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+
+    const text = await response.text();
+    if (!response.ok) {
+      const description = text ? `: ${(JSON.parse(text) as { description?: string }).description ?? text}` : '';
+      throw new Error(`Fusion API ${method} ${path} failed with HTTP ${response.status}${description}`);
+    }
+    return text ? JSON.parse(text) : undefined;
+  };
+}
+
+/**
+ * Encodes a Limit Order Protocol v4 extension: a word of cumulative field
+ * end offsets (one uint32 per field, first field in the lowest bits),
+ * followed by the fields.
+ *
+ * @param fields - makerAssetSuffix, takerAssetSuffix, makingAmountData,
+ *   takingAmountData, predicate, makerPermit, preInteraction, postInteraction
+ * @returns Encoded extension ('0x' when every field is empty)
+ */
+export function encodeExtension(fields: string[]): string {
+  let end = 0;
+  let offsets = BigInt(0);
+  fields.forEach((field, index) => {
+    end += dataLength(field);
+    offsets |= BigInt(end) << BigInt(32 * index);
+  });
+
+  return end === 0 ? '0x' : concat([toBeHex(offsets, 32), ...fields]);
+}
+
+/**
+ * FusionOneInchService swaps spot assets against USDC through 1inch Fusion,
+ * for the TEE execution context.
+ *
+ * A swap is an off-chain order that resolvers fill on-chain:
+ * 1. The quoter prices the swap and proposes auction presets.
+ * 2. The order is built locally as a Limit Order Protocol v4 order whose
+ *    extension carries the settlement's auction and resolver whitelist, and,
+ *    for orders hedging an Avantis short, the AvantisPositionPredicate call.
+ * 3. The maker asset is approved to the Limit Order Protocol, unless the
+ *    allowance covers it, and the order is signed (EIP-712) by the wallet.
+ * 4. The order is submitted to the relayer.
+ * 5. Market orders are followed until they are filled or expire; limit
+ *    orders are left to resolvers and reported by their order hash.
+ *
+ * The Fusion API is reached through a pluggable transport, so that the
+ * service can talk to the 1inch API, a proxy holding the API key, or a local
+ * stand-in.
+ *
+ * @example
+ * ```typescript
+ * const fusion = new FusionOneInchService({
+ *   transport: createFusionFetchTransport(DEFAULT_FUSION_API_URL, apiKey),
+ *   chainId: 8453,
+ *   provider: wallet.provider,
+ *   transactions,
+ *   tokens: network.tokens
+ * });
+ *
+ * const { amountReceived, executionPrice } = await fusion.executeFusionSwap({
+ *   asset: 'WETH', side: 'buy', amount: '500', orderType: 'market', wallet, slippage: 0.5
+ * });
+ * ```
+ */
+export class FusionOneInchService implements OneInchService {
+  /** Fusion API transport */
+  private readonly transport: FusionTransport;
+
+  /** Chain the orders are placed on */
+  private readonly chainId: number;
+
+  /** Node allowances are read from */
+  private readonly provider: Provider;
+
+  /** Sends approvals */
+  private readonly transactions: TransactionManager;
+
+  /** Tokens by symbol */
+  private readonly tokens: NonNullable<NetworkConfig['tokens']>;
+
+  /** Contract the orders are signed for and approvals given to */
+  private readonly limitOrderProtocol: string;
+
+  /** AvantisPositionPredicate, if hedging orders are conditional */
+  private readonly positionPredicate?: string;
+
+  /** Avantis pair indexes by normalized pair */
+  private readonly pairIndexes: Record<string, number>;
+
+  /** Auction preset of market orders */
+  private readonly preset?: FusionPresetName;
+
+  /** Lifetime of limit orders, in seconds */
+  private readonly limitOrderTtlSeconds: number;
+
+  /** Delay between two status checks */
+  private readonly pollIntervalMs: number;
+
+  /** Time source */
+  private readonly clock: Clock;
+
+  /**
+   * Creates a Fusion client.
+   *
+   * @param options - Transport, chain, tokens and order settings
+   */
+  constructor(options: FusionOneInchServiceOptions) {
+    this.transport = options.transport;
+    this.chainId = options.chainId;
+    this.provider = options.provider;
+    this.transactions = options.transactions;
+    this.tokens = options.tokens;
+    this.limitOrderProtocol = getAddress(options.limitOrderProtocol ?? FUSION_LIMIT_ORDER_PROTOCOL);
+    this.positionPredicate = options.positionPredicate;
+    this.pairIndexes = { ...DEFAULT_PAIR_INDEXES, ...options.pairIndexes };
+    this.preset = options.preset;
+    this.limitOrderTtlSeconds = options.limitOrderTtlSeconds ?? DEFAULT_LIMIT_ORDER_TTL_SECONDS;
+    this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_ORDER_POLL_INTERVAL_MS;
+    this.clock = options.clock ?? systemClock;
+  }
+
+  /**
+   * Swaps through a Fusion order.
+   *
+   * Market orders accept the quoted amount less `slippage` percent (and, for
+   * sells, no less than `minPrice`), and resolve once filled. Limit orders
+   * ask for the amount at `targetPrice` (or `minPrice` for sells) and
+   * resolve once submitted, with the expected amount.
+   *
+   * @param params - Swap parameters
+   * @returns Promise resolving to the fill (market) or the submitted order (limit)
+   * @throws FusionError if there is no quote, or a market order expires unfilled or is rejected
+   */
+  async executeFusionSwap(params: SwapParams): Promise<SwapResult> {
+    const side = params.side ?? 'buy';
+    const asset = this.getToken(params.asset);
+    const usdc = this.getToken(QUOTE_TOKEN);
+    const [from, to] = side === 'buy' ? [usdc, asset] : [asset, usdc];
+    const maker = getAddress(params.wallet.address);
+    const makingAmount = parseUnits(truncateDecimals(params.amount, from.decimals), from.decimals);
+
+    const quote = await this.quote(from, to, makingAmount, maker);
+    const preset = this.selectPreset(quote);
+    const now = Math.floor(this.clock.now() / 1000);
+
+    let takingAmount: bigint;
+    let auction: FusionAuctionPreset;
+    let limitPrice: string | undefined;
+    if (params.orderType === 'limit') {
+      limitPrice = side === 'buy' ? params.targetPrice : params.targetPrice ?? params.minPrice;
+      if (limitPrice === undefined) {
+        throw new Error('Limit orders need a target price');
+      }
+      takingAmount = convertAtPrice(makingAmount, limitPrice, side, from, to);
+      // A flat auction for the order's lifetime: resolvers fill at the limit or better
+      auction = { ...preset, auctionDuration: this.limitOrderTtlSeconds, startAuctionIn: 0, initialRateBump: 0, points: [] };
+    } else {
+      const slippageBps = BigInt(Math.round(params.slippage * 100));
+      takingAmount = toBigInt(quote.toTokenAmount) * (BigInt(10000) - slippageBps) / BigInt(10000);
+      if (side === 'sell' && params.minPrice !== undefined) {
+        takingAmount = max(takingAmount, convertAtPrice(makingAmount, params.minPrice, side, from, to));
+      }
+      takingAmount = max(takingAmount, toBigInt(preset.auctionEndAmount));
+      auction = preset;
+    }
+
+    await this.approve(from, maker, makingAmount);
+
+    const predicate = this.encodePredicate(params);
+    const startTime = now + auction.startAuctionIn;
+    const expiration = startTime + auction.auctionDuration;
+    const { order, extension } = this.buildOrder({
+      maker,
+      from,
+      to,
+      makingAmount,
+      takingAmount,
+      quote,
+      auction,
+      startTime,
+      expiration,
+      predicate
+    });
+
+    const orderHash = await this.submit(order, extension, quote.quoteId, params.wallet);
+    log.info('Fusion order submitted', {
+      orderHash,
+      side,
+      asset: params.asset,
+      orderType: params.orderType,
+      conditional: predicate !== '0x'
+    });
+
+    if (params.orderType === 'limit') {
+      return {
+        amountReceived: formatUnits(takingAmount, to.decimals),
+        executionPrice: limitPrice,
+        fusionOrderId: orderHash
+      };
+    }
+
+    const state = await this.waitForOrder(orderHash, expiration, params.signal);
+    const made = state.fills.reduce((sum, fill) => sum + toBigInt(fill.filledMakerAmount), BigInt(0));
+    const received = state.fills.reduce((sum, fill) => sum + toBigInt(fill.filledAuctionTakerAmount), BigInt(0));
+    const [assetAmount, usdcAmount] = side === 'buy' ? [received, made] : [made, received];
+
+    if (state.status !== 'filled') {
+      log.warn('Fusion order partially filled', { orderHash, status: state.status, filledMakerAmount: made.toString() });
+    }
+
+    return {
+      amountReceived: formatUnits(received, to.decimals),
+      executionPrice: formatPrice(usdcAmount, usdc, assetAmount, asset),
+      transactionHash: state.fills[state.fills.length - 1].txHash,
+      fusionOrderId: orderHash
+    };
+  }
+
+  /**
+   * Quotes a swap without placing an order.
+   *
+   * @param params - Asset, direction and amount (as in executeFusionSwap)
+   * @returns Promise resolving to the quoted output and price impact
+   * @throws FusionError if the quoter returns no route
+   */
+  async getQuote(params: { asset: string; side: 'buy' | 'sell'; amount: string }): Promise<{
+    amountOut: string;
+    priceImpact: number;
+  }> {
+    const asset = this.getToken(params.asset);
+    const usdc = this.getToken(QUOTE_TOKEN);
+    const [from, to] = params.side === 'buy' ? [usdc, asset] : [asset, usdc];
+    const amount = parseUnits(truncateDecimals(params.amount, from.decimals), from.decimals);
+
+    const quote = await this.quote(from, to, amount, ZeroAddress);
+    return {
+      amountOut: formatUnits(quote.toTokenAmount, to.decimals),
+      priceImpact: quote.priceImpactPercent ?? 0
+    };
+  }
+
+  /**
+   * Gets the status of a submitted order.
+   *
+   * @param orderHash - Order hash (the fusionOrderId of a swap)
+   * @returns Promise resolving to the order's status and fills
+   */
+  async getOrderStatus(orderHash: string): Promise<FusionOrderState> {
+    return await this.transport({
+      method: 'GET',
+      path: `/fusion/orders/v2.0/${this.chainId}/order/status/${orderHash}`
+    }) as FusionOrderState;
+  }
+
+  /**
+   * Asks the quoter for a route.
+   *
+   * @param from - Maker token
+   * @param to - Taker token
+   * @param amount - Maker amount, in base units
+   * @param walletAddress - Maker address
+   * @returns Promise resolving to the quote
+   * @throws FusionError if the quoter returns no route
+   */
+  private async quote(from: SpotToken, to: SpotToken, amount: bigint, walletAddress: string): Promise<FusionQuote> {
+    let quote: FusionQuote | undefined;
+    try {
+      quote = await this.transport({
+        method: 'GET',
+        path: `/fusion/quoter/v2.0/${this.chainId}/quote/receive`,
+        query: {
+          fromTokenAddress: from.address,
+          toTokenAddress: to.address,
+          amount: amount.toString(),
+          walletAddress,
+          enableEstimate: 'true'
+        }
+      }) as FusionQuote | undefined;
+    } catch (error) {
+      throw new FusionError(
+        'FUSION_QUOTE_UNAVAILABLE',
+        `No Fusion quote for ${from.symbol} -> ${to.symbol}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    if (!quote?.quoteId || toBigInt(quote.toTokenAmount ?? 0) === BigInt(0)) {
+      throw new FusionError('FUSION_QUOTE_UNAVAILABLE', `No Fusion quote for ${from.symbol} -> ${to.symbol}`);
+    }
+    return quote;
+  }
+
+  /**
+   * Picks the auction preset of market orders.
+   *
+   * @param quote - Quote offering the presets
+   * @returns The configured preset, or else the recommended one
+   * @throws FusionError if the quote offers neither
+   */
+  private selectPreset(quote: FusionQuote): FusionAuctionPreset {
+    const preset = quote.presets[this.preset ?? quote.recommended_preset] ?? quote.presets[quote.recommended_preset];
+    if (!preset) {
+      throw new FusionError('FUSION_QUOTE_UNAVAILABLE', `Fusion quote ${quote.quoteId} offers no auction preset`);
+    }
+    return preset;
+  }
+
+  /**
+   * Approves the Limit Order Protocol to take the maker asset, unless it already may.
+   *
+   * @param token - Maker token
+   * @param owner - Maker address
+   * @param amount - Maker amount, in base units
+   */
+  private async approve(token: SpotToken, owner: string, amount: bigint): Promise<void> {
+    const result = await this.provider.call({
+      to: token.address,
+      data: ERC20.encodeFunctionData('allowance', [owner, this.limitOrderProtocol])
+    });
+    const [allowance] = ERC20.decodeFunctionResult('allowance', result);
+    if (allowance >= amount) {
+      return;
+    }
+
+    const receipt = await this.transactions.send({
+      to: token.address,
+      data: ERC20.encodeFunctionData('approve', [this.limitOrderProtocol, amount])
+    });
+    if (receipt.status === 'reverted') {
+      throw new Error(`approve transaction ${receipt.transactionHash} reverted`);
+    }
+  }
+
+  /**
+   * Encodes the predicate of an order hedging an Avantis short: a static
+   * call to AvantisPositionPredicate.checkShortPositionConfirmed, made by
+   * the Limit Order Protocol.
+   *
+   * @param params - Swap parameters
+   * @returns Predicate, or '0x' if the order is unconditional
+   */
+  private encodePredicate(params: SwapParams): string {
+    const { shortPosition } = params;
+    if (!shortPosition) {
+      return '0x';
+    }
+    if (!this.positionPredicate) {
+      log.warn('No position predicate configured; the order does not wait for the short', { pair: shortPosition.pair });
+      return '0x';
+    }
+
+    const pairIndex = this.pairIndexes[normalizePair(shortPosition.pair)];
+    if (pairIndex === undefined) {
+      throw new Error(`Pair ${shortPosition.pair} is not listed on Avantis`);
+    }
+
+    return LIMIT_ORDER_PROTOCOL.encodeFunctionData('arbitraryStaticCall', [
+      this.positionPredicate,
+      AVANTIS_POSITION_PREDICATE.encodeFunctionData('checkShortPositionConfirmed', [
+        getAddress(params.wallet.address),
+        pairIndex,
+        shortPosition.tradeIndex,
+        encodePrecise(shortPosition.entryPrice)
+      ])
+    ]);
+  }
+
+  /**
+   * Builds a Fusion order and its extension.
+   *
+   * The amount getters point to the settlement contract followed by the
+   * auction details; the post-interaction to the settlement contract
+   * followed by the resolving start time and resolver whitelist. The lower
+   * 160 bits of the salt are those of the extension hash, as the Limit Order
+   * Protocol requires of orders with an extension.
+   *
+   * @param params - Order parameters
+   * @returns Order and extension
+   */
+  private buildOrder(params: {
+    maker: string;
+    from: SpotToken;
+    to: SpotToken;
+    makingAmount: bigint;
+    takingAmount: bigint;
+    quote: FusionQuote;
+    auction: FusionAuctionPreset;
+    startTime: number;
+    expiration: number;
+    predicate: string;
+  }): { order: FusionLimitOrder; extension: string } {
+    const { auction, quote } = params;
+    const settlement = getAddress(quote.settlementAddress);
+
+    const auctionDetails = solidityPacked(
+      ['uint24', 'uint32', 'uint32', 'uint24', 'uint24', ...auction.points.flatMap(() => ['uint24', 'uint16'])],
+      [
+        auction.gasCost?.gasBumpEstimate ?? 0,
+        auction.gasCost?.gasPriceEstimate ?? 0,
+        params.startTime,
+        auction.auctionDuration,
+        auction.initialRateBump,
+        ...auction.points.flatMap(point => [point.coefficient, point.delay])
+      ]
+    );
+    const whitelist = solidityPacked(
+      ['uint32', 'uint8', ...quote.whitelist.flatMap(() => ['bytes10', 'uint16'])],
+      [params.startTime, quote.whitelist.length, ...quote.whitelist.flatMap(resolver => [`0x${getAddress(resolver).slice(-20)}`, 0])]
+    );
+
+    const amountGetter = concat([settlement, auctionDetails]);
+    const extension = encodeExtension([
+      '0x',
+      '0x',
+      amountGetter,
+      amountGetter,
+      params.predicate,
+      '0x',
+      '0x',
+      concat([settlement, whitelist])
+    ]);
+
+    const salt = (toBigInt(randomBytes(12)) << BigInt(160)) | (toBigInt(keccak256(extension)) & SALT_EXTENSION_MASK);
+    let makerTraits = HAS_EXTENSION_FLAG
+      | POST_INTERACTION_CALL_FLAG
+      | (BigInt(params.expiration) << EXPIRATION_OFFSET)
+      | (toBigInt(randomBytes(5)) << NONCE_OFFSET);
+    if (!auction.allowPartialFills) {
+      makerTraits |= NO_PARTIAL_FILLS_FLAG;
+    }
+    if (auction.allowMultipleFills) {
+      makerTraits |= ALLOW_MULTIPLE_FILLS_FLAG;
+    }
+
+    return {
+      order: {
+        salt: salt.toString(),
+        maker: params.maker,
+        receiver: ZeroAddress,
+        makerAsset: getAddress(params.from.address),
+        takerAsset: getAddress(params.to.address),
+        makingAmount: params.makingAmount.toString(),
+        takingAmount: params.takingAmount.toString(),
+        makerTraits: makerTraits.toString()
+      },
+      extension
+    };
+  }
+
+  /**
+   * Signs an order and submits it to the relayer.
+   *
+   * @param order - Order to sign
+   * @param extension - Order extension
+   * @param quoteId - Quote the order was built from
+   * @param wallet - Maker wallet
+   * @returns Promise resolving to the order hash
+   * @throws Error if the wallet cannot sign typed data
+   */
+  private async submit(order: FusionLimitOrder, extension: string, quoteId: string, wallet: SecureWallet): Promise<string> {
+    if (!wallet.signTypedData) {
+      throw new Error('Wallet cannot sign Fusion orders');
+    }
+
+    const domain = {
+      name: '1inch Aggregation Router',
+      version: '6',
+      chainId: this.chainId,
+      verifyingContract: this.limitOrderProtocol
+    };
+    const signature = await wallet.signTypedData(domain, FUSION_ORDER_TYPES, { ...order });
+
+    await this.transport({
+      method: 'POST',
+      path: `/fusion/relayer/v2.0/${this.chainId}/order/submit`,
+      body: { order, signature, extension, quoteId }
+    });
+    return TypedDataEncoder.hash(domain, FUSION_ORDER_TYPES, order);
+  }
+
+  /**
+   * Polls an order until it is final or expired.
+   *
+   * @param orderHash - Order hash
+   * @param expiration - Time the order expires, in seconds since the Unix epoch
+   * @param signal - Stops polling when aborted
+   * @returns Promise resolving to the state of the order, which has fills
+   * @throws FusionError if the order ended or expired without fills, or the wait was cancelled first
+   */
+  private async waitForOrder(orderHash: string, expiration: number, signal?: AbortSignal): Promise<FusionOrderState> {
+    let state: FusionOrderState | undefined;
+
+    await pollUntil(
+      this.clock,
+      {
+        timeoutMs: Math.max(expiration * 1000 - this.clock.now(), 0) + this.pollIntervalMs,
+        intervalMs: this.pollIntervalMs,
+        signal
+      },
+      async () => {
+        state = await this.getOrderStatus(orderHash);
+        return !OPEN_ORDER_STATUSES.includes(state.status);
+      }
+    );
+
+    // Fills are kept even if the order ends before filling completely
+    if (state && state.fills.length > 0) {
+      return state;
+    }
+    // A still open order may fill later, so it must not be reported as expired
+    if (signal?.aborted && (!state || OPEN_ORDER_STATUSES.includes(state.status))) {
+      throw new FusionError('FUSION_WAIT_CANCELLED', `Stopped waiting for Fusion order ${orderHash}`, orderHash);
+    }
+    if (!state || ['pending', 'false-predicate', 'expired'].includes(state.status)) {
+      throw new FusionError('FUSION_ORDER_EXPIRED', `Fusion order ${orderHash} expired unfilled`, orderHash);
+    }
+    throw new FusionError('FUSION_ORDER_FAILED', `Fusion order ${orderHash} was not filled: ${state.status}`, orderHash);
+  }
+
+  /**
+   * Gets a configured token by symbol (see findSpotToken).
+   */
+  private getToken(symbol: string): SpotToken {
+    return findSpotToken(this.tokens, symbol);
+  }
+}
+
+/**
+ * Gets a configured token by symbol. Assets may be listed as themselves
+ * or as their wrapped (W) or Coinbase-wrapped (cb) token.
+ *
+ * @param tokens - Tokens by symbol
+ * @param symbol - Asset symbol (e.g., 'ETH', 'WBTC', 'USDC')
+ * @returns Token
+ * @throws Error if the token is not configured
+ */
+export function findSpotToken(tokens: NonNullable<NetworkConfig['tokens']>, symbol: string): SpotToken {
+  for (const candidate of [symbol, `W${symbol}`, `cb${symbol}`]) {
+    const token = tokens[candidate];
+    if (token) {
+      return { symbol: candidate, ...token };
+    }
+  }
+  throw new Error(`Token ${symbol} is not configured`);
+}
+
+/**
+ * Converts an amount at a price in USDC per asset unit.
+ *
+ * @param amount - Amount of `from`, in base units
+ * @param price - Price in USDC per asset unit
+ * @param side - 'buy' when `from` is USDC, 'sell' when it is the asset
+ * @param from - Token given
+ * @param to - Token received
+ * @returns Amount of `to`, in base units, rounded down
+ */
+export function convertAtPrice(amount: bigint, price: string, side: 'buy' | 'sell', from: SpotToken, to: SpotToken): bigint {
+  const priceUnits = parseUnits(truncateDecimals(price, PRICE_DECIMALS), PRICE_DECIMALS);
+  const scale = BigInt(10) ** BigInt(PRICE_DECIMALS);
+
+  return side === 'buy'
+    ? amount * BigInt(10) ** BigInt(to.decimals) * scale / (priceUnits * BigInt(10) ** BigInt(from.decimals))
+    : amount * priceUnits * BigInt(10) ** BigInt(to.decimals) / (scale * BigInt(10) ** BigInt(from.decimals));
+}
+
+/**
+ * Formats the price a swap filled at, in USDC per asset unit.
+ *
+ * @param usdcAmount - USDC swapped, in base units
+ * @param usdc - USDC token
+ * @param assetAmount - Asset swapped, in base units
+ * @param asset - Asset token
+ * @returns Price, truncated to REPORTED_PRICE_DECIMALS decimals
+ */
+export function formatPrice(usdcAmount: bigint, usdc: SpotToken, assetAmount: bigint, asset: SpotToken): string {
+  const price = usdcAmount * BigInt(10) ** BigInt(asset.decimals + REPORTED_PRICE_DECIMALS)
+    / (assetAmount * BigInt(10) ** BigInt(usdc.decimals));
+  return formatUnits(price, REPORTED_PRICE_DECIMALS).replace(/\.0$/, '');
+}
+
+/**
+ * Drops the digits of a decimal string beyond a number of decimals.
+ *
+ * @param value - Decimal string
+ * @param decimals - Decimals kept
+ * @returns Truncated decimal string
+ */
+export function truncateDecimals(value: string, decimals: number): string {
+  const [whole, fraction = ''] = value.split('.');
+  return fraction && decimals > 0 ? `${whole}.${fraction.slice(0, decimals)}` : whole;
+}
+
+/**
+ * Gets the larger of two amounts.
+ */
+function max(a: bigint, b: bigint): bigint {
+  return a > b ? a : b;
+}
@@ -0,0 +1,368 @@
+import { Interface, Provider, Transaction, TransactionReceipt as EthersReceipt, isError } from 'ethers';
+import {
+  Clock,
+  SecureWallet,
+  SendTransactionOptions,
+  TransactionManager,
+  TransactionReceipt,
+  WalletTransaction
+} from '../executor/ExecutionContext';
+import { systemClock, pollUntil } from '../executor/Clock';
+import { describeError, getLogger } from '../executor/Tracer';
+
+/**
+ * Why a transaction did not reach its confirmations:
+ * - 'TRANSACTION_TIMEOUT': it was not final before the timeout
+ * - 'TRANSACTION_CANCELLED': waiting was aborted
+ * - 'TRANSACTION_DROPPED': another transaction was mined with its nonce
+ */
+export type TransactionErrorCode = 'TRANSACTION_TIMEOUT' | 'TRANSACTION_CANCELLED' | 'TRANSACTION_DROPPED';
+
+/**
+ * Raised when a transaction sent by the TransactionManager is not final.
+ * Carries the hashes it was broadcast under, so callers can look it up later.
+ */
+export class TransactionError extends Error {
+  constructor(
+    readonly code: TransactionErrorCode,
+    message: string,
+    readonly transactionHashes: string[]
+  ) {
+    super(message);
+    this.name = 'TransactionError';
+  }
+}
+
+/** Default delay between two receipt checks, in milliseconds (Base produces a block every 2 seconds) */
+export const DEFAULT_POLL_INTERVAL_MS = 2000;
+
+/** Default time without a receipt after which a transaction is replaced with higher fees, in milliseconds */
+export const DEFAULT_STUCK_AFTER_MS = 30 * 1000;
+
+/**
+ * Default fee increase of a replacement, as a percentage. Nodes only accept
+ * a replacement that raises both fees by at least 10%.
+ */
+export const DEFAULT_FEE_BUMP_PERCENT = 15;
+
+/** Default number of replacements before the manager only waits */
+export const DEFAULT_MAX_REPLACEMENTS = 3;
+
+/** Default time a transaction may take to be final, in milliseconds */
+export const DEFAULT_TRANSACTION_TIMEOUT_MS = 3 * 60 * 1000;
+
+/**
+ * Options of an RpcTransactionManager
+ */
+export interface RpcTransactionManagerOptions {
+  /** Node transactions are broadcast to and followed on */
+  provider: Provider;
+  /** Wallet signing the transactions */
+  wallet: SecureWallet;
+  /** Time source for polling (default: system clock) */
+  clock?: Clock;
+  /** Confirmations to wait for when send() is not given any (default: 1) */
+  confirmations?: number;
+  /** Delay between two receipt checks (default: DEFAULT_POLL_INTERVAL_MS) */
+  pollIntervalMs?: number;
+  /** Time without a receipt before replacing a transaction (default: DEFAULT_STUCK_AFTER_MS) */
+  stuckAfterMs?: number;
+  /** Fee increase of a replacement, as a percentage (default: DEFAULT_FEE_BUMP_PERCENT) */
+  feeBumpPercent?: number;
+  /** Replacements per transaction (default: DEFAULT_MAX_REPLACEMENTS) */
+  maxReplacements?: number;
+  /** Time a transaction may take to be final (default: DEFAULT_TRANSACTION_TIMEOUT_MS) */
+  timeoutMs?: number;
+}
+
+/**
+ * A broadcast transaction, followed until it is final
+ */
+interface PendingTransaction {
+  nonce: number;
+  /** Latest signed version */
+  signed: Transaction;
+  /** Hashes of every version broadcast, the original first */
+  hashes: string[];
+  /** When the latest version was broadcast */
+  broadcastAt: number;
+}
+
+/**
+ * RpcTransactionManager sends the transactions of a TEE execution over the
+ * wallet's RPC endpoint.
+ *
+ * Nonces are assigned in the order transactions are sent, from a counter
+ * initialized with the wallet's pending transaction count. Signing and
+ * broadcasting hold a lock, so concurrent operations get consecutive nonces;
+ * waiting for confirmations does not, so their transactions are mined side
+ * by side. A broadcast that fails for an unknown reason may still have
+ * reached the node, so the counter is then read again from the chain.
+ *
+ * Once broadcast, a transaction is polled for its receipt:
+ * - Without a receipt for `stuckAfterMs`, it is replaced: signed again with
+ *   the same nonce and both fees raised by `feeBumpPercent` (or to the
+ *   current network fees, if higher), up to `maxReplacements` times.
+ *   Whichever version is mined counts.
+ * - With a receipt, it waits until the receipt's block has the required
+ *   confirmations and is still the canonical block at its height. A receipt
+ *   that disappears or moves to another block (a reorg) is followed again.
+ * - If the wallet's mined nonce passes the transaction's nonce while none of
+ *   its versions has a receipt, another transaction took the nonce, and the
+ *   send fails with 'TRANSACTION_DROPPED'.
+ *
+ * @example
+ * ```typescript
+ * const transactions = new RpcTransactionManager({ provider, wallet, confirmations: 2 });
+ * const receipt = await transactions.send(
+ *   { to: router, data: swapCalldata },
+ *   { abi: ['event Swap(address indexed sender, int256 amount0, int256 amount1)'] }
+ * );
+ * // receipt.events: [{ address: router, name: 'Swap', args: { sender: '0x...', amount0: '-1000', amount1: '2000' } }]
+ * ```
+ */
+export class RpcTransactionManager implements TransactionManager {
+  private readonly provider: Provider;
+  private readonly wallet: SecureWallet;
+  private readonly clock: Clock;
+  private readonly confirmations: number;
+  private readonly pollIntervalMs: number;
+  private readonly stuckAfterMs: number;
+  private readonly feeBumpPercent: number;
+  private readonly maxReplacements: number;
+  private readonly timeoutMs: number;
+
+  /** Nonce of the next transaction (unset: read from the chain) */
+  private nextNonce?: number;
+
+  /** Tail of the queue of transactions waiting to be signed and broadcast */
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Creates a transaction manager.
+   *
+   * @param options - Node, wallet and lifecycle settings
+   */
+  constructor(options: RpcTransactionManagerOptions) {
+    this.provider = options.provider;
+    this.wallet = options.wallet;
+    this.clock = options.clock ?? systemClock;
+    this.confirmations = options.confirmations ?? 1;
+    this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    this.stuckAfterMs = options.stuckAfterMs ?? DEFAULT_STUCK_AFTER_MS;
+    this.feeBumpPercent = options.feeBumpPercent ?? DEFAULT_FEE_BUMP_PERCENT;
+    this.maxReplacements = options.maxReplacements ?? DEFAULT_MAX_REPLACEMENTS;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TRANSACTION_TIMEOUT_MS;
+  }
+
+  /**
+   * Sends a transaction and waits until it is final.
+   *
+   * @param transaction - Transaction to send; its nonce is assigned here
+   * @param options - Confirmations, event ABI and cancellation
+   * @returns Promise resolving to the parsed receipt
+   * @throws TransactionError if the transaction is not final before the timeout, or is dropped
+   */
+  async send(transaction: Omit<WalletTransaction, 'nonce'>, options: SendTransactionOptions = {}): Promise<TransactionReceipt> {
+    const pending = await this.exclusive(() => this.broadcast(transaction));
+    const confirmations = options.confirmations ?? this.confirmations;
+    let receipt: EthersReceipt | null = null;
+
+    const poll = await pollUntil(
+      this.clock,
+      { timeoutMs: this.timeoutMs, intervalMs: this.pollIntervalMs, signal: options.signal },
+      async () => {
+        receipt = await this.findFinalReceipt(pending, confirmations);
+        return receipt !== null;
+      }
+    );
+
+    const final = receipt as EthersReceipt | null;
+    if (!poll.satisfied || !final) {
+      throw options.signal?.aborted
+        ? new TransactionError('TRANSACTION_CANCELLED', `Stopped waiting for the transaction with nonce ${pending.nonce}`, pending.hashes)
+        : new TransactionError('TRANSACTION_TIMEOUT', `Transaction with nonce ${pending.nonce} was not final after ${this.timeoutMs}ms`, pending.hashes);
+    }
+
+    return this.parseReceipt(final, pending, await this.provider.getBlockNumber(), options.abi);
+  }
+
+  /**
+   * Runs a task once every task queued before it has finished.
+   *
+   * @param task - Task needing the nonce counter
+   * @returns Promise resolving to the task's result
+   */
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Signs and broadcasts a transaction with the next nonce.
+   * Must hold the lock (see exclusive()).
+   *
+   * @param transaction - Transaction to send
+   * @returns The broadcast transaction
+   */
+  private async broadcast(transaction: Omit<WalletTransaction, 'nonce'>): Promise<PendingTransaction> {
+    this.nextNonce ??= await this.provider.getTransactionCount(this.wallet.address, 'pending');
+    const nonce = this.nextNonce;
+
+    let signed: Transaction;
+    try {
+      signed = Transaction.from(await this.wallet.signTransaction({ ...transaction, nonce }));
+      await this.provider.broadcastTransaction(signed.serialized);
+    } catch (error) {
+      // Unless the node rejected the transaction outright, it may hold it: read the nonce again
+      if (!isError(error, 'INSUFFICIENT_FUNDS') && !isError(error, 'CALL_EXCEPTION')) {
+        this.nextNonce = undefined;
+      }
+      throw error;
+    }
+
+    this.nextNonce = nonce + 1;
+    getLogger('Transactions').info('Transaction broadcast', { nonce, transactionHash: signed.hash as string });
+    return { nonce, signed, hashes: [signed.hash as string], broadcastAt: this.clock.now() };
+  }
+
+  /**
+   * Checks a broadcast transaction once, replacing it if it is stuck.
+   *
+   * @param pending - Broadcast transaction
+   * @param confirmations - Confirmations required
+   * @returns The receipt of the mined version once final, otherwise null
+   * @throws TransactionError if another transaction was mined with its nonce
+   */
+  private async findFinalReceipt(pending: PendingTransaction, confirmations: number): Promise<EthersReceipt | null> {
+    const receipt = await this.findReceipt(pending);
+
+    if (!receipt) {
+      const minedNonce = await this.provider.getTransactionCount(this.wallet.address, 'latest');
+      // Check again: a version may have been mined in between
+      if (minedNonce > pending.nonce && !(await this.findReceipt(pending))) {
+        throw new TransactionError(
+          'TRANSACTION_DROPPED',
+          `Nonce ${pending.nonce} was used by another transaction`,
+          pending.hashes
+        );
+      }
+
+      if (this.clock.now() - pending.broadcastAt >= this.stuckAfterMs && pending.hashes.length <= this.maxReplacements) {
+        await this.replace(pending);
+      }
+      return null;
+    }
+
+    const head = await this.provider.getBlockNumber();
+    if (head - receipt.blockNumber + 1 < confirmations) {
+      return null;
+    }
+
+    // The receipt may come from a block that a reorg has since replaced
+    const block = await this.provider.getBlock(receipt.blockNumber);
+    if (block?.hash !== receipt.blockHash) {
+      getLogger('Transactions').warn('Receipt is not on the canonical chain, waiting again', {
+        transactionHash: receipt.hash,
+        blockNumber: receipt.blockNumber
+      });
+      return null;
+    }
+
+    return receipt;
+  }
+
+  /**
+   * Looks up the receipt of any broadcast version of a transaction.
+   *
+   * @param pending - Broadcast transaction
+   * @returns Receipt of the mined version, or null if none is mined
+   */
+  private async findReceipt(pending: PendingTransaction): Promise<EthersReceipt | null> {
+    for (const hash of pending.hashes) {
+      const receipt = await this.provider.getTransactionReceipt(hash);
+      if (receipt) {
+        return receipt;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Replaces a stuck transaction with a version paying higher fees.
+   * A replacement the node refuses is logged; the earlier versions are still followed.
+   *
+   * @param pending - Broadcast transaction, updated with the replacement
+   */
+  private async replace(pending: PendingTransaction): Promise<void> {
+    const fees = await this.provider.getFeeData();
+    const bump = (fee: bigint | null, current: bigint | null): bigint => {
+      const raised = ((fee ?? BigInt(0)) * BigInt(100 + this.feeBumpPercent) + BigInt(99)) / BigInt(100);
+      return current !== null && current > raised ? current : raised;
+    };
+
+    const { signed } = pending;
+    const replacement: WalletTransaction = {
+      to: signed.to as string,
+      data: signed.data,
+      value: signed.value.toString(),
+      nonce: pending.nonce,
+      gasLimit: signed.gasLimit.toString(),
+      maxFeePerGas: bump(signed.maxFeePerGas, fees.maxFeePerGas).toString(),
+      maxPriorityFeePerGas: bump(signed.maxPriorityFeePerGas, fees.maxPriorityFeePerGas).toString()
+    };
+
+    const log = getLogger('Transactions');
+    try {
+      const next = Transaction.from(await this.wallet.signTransaction(replacement));
+      await this.provider.broadcastTransaction(next.serialized);
+
+      pending.signed = next;
+      pending.hashes.push(next.hash as string);
+      log.warn('Replaced stuck transaction', {
+        nonce: pending.nonce,
+        replacement: pending.hashes.length - 1,
+        transactionHash: next.hash as string
+      });
+    } catch (error) {
+      log.warn('Failed to replace stuck transaction', { nonce: pending.nonce, error: describeError(error) });
+    }
+    // Wait a full period before replacing again, whether or not the node took it
+    pending.broadcastAt = this.clock.now();
+  }
+
+  /**
+   * Converts a final receipt into the TransactionReceipt returned to callers.
+   *
+   * @param receipt - Receipt of the mined version
+   * @param pending - Broadcast transaction
+   * @param head - Latest block number
+   * @param abi - Event fragments to decode the logs with (optional)
+   * @returns Parsed receipt
+   */
+  private parseReceipt(receipt: EthersReceipt, pending: PendingTransaction, head: number, abi?: string[]): TransactionReceipt {
+    const events = new Interface(abi ?? []);
+
+    return {
+      transactionHash: receipt.hash,
+      nonce: pending.nonce,
+      blockNumber: receipt.blockNumber,
+      blockHash: receipt.blockHash,
+      status: receipt.status === 1 ? 'success' : 'reverted',
+      gasUsed: receipt.gasUsed.toString(),
+      effectiveGasPrice: receipt.gasPrice.toString(),
+      confirmations: Math.max(head - receipt.blockNumber + 1, 1),
+      replacements: pending.hashes.indexOf(receipt.hash),
+      logs: receipt.logs.map(log => ({ address: log.address, topics: [...log.topics], data: log.data, index: log.index })),
+      events: receipt.logs.flatMap(log => {
+        const parsed = events.parseLog({ topics: [...log.topics], data: log.data });
+        if (!parsed) {
+          return [];
+        }
+        const args = parsed.fragment.inputs.map((input, index) => [input.name || String(index), String(parsed.args[index])]);
+        return [{ address: log.address, name: parsed.name, args: Object.fromEntries(args) }];
+      })
+    };
+  }
+}
@@ -0,0 +1,428 @@
+import {
+  Interface,
+  Provider,
+  formatUnits,
+  getAddress,
+  isError,
+  parseUnits,
+  solidityPacked
+} from 'ethers';
+import { Clock, NetworkConfig, OneInchService, TransactionManager, TransactionReceipt } from '../executor/ExecutionContext';
+import { systemClock } from '../executor/Clock';
+import { getLogger } from '../executor/Tracer';
+import { SpotToken, convertAtPrice, findSpotToken, formatPrice, truncateDecimals } from './FusionOneInchService';
+
+/** Uniswap QuoterV2 on Base */
+export const UNISWAP_V3_QUOTER_V2 = '0x3d4e44Eb1374240CE5F1B871ab261CD16335B76a';
+
+/** QuoterV2 quotes by simulating the swap and reverting, so it is called, never sent to */
+export const UNISWAP_V3_QUOTER = new Interface([
+  'function quoteExactInput(bytes path, uint256 amountIn) returns ' +
+    '(uint256 amountOut, uint160[] sqrtPriceX96AfterList, uint32[] initializedTicksCrossedList, uint256 gasEstimate)'
+]);
+
+/** SwapRouter02, whose exactInput takes its deadline from the enclosing multicall */
+export const UNISWAP_V3_ROUTER = new Interface([
+  'function exactInput((bytes path, address recipient, uint256 amountIn, uint256 amountOutMinimum) params) payable returns (uint256 amountOut)',
+  'function multicall(uint256 deadline, bytes[] data) payable returns (bytes[] results)'
+]);
+
+/** Default pool fee tiers routes are searched over, in hundredths of a basis point */
+export const DEFAULT_FEE_TIERS = [100, 500, 3000, 10000];
+
+/** Default tokens two-hop routes may go through */
+export const DEFAULT_INTERMEDIARIES = ['WETH'];
+
+/** Default time a swap may wait to be mined before it reverts, in seconds */
+export const DEFAULT_SWAP_DEADLINE_SECONDS = 5 * 60;
+
+/** Token swapped against the assets */
+const QUOTE_TOKEN = 'USDC';
+
+/** Parts of the amount in the reference quote of getQuote is made with */
+const REFERENCE_QUOTE_DIVISOR = BigInt(1000);
+
+/** ERC-20 functions used to let the router take the input */
+const ERC20 = new Interface([
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function approve(address spender, uint256 amount) returns (bool)'
+]);
+
+/** Event the output is read from */
+const ERC20_TRANSFER = 'event Transfer(address indexed from, address indexed to, uint256 value)';
+
+/**
+ * Options of a UniswapV3SpotService
+ */
+export interface UniswapV3SpotServiceOptions {
+  /** Node quotes and allowances are read from */
+  provider: Provider;
+  /** Sends approvals and swaps */
+  transactions: TransactionManager;
+  /** Tokens by symbol; must list USDC, the traded assets and the intermediaries */
+  tokens: NonNullable<NetworkConfig['tokens']>;
+  /** SwapRouter02 */
+  router: string;
+  /** QuoterV2 (default: UNISWAP_V3_QUOTER_V2) */
+  quoter?: string;
+  /** Pool fee tiers searched (default: DEFAULT_FEE_TIERS) */
+  feeTiers?: number[];
+  /** Symbols of the tokens two-hop routes may go through (default: DEFAULT_INTERMEDIARIES) */
+  intermediaries?: string[];
+  /** Time a swap may wait to be mined, in seconds (default: DEFAULT_SWAP_DEADLINE_SECONDS) */
+  deadlineSeconds?: number;
+  /** Time source for deadlines (default: system clock) */
+  clock?: Clock;
+}
+
+/**
+ * Route through Uniswap V3 pools, with its quoted output
+ */
+export interface UniswapV3Route {
+  /** Tokens along the route, from input to output */
+  tokens: SpotToken[];
+  /** Fee tier of the pool of each hop */
+  fees: number[];
+  /** Encoded path */
+  path: string;
+  /** Quoted output, in base units */
+  amountOut: bigint;
+}
+
+type SwapParams = Parameters<OneInchService['executeFusionSwap']>[0];
+type SwapResult = Awaited<ReturnType<OneInchService['executeFusionSwap']>>;
+
+const log = getLogger('UniswapV3');
+
+/**
+ * Encodes a Uniswap V3 path: each token followed by the fee of the pool to
+ * the next one.
+ *
+ * @param tokens - Token addresses, from input to output
+ * @param fees - Fee tier of each hop (one fewer than tokens)
+ * @returns Encoded path
+ */
+export function encodePath(tokens: string[], fees: number[]): string {
+  if (fees.length !== tokens.length - 1) {
+    throw new Error('A path needs one fee tier per hop');
+  }
+  const types = tokens.flatMap((_, index) => (index < fees.length ? ['address', 'uint24'] : ['address']));
+  const values = tokens.flatMap((token, index) => (index < fees.length ? [token, fees[index]] : [token]));
+  return solidityPacked(types, values);
+}
+
+/**
+ * UniswapV3SpotService swaps spot assets against USDC through Uniswap V3
+ * pools, for the TEE execution context. It implements the OneInchService
+ * swap interface so that spot buys can fail over to it when 1inch Fusion
+ * cannot fill them.
+ *
+ * A swap is a single on-chain transaction:
+ * 1. QuoterV2 quotes every direct route (one per fee tier) and every
+ *    two-hop route through an intermediary (e.g., USDC -> WETH -> cbBTC);
+ *    the route returning the most is taken.
+ * 2. The minimum output is the quote less `slippage` percent, raised to the
+ *    limit price for limit orders and to `minPrice` for sells.
+ * 3. The input token is approved to the router, unless the allowance covers
+ *    it, and the swap is sent through SwapRouter02 with a deadline.
+ *
+ * Limit orders are not left open: they fill immediately when the best route
+ * is at the limit price or better, and fail otherwise.
+ *
+ * @example
+ * ```typescript
+ * const uniswap = new UniswapV3SpotService({
+ *   provider: wallet.provider,
+ *   transactions,
+ *   tokens: network.tokens,
+ *   router: network.contracts.uniswapV3Router
+ * });
+ *
+ * const { amountReceived, executionPrice } = await uniswap.executeFusionSwap({
+ *   asset: 'WETH', side: 'buy', amount: '500', orderType: 'market', wallet, slippage: 0.5
+ * });
+ * ```
+ */
+export class UniswapV3SpotService implements OneInchService {
+  /** Node quotes and allowances are read from */
+  private readonly provider: Provider;
+
+  /** Sends approvals and swaps */
+  private readonly transactions: TransactionManager;
+
+  /** Tokens by symbol */
+  private readonly tokens: NonNullable<NetworkConfig['tokens']>;
+
+  /** SwapRouter02, which approvals are given to */
+  private readonly router: string;
+
+  /** QuoterV2 */
+  private readonly quoter: string;
+
+  /** Pool fee tiers searched */
+  private readonly feeTiers: number[];
+
+  /** Symbols of the tokens two-hop routes may go through */
+  private readonly intermediaries: string[];
+
+  /** Time a swap may wait to be mined, in seconds */
+  private readonly deadlineSeconds: number;
+
+  /** Time source */
+  private readonly clock: Clock;
+
+  /**
+   * Creates a Uniswap V3 client.
+   *
+   * @param options - Contracts, tokens and routing settings
+   */
+  constructor(options: UniswapV3SpotServiceOptions) {
+    this.provider = options.provider;
+    this.transactions = options.transactions;
+    this.tokens = options.tokens;
+    this.router = getAddress(options.router);
+    this.quoter = getAddress(options.quoter ?? UNISWAP_V3_QUOTER_V2);
+    this.feeTiers = options.feeTiers ?? DEFAULT_FEE_TIERS;
+    this.intermediaries = options.intermediaries ?? DEFAULT_INTERMEDIARIES;
+    this.deadlineSeconds = options.deadlineSeconds ?? DEFAULT_SWAP_DEADLINE_SECONDS;
+    this.clock = options.clock ?? systemClock;
+  }
+
+  /**
+   * Swaps through the best Uniswap V3 route.
+   *
+   * Market orders accept the quoted amount less `slippage` percent (and, for
+   * sells, no less than `minPrice`). Limit orders accept no less than the
+   * amount at `targetPrice` (or `minPrice` for sells). The shortPosition of
+   * hedging swaps is not checked: the swap is immediate.
+   *
+   * @param params - Swap parameters
+   * @returns Promise resolving to the swap
+   * @throws Error if there is no route, the best route returns less than the
+   *   minimum output, or the swap reverts
+   */
+  async executeFusionSwap(params: SwapParams): Promise<SwapResult> {
+    const side = params.side ?? 'buy';
+    const asset = this.getToken(params.asset);
+    const usdc = this.getToken(QUOTE_TOKEN);
+    const [from, to] = side === 'buy' ? [usdc, asset] : [asset, usdc];
+    const recipient = getAddress(params.wallet.address);
+    const amountIn = parseUnits(truncateDecimals(params.amount, from.decimals), from.decimals);
+
+    const route = await this.findRoute(from, to, amountIn);
+
+    let amountOutMinimum: bigint;
+    if (params.orderType === 'limit') {
+      const limitPrice = side === 'buy' ? params.targetPrice : params.targetPrice ?? params.minPrice;
+      if (limitPrice === undefined) {
+        throw new Error('Limit orders need a target price');
+      }
+      amountOutMinimum = convertAtPrice(amountIn, limitPrice, side, from, to);
+    } else {
+      const slippageBps = BigInt(Math.round(params.slippage * 100));
+      amountOutMinimum = route.amountOut * (BigInt(10000) - slippageBps) / BigInt(10000);
+      if (side === 'sell' && params.minPrice !== undefined) {
+        const floor = convertAtPrice(amountIn, params.minPrice, side, from, to);
+        amountOutMinimum = floor > amountOutMinimum ? floor : amountOutMinimum;
+      }
+    }
+
+    if (route.amountOut < amountOutMinimum) {
+      throw new Error(
+        `Uniswap V3 quotes ${formatUnits(route.amountOut, to.decimals)} ${to.symbol} for ${params.amount} ${from.symbol}, ` +
+        `below the minimum ${formatUnits(amountOutMinimum, to.decimals)}`
+      );
+    }
+
+    await this.approve(from, recipient, amountIn);
+
+    const deadline = Math.floor(this.clock.now() / 1000) + this.deadlineSeconds;
+    const swap = UNISWAP_V3_ROUTER.encodeFunctionData('exactInput', [
+      { path: route.path, recipient, amountIn, amountOutMinimum }
+    ]);
+    const receipt = await this.transactions.send({
+      to: this.router,
+      data: UNISWAP_V3_ROUTER.encodeFunctionData('multicall', [deadline, [swap]])
+    }, { abi: [ERC20_TRANSFER], signal: params.signal });
+    if (receipt.status === 'reverted') {
+      throw new Error(`Uniswap V3 swap transaction ${receipt.transactionHash} reverted`);
+    }
+
+    // The router checked the minimum; should the output transfer not be found, report that
+    const received = readTransferred(receipt, to, recipient) ?? amountOutMinimum;
+    const [assetAmount, usdcAmount] = side === 'buy' ? [received, amountIn] : [amountIn, received];
+
+    log.info('Uniswap V3 swap executed', {
+      transactionHash: receipt.transactionHash,
+      side,
+      asset: params.asset,
+      route: route.tokens.map(token => token.symbol).join(' -> '),
+      fees: route.fees.join('/')
+    });
+
+    return {
+      amountReceived: formatUnits(received, to.decimals),
+      executionPrice: formatPrice(usdcAmount, usdc, assetAmount, asset),
+      transactionHash: receipt.transactionHash,
+      gasUsed: receipt.gasUsed
+    };
+  }
+
+  /**
+   * Quotes a swap on the best route without executing it. The price impact
+   * compares its rate with that of a quote for a thousandth of the amount on
+   * the same route.
+   *
+   * @param params - Asset, direction and amount (as in executeFusionSwap)
+   * @returns Promise resolving to the quoted output and price impact, in percent
+   * @throws Error if there is no route
+   */
+  async getQuote(params: { asset: string; side: 'buy' | 'sell'; amount: string }): Promise<{
+    amountOut: string;
+    priceImpact: number;
+  }> {
+    const asset = this.getToken(params.asset);
+    const usdc = this.getToken(QUOTE_TOKEN);
+    const [from, to] = params.side === 'buy' ? [usdc, asset] : [asset, usdc];
+    const amountIn = parseUnits(truncateDecimals(params.amount, from.decimals), from.decimals);
+
+    const route = await this.findRoute(from, to, amountIn);
+    const referenceIn = amountIn / REFERENCE_QUOTE_DIVISOR > BigInt(0) ? amountIn / REFERENCE_QUOTE_DIVISOR : BigInt(1);
+    const referenceOut = await this.quotePath(route.path, referenceIn);
+
+    // Rate of the amount relative to the reference rate, in millionths
+    const relativeRate = referenceOut === BigInt(0)
+      ? BigInt(1000000)
+      : route.amountOut * referenceIn * BigInt(1000000) / (amountIn * referenceOut);
+    const impact = BigInt(1000000) - relativeRate;
+
+    return {
+      amountOut: formatUnits(route.amountOut, to.decimals),
+      priceImpact: impact > BigInt(0) ? Number(impact) / 10000 : 0
+    };
+  }
+
+  /**
+   * Quotes every candidate route and picks the one returning the most.
+   *
+   * Candidates are the direct pools of each fee tier, and two hops through
+   * each configured intermediary other than the swapped tokens, over every
+   * pair of fee tiers. Routes through pools that do not exist are skipped.
+   *
+   * @param from - Input token
+   * @param to - Output token
+   * @param amountIn - Input amount, in base units
+   * @returns Promise resolving to the best route
+   * @throws Error if no route returns anything
+   */
+  async findRoute(from: SpotToken, to: SpotToken, amountIn: bigint): Promise<UniswapV3Route> {
+    const candidates: { tokens: SpotToken[]; fees: number[] }[] = this.feeTiers.map(fee => ({ tokens: [from, to], fees: [fee] }));
+
+    for (const symbol of this.intermediaries) {
+      const intermediary = this.tokens[symbol] && { symbol, ...this.tokens[symbol] };
+      if (!intermediary || [from, to].some(token => sameAddress(token.address, intermediary.address))) {
+        continue;
+      }
+      for (const first of this.feeTiers) {
+        for (const second of this.feeTiers) {
+          candidates.push({ tokens: [from, intermediary, to], fees: [first, second] });
+        }
+      }
+    }
+
+    const routes = await Promise.all(candidates.map(async candidate => {
+      const path = encodePath(candidate.tokens.map(token => getAddress(token.address)), candidate.fees);
+      return { ...candidate, path, amountOut: await this.quotePath(path, amountIn) };
+    }));
+
+    const best = routes.reduce<UniswapV3Route | undefined>(
+      (best, route) => (route.amountOut > (best?.amountOut ?? BigInt(0)) ? route : best),
+      undefined
+    );
+    if (!best) {
+      throw new Error(`No Uniswap V3 route for ${from.symbol} -> ${to.symbol}`);
+    }
+    return best;
+  }
+
+  /**
+   * Quotes a path with QuoterV2.
+   *
+   * @param path - Encoded path
+   * @param amountIn - Input amount, in base units
+   * @returns Promise resolving to the output, or 0 if a pool on the path does not exist
+   */
+  private async quotePath(path: string, amountIn: bigint): Promise<bigint> {
+    try {
+      const result = await this.provider.call({
+        to: this.quoter,
+        data: UNISWAP_V3_QUOTER.encodeFunctionData('quoteExactInput', [path, amountIn])
+      });
+      const [amountOut] = UNISWAP_V3_QUOTER.decodeFunctionResult('quoteExactInput', result);
+      return amountOut;
+    } catch (error) {
+      if (isError(error, 'CALL_EXCEPTION')) {
+        return BigInt(0);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Approves the router to take the input token, unless it already may.
+   *
+   * @param token - Input token
+   * @param owner - Wallet address
+   * @param amount - Input amount, in base units
+   */
+  private async approve(token: SpotToken, owner: string, amount: bigint): Promise<void> {
+    const result = await this.provider.call({
+      to: token.address,
+      data: ERC20.encodeFunctionData('allowance', [owner, this.router])
+    });
+    const [allowance] = ERC20.decodeFunctionResult('allowance', result);
+    if (allowance >= amount) {
+      return;
+    }
+
+    const receipt = await this.transactions.send({
+      to: token.address,
+      data: ERC20.encodeFunctionData('approve', [this.router, amount])
+    });
+    if (receipt.status === 'reverted') {
+      throw new Error(`approve transaction ${receipt.transactionHash} reverted`);
+    }
+  }
+
+  /**
+   * Gets a configured token by symbol (see findSpotToken).
+   */
+  private getToken(symbol: string): SpotToken {
+    return findSpotToken(this.tokens, symbol);
+  }
+}
+
+/**
+ * Sums the transfers of a token to an address in a transaction's events.
+ *
+ * @param receipt - Receipt of a transaction sent with the Transfer event ABI
+ * @param token - Token transferred
+ * @param recipient - Address receiving it
+ * @returns Amount transferred, in base units, or undefined if there is no such transfer
+ */
+function readTransferred(receipt: TransactionReceipt, token: SpotToken, recipient: string): bigint | undefined {
+  const transfers = receipt.events.filter(event =>
+    event.name === 'Transfer' && sameAddress(event.address, token.address) && sameAddress(event.args.to, recipient)
+  );
+
+  return transfers.length === 0
+    ? undefined
+    : transfers.reduce((sum, event) => sum + BigInt(event.args.value), BigInt(0));
+}
+
+/**
+ * Compares two addresses regardless of their checksum case.
+ */
+function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
@@ -0,0 +1,354 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Interface, Provider, Result, getAddress } from 'ethers';
+import { SecureWallet, TransactionManager, TransactionReceipt } from '../../executor/ExecutionContext';
+import {
+  AVANTIS_PAIR_INFOS,
+  AVANTIS_TRADING,
+  AVANTIS_TRADING_STORAGE,
+  AvantisOrderError,
+  AvantisPerpetualService,
+  AvantisPerpetualServiceOptions,
+  decodePrecise,
+  encodePrecise,
+  normalizePair
+} from '../AvantisPerpetualService';
+
+const TRADER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const CONTRACTS = {
+  trading: '0x1000000000000000000000000000000000000001',
+  tradingStorage: '0x1000000000000000000000000000000000000002',
+  pairInfos: '0x1000000000000000000000000000000000000003',
+  usdc: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913'
+};
+const BTC = 1;
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+const ERC20 = new Interface([
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function approve(address spender, uint256 amount) returns (bool)'
+]);
+
+interface Trade {
+  trader: string;
+  pairIndex: bigint;
+  index: bigint;
+  initialPosToken: bigint;
+  positionSizeUsdc: bigint;
+  openPrice: bigint;
+  buy: boolean;
+  leverage: bigint;
+  tp: bigint;
+  sl: bigint;
+}
+
+/**
+ * Avantis deployment answering calls through the real ABI. Orders sent to
+ * Trading are queued until keep() fills them, as keepers do.
+ */
+function createAvantis() {
+  const trades = new Map<string, Trade>();
+  const queued: (() => void)[] = [];
+  const sent: { to: string; method: string; args: unknown[]; value?: string }[] = [];
+  const avantis = { trades, sent, allowance: BigInt(0), fillPrice: encodePrecise('50100'), fundingRate: BigInt(12500000) };
+
+  const key = (trader: string, pairIndex: bigint | number, index: bigint | number) =>
+    `${getAddress(trader)}:${pairIndex}:${index}`;
+  const tradesOf = (trader: string, pairIndex: bigint) =>
+    [...trades.entries()].filter(([id]) => id.startsWith(`${getAddress(trader)}:${pairIndex}:`)).map(([, trade]) => trade);
+
+  const provider = {
+    call: vi.fn(async ({ to, data }: { to: string; data: string }) => {
+      if (to === CONTRACTS.usdc) {
+        return ERC20.encodeFunctionResult('allowance', [avantis.allowance]);
+      }
+      if (to === CONTRACTS.pairInfos) {
+        return AVANTIS_PAIR_INFOS.encodeFunctionResult('getFundingRate', [avantis.fundingRate]);
+      }
+
+      const call = AVANTIS_TRADING_STORAGE.parseTransaction({ data })!;
+      const [trader, pairIndex, index] = call.args;
+      if (call.name === 'openTradesCount') {
+        return AVANTIS_TRADING_STORAGE.encodeFunctionResult(call.name, [tradesOf(trader, pairIndex).length]);
+      }
+      const empty = { trader: ZERO_ADDRESS, pairIndex: BigInt(0), index: BigInt(0), initialPosToken: BigInt(0), positionSizeUsdc: BigInt(0), openPrice: BigInt(0), buy: false, leverage: BigInt(0), tp: BigInt(0), sl: BigInt(0) };
+      return AVANTIS_TRADING_STORAGE.encodeFunctionResult(call.name, [trades.get(key(trader, pairIndex, index)) ?? empty]);
+    }),
+    getTransaction: vi.fn(async (hash: string) => mined.get(hash) ?? null)
+  };
+
+  const mined = new Map<string, { to: string; data: string }>();
+  let hashes = 0;
+  const transactions: TransactionManager = {
+    send: vi.fn(async ({ to, data, value }) => {
+      const contract = to === CONTRACTS.usdc ? ERC20 : AVANTIS_TRADING;
+      const call = contract.parseTransaction({ data: data as string })!;
+      sent.push({ to, method: call.name, args: [...call.args], value });
+
+      if (call.name === 'approve') {
+        avantis.allowance = call.args[1];
+      } else if (call.name === 'openTrade') {
+        const order = call.args[0];
+        queued.push(() => {
+          let index = BigInt(0);
+          while (trades.has(key(order.trader, order.pairIndex, index))) {
+            index++;
+          }
+          trades.set(key(order.trader, order.pairIndex, index), {
+            ...order.toObject(),
+            index,
+            openPrice: avantis.fillPrice
+          });
+        });
+      } else {
+        const [pairIndex, index, amount] = call.args;
+        queued.push(() => {
+          const id = key(TRADER, pairIndex, index);
+          const trade = trades.get(id)!;
+          if (amount >= trade.initialPosToken) {
+            trades.delete(id);
+          } else {
+            trades.set(id, { ...trade, initialPosToken: trade.initialPosToken - amount });
+          }
+        });
+      }
+
+      hashes++;
+      const transactionHash = `0x${hashes.toString(16).padStart(64, '0')}`;
+      mined.set(transactionHash, { to, data: data as string });
+      return {
+        transactionHash,
+        nonce: hashes,
+        blockNumber: 100 + hashes,
+        blockHash: `0x${'b'.repeat(64)}`,
+        status: 'success',
+        gasUsed: '250000',
+        effectiveGasPrice: '1000',
+        confirmations: 1,
+        replacements: 0,
+        logs: [],
+        events: []
+      } as TransactionReceipt;
+    })
+  };
+
+  const open = (trade: Partial<Trade> & { index: bigint }) => {
+    trades.set(key(TRADER, trade.pairIndex ?? BigInt(BTC), trade.index), {
+      trader: TRADER,
+      pairIndex: BigInt(BTC),
+      initialPosToken: BigInt(100000000),
+      positionSizeUsdc: BigInt(100000000),
+      openPrice: encodePrecise('48000'),
+      buy: true,
+      leverage: encodePrecise(1),
+      tp: BigInt(0),
+      sl: BigInt(0),
+      ...trade
+    });
+  };
+
+  /** Keepers fill every queued order */
+  const keep = () => queued.splice(0).forEach(fill => fill());
+
+  return { avantis, open, keep, provider: provider as unknown as Provider & typeof provider, transactions };
+}
+
+function createService(
+  setup: ReturnType<typeof createAvantis>,
+  options: Partial<AvantisPerpetualServiceOptions> & { keepers?: boolean } = {}
+) {
+  let time = 0;
+  return new AvantisPerpetualService({
+    provider: setup.provider,
+    transactions: setup.transactions,
+    trader: TRADER,
+    contracts: CONTRACTS,
+    prices: { getPrice: vi.fn().mockResolvedValue('50000') },
+    clock: {
+      now: () => time,
+      sleep: vi.fn(async (ms: number) => {
+        time += ms;
+        if (options.keepers !== false) {
+          setup.keep();
+        }
+      })
+    },
+    ...options
+  });
+}
+
+const wallet = { address: TRADER } as SecureWallet;
+
+describe('AvantisPerpetualService', () => {
+  it('should normalize pairs and convert values with 1e10 precision', () => {
+    expect(normalizePair('wbtc/usdc')).toBe('BTC/USD');
+    expect(normalizePair('ETH/USD')).toBe('ETH/USD');
+    expect(encodePrecise('50123.123456789012')).toBe(BigInt(501231234567890));
+    expect(encodePrecise(2)).toBe(BigInt(20000000000));
+    expect(encodePrecise(1e-7)).toBe(BigInt(1000));
+    expect(encodePrecise('2.5e-8')).toBe(BigInt(250));
+    expect(decodePrecise(BigInt(501231234567890))).toBe('50123.123456789');
+    expect(decodePrecise(BigInt(500000000000000))).toBe('50000');
+  });
+
+  it('should approve the collateral, send a market short and return the filled trade', async () => {
+    const setup = createAvantis();
+    setup.open({ index: BigInt(0) });
+    const service = createService(setup);
+
+    const result = await service.openShort({ pair: 'BTC/USDC', amount: '500.1234567', leverage: 2, stopLoss: '55000', wallet });
+
+    expect(setup.avantis.sent.map(call => [call.to, call.method])).toEqual([
+      [CONTRACTS.usdc, 'approve'],
+      [CONTRACTS.trading, 'openTrade']
+    ]);
+    expect(setup.avantis.sent[0].args).toEqual([CONTRACTS.tradingStorage, BigInt(500123456)]);
+
+    const [order, orderType, slippage] = setup.avantis.sent[1].args as [Result, bigint, bigint];
+    expect(order.toObject()).toMatchObject({
+      trader: TRADER,
+      pairIndex: BigInt(1),
+      initialPosToken: BigInt(500123456),
+      openPrice: BigInt(500000000000000),
+      buy: false,
+      leverage: BigInt(20000000000),
+      tp: BigInt(0),
+      sl: BigInt(550000000000000)
+    });
+    expect([orderType, slippage]).toEqual([BigInt(0), BigInt(10000000000)]);
+    expect(setup.avantis.sent[1].value).toBe('350000000000000');
+
+    expect(result).toEqual({ entryPrice: '50100', transactionHash: expect.any(String), gasUsed: '250000', tradeIndex: 1 });
+    await expect(service.getPositionStatus(result.transactionHash)).resolves.toEqual({ confirmed: true, entryPrice: '50100' });
+    await expect(service.getPositionStatus(`0x${'9'.repeat(64)}`)).resolves.toEqual({ confirmed: false });
+  });
+
+  it('should confirm orders sent by an earlier run from their transaction', async () => {
+    const setup = createAvantis();
+    setup.avantis.allowance = BigInt(10) ** BigInt(12);
+    setup.open({ index: BigInt(0), buy: false, leverage: encodePrecise(3) });
+    const { transactionHash } = await createService(setup).openShort({ pair: 'BTC/USD', amount: '100', leverage: 2, wallet });
+
+    // A new service only knows the order from its transaction
+    const service = createService(setup);
+    await expect(service.getPositionStatus(transactionHash)).resolves.toEqual({ confirmed: true, entryPrice: '50100' });
+
+    setup.avantis.trades.clear();
+    await expect(createService(setup).getPositionStatus(transactionHash)).resolves.toEqual({ confirmed: false });
+  });
+
+  it('should only trade for its trader', async () => {
+    const other = { address: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8' } as SecureWallet;
+    const service = createService(createAvantis());
+
+    await expect(service.openShort({ pair: 'BTC/USD', amount: '100', leverage: 1, wallet: other }))
+      .rejects.toThrow(`Wallet ${other.address} is not the Avantis trader ${TRADER}`);
+    await expect(service.getOpenPosition({ pair: 'BTC/USD', side: 'short', wallet: other }))
+      .rejects.toThrow('is not the Avantis trader');
+  });
+
+  it('should not approve again when the allowance covers the collateral', async () => {
+    const setup = createAvantis();
+    setup.avantis.allowance = BigInt(10) ** BigInt(12);
+
+    await createService(setup).openLong({ pair: 'ETH/USDC', amount: '100', leverage: 1, wallet });
+
+    expect(setup.avantis.sent.map(call => call.method)).toEqual(['openTrade']);
+    expect((setup.avantis.sent[0].args[0] as Result).toObject()).toMatchObject({ pairIndex: BigInt(0), buy: true });
+  });
+
+  it('should fail when no keeper fills the order in time', async () => {
+    const setup = createAvantis();
+    setup.avantis.allowance = BigInt(10) ** BigInt(12);
+    const service = createService(setup, { keepers: false, fillTimeoutMs: 10000 });
+
+    await expect(service.openShort({ pair: 'BTC/USD', amount: '100', leverage: 1, wallet }))
+      .rejects.toThrow('was not filled within 10000ms');
+  });
+
+  it('should report the sent order when it is not filled', async () => {
+    const setup = createAvantis();
+    setup.avantis.allowance = BigInt(10) ** BigInt(12);
+    const service = createService(setup, { keepers: false, fillTimeoutMs: 10000 });
+
+    const error = await service.openShort({ pair: 'BTC/USD', amount: '100', leverage: 1, wallet }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(AvantisOrderError);
+    expect((error as AvantisOrderError).transactionHash).toMatch(/^0x/);
+  });
+
+  it('should stop waiting for a fill when cancelled', async () => {
+    const setup = createAvantis();
+    setup.avantis.allowance = BigInt(10) ** BigInt(12);
+    const cancel = new AbortController();
+    const sleep = vi.fn(async () => cancel.abort());
+    const service = createService(setup, { clock: { now: () => 0, sleep } });
+
+    await expect(service.openShort({ pair: 'BTC/USD', amount: '100', leverage: 1, wallet, signal: cancel.signal }))
+      .rejects.toThrow('Stopped waiting for order');
+    expect(sleep).toHaveBeenCalledTimes(1);
+    expect(setup.transactions.send).toHaveBeenCalledWith(expect.anything(), { signal: cancel.signal });
+  });
+
+  it('should refuse pairs Avantis does not list', async () => {
+    await expect(createService(createAvantis()).openShort({ pair: 'DOGE/USD', amount: '100', leverage: 1, wallet }))
+      .rejects.toThrow('Pair DOGE/USD is not listed on Avantis');
+  });
+
+  it('should close part of a position in its slot and all of the only trade on a pair', async () => {
+    const setup = createAvantis();
+    setup.open({ index: BigInt(2), buy: false, initialPosToken: BigInt(500000000) });
+    // The keeper fills at the price after the order was sent
+    const getPrice = vi.fn().mockResolvedValueOnce('50000').mockResolvedValueOnce('50200').mockResolvedValue('50000');
+    const service = createService(setup, { prices: { getPrice } });
+    const position = { pair: 'BTC/USDC', entryPrice: '48000', amount: '500', leverage: 1 };
+
+    const partial = await service.closePosition({ ...position, tradeIndex: 2 }, { amount: '200', maxPrice: '50100' });
+    expect(partial).toMatchObject({ gasUsed: '250000', exitPrice: '50200' });
+    expect(setup.avantis.sent[0]).toMatchObject({ to: CONTRACTS.trading, method: 'closeTradeMarket', args: [BigInt(1), BigInt(2), BigInt(200000000)] });
+    expect(setup.avantis.trades.size).toBe(1);
+
+    await service.closePosition(position);
+    expect(setup.avantis.sent[1].args).toEqual([BigInt(1), BigInt(2), BigInt(300000000)]);
+    expect(setup.avantis.trades.size).toBe(0);
+  });
+
+  it('should not close past the price limit', async () => {
+    const setup = createAvantis();
+    setup.open({ index: BigInt(0), buy: false });
+
+    await expect(createService(setup).closePosition(
+      { pair: 'BTC/USD', entryPrice: '48000', amount: '100', leverage: 1 },
+      { maxPrice: '49000' }
+    )).rejects.toThrow('Price 50000 of BTC/USD is above the close limit 49000');
+    expect(setup.avantis.sent).toHaveLength(0);
+  });
+
+  it('should find open positions on-chain by side', async () => {
+    const setup = createAvantis();
+    setup.open({ index: BigInt(0), buy: true });
+    setup.open({ index: BigInt(3), buy: false, initialPosToken: BigInt(250500000), openPrice: BigInt(501231234567890), leverage: BigInt(25000000000) });
+    const service = createService(setup);
+
+    await expect(service.getOpenPosition({ pair: 'WBTC/USDC', side: 'short', wallet })).resolves.toEqual({
+      pair: 'WBTC/USDC',
+      side: 'short',
+      amount: '250.5',
+      entryPrice: '50123.123456789',
+      leverage: 2.5,
+      tradeIndex: 3
+    });
+    await expect(service.getOpenPosition({ pair: 'ETH/USD', side: 'short', wallet })).resolves.toBeNull();
+  });
+
+  it('should read the funding rate over 8 hours', async () => {
+    const setup = createAvantis();
+    const service = createService(setup);
+
+    // 0.00125% per hour
+    expect(await service.getFundingRate('BTC/USDC')).toBeCloseTo(0.0001, 12);
+    expect(setup.provider.call).toHaveBeenCalledWith({
+      to: CONTRACTS.pairInfos,
+      data: AVANTIS_PAIR_INFOS.encodeFunctionData('getFundingRate', [BTC])
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect, vi } from 'vitest';
+import { inspect } from 'util';
+import { AbiCoder, JsonRpcProvider, Provider, Transaction, parseEther, verifyTypedData } from 'ethers';
+import { EnclaveWallet, WalletKeyError, readWalletKey } from '../EnclaveWallet';
+
+/** First development account of anvil (and hardhat) */
+const DEV_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const DEV_ADDRESS = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const RECIPIENT = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const TOKEN = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+
+function createProvider(): Provider {
+  return {
+    getTransactionCount: vi.fn().mockResolvedValue(7),
+    estimateGas: vi.fn().mockResolvedValue(BigInt(21000)),
+    getFeeData: vi.fn().mockResolvedValue({ gasPrice: null, maxFeePerGas: BigInt(2000000000), maxPriorityFeePerGas: BigInt(1000000) }),
+    getBalance: vi.fn().mockResolvedValue(parseEther('1.5')),
+    call: vi.fn().mockResolvedValue(AbiCoder.defaultAbiCoder().encode(['uint256'], [BigInt(2500000)]))
+  } as unknown as Provider;
+}
+
+describe('EnclaveWallet', () => {
+  describe('readWalletKey', () => {
+    it('should read the key from its secret and remove the secret from the environment', () => {
+      const env = { IEXEC_APP_DEVELOPER_SECRET: ` ${DEV_KEY.slice(2)}\n`, IEXEC_REQUESTER_SECRET_2: DEV_KEY };
+
+      expect(readWalletKey({ secret: 'app' }, env)).toBe(DEV_KEY);
+      expect(readWalletKey({ secret: 'requester', index: 2 }, env)).toBe(DEV_KEY);
+      expect(env).toEqual({});
+    });
+
+    it('should name the secret but not its value when the key is unusable', () => {
+      expect(() => readWalletKey({ secret: 'requester', index: 1 }, {})).toThrow(
+        new WalletKeyError('Wallet key secret IEXEC_REQUESTER_SECRET_1 is not set')
+      );
+
+      const malformed = DEV_KEY.slice(0, 40);
+      try {
+        readWalletKey({ secret: 'app' }, { IEXEC_APP_DEVELOPER_SECRET: malformed });
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(WalletKeyError);
+        expect((error as WalletKeyError).code).toBe('WALLET_KEY_UNAVAILABLE');
+        expect((error as Error).message).toBe('Wallet key secret IEXEC_APP_DEVELOPER_SECRET is not a 32-byte hex private key');
+      }
+    });
+  });
+
+  it('should not expose the key when serialized or inspected', () => {
+    const wallet = new EnclaveWallet(DEV_KEY, createProvider(), 8453);
+    const key = DEV_KEY.slice(2);
+
+    expect(wallet.address).toBe(DEV_ADDRESS);
+    expect(JSON.stringify(wallet)).not.toContain(key);
+    expect(inspect(wallet, { depth: Infinity, showHidden: true })).not.toContain(key);
+    expect(Object.values(wallet).map(String).join()).not.toContain(key);
+  });
+
+  it('should reject a key that controls another address before reaching the network', async () => {
+    await expect(EnclaveWallet.connect({
+      network: { chainId: 8453, rpcUrl: 'http://127.0.0.1:1', contracts: {} },
+      address: RECIPIENT,
+      key: { secret: 'app' },
+      env: { IEXEC_APP_DEVELOPER_SECRET: DEV_KEY }
+    })).rejects.toThrow(new WalletKeyError(`Wallet key does not control the wallet address ${RECIPIENT}`));
+  });
+
+  it('should sign a complete EIP-1559 transaction without reading the network', async () => {
+    const provider = createProvider();
+    const wallet = new EnclaveWallet(DEV_KEY, provider, 8453);
+
+    const signed = await wallet.signTransaction({
+      to: RECIPIENT,
+      data: '0x1234',
+      value: '1000',
+      nonce: 3,
+      gasLimit: '50000',
+      maxFeePerGas: '3000000000',
+      maxPriorityFeePerGas: '2000000'
+    });
+
+    const transaction = Transaction.from(signed);
+    expect(transaction).toMatchObject({
+      type: 2,
+      chainId: BigInt(8453),
+      from: DEV_ADDRESS,
+      to: RECIPIENT,
+      data: '0x1234',
+      value: BigInt(1000),
+      nonce: 3,
+      gasLimit: BigInt(50000),
+      maxFeePerGas: BigInt(3000000000),
+      maxPriorityFeePerGas: BigInt(2000000)
+    });
+    expect(provider.getTransactionCount).not.toHaveBeenCalled();
+    expect(provider.estimateGas).not.toHaveBeenCalled();
+    expect(provider.getFeeData).not.toHaveBeenCalled();
+  });
+
+  it('should fill in the nonce, gas limit and fees from the network', async () => {
+    const provider = createProvider();
+    const wallet = new EnclaveWallet(DEV_KEY, provider, 8453);
+
+    const transaction = Transaction.from(await wallet.signTransaction({ to: RECIPIENT }));
+
+    expect(transaction).toMatchObject({ nonce: 7, gasLimit: BigInt(21000), maxFeePerGas: BigInt(2000000000), maxPriorityFeePerGas: BigInt(1000000) });
+    expect(provider.getTransactionCount).toHaveBeenCalledWith(DEV_ADDRESS, 'pending');
+    expect(provider.estimateGas).toHaveBeenCalledWith({ from: DEV_ADDRESS, to: RECIPIENT, data: '0x', value: '0' });
+  });
+
+  it('should refuse to sign on a network without EIP-1559 fees', async () => {
+    const provider = createProvider();
+    vi.mocked(provider.getFeeData).mockResolvedValue({ gasPrice: BigInt(1000), maxFeePerGas: null, maxPriorityFeePerGas: null } as never);
+
+    await expect(new EnclaveWallet(DEV_KEY, provider, 56).signTransaction({ to: RECIPIENT }))
+      .rejects.toThrow('Chain 56 does not report EIP-1559 fees');
+  });
+
+  it('should sign typed data without reading the network', async () => {
+    const provider = createProvider();
+    const wallet = new EnclaveWallet(DEV_KEY, provider, 8453);
+    const domain = { name: 'Orders', version: '1', chainId: 8453, verifyingContract: TOKEN };
+    const types = { Order: [{ name: 'maker', type: 'address' }, { name: 'amount', type: 'uint256' }] };
+    const order = { maker: DEV_ADDRESS, amount: '1000' };
+
+    const signature = await wallet.signTypedData(domain, types, order);
+
+    expect(verifyTypedData(domain, types, order, signature)).toBe(DEV_ADDRESS);
+    expect(provider.call).not.toHaveBeenCalled();
+  });
+
+  it('should read native and ERC-20 balances in base units', async () => {
+    const provider = createProvider();
+    const wallet = new EnclaveWallet(DEV_KEY, provider, 8453);
+
+    await expect(wallet.getBalance()).resolves.toBe('1500000000000000000');
+    await expect(wallet.getBalance(TOKEN)).resolves.toBe('2500000');
+
+    expect(provider.getBalance).toHaveBeenCalledWith(DEV_ADDRESS);
+    expect(provider.call).toHaveBeenCalledWith({
+      to: TOKEN,
+      data: `0x70a08231${DEV_ADDRESS.slice(2).toLowerCase().padStart(64, '0')}`
+    });
+  });
+
+  /**
+   * Runs against a local node started with `anvil`:
+   * ANVIL_RPC_URL=http://127.0.0.1:8545 npm test
+   */
+  describe.skipIf(!process.env.ANVIL_RPC_URL)('against anvil', () => {
+    it('should sign transfers the node accepts and read the balances they change', async () => {
+      const rpcUrl = process.env.ANVIL_RPC_URL as string;
+      const provider = new JsonRpcProvider(rpcUrl);
+      const chainId = Number((await provider.getNetwork()).chainId);
+
+      const wallet = await EnclaveWallet.connect({
+        network: { chainId, rpcUrl, contracts: {} },
+        address: DEV_ADDRESS,
+        key: { secret: 'requester', index: 1 },
+        env: { IEXEC_REQUESTER_SECRET_1: DEV_KEY }
+      });
+
+      const before = BigInt(await wallet.getBalance());
+      const recipientBefore = await provider.getBalance(RECIPIENT);
+
+      const response = await provider.broadcastTransaction(await wallet.signTransaction({ to: RECIPIENT, value: '1000' }));
+      const receipt = await response.wait();
+
+      expect(receipt?.status).toBe(1);
+      expect(await provider.getBalance(RECIPIENT)).toBe(recipientBefore + BigInt(1000));
+      expect(BigInt(await wallet.getBalance())).toBe(before - BigInt(1000) - receipt!.gasUsed * receipt!.gasPrice);
+
+      provider.destroy();
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AbiCoder } from 'ethers';
+import { RpcFeeService } from '../FeeService';
+import { BASE_FEE_CONTRACTS, RpcTransport } from '../../schema/feeEstimation';
+import { OperationType, SerializedOperation } from '../../schema/operationSchema';
+
+const UPDATED_AT = 1_800_000_000;
+
+/**
+ * Node with a 0.01 gwei gas price, no L1 fee and ETH at $2000, last updated at UPDATED_AT
+ */
+function createTransport(): RpcTransport {
+  const coder = AbiCoder.defaultAbiCoder();
+
+  return vi.fn(async (method: string, params: unknown[]) => {
+    if (method === 'eth_getBlockByNumber') {
+      return { baseFeePerGas: '0x989680' };
+    }
+    if (method === 'eth_maxPriorityFeePerGas') {
+      return '0x0';
+    }
+    const [{ to, data }] = params as [{ to: string; data: string }];
+    if (to === BASE_FEE_CONTRACTS.gasPriceOracle) {
+      return coder.encode(['uint256'], [BigInt(0)]);
+    }
+    return data === '0x313ce567'
+      ? coder.encode(['uint8'], [8])
+      : coder.encode(['uint80', 'int256', 'uint256', 'uint256', 'uint80'], [BigInt(1), BigInt(200_000_000_000), UPDATED_AT, UPDATED_AT, BigInt(1)]);
+  });
+}
+
+describe('RpcFeeService', () => {
+  const operations: SerializedOperation[] = [
+    { type: OperationType.CHECK_FUNDING_RATE, order: 1, params: { ticker: 'ETH/USDC', minRate: 0.01 } },
+    { type: OperationType.OPEN_SHORT, order: 2, params: { ticker: 'ETH/USDC', size: 50, leverage: 1 } }
+  ];
+
+  it('should estimate the fees of the strategy operations', async () => {
+    const fees = new RpcFeeService({
+      transport: createTransport(),
+      operations,
+      clock: { now: () => UPDATED_AT * 1000, sleep: vi.fn() }
+    });
+
+    const estimate = await fees.estimateStrategyFees();
+
+    // 450000 gas at 0.01 gwei, at $2000
+    expect(estimate).toMatchObject({ gasUnits: 450000, totalFeeWei: '4500000000000' });
+    expect(estimate.totalFeeUSD).toBeCloseTo(0.009, 10);
+  });
+
+  it('should measure the price age on its clock', async () => {
+    const fees = new RpcFeeService({
+      transport: createTransport(),
+      operations,
+      clock: { now: () => (UPDATED_AT + 600) * 1000, sleep: vi.fn() },
+      estimation: { maxPriceAgeSeconds: 300 }
+    });
+
+    await expect(fees.estimateStrategyFees()).rejects.toThrow('ETH/USD price feed answer is stale (600s old)');
+  });
+});
@@ -0,0 +1,217 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AbiCoder, Interface, Provider, toBigInt } from 'ethers';
+import { TransactionManager, TransactionReceipt } from '../../executor/ExecutionContext';
+import { EnclaveWallet } from '../EnclaveWallet';
+import { encodePrecise } from '../AvantisPerpetualService';
+import {
+  AVANTIS_POSITION_PREDICATE,
+  FUSION_LIMIT_ORDER_PROTOCOL,
+  FusionError,
+  FusionOneInchService,
+  FusionOneInchServiceOptions,
+  LIMIT_ORDER_PROTOCOL,
+  createFusionFetchTransport,
+  encodeExtension
+} from '../FusionOneInchService';
+import { FakeFusionRelayer, extensionField, startFakeFusionRelayer } from './fakeFusionRelayer';
+
+/** First development account of anvil (and hardhat) */
+const DEV_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const DEV_ADDRESS = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const USDC = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+const WETH = '0x4200000000000000000000000000000000000006';
+const SETTLEMENT = '0x1000000000000000000000000000000000000005';
+const PREDICATE = '0x1000000000000000000000000000000000000004';
+const NOW = 1_800_000_000_000;
+
+const ERC20 = new Interface(['function approve(address spender, uint256 amount) returns (bool)']);
+
+describe('FusionOneInchService', () => {
+  let relayer: FakeFusionRelayer;
+  let allowance: bigint;
+  let transactions: TransactionManager;
+  let wallet: EnclaveWallet;
+
+  beforeEach(async () => {
+    relayer = await startFakeFusionRelayer({
+      chainId: 8453,
+      limitOrderProtocol: FUSION_LIMIT_ORDER_PROTOCOL,
+      settlementAddress: SETTLEMENT,
+      tokens: {
+        [USDC.toLowerCase()]: { decimals: 6, usd: 1 },
+        [WETH.toLowerCase()]: { decimals: 18, usd: 2500 }
+      }
+    });
+
+    allowance = BigInt(0);
+    const provider = {
+      call: vi.fn(async () => AbiCoder.defaultAbiCoder().encode(['uint256'], [allowance]))
+    } as unknown as Provider;
+    transactions = {
+      send: vi.fn(async () => ({ transactionHash: `0x${'a'.repeat(64)}`, status: 'success', gasUsed: '46000' }) as TransactionReceipt)
+    };
+    wallet = new EnclaveWallet(DEV_KEY, provider, 8453);
+  });
+
+  afterEach(async () => {
+    await relayer.close();
+  });
+
+  function createService(options: Partial<FusionOneInchServiceOptions> = {}) {
+    let time = NOW;
+    return new FusionOneInchService({
+      transport: createFusionFetchTransport(relayer.url, 'dev-portal-key'),
+      chainId: 8453,
+      provider: wallet.provider,
+      transactions,
+      tokens: { USDC: { address: USDC, decimals: 6 }, WETH: { address: WETH, decimals: 18 } },
+      clock: { now: () => time, sleep: vi.fn(async (ms: number) => { time += ms; }) },
+      ...options
+    });
+  }
+
+  it('should approve, sign, submit and follow a market buy until it fills', async () => {
+    const service = createService();
+
+    const result = await service.executeFusionSwap({
+      asset: 'ETH', side: 'buy', amount: '500', orderType: 'market', wallet, slippage: 0.5
+    });
+
+    expect(transactions.send).toHaveBeenCalledWith({
+      to: USDC,
+      data: ERC20.encodeFunctionData('approve', [FUSION_LIMIT_ORDER_PROTOCOL, 500000000])
+    });
+
+    const [submitted] = relayer.orders.values();
+    expect(submitted.quoteId).toBe('quote-1');
+    expect(submitted.order).toMatchObject({
+      maker: DEV_ADDRESS,
+      makerAsset: USDC,
+      takerAsset: WETH,
+      makingAmount: '500000000',
+      // 0.2 WETH quoted, less 0.5% slippage
+      takingAmount: '199000000000000000'
+    });
+    expect(submitted.predicate).toBe('0x');
+
+    // Expires when the auction ends: 12s after now, for 180s
+    const expiration = (toBigInt(submitted.order.makerTraits) >> BigInt(80)) & ((BigInt(1) << BigInt(40)) - BigInt(1));
+    expect(expiration).toBe(BigInt(NOW / 1000 + 192));
+    expect(extensionField(submitted.extension, 2).toLowerCase().startsWith(SETTLEMENT.toLowerCase())).toBe(true);
+
+    expect(result).toEqual({
+      amountReceived: '0.2',
+      executionPrice: '2500',
+      transactionHash: submitted.state.fills[0].txHash,
+      fusionOrderId: submitted.state.orderHash
+    });
+    expect(relayer.requests.every(request => request.authorization === 'Bearer dev-portal-key')).toBe(true);
+  });
+
+  it('should make orders hedging a short conditional on the short being open', async () => {
+    const service = createService({ positionPredicate: PREDICATE });
+
+    await service.executeFusionSwap({
+      asset: 'WETH',
+      amount: '500',
+      orderType: 'market',
+      shortPosition: { pair: 'ETH/USDC', tradeIndex: 3, entryPrice: '2500.5' },
+      wallet,
+      slippage: 0.5
+    });
+
+    const [submitted] = relayer.orders.values();
+    const [target, data] = LIMIT_ORDER_PROTOCOL.decodeFunctionData('arbitraryStaticCall', submitted.predicate);
+    expect(target).toBe(PREDICATE);
+    expect([...AVANTIS_POSITION_PREDICATE.decodeFunctionData('checkShortPositionConfirmed', data)])
+      .toEqual([DEV_ADDRESS, BigInt(0), BigInt(3), encodePrecise('2500.5')]);
+  });
+
+  it('should place a limit sell at the minimum price and leave it to resolvers', async () => {
+    allowance = BigInt(10) ** BigInt(18);
+    relayer.resolvers = 'wait';
+    const service = createService();
+
+    const result = await service.executeFusionSwap({
+      asset: 'ETH', side: 'sell', amount: '0.2', orderType: 'limit', minPrice: '2600', wallet, slippage: 0.5
+    });
+
+    expect(transactions.send).not.toHaveBeenCalled();
+    const [submitted] = relayer.orders.values();
+    expect(submitted.order).toMatchObject({ makerAsset: WETH, takerAsset: USDC, takingAmount: '520000000' });
+    expect(result).toEqual({ amountReceived: '520.0', executionPrice: '2600', fusionOrderId: submitted.state.orderHash });
+    expect(relayer.requests.some(request => request.path.includes('/order/status/'))).toBe(false);
+
+    await expect(service.getOrderStatus(submitted.state.orderHash)).resolves.toMatchObject({ status: 'pending' });
+  });
+
+  it('should report a missing quote without placing an order', async () => {
+    relayer.quoting = false;
+
+    const swap = createService().executeFusionSwap({
+      asset: 'ETH', side: 'buy', amount: '500', orderType: 'market', wallet, slippage: 0.5
+    });
+
+    await expect(swap).rejects.toThrow(FusionError);
+    await expect(swap).rejects.toMatchObject({ code: 'FUSION_QUOTE_UNAVAILABLE' });
+    await expect(swap).rejects.toThrow('insufficient liquidity');
+    expect(relayer.orders.size).toBe(0);
+    expect(transactions.send).not.toHaveBeenCalled();
+  });
+
+  it('should fail when a market order expires unfilled', async () => {
+    relayer.resolvers = 'expire';
+
+    const swap = createService().executeFusionSwap({
+      asset: 'ETH', side: 'buy', amount: '500', orderType: 'market', wallet, slippage: 0.5
+    });
+
+    await expect(swap).rejects.toMatchObject({ code: 'FUSION_ORDER_EXPIRED' });
+    const [orderHash] = relayer.orders.keys();
+    await expect(swap).rejects.toMatchObject({ orderHash });
+  });
+
+  it('should stop following a market order once its auction is over', async () => {
+    relayer.resolvers = 'wait';
+
+    await expect(createService({ pollIntervalMs: 30000 }).executeFusionSwap({
+      asset: 'ETH', side: 'buy', amount: '500', orderType: 'market', wallet, slippage: 0.5
+    })).rejects.toMatchObject({ code: 'FUSION_ORDER_EXPIRED' });
+
+    // Every 30s for 192s until expiration plus one interval, and once at its end
+    const checks = relayer.requests.filter(request => request.path.includes('/order/status/'));
+    expect(checks).toHaveLength(9);
+  });
+
+  it('should stop following a market order when the swap is cancelled', async () => {
+    relayer.resolvers = 'wait';
+    const cancel = new AbortController();
+
+    await expect(createService({ clock: { now: () => NOW, sleep: vi.fn(async () => cancel.abort()) } }).executeFusionSwap({
+      asset: 'ETH', side: 'buy', amount: '500', orderType: 'market', wallet, slippage: 0.5, signal: cancel.signal
+    })).rejects.toMatchObject({ code: 'FUSION_WAIT_CANCELLED' });
+
+    // The open order may still fill, so it is not reported as expired
+    const checks = relayer.requests.filter(request => request.path.includes('/order/status/'));
+    expect(checks).toHaveLength(1);
+  });
+
+  it('should quote the spot route', async () => {
+    await expect(createService().getQuote({ asset: 'ETH', side: 'sell', amount: '2' }))
+      .resolves.toEqual({ amountOut: '5000.0', priceImpact: 0.1 });
+  });
+
+  it('should refuse assets without a configured token', async () => {
+    await expect(createService().getQuote({ asset: 'DOGE', side: 'buy', amount: '100' }))
+      .rejects.toThrow('Token DOGE is not configured');
+  });
+
+  it('should encode extension fields after their cumulative end offsets', () => {
+    const extension = encodeExtension(['0x', '0x', '0xaabb', '0xcc', '0x', '0x', '0x', '0xdd']);
+
+    expect(extension.slice(0, 66)).toBe(`0x${'00000004'}${'00000003'.repeat(4)}00000002${'00000000'.repeat(2)}`);
+    expect(extension.slice(66)).toBe('aabbccdd');
+    expect(extensionField(extension, 3)).toBe('0xcc');
+    expect(encodeExtension(Array(8).fill('0x'))).toBe('0x');
+  });
+});
@@ -0,0 +1,241 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AbiCoder, Provider, Transaction, zeroPadValue, id } from 'ethers';
+import { EnclaveWallet } from '../EnclaveWallet';
+import { RpcTransactionManager, RpcTransactionManagerOptions, TransactionError } from '../TransactionManager';
+
+const DEV_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const DEV_ADDRESS = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const RECIPIENT = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+interface FakeLog {
+  address: string;
+  topics: string[];
+  data: string;
+  index: number;
+}
+
+/**
+ * In-memory chain: transactions are only mined when a test calls mine(),
+ * and blocks only advance with advance()
+ */
+function createChain(pendingNonce = 5) {
+  const sent: Transaction[] = [];
+  const receipts = new Map<string, object>();
+  const canonical = new Map<number, string>();
+  let head = 100;
+  let minedNonce = pendingNonce;
+
+  const chain = {
+    sent,
+    get head() {
+      return head;
+    },
+    advance(blocks = 1) {
+      for (let i = 0; i < blocks; i++) {
+        head++;
+        canonical.set(head, `0x${head.toString(16).padStart(64, '0')}`);
+      }
+    },
+    /** Mines a broadcast transaction in a new block, unless it is already mined */
+    mine(transaction: Transaction, logs: FakeLog[] = []) {
+      if (receipts.has(transaction.hash as string)) {
+        return;
+      }
+      chain.advance();
+      receipts.set(transaction.hash as string, {
+        hash: transaction.hash,
+        blockNumber: head,
+        blockHash: canonical.get(head),
+        status: 1,
+        gasUsed: BigInt(21000),
+        gasPrice: BigInt(1100),
+        logs
+      });
+      minedNonce = Math.max(minedNonce, transaction.nonce + 1);
+    },
+    /** Replaces the block a transaction was mined in, sending the transaction back to the mempool */
+    reorg(transaction: Transaction) {
+      const receipt = receipts.get(transaction.hash as string) as { blockNumber: number };
+      canonical.set(receipt.blockNumber, `0x${'f'.repeat(64)}`);
+      receipts.delete(transaction.hash as string);
+      minedNonce = transaction.nonce;
+    },
+    /** Mines another transaction with the given nonce */
+    takeNonce(nonce: number) {
+      chain.advance();
+      minedNonce = Math.max(minedNonce, nonce + 1);
+    }
+  };
+
+  const provider = {
+    getTransactionCount: vi.fn(async (_address: string, tag: string) =>
+      tag === 'pending' ? Math.max(pendingNonce, ...sent.map(tx => tx.nonce + 1)) : minedNonce
+    ),
+    estimateGas: vi.fn().mockResolvedValue(BigInt(21000)),
+    getFeeData: vi.fn().mockResolvedValue({ gasPrice: null, maxFeePerGas: BigInt(1000), maxPriorityFeePerGas: BigInt(100) }),
+    broadcastTransaction: vi.fn(async (serialized: string) => {
+      sent.push(Transaction.from(serialized));
+      return {};
+    }),
+    getTransactionReceipt: vi.fn(async (hash: string) => receipts.get(hash) ?? null),
+    getBlockNumber: vi.fn(async () => head),
+    getBlock: vi.fn(async (blockNumber: number) => ({ hash: canonical.get(blockNumber) }))
+  };
+
+  return { chain, provider: provider as unknown as Provider & typeof provider };
+}
+
+/**
+ * Clock advancing instantly; onSleep runs after each sleep, where tests move the chain
+ */
+function createClock(onSleep: (now: number) => void = () => {}) {
+  let time = 0;
+  return {
+    now: () => time,
+    sleep: vi.fn(async (ms: number) => {
+      time += ms;
+      onSleep(time);
+    })
+  };
+}
+
+function createManager(provider: Provider, options: Partial<RpcTransactionManagerOptions> = {}) {
+  return new RpcTransactionManager({
+    provider,
+    wallet: new EnclaveWallet(DEV_KEY, provider, 8453),
+    pollIntervalMs: 2000,
+    stuckAfterMs: 10000,
+    timeoutMs: 60000,
+    ...options
+  });
+}
+
+describe('RpcTransactionManager', () => {
+  it('should give concurrent sends consecutive nonces and return their parsed receipts', async () => {
+    const { chain, provider } = createChain();
+    const manager = createManager(provider, { clock: createClock(() => chain.sent.forEach(tx => chain.mine(tx))) });
+
+    const receipts = await Promise.all([
+      manager.send({ to: RECIPIENT, value: '1' }),
+      manager.send({ to: RECIPIENT, value: '2' })
+    ]);
+
+    expect(chain.sent.map(tx => [tx.nonce, tx.value])).toEqual([[5, BigInt(1)], [6, BigInt(2)]]);
+    expect(provider.getTransactionCount.mock.calls.filter(([, tag]) => tag === 'pending')).toHaveLength(1);
+    expect(receipts[0]).toMatchObject({
+      transactionHash: chain.sent[0].hash,
+      nonce: 5,
+      status: 'success',
+      gasUsed: '21000',
+      effectiveGasPrice: '1100',
+      replacements: 0,
+      logs: [],
+      events: []
+    });
+    expect(receipts[1]).toMatchObject({ transactionHash: chain.sent[1].hash, nonce: 6 });
+  });
+
+  it('should replace a stuck transaction with higher fees and keep its nonce', async () => {
+    const { chain, provider } = createChain();
+    const clock = createClock(now => {
+      // The node only mines the replacement
+      if (now >= 14000 && chain.sent.length === 2) {
+        chain.mine(chain.sent[1]);
+      }
+    });
+
+    const receipt = await createManager(provider, { clock }).send({ to: RECIPIENT });
+
+    const [original, replacement] = chain.sent;
+    expect(replacement.nonce).toBe(original.nonce);
+    expect(original).toMatchObject({ maxFeePerGas: BigInt(1000), maxPriorityFeePerGas: BigInt(100) });
+    expect(replacement).toMatchObject({ maxFeePerGas: BigInt(1150), maxPriorityFeePerGas: BigInt(115), gasLimit: original.gasLimit });
+    expect(receipt).toMatchObject({ transactionHash: replacement.hash, nonce: 5, replacements: 1 });
+  });
+
+  it('should wait for the confirmations on the canonical chain and follow receipts through a reorg', async () => {
+    const { chain, provider } = createChain();
+    // Mined in block 101, reorged out at two confirmations, mined again in block 103
+    const steps = [
+      () => chain.mine(chain.sent[0]),
+      () => chain.advance(),
+      () => chain.reorg(chain.sent[0]),
+      () => chain.mine(chain.sent[0])
+    ];
+    const clock = createClock(() => (steps.shift() ?? (() => chain.advance()))());
+
+    const receipt = await createManager(provider, { clock }).send({ to: RECIPIENT }, { confirmations: 3 });
+
+    expect(receipt).toMatchObject({ blockNumber: 103, confirmations: 3 });
+    expect(chain.head).toBe(105);
+  });
+
+  it('should not return a receipt whose block is no longer canonical', async () => {
+    const { chain, provider } = createChain();
+    const clock = createClock(() => {
+      if (chain.head === 100) {
+        chain.mine(chain.sent[0]);
+      }
+    });
+    // The node keeps serving the receipt of a block that was replaced
+    provider.getBlock.mockResolvedValueOnce({ hash: `0x${'f'.repeat(64)}` });
+
+    const receipt = await createManager(provider, { clock }).send({ to: RECIPIENT });
+
+    expect(receipt.blockNumber).toBe(101);
+    expect(provider.getBlock).toHaveBeenCalledTimes(2);
+    expect(clock.sleep).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fail when another transaction is mined with its nonce', async () => {
+    const { chain, provider } = createChain();
+    const clock = createClock(() => chain.takeNonce(5));
+
+    const sent = createManager(provider, { clock }).send({ to: RECIPIENT });
+
+    await expect(sent).rejects.toThrow(TransactionError);
+    await expect(sent).rejects.toMatchObject({ code: 'TRANSACTION_DROPPED', transactionHashes: [chain.sent[0].hash] });
+  });
+
+  it('should time out once the replacements are exhausted', async () => {
+    const { chain, provider } = createChain();
+    const manager = createManager(provider, { clock: createClock(), maxReplacements: 2, timeoutMs: 40000 });
+
+    await expect(manager.send({ to: RECIPIENT })).rejects.toMatchObject({ code: 'TRANSACTION_TIMEOUT' });
+    expect(chain.sent.map(tx => tx.maxFeePerGas)).toEqual([BigInt(1000), BigInt(1150), BigInt(1323)]);
+  });
+
+  it('should read the nonce from the chain again after a failed broadcast', async () => {
+    const { chain, provider } = createChain();
+    const manager = createManager(provider, { clock: createClock(() => chain.sent.forEach(tx => chain.mine(tx))) });
+    provider.broadcastTransaction.mockRejectedValueOnce(new Error('socket hang up'));
+
+    await expect(manager.send({ to: RECIPIENT })).rejects.toThrow('socket hang up');
+    await manager.send({ to: RECIPIENT });
+
+    expect(provider.getTransactionCount.mock.calls.filter(([, tag]) => tag === 'pending')).toHaveLength(2);
+    expect(chain.sent[0].nonce).toBe(5);
+  });
+
+  it('should decode receipt logs with the given event ABI', async () => {
+    const { chain, provider } = createChain();
+    const transfer: FakeLog = {
+      address: RECIPIENT,
+      topics: [id('Transfer(address,address,uint256)'), zeroPadValue(DEV_ADDRESS, 32), zeroPadValue(RECIPIENT, 32)],
+      data: AbiCoder.defaultAbiCoder().encode(['uint256'], [BigInt(2500000)]),
+      index: 0
+    };
+    const unknown: FakeLog = { address: RECIPIENT, topics: [id('Approval(address,address,uint256)')], data: '0x', index: 1 };
+    const manager = createManager(provider, { clock: createClock(() => chain.mine(chain.sent[0], [transfer, unknown])) });
+
+    const receipt = await manager.send(
+      { to: RECIPIENT, data: '0xa9059cbb' },
+      { abi: ['event Transfer(address indexed from, address indexed to, uint256 value)'] }
+    );
+
+    expect(receipt.logs).toEqual([transfer, unknown]);
+    expect(receipt.events).toEqual([
+      { address: RECIPIENT, name: 'Transfer', args: { from: DEV_ADDRESS, to: RECIPIENT, value: '2500000' } }
+    ]);
+  });
+});
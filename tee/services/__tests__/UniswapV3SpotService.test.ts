@@ -0,0 +1,232 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Interface, Provider, Result, dataLength, dataSlice, getAddress, makeError } from 'ethers';
+import { SecureWallet, TransactionManager, TransactionReceipt } from '../../executor/ExecutionContext';
+import {
+  UNISWAP_V3_QUOTER,
+  UNISWAP_V3_QUOTER_V2,
+  UNISWAP_V3_ROUTER,
+  UniswapV3SpotService,
+  UniswapV3SpotServiceOptions,
+  encodePath
+} from '../UniswapV3SpotService';
+
+const TRADER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const ROUTER = '0x2626664c2603336E57B271c5C0b26F421741e481';
+const USDC = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+const WETH = '0x4200000000000000000000000000000000000006';
+const CBBTC = '0xcbB7C0000aB88B473b1f5aFd9ef808440eed33Bf';
+const NOW = 1_800_000_000_000;
+
+const ERC20 = new Interface([
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function approve(address spender, uint256 amount) returns (bool)'
+]);
+
+const TOKENS = {
+  USDC: { address: USDC, decimals: 6 },
+  WETH: { address: WETH, decimals: 18 },
+  cbBTC: { address: CBBTC, decimals: 8 }
+};
+
+/** Constant-product pool, with reserves in base units */
+interface Pool {
+  tokens: [string, string];
+  fee: number;
+  reserves: [bigint, bigint];
+}
+
+/** Output of a constant-product swap, fees aside */
+function swapOut(pool: Pool, tokenIn: string, amountIn: bigint): bigint {
+  const [reserveIn, reserveOut] = pool.tokens[0] === tokenIn ? pool.reserves : [pool.reserves[1], pool.reserves[0]];
+  return reserveOut * amountIn / (reserveIn + amountIn);
+}
+
+/**
+ * Uniswap V3 deployment quoting paths over constant-product pools. Paths
+ * through pools that do not exist revert, as QuoterV2 does. The router
+ * swaps at the quote and logs the output transfer.
+ */
+function createUniswap(pools: Pool[]) {
+  const uniswap = { allowance: BigInt(0), sent: [] as { to: string; method: string; args: unknown[]; abi?: string[] }[] };
+
+  const findPool = (a: string, b: string, fee: number) =>
+    pools.find(pool => pool.fee === fee && [a, b].every(token => pool.tokens.includes(token)));
+
+  const quote = (path: string, amountIn: bigint): bigint | undefined => {
+    let amount = amountIn;
+    let token = getAddress(dataSlice(path, 0, 20));
+    for (let offset = 20; offset < dataLength(path); offset += 23) {
+      const fee = Number(BigInt(dataSlice(path, offset, offset + 3)));
+      const next = getAddress(dataSlice(path, offset + 3, offset + 23));
+      const pool = findPool(token, next, fee);
+      if (!pool) {
+        return undefined;
+      }
+      amount = swapOut(pool, token, amount);
+      token = next;
+    }
+    return amount;
+  };
+
+  const provider = {
+    call: vi.fn(async ({ to, data }: { to: string; data: string }) => {
+      if (to === UNISWAP_V3_QUOTER_V2) {
+        const [path, amountIn] = UNISWAP_V3_QUOTER.decodeFunctionData('quoteExactInput', data);
+        const amountOut = quote(path, amountIn);
+        if (amountOut === undefined) {
+          throw makeError('execution reverted', 'CALL_EXCEPTION', { action: 'call', data: '0x', reason: null, transaction: { to, data }, invocation: null, revert: null });
+        }
+        return UNISWAP_V3_QUOTER.encodeFunctionResult('quoteExactInput', [amountOut, [], [], 100000]);
+      }
+      return ERC20.encodeFunctionResult('allowance', [uniswap.allowance]);
+    })
+  };
+
+  const transactions: TransactionManager = {
+    send: vi.fn(async ({ to, data }, options) => {
+      const events: TransactionReceipt['events'] = [];
+      if (to === ROUTER) {
+        const [deadline, [swap]] = UNISWAP_V3_ROUTER.decodeFunctionData('multicall', data as string);
+        const [params] = UNISWAP_V3_ROUTER.decodeFunctionData('exactInput', swap);
+        uniswap.sent.push({ to, method: 'exactInput', args: [deadline, (params as Result).toObject()], abi: options?.abi });
+
+        const amountOut = quote(params.path, params.amountIn)!;
+        const tokenOut = getAddress(dataSlice(params.path, dataLength(params.path) - 20));
+        events.push({ address: tokenOut, name: 'Transfer', args: { from: ROUTER, to: params.recipient, value: amountOut.toString() } });
+      } else {
+        const call = ERC20.parseTransaction({ data: data as string })!;
+        uniswap.sent.push({ to, method: call.name, args: [...call.args] });
+        uniswap.allowance = call.args[1];
+      }
+
+      return {
+        transactionHash: `0x${uniswap.sent.length.toString(16).padStart(64, '0')}`,
+        status: 'success',
+        gasUsed: '180000',
+        logs: [],
+        events
+      } as unknown as TransactionReceipt;
+    })
+  };
+
+  return { uniswap, quote, provider: provider as unknown as Provider & typeof provider, transactions };
+}
+
+/** Deep WETH pools and a shallow direct cbBTC pool, pricing BTC at 100000 and ETH at 2500 */
+const POOLS: Pool[] = [
+  { tokens: [USDC, WETH], fee: 500, reserves: [BigInt(100_000_000_000000), BigInt(40_000) * BigInt(10) ** BigInt(18)] },
+  { tokens: [WETH, CBBTC], fee: 500, reserves: [BigInt(40_000) * BigInt(10) ** BigInt(18), BigInt(1000_00000000)] },
+  { tokens: [USDC, CBBTC], fee: 3000, reserves: [BigInt(1_000_000_000000), BigInt(10_00000000)] }
+];
+
+function createService(setup: ReturnType<typeof createUniswap>, options: Partial<UniswapV3SpotServiceOptions> = {}) {
+  return new UniswapV3SpotService({
+    provider: setup.provider,
+    transactions: setup.transactions,
+    tokens: TOKENS,
+    router: ROUTER,
+    clock: { now: () => NOW, sleep: vi.fn() },
+    ...options
+  });
+}
+
+const wallet = { address: TRADER } as SecureWallet;
+
+describe('UniswapV3SpotService', () => {
+  it('should encode paths as tokens interleaved with 3-byte fees', () => {
+    expect(encodePath([USDC, WETH], [500])).toBe(`${USDC}0001f4${WETH.slice(2)}`.toLowerCase());
+    expect(() => encodePath([USDC, WETH], [])).toThrow('A path needs one fee tier per hop');
+  });
+
+  it('should buy through the best multi-hop route with the slippage-bound minimum', async () => {
+    const setup = createUniswap(POOLS);
+
+    const result = await createService(setup).executeFusionSwap({
+      asset: 'BTC', side: 'buy', amount: '10000', orderType: 'market', wallet, slippage: 0.5
+    });
+
+    const path = encodePath([USDC, WETH, CBBTC], [500, 500]);
+    const quoted = setup.quote(path, BigInt(10_000_000000))!;
+    // Through WETH beats the shallow direct pool
+    expect(quoted).toBeGreaterThan(setup.quote(encodePath([USDC, CBBTC], [3000]), BigInt(10_000_000000))!);
+
+    expect(setup.uniswap.sent.map(call => [call.to, call.method])).toEqual([[USDC, 'approve'], [ROUTER, 'exactInput']]);
+    expect(setup.uniswap.sent[0].args).toEqual([ROUTER, BigInt(10_000_000000)]);
+    expect(setup.uniswap.sent[1].args).toEqual([
+      BigInt(NOW / 1000 + 300),
+      { path, recipient: TRADER, amountIn: BigInt(10_000_000000), amountOutMinimum: quoted * BigInt(9950) / BigInt(10000) }
+    ]);
+    expect(setup.uniswap.sent[1].abi).toEqual(['event Transfer(address indexed from, address indexed to, uint256 value)']);
+
+    expect(result).toEqual({
+      amountReceived: '0.09998',
+      executionPrice: '100020.0040008',
+      transactionHash: `0x${'2'.padStart(64, '0')}`,
+      gasUsed: '180000'
+    });
+  });
+
+  it('should sell without approving again and keep the minimum price as a floor', async () => {
+    const setup = createUniswap(POOLS);
+    setup.uniswap.allowance = BigInt(10) ** BigInt(18);
+
+    const result = await createService(setup).executeFusionSwap({
+      asset: 'ETH', side: 'sell', amount: '1', orderType: 'market', minPrice: '2499', wallet, slippage: 1
+    });
+
+    expect(setup.uniswap.sent.map(call => call.method)).toEqual(['exactInput']);
+    expect(setup.uniswap.sent[0].args[1]).toMatchObject({
+      path: encodePath([WETH, USDC], [500]),
+      // 1% below the ~2499.94 quote is under the floor
+      amountOutMinimum: BigInt(2499_000000)
+    });
+    expect(result.amountReceived).toBe('2499.937501');
+  });
+
+  it('should not swap a limit buy the best route cannot fill at the target price', async () => {
+    const setup = createUniswap(POOLS);
+
+    await expect(createService(setup).executeFusionSwap({
+      asset: 'ETH', side: 'buy', amount: '2500', orderType: 'limit', targetPrice: '2400', wallet, slippage: 0.5
+    })).rejects.toThrow('Uniswap V3 quotes 0.999975000624984375 WETH for 2500 USDC, below the minimum 1.041666666666666666');
+    expect(setup.transactions.send).not.toHaveBeenCalled();
+  });
+
+  it('should fail when no pool connects the tokens', async () => {
+    const setup = createUniswap(POOLS.filter(pool => !pool.tokens.includes(CBBTC)));
+
+    await expect(createService(setup).executeFusionSwap({
+      asset: 'BTC', side: 'buy', amount: '100', orderType: 'market', wallet, slippage: 0.5
+    })).rejects.toThrow('No Uniswap V3 route for USDC -> cbBTC');
+  });
+
+  it('should search direct pools of every fee tier and two hops through the intermediaries', async () => {
+    const setup = createUniswap(POOLS);
+
+    await createService(setup, { feeTiers: [500, 3000] }).findRoute(
+      { symbol: 'USDC', ...TOKENS.USDC },
+      { symbol: 'cbBTC', ...TOKENS.cbBTC },
+      BigInt(100_000000)
+    );
+
+    // 2 direct and 2 x 2 through WETH
+    expect(setup.provider.call).toHaveBeenCalledTimes(6);
+  });
+
+  it('should not take node failures for missing pools', async () => {
+    const setup = createUniswap(POOLS);
+    setup.provider.call.mockRejectedValueOnce(new Error('connection refused'));
+
+    await expect(createService(setup).getQuote({ asset: 'ETH', side: 'sell', amount: '1' }))
+      .rejects.toThrow('connection refused');
+  });
+
+  it('should quote with the price impact against a small reference swap', async () => {
+    const setup = createUniswap(POOLS);
+
+    const quote = await createService(setup).getQuote({ asset: 'ETH', side: 'buy', amount: '1000000' });
+
+    expect(quote.amountOut).toBe('396.039603960396039603');
+    expect(quote.priceImpact).toBeCloseTo(0.99, 2);
+  });
+});
@@ -0,0 +1,224 @@
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { TypedDataEncoder, dataSlice, getBytes, keccak256, toBigInt, verifyTypedData } from 'ethers';
+import { FUSION_ORDER_TYPES, FusionLimitOrder, FusionOrderState, FusionQuote } from '../FusionOneInchService';
+
+/**
+ * Options of a fake Fusion relayer
+ */
+export interface FakeFusionRelayerOptions {
+  chainId: number;
+  limitOrderProtocol: string;
+  settlementAddress: string;
+  /** USD price and decimals of the tradable tokens, by lowercase address */
+  tokens: Record<string, { decimals: number; usd: number }>;
+}
+
+/**
+ * Order accepted by the fake relayer
+ */
+export interface SubmittedFusionOrder {
+  order: FusionLimitOrder;
+  signature: string;
+  extension: string;
+  quoteId: string;
+  /** Predicate field of the extension ('0x' if none) */
+  predicate: string;
+  state: FusionOrderState;
+}
+
+/**
+ * Local stand-in for the quoter, relayer and orders APIs of 1inch Fusion
+ */
+export interface FakeFusionRelayer {
+  /** API root to point a transport at */
+  url: string;
+  /** Requests received, in order */
+  requests: { method: string; path: string; authorization?: string }[];
+  /** Orders accepted, by order hash */
+  orders: Map<string, SubmittedFusionOrder>;
+  /** Whether the quoter finds routes */
+  quoting: boolean;
+  /** What resolvers do with a pending order when its status is next read */
+  resolvers: 'fill' | 'expire' | 'wait';
+  close(): Promise<void>;
+}
+
+const ORDER_SUBMIT = /^\/fusion\/relayer\/v2\.0\/(\d+)\/order\/submit$/;
+const ORDER_STATUS = /^\/fusion\/orders\/v2\.0\/(\d+)\/order\/status\/(0x[0-9a-fA-F]{64})$/;
+const QUOTE = /^\/fusion\/quoter\/v2\.0\/(\d+)\/quote\/receive$/;
+
+/**
+ * Starts a fake Fusion relayer on a free localhost port.
+ *
+ * It quotes at the configured USD prices with a single 'fast' preset,
+ * accepts orders whose signature recovers to their maker and whose salt
+ * commits to their extension, and lets resolvers fill (at the quoted amount)
+ * or expire pending orders as `resolvers` says.
+ *
+ * @param options - Chain, contracts and token prices
+ * @returns Promise resolving to the running relayer
+ */
+export async function startFakeFusionRelayer(options: FakeFusionRelayerOptions): Promise<FakeFusionRelayer> {
+  const quotes = new Map<string, bigint>();
+  const domain = {
+    name: '1inch Aggregation Router',
+    version: '6',
+    chainId: options.chainId,
+    verifyingContract: options.limitOrderProtocol
+  };
+
+  const quote = (query: URLSearchParams): FusionQuote => {
+    const from = options.tokens[query.get('fromTokenAddress')!.toLowerCase()];
+    const to = options.tokens[query.get('toTokenAddress')!.toLowerCase()];
+    const amount = BigInt(query.get('amount')!);
+    const out = amount * BigInt(Math.round(from.usd * 1e8)) * BigInt(10) ** BigInt(to.decimals)
+      / (BigInt(Math.round(to.usd * 1e8)) * BigInt(10) ** BigInt(from.decimals));
+
+    const quoteId = `quote-${quotes.size + 1}`;
+    quotes.set(quoteId, out);
+    return {
+      quoteId,
+      fromTokenAmount: amount.toString(),
+      toTokenAmount: out.toString(),
+      recommended_preset: 'fast',
+      presets: {
+        fast: {
+          auctionDuration: 180,
+          startAuctionIn: 12,
+          initialRateBump: 50000,
+          auctionStartAmount: (out * BigInt(1005) / BigInt(1000)).toString(),
+          auctionEndAmount: (out * BigInt(995) / BigInt(1000)).toString(),
+          points: [{ delay: 60, coefficient: 25000 }],
+          allowPartialFills: false,
+          allowMultipleFills: false,
+          gasCost: { gasBumpEstimate: 0, gasPriceEstimate: '0' }
+        }
+      },
+      settlementAddress: options.settlementAddress,
+      whitelist: ['0x00000000000000000000000000000000000000aa'],
+      priceImpactPercent: 0.1
+    };
+  };
+
+  const submit = (body: { order: FusionLimitOrder; signature: string; extension: string; quoteId: string }): string | undefined => {
+    const { order, signature, extension, quoteId } = body;
+    if (!quotes.has(quoteId)) {
+      return 'Unknown quote';
+    }
+    if (verifyTypedData(domain, FUSION_ORDER_TYPES, order, signature).toLowerCase() !== order.maker.toLowerCase()) {
+      return 'Invalid signature';
+    }
+    const mask = (BigInt(1) << BigInt(160)) - BigInt(1);
+    if ((BigInt(order.salt) & mask) !== (toBigInt(keccak256(extension)) & mask)) {
+      return 'Salt does not match the extension';
+    }
+
+    const orderHash = TypedDataEncoder.hash(domain, FUSION_ORDER_TYPES, order);
+    relayer.orders.set(orderHash, {
+      ...body,
+      predicate: extensionField(extension, 4),
+      state: { orderHash, status: 'pending', fills: [] }
+    });
+    return undefined;
+  };
+
+  const resolve = (submitted: SubmittedFusionOrder): void => {
+    if (submitted.state.status !== 'pending' || relayer.resolvers === 'wait') {
+      return;
+    }
+    if (relayer.resolvers === 'expire') {
+      submitted.state.status = 'expired';
+      return;
+    }
+
+    const quoted = quotes.get(submitted.quoteId)!;
+    const takingAmount = BigInt(submitted.order.takingAmount);
+    submitted.state = {
+      ...submitted.state,
+      status: 'filled',
+      fills: [{
+        txHash: keccak256(submitted.state.orderHash),
+        filledMakerAmount: submitted.order.makingAmount,
+        filledAuctionTakerAmount: (quoted > takingAmount ? quoted : takingAmount).toString()
+      }]
+    };
+  };
+
+  const handle = async (request: IncomingMessage, response: ServerResponse): Promise<void> => {
+    const url = new URL(request.url!, 'http://localhost');
+    relayer.requests.push({ method: request.method!, path: url.pathname, authorization: request.headers.authorization });
+
+    const reply = (status: number, body?: unknown) => {
+      response.writeHead(status, body === undefined ? {} : { 'Content-Type': 'application/json' });
+      response.end(body === undefined ? undefined : JSON.stringify(body));
+    };
+
+    if (request.method === 'GET' && QUOTE.test(url.pathname)) {
+      return relayer.quoting
+        ? reply(200, quote(url.searchParams))
+        : reply(400, { statusCode: 400, description: 'insufficient liquidity' });
+    }
+
+    if (request.method === 'POST' && ORDER_SUBMIT.test(url.pathname)) {
+      const error = submit(JSON.parse(await readBody(request)));
+      return error ? reply(400, { statusCode: 400, description: error }) : reply(201);
+    }
+
+    const status = url.pathname.match(ORDER_STATUS);
+    if (request.method === 'GET' && status) {
+      const submitted = relayer.orders.get(status[2].toLowerCase());
+      if (!submitted) {
+        return reply(404, { statusCode: 404, description: 'Order not found' });
+      }
+      resolve(submitted);
+      return reply(200, submitted.state);
+    }
+
+    reply(404, { statusCode: 404, description: 'Not found' });
+  };
+
+  const server = createServer((request, response) => {
+    handle(request, response).catch(error => {
+      response.writeHead(500);
+      response.end(JSON.stringify({ statusCode: 500, description: String(error) }));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  const relayer: FakeFusionRelayer = {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    requests: [],
+    orders: new Map(),
+    quoting: true,
+    resolvers: 'fill',
+    close: () => new Promise(resolve => server.close(() => resolve()))
+  };
+
+  return relayer;
+}
+
+/**
+ * Reads a field of a Limit Order Protocol v4 extension.
+ *
+ * @param extension - Encoded extension
+ * @param index - Field index (4 is the predicate)
+ * @returns Field
+ */
+export function extensionField(extension: string, index: number): string {
+  if (getBytes(extension).length === 0) {
+    return '0x';
+  }
+  const offsets = toBigInt(dataSlice(extension, 0, 32));
+  const end = (shift: number) => Number((offsets >> BigInt(32 * shift)) & BigInt(0xffffffff));
+  return dataSlice(extension, 32 + (index === 0 ? 0 : end(index - 1)), 32 + end(index));
+}
+
+function readBody(request: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    request.on('data', chunk => { body += chunk; });
+    request.on('end', () => resolve(body));
+    request.on('error', reject);
+  });
+}